@@ -20,6 +20,7 @@ import {
 } from "lucide-react"
 
 import { useUser } from "@/components/AuthWrapper"
+import { PacingAlertRulesCard } from "@/components/pacing/PacingAlertRulesCard"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -131,6 +132,7 @@ export default function AccountPage() {
   const userRoles = getUserRoles(user)
   const primaryRole = userRoles[0] ?? "No role"
   const isAdmin = userRoles.includes("admin")
+  const canSubscribeToPacingAlerts = isAdmin || userRoles.includes("manager")
   const createdAt = user.updated_at ? new Date(user.updated_at).toLocaleDateString() : "Unknown"
 
   const handlePasswordChange = () => {
@@ -493,6 +495,7 @@ export default function AccountPage() {
                 )}
               </CardContent>
             </Card>
+            {canSubscribeToPacingAlerts ? <PacingAlertRulesCard /> : null}
           </TabsContent>
         </Tabs>
       </div>
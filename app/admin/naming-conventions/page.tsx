@@ -0,0 +1,21 @@
+"use client"
+
+import { AdminGuard } from "@/components/guards/AdminGuard"
+import { NamingConventionsEditor } from "@/components/naming/NamingConventionsEditor"
+
+export default function NamingConventionsPage() {
+  return (
+    <AdminGuard>
+      <main className="mx-auto flex max-w-5xl flex-col gap-6 bg-background px-4 py-10">
+        <div>
+          <h1 className="text-2xl font-semibold text-foreground">Client Naming Conventions</h1>
+          <p className="text-sm text-muted-foreground">
+            Override element order, picklists, separator and case for clients with their own taxonomy. The trafficking
+            builder and naming workbooks pick these up whenever that client&apos;s MBA is open.
+          </p>
+        </div>
+        <NamingConventionsEditor />
+      </main>
+    </AdminGuard>
+  )
+}
@@ -80,6 +80,7 @@ type ChatRequestBody = {
     channel?: string
     mapped?: unknown
     fileName?: string
+    flight?: unknown
   }
   /** Current grid line items from bridge getLineItems (adjust_line_items). */
   currentLineItems?: {
@@ -332,6 +333,10 @@ function coercePendingParsedPlan(
   if (typeof raw.fileName === "string" && raw.fileName.trim()) {
     pending.fileName = raw.fileName.trim()
   }
+  const flight = raw.flight as PendingParsedPlan["flight"] | undefined
+  if (flight && typeof flight === "object" && Array.isArray(flight.columns)) {
+    pending.flight = flight
+  }
   return pending
 }
 
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth0 } from "@/lib/auth0"
+import { checkClientMbaAccess } from "@/lib/auth/checkClientMbaAccess"
+import { resolveCreativeActor } from "@/lib/creative/actor"
+import { lineageIdOf, reviewStatusOf, validateCommentBody, versionOf } from "@/lib/creative/review"
+import {
+  createActivity,
+  getById,
+  listActivityByLineage,
+  XanoCreativeAssetError,
+} from "@/lib/creative/xanoCreativeAssets"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+function xanoErrorResponse(error: unknown): NextResponse {
+  if (error instanceof XanoCreativeAssetError) {
+    if (error.status === 401) {
+      return NextResponse.json({ error: "Xano unauthorized" }, { status: 401 })
+    }
+    return NextResponse.json({ error: error.message }, { status: 502 })
+  }
+  console.error("creative-assets [id]/activity route:", error)
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+}
+
+function parseId(raw: string): number | null {
+  const id = Number(raw)
+  if (!Number.isFinite(id) || id <= 0) return null
+  return id
+}
+
+/** Review history and comments for every version in this asset's lineage. */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth0.getSession(request)
+    if (!session?.user) {
+      return NextResponse.json({ error: "unauthorised" }, { status: 401 })
+    }
+
+    const { id: idRaw } = await params
+    const id = parseId(idRaw)
+    if (!id) {
+      return NextResponse.json({ error: "Invalid id" }, { status: 400 })
+    }
+
+    const existing = await getById(id)
+    if (!existing) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 })
+    }
+
+    const actor = resolveCreativeActor(session.user as { [key: string]: unknown })
+    if (actor.role === "client") {
+      const access = await checkClientMbaAccess(request, existing.mba_number)
+      if (!access.ok) return access.response
+    }
+
+    const rows = await listActivityByLineage(lineageIdOf(existing), existing.mba_number)
+    return NextResponse.json(rows)
+  } catch (error) {
+    return xanoErrorResponse(error)
+  }
+}
+
+/** Pin a comment to this asset version. */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth0.getSession(request)
+    if (!session?.user) {
+      return NextResponse.json({ error: "unauthorised" }, { status: 401 })
+    }
+
+    const { id: idRaw } = await params
+    const id = parseId(idRaw)
+    if (!id) {
+      return NextResponse.json({ error: "Invalid id" }, { status: 400 })
+    }
+
+    const existing = await getById(id)
+    if (!existing) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 })
+    }
+
+    const actor = resolveCreativeActor(session.user as { [key: string]: unknown })
+    if (actor.role === "client") {
+      const access = await checkClientMbaAccess(request, existing.mba_number)
+      if (!access.ok) return access.response
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+    }
+
+    const parsed = validateCommentBody(body)
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const status = reviewStatusOf(existing)
+    const row = await createActivity({
+      asset_id: id,
+      lineage_id: lineageIdOf(existing),
+      mba_number: existing.mba_number,
+      version: versionOf(existing),
+      kind: "comment",
+      body: parsed.value.body,
+      from_status: status,
+      to_status: status,
+      author_email: actor.email,
+      author_name: actor.name,
+      author_role: actor.role,
+    })
+
+    return NextResponse.json(row, { status: 201 })
+  } catch (error) {
+    return xanoErrorResponse(error)
+  }
+}
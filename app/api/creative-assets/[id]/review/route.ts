@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth0 } from "@/lib/auth0"
+import { checkClientMbaAccess } from "@/lib/auth/checkClientMbaAccess"
+import { resolveCreativeActor } from "@/lib/creative/actor"
+import {
+  checkReviewTransition,
+  lineageIdOf,
+  reviewStatusOf,
+  validateReviewBody,
+  versionOf,
+} from "@/lib/creative/review"
+import {
+  createActivity,
+  getById,
+  update,
+  XanoCreativeAssetError,
+} from "@/lib/creative/xanoCreativeAssets"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+function xanoErrorResponse(error: unknown): NextResponse {
+  if (error instanceof XanoCreativeAssetError) {
+    if (error.status === 401) {
+      return NextResponse.json({ error: "Xano unauthorized" }, { status: 401 })
+    }
+    return NextResponse.json({ error: error.message }, { status: 502 })
+  }
+  console.error("creative-assets [id]/review route:", error)
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+}
+
+function parseId(raw: string): number | null {
+  const id = Number(raw)
+  if (!Number.isFinite(id) || id <= 0) return null
+  return id
+}
+
+/** Move an asset version through draft → in review → client approved → trafficked (or rejected). */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth0.getSession(request)
+    if (!session?.user) {
+      return NextResponse.json({ error: "unauthorised" }, { status: 401 })
+    }
+
+    const { id: idRaw } = await params
+    const id = parseId(idRaw)
+    if (!id) {
+      return NextResponse.json({ error: "Invalid id" }, { status: 400 })
+    }
+
+    const existing = await getById(id)
+    if (!existing) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 })
+    }
+
+    const actor = resolveCreativeActor(session.user as { [key: string]: unknown })
+    if (actor.role === "client") {
+      const access = await checkClientMbaAccess(request, existing.mba_number)
+      if (!access.ok) return access.response
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+    }
+
+    const parsed = validateReviewBody(body)
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const from = reviewStatusOf(existing)
+    const transition = checkReviewTransition(from, parsed.value.to_status, actor.role)
+    if (!transition.ok) {
+      return NextResponse.json({ error: transition.error }, { status: 409 })
+    }
+
+    const asset = await update(id, {
+      review_status: parsed.value.to_status,
+      rejection_reason: parsed.value.to_status === "rejected" ? parsed.value.reason : "",
+    })
+    const activity = await createActivity({
+      asset_id: id,
+      lineage_id: lineageIdOf(existing),
+      mba_number: existing.mba_number,
+      version: versionOf(existing),
+      kind: "review",
+      body: parsed.value.reason,
+      from_status: from,
+      to_status: parsed.value.to_status,
+      author_email: actor.email,
+      author_name: actor.name,
+      author_role: actor.role,
+    })
+
+    return NextResponse.json({ asset, activity })
+  } catch (error) {
+    return xanoErrorResponse(error)
+  }
+}
@@ -3,13 +3,14 @@ import { del } from "@vercel/blob"
 import { auth0 } from "@/lib/auth0"
 import { checkClientMbaAccess } from "@/lib/auth/checkClientMbaAccess"
 import { getUserRoles } from "@/lib/rbac"
+import { refreshAssetSpecCheck } from "@/lib/creative/resolveAssetSpec"
 import {
   getById,
   remove,
   update,
   XanoCreativeAssetError,
 } from "@/lib/creative/xanoCreativeAssets"
-import { validateCreativeAssetPatch } from "@/lib/creative/types"
+import { validateCreativeAssetPatch, type CreativeAssetPatch } from "@/lib/creative/types"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
@@ -26,6 +27,15 @@ function xanoErrorResponse(error: unknown): NextResponse {
   return NextResponse.json({ error: "Internal server error" }, { status: 500 })
 }
 
+/** Patch fields that change what the asset is checked against, or what it measures. */
+const SPEC_CHECK_FIELDS: readonly (keyof CreativeAssetPatch)[] = [
+  "line_item_id",
+  "source_table",
+  "width_px",
+  "height_px",
+  "duration_seconds",
+]
+
 function parseId(raw: string): number | null {
   const id = Number(raw)
   if (!Number.isFinite(id) || id <= 0) return null
@@ -105,6 +115,9 @@ export async function PATCH(
     }
 
     const row = await update(id, parsed.value)
+    if (SPEC_CHECK_FIELDS.some((field) => field in parsed.value)) {
+      return NextResponse.json(await refreshAssetSpecCheck(row))
+    }
     return NextResponse.json(row)
   } catch (error) {
     return xanoErrorResponse(error)
@@ -2,38 +2,20 @@ import { NextRequest, NextResponse } from "next/server"
 import { auth0 } from "@/lib/auth0"
 import { checkClientMbaAccess } from "@/lib/auth/checkClientMbaAccess"
 import { getUserRoles, getUserMbaNumbers } from "@/lib/rbac"
+import { resolveCreativeActor } from "@/lib/creative/actor"
+import { refreshAssetSpecCheck } from "@/lib/creative/resolveAssetSpec"
 import {
   createIdempotent,
   listByMba,
+  resolveVersionFields,
   XanoCreativeAssetError,
 } from "@/lib/creative/xanoCreativeAssets"
 import { validateCreativeAssetCreateBody } from "@/lib/creative/types"
-import type { CreativeAsset } from "@/lib/creative/types"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
 export const revalidate = 0
 
-function resolveUploadedByRole(user: { [key: string]: unknown }): CreativeAsset["uploaded_by_role"] {
-  const roles = getUserRoles(user as Parameters<typeof getUserRoles>[0])
-  if (roles.includes("admin")) return "admin"
-  if (roles.includes("client")) return "client"
-  return "manager"
-}
-
-function resolveUploadedByEmail(user: { [key: string]: unknown }): string {
-  const email = user.email
-  return typeof email === "string" && email.trim() ? email.trim() : ""
-}
-
-function resolveUploadedByName(user: { [key: string]: unknown }): string {
-  const name = user.name
-  if (typeof name === "string" && name.trim()) return name.trim()
-  const given = typeof user.given_name === "string" ? user.given_name.trim() : ""
-  const family = typeof user.family_name === "string" ? user.family_name.trim() : ""
-  return `${given} ${family}`.trim()
-}
-
 function xanoErrorResponse(error: unknown): NextResponse {
   if (error instanceof XanoCreativeAssetError) {
     if (error.status === 401) {
@@ -113,14 +95,21 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    const versionFields = await resolveVersionFields(parsed.value.mba_number, parsed.value.lineage_id)
+    if (!versionFields) {
+      return NextResponse.json({ error: "Unknown lineage_id for this MBA" }, { status: 400 })
+    }
+
+    const actor = resolveCreativeActor(session.user as { [key: string]: unknown })
     const row = await createIdempotent({
       ...parsed.value,
-      uploaded_by_email: resolveUploadedByEmail(session.user as { [key: string]: unknown }),
-      uploaded_by_role: resolveUploadedByRole(session.user as { [key: string]: unknown }),
-      uploaded_by_name: resolveUploadedByName(session.user as { [key: string]: unknown }),
+      ...versionFields,
+      uploaded_by_email: actor.email,
+      uploaded_by_role: actor.role,
+      uploaded_by_name: actor.name,
     })
 
-    return NextResponse.json(row, { status: 201 })
+    return NextResponse.json(await refreshAssetSpecCheck(row), { status: 201 })
   } catch (error) {
     return xanoErrorResponse(error)
   }
@@ -3,9 +3,14 @@ import { handleUpload, type HandleUploadBody } from "@vercel/blob/client"
 import { auth0 } from "@/lib/auth0"
 import { checkClientMbaAccess } from "@/lib/auth/checkClientMbaAccess"
 import { getUserRoles } from "@/lib/rbac"
-import { createIdempotent, XanoCreativeAssetError } from "@/lib/creative/xanoCreativeAssets"
+import { resolveCreativeActor } from "@/lib/creative/actor"
+import { refreshAssetSpecCheck } from "@/lib/creative/resolveAssetSpec"
+import {
+  createIdempotent,
+  resolveVersionFields,
+  XanoCreativeAssetError,
+} from "@/lib/creative/xanoCreativeAssets"
 import { parseUploadTokenPayload } from "@/lib/creative/types"
-import type { CreativeAsset } from "@/lib/creative/types"
 
 export const runtime = "nodejs"
 export const maxDuration = 60
@@ -20,26 +25,6 @@ const ALLOWED_CONTENT_TYPES = [
   "application/zip",
 ]
 
-function resolveUploadedByRole(user: { [key: string]: unknown }): CreativeAsset["uploaded_by_role"] {
-  const roles = getUserRoles(user as Parameters<typeof getUserRoles>[0])
-  if (roles.includes("admin")) return "admin"
-  if (roles.includes("client")) return "client"
-  return "manager"
-}
-
-function resolveUploadedByEmail(user: { [key: string]: unknown }): string {
-  const email = user.email
-  return typeof email === "string" && email.trim() ? email.trim() : ""
-}
-
-function resolveUploadedByName(user: { [key: string]: unknown }): string {
-  const name = user.name
-  if (typeof name === "string" && name.trim()) return name.trim()
-  const given = typeof user.given_name === "string" ? user.given_name.trim() : ""
-  const family = typeof user.family_name === "string" ? user.family_name.trim() : ""
-  return `${given} ${family}`.trim()
-}
-
 function parseUploadClientPayload(
   clientPayload: string | null,
 ):
@@ -51,6 +36,7 @@ function parseUploadClientPayload(
         source_table: string
         media_plan_master_id: number
         file_size_bytes: number
+        lineage_id?: string
       }
     }
   | { ok: false; error: string } {
@@ -99,6 +85,9 @@ function parseUploadClientPayload(
       source_table: typeof raw.source_table === "string" ? raw.source_table.trim() : "",
       media_plan_master_id: mediaPlanMasterId,
       file_size_bytes: fileSizeBytes,
+      ...(typeof raw.lineage_id === "string" && raw.lineage_id.trim()
+        ? { lineage_id: raw.lineage_id.trim() }
+        : {}),
     },
   }
 }
@@ -146,8 +135,14 @@ export async function POST(request: NextRequest) {
           throw new Error(parsedPayload.error)
         }
 
-        const { mba_number, line_item_id, source_table, media_plan_master_id, file_size_bytes } =
-          parsedPayload.value
+        const {
+          mba_number,
+          line_item_id,
+          source_table,
+          media_plan_master_id,
+          file_size_bytes,
+          lineage_id,
+        } = parsedPayload.value
         const roles = getUserRoles(session.user)
         if (roles.includes("client")) {
           const access = await checkClientMbaAccess(request, mba_number)
@@ -161,9 +156,7 @@ export async function POST(request: NextRequest) {
           throw new Error(`Pathname must start with ${prefix}`)
         }
 
-        const email = resolveUploadedByEmail(session.user as { [key: string]: unknown })
-        const role = resolveUploadedByRole(session.user as { [key: string]: unknown })
-        const name = resolveUploadedByName(session.user as { [key: string]: unknown })
+        const { email, role, name } = resolveCreativeActor(session.user as { [key: string]: unknown })
 
         return {
           allowedContentTypes: ALLOWED_CONTENT_TYPES,
@@ -175,6 +168,7 @@ export async function POST(request: NextRequest) {
             source_table,
             media_plan_master_id,
             file_size_bytes,
+            lineage_id,
             email,
             role,
             name,
@@ -190,8 +184,12 @@ export async function POST(request: NextRequest) {
 
         const token = parsedToken.value
         const originalFilename = basenameFromPathname(blob.pathname)
+        // Unknown lineage falls back to a fresh v1 rather than dropping the upload.
+        const versionFields =
+          (await resolveVersionFields(token.mba_number, token.lineage_id)) ??
+          (await resolveVersionFields(token.mba_number))
 
-        await createIdempotent({
+        const row = await createIdempotent({
           mba_number: token.mba_number,
           media_plan_master_id: token.media_plan_master_id ?? 0,
           line_item_id: token.line_item_id,
@@ -206,10 +204,13 @@ export async function POST(request: NextRequest) {
           blob_url: blob.url,
           blob_pathname: blob.pathname,
           status: "active",
+          ...versionFields,
           uploaded_by_email: token.email,
           uploaded_by_role: token.role,
           uploaded_by_name: token.name,
         })
+        // Dimensions arrive later via PATCH, which re-runs the check.
+        await refreshAssetSpecCheck(row)
       },
     })
 
@@ -3,6 +3,7 @@ import { NextResponse } from "next/server"
 import { assertCronSecret } from "@/lib/auth/assertCronSecret"
 import { getOpsEmailRecipients, sendHtmlEmail } from "@/lib/email/sendHtmlEmail"
 import { buildUploadDigest } from "@/lib/creative/uploadDigest"
+import { updateMiDeliverable } from "@/lib/creative/xanoCreativeAssets"
 import {
   buildUploadDigestEmailHtml,
   buildUploadDigestSubject,
@@ -22,12 +23,13 @@ export async function GET(request: Request) {
   }
 
   try {
-    const payload = await buildUploadDigest(new Date())
-    if (payload.totalFiles === 0) {
+    const now = new Date()
+    const payload = await buildUploadDigest(now)
+    if (payload.totalFiles === 0 && payload.totalReminders === 0) {
       return NextResponse.json({
         status: "ok",
         sent: false,
-        reason: "no_client_uploads",
+        reason: "no_uploads_or_reminders",
       })
     }
 
@@ -36,11 +38,18 @@ export async function GET(request: Request) {
     const to = getOpsEmailRecipients()
     await sendHtmlEmail({ to, subject, html })
 
+    // Stamp only after a successful send so a failed email retries next hour.
+    const reminded = payload.reminders.flatMap((g) => g.rows.map((r) => r.deliverable.id))
+    await Promise.all(
+      reminded.map((id) => updateMiDeliverable(id, { last_reminded_at: now.getTime() })),
+    )
+
     console.log(
       JSON.stringify({
         event: "creative_upload_digest",
         totalFiles: payload.totalFiles,
         groups: payload.groups.length,
+        reminders: payload.totalReminders,
         subject,
       }),
     )
@@ -51,6 +60,7 @@ export async function GET(request: Request) {
       subject,
       recipients: to,
       totalFiles: payload.totalFiles,
+      totalReminders: payload.totalReminders,
     })
   } catch (err) {
     console.error("[creative-upload-digest] fatal", err)
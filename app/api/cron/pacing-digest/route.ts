@@ -2,17 +2,72 @@ import { NextResponse } from "next/server"
 
 import { assertCronSecret } from "@/lib/auth/assertCronSecret"
 import { getOpsEmailRecipients, sendHtmlEmail } from "@/lib/email/sendHtmlEmail"
-import { buildPacingDigest } from "@/lib/ops/digest/buildPacingDigest"
 import {
+  evaluatePacingAlertRules,
+  groupPacingAlertMatchesByUser,
+  type PacingAlertRule,
+} from "@/lib/ops/digest/alertRules"
+import { buildPacingDigest, type PacingDigestPayload } from "@/lib/ops/digest/buildPacingDigest"
+import {
+  buildPacingAlertEmailHtml,
+  buildPacingAlertSubject,
   buildPacingDigestEmailHtml,
   buildPacingDigestSubject,
 } from "@/lib/ops/digest/email"
+import { listPacingAlertRules } from "@/lib/xano/pacingAlertRules"
 
 export const dynamic = "force-dynamic"
 export const maxDuration = 120
 export const runtime = "nodejs"
 export const preferredRegion = ["syd1"]
 
+type PacingAlertRunSummary = {
+  rules: number
+  matches: number
+  sent: string[]
+  failed: string[]
+  error?: string
+}
+
+/**
+ * Per-user alert rules run after the shared digest has gone out; a Xano or
+ * send failure here is logged and reported but never fails the digest itself.
+ */
+async function sendPacingAlertEmails(payload: PacingDigestPayload): Promise<PacingAlertRunSummary> {
+  let rules: PacingAlertRule[]
+  try {
+    rules = await listPacingAlertRules()
+  } catch (err) {
+    console.error("[pacing-digest] alert rules load failed", err)
+    return {
+      rules: 0,
+      matches: 0,
+      sent: [],
+      failed: [],
+      error: err instanceof Error ? err.message : String(err),
+    }
+  }
+
+  const matches = evaluatePacingAlertRules(rules, payload.lineItems, payload.asOfDate)
+  const sent: string[] = []
+  const failed: string[] = []
+  for (const [email, userMatches] of groupPacingAlertMatchesByUser(matches)) {
+    try {
+      await sendHtmlEmail({
+        to: [email],
+        subject: buildPacingAlertSubject(userMatches),
+        html: buildPacingAlertEmailHtml(userMatches, payload.asOfDate),
+      })
+      sent.push(email)
+    } catch (err) {
+      console.error("[pacing-digest] alert email failed", email, err)
+      failed.push(email)
+    }
+  }
+
+  return { rules: rules.length, matches: matches.length, sent, failed }
+}
+
 export async function GET(request: Request) {
   if (!assertCronSecret(request)) {
     return NextResponse.json(
@@ -29,6 +84,7 @@ export async function GET(request: Request) {
     const to = getOpsEmailRecipients()
 
     await sendHtmlEmail({ to, subject, html })
+    const alerts = await sendPacingAlertEmails(payload)
 
     console.log(
       JSON.stringify({
@@ -37,6 +93,7 @@ export async function GET(request: Request) {
         counts: payload.counts,
         subject,
         cacheNote: payload.cacheNote,
+        alerts,
       }),
     )
 
@@ -46,6 +103,7 @@ export async function GET(request: Request) {
       recipients: to,
       counts: payload.counts,
       atRiskSample: payload.atRisk.slice(0, 10),
+      alerts,
     })
   } catch (err) {
     console.error("[pacing-digest] fatal", err)
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server"
+
+import { assertCronSecret } from "@/lib/auth/assertCronSecret"
+import { getAsOfDate } from "@/lib/pacing/maths"
+import { runScheduledReport } from "@/lib/reports/runScheduledReport"
+import { isScheduleDue, lastCompletedPeriod } from "@/lib/reports/scheduledReports"
+import {
+  listPerformanceReportSchedules,
+  updatePerformanceReportSchedule,
+} from "@/lib/xano/performanceReports"
+
+export const dynamic = "force-dynamic"
+export const maxDuration = 300
+export const runtime = "nodejs"
+export const preferredRegion = ["syd1"]
+
+/**
+ * Daily: generate each enabled schedule's report for its last completed week
+ * or month. Schedules run one at a time (each loads a Snowflake snapshot); a
+ * failure is stored on the schedule and retried on the next run.
+ */
+export async function GET(request: Request) {
+  if (!assertCronSecret(request)) {
+    return NextResponse.json(
+      { error: "unauthorised", hint: "cron_secret_required" },
+      { status: 401 },
+    )
+  }
+
+  try {
+    const now = new Date()
+    const today = getAsOfDate(now)
+    const schedules = await listPerformanceReportSchedules()
+    const generated: string[] = []
+    const skipped: Array<{ mba: string; reason: string }> = []
+    const failed: Array<{ mba: string; error: string }> = []
+
+    for (const schedule of schedules) {
+      const period = lastCompletedPeriod(schedule.cadence, today)
+      if (!isScheduleDue(schedule, period)) continue
+      try {
+        const run = await runScheduledReport(schedule, period)
+        if (run.status === "generated") generated.push(run.report.filename)
+        else skipped.push({ mba: schedule.mba_number, reason: run.reason })
+        // Out-of-flight periods are marked done too, so they are not re-checked daily.
+        await updatePerformanceReportSchedule(schedule.id, {
+          last_period_key: period.key,
+          last_run_at: now.getTime(),
+          last_error: "",
+        })
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err)
+        console.error("[performance-reports] schedule failed", schedule.mba_number, err)
+        failed.push({ mba: schedule.mba_number, error: message })
+        await updatePerformanceReportSchedule(schedule.id, {
+          last_run_at: now.getTime(),
+          last_error: message.slice(0, 500),
+        }).catch((updateErr) => console.error("[performance-reports] error stamp failed", updateErr))
+      }
+    }
+
+    console.log(
+      JSON.stringify({
+        event: "performance_reports",
+        asOfDate: today,
+        schedules: schedules.length,
+        generated: generated.length,
+        skipped: skipped.length,
+        failed: failed.length,
+      }),
+    )
+
+    return NextResponse.json({ status: "ok", asOfDate: today, generated, skipped, failed })
+  } catch (err) {
+    console.error("[performance-reports] fatal", err)
+    return NextResponse.json(
+      {
+        status: "error",
+        message: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth0 } from "@/lib/auth0"
+import { getUserRoles } from "@/lib/rbac"
+import { getCurrentUser } from "@/lib/auth/getCurrentUser"
+import { ensureFinanceBillingRecord } from "@/lib/finance/materialiseFinanceBillingRecord"
+import { composeInvoiceKey } from "@/lib/finance/overlayFinanceStatus"
+import { writeStatusChangeEdit } from "@/lib/finance/writeFinanceAuditEdits"
+import { FINANCE_BILLING_RECORDS_PATH, xanoFinancePatch } from "@/lib/finance/xanoFinanceApi"
+
+export const maxDuration = 60
+
+const MAX_RECORDS = 500
+const VALID_BILLING_TYPES = ["media", "sow", "retainer"] as const
+type ExportBillingType = (typeof VALID_BILLING_TYPES)[number]
+
+type ExportTarget = {
+  billing_type: ExportBillingType
+  clients_id: number
+  client_name: string
+  mba_number: string | null
+  campaign_name: string | null
+  billing_month: string
+  total?: number
+}
+
+function isExportBillingType(v: unknown): v is ExportBillingType {
+  return typeof v === "string" && (VALID_BILLING_TYPES as readonly string[]).includes(v)
+}
+
+function optionalString(v: unknown): string | null {
+  if (v === null || v === undefined) return null
+  return typeof v === "string" ? v : String(v)
+}
+
+/** One record grain from the body, or an error message naming its index. */
+function parseExportTarget(raw: unknown, index: number): ExportTarget | string {
+  if (!raw || typeof raw !== "object") return `records[${index}] must be an object.`
+  const r = raw as Record<string, unknown>
+  if (!isExportBillingType(r.billing_type)) {
+    return `records[${index}].billing_type must be media, sow, or retainer.`
+  }
+  const clients_id = typeof r.clients_id === "number" ? r.clients_id : Number(r.clients_id)
+  if (!Number.isFinite(clients_id)) return `records[${index}].clients_id is required and must be a number.`
+  if (typeof r.client_name !== "string" || r.client_name.trim().length === 0) {
+    return `records[${index}].client_name is required.`
+  }
+  if (typeof r.billing_month !== "string" || r.billing_month.trim().length === 0) {
+    return `records[${index}].billing_month is required (e.g. 2026-05).`
+  }
+  return {
+    billing_type: r.billing_type,
+    clients_id,
+    client_name: r.client_name,
+    mba_number: optionalString(r.mba_number),
+    campaign_name: optionalString(r.campaign_name),
+    billing_month: r.billing_month,
+    total: typeof r.total === "number" ? r.total : undefined,
+  }
+}
+
+/**
+ * POST — stamp `exported_at` / `exported_by` on the billing records just
+ * exported to Xero, so later exports skip them.
+ *
+ * Body: `{ records: [{ billing_type, clients_id, client_name, mba_number, campaign_name, billing_month, total? }] }`
+ *
+ * Rows are materialised on demand like mark-billed. Each record is stamped on
+ * its own; the response lists the invoice keys stamped and those that failed.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth0.getSession(request)
+    if (!session?.user) {
+      return NextResponse.json({ error: "unauthorised" }, { status: 401 })
+    }
+
+    const roles = getUserRoles(session.user)
+    if (!roles.includes("admin")) {
+      return NextResponse.json({ error: "forbidden" }, { status: 403 })
+    }
+
+    const currentUser = await getCurrentUser(request)
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: "no_user", message: "Could not resolve user for audit." },
+        { status: 401 }
+      )
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { error: "bad_request", message: "Invalid JSON body." },
+        { status: 400 }
+      )
+    }
+
+    const rawRecords = body && typeof body === "object" ? (body as { records?: unknown }).records : undefined
+    if (!Array.isArray(rawRecords) || rawRecords.length === 0) {
+      return NextResponse.json(
+        { error: "bad_request", message: "records is required (non-empty array)." },
+        { status: 400 }
+      )
+    }
+    if (rawRecords.length > MAX_RECORDS) {
+      return NextResponse.json(
+        { error: "bad_request", message: `At most ${MAX_RECORDS} records per export.` },
+        { status: 400 }
+      )
+    }
+
+    const targets: ExportTarget[] = []
+    for (const [index, raw] of rawRecords.entries()) {
+      const parsed = parseExportTarget(raw, index)
+      if (typeof parsed === "string") {
+        return NextResponse.json({ error: "bad_request", message: parsed }, { status: 400 })
+      }
+      targets.push(parsed)
+    }
+
+    const now = Date.now()
+    const exported: string[] = []
+    const failed: string[] = []
+
+    for (const target of targets) {
+      const invoice_key = composeInvoiceKey(
+        target.billing_type,
+        target.clients_id,
+        target.mba_number,
+        target.campaign_name,
+        target.billing_month
+      )
+      if (!invoice_key) {
+        failed.push(`${target.billing_type}:${target.mba_number ?? target.clients_id}:${target.billing_month}`)
+        continue
+      }
+
+      const recordId = await ensureFinanceBillingRecord({
+        billing_type: target.billing_type,
+        clients_id: target.clients_id,
+        client_name: target.client_name,
+        mba_number: target.mba_number,
+        campaign_name: target.campaign_name,
+        billing_month: target.billing_month,
+        initial_total: target.total,
+      })
+      if (recordId == null) {
+        failed.push(invoice_key)
+        continue
+      }
+
+      try {
+        await xanoFinancePatch(`${FINANCE_BILLING_RECORDS_PATH}/${recordId}`, {
+          exported_at: now,
+          exported_by: currentUser.id,
+        })
+      } catch (error) {
+        console.error("[mark-exported] PATCH failed", {
+          invoice_key,
+          message: error instanceof Error ? error.message : String(error),
+        })
+        failed.push(invoice_key)
+        continue
+      }
+      exported.push(invoice_key)
+
+      await writeStatusChangeEdit(
+        {
+          finance_billing_records_id: recordId,
+          field_name: `exported:${invoice_key}`,
+          old_value: null,
+          new_value: new Date(now).toISOString(),
+        },
+        {
+          editedBy: currentUser.id,
+          editedByName: currentUser.name ?? currentUser.email ?? String(currentUser.id),
+          recordType: "status_change",
+        }
+      )
+    }
+
+    return NextResponse.json(
+      { exported_at: now, exported_by: currentUser.id, exported, failed },
+      { status: exported.length === 0 ? 502 : 200 }
+    )
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error)
+    return NextResponse.json({ error: "mark_exported_failed", details: message }, { status: 500 })
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth0 } from "@/lib/auth0"
+import { getUserRoles } from "@/lib/rbac"
+import { deleteWhatIfScenarioFromXano } from "@/lib/finance/forecast/whatIf/xanoWhatIfScenarios"
+import { isSnapshotStorageConfigured } from "@/lib/finance/forecast/snapshot/xanoSnapshotQuery"
+
+export const maxDuration = 60
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+function noStore(json: unknown, init?: ResponseInit) {
+  const res = NextResponse.json(json, init)
+  res.headers.set("Cache-Control", "no-store, max-age=0")
+  return res
+}
+
+/** DELETE — Remove a saved what-if scenario by its id. Admin only, like the snapshots. */
+export async function DELETE(request: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const session = await auth0.getSession(request)
+  if (!session?.user) {
+    return noStore({ error: "unauthorised" }, { status: 401 })
+  }
+  if (!getUserRoles(session.user).includes("admin")) {
+    return noStore({ error: "forbidden" }, { status: 403 })
+  }
+
+  const { id } = await ctx.params
+  const scenarioId = decodeURIComponent(id ?? "").trim()
+  if (!scenarioId) {
+    return noStore({ error: "bad_request", message: "Missing scenario id." }, { status: 400 })
+  }
+
+  if (!isSnapshotStorageConfigured()) {
+    return noStore(
+      { error: "storage_not_configured", message: "What-if scenario storage is not configured." },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const deleted = await deleteWhatIfScenarioFromXano(scenarioId)
+    if (!deleted) return noStore({ error: "not_found" }, { status: 404 })
+    return noStore({ ok: true })
+  } catch (err) {
+    console.error("[api/finance/forecast/what-if-scenarios/[id]] DELETE failed", err)
+    return noStore(
+      { error: "delete_failed", message: err instanceof Error ? err.message : String(err) },
+      { status: 502 }
+    )
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server"
+import { auth0 } from "@/lib/auth0"
+import { getUserRoles } from "@/lib/rbac"
+import { normalizeWhatIfScenario } from "@/lib/finance/forecast/whatIf/savedWhatIfScenarios"
+import {
+  fetchWhatIfScenariosFromXano,
+  upsertWhatIfScenarioInXano,
+} from "@/lib/finance/forecast/whatIf/xanoWhatIfScenarios"
+import { isSnapshotStorageConfigured } from "@/lib/finance/forecast/snapshot/xanoSnapshotQuery"
+
+export const maxDuration = 60
+
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+function noStore(json: unknown, init?: ResponseInit) {
+  const res = NextResponse.json(json, init)
+  res.headers.set("Cache-Control", "no-store, max-age=0")
+  return res
+}
+
+function canUseWhatIfScenarios(roles: string[]): boolean {
+  return roles.includes("admin")
+}
+
+function savedByFromSession(user: { email?: string | null; sub?: string | null }): string | null {
+  return (
+    (typeof user.email === "string" && user.email.length > 0 ? user.email : null) ||
+    (typeof user.sub === "string" && user.sub.length > 0 ? user.sub : null) ||
+    null
+  )
+}
+
+/**
+ * GET — Saved what-if scenarios, newest first. `?financial_year=2025` narrows to one FY.
+ * Stored next to the snapshots and gated the same way (admin only); requires
+ * `XANO_FINANCE_FORECAST_SNAPSHOTS_BASE_URL`.
+ */
+export async function GET(request: NextRequest) {
+  const session = await auth0.getSession(request)
+  if (!session?.user) {
+    return noStore({ error: "unauthorised" }, { status: 401 })
+  }
+  if (!canUseWhatIfScenarios(getUserRoles(session.user))) {
+    return noStore({ error: "forbidden" }, { status: 403 })
+  }
+
+  const fyParam = request.nextUrl.searchParams.get("financial_year")
+  const fy = fyParam ? Number.parseInt(fyParam, 10) : undefined
+  if (fy !== undefined && !Number.isFinite(fy)) {
+    return noStore({ error: "bad_request", message: "financial_year must be a year." }, { status: 400 })
+  }
+
+  if (!isSnapshotStorageConfigured()) {
+    return noStore({ scenarios: [], configured: false })
+  }
+
+  try {
+    const scenarios = await fetchWhatIfScenariosFromXano(fy)
+    return noStore({ scenarios, configured: true })
+  } catch (err) {
+    console.error("[api/finance/forecast/what-if-scenarios] GET list failed", err)
+    return noStore(
+      { error: "list_failed", message: err instanceof Error ? err.message : String(err) },
+      { status: 502 }
+    )
+  }
+}
+
+/**
+ * POST — Create or replace a what-if scenario by its id.
+ *
+ * Body: a `FinanceForecastWhatIfScenario`; invalid adjustments are dropped as on read.
+ */
+export async function POST(request: NextRequest) {
+  const session = await auth0.getSession(request)
+  if (!session?.user) {
+    return noStore({ error: "unauthorised" }, { status: 401 })
+  }
+  if (!canUseWhatIfScenarios(getUserRoles(session.user))) {
+    return noStore({ error: "forbidden" }, { status: 403 })
+  }
+
+  let json: unknown
+  try {
+    json = await request.json()
+  } catch {
+    return noStore({ error: "bad_request", message: "Invalid JSON body." }, { status: 400 })
+  }
+
+  const scenario = normalizeWhatIfScenario(json)
+  if (!scenario) {
+    return noStore(
+      { error: "bad_request", message: "id, name and financial_year_start_year are required." },
+      { status: 400 }
+    )
+  }
+
+  if (!isSnapshotStorageConfigured()) {
+    return noStore(
+      { error: "storage_not_configured", message: "What-if scenario storage is not configured." },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const saved = await upsertWhatIfScenarioInXano(scenario, savedByFromSession(session.user))
+    return noStore({ scenario: saved })
+  } catch (err) {
+    console.error("[api/finance/forecast/what-if-scenarios] POST save failed", err)
+    return noStore(
+      { error: "save_failed", message: err instanceof Error ? err.message : String(err) },
+      { status: 502 }
+    )
+  }
+}
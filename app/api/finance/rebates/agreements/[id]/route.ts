@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server"
+import { rebateAgreementInputSchema } from "@/lib/finance/rebates/rebateAgreements"
+import { requireFinanceAdmin } from "@/lib/requireRole"
+import {
+  deleteRebateAgreement,
+  getRebateAgreement,
+  updateRebateAgreement,
+  XanoRebateAgreementError,
+} from "@/lib/xano/publisherRebateAgreements"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function xanoErrorResponse(error: unknown): NextResponse {
+  if (error instanceof XanoRebateAgreementError) {
+    return NextResponse.json({ error: error.message }, { status: 502 })
+  }
+  console.error("[api/finance/rebates/agreements/[id]]", error)
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+}
+
+async function agreementId({ params }: RouteContext): Promise<number | null> {
+  const id = Number((await params).id)
+  return Number.isInteger(id) && id > 0 ? id : null
+}
+
+/**
+ * PATCH /api/finance/rebates/agreements/[id] — replace an agreement's tiers / basis.
+ * Gate: finance admin.
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const gate = await requireFinanceAdmin(request)
+  if ("response" in gate) return gate.response
+
+  const id = await agreementId(context)
+  if (id == null) return NextResponse.json({ error: "Invalid agreement id" }, { status: 400 })
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  const parsed = rebateAgreementInputSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues.map((issue) => issue.message).join("; ") },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const existing = await getRebateAgreement(id)
+    if (!existing) return NextResponse.json({ error: "Agreement not found" }, { status: 404 })
+    if (
+      existing.publisher_id !== parsed.data.publisher_id ||
+      existing.financial_year_start_year !== parsed.data.financial_year_start_year
+    ) {
+      return NextResponse.json(
+        { error: "Publisher and financial year cannot be changed on an existing agreement" },
+        { status: 400 }
+      )
+    }
+    return NextResponse.json(await updateRebateAgreement(id, parsed.data))
+  } catch (error) {
+    return xanoErrorResponse(error)
+  }
+}
+
+/**
+ * DELETE /api/finance/rebates/agreements/[id].
+ * Gate: finance admin.
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const gate = await requireFinanceAdmin(request)
+  if ("response" in gate) return gate.response
+
+  const id = await agreementId(context)
+  if (id == null) return NextResponse.json({ error: "Invalid agreement id" }, { status: 400 })
+
+  try {
+    await deleteRebateAgreement(id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return xanoErrorResponse(error)
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server"
+import { rebateAgreementInputSchema } from "@/lib/finance/rebates/rebateAgreements"
+import { requireFinanceAdmin } from "@/lib/requireRole"
+import {
+  createRebateAgreement,
+  listRebateAgreements,
+  XanoRebateAgreementError,
+} from "@/lib/xano/publisherRebateAgreements"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+function xanoErrorResponse(error: unknown): NextResponse {
+  if (error instanceof XanoRebateAgreementError) {
+    return NextResponse.json({ error: error.message }, { status: 502 })
+  }
+  console.error("[api/finance/rebates/agreements]", error)
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+}
+
+/**
+ * GET /api/finance/rebates/agreements?fy= — rebate agreements for a financial year.
+ * Gate: finance admin.
+ */
+export async function GET(request: NextRequest) {
+  const gate = await requireFinanceAdmin(request)
+  if ("response" in gate) return gate.response
+
+  const fy = Number.parseInt(request.nextUrl.searchParams.get("fy") ?? "", 10)
+  if (!Number.isFinite(fy) || fy < 1990 || fy > 2100) {
+    return NextResponse.json({ error: "Query parameter fy is required" }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(await listRebateAgreements(fy))
+  } catch (error) {
+    return xanoErrorResponse(error)
+  }
+}
+
+/**
+ * POST /api/finance/rebates/agreements — one agreement per publisher per FY.
+ * Gate: finance admin.
+ */
+export async function POST(request: NextRequest) {
+  const gate = await requireFinanceAdmin(request)
+  if ("response" in gate) return gate.response
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  const parsed = rebateAgreementInputSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues.map((issue) => issue.message).join("; ") },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const existing = await listRebateAgreements(parsed.data.financial_year_start_year)
+    if (existing.some((a) => a.publisher_id === parsed.data.publisher_id)) {
+      return NextResponse.json(
+        { error: "This publisher already has a rebate agreement for that financial year" },
+        { status: 409 }
+      )
+    }
+    return NextResponse.json(await createRebateAgreement(parsed.data), { status: 201 })
+  } catch (error) {
+    return xanoErrorResponse(error)
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server"
+import { buildPublisherForecastMedia, collectBilledMbaMonths } from "@/lib/finance/forecast"
+import {
+  fetchFinanceForecastRawFromXano,
+  normalizeScenario,
+} from "@/lib/finance/forecast/server/loadFinanceForecastDataset"
+import { computeRebateTracker } from "@/lib/finance/rebates/computeRebateTracker"
+import { FINANCE_BILLING_RECORDS_PATH, parseList, xanoFinanceGet } from "@/lib/finance/xanoFinanceApi"
+import { requireFinanceAdmin } from "@/lib/requireRole"
+import type { FinanceForecastScenario } from "@/lib/types/financeForecast"
+import { listRebateAgreements, XanoRebateAgreementError } from "@/lib/xano/publisherRebateAgreements"
+
+export const maxDuration = 60
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+function responseNoStore(payload: unknown, init?: ResponseInit) {
+  const res = NextResponse.json(payload, init)
+  res.headers.set("Cache-Control", "no-store, max-age=0")
+  return res
+}
+
+function currentMonth(): string {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`
+}
+
+/**
+ * GET /api/finance/rebates — publisher commission + volume-rebate tracker.
+ * Gate: finance admin.
+ *
+ * Query params:
+ * - `fy` (required): financial year start calendar year
+ * - `scenario` (optional): projection scenario, default `confirmed_plus_probable`
+ * - `as_of` (optional): YYYY-MM; months before it count as billed (default: current month)
+ *
+ * Billed months only count MBA months marked billed in `finance_billing_records`;
+ * confirmed lines not yet billed are left out of them.
+ */
+export async function GET(request: NextRequest) {
+  const gate = await requireFinanceAdmin(request)
+  if ("response" in gate) return gate.response
+
+  const sp = request.nextUrl.searchParams
+  const fy = Number.parseInt(sp.get("fy") ?? "", 10)
+  if (!Number.isFinite(fy) || fy < 1990 || fy > 2100) {
+    return responseNoStore({ error: "Query parameter fy (financial year start year) is required" }, { status: 400 })
+  }
+  const scenarioParam = sp.get("scenario")
+  const scenario = scenarioParam ? normalizeScenario(scenarioParam) : "confirmed_plus_probable"
+  if (!scenario) {
+    return responseNoStore(
+      { error: "Query parameter scenario must be confirmed | confirmed_plus_probable" },
+      { status: 400 }
+    )
+  }
+  const asOfMonth = sp.get("as_of") ?? currentMonth()
+  if (!/^\d{4}-\d{2}$/.test(asOfMonth)) {
+    return responseNoStore({ error: "Query parameter as_of must be YYYY-MM" }, { status: 400 })
+  }
+
+  try {
+    const [raw, agreements, billingRaw] = await Promise.all([
+      fetchFinanceForecastRawFromXano(),
+      listRebateAgreements(fy),
+      xanoFinanceGet(FINANCE_BILLING_RECORDS_PATH),
+    ])
+    const billedMbaMonths = collectBilledMbaMonths(parseList(billingRaw))
+    const build = (s: FinanceForecastScenario, billed?: ReadonlySet<string>) =>
+      buildPublisherForecastMedia({
+        media_plan_versions: raw.versions,
+        publishers: raw.publishers,
+        financial_year_start_year: fy,
+        scenario: s,
+        billed_mba_months: billed,
+      })
+    const publisherNames: Record<string, string> = {}
+    for (const p of raw.publishers) {
+      if (p.id != null && p.publisher_name) publisherNames[String(p.id)] = p.publisher_name
+    }
+
+    const tracker = computeRebateTracker({
+      financialYearStartYear: fy,
+      asOfMonth,
+      actual: build("confirmed", billedMbaMonths),
+      projected: build(scenario),
+      agreements,
+      publisherNames,
+    })
+    return responseNoStore({
+      tracker,
+      meta: { scenario, as_of_month: asOfMonth, generated_at: new Date().toISOString() },
+    })
+  } catch (error) {
+    if (error instanceof XanoRebateAgreementError) {
+      return responseNoStore({ error: error.message }, { status: 502 })
+    }
+    console.error("[api/finance/rebates] GET failed", error)
+    return responseNoStore({ error: "Failed to load rebate tracker" }, { status: 500 })
+  }
+}
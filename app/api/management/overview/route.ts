@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from "next/server"
+import { codexApiClient, retryApiCall, withOverallTimeout } from "../../codex/_shared"
+import { getCodexBaseUrl } from "@/lib/api/codex"
+import { slugifyClientNameForUrl } from "@/lib/clients/slug"
+import type { CodexPagedResponse, CodexTask } from "@/lib/codex/types"
+import { buildChannelForecastMedia, buildFinanceForecastDataset } from "@/lib/finance/forecast"
+import { fetchFinanceForecastRawForTenant } from "@/lib/finance/forecast/server/loadFinanceForecastDataset"
+import { FINANCE_BILLING_RECORDS_PATH, parseList, xanoFinanceGet } from "@/lib/finance/xanoFinanceApi"
+import {
+  financialYearsForMonths,
+  monthsInRange,
+  rankTopRiskCampaigns,
+  summariseChannelMedia,
+  summariseForecastRevenue,
+  summariseTaskWorkload,
+  type ManagementBillingRecord,
+  type ManagementOverview,
+  type ManagementPacingHealth,
+  type ManagementSource,
+} from "@/lib/management/managementOverview"
+import { getAsOfDate } from "@/lib/pacing/maths"
+import { buildOverviewPayload } from "@/lib/pacing/overview/buildOverviewPayload"
+import { OVERVIEW_MAX_PAGE_SIZE } from "@/lib/pacing/overview/resolveOverviewClientScope"
+import type { OverviewPayload } from "@/lib/pacing/overview/types"
+import { getUserClientSlugs } from "@/lib/rbac"
+import { requireRole } from "@/lib/requireRole"
+import type { FinanceForecastChannelMedia, FinanceForecastDataset } from "@/lib/types/financeForecast"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+export const maxDuration = 90
+
+const YMD = /^\d{4}-\d{2}-\d{2}$/
+const OPEN_TASK_STATUSES = "backlog,todo,in_progress,waiting"
+const TASK_PAGE_LIMIT = 10
+const PACING_PAGE_LIMIT = 10
+
+function responseNoStore(payload: unknown, init?: ResponseInit) {
+  const res = NextResponse.json(payload, init)
+  res.headers.set("Cache-Control", "no-store, max-age=0")
+  return res
+}
+
+/** Billing records of the clients in scope (admin: all). */
+async function loadBillingRecords(allowedClientSlugs: Set<string> | null): Promise<ManagementBillingRecord[]> {
+  const rows = parseList(await xanoFinanceGet(FINANCE_BILLING_RECORDS_PATH)) as Array<
+    ManagementBillingRecord & { client_name?: string | null }
+  >
+  if (!allowedClientSlugs) return rows
+  return rows.filter((r) => allowedClientSlugs.has(slugifyClientNameForUrl(r.client_name ?? "")))
+}
+
+async function loadForecast(allowedClientSlugs: Set<string> | null, months: string[], asOfMonth: string) {
+  const [raw, billingRecords] = await Promise.all([
+    fetchFinanceForecastRawForTenant(allowedClientSlugs),
+    loadBillingRecords(allowedClientSlugs),
+  ])
+  const datasets = { confirmed: new Map<number, FinanceForecastDataset>(), projected: new Map<number, FinanceForecastDataset>() }
+  const channels = {
+    confirmed: new Map<number, FinanceForecastChannelMedia[]>(),
+    projected: new Map<number, FinanceForecastChannelMedia[]>(),
+  }
+  for (const fy of financialYearsForMonths(months)) {
+    for (const [side, scenario] of [
+      ["confirmed", "confirmed"],
+      ["projected", "confirmed_plus_probable"],
+    ] as const) {
+      const params = {
+        media_plan_versions: raw.versions,
+        publishers: raw.publishers,
+        financial_year_start_year: fy,
+        scenario,
+      }
+      datasets[side].set(fy, buildFinanceForecastDataset({ ...params, clients: raw.clients }))
+      channels[side].set(fy, buildChannelForecastMedia(params))
+    }
+  }
+  return {
+    ...summariseForecastRevenue({ months, asOfMonth, datasets, billingRecords }),
+    media_by_channel: summariseChannelMedia({ months, asOfMonth, channels }),
+  }
+}
+
+/** Every overview page (channel rows are cached, so later pages are cheap). */
+async function loadPacing(allowedClientSlugs: Set<string> | null, asOfDate: string): Promise<ManagementPacingHealth> {
+  const pages: OverviewPayload[] = []
+  for (let page = 1; page <= PACING_PAGE_LIMIT; page++) {
+    const payload = await buildOverviewPayload({
+      asOfDate,
+      allowedClientSlugs,
+      page,
+      pageSize: OVERVIEW_MAX_PAGE_SIZE,
+    })
+    pages.push(payload)
+    if (!payload.scope.hasMore) break
+  }
+  const first = pages[0]!
+  return {
+    as_of_date: first.asOfDate,
+    counts: first.counts,
+    top_risk: rankTopRiskCampaigns(pages),
+    unavailable_channels: first.unavailableSources,
+  }
+}
+
+async function loadOpenTasks(): Promise<CodexTask[]> {
+  const tasks: CodexTask[] = []
+  for (let page = 1; page <= TASK_PAGE_LIMIT; page++) {
+    const upstream = new URL(`${getCodexBaseUrl()}/tasks`)
+    upstream.searchParams.set("page", String(page))
+    upstream.searchParams.set("per_page", "100")
+    upstream.searchParams.set("status", OPEN_TASK_STATUSES)
+    const response = await withOverallTimeout(retryApiCall(() => codexApiClient.get(upstream.toString())))
+    const data = response.data as CodexPagedResponse<CodexTask>
+    tasks.push(...(Array.isArray(data.items) ? data.items : []))
+    if (data.nextPage == null) break
+  }
+  return tasks
+}
+
+/**
+ * GET /api/management/overview?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *
+ * Leadership view: billed vs forecast revenue (billing records + finance
+ * forecast), fee income by client and media under management by channel
+ * (finance forecast), pacing health and top-risk campaigns (pacing overview as
+ * of `to`, capped at today) and open-task workload per assignee (codex tasks). Sources load independently; a failed
+ * source is listed in `unavailable` and the rest still return 200.
+ *
+ * Gate: admin | manager. Forecast, billing and pacing follow the same tenant scope as
+ * their own APIs (admin unrestricted; others limited to their client slugs).
+ */
+export async function GET(request: NextRequest) {
+  const gate = await requireRole(request, ["admin", "manager"])
+  if ("response" in gate) return gate.response
+
+  const sp = request.nextUrl.searchParams
+  const from = sp.get("from") ?? ""
+  const to = sp.get("to") ?? ""
+  if (!YMD.test(from) || !YMD.test(to) || from > to) {
+    return responseNoStore(
+      { error: "Query parameters from and to are required (YYYY-MM-DD, from on or before to)" },
+      { status: 400 }
+    )
+  }
+  const months = monthsInRange(from, to)
+  if (months.length > 36) {
+    return responseNoStore({ error: "Date range must be 36 months or less" }, { status: 400 })
+  }
+
+  // AuthZ: unrestricted only for admin; a manager without slug scope gets empty forecast / pacing.
+  const allowedClientSlugs =
+    gate.roles.includes("admin") ? null : new Set(getUserClientSlugs(gate.session?.user))
+  const today = getAsOfDate()
+  const asOfMonth = today.slice(0, 7)
+
+  const [forecast, pacing, tasks] = await Promise.allSettled([
+    loadForecast(allowedClientSlugs, months, asOfMonth),
+    loadPacing(allowedClientSlugs, to < today ? to : today),
+    loadOpenTasks(),
+  ])
+
+  const unavailable: ManagementSource[] = []
+  const settledValue = <T>(source: ManagementSource, result: PromiseSettledResult<T>): T | null => {
+    if (result.status === "fulfilled") return result.value
+    console.error(`[api/management/overview] ${source} failed`, result.reason)
+    unavailable.push(source)
+    return null
+  }
+  const forecastValue = settledValue("forecast", forecast)
+
+  const body: ManagementOverview = {
+    range: { from, to },
+    as_of_month: asOfMonth,
+    revenue_by_month: forecastValue?.revenue_by_month ?? [],
+    fee_income_by_client: forecastValue?.fee_income_by_client ?? [],
+    media_by_channel: forecastValue?.media_by_channel ?? [],
+    pacing: settledValue("pacing", pacing),
+    workload: (() => {
+      const open = settledValue("tasks", tasks)
+      return open ? summariseTaskWorkload(open, { from, to, today }) : null
+    })(),
+    unavailable,
+  }
+  return responseNoStore(body)
+}
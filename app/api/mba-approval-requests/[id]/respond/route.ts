@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server"
+import { checkClientMbaAccess } from "@/lib/auth/checkClientMbaAccess"
+import { sendHtmlEmail } from "@/lib/email/sendHtmlEmail"
+import {
+  approvalPatchLines,
+  approvalResponseInputSchema,
+  buildApprovalResponseEmail,
+  campaignDashboardLink,
+  validateApprovalDecisions,
+} from "@/lib/mediaplan/clientApproval"
+import { requireRole } from "@/lib/requireRole"
+import {
+  createMbaApprovalDecisions,
+  getMbaApprovalRequest,
+  patchMbaLineApprovals,
+  updateMbaApprovalRequest,
+  XanoMbaApprovalError,
+} from "@/lib/xano/mbaApprovalRequests"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * POST /api/mba-approval-requests/[id]/respond
+ * Body: { decisions:[{ line_item_id, media_type, decision, comment }] }
+ * Gate: client role with access to the MBA. Writes the decision audit rows,
+ * applies them to mba_line_approvals, closes the request and emails the sender.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const gate = await requireRole(request, "client")
+  if ("response" in gate) return gate.response
+
+  const email = gate.session?.user.email?.trim().toLowerCase()
+  if (!email) {
+    return NextResponse.json({ error: "Session has no email" }, { status: 400 })
+  }
+
+  const { id: rawId } = await context.params
+  const id = Number(rawId)
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json({ error: "Invalid id" }, { status: 400 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  const parsed = approvalResponseInputSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues.map((issue) => issue.message).join("; ") },
+      { status: 400 }
+    )
+  }
+  const { decisions } = parsed.data
+
+  try {
+    const approval = await getMbaApprovalRequest(id)
+    if (!approval) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 })
+    }
+
+    const access = await checkClientMbaAccess(request, approval.mba_number)
+    if (!access.ok) return access.response
+
+    if (approval.status !== "sent") {
+      return NextResponse.json(
+        { error: `This approval request is already ${approval.status}` },
+        { status: 409 }
+      )
+    }
+
+    const invalid = validateApprovalDecisions(approval.lines, decisions)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const rows = await createMbaApprovalDecisions(
+      decisions.map((d) => ({
+        request_id: approval.id,
+        mba_number: approval.mba_number,
+        media_plan_version: approval.media_plan_version,
+        line_item_id: d.line_item_id,
+        media_type: d.media_type,
+        decision: d.decision,
+        comment: d.comment,
+        actor_email: email,
+      }))
+    )
+    await patchMbaLineApprovals({
+      mbaNumber: approval.mba_number,
+      mediaPlanVersion: approval.media_plan_version,
+      lines: approvalPatchLines(decisions),
+    })
+    const updated = await updateMbaApprovalRequest(approval.id, {
+      status: "responded",
+      responded_by_email: email,
+      responded_at: Date.now(),
+    })
+
+    let emailError: string | null = null
+    if (approval.sent_by_email) {
+      try {
+        const { subject, html } = buildApprovalResponseEmail({
+          request: approval,
+          decisions,
+          responderEmail: email,
+          link: campaignDashboardLink(
+            process.env.APP_BASE_URL ?? "",
+            approval.client_slug,
+            approval.mba_number,
+            approval.media_plan_version
+          ),
+        })
+        await sendHtmlEmail({ to: approval.sent_by_email, subject, html })
+      } catch (error) {
+        console.error("[api/mba-approval-requests/respond] notify sender failed", error)
+        emailError = error instanceof Error ? error.message : "Failed to email sender"
+      }
+    }
+
+    return NextResponse.json({ request: updated, decisions: rows, emailError })
+  } catch (error) {
+    if (error instanceof XanoMbaApprovalError) {
+      return NextResponse.json({ error: error.message }, { status: 502 })
+    }
+    console.error("[api/mba-approval-requests/respond]", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
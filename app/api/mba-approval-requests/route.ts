@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from "next/server"
+import { listAuth0UsersByClientSlug } from "@/lib/api/auth0Management"
+import { internalMediaPlanByMbaUrl } from "@/lib/api/internalBaseUrl"
+import { checkClientMbaAccess } from "@/lib/auth/checkClientMbaAccess"
+import { sendHtmlEmail } from "@/lib/email/sendHtmlEmail"
+import {
+  approvalRecipientEmails,
+  approvalRequestInputSchema,
+  buildApprovalRequestEmail,
+  campaignDashboardLink,
+  resolveApprovalRequestFromPlan,
+} from "@/lib/mediaplan/clientApproval"
+import { requireRole } from "@/lib/requireRole"
+import {
+  createMbaApprovalRequest,
+  listMbaApprovalDecisions,
+  listMbaApprovalRequests,
+  updateMbaApprovalRequest,
+  XanoMbaApprovalError,
+} from "@/lib/xano/mbaApprovalRequests"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+function xanoErrorResponse(error: unknown): NextResponse {
+  if (error instanceof XanoMbaApprovalError) {
+    return NextResponse.json({ error: error.message }, { status: 502 })
+  }
+  console.error("[api/mba-approval-requests]", error)
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+}
+
+/** One stored version via the MBA GET (the dashboard's payload); null when it does not exist. */
+async function loadPlanVersion(
+  request: NextRequest,
+  mbaNumber: string,
+  version: number
+): Promise<Record<string, unknown> | null> {
+  const response = await fetch(`${internalMediaPlanByMbaUrl(mbaNumber)}?version=${version}`, {
+    cache: "no-store",
+    headers: { cookie: request.headers.get("cookie") ?? "" },
+  })
+  if (response.status === 404) return null
+  if (!response.ok) {
+    throw new Error(`Failed to load ${mbaNumber} version ${version}: ${response.status}`)
+  }
+  return (await response.json()) as Record<string, unknown>
+}
+
+/**
+ * GET /api/mba-approval-requests?mba_number=&media_plan_version=
+ * Latest non-withdrawn approval request for the version, with its decision
+ * audit trail. Client role → checkClientMbaAccess.
+ */
+export async function GET(request: NextRequest) {
+  const mbaNumber = request.nextUrl.searchParams.get("mba_number")?.trim() ?? ""
+  const version = Number(request.nextUrl.searchParams.get("media_plan_version"))
+  if (!mbaNumber || !Number.isFinite(version) || version <= 0) {
+    return NextResponse.json(
+      { error: "mba_number and media_plan_version are required" },
+      { status: 400 }
+    )
+  }
+
+  const access = await checkClientMbaAccess(request, mbaNumber)
+  if (!access.ok) return access.response
+
+  try {
+    const current =
+      (await listMbaApprovalRequests(mbaNumber)).find(
+        (r) => r.media_plan_version === version && r.status !== "withdrawn"
+      ) ?? null
+    const decisions = current ? await listMbaApprovalDecisions(current.id) : []
+    return NextResponse.json({ request: current, decisions })
+  } catch (error) {
+    return xanoErrorResponse(error)
+  }
+}
+
+/**
+ * POST /api/mba-approval-requests — send a version to the client for approval.
+ * Gate: admin | manager. The client and line snapshot come from the stored
+ * version; a body naming another client or different lines is rejected (409).
+ * Withdraws any open request on the MBA, then emails the client's users. Email
+ * failure is reported but does not undo the send.
+ */
+export async function POST(request: NextRequest) {
+  const gate = await requireRole(request, ["admin", "manager"])
+  if ("response" in gate) return gate.response
+
+  const email = gate.session?.user.email
+  if (!email) {
+    return NextResponse.json({ error: "Session has no email" }, { status: 400 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  const parsed = approvalRequestInputSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues.map((issue) => issue.message).join("; ") },
+      { status: 400 }
+    )
+  }
+  let plan: Record<string, unknown> | null
+  try {
+    plan = await loadPlanVersion(request, parsed.data.mba_number, parsed.data.media_plan_version)
+  } catch (error) {
+    console.error("[api/mba-approval-requests] load media plan failed", error)
+    return NextResponse.json({ error: "Failed to load the media plan version" }, { status: 502 })
+  }
+  if (!plan) {
+    return NextResponse.json({ error: "Media plan version not found" }, { status: 404 })
+  }
+  const stored = resolveApprovalRequestFromPlan(parsed.data, plan)
+  if (!stored.ok) {
+    return NextResponse.json({ error: stored.error }, { status: 409 })
+  }
+  const input = { ...parsed.data, client_slug: stored.client_slug, lines: stored.lines }
+
+  let created
+  try {
+    const open = (await listMbaApprovalRequests(input.mba_number)).filter((r) => r.status === "sent")
+    for (const previous of open) {
+      await updateMbaApprovalRequest(previous.id, { status: "withdrawn" })
+    }
+    created = await createMbaApprovalRequest({
+      ...input,
+      sent_by_email: email.trim().toLowerCase(),
+    })
+  } catch (error) {
+    return xanoErrorResponse(error)
+  }
+
+  let recipients: string[] = []
+  let emailError: string | null = null
+  try {
+    recipients = approvalRecipientEmails(
+      await listAuth0UsersByClientSlug(input.client_slug),
+      input.mba_number
+    )
+    if (recipients.length > 0) {
+      const { subject, html } = buildApprovalRequestEmail({
+        request: created,
+        senderEmail: email,
+        link: campaignDashboardLink(
+          process.env.APP_BASE_URL ?? "",
+          input.client_slug,
+          input.mba_number,
+          input.media_plan_version
+        ),
+      })
+      await sendHtmlEmail({ to: recipients, subject, html })
+    } else {
+      emailError = "No client users found for this client"
+    }
+  } catch (error) {
+    console.error("[api/mba-approval-requests] notify client failed", error)
+    emailError = error instanceof Error ? error.message : "Failed to email client"
+  }
+
+  return NextResponse.json(
+    { request: created, notified: emailError ? [] : recipients, emailError },
+    { status: 201 }
+  )
+}
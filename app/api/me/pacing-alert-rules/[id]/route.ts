@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireRole } from "@/lib/requireRole"
+import { pacingAlertRulePatchSchema, type PacingAlertRule } from "@/lib/ops/digest/alertRules"
+import {
+  deletePacingAlertRule,
+  getPacingAlertRule,
+  updatePacingAlertRule,
+  XanoPacingAlertRuleError,
+} from "@/lib/xano/pacingAlertRules"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function xanoErrorResponse(error: unknown): NextResponse {
+  if (error instanceof XanoPacingAlertRuleError) {
+    return NextResponse.json({ error: error.message }, { status: 502 })
+  }
+  console.error("[api/me/pacing-alert-rules/[id]]", error)
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+}
+
+/**
+ * Resolves the rule id and checks it belongs to the signed-in user (call after
+ * the role gate). Someone else's rule answers 404 so ids cannot be probed.
+ */
+async function loadOwnedRule(
+  userEmail: string | null | undefined,
+  context: RouteContext
+): Promise<{ rule: PacingAlertRule } | { response: NextResponse }> {
+  const { id: idRaw } = await context.params
+  const id = Number(idRaw)
+  if (!Number.isFinite(id) || id <= 0) {
+    return { response: NextResponse.json({ error: "Invalid rule id" }, { status: 400 }) }
+  }
+
+  const email = userEmail?.trim().toLowerCase()
+  const rule = await getPacingAlertRule(id)
+  if (!rule || !email || rule.user_email !== email) {
+    return { response: NextResponse.json({ error: "Rule not found" }, { status: 404 }) }
+  }
+  return { rule }
+}
+
+/**
+ * PATCH /api/me/pacing-alert-rules/[id] — name | enabled | scope | condition.
+ * Gate: admin | manager, own rules only.
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const gate = await requireRole(request, ["admin", "manager"])
+  if ("response" in gate) return gate.response
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  const parsed = pacingAlertRulePatchSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues.map((issue) => issue.message).join("; ") },
+      { status: 400 }
+    )
+  }
+  if (Object.keys(parsed.data).length === 0) {
+    return NextResponse.json({ error: "No patchable fields provided" }, { status: 400 })
+  }
+
+  try {
+    const owned = await loadOwnedRule(gate.session?.user.email, context)
+    if ("response" in owned) return owned.response
+    return NextResponse.json(await updatePacingAlertRule(owned.rule.id, parsed.data))
+  } catch (error) {
+    return xanoErrorResponse(error)
+  }
+}
+
+/**
+ * DELETE /api/me/pacing-alert-rules/[id]
+ * Gate: admin | manager, own rules only.
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const gate = await requireRole(request, ["admin", "manager"])
+  if ("response" in gate) return gate.response
+
+  try {
+    const owned = await loadOwnedRule(gate.session?.user.email, context)
+    if ("response" in owned) return owned.response
+    await deletePacingAlertRule(owned.rule.id)
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    return xanoErrorResponse(error)
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireRole } from "@/lib/requireRole"
+import { pacingAlertRuleInputSchema } from "@/lib/ops/digest/alertRules"
+import {
+  createPacingAlertRule,
+  listPacingAlertRules,
+  XanoPacingAlertRuleError,
+} from "@/lib/xano/pacingAlertRules"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+function xanoErrorResponse(error: unknown): NextResponse {
+  if (error instanceof XanoPacingAlertRuleError) {
+    return NextResponse.json({ error: error.message }, { status: 502 })
+  }
+  console.error("[api/me/pacing-alert-rules]", error)
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+}
+
+/**
+ * GET /api/me/pacing-alert-rules — the signed-in user's pacing alert subscriptions.
+ * Gate: admin | manager.
+ */
+export async function GET(request: NextRequest) {
+  const gate = await requireRole(request, ["admin", "manager"])
+  if ("response" in gate) return gate.response
+
+  const email = gate.session?.user.email
+  if (!email) {
+    return NextResponse.json({ error: "Session has no email" }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(await listPacingAlertRules({ userEmail: email }))
+  } catch (error) {
+    return xanoErrorResponse(error)
+  }
+}
+
+/**
+ * POST /api/me/pacing-alert-rules — create a rule owned by the signed-in user.
+ * Gate: admin | manager.
+ */
+export async function POST(request: NextRequest) {
+  const gate = await requireRole(request, ["admin", "manager"])
+  if ("response" in gate) return gate.response
+
+  const email = gate.session?.user.email
+  if (!email) {
+    return NextResponse.json({ error: "Session has no email" }, { status: 400 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  const parsed = pacingAlertRuleInputSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues.map((issue) => issue.message).join("; ") },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const rule = await createPacingAlertRule(email, parsed.data)
+    return NextResponse.json(rule, { status: 201 })
+  } catch (error) {
+    return xanoErrorResponse(error)
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { checkClientMbaAccess } from "@/lib/auth/checkClientMbaAccess"
+import { filterChangeLog, groupChangeLogBySave } from "@/lib/mediaplan/changeLog"
+import { invalidMbaNumberResponse, parseMbaNumber } from "@/lib/mediaplan/mbaNumber"
+import { writeInPlaceSaveChangeLog } from "@/lib/mediaplan/writeMediaPlanChangeLog"
+import { listMediaPlanChangeLog, XanoMediaPlanChangeLogError } from "@/lib/xano/mediaPlanChangeLog"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+export const maxDuration = 60
+
+function xanoErrorResponse(error: unknown, context: string): NextResponse {
+  if (error instanceof XanoMediaPlanChangeLogError) {
+    return NextResponse.json({ error: error.message }, { status: 502 })
+  }
+  console.error(`${context} media plan change log:`, error)
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+}
+
+/**
+ * Change history for an MBA, grouped by save (newest first). Staff only.
+ * Filters: `user` (changed_by), `channel` (media type key), `from` / `to`
+ * (Melbourne YYYY-MM-DD). `users` and `channels` list every option in the
+ * unfiltered log for the filter pickers. Rows are written by the MBA save
+ * endpoints (see writeMediaPlanChangeLog).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ mba_number: string }> },
+) {
+  const mbaNumber = parseMbaNumber((await params).mba_number)
+  if (!mbaNumber) return invalidMbaNumberResponse()
+
+  const access = await checkClientMbaAccess(request, mbaNumber)
+  if (!access.ok) return access.response
+  if (access.isClient) {
+    return NextResponse.json({ error: "forbidden" }, { status: 403 })
+  }
+
+  try {
+    const entries = await listMediaPlanChangeLog(mbaNumber)
+    const search = request.nextUrl.searchParams
+    const filtered = filterChangeLog(entries, {
+      user: search.get("user"),
+      mediaType: search.get("channel"),
+      from: search.get("from"),
+      to: search.get("to"),
+    })
+    const users = new Map(entries.map((entry) => [entry.changed_by, entry.changed_by_name || entry.changed_by]))
+    const channels = new Map(entries.map((entry) => [entry.media_type, entry.media_type_label]))
+    return NextResponse.json({
+      saves: groupChangeLogBySave(filtered),
+      total: filtered.length,
+      users: [...users].map(([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name)),
+      channels: [...channels]
+        .map(([key, label]) => ({ key, label }))
+        .sort((a, b) => a.label.localeCompare(b.label)),
+    })
+  } catch (error) {
+    return xanoErrorResponse(error, "GET")
+  }
+}
+
+/**
+ * Record a draft saved in place, once its channel writes are done. Body:
+ * `{ version_number }`. The stored line items are diffed against the baseline
+ * the PUT kept on the version row; 502 when the log could not be written (the
+ * save itself stands). Staff only.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ mba_number: string }> },
+) {
+  const mbaNumber = parseMbaNumber((await params).mba_number)
+  if (!mbaNumber) return invalidMbaNumberResponse()
+
+  const access = await checkClientMbaAccess(request, mbaNumber)
+  if (!access.ok) return access.response
+  if (access.isClient) {
+    return NextResponse.json({ error: "forbidden" }, { status: 403 })
+  }
+
+  const body = (await request.json().catch(() => null)) as { version_number?: unknown } | null
+  const versionNumber = Number(body?.version_number)
+  if (!Number.isInteger(versionNumber) || versionNumber <= 0) {
+    return NextResponse.json({ error: "version_number must be a positive integer" }, { status: 400 })
+  }
+
+  const result = await writeInPlaceSaveChangeLog(request, mbaNumber, versionNumber)
+  if (result.error) {
+    return NextResponse.json({ error: `Change log not recorded: ${result.error}` }, { status: 502 })
+  }
+  return NextResponse.json({ attempted: result.attempted, succeeded: result.succeeded })
+}
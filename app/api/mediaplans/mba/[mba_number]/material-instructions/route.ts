@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 
 import { auth0 } from "@/lib/auth0"
 import { fetchAllMediaContainerLineItems } from "@/lib/api/media-containers"
+import { syncMiDeliverables } from "@/lib/creative/syncMiDeliverables"
 import { getUserRoles } from "@/lib/rbac"
 import {
   applyClientPrefill,
@@ -107,6 +108,7 @@ async function exportWorkbook(
   })
   const buffer = await workbook.xlsx.writeBuffer()
   const filename = miWorkbookFilename(campaign.client, campaign.name)
+  await syncMiDeliverables(mbaNumber, result.resolved)
   return new NextResponse(buffer, {
     headers: {
       "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
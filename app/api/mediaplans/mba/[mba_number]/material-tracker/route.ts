@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { auth0 } from "@/lib/auth0"
+import { listMiDeliverables, XanoCreativeAssetError } from "@/lib/creative/xanoCreativeAssets"
+import { getUserRoles } from "@/lib/rbac"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+/**
+ * Live MI deliverables for an MBA. Delivery status is derived client-side
+ * from these rows and the campaign's creative assets (see buildMiTracker).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ mba_number: string }> },
+) {
+  try {
+    const session = await auth0.getSession(request)
+    if (!session?.user) {
+      return NextResponse.json({ error: "unauthorised" }, { status: 401 })
+    }
+    const roles = getUserRoles(session.user)
+    if (!roles.includes("admin") && !roles.includes("manager")) {
+      return NextResponse.json({ error: "forbidden" }, { status: 403 })
+    }
+
+    const { mba_number: mbaNumber } = await params
+    if (!mbaNumber.trim()) {
+      return NextResponse.json({ error: "MBA number is required" }, { status: 400 })
+    }
+
+    const rows = await listMiDeliverables(mbaNumber)
+    return NextResponse.json({ deliverables: rows.filter((row) => !row.archived) })
+  } catch (error) {
+    if (error instanceof XanoCreativeAssetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status === 401 ? 401 : 502 })
+    }
+    console.error("GET material tracker:", error)
+    return NextResponse.json({ error: "Failed to load material tracker" }, { status: 500 })
+  }
+}
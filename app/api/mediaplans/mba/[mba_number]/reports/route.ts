@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { auth0 } from "@/lib/auth0"
+import { checkClientMbaAccess } from "@/lib/auth/checkClientMbaAccess"
+import { getUserRoles } from "@/lib/rbac"
+import { listReportTemplates } from "@/lib/reports/reportTemplates"
+import { performanceReportScheduleInputSchema } from "@/lib/reports/scheduledReports"
+import {
+  createPerformanceReportSchedule,
+  listPerformanceReports,
+  listPerformanceReportSchedules,
+  updatePerformanceReportSchedule,
+  XanoPerformanceReportError,
+} from "@/lib/xano/performanceReports"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+function xanoErrorResponse(error: unknown, context: string): NextResponse {
+  if (error instanceof XanoPerformanceReportError) {
+    return NextResponse.json({ error: error.message }, { status: 502 })
+  }
+  console.error(`${context} performance reports:`, error)
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+}
+
+/**
+ * Generated performance reports for an MBA (downloads go through
+ * /api/reports/download). Clients see their own MBAs' reports; staff also get
+ * the schedule, `canSchedule` and the client's report templates (`?client=`
+ * names the client when no schedule exists yet).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ mba_number: string }> },
+) {
+  const { mba_number: mbaNumber } = await params
+  if (!mbaNumber.trim()) {
+    return NextResponse.json({ error: "MBA number is required" }, { status: 400 })
+  }
+
+  const access = await checkClientMbaAccess(request, mbaNumber)
+  if (!access.ok) return access.response
+
+  try {
+    if (access.isClient) {
+      return NextResponse.json({
+        reports: await listPerformanceReports(mbaNumber),
+        schedule: null,
+        canSchedule: false,
+      })
+    }
+    const session = await auth0.getSession(request)
+    const roles = session?.user ? getUserRoles(session.user) : []
+    const [reports, schedules] = await Promise.all([
+      listPerformanceReports(mbaNumber),
+      listPerformanceReportSchedules({ mbaNumber }),
+    ])
+    const schedule = schedules[0] ?? null
+    const clientName = schedule?.client_name || request.nextUrl.searchParams.get("client") || null
+    return NextResponse.json({
+      reports,
+      schedule,
+      canSchedule: roles.includes("admin") || roles.includes("manager"),
+      templates: listReportTemplates(clientName).map(({ id, label }) => ({ id, label })),
+    })
+  } catch (error) {
+    return xanoErrorResponse(error, "GET")
+  }
+}
+
+/** Create or replace the MBA's report schedule. Gate: admin | manager. */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ mba_number: string }> },
+) {
+  const session = await auth0.getSession(request)
+  if (!session?.user) {
+    return NextResponse.json({ error: "unauthorised" }, { status: 401 })
+  }
+  const roles = getUserRoles(session.user)
+  if (!roles.includes("admin") && !roles.includes("manager")) {
+    return NextResponse.json({ error: "forbidden" }, { status: 403 })
+  }
+
+  const { mba_number: mbaNumber } = await params
+  if (!mbaNumber.trim()) {
+    return NextResponse.json({ error: "MBA number is required" }, { status: 400 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  const parsed = performanceReportScheduleInputSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues.map((issue) => issue.message).join("; ") },
+      { status: 400 },
+    )
+  }
+
+  try {
+    const [existing] = await listPerformanceReportSchedules({ mbaNumber })
+    if (!existing) {
+      return NextResponse.json(await createPerformanceReportSchedule(mbaNumber, parsed.data), { status: 201 })
+    }
+    const patch = {
+      ...parsed.data,
+      client_name: parsed.data.client_name || existing.client_name,
+      // A new cadence starts from its own last completed period.
+      ...(parsed.data.cadence !== existing.cadence ? { last_period_key: "" } : {}),
+    }
+    return NextResponse.json(await updatePerformanceReportSchedule(existing.id, patch))
+  } catch (error) {
+    return xanoErrorResponse(error, "PUT")
+  }
+}
@@ -24,6 +24,7 @@ import {
   publishedVersionFromMaster,
 } from "@/lib/mediaplan/publishedVersionGuard"
 import { reapUnpublishedStagedVersions } from "@/lib/mediaplan/reapUnpublishedStagedVersions"
+import { captureChangeLogBaseline, writeMediaPlanChangeLog } from "@/lib/mediaplan/writeMediaPlanChangeLog"
 import {
   checkPublishLineItemIntegrity,
   countPublishIntegrityChildren,
@@ -1570,9 +1571,12 @@ export async function PUT(
       data.defer_master_version_publish === true
 
     if (overwriteMode) {
+      // The stored children are about to be replaced; keep them for the change log.
+      const changeLogBaseline = await captureChangeLogBaseline(request, mba_number, overwriteTargetRow)
       const overwriteData = {
         ...newVersionData,
         version_number: overwriteTargetVersionNumber,
+        ...(changeLogBaseline !== undefined ? { change_log_baseline: changeLogBaseline } : {}),
       }
       const overwriteMasterUpdateData = {
         ...masterUpdateData,
@@ -1890,6 +1894,19 @@ export async function PATCH(
     if (masterUpdateResponse.status >= 200 && masterUpdateResponse.status < 300) {
       console.log(`[PATCH] Successfully updated master ID ${numericMasterId}`)
       console.log("[PATCH] Master updated response:", masterUpdateResponse.data)
+
+      // Publishing a new version completes its save; drafts overwritten in place
+      // are recorded by the change-log POST once their channel writes are done.
+      const publishedVersion = parseVersion(masterUpdateData.version_number)
+      const previousVersion = parseVersion(masterData.version_number) ?? 0
+      if (publishedVersion != null && publishedVersion > previousVersion) {
+        await writeMediaPlanChangeLog(request, {
+          mbaNumber: mba_number,
+          publishedVersion: previousVersion,
+          toVersion: publishedVersion,
+          versionRow: null,
+        })
+      }
       
       // Verify the response indicates a single record was updated
       // Xano typically returns the updated record object, not an array
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import {
+  namingConventionOverrideSchema,
+  validateNamingConventionOverride,
+} from "@/lib/naming/clientConventions"
+import { requireAdmin, requireRole } from "@/lib/requireRole"
+import {
+  deleteClientNamingConventions,
+  getClientNamingConventions,
+  saveClientNamingConventions,
+  XanoNamingConventionsError,
+} from "@/lib/xano/namingConventions"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+export const revalidate = 0
+
+const CLIENT_SLUG_RE = /^[a-z0-9][a-z0-9_-]*$/
+
+function xanoErrorResponse(error: unknown, context: string): NextResponse {
+  if (error instanceof XanoNamingConventionsError) {
+    return NextResponse.json({ error: error.message }, { status: 502 })
+  }
+  console.error(`${context} naming conventions:`, error)
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+}
+
+async function clientSlugParam(params: Promise<{ client_slug: string }>): Promise<string | null> {
+  const slug = decodeURIComponent((await params).client_slug).trim().toLowerCase()
+  return CLIENT_SLUG_RE.test(slug) ? slug : null
+}
+
+/**
+ * The client's naming-convention override (null when the client uses the
+ * house templates). `issues` lists anything the stored override fails, in
+ * which case the builders fall back to the house set. Staff only.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ client_slug: string }> },
+) {
+  const gate = await requireRole(request, ["admin", "manager"])
+  if ("response" in gate) return gate.response
+
+  const clientSlug = await clientSlugParam(params)
+  if (!clientSlug) {
+    return NextResponse.json({ error: "Invalid client slug" }, { status: 400 })
+  }
+
+  try {
+    const override = await getClientNamingConventions(clientSlug)
+    return NextResponse.json({
+      clientSlug,
+      override,
+      issues: override ? validateNamingConventionOverride(override) : [],
+    })
+  } catch (error) {
+    return xanoErrorResponse(error, "GET")
+  }
+}
+
+/** Replace the client's override. Admin only; rejects anything `validateTemplates` would flag. */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ client_slug: string }> },
+) {
+  const admin = await requireAdmin(request)
+  if ("response" in admin) return admin.response
+
+  const clientSlug = await clientSlugParam(params)
+  if (!clientSlug) {
+    return NextResponse.json({ error: "Invalid client slug" }, { status: 400 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+  }
+  const parsed = namingConventionOverrideSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues.map((issue) => issue.message).join("; ") },
+      { status: 400 },
+    )
+  }
+  const issues = validateNamingConventionOverride(parsed.data)
+  if (issues.length > 0) {
+    return NextResponse.json({ error: "Naming conventions are invalid", issues }, { status: 400 })
+  }
+
+  try {
+    const updatedBy = admin.session?.user?.email ?? admin.session?.user?.sub ?? "unknown"
+    const override = await saveClientNamingConventions(clientSlug, parsed.data, updatedBy)
+    return NextResponse.json({ clientSlug, override, issues: [] })
+  } catch (error) {
+    return xanoErrorResponse(error, "PUT")
+  }
+}
+
+/** Drop the override so the client goes back to the house conventions. Admin only. */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ client_slug: string }> },
+) {
+  const admin = await requireAdmin(request)
+  if ("response" in admin) return admin.response
+
+  const clientSlug = await clientSlugParam(params)
+  if (!clientSlug) {
+    return NextResponse.json({ error: "Invalid client slug" }, { status: 400 })
+  }
+
+  try {
+    const existing = await getClientNamingConventions(clientSlug)
+    if (existing) await deleteClientNamingConventions(existing.id)
+    return NextResponse.json({ clientSlug, override: null, issues: [] })
+  } catch (error) {
+    return xanoErrorResponse(error, "DELETE")
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/requireRole";
+import { getNamingLintReport } from "@/lib/pacing/admin/namingLint";
+import { getAsOfDate } from "@/lib/pacing/maths";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  const admin = await requireAdmin(request);
+  if ("response" in admin) return admin.response;
+
+  const url = new URL(request.url);
+  const dateWindowDays = Number(url.searchParams.get("dateWindow") ?? 30);
+  const window = Number.isFinite(dateWindowDays) && dateWindowDays > 0 ? dateWindowDays : 30;
+
+  // Same as-of key as the pacing tabs so live line items come from the warm cache.
+  const asOfDate = getAsOfDate();
+
+  try {
+    const report = await getNamingLintReport({ asOfDate, dateWindowDays: window });
+    return NextResponse.json({ ...report, asOfDate, dateWindow: window });
+  } catch (err) {
+    console.error("[api/pacing/admin/naming] failed", err);
+    return NextResponse.json({ error: "internal_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/requireRole";
+import {
+  assignOrphanLineItems,
+  type BulkOrphanAssignment,
+} from "@/lib/pacing/admin/assignOrphanLineItem";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+const MAX_ASSIGNMENTS = 100;
+
+type RequestBody = {
+  assignments?: Array<{
+    channel?: string;
+    platformLineItemId?: string;
+    lineItemId?: string;
+    adGroupName?: string;
+    campaignName?: string;
+    note?: string;
+  }>;
+};
+
+export async function POST(request: NextRequest) {
+  const admin = await requireAdmin(request);
+  if ("response" in admin) return admin.response;
+
+  let body: RequestBody;
+  try {
+    body = (await request.json()) as RequestBody;
+  } catch {
+    return NextResponse.json({ error: "invalid_json" }, { status: 400 });
+  }
+
+  const raw = Array.isArray(body.assignments) ? body.assignments : [];
+  if (raw.length === 0) {
+    return NextResponse.json({ error: "missing_fields" }, { status: 400 });
+  }
+  if (raw.length > MAX_ASSIGNMENTS) {
+    return NextResponse.json(
+      { error: "too_many_assignments", message: `At most ${MAX_ASSIGNMENTS} per request.` },
+      { status: 400 }
+    );
+  }
+  if (raw.some((a) => !a.channel || !a.platformLineItemId || !a.lineItemId)) {
+    return NextResponse.json({ error: "missing_fields" }, { status: 400 });
+  }
+
+  const assignments: BulkOrphanAssignment[] = raw.map((a) => ({
+    channel: a.channel!,
+    platformLineItemId: a.platformLineItemId!,
+    newLineItemId: a.lineItemId!,
+    note: a.note,
+    adGroupName: a.adGroupName,
+    campaignName: a.campaignName,
+  }));
+
+  const adminEmail =
+    admin.session?.user?.email ?? admin.session?.user?.sub ?? "unknown";
+
+  try {
+    const results = await assignOrphanLineItems(adminEmail, assignments);
+    return NextResponse.json({
+      results,
+      applied: results.filter((r) => r.ok).length,
+      failed: results.filter((r) => !r.ok).length,
+    });
+  } catch (err) {
+    console.error("[api/pacing/admin/orphans/assign-bulk] failed", err);
+    return NextResponse.json({ error: "internal_error" }, { status: 500 });
+  }
+}
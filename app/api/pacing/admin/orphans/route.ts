@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin } from "@/lib/requireRole";
 import { getOrphanAdGroups, SEARCH_PACING_CHANNELS } from "@/lib/pacing/admin/orphanDetection";
+import { isAutoAcceptable, suggestOrphanMatches } from "@/lib/pacing/admin/orphanSuggestions";
+import { getLiveSearchLineItemRecords } from "@/lib/pacing/campaigns/liveSearchLineItems";
 
 export const dynamic = "force-dynamic";
 export const maxDuration = 60;
@@ -22,13 +24,19 @@ export async function GET(request: NextRequest) {
   const asOfDate = new Date().toISOString().slice(0, 10);
 
   try {
+    const liveLineItems = await getLiveSearchLineItemRecords({ asOfDate, allowedClientSlugs: null });
     const orphans = await getOrphanAdGroups({
       asOfDate,
       dateWindowDays: Number.isFinite(dateWindowDays) ? dateWindowDays : 30,
       channelFilter,
       spendThreshold: Number.isFinite(spendThreshold) ? spendThreshold : 0,
+      liveLineItemIds: new Set(liveLineItems.map((li) => li.lineItemId)),
     });
-    return NextResponse.json({ orphans, asOfDate, dateWindow: dateWindowDays });
+    const withSuggestions = orphans.map((orphan) => {
+      const suggestions = suggestOrphanMatches(orphan, liveLineItems);
+      return { ...orphan, suggestions, autoAcceptable: isAutoAcceptable(suggestions) };
+    });
+    return NextResponse.json({ orphans: withSuggestions, asOfDate, dateWindow: dateWindowDays });
   } catch (err) {
     console.error("[api/pacing/admin/orphans] failed", err);
     return NextResponse.json({ error: "internal_error" }, { status: 500 });
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireRole } from "@/lib/requireRole"
+import { listPublisherRateCards, XanoPublisherRateCardError } from "@/lib/xano/publisherRateCards"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+/**
+ * GET /api/publisher-rate-cards?media_type=television — every publisher's rate
+ * cards for one channel; channel containers resolve the line item's card client-side.
+ * Gate: admin | manager.
+ */
+export async function GET(request: NextRequest) {
+  const gate = await requireRole(request, ["admin", "manager"])
+  if ("response" in gate) return gate.response
+
+  const mediaType = request.nextUrl.searchParams.get("media_type")?.trim()
+  if (!mediaType) {
+    return NextResponse.json({ error: "media_type is required" }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(await listPublisherRateCards({ mediaType }))
+  } catch (error) {
+    if (error instanceof XanoPublisherRateCardError) {
+      return NextResponse.json({ error: error.message }, { status: 502 })
+    }
+    console.error("[api/publisher-rate-cards]", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getPublisherByPublisherId } from "@/lib/api/publishers"
+import { publisherRateCardInputSchema } from "@/lib/publisher/rateCards"
+import { requireRole } from "@/lib/requireRole"
+import {
+  deletePublisherRateCard,
+  getPublisherRateCard,
+  updatePublisherRateCard,
+  XanoPublisherRateCardError,
+} from "@/lib/xano/publisherRateCards"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+type RouteContext = { params: Promise<{ publisherId: string; id: string }> }
+
+function xanoErrorResponse(error: unknown): NextResponse {
+  if (error instanceof XanoPublisherRateCardError) {
+    return NextResponse.json({ error: error.message }, { status: 502 })
+  }
+  console.error("[api/publishers/rate-cards/[id]]", error)
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+}
+
+/** 404 unless the card exists and belongs to the publisher in the path. */
+async function loadOwnedCard({ params }: RouteContext) {
+  const { publisherId, id } = await params
+  const cardId = Number(id)
+  if (!Number.isInteger(cardId) || cardId <= 0) {
+    return { response: NextResponse.json({ error: "Invalid rate card id" }, { status: 400 }) }
+  }
+  const [publisher, card] = await Promise.all([
+    getPublisherByPublisherId(publisherId),
+    getPublisherRateCard(cardId),
+  ])
+  if (!publisher || !card || card.publisher_id !== publisher.id) {
+    return { response: NextResponse.json({ error: "Rate card not found" }, { status: 404 }) }
+  }
+  return { card }
+}
+
+/**
+ * PATCH /api/publishers/[publisherId]/rate-cards/[id] — replace a rate card row.
+ * Gate: admin | manager.
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const gate = await requireRole(request, ["admin", "manager"])
+  if ("response" in gate) return gate.response
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  const parsed = publisherRateCardInputSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues.map((issue) => issue.message).join("; ") },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const owned = await loadOwnedCard(context)
+    if ("response" in owned) return owned.response
+    return NextResponse.json(await updatePublisherRateCard(owned.card.id, parsed.data))
+  } catch (error) {
+    return xanoErrorResponse(error)
+  }
+}
+
+/**
+ * DELETE /api/publishers/[publisherId]/rate-cards/[id].
+ * Gate: admin | manager.
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const gate = await requireRole(request, ["admin", "manager"])
+  if ("response" in gate) return gate.response
+
+  try {
+    const owned = await loadOwnedCard(context)
+    if ("response" in owned) return owned.response
+    await deletePublisherRateCard(owned.card.id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return xanoErrorResponse(error)
+  }
+}
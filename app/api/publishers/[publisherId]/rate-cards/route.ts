@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getPublisherByPublisherId } from "@/lib/api/publishers"
+import { publisherRateCardInputSchema } from "@/lib/publisher/rateCards"
+import { requireRole } from "@/lib/requireRole"
+import {
+  createPublisherRateCard,
+  listPublisherRateCards,
+  XanoPublisherRateCardError,
+} from "@/lib/xano/publisherRateCards"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+type RouteContext = { params: Promise<{ publisherId: string }> }
+
+function xanoErrorResponse(error: unknown): NextResponse {
+  if (error instanceof XanoPublisherRateCardError) {
+    return NextResponse.json({ error: error.message }, { status: 502 })
+  }
+  console.error("[api/publishers/rate-cards]", error)
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+}
+
+/**
+ * GET /api/publishers/[publisherId]/rate-cards — all rate cards for the publisher.
+ * Gate: admin | manager.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const gate = await requireRole(request, ["admin", "manager"])
+  if ("response" in gate) return gate.response
+
+  try {
+    const publisher = await getPublisherByPublisherId((await params).publisherId)
+    if (!publisher) {
+      return NextResponse.json({ error: "Publisher not found" }, { status: 404 })
+    }
+    return NextResponse.json(await listPublisherRateCards({ publisherId: publisher.id }))
+  } catch (error) {
+    return xanoErrorResponse(error)
+  }
+}
+
+/**
+ * POST /api/publishers/[publisherId]/rate-cards — add a rate card row.
+ * Gate: admin | manager.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const gate = await requireRole(request, ["admin", "manager"])
+  if ("response" in gate) return gate.response
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  const parsed = publisherRateCardInputSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues.map((issue) => issue.message).join("; ") },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const publisher = await getPublisherByPublisherId((await params).publisherId)
+    if (!publisher) {
+      return NextResponse.json({ error: "Publisher not found" }, { status: 404 })
+    }
+    const card = await createPublisherRateCard(publisher.id, parsed.data)
+    return NextResponse.json(card, { status: 201 })
+  } catch (error) {
+    return xanoErrorResponse(error)
+  }
+}
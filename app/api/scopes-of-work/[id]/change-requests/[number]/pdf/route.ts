@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server"
+import { generateScopeChangeRequest } from "@/lib/generateScopeChangeRequest"
+import { requireRole } from "@/lib/requireRole"
+import { parseScopeChangeRequests } from "@/lib/scopes/changeRequests"
+import { buildScopeBurnDownForScope } from "@/lib/scopes/timeTracking"
+import { getScopeOfWork, listScopeTimeEntries, XanoScopeTrackingError } from "@/lib/xano/scopeTracking"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+type RouteContext = { params: Promise<{ id: string; number: string }> }
+
+/**
+ * GET /api/scopes-of-work/[id]/change-requests/[number]/pdf — the change-request
+ * document, with burn-down to date against the original quote.
+ * Gate: admin | manager.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const gate = await requireRole(request, ["admin", "manager"])
+  if ("response" in gate) return gate.response
+
+  const { id, number } = await params
+  const scopeId = Number(id)
+  if (!Number.isInteger(scopeId) || scopeId <= 0) {
+    return NextResponse.json({ error: "Invalid scope id" }, { status: 400 })
+  }
+
+  try {
+    const [scope, entries] = await Promise.all([getScopeOfWork(scopeId), listScopeTimeEntries(scopeId)])
+    if (!scope) return NextResponse.json({ error: "Scope of work not found" }, { status: 404 })
+    const changeRequest = parseScopeChangeRequests(scope.change_requests).find(
+      (request) => request.number === decodeURIComponent(number)
+    )
+    if (!changeRequest) return NextResponse.json({ error: "Change request not found" }, { status: 404 })
+
+    const pdf = await generateScopeChangeRequest({
+      client_name: scope.client_name ?? "",
+      project_name: scope.project_name ?? "",
+      scope_id: String(scope.scope_id || scope.id),
+      scope_version: scope.scope_version ?? 1,
+      changeRequest,
+      burn: buildScopeBurnDownForScope(scope, entries),
+    })
+    const filename = `${changeRequest.number.replace(/[^A-Za-z0-9._-]+/g, "_")}.pdf`
+    return new NextResponse(pdf, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof XanoScopeTrackingError) {
+      return NextResponse.json({ error: error.message }, { status: 502 })
+    }
+    console.error("[api/scopes-of-work/change-requests/[number]/pdf]", error)
+    return NextResponse.json({ error: "Failed to generate change request" }, { status: 500 })
+  }
+}
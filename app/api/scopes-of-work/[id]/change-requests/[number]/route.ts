@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireRole } from "@/lib/requireRole"
+import {
+  applyChangeRequestUpdate,
+  parseScopeChangeRequests,
+  scopeChangeRequestUpdateSchema,
+} from "@/lib/scopes/changeRequests"
+import { getScopeOfWork, saveScopeChangeRequests, XanoScopeTrackingError } from "@/lib/xano/scopeTracking"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+type RouteContext = { params: Promise<{ id: string; number: string }> }
+
+/**
+ * PATCH /api/scopes-of-work/[id]/change-requests/[number] — move a change
+ * request through draft → sent → approved / rejected. Approval needs a billing
+ * month: that is when finance picks the lines up as a SOW receivable. Any other
+ * move, and any change to an approved or rejected request, is a 409.
+ * Gate: admin | manager.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const gate = await requireRole(request, ["admin", "manager"])
+  if ("response" in gate) return gate.response
+
+  const { id, number } = await params
+  const scopeId = Number(id)
+  if (!Number.isInteger(scopeId) || scopeId <= 0) {
+    return NextResponse.json({ error: "Invalid scope id" }, { status: 400 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  const parsed = scopeChangeRequestUpdateSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues.map((issue) => issue.message).join("; ") },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const scope = await getScopeOfWork(scopeId)
+    if (!scope) return NextResponse.json({ error: "Scope of work not found" }, { status: 404 })
+
+    const requests = parseScopeChangeRequests(scope.change_requests)
+    const target = requests.find((request) => request.number === decodeURIComponent(number))
+    if (!target) return NextResponse.json({ error: "Change request not found" }, { status: 404 })
+
+    const result = applyChangeRequestUpdate(target, parsed.data)
+    if (!result.ok) return NextResponse.json({ error: result.error }, { status: 409 })
+    const updated = result.request
+
+    await saveScopeChangeRequests(
+      scopeId,
+      requests.map((request) => (request.number === target.number ? updated : request))
+    )
+    return NextResponse.json(updated)
+  } catch (error) {
+    if (error instanceof XanoScopeTrackingError) {
+      return NextResponse.json({ error: error.message }, { status: 502 })
+    }
+    console.error("[api/scopes-of-work/change-requests/[number]]", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
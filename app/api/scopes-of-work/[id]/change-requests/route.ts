@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireRole } from "@/lib/requireRole"
+import {
+  nextChangeRequestNumber,
+  parseScopeChangeRequests,
+  scopeChangeRequestInputSchema,
+  type ScopeChangeRequest,
+} from "@/lib/scopes/changeRequests"
+import { getScopeOfWork, saveScopeChangeRequests, XanoScopeTrackingError } from "@/lib/xano/scopeTracking"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * POST /api/scopes-of-work/[id]/change-requests — raise a draft change request
+ * to re-quote the scope. Numbered `<scope_id>-CR<n>`.
+ * Gate: admin | manager.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const gate = await requireRole(request, ["admin", "manager"])
+  if ("response" in gate) return gate.response
+
+  const scopeId = Number((await params).id)
+  if (!Number.isInteger(scopeId) || scopeId <= 0) {
+    return NextResponse.json({ error: "Invalid scope id" }, { status: 400 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  const parsed = scopeChangeRequestInputSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues.map((issue) => issue.message).join("; ") },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const scope = await getScopeOfWork(scopeId)
+    if (!scope) return NextResponse.json({ error: "Scope of work not found" }, { status: 404 })
+
+    const existing = parseScopeChangeRequests(scope.change_requests)
+    const user = gate.session?.user
+    const created: ScopeChangeRequest = {
+      ...parsed.data,
+      number: nextChangeRequestNumber(String(scope.scope_id || scope.id), existing),
+      status: "draft",
+      created_at: new Date().toISOString().slice(0, 10),
+      created_by: user?.name || user?.email || "unknown",
+    }
+    await saveScopeChangeRequests(scopeId, [...existing, created])
+    return NextResponse.json(created, { status: 201 })
+  } catch (error) {
+    if (error instanceof XanoScopeTrackingError) {
+      return NextResponse.json({ error: error.message }, { status: 502 })
+    }
+    console.error("[api/scopes-of-work/change-requests]", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -90,6 +90,7 @@ export async function PUT(
       assumptions: body.assumptions || "",
       exclusions: body.exclusions || "",
       cost: body.cost || [],
+      hourly_rate: Number(body.hourly_rate) > 0 ? Number(body.hourly_rate) : null,
       payment_terms_and_conditions: body.payment_terms_and_conditions || "",
       billing_schedule: body.billing_schedule ? JSON.stringify(body.billing_schedule) : null,
       scope_id: body.scope_id || "",
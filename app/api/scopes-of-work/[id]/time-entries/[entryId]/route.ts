@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireRole } from "@/lib/requireRole"
+import { deleteScopeTimeEntry, getScopeTimeEntry, XanoScopeTrackingError } from "@/lib/xano/scopeTracking"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+type RouteContext = { params: Promise<{ id: string; entryId: string }> }
+
+/**
+ * DELETE /api/scopes-of-work/[id]/time-entries/[entryId] — remove a mis-logged entry.
+ * Gate: admin | manager.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const gate = await requireRole(request, ["admin", "manager"])
+  if ("response" in gate) return gate.response
+
+  const { id, entryId } = await params
+  const scopeId = Number(id)
+  const timeEntryId = Number(entryId)
+  if (!Number.isInteger(scopeId) || !Number.isInteger(timeEntryId) || timeEntryId <= 0) {
+    return NextResponse.json({ error: "Invalid time entry id" }, { status: 400 })
+  }
+
+  try {
+    const entry = await getScopeTimeEntry(timeEntryId)
+    if (!entry || entry.scope_of_work_id !== scopeId) {
+      return NextResponse.json({ error: "Time entry not found" }, { status: 404 })
+    }
+    await deleteScopeTimeEntry(timeEntryId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof XanoScopeTrackingError) {
+      return NextResponse.json({ error: error.message }, { status: 502 })
+    }
+    console.error("[api/scopes-of-work/time-entries/[entryId]]", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireRole } from "@/lib/requireRole"
+import { scopeCostLines, scopeHourlyRate, scopeTimeEntryInputSchema } from "@/lib/scopes/timeTracking"
+import {
+  createScopeTimeEntry,
+  getScopeOfWork,
+  listScopeTimeEntries,
+  XanoScopeTrackingError,
+} from "@/lib/xano/scopeTracking"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function xanoErrorResponse(error: unknown): NextResponse {
+  if (error instanceof XanoScopeTrackingError) {
+    return NextResponse.json({ error: error.message }, { status: 502 })
+  }
+  console.error("[api/scopes-of-work/time-entries]", error)
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+}
+
+async function scopeIdFrom({ params }: RouteContext): Promise<number | null> {
+  const id = Number((await params).id)
+  return Number.isInteger(id) && id > 0 ? id : null
+}
+
+/**
+ * GET /api/scopes-of-work/[id]/time-entries — hours logged against the scope.
+ * Gate: admin | manager.
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  const gate = await requireRole(request, ["admin", "manager"])
+  if ("response" in gate) return gate.response
+
+  const scopeId = await scopeIdFrom(context)
+  if (!scopeId) return NextResponse.json({ error: "Invalid scope id" }, { status: 400 })
+
+  try {
+    return NextResponse.json(await listScopeTimeEntries(scopeId))
+  } catch (error) {
+    return xanoErrorResponse(error)
+  }
+}
+
+/**
+ * POST /api/scopes-of-work/[id]/time-entries — log hours against one of the
+ * scope's cost lines as the signed-in user. The entry is costed at the
+ * scope's hourly rate; a rate in the body is ignored.
+ * Gate: admin | manager.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const gate = await requireRole(request, ["admin", "manager"])
+  if ("response" in gate) return gate.response
+
+  const scopeId = await scopeIdFrom(context)
+  if (!scopeId) return NextResponse.json({ error: "Invalid scope id" }, { status: 400 })
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  const parsed = scopeTimeEntryInputSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues.map((issue) => issue.message).join("; ") },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const scope = await getScopeOfWork(scopeId)
+    if (!scope) return NextResponse.json({ error: "Scope of work not found" }, { status: 404 })
+    const line = scopeCostLines(scope.cost)[parsed.data.cost_line_index]
+    if (!line) {
+      return NextResponse.json({ error: "Cost line not found on this scope" }, { status: 400 })
+    }
+
+    const user = gate.session?.user
+    const staff = user?.email || user?.sub || "unknown"
+    const entry = await createScopeTimeEntry({
+      ...parsed.data,
+      scope_of_work_id: scopeId,
+      hourly_rate: scopeHourlyRate(scope),
+      expense_category: line.expense_category,
+      staff,
+      staff_name: user?.name || staff,
+    })
+    return NextResponse.json(entry, { status: 201 })
+  } catch (error) {
+    return xanoErrorResponse(error)
+  }
+}
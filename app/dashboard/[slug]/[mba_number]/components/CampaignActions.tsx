@@ -72,7 +72,7 @@ function bufferToBase64(buffer: ArrayBuffer): string {
 
 export default function CampaignActions({
   mbaNumber,
-  campaign: _campaign,
+  campaign,
   lineItems,
   billingSchedule,
   xanoFileOrigin,
@@ -95,6 +95,7 @@ export default function CampaignActions({
     0
   )
   const isBusy = isDownloadingMediaPlan || isDownloadingMba || isDownloadingBilling
+  const clientName = String(campaign?.client?.name || campaign?.client_name || campaign?.mp_client_name || "")
 
   const handleVersionChange = (versionNumber: number) => {
     const params = new URLSearchParams(searchParams?.toString() ?? "")
@@ -274,6 +275,7 @@ export default function CampaignActions({
       lineItemCount={lineItemCount}
       isBusy={isBusy}
       ariaStatus={ariaStatus}
+      reportsClientName={clientName}
     >
       {showFloating ? (
         <div className="md:hidden">
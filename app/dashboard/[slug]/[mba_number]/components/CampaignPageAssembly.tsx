@@ -25,6 +25,7 @@ import SpendChartsRow from "@/components/dashboard/campaign/SpendChartsRow"
 import MediaPlanVizSection from "@/components/dashboard/campaign/MediaPlanVizSection"
 import CampaignDetailsModal from "@/components/dashboard/campaign/CampaignDetailsModal"
 import { PlannedAudienceSection } from "@/components/dashboard/campaign/PlannedAudienceSection"
+import { MediaPlanApprovalSection } from "@/components/dashboard/campaign/MediaPlanApprovalSection"
 import { CampaignDeliverySection } from "@/components/dashboard/delivery/CampaignDeliverySection"
 import CampaignActions from "./CampaignActions"
 import type { MediaPlanVersionListEntry } from "@/lib/api/dashboard"
@@ -637,6 +638,20 @@ export default function CampaignPageAssembly(props: CampaignPageAssemblyProps) {
         </SectionBoundary>
       </section>
 
+      <section className="mt-8">
+        <SectionBoundary title="Client approval">
+          <div className="campaign-section-enter" style={{ animationDelay: "350ms" }}>
+            <MediaPlanApprovalSection
+              mbaNumber={mbaNumber}
+              clientSlug={slug}
+              campaignName={heroCampaign.campaignName}
+              version={currentVersion}
+              lineItemsMap={lineItemsMap}
+            />
+          </div>
+        </SectionBoundary>
+      </section>
+
       {showDeliverySection ? (
         <section className="mt-8">
           <SectionBoundary title="Delivery">
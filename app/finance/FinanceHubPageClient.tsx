@@ -31,7 +31,8 @@ import {
 import { buildFinanceHubWorkbook } from "@/lib/finance/excelFinanceExport"
 import { exportBillingRecordsCsv, exportPayablesDetailCsv } from "@/lib/finance/export"
 import { exportAccrualWorkbook } from "@/lib/finance/accrualExcel"
-import { fetchFinanceEditsList } from "@/lib/finance/api"
+import { fetchFinanceEditsList, fetchRebateTracker } from "@/lib/finance/api"
+import { exportRebateClaimWorkbook } from "@/lib/finance/rebates/rebateClaimExcel"
 import { computeAccrualByClient, parseAccrualReconcilesFromEdits } from "@/lib/finance/computeAccrual"
 import {
   buildFinanceForecastWorkbook,
@@ -104,6 +105,10 @@ const FinanceForecastPanel = dynamic(
   () => import("@/components/finance/hub/panels/FinanceForecastPanel"),
   { loading: () => <HubPanelFallback /> }
 )
+const FinanceRebatesPanel = dynamic(
+  () => import("@/components/finance/hub/panels/FinanceRebatesPanel"),
+  { loading: () => <HubPanelFallback /> }
+)
 const FinanceReportPanel = dynamic(
   () => import("@/components/finance/hub/panels/FinanceReportPanel"),
   { loading: () => <HubPanelFallback /> }
@@ -440,8 +445,9 @@ export default function FinanceHubPageClient() {
             : `Accrual_${filters.monthRange.from}_${filters.monthRange.to}`
         await exportAccrualWorkbook(rows, `${stem}.xlsx`)
       } else if (activeTab === "forecast") {
-        const fyStart = useFinanceStore.getState().filters.financialYear
-        const res = await fetch(`/api/finance/forecast?fy=${fyStart}&scenario=confirmed`, {
+        const { filters: current, forecastScenario } = useFinanceStore.getState()
+        const fyStart = current.financialYear
+        const res = await fetch(`/api/finance/forecast?fy=${fyStart}&scenario=${forecastScenario}`, {
           cache: "no-store",
         })
         if (!res.ok) {
@@ -460,6 +466,14 @@ export default function FinanceHubPageClient() {
           type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
         })
         saveAs(blob, `${financeForecastExportFilenameStem(dataset)}.xlsx`)
+      } else if (activeTab === "rebates") {
+        const { filters: current, rebatesScenario } = useFinanceStore.getState()
+        const fyStart = current.financialYear
+        const { tracker } = await fetchRebateTracker({
+          financialYearStartYear: fyStart,
+          scenario: rebatesScenario,
+        })
+        await exportRebateClaimWorkbook(tracker, `Rebate_claims_FY${fyStart}.xlsx`)
       } else {
         await exportReceivablesWorkbook(receivableRecords, monthLabel, "Finance_hub_receivables")
       }
@@ -597,6 +611,12 @@ export default function FinanceHubPageClient() {
               >
                 Forecast
               </TabsTrigger>
+              <TabsTrigger
+                value="rebates"
+                className="rounded-none border-b-2 border-transparent data-[state=active]:border-foreground data-[state=active]:bg-transparent data-[state=active]:shadow-none"
+              >
+                Rebates
+              </TabsTrigger>
               <TabsTrigger
                 value="report"
                 className="rounded-none border-b-2 border-transparent data-[state=active]:border-foreground data-[state=active]:bg-transparent data-[state=active]:shadow-none"
@@ -718,6 +738,11 @@ export default function FinanceHubPageClient() {
                 <FinanceForecastPanel />
               </Suspense>
             </TabsContent>
+            <TabsContent value="rebates" className="mt-0">
+              <Suspense fallback={<HubPanelFallback />}>
+                <FinanceRebatesPanel />
+              </Suspense>
+            </TabsContent>
             <TabsContent value="report" className="mt-0">
               <Suspense fallback={<HubPanelFallback />}>
                 <FinanceReportPanel />
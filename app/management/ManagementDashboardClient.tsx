@@ -0,0 +1,308 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { format } from "date-fns"
+import type { DateRange } from "react-day-picker"
+import { AlertTriangle } from "lucide-react"
+
+import {
+  BaseChartCard,
+  DonutChart,
+  GroupedBarChart,
+  HorizontalBarChart,
+  STATUS,
+  channelColorFor,
+  fmt,
+} from "@/components/charts/system"
+import { Badge } from "@/components/ui/badge"
+import { DateRangePicker } from "@/components/ui/date-range-picker"
+import { MetricCard } from "@/components/ui/MetricCard"
+import { EmptyState, ErrorState, LoadingState } from "@/components/ui/states"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { getManagementOverview } from "@/lib/api/management"
+import { formatAUD } from "@/lib/format/money"
+import type { ManagementOverview, ManagementSource } from "@/lib/management/managementOverview"
+
+const SOURCE_LABELS: Record<ManagementSource, string> = {
+  forecast: "Finance forecast",
+  pacing: "Pacing",
+  tasks: "Tasks",
+}
+
+const TOP_CLIENTS = 10
+
+/** 1 July of the current financial year → today. */
+function defaultRange(): DateRange {
+  const now = new Date()
+  const fyStart = now.getMonth() >= 6 ? now.getFullYear() : now.getFullYear() - 1
+  return { from: new Date(fyStart, 6, 1), to: now }
+}
+
+function monthLabel(month: string): string {
+  const [y, m] = month.split("-").map(Number)
+  return format(new Date(y!, m! - 1, 1), "MMM yy")
+}
+
+export function ManagementDashboardClient() {
+  const [range, setRange] = useState<DateRange>(defaultRange)
+  const [data, setData] = useState<ManagementOverview | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  const from = range.from ? format(range.from, "yyyy-MM-dd") : null
+  const to = range.to ? format(range.to, "yyyy-MM-dd") : from
+
+  useEffect(() => {
+    if (!from || !to) return
+    const controller = new AbortController()
+    setLoading(true)
+    setError(null)
+    getManagementOverview({ from, to }, { signal: controller.signal })
+      .then(setData)
+      .catch((e) => {
+        if (controller.signal.aborted) return
+        setError(e instanceof Error ? e.message : "Failed to load management overview")
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+    return () => controller.abort()
+  }, [from, to, reloadKey])
+
+  const totals = useMemo(() => {
+    if (!data) return null
+    const sum = <T,>(rows: T[], pick: (row: T) => number | null) => rows.reduce((t, r) => t + (pick(r) ?? 0), 0)
+    return {
+      billed: sum(data.revenue_by_month, (m) => m.billed),
+      forecast: sum(data.revenue_by_month, (m) => m.forecast),
+      fees: sum(data.fee_income_by_client, (c) => c.fees),
+      media: sum(data.media_by_channel, (c) => c.media),
+      atRisk: data.pacing ? data.pacing.counts.behind + data.pacing.counts.overPacing : null,
+    }
+  }, [data])
+
+  return (
+    <div className="container mx-auto space-y-6 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold">Management Overview</h1>
+          <p className="text-sm text-muted-foreground">
+            Billed revenue is from billing records; forecast adds probable campaigns to confirmed plans.
+          </p>
+        </div>
+        <DateRangePicker
+          value={range}
+          onChange={(next) => setRange(next ?? defaultRange())}
+          className="w-[300px]"
+        />
+      </div>
+
+      {data && data.unavailable.length > 0 ? (
+        <div className="flex items-center gap-2 rounded-md border border-status-attention bg-status-attention-bg px-3 py-2 text-sm text-status-attention-fg">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          {data.unavailable.map((s) => SOURCE_LABELS[s]).join(", ")} unavailable — those sections are empty.
+        </div>
+      ) : null}
+
+      {loading && !data ? (
+        <LoadingState rows={8} />
+      ) : error && !data ? (
+        <ErrorState
+          title="Could not load management overview"
+          message={error}
+          onRetry={() => setReloadKey((k) => k + 1)}
+        />
+      ) : data && totals ? (
+        <>
+          <div className="grid grid-cols-2 gap-4 lg:grid-cols-5">
+            <MetricCard label="Billed revenue" value={formatAUD(totals.billed)} loading={loading} />
+            <MetricCard label="Forecast revenue" value={formatAUD(totals.forecast)} loading={loading} />
+            <MetricCard label="Fee income" value={formatAUD(totals.fees)} loading={loading} />
+            <MetricCard label="Media under management" value={formatAUD(totals.media)} loading={loading} />
+            <MetricCard
+              label="Campaigns at risk"
+              value={totals.atRisk == null ? "—" : fmt.number(totals.atRisk)}
+              loading={loading}
+            />
+          </div>
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            <BaseChartCard title="Revenue by month" subtitle="Billed vs forecast · AUD">
+              {data.revenue_by_month.length === 0 ? (
+                <EmptyState title="No forecast data" message="No revenue in the selected range." />
+              ) : (
+                <GroupedBarChart
+                  data={data.revenue_by_month.map((m) => ({
+                    month: monthLabel(m.month),
+                    billed: m.billed ?? 0,
+                    forecast: m.forecast,
+                  }))}
+                  xKey="month"
+                  series={[
+                    { key: "billed", label: "Billed" },
+                    { key: "forecast", label: "Forecast" },
+                  ]}
+                  valueFormat="dollars"
+                  plotHeight={260}
+                />
+              )}
+            </BaseChartCard>
+
+            <BaseChartCard title="Fee income by client" subtitle={`Top ${TOP_CLIENTS} · excludes publisher commission`}>
+              {data.fee_income_by_client.length === 0 ? (
+                <EmptyState title="No fee income" message="No client fees in the selected range." />
+              ) : (
+                <HorizontalBarChart
+                  data={data.fee_income_by_client.slice(0, TOP_CLIENTS).map((c) => ({
+                    client: c.client_name,
+                    fees: c.fees,
+                  }))}
+                  xKey="client"
+                  series={[{ key: "fees", label: "Fees" }]}
+                  valueFormat="dollars"
+                  plotHeight={260}
+                />
+              )}
+            </BaseChartCard>
+
+            <BaseChartCard title="Media under management" subtitle="By channel · AUD">
+              {data.media_by_channel.length === 0 ? (
+                <EmptyState title="No media" message="No billable media in the selected range." />
+              ) : (
+                <DonutChart
+                  data={data.media_by_channel.map((c, i) => ({
+                    label: c.label,
+                    value: c.media,
+                    color: channelColorFor(c.media_type, i),
+                  }))}
+                  centerValue={fmt.currencyCompact(totals.media)}
+                  valueFormat="dollars"
+                  plotHeight={260}
+                />
+              )}
+            </BaseChartCard>
+
+            <BaseChartCard
+              title="Pacing health"
+              subtitle={data.pacing ? `Live campaigns as of ${data.pacing.as_of_date}` : "Pacing unavailable"}
+            >
+              {!data.pacing ? (
+                <EmptyState title="No pacing data" message="The pacing overview could not be loaded." />
+              ) : (
+                <DonutChart
+                  data={[
+                    { label: "On track", value: data.pacing.counts.onTrack, color: STATUS.onTrack },
+                    { label: "Ahead", value: data.pacing.counts.ahead, color: STATUS.ahead },
+                    { label: "Behind", value: data.pacing.counts.behind, color: STATUS.behind },
+                    { label: "Over-pacing", value: data.pacing.counts.overPacing, color: STATUS.critical },
+                    { label: "No data", value: data.pacing.counts.noData, color: "var(--av-axis)" },
+                  ].filter((s) => s.value > 0)}
+                  centerValue={fmt.number(
+                    data.pacing.counts.onTrack +
+                      data.pacing.counts.ahead +
+                      data.pacing.counts.behind +
+                      data.pacing.counts.overPacing +
+                      data.pacing.counts.noData
+                  )}
+                  centerLabel="Line items"
+                  valueFormat="number"
+                  plotHeight={260}
+                />
+              )}
+            </BaseChartCard>
+          </div>
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            <BaseChartCard title="Top-risk campaigns" subtitle="Largest under-spend and fastest over-burn">
+              {!data.pacing || data.pacing.top_risk.length === 0 ? (
+                <EmptyState title="Nothing at risk" message="No live line items are behind or over-pacing." />
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Campaign</TableHead>
+                      <TableHead>Channel</TableHead>
+                      <TableHead className="text-right">Budget</TableHead>
+                      <TableHead className="text-right">Spend</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.pacing.top_risk.map((item) => (
+                      <TableRow key={`${item.risk}-${item.id}`}>
+                        <TableCell className="max-w-[16rem] text-xs">
+                          <Link href={item.href} className="block truncate font-medium hover:underline">
+                            {item.campaignName || item.mbaNumber}
+                          </Link>
+                          <span className="block truncate text-muted-foreground">{item.clientName}</span>
+                        </TableCell>
+                        <TableCell className="text-xs capitalize">{item.channel.replace("-", " ")}</TableCell>
+                        <TableCell className="num text-right text-xs">
+                          {item.budget == null ? "—" : formatAUD(item.budget)}
+                        </TableCell>
+                        <TableCell className="num text-right text-xs">
+                          {item.spendToDate == null ? "—" : formatAUD(item.spendToDate)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={item.risk === "behind" ? "behind" : "critical"} size="sm">
+                            {item.risk === "behind" ? "Behind" : "Over-pacing"}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </BaseChartCard>
+
+            <BaseChartCard title="Staff workload" subtitle="Open tasks by assignee">
+              {!data.workload || data.workload.length === 0 ? (
+                <EmptyState title="No open tasks" message="Nobody has open tasks right now." />
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Assignee</TableHead>
+                      <TableHead className="text-right">Open</TableHead>
+                      <TableHead className="text-right">Overdue</TableHead>
+                      <TableHead className="text-right">Due in range</TableHead>
+                      <TableHead className="text-right">High priority</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.workload.map((w) => (
+                      <TableRow key={w.assignee_email ?? w.assignee}>
+                        <TableCell className="max-w-[14rem] truncate text-xs font-medium">{w.assignee}</TableCell>
+                        <TableCell className="num text-right text-xs">{w.open}</TableCell>
+                        <TableCell className="num text-right text-xs">
+                          {w.overdue > 0 ? (
+                            <Badge variant="critical" size="sm">
+                              {w.overdue}
+                            </Badge>
+                          ) : (
+                            0
+                          )}
+                        </TableCell>
+                        <TableCell className="num text-right text-xs">{w.due_in_range}</TableCell>
+                        <TableCell className="num text-right text-xs">{w.high_priority}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </BaseChartCard>
+          </div>
+        </>
+      ) : null}
+    </div>
+  )
+}
@@ -522,7 +522,7 @@ function CreateMediaPlan() {
   const [isLoading, setIsLoading] = useState(false)
   const [selectedClientId, setSelectedClientId] = useState<string>("")
   const [isClientPopoverOpen, setIsClientPopoverOpen] = useState(false)
-  const { setMbaNumber } = useMediaPlanContext() 
+  const { setMbaNumber, setClientName } = useMediaPlanContext() 
   const [burstsData, setBurstsData] = useState([])
   const [isDownloading, setIsDownloading] = useState(false)
   const [isDownloadingAa, setIsDownloadingAa] = useState(false)
@@ -1242,6 +1242,11 @@ function CreateMediaPlan() {
 
   // Fields to expose to the assistant
   const watchedClientName = useWatch({ control: form.control, name: "mp_client_name" })
+
+  useEffect(() => {
+    setClientName(watchedClientName ?? "")
+    return () => setClientName("")
+  }, [watchedClientName, setClientName])
   const watchedCampaignName = useWatch({ control: form.control, name: "mp_campaignname" })
   const watchedCampaignBudget = useWatch({ control: form.control, name: "mp_campaignbudget" })
   const currencyFormatter = new Intl.NumberFormat("en-AU", {
@@ -4911,6 +4916,7 @@ function CreateMediaPlan() {
         billingSchedule?: unknown
       }
       let usedPutPath = false
+      let overwroteInPlace = false
       // REVIEW (integrity P0): track deferred publish from MBA PUT for stage-then-publish
       let deferredPublish = false
       let publishedVersionBeforeSave: number | string | undefined = planVersionNumber
@@ -4985,6 +4991,7 @@ function CreateMediaPlan() {
             versionData.version?.billingSchedule ?? versionData.billingSchedule,
         }
         usedPutPath = true
+        overwroteInPlace = versionData.mode === "overwrite"
         deferredPublish =
           Boolean(versionData.deferredPublish) && versionData.mode !== "overwrite"
         publishedVersionBeforeSave =
@@ -5873,6 +5880,32 @@ function CreateMediaPlan() {
         }
         updateSaveStatus('Publish version', 'success')
         setPendingPublishRetry(null)
+      } else if (overwroteInPlace && version.version_number != null) {
+        // The draft was overwritten in place; now its channel writes are done the
+        // server can diff it against the baseline the PUT kept. The save stands either way.
+        updateSaveStatus('Change log', 'pending')
+        const changeLogError = await fetch(
+          `/api/mediaplans/mba/${encodeURIComponent(String(fv.mba_number))}/change-log`,
+          {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ version_number: version.version_number }),
+          }
+        )
+          .then(async (response) =>
+            response.ok ? null : (await response.json().catch(() => null))?.error || 'Failed to record change log'
+          )
+          .catch((error: any) => error?.message || String(error))
+        if (changeLogError) {
+          updateSaveStatus('Change log', 'error', changeLogError)
+          toast({
+            title: 'Saved — change history not recorded',
+            description: `${changeLogError}. Version ${version.version_number} is saved but this save is missing from the change log.`,
+            variant: 'destructive',
+          })
+        } else {
+          updateSaveStatus('Change log', 'success')
+        }
       }
 
       // Wait for document generation+upload (do not throw; errors already handled above)
@@ -5983,6 +6016,7 @@ const handleSaveAll = async () => {
       },
       version,
       options: { useAva: true },
+      clientName: fv.mp_client_name || "",
     })
     return { blob, fileName, tokenPath }
   };
@@ -0,0 +1,43 @@
+import { redirect } from "next/navigation"
+
+import { MediaPlanVersionDiffView } from "@/components/mediaplans/MediaPlanVersionDiffView"
+import { auth0 } from "@/lib/auth0"
+import { getUserRoles } from "@/lib/rbac"
+
+type VersionDiffPageProps = {
+  params: Promise<{ mba_number: string }>
+  searchParams: Promise<{ from?: string; to?: string }>
+}
+
+function parseVersionParam(value: string | undefined): number | null {
+  const n = Number.parseInt(String(value ?? ""), 10)
+  return Number.isFinite(n) && n > 0 ? n : null
+}
+
+export default async function VersionDiffPage({ params, searchParams }: VersionDiffPageProps) {
+  const session = await auth0.getSession()
+  if (!session?.user) {
+    const { mba_number } = await params
+    redirect(`/auth/login?returnTo=/mediaplans/mba/${encodeURIComponent(mba_number)}/diff`)
+  }
+
+  const roles = getUserRoles(session.user)
+  if (roles.includes("client")) {
+    redirect("/unauthorized")
+  }
+
+  const { mba_number } = await params
+  const { from, to } = await searchParams
+
+  return (
+    <div className="w-full min-h-screen" style={{ paddingBottom: "env(safe-area-inset-bottom)" }}>
+      <div className="mx-auto w-full max-w-[1920px] px-4 sm:px-5 md:px-6 xl:px-8 2xl:px-10 pt-0 pb-24 space-y-6">
+        <MediaPlanVersionDiffView
+          mbaNumber={mba_number}
+          initialFrom={parseVersionParam(from)}
+          initialTo={parseVersionParam(to)}
+        />
+      </div>
+    </div>
+  )
+}
@@ -1657,7 +1657,7 @@ export default function EditMediaPlan({ params }: { params: Promise<{ mba_number
   const searchParams = useSearchParams()
   const versionNumber = searchParams ? searchParams.get('version') : null
 
-  const { setMbaNumber: setContextMbaNumber } = useMediaPlanContext()
+  const { setMbaNumber: setContextMbaNumber, setClientName: setContextClientName } = useMediaPlanContext()
 
 
   const [clients, setClients] = useState<Client[]>([])
@@ -2684,6 +2684,11 @@ export default function EditMediaPlan({ params }: { params: Promise<{ mba_number
     ) !== "draft"
   const publishToDownloadMessage = "Publish this plan to download and send to client"
   const watchedClientName = useWatch({ control: form.control, name: 'mp_clientname' })
+
+  useEffect(() => {
+    setContextClientName(watchedClientName ?? '')
+    return () => setContextClientName('')
+  }, [watchedClientName, setContextClientName])
   const budgetRemaining = useMemo(
     () => (Number(campaignBudget) || 0) - totalInvestment,
     [campaignBudget, totalInvestment]
@@ -7275,6 +7280,28 @@ export default function EditMediaPlan({ params }: { params: Promise<{ mba_number
       }
 
       if (isOverwriteMode) {
+        // The draft was overwritten in place; now its channel writes are done the
+        // server can diff it against the baseline the PUT kept. The save stands either way.
+        updateSaveStatus('Change log', 'pending')
+        const changeLogError = await fetch(`/api/mediaplans/mba/${mbaNumber}/change-log`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ version_number: numericSavedVersion }),
+        })
+          .then(async (response) =>
+            response.ok ? null : (await response.json().catch(() => null))?.error || 'Failed to record change log'
+          )
+          .catch((error: any) => error?.message || String(error))
+        if (changeLogError) {
+          updateSaveStatus('Change log', 'error', changeLogError)
+          toast({
+            variant: 'destructive',
+            title: 'Saved — change history not recorded',
+            description: `${changeLogError}. Version ${numericSavedVersion} is saved but this save is missing from the change log.`,
+          })
+        } else {
+          updateSaveStatus('Change log', 'success')
+        }
         startCampaignKpiSync()
         documentUploadPromise = uploadVersionDocuments().catch((err: any) => {
           const message = err?.message || String(err)
@@ -7740,6 +7767,7 @@ export default function EditMediaPlan({ params }: { params: Promise<{ mba_number
       },
       version: String(namingVersion ?? "1"),
       options: { useAva: true },
+      clientName: fv.mp_clientname || "",
     })
     return { blob, fileName, tokenPath }
   };
@@ -9967,6 +9995,12 @@ export default function EditMediaPlan({ params }: { params: Promise<{ mba_number
             <Button variant="outline" size="sm" type="button" className="text-xs" asChild>
               <Link href={`/mediaplans/mba/${encodeURIComponent(mbaNumber)}/trafficking`}>Trafficking</Link>
             </Button>
+            <Button variant="outline" size="sm" type="button" className="text-xs" asChild>
+              <Link href={`/mediaplans/mba/${encodeURIComponent(mbaNumber)}/diff`}>Compare versions</Link>
+            </Button>
+            <Button variant="outline" size="sm" type="button" className="text-xs" asChild>
+              <Link href={`/mediaplans/mba/${encodeURIComponent(mbaNumber)}/history`}>History</Link>
+            </Button>
             <AvaMediaplanEditActions />
             <Button
               variant="ghost"
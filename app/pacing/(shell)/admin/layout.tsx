@@ -0,0 +1,11 @@
+import type { ReactNode } from "react"
+import { PacingAdminNav } from "@/components/pacing/PacingAdminNav"
+
+export default function PacingAdminLayout({ children }: { children: ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <PacingAdminNav />
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import type { NamingLintIssue, NamingLintReport } from "@/lib/naming/lintLiveNames";
+
+type NamingLintResponse = NamingLintReport & { asOfDate: string; dateWindow: number };
+
+const currencyFmt = new Intl.NumberFormat("en-AU", { style: "currency", currency: "AUD" });
+
+const MATCH_LABEL: Record<NonNullable<NamingLintIssue["closestLineItem"]>["via"], string> = {
+  fact: "fact ID",
+  name_token: "in name",
+  fuzzy: "near miss",
+};
+
+export function NamingLintClient() {
+  const [report, setReport] = useState<NamingLintResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+
+  const loadReport = useCallback(async () => {
+    setError(null);
+    setReport(null);
+    try {
+      const r = await fetch("/api/pacing/admin/naming", { credentials: "include" });
+      if (!r.ok) throw new Error(`HTTP ${r.status}`);
+      setReport((await r.json()) as NamingLintResponse);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadReport();
+  }, [loadReport]);
+
+  const issues = useMemo(() => {
+    const rows = report?.issues ?? [];
+    const q = search.trim().toLowerCase();
+    if (!q) return rows;
+    return rows.filter(
+      (i) =>
+        i.name.toLowerCase().includes(q) ||
+        i.campaignName.toLowerCase().includes(q) ||
+        i.platform.includes(q) ||
+        (i.element ?? "").includes(q) ||
+        (i.closestLineItem?.clientName.toLowerCase().includes(q) ?? false)
+    );
+  }, [report, search]);
+
+  if (error) {
+    return <div className="p-6 text-sm text-destructive">Failed: {error}</div>;
+  }
+  if (!report) {
+    return <div className="p-6 text-sm text-muted-foreground">Linting live names…</div>;
+  }
+
+  return (
+    <div className="space-y-4 p-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-lg font-semibold">Naming conformance</h1>
+          <p className="text-xs text-muted-foreground">
+            {report.issues.length} non-conforming of {report.checked} names trafficked in the last{" "}
+            {report.dateWindow} days ({report.skipped} on platforms without a template, e.g. TikTok).
+            Closest line item is the fact&apos;s LINE_ITEM_ID when live, else an ID found in the name.
+          </p>
+        </div>
+        <Input
+          className="h-8 w-64 text-xs"
+          placeholder="Filter by name, campaign, platform…"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+
+      <div className="overflow-auto rounded border">
+        <table className="w-full text-xs">
+          <thead className="bg-muted/40">
+            <tr className="text-left">
+              <th className="p-2">Platform</th>
+              <th className="p-2">Level</th>
+              <th className="p-2">Name</th>
+              <th className="p-2">Failing element</th>
+              <th className="p-2">Closest line item</th>
+              <th className="p-2 text-right">Spend ({report.dateWindow}d)</th>
+              <th className="p-2">Last seen</th>
+            </tr>
+          </thead>
+          <tbody>
+            {issues.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="p-3 text-center text-muted-foreground">
+                  {report.issues.length === 0 ? "Every checked name conforms." : "No matching names."}
+                </td>
+              </tr>
+            ) : (
+              issues.map((i) => (
+                <tr key={`${i.channel}|${i.kind}|${i.campaignName}|${i.name}`} className="border-t align-top">
+                  <td className="p-2">
+                    <div>{i.platform}</div>
+                    <div className="text-muted-foreground">{i.channel}</div>
+                  </td>
+                  <td className="p-2">{i.level}</td>
+                  <td className="p-2 font-mono break-all">
+                    {i.name}
+                    {i.kind === "entity" ? (
+                      <div className="font-sans text-muted-foreground">{i.campaignName}</div>
+                    ) : null}
+                  </td>
+                  <td className="p-2">
+                    <div className="font-mono">{i.element ?? "—"}</div>
+                    <div className="text-muted-foreground">{i.message}</div>
+                  </td>
+                  <td className="p-2">
+                    {i.closestLineItem ? (
+                      <>
+                        <div className="font-mono">
+                          {i.closestLineItem.lineItemId}{" "}
+                          <span className="font-sans text-muted-foreground">
+                            ({MATCH_LABEL[i.closestLineItem.via]})
+                          </span>
+                        </div>
+                        <div className="text-muted-foreground">
+                          {i.closestLineItem.clientName} · {i.closestLineItem.campaignName} ·{" "}
+                          {i.closestLineItem.mbaNumber}
+                        </div>
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </td>
+                  <td className="p-2 text-right">{currencyFmt.format(i.spend)}</td>
+                  <td className="p-2">{i.lastSeenDate}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
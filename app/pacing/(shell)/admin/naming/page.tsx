@@ -0,0 +1,17 @@
+import { redirect } from "next/navigation";
+import { auth0 } from "@/lib/auth0";
+import { getUserRoles } from "@/lib/rbac";
+import { NamingLintClient } from "./NamingLintClient";
+
+export default async function PacingAdminNamingPage() {
+  const session = await auth0.getSession();
+  if (!session?.user) {
+    redirect("/auth/login?returnTo=/pacing/admin/naming");
+  }
+  const roles = getUserRoles(session.user);
+  if (!roles.includes("admin")) {
+    redirect("/unauthorized");
+  }
+
+  return <NamingLintClient />;
+}
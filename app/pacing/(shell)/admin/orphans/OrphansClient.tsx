@@ -24,6 +24,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/components/ui/use-toast";
+import type { OrphanMatchSuggestion } from "@/lib/pacing/admin/orphanSuggestions";
 
 type OrphanRow = {
   channel: string;
@@ -36,6 +37,17 @@ type OrphanRow = {
   impressionsLast30d: number;
   firstSeenDate: string;
   lastSeenDate: string;
+  suggestions: OrphanMatchSuggestion[];
+  /** Top suggestion is confident and clear of the runner-up; preselected for bulk accept. */
+  autoAcceptable: boolean;
+};
+
+type BulkAssignOutcome = {
+  ok: boolean;
+  channel: string;
+  platformLineItemId: string;
+  error?: string;
+  message?: string;
 };
 
 type LiveLineItem = {
@@ -48,6 +60,11 @@ type LiveLineItem = {
 
 const currencyFmt = new Intl.NumberFormat("en-AU", { style: "currency", currency: "AUD" });
 const numberFmt = new Intl.NumberFormat("en-AU");
+const pctFmt = new Intl.NumberFormat("en-AU", { style: "percent", maximumFractionDigits: 0 });
+
+function orphanKey(o: Pick<OrphanRow, "channel" | "platformLineItemId">): string {
+  return `${o.channel}|${o.platformLineItemId}`;
+}
 
 export function OrphansClient() {
   const { toast } = useToast();
@@ -65,6 +82,10 @@ export function OrphansClient() {
   const [note, setNote] = useState("");
   const [assignBusy, setAssignBusy] = useState(false);
 
+  const [bulkSelected, setBulkSelected] = useState<Set<string>>(new Set());
+  const [bulkConfirmOpen, setBulkConfirmOpen] = useState(false);
+  const [bulkBusy, setBulkBusy] = useState(false);
+
   const loadOrphans = useCallback(async () => {
     setError(null);
     setOrphans(null);
@@ -73,6 +94,7 @@ export function OrphansClient() {
       if (!r.ok) throw new Error(`HTTP ${r.status}`);
       const json = (await r.json()) as { orphans: OrphanRow[] };
       setOrphans(json.orphans);
+      setBulkSelected(new Set(json.orphans.filter((o) => o.autoAcceptable).map(orphanKey)));
     } catch (e) {
       setError(e instanceof Error ? e.message : String(e));
     }
@@ -96,9 +118,76 @@ export function OrphansClient() {
 
   const selectedLineItem = lineItems.find((li) => li.lineItemId === selectedLineItemId) ?? null;
 
+  const bulkRows = useMemo(
+    () => (orphans ?? []).filter((o) => bulkSelected.has(orphanKey(o)) && o.suggestions.length > 0),
+    [orphans, bulkSelected]
+  );
+
+  const toggleBulk = useCallback((o: OrphanRow, checked: boolean) => {
+    setBulkSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(orphanKey(o));
+      else next.delete(orphanKey(o));
+      return next;
+    });
+  }, []);
+
+  const onConfirmBulk = useCallback(async () => {
+    if (bulkRows.length === 0) return;
+    setBulkBusy(true);
+    try {
+      const r = await fetch("/api/pacing/admin/orphans/assign-bulk", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          assignments: bulkRows.map((o) => ({
+            channel: o.channel,
+            platformLineItemId: o.platformLineItemId,
+            lineItemId: o.suggestions[0]!.lineItemId,
+            adGroupName: o.adGroupName,
+            campaignName: o.campaignName,
+            note: `Accepted suggestion (${pctFmt.format(o.suggestions[0]!.confidence)} confidence)`,
+          })),
+        }),
+      });
+      const body = (await r.json()) as {
+        results?: BulkAssignOutcome[];
+        error?: string;
+        message?: string;
+      };
+      if (!r.ok || !body.results) throw new Error(body.message ?? body.error ?? `HTTP ${r.status}`);
+
+      const applied = new Set(body.results.filter((x) => x.ok).map(orphanKey));
+      const failed = body.results.filter((x) => !x.ok);
+      setOrphans((prev) => (prev ? prev.filter((o) => !applied.has(orphanKey(o))) : prev));
+      setBulkSelected((prev) => new Set([...prev].filter((k) => !applied.has(k))));
+      setBulkConfirmOpen(false);
+      toast({
+        variant: failed.length > 0 ? "destructive" : undefined,
+        title: `${applied.size} override${applied.size === 1 ? "" : "s"} applied`,
+        description:
+          failed.length > 0
+            ? `${failed.length} failed: ${failed
+                .slice(0, 3)
+                .map((x) => `${x.platformLineItemId} (${x.message ?? x.error})`)
+                .join("; ")}`
+            : "Rename the ad groups in Google Ads so the daily refresh keeps the mappings.",
+      });
+    } catch (e) {
+      toast({
+        variant: "destructive",
+        title: "Bulk accept failed",
+        description: e instanceof Error ? e.message : "Request failed",
+      });
+    } finally {
+      setBulkBusy(false);
+    }
+  }, [bulkRows, toast]);
+
   const openAssign = useCallback(async (orphan: OrphanRow) => {
     setSelectedOrphan(orphan);
-    setSelectedLineItemId(null);
+    setSelectedLineItemId(orphan.suggestions[0]?.lineItemId ?? null);
     setNote("");
     setLineItemSearch("");
     setAssignOpen(true);
@@ -197,22 +286,38 @@ export function OrphansClient() {
   return (
     <>
       <div className="space-y-4 p-4">
-        <div>
-          <h1 className="text-lg font-semibold">Orphan ad groups</h1>
-          <p className="text-xs text-muted-foreground">
-            {orphans.length} pending. Daily refresh runs with a 7-day window — if an override
-            isn&apos;t followed by a Google Ads rename within 7 days, the orphan may reappear.
-          </p>
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <h1 className="text-lg font-semibold">Orphan ad groups</h1>
+            <p className="text-xs text-muted-foreground">
+              {orphans.length} pending. Daily refresh runs with a 7-day window — if an override
+              isn&apos;t followed by a Google Ads rename within 7 days, the orphan may reappear.
+              Suggestions score naming tokens, burst dates, publisher and spend; confident ones are
+              preselected.
+            </p>
+          </div>
+          <Button
+            type="button"
+            size="sm"
+            disabled={bulkRows.length === 0}
+            onClick={() => setBulkConfirmOpen(true)}
+          >
+            Accept top suggestions ({bulkRows.length})
+          </Button>
         </div>
 
         <div className="overflow-auto rounded border">
           <table className="w-full text-xs">
             <thead className="bg-muted/40">
               <tr className="text-left">
+                <th className="w-8 p-2">
+                  <span className="sr-only">Bulk accept</span>
+                </th>
                 <th className="p-2">Channel</th>
                 <th className="p-2">Ad group</th>
                 <th className="p-2">Current LINE_ITEM_ID</th>
                 <th className="p-2">Campaign</th>
+                <th className="p-2">Suggested</th>
                 <th className="p-2 text-right">Spend (30d)</th>
                 <th className="p-2 text-right">Impressions</th>
                 <th className="p-2">First seen</th>
@@ -221,27 +326,58 @@ export function OrphansClient() {
               </tr>
             </thead>
             <tbody>
-              {orphans.map((o) => (
-                <tr key={`${o.channel}|${o.platformLineItemId}`} className="border-t">
-                  <td className="p-2">{o.channel}</td>
-                  <td className="p-2">{o.adGroupName}</td>
-                  <td className="p-2 font-mono">{o.currentLineItemId || "—"}</td>
-                  <td className="p-2">{o.campaignName}</td>
-                  <td className="p-2 text-right">{currencyFmt.format(o.spendLast30d)}</td>
-                  <td className="p-2 text-right">{numberFmt.format(o.impressionsLast30d)}</td>
-                  <td className="p-2">{o.firstSeenDate}</td>
-                  <td className="p-2">{o.lastSeenDate}</td>
-                  <td className="p-2">
-                    <button
-                      type="button"
-                      className="rounded border px-2 py-0.5 hover:bg-muted"
-                      onClick={() => void openAssign(o)}
-                    >
-                      Assign
-                    </button>
-                  </td>
-                </tr>
-              ))}
+              {orphans.map((o) => {
+                const top = o.suggestions[0];
+                return (
+                  <tr key={orphanKey(o)} className="border-t">
+                    <td className="p-2">
+                      <input
+                        type="checkbox"
+                        aria-label={`Accept top suggestion for ${o.adGroupName}`}
+                        disabled={!top}
+                        checked={bulkSelected.has(orphanKey(o))}
+                        onChange={(e) => toggleBulk(o, e.target.checked)}
+                      />
+                    </td>
+                    <td className="p-2">{o.channel}</td>
+                    <td className="p-2">{o.adGroupName}</td>
+                    <td className="p-2 font-mono">{o.currentLineItemId || "—"}</td>
+                    <td className="p-2">{o.campaignName}</td>
+                    <td className="p-2">
+                      {top ? (
+                        <>
+                          <div>
+                            <span className="font-mono">{top.lineItemId}</span>{" "}
+                            <span
+                              className={o.autoAcceptable ? "text-emerald-600" : "text-muted-foreground"}
+                            >
+                              {pctFmt.format(top.confidence)}
+                            </span>
+                          </div>
+                          <div className="text-muted-foreground" title={top.reasons.join(" · ")}>
+                            {top.reasons[0] ?? `${top.clientName} · ${top.mbaNumber}`}
+                          </div>
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </td>
+                    <td className="p-2 text-right">{currencyFmt.format(o.spendLast30d)}</td>
+                    <td className="p-2 text-right">{numberFmt.format(o.impressionsLast30d)}</td>
+                    <td className="p-2">{o.firstSeenDate}</td>
+                    <td className="p-2">{o.lastSeenDate}</td>
+                    <td className="p-2">
+                      <button
+                        type="button"
+                        className="rounded border px-2 py-0.5 hover:bg-muted"
+                        onClick={() => void openAssign(o)}
+                      >
+                        Assign
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
         </div>
@@ -257,6 +393,32 @@ export function OrphansClient() {
           </DialogHeader>
 
           <div className="space-y-3">
+            {selectedOrphan && selectedOrphan.suggestions.length > 0 ? (
+              <div className="space-y-1">
+                <p className="text-xs font-medium">Suggested</p>
+                <ul className="divide-y rounded border text-xs">
+                  {selectedOrphan.suggestions.map((sg) => (
+                    <li key={sg.lineItemId}>
+                      <button
+                        type="button"
+                        className={`w-full px-3 py-2 text-left hover:bg-muted ${
+                          selectedLineItemId === sg.lineItemId ? "bg-muted" : ""
+                        }`}
+                        onClick={() => setSelectedLineItemId(sg.lineItemId)}
+                      >
+                        <div>
+                          <span className="font-mono">{sg.lineItemId}</span>{" "}
+                          <span className="text-muted-foreground">
+                            {pctFmt.format(sg.confidence)} · {sg.clientName} · {sg.mbaNumber}
+                          </span>
+                        </div>
+                        <div className="text-muted-foreground">{sg.reasons.join(" · ")}</div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
             <Input
               placeholder="Search by ID, MBA, client, campaign…"
               value={lineItemSearch}
@@ -373,6 +535,50 @@ export function OrphansClient() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <AlertDialog open={bulkConfirmOpen} onOpenChange={setBulkConfirmOpen}>
+        <AlertDialogContent className="max-w-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Accept {bulkRows.length} top suggestions</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-2 text-sm">
+                <div className="max-h-64 overflow-auto rounded border">
+                  <table className="w-full text-xs">
+                    <tbody>
+                      {bulkRows.map((o) => (
+                        <tr key={orphanKey(o)} className="border-t first:border-t-0">
+                          <td className="p-2">{o.adGroupName}</td>
+                          <td className="p-2 font-mono">
+                            {o.currentLineItemId || "—"} → {o.suggestions[0]!.lineItemId}
+                          </td>
+                          <td className="p-2 text-right">{pctFmt.format(o.suggestions[0]!.confidence)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="text-destructive">
+                  Each override writes directly to Snowflake and is logged individually. The daily
+                  refresh will overwrite them unless the Google Ads ad groups are renamed within 7 days.
+                </p>
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={bulkBusy}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={bulkBusy}
+              onClick={(ev) => {
+                ev.preventDefault();
+                void onConfirmBulk();
+              }}
+            >
+              {bulkBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Accept all
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </>
   );
 }
@@ -3,13 +3,14 @@
 import { useCallback, useEffect, useState } from "react"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
-import { BarChart3, FileText } from "lucide-react"
+import { BarChart3, FileText, Receipt } from "lucide-react"
 import { PAGE_HERO_PADDING, PageHeroShell, PageHeroTitleBlock } from "@/components/dashboard/PageHeroShell"
 import { Button } from "@/components/ui/button"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { PublisherDetailCharts } from "./PublisherDetailCharts"
 import { PublisherDetailsSlideOver } from "./PublisherDetailsSlideOver"
 import { PublisherKpiSlideOver } from "./PublisherKpiSlideOver"
+import { PublisherRateCardsSlideOver } from "./PublisherRateCardsSlideOver"
 import { normalizePublisherRecord } from "@/lib/publisher/normalizePublisher"
 import { publisherApiRecordPath, publisherHubPath } from "@/lib/publisher/publisherHubPath"
 import type { Publisher, PublisherDashboardData } from "@/lib/types/publisher"
@@ -34,6 +35,7 @@ export function PublisherDetailClient({ initialPublisher, analytics }: Publisher
   const [publisher, setPublisher] = useState(() => normalizePublisherRecord(initialPublisher))
   const [detailsOpen, setDetailsOpen] = useState(false)
   const [kpisOpen, setKpisOpen] = useState(false)
+  const [rateCardsOpen, setRateCardsOpen] = useState(false)
 
   useEffect(() => {
     setPublisher(normalizePublisherRecord(initialPublisher))
@@ -140,6 +142,20 @@ export function PublisherDetailClient({ initialPublisher, analytics }: Publisher
                 </TooltipTrigger>
                 <TooltipContent side="left">KPIs & targets</TooltipContent>
               </Tooltip>
+
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <button
+                    type="button"
+                    onClick={() => setRateCardsOpen(true)}
+                    aria-label="Rate cards"
+                    className="interactive flex h-10 w-10 items-center justify-center rounded-pill border border-border bg-card text-muted-foreground shadow-e0 transition-colors hover:bg-muted hover:text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                  >
+                    <Receipt className="h-4 w-4" />
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent side="left">Rate cards</TooltipContent>
+              </Tooltip>
             </div>
           </TooltipProvider>
         </div>
@@ -164,6 +180,7 @@ export function PublisherDetailClient({ initialPublisher, analytics }: Publisher
         publisher={publisher}
         onSuccess={refreshPublisher}
       />
+      <PublisherRateCardsSlideOver open={rateCardsOpen} onOpenChange={setRateCardsOpen} publisher={publisher} />
     </div>
   )
 }
@@ -0,0 +1,453 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Pencil, Plus, Receipt, Trash2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Combobox, type ComboboxOption } from "@/components/ui/combobox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { SlideOver } from "@/components/ui/SlideOver"
+import { useToast } from "@/components/ui/use-toast"
+import {
+  createPublisherRateCard,
+  deletePublisherRateCard,
+  getPublisherRateCards,
+  updatePublisherRateCard,
+} from "@/lib/api/publisherRateCards"
+import {
+  BVOD_EXPERT_CHANNEL_CONFIG,
+  CINEMA_EXPERT_CHANNEL_CONFIG,
+  DIGIAUDIO_EXPERT_CHANNEL_CONFIG,
+  DIGITALDISPLAY_EXPERT_CHANNEL_CONFIG,
+  DIGIVIDEO_EXPERT_CHANNEL_CONFIG,
+  INFLUENCERS_EXPERT_CHANNEL_CONFIG,
+  INTEGRATION_EXPERT_CHANNEL_CONFIG,
+  MAGAZINES_EXPERT_CHANNEL_CONFIG,
+  NEWSPAPER_EXPERT_CHANNEL_CONFIG,
+  OOH_EXPERT_CHANNEL_CONFIG,
+  PROGAUDIO_EXPERT_CHANNEL_CONFIG,
+  PROGBVOD_EXPERT_CHANNEL_CONFIG,
+  PROGDISPLAY_EXPERT_CHANNEL_CONFIG,
+  PROGOOH_EXPERT_CHANNEL_CONFIG,
+  PROGVIDEO_EXPERT_CHANNEL_CONFIG,
+  RADIO_EXPERT_CHANNEL_CONFIG,
+  SEARCH_EXPERT_CHANNEL_CONFIG,
+  SOCIALMEDIA_EXPERT_CHANNEL_CONFIG,
+  TELEVISION_EXPERT_CHANNEL_CONFIG,
+} from "@/lib/mediaplan/expertGridChannelConfig"
+import {
+  publisherRateCardInputSchema,
+  rateCardMediaTypeLabel,
+  rateCardMediaTypesForPublisher,
+  type PublisherRateCard,
+} from "@/lib/publisher/rateCards"
+import type { Publisher } from "@/lib/types/publisher"
+
+interface PublisherRateCardsSlideOverProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  publisher: Publisher
+}
+
+/** Buy types per container, so card rows use the same values line items store. */
+const BUY_TYPE_OPTIONS_BY_MEDIA_TYPE: Record<string, readonly ComboboxOption[]> = Object.fromEntries(
+  [
+    TELEVISION_EXPERT_CHANNEL_CONFIG,
+    RADIO_EXPERT_CHANNEL_CONFIG,
+    NEWSPAPER_EXPERT_CHANNEL_CONFIG,
+    MAGAZINES_EXPERT_CHANNEL_CONFIG,
+    OOH_EXPERT_CHANNEL_CONFIG,
+    CINEMA_EXPERT_CHANNEL_CONFIG,
+    DIGITALDISPLAY_EXPERT_CHANNEL_CONFIG,
+    DIGIAUDIO_EXPERT_CHANNEL_CONFIG,
+    DIGIVIDEO_EXPERT_CHANNEL_CONFIG,
+    BVOD_EXPERT_CHANNEL_CONFIG,
+    INTEGRATION_EXPERT_CHANNEL_CONFIG,
+    SEARCH_EXPERT_CHANNEL_CONFIG,
+    SOCIALMEDIA_EXPERT_CHANNEL_CONFIG,
+    PROGDISPLAY_EXPERT_CHANNEL_CONFIG,
+    PROGVIDEO_EXPERT_CHANNEL_CONFIG,
+    PROGBVOD_EXPERT_CHANNEL_CONFIG,
+    PROGAUDIO_EXPERT_CHANNEL_CONFIG,
+    PROGOOH_EXPERT_CHANNEL_CONFIG,
+    INFLUENCERS_EXPERT_CHANNEL_CONFIG,
+  ].map((config) => [
+    config.mediaTypeKey,
+    config.descriptorCore.find((c) => c.key === "buyType")?.options ?? [],
+  ])
+)
+
+type Draft = {
+  id: number | null
+  media_type: string
+  buy_type: string
+  format: string
+  market: string
+  daypart: string
+  rate: string
+  effective_from: string
+  effective_to: string
+  client_name: string
+  notes: string
+}
+
+function emptyDraft(mediaType: string): Draft {
+  return {
+    id: null,
+    media_type: mediaType,
+    buy_type: "",
+    format: "",
+    market: "",
+    daypart: "",
+    rate: "",
+    effective_from: new Date().toISOString().slice(0, 10),
+    effective_to: "",
+    client_name: "",
+    notes: "",
+  }
+}
+
+function draftFromCard(card: PublisherRateCard): Draft {
+  return {
+    id: card.id,
+    media_type: card.media_type,
+    buy_type: card.buy_type,
+    format: card.format,
+    market: card.market,
+    daypart: card.daypart,
+    rate: String(card.rate),
+    effective_from: card.effective_from,
+    effective_to: card.effective_to ?? "",
+    client_name: card.client_name ?? "",
+    notes: card.notes,
+  }
+}
+
+function buyTypeLabel(mediaType: string, buyType: string): string {
+  return BUY_TYPE_OPTIONS_BY_MEDIA_TYPE[mediaType]?.find((o) => o.value === buyType)?.label ?? buyType
+}
+
+function narrowingLabel(card: PublisherRateCard): string {
+  return [card.format, card.market, card.daypart].filter(Boolean).join(" · ") || "All"
+}
+
+export function PublisherRateCardsSlideOver({ open, onOpenChange, publisher }: PublisherRateCardsSlideOverProps) {
+  const { toast } = useToast()
+  const mediaTypes = useMemo(() => rateCardMediaTypesForPublisher(publisher), [publisher])
+  const [cards, setCards] = useState<PublisherRateCard[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [draft, setDraft] = useState<Draft | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      setCards(await getPublisherRateCards(publisher))
+    } catch (error) {
+      toast({
+        title: "Could not load rate cards",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [publisher, toast])
+
+  useEffect(() => {
+    if (open) void load()
+    else setDraft(null)
+  }, [open, load])
+
+  const sortedCards = useMemo(
+    () =>
+      [...cards].sort(
+        (a, b) =>
+          a.media_type.localeCompare(b.media_type) ||
+          a.buy_type.localeCompare(b.buy_type) ||
+          (a.client_name ?? "").localeCompare(b.client_name ?? "") ||
+          b.effective_from.localeCompare(a.effective_from)
+      ),
+    [cards]
+  )
+
+  const patchDraft = (patch: Partial<Draft>) => setDraft((d) => (d ? { ...d, ...patch } : d))
+
+  const handleSave = async () => {
+    if (!draft) return
+    const parsed = publisherRateCardInputSchema.safeParse({
+      ...draft,
+      rate: draft.rate.trim() === "" ? Number.NaN : Number(draft.rate),
+      effective_to: draft.effective_to || null,
+      client_name: draft.client_name || null,
+    })
+    if (!parsed.success) {
+      toast({
+        title: "Check the rate card",
+        description: parsed.error.issues.map((issue) => issue.message).join("; "),
+        variant: "destructive",
+      })
+      return
+    }
+    setSaving(true)
+    try {
+      const saved =
+        draft.id == null
+          ? await createPublisherRateCard(publisher, parsed.data)
+          : await updatePublisherRateCard(publisher, draft.id, parsed.data)
+      setCards((prev) => [...prev.filter((c) => c.id !== saved.id), saved])
+      setDraft(null)
+    } catch (error) {
+      toast({
+        title: "Could not save rate card",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (card: PublisherRateCard) => {
+    try {
+      await deletePublisherRateCard(publisher, card)
+      setCards((prev) => prev.filter((c) => c.id !== card.id))
+      if (draft?.id === card.id) setDraft(null)
+    } catch (error) {
+      toast({
+        title: "Could not delete rate card",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <SlideOver
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Rate cards"
+      description={`Standard and negotiated rates for ${publisher.publisher_name || "publisher"}`}
+      contentClassName="w-full sm:max-w-3xl md:max-w-4xl lg:max-w-5xl"
+    >
+      <div className="flex min-h-0 flex-1 flex-col">
+        <div
+          className="h-1 w-full"
+          style={{
+            background: publisher.publisher_colour
+              ? `linear-gradient(to right, ${publisher.publisher_colour}99, ${publisher.publisher_colour}, ${publisher.publisher_colour}99)`
+              : undefined,
+          }}
+        />
+        {!publisher.publisher_colour && (
+          <div className="h-1 w-full bg-gradient-to-r from-primary/60 via-primary to-primary/60" />
+        )}
+
+        <div className="min-h-0 flex-1 overflow-y-auto">
+          <div className="w-full min-w-0 space-y-6 p-6">
+            <div className="flex items-center justify-between gap-3 border-b border-border pb-4">
+              <div className="flex items-center gap-3">
+                <div
+                  className="flex h-10 w-10 items-center justify-center rounded-full"
+                  style={{
+                    backgroundColor: publisher.publisher_colour ? `${publisher.publisher_colour}15` : undefined,
+                  }}
+                >
+                  <Receipt className="h-5 w-5" style={{ color: publisher.publisher_colour || undefined }} />
+                </div>
+                <div>
+                  <h3 className="font-semibold text-foreground">Rate cards</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Media plan containers suggest these rates and flag line items that deviate.
+                  </p>
+                </div>
+              </div>
+              <Button
+                size="sm"
+                onClick={() => setDraft(emptyDraft(mediaTypes[0]?.value ?? ""))}
+                disabled={mediaTypes.length === 0 || draft?.id === null}
+              >
+                <Plus className="mr-1.5 h-4 w-4" />
+                Add rate
+              </Button>
+            </div>
+
+            {mediaTypes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                This publisher has no media types enabled. Tick them in Publisher details first.
+              </p>
+            ) : null}
+
+            {draft ? (
+              <div className="space-y-4 rounded-lg border border-border p-4">
+                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                  <div className="space-y-1.5">
+                    <Label>Media type</Label>
+                    <Combobox
+                      options={mediaTypes.map((m) => ({ value: m.value, label: m.label }))}
+                      value={draft.media_type}
+                      onValueChange={(value) => patchDraft({ media_type: value, buy_type: "" })}
+                      placeholder="Select media type"
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label>Buy type</Label>
+                    <Combobox
+                      options={BUY_TYPE_OPTIONS_BY_MEDIA_TYPE[draft.media_type] ?? []}
+                      value={draft.buy_type}
+                      onValueChange={(value) => patchDraft({ buy_type: value })}
+                      placeholder="Select buy type"
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="rate-card-rate">Rate</Label>
+                    <Input
+                      id="rate-card-rate"
+                      inputMode="decimal"
+                      value={draft.rate}
+                      onChange={(e) => patchDraft({ rate: e.target.value })}
+                      placeholder="CPM / CPP / per spot"
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="rate-card-format">Format</Label>
+                    <Input
+                      id="rate-card-format"
+                      value={draft.format}
+                      onChange={(e) => patchDraft({ format: e.target.value })}
+                      placeholder="Any"
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="rate-card-market">Market</Label>
+                    <Input
+                      id="rate-card-market"
+                      value={draft.market}
+                      onChange={(e) => patchDraft({ market: e.target.value })}
+                      placeholder="Any"
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="rate-card-daypart">Daypart</Label>
+                    <Input
+                      id="rate-card-daypart"
+                      value={draft.daypart}
+                      onChange={(e) => patchDraft({ daypart: e.target.value })}
+                      placeholder="Any"
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="rate-card-from">Effective from</Label>
+                    <Input
+                      id="rate-card-from"
+                      type="date"
+                      value={draft.effective_from}
+                      onChange={(e) => patchDraft({ effective_from: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="rate-card-to">Effective to</Label>
+                    <Input
+                      id="rate-card-to"
+                      type="date"
+                      value={draft.effective_to}
+                      onChange={(e) => patchDraft({ effective_to: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="rate-card-client">Negotiated for client</Label>
+                    <Input
+                      id="rate-card-client"
+                      value={draft.client_name}
+                      onChange={(e) => patchDraft({ client_name: e.target.value })}
+                      placeholder="Standard card"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="rate-card-notes">Notes</Label>
+                  <Input
+                    id="rate-card-notes"
+                    value={draft.notes}
+                    onChange={(e) => patchDraft({ notes: e.target.value })}
+                  />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setDraft(null)} disabled={saving}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" onClick={() => void handleSave()} disabled={saving}>
+                    {saving ? "Saving…" : draft.id == null ? "Add rate" : "Save rate"}
+                  </Button>
+                </div>
+              </div>
+            ) : null}
+
+            {loading ? (
+              <p className="text-sm text-muted-foreground">Loading rate cards…</p>
+            ) : sortedCards.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No rate cards yet.</p>
+            ) : (
+              <div className="overflow-x-auto rounded-lg border border-border">
+                <table className="w-full border-collapse text-sm">
+                  <thead>
+                    <tr className="border-b border-border text-left text-[11px] font-medium uppercase tracking-wider text-muted-foreground">
+                      <th className="px-3 py-2">Media type</th>
+                      <th className="px-3 py-2">Buy type</th>
+                      <th className="px-3 py-2">Format · market · daypart</th>
+                      <th className="px-3 py-2 text-right">Rate</th>
+                      <th className="px-3 py-2">Effective</th>
+                      <th className="px-3 py-2">Client</th>
+                      <th className="px-3 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sortedCards.map((card) => (
+                      <tr key={card.id} className="border-b border-border last:border-0">
+                        <td className="px-3 py-2">{rateCardMediaTypeLabel(card.media_type)}</td>
+                        <td className="px-3 py-2">{buyTypeLabel(card.media_type, card.buy_type)}</td>
+                        <td className="px-3 py-2 text-muted-foreground">{narrowingLabel(card)}</td>
+                        <td className="num px-3 py-2 text-right tabular-nums">
+                          {card.rate.toLocaleString("en-AU", { style: "currency", currency: "AUD" })}
+                        </td>
+                        <td className="px-3 py-2 text-muted-foreground">
+                          {card.effective_from} → {card.effective_to ?? "open"}
+                        </td>
+                        <td className="px-3 py-2">
+                          {card.client_name ? <Badge variant="secondary">{card.client_name}</Badge> : "Standard"}
+                        </td>
+                        <td className="px-3 py-2">
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              aria-label="Edit rate card"
+                              onClick={() => setDraft(draftFromCard(card))}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              aria-label="Delete rate card"
+                              onClick={() => void handleDelete(card)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </SlideOver>
+  )
+}
@@ -18,6 +18,7 @@ import { toast } from "@/components/ui/use-toast"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter } from "@/components/ui/table"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { formatAUD } from "@/lib/format/money"
+import { DEFAULT_SCOPE_HOURLY_RATE, scopeHourlyRate } from "@/lib/scopes/timeTracking"
 
 const scopeSchema = z.object({
   client_name: z.string().min(1, "Client name is required"),
@@ -40,6 +41,7 @@ const scopeSchema = z.object({
     description: z.string(),
     cost: z.number(),
   })).min(3, "At least 3 cost items are required"),
+  hourly_rate: z.number().positive("Hourly rate must be more than zero"),
   payment_terms_and_conditions: z.string(),
   billing_schedule: z.array(z.object({
     month: z.string().min(1, "Month is required"),
@@ -75,6 +77,7 @@ interface ScopeOfWork {
   assumptions: string
   exclusions: string
   cost: any
+  hourly_rate?: number | null
   payment_terms_and_conditions: string
   billing_schedule?: any
   scope_id?: string
@@ -153,6 +156,7 @@ export default function EditScopePage() {
         { expense_category: "", description: "", cost: 0 },
         { expense_category: "", description: "", cost: 0 },
       ],
+      hourly_rate: DEFAULT_SCOPE_HOURLY_RATE,
       payment_terms_and_conditions: "",
       billing_schedule: [{
         month: `${new Date().getFullYear()}-${String(new Date().getMonth() + 1).padStart(2, '0')}`,
@@ -290,6 +294,7 @@ export default function EditScopePage() {
           assumptions: data.assumptions || "",
           exclusions: data.exclusions || "",
           cost: costData,
+          hourly_rate: scopeHourlyRate(data),
           payment_terms_and_conditions: data.payment_terms_and_conditions || "",
           billing_schedule: billingScheduleData,
           scope_id: newScopeId,
@@ -750,6 +755,26 @@ export default function EditScopePage() {
                 <CardTitle>Cost Breakdown</CardTitle>
               </CardHeader>
               <CardContent>
+                <FormField
+                  control={form.control}
+                  name="hourly_rate"
+                  render={({ field }) => (
+                    <FormItem className="mb-4 max-w-[12rem]">
+                      <FormLabel>Hourly rate (ex GST)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          {...field}
+                          value={Number.isFinite(field.value) ? field.value : ""}
+                          onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <div className="overflow-x-auto">
                   <Table>
                   <TableHeader>
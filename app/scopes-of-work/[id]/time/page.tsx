@@ -0,0 +1,579 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import { format } from "date-fns"
+import { AlertTriangle, ArrowLeft, Clock, Download, FilePlus2, Trash2 } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ProgressBar } from "@/components/ui/ProgressBar"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ErrorState, LoadingState } from "@/components/ui/states"
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "@/components/ui/use-toast"
+import { MediaPlanEditorHero } from "@/components/mediaplans/MediaPlanEditorHero"
+import type { ScopeOfWorkRow } from "@/lib/finance/deriveScopeSowReceivables"
+import { formatAUD } from "@/lib/format/money"
+import {
+  SCOPE_CHANGE_REQUEST_TRANSITIONS,
+  changeRequestTotal,
+  parseScopeChangeRequests,
+  proposeChangeRequestLines,
+  type ScopeChangeRequest,
+  type ScopeChangeRequestLine,
+  type ScopeChangeRequestStatus,
+} from "@/lib/scopes/changeRequests"
+import {
+  buildScopeBurnDown,
+  scopeBurnAlerts,
+  scopeCostLines,
+  scopeHourlyRate,
+  type ScopeBurnStatus,
+  type ScopeCategoryBurn,
+  type ScopeTimeEntry,
+} from "@/lib/scopes/timeTracking"
+
+const BURN_TONES: Record<ScopeBurnStatus, { bar: "success" | "warning" | "danger"; badge: "success" | "warning" | "critical"; label: string }> = {
+  ok: { bar: "success", badge: "success", label: "On quote" },
+  warning: { bar: "warning", badge: "warning", label: "80%+" },
+  over: { bar: "danger", badge: "critical", label: "Over" },
+}
+
+const CHANGE_REQUEST_TONES: Record<ScopeChangeRequestStatus, "secondary" | "info" | "success" | "danger"> = {
+  draft: "secondary",
+  sent: "info",
+  approved: "success",
+  rejected: "danger",
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const body = await response.json().catch(() => null)
+  return (body && typeof body.error === "string" && body.error) || fallback
+}
+
+function pctLabel(row: ScopeCategoryBurn): string {
+  return Number.isFinite(row.consumedPct) ? `${Math.round(row.consumedPct)}%` : "Unquoted"
+}
+
+function BurnRow({ row, total = false }: { row: ScopeCategoryBurn; total?: boolean }) {
+  const tone = BURN_TONES[row.status]
+  return (
+    <TableRow className={total ? "font-semibold" : undefined}>
+      <TableCell>{row.category}</TableCell>
+      <TableCell className="num text-right">
+        {row.hours} / {row.quotedHours}
+      </TableCell>
+      <TableCell className="num text-right">{formatAUD(row.quoted)}</TableCell>
+      <TableCell className="num text-right">{formatAUD(row.consumed)}</TableCell>
+      <TableCell className="num text-right">{formatAUD(row.remaining)}</TableCell>
+      <TableCell className="min-w-[10rem]">
+        <div className="flex items-center gap-2">
+          <ProgressBar value={Math.min(row.consumedPct, 100)} size="sm" color={tone.bar} animated={false} />
+          <span className="num w-16 text-right text-xs text-muted-foreground">{pctLabel(row)}</span>
+        </div>
+      </TableCell>
+      <TableCell className="text-right">
+        <Badge variant={tone.badge} size="sm">
+          {tone.label}
+        </Badge>
+      </TableCell>
+    </TableRow>
+  )
+}
+
+export default function ScopeTimeTrackingPage() {
+  const router = useRouter()
+  const params = useParams<{ id: string }>()
+  const scopeId = params.id
+
+  const [scope, setScope] = useState<ScopeOfWorkRow | null>(null)
+  const [entries, setEntries] = useState<ScopeTimeEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const [lineIndex, setLineIndex] = useState("")
+  const [entryDate, setEntryDate] = useState(() => format(new Date(), "yyyy-MM-dd"))
+  const [hours, setHours] = useState("")
+  const [description, setDescription] = useState("")
+
+  const [drafting, setDrafting] = useState(false)
+  const [reason, setReason] = useState("")
+  const [billingMonth, setBillingMonth] = useState("")
+  const [hoursToComplete, setHoursToComplete] = useState<Record<string, string>>({})
+  const [draftLines, setDraftLines] = useState<ScopeChangeRequestLine[]>([])
+
+  const load = useCallback(async () => {
+    setError(null)
+    try {
+      const [scopeRes, entriesRes] = await Promise.all([
+        fetch(`/api/scopes-of-work/${scopeId}`),
+        fetch(`/api/scopes-of-work/${scopeId}/time-entries`),
+      ])
+      if (!scopeRes.ok) throw new Error(await readError(scopeRes, "Failed to load scope of work"))
+      if (!entriesRes.ok) throw new Error(await readError(entriesRes, "Failed to load time entries"))
+      setScope(await scopeRes.json())
+      setEntries(await entriesRes.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load scope of work")
+    } finally {
+      setLoading(false)
+    }
+  }, [scopeId])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  const costLines = useMemo(() => scopeCostLines(scope?.cost), [scope?.cost])
+  const hourlyRate = scopeHourlyRate(scope)
+  const burn = useMemo(() => buildScopeBurnDown(costLines, entries, { hourlyRate }), [costLines, entries, hourlyRate])
+  const alerts = useMemo(() => scopeBurnAlerts(burn), [burn])
+  const changeRequests = useMemo(() => parseScopeChangeRequests(scope?.change_requests), [scope?.change_requests])
+
+  const logHours = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/scopes-of-work/${scopeId}/time-entries`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          cost_line_index: Number(lineIndex),
+          entry_date: entryDate,
+          hours: Number(hours),
+          description,
+        }),
+      })
+      if (!response.ok) throw new Error(await readError(response, "Failed to log hours"))
+      const created = (await response.json()) as ScopeTimeEntry
+      setEntries((prev) => [...prev, created])
+      setHours("")
+      setDescription("")
+      toast({ title: "Hours logged", description: `${created.hours} h against ${created.expense_category}` })
+    } catch (err) {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to log hours", variant: "destructive" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteEntry = async (entry: ScopeTimeEntry) => {
+    const response = await fetch(`/api/scopes-of-work/${scopeId}/time-entries/${entry.id}`, { method: "DELETE" })
+    if (!response.ok) {
+      toast({ title: "Error", description: await readError(response, "Failed to delete entry"), variant: "destructive" })
+      return
+    }
+    setEntries((prev) => prev.filter((e) => e.id !== entry.id))
+  }
+
+  const startChangeRequest = () => {
+    setDrafting(true)
+    setDraftLines(proposeChangeRequestLines(burn, {}, hourlyRate))
+  }
+
+  const updateHoursToComplete = (category: string, value: string) => {
+    const next = { ...hoursToComplete, [category]: value }
+    setHoursToComplete(next)
+    const numeric = Object.fromEntries(Object.entries(next).map(([key, raw]) => [key, Number(raw) || 0]))
+    setDraftLines(proposeChangeRequestLines(burn, numeric, hourlyRate))
+  }
+
+  const createChangeRequest = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/scopes-of-work/${scopeId}/change-requests`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason, billing_month: billingMonth || null, lines: draftLines }),
+      })
+      if (!response.ok) throw new Error(await readError(response, "Failed to create change request"))
+      const created = (await response.json()) as ScopeChangeRequest
+      setScope((prev) => (prev ? { ...prev, change_requests: [...changeRequests, created] } : prev))
+      setDrafting(false)
+      setReason("")
+      setHoursToComplete({})
+      toast({ title: "Change request created", description: created.number })
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to create change request",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const updateChangeRequest = async (request: ScopeChangeRequest, status: ScopeChangeRequestStatus) => {
+    const response = await fetch(
+      `/api/scopes-of-work/${scopeId}/change-requests/${encodeURIComponent(request.number)}`,
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      }
+    )
+    if (!response.ok) {
+      toast({ title: "Error", description: await readError(response, "Failed to update change request"), variant: "destructive" })
+      return
+    }
+    const updated = (await response.json()) as ScopeChangeRequest
+    setScope((prev) =>
+      prev
+        ? { ...prev, change_requests: changeRequests.map((r) => (r.number === updated.number ? updated : r)) }
+        : prev
+    )
+  }
+
+  if (loading) {
+    return (
+      <div className="w-full px-4 py-6 md:px-6">
+        <LoadingState rows={6} />
+      </div>
+    )
+  }
+
+  if (error || !scope) {
+    return (
+      <div className="w-full px-4 py-6 md:px-6">
+        <ErrorState title="Unable to load scope" message={error ?? "Scope of work not found"} />
+      </div>
+    )
+  }
+
+  const canLog = lineIndex !== "" && Number(hours) > 0 && !saving
+
+  return (
+    <div className="w-full min-h-screen">
+      <div className="w-full space-y-6 px-4 py-6 md:px-6">
+        <MediaPlanEditorHero
+          className="mb-2"
+          title={`${scope.project_name || "Scope of Work"} — time & burn-down`}
+          Icon={Clock}
+          detail={
+            <p>
+              {scope.client_name} · {scope.scope_id || `#${scope.id}`} · quoted hours at{" "}
+              {formatAUD(hourlyRate)}/h
+            </p>
+          }
+          actions={
+            <Button variant="outline" onClick={() => router.push("/scopes-of-work")}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Scopes of work
+            </Button>
+          }
+        />
+
+        {alerts.length > 0 && (
+          <Alert variant={alerts.some((a) => a.status === "over") ? "destructive" : "default"}>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Quote consumption</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc space-y-0.5 pl-4">
+                {alerts.map((alert) => (
+                  <li key={alert.category}>{alert.message}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="rounded-card border border-border bg-card shadow-e1">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Burn-down by expense category</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">Hours used / quoted</TableHead>
+                  <TableHead className="text-right">Quoted</TableHead>
+                  <TableHead className="text-right">Consumed</TableHead>
+                  <TableHead className="text-right">Remaining</TableHead>
+                  <TableHead>Used</TableHead>
+                  <TableHead className="text-right">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {burn.categories.map((row) => (
+                  <BurnRow key={row.category} row={row} />
+                ))}
+              </TableBody>
+              <TableFooter>
+                <BurnRow row={burn.total} total />
+              </TableFooter>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card className="rounded-card border border-border bg-card shadow-e1">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Log hours</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-3 md:grid-cols-[2fr_1fr_1fr]">
+              <div className="space-y-1.5">
+                <Label>Cost line</Label>
+                <Select value={lineIndex} onValueChange={setLineIndex}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a cost line" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {costLines.map((line) => (
+                      <SelectItem key={line.index} value={String(line.index)}>
+                        {line.expense_category}
+                        {line.description ? ` — ${line.description}` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="entry-date">Date</Label>
+                <Input id="entry-date" type="date" value={entryDate} onChange={(e) => setEntryDate(e.target.value)} />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="entry-hours">Hours</Label>
+                <Input
+                  id="entry-hours"
+                  inputMode="decimal"
+                  value={hours}
+                  onChange={(e) => setHours(e.target.value)}
+                  placeholder="0"
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="min-w-[16rem] flex-1 space-y-1.5">
+                <Label htmlFor="entry-description">What was done</Label>
+                <Input
+                  id="entry-description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="Optional"
+                />
+              </div>
+              <Button onClick={() => void logHours()} disabled={!canLog}>
+                <Clock className="mr-2 h-4 w-4" />
+                Log hours
+              </Button>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Staff</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Hours</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-sm text-muted-foreground">
+                      No time logged yet.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  [...entries].reverse().map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="num">{entry.entry_date}</TableCell>
+                      <TableCell>{entry.staff_name}</TableCell>
+                      <TableCell>{entry.expense_category}</TableCell>
+                      <TableCell className="text-muted-foreground">{entry.description}</TableCell>
+                      <TableCell className="num text-right">{entry.hours}</TableCell>
+                      <TableCell className="num text-right">{formatAUD(entry.hours * entry.hourly_rate)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          aria-label="Delete entry"
+                          onClick={() => void deleteEntry(entry)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card className="rounded-card border border-border bg-card shadow-e1">
+          <CardHeader className="flex flex-row items-center justify-between pb-3">
+            <CardTitle className="text-lg">Change requests</CardTitle>
+            {!drafting && (
+              <Button variant="outline" onClick={startChangeRequest}>
+                <FilePlus2 className="mr-2 h-4 w-4" />
+                New change request
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {drafting && (
+              <div className="space-y-4 rounded-card border border-border p-4">
+                <div className="grid gap-3 md:grid-cols-[3fr_1fr]">
+                  <div className="space-y-1.5">
+                    <Label htmlFor="cr-reason">Reason for re-quoting</Label>
+                    <Textarea id="cr-reason" value={reason} onChange={(e) => setReason(e.target.value)} rows={3} />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="cr-month">Billing month</Label>
+                    <Input id="cr-month" type="month" value={billingMonth} onChange={(e) => setBillingMonth(e.target.value)} />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Estimated hours to complete</p>
+                  <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                    {burn.categories.map((row) => (
+                      <div key={row.category} className="space-y-1">
+                        <Label className="text-xs text-muted-foreground">
+                          {row.category} ({row.hours} of {row.quotedHours} h used)
+                        </Label>
+                        <Input
+                          inputMode="decimal"
+                          value={hoursToComplete[row.category] ?? ""}
+                          onChange={(e) => updateHoursToComplete(row.category, e.target.value)}
+                          placeholder="0"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Additional cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {draftLines.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={3} className="text-center text-sm text-muted-foreground">
+                          Every category finishes inside its quote at these estimates.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      draftLines.map((line, idx) => (
+                        <TableRow key={line.expense_category}>
+                          <TableCell>{line.expense_category}</TableCell>
+                          <TableCell>
+                            <Input
+                              value={line.description}
+                              onChange={(e) =>
+                                setDraftLines((prev) =>
+                                  prev.map((l, i) => (i === idx ? { ...l, description: e.target.value } : l))
+                                )
+                              }
+                            />
+                          </TableCell>
+                          <TableCell className="num text-right">{formatAUD(line.amount)}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" onClick={() => setDrafting(false)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={() => void createChangeRequest()}
+                    disabled={saving || !reason.trim() || draftLines.length === 0}
+                  >
+                    Create change request
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Raised</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Billing month</TableHead>
+                  <TableHead className="text-right">Additional</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {changeRequests.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-sm text-muted-foreground">
+                      No change requests for this scope.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  changeRequests.map((request) => (
+                    <TableRow key={request.number}>
+                      <TableCell className="font-mono text-xs">{request.number}</TableCell>
+                      <TableCell className="num">{request.created_at}</TableCell>
+                      <TableCell className="max-w-xs truncate text-muted-foreground" title={request.reason}>
+                        {request.reason}
+                      </TableCell>
+                      <TableCell className="num">{request.billing_month ?? "—"}</TableCell>
+                      <TableCell className="num text-right">{formatAUD(changeRequestTotal(request))}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={request.status}
+                          disabled={SCOPE_CHANGE_REQUEST_TRANSITIONS[request.status].length === 0}
+                          onValueChange={(status) => void updateChangeRequest(request, status as ScopeChangeRequestStatus)}
+                        >
+                          <SelectTrigger className="h-8 w-32">
+                            <Badge variant={CHANGE_REQUEST_TONES[request.status]} size="sm">
+                              <SelectValue />
+                            </Badge>
+                          </SelectTrigger>
+                          <SelectContent>
+                            {[request.status, ...SCOPE_CHANGE_REQUEST_TRANSITIONS[request.status]].map((status) => (
+                              <SelectItem key={status} value={status} className="capitalize">
+                                {status}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" asChild>
+                          <a
+                            href={`/api/scopes-of-work/${scopeId}/change-requests/${encodeURIComponent(request.number)}/pdf`}
+                          >
+                            <Download className="mr-1.5 h-3.5 w-3.5" />
+                            PDF
+                          </a>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-muted-foreground">
+              Approved change requests are invoiced with the scope in their billing month.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
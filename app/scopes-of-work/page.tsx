@@ -328,7 +328,14 @@ export default function ScopesOfWorkPage() {
                                             </span>
                                           </div>
                                         </TableCell>
-                                        <TableCell className="text-right">
+                                        <TableCell className="space-x-2 text-right">
+                                          <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => router.push(`/scopes-of-work/${scope.id}/time`)}
+                                          >
+                                            Time
+                                          </Button>
                                           <Button
                                             variant="outline"
                                             size="sm"
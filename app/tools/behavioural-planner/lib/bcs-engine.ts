@@ -3,6 +3,17 @@ import {
   CODE_ENGINE_PARAMS,
   type EngineParams,
 } from "@/lib/planning/engineParams";
+import {
+  optimiseBudgetSplit,
+  type BudgetOptimiserResult,
+  type ChannelBounds,
+} from "@/lib/planning/budgetOptimiser";
+import { dfii } from "@/lib/planning/dfii";
+import {
+  allocateByMarginalReach,
+  estimatePlanReach,
+  type PlanReachEstimate,
+} from "@/lib/planning/reachCurve";
 
 /**
  * BCS scoring over adapted live channels (affinities + age/gender fits from the API).
@@ -62,6 +73,88 @@ export function allocate(
   }));
 }
 
+/**
+ * Same top-N candidate pool as {@link allocate}, but budget follows marginal
+ * de-duplicated reach (reach curves from RM reach ceilings + bench CPMs).
+ * Falls back to the BCS split when nothing carries a reach ceiling or there
+ * is no budget / audience size to build curves from. Sorted by share desc.
+ */
+export function allocateByReach(
+  scored: ScoredChannel[],
+  budget: number,
+  audienceWc: number,
+  engineParams: EngineParams = CODE_ENGINE_PARAMS
+): AllocatedChannel[] {
+  const topN = Math.max(1, Math.round(engineParams.alloc_top_n));
+  const top = scored.slice(0, topN);
+  const spend = allocateByMarginalReach(
+    top.map((s) => ({ id: s.ch.id, maxReach: s.ch.reachPct, cpm: s.ch.cpm })),
+    budget,
+    audienceWc
+  );
+  const total = Object.values(spend).reduce((a, b) => a + b, 0);
+  if (!(total > 0)) return allocate(scored, budget, engineParams);
+  return top
+    .filter((s) => (spend[s.ch.id] ?? 0) > 0)
+    .map((s) => ({
+      ...s,
+      pct: (spend[s.ch.id]! / total) * 100,
+      dollars: Math.round(spend[s.ch.id]! / 1000) * 1000,
+    }))
+    .sort((a, b) => b.pct - a.pct);
+}
+
+/**
+ * Constrained optimiser split (DFII-weighted reach within Stage D min/max
+ * shares). Candidate pool matches {@link allocate}'s top-N plus any channel
+ * with a minimum. Falls back to the BCS split (optimiser null) when there is
+ * nothing to optimise. Sorted by share desc.
+ */
+export function allocateOptimised(
+  scored: ScoredChannel[],
+  budget: number,
+  audienceWc: number,
+  bounds: Record<string, ChannelBounds>,
+  engineParams: EngineParams = CODE_ENGINE_PARAMS
+): { allocated: AllocatedChannel[]; optimiser: BudgetOptimiserResult | null } {
+  const dfiiValues = dfii(scored.map((s) => ({ bcs: s.bcs })));
+  const optimiser = optimiseBudgetSplit({
+    channels: scored.map((s, i) => ({
+      id: s.ch.id,
+      dfii: dfiiValues[i] ?? null,
+      reachPct: s.ch.reachPct,
+      cpm: s.ch.cpm,
+      bounds: bounds[s.ch.id],
+    })),
+    budget,
+    audienceWc,
+    params: { candidate_top_n: engineParams.alloc_top_n },
+  });
+  if (!optimiser) return { allocated: allocate(scored, budget, engineParams), optimiser: null };
+
+  const byId = new Map(scored.map((s) => [s.ch.id, s]));
+  const allocated = optimiser.channels
+    .filter((c) => c.dollars > 0)
+    .map((c) => ({
+      ...byId.get(c.id)!,
+      pct: c.pct,
+      dollars: Math.round(c.dollars / 1000) * 1000,
+    }))
+    .sort((a, b) => b.pct - a.pct);
+  return { allocated, optimiser };
+}
+
+/** De-duplicated reach estimate for an allocation at its indicative dollars. */
+export function estimateAllocatedReach(
+  allocated: AllocatedChannel[],
+  audienceWc: number
+): PlanReachEstimate {
+  return estimatePlanReach(
+    allocated.map((a) => ({ id: a.ch.id, maxReach: a.ch.reachPct, cpm: a.ch.cpm, spend: a.dollars })),
+    audienceWc
+  );
+}
+
 export function totalBcs(allocated: AllocatedChannel[]): number {
   return allocated.reduce((s, a) => s + a.bcs * (a.pct / 100), 0);
 }
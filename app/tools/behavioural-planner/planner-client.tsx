@@ -5,6 +5,8 @@ import { usePathname } from "next/navigation"
 
 import {
   allocate,
+  allocateByReach,
+  allocateOptimised,
   computeBcs,
 } from "@/app/tools/behavioural-planner/lib/bcs-engine"
 import { rangeFromBands } from "@/app/tools/behavioural-planner/lib/ageBands"
@@ -44,6 +46,7 @@ import { useToast } from "@/components/ui/use-toast"
 import { setAssistantContext, clearAssistantContext } from "@/lib/assistantBridge"
 import type { PageContext } from "@/lib/ava/types"
 import { adaptAudienceToEngine, type AdapterResult } from "@/lib/planning/adapter"
+import type { ChannelBounds } from "@/lib/planning/budgetOptimiser"
 import { resolveEngineParams } from "@/lib/planning/engineParams"
 import type { PlanningAudienceRow } from "@/lib/planning/audienceTypes"
 import type {
@@ -179,6 +182,10 @@ function parseSavedDefinition(raw: unknown): SavedAudienceDefinition | null {
       ? o.exclusions.map((x) => String(x))
       : [],
     wave_id: typeof o.wave_id === "string" ? o.wave_id : "",
+    channel_bounds:
+      o.channel_bounds && typeof o.channel_bounds === "object"
+        ? (o.channel_bounds as Record<string, ChannelBounds>)
+        : {},
   }
 }
 
@@ -427,6 +434,7 @@ export function BehaviouralPlannerClient() {
       const adapted = result?.adapted ?? null
       let allocated: AudienceCompareBundle["allocated"] = []
       let scored: AudienceCompareBundle["scored"] = []
+      let optimiser: AudienceCompareBundle["optimiser"] = null
       if (adapted) {
         const inputs = toPlannerInputs(
           draft,
@@ -437,18 +445,43 @@ export function BehaviouralPlannerClient() {
         )
         const channels = toEngineChannels(adapted, excluded)
         scored = computeBcs(inputs, channels, engineParams)
-        allocated = allocate(scored, state.brief.budget, engineParams)
+        if (state.allocationMode === "optimised") {
+          const optimised = allocateOptimised(
+            scored,
+            state.brief.budget,
+            adapted.audienceWc,
+            state.channelBounds,
+            engineParams
+          )
+          allocated = optimised.allocated
+          optimiser = optimised.optimiser
+        } else {
+          allocated =
+            state.allocationMode === "reach"
+              ? allocateByReach(scored, state.brief.budget, adapted.audienceWc, engineParams)
+              : allocate(scored, state.brief.budget, engineParams)
+        }
       }
       return {
         draft,
         adapted,
         scored,
         allocated,
+        optimiser,
         loading: result?.loading ?? false,
         error: result?.error ?? null,
       }
     })
-  }, [state.audiences, state.brief.budget, results, bcsParams, excluded, engineParams])
+  }, [
+    state.audiences,
+    state.brief.budget,
+    state.allocationMode,
+    state.channelBounds,
+    results,
+    bcsParams,
+    excluded,
+    engineParams,
+  ])
 
   const goTo = (stage: StageId) => {
     dispatch({ type: "SET_STAGE", stage })
@@ -504,6 +537,7 @@ export function BehaviouralPlannerClient() {
       activeAudienceId: parsed.audience.id,
       diagnosis: parsed.diagnosis,
       excludedChannelIds: parsed.exclusions,
+      channelBounds: parsed.channel_bounds,
     })
     toast({
       title: `Loaded “${row.name}”`,
@@ -708,7 +742,11 @@ export function BehaviouralPlannerClient() {
         <StageConstraints
           channels={constraintChannels}
           excludedChannelIds={state.excludedChannelIds}
+          channelBounds={state.channelBounds}
           onToggle={(id) => dispatch({ type: "TOGGLE_CHANNEL", engineChannelId: id })}
+          onBoundsChange={(id, bounds) =>
+            dispatch({ type: "SET_CHANNEL_BOUNDS", engineChannelId: id, bounds })
+          }
           onBack={() => goTo("diagnosis")}
           onContinue={() => completeAndGo("constraints", "compare")}
         />
@@ -722,7 +760,10 @@ export function BehaviouralPlannerClient() {
           waveLabel={waveLabel}
           reachBasis={reachBasisLabel}
           excludedChannelIds={state.excludedChannelIds}
+          channelBounds={state.channelBounds}
           bundles={compareBundles}
+          allocationMode={state.allocationMode}
+          onAllocationModeChange={(mode) => dispatch({ type: "SET_ALLOCATION_MODE", mode })}
           savedAudiences={savedAudiences}
           savedLoading={savedLoading}
           channelNamesById={Object.fromEntries(
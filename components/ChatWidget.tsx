@@ -392,6 +392,7 @@ export function ChatWidget({
                 channel: pendingParsedPlanRef.current.channel,
                 mapped: pendingParsedPlanRef.current.mapped,
                 fileName: pendingParsedPlanRef.current.fileName,
+                flight: pendingParsedPlanRef.current.flight,
               },
             }
           : {}),
@@ -509,6 +510,7 @@ export function ChatWidget({
         channel: data.channel,
         mapped: data.mapped,
         fileName: file.name,
+        flight: data.detected?.flight,
       }
       pendingParsedPlanRef.current = pending
       setPendingParsedPlan(pending)
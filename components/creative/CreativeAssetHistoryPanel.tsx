@@ -0,0 +1,375 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Download, Loader2, MessageSquare } from "lucide-react"
+
+import { CreativeUploadZone } from "@/components/creative/CreativeUploadZone"
+import { Badge, type BadgeProps } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { SlideOver } from "@/components/ui/SlideOver"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/components/ui/use-toast"
+import { formatFileSize } from "@/lib/creative/metadata"
+import {
+  CREATIVE_COMMENT_MAX_LENGTH,
+  CREATIVE_REVIEW_LABELS,
+  allowedReviewTransitions,
+  reviewStatusOf,
+  versionOf,
+  type CreativeAssetLineage,
+} from "@/lib/creative/review"
+import type { CreativeAsset, CreativeAssetActivity, CreativeReviewStatus } from "@/lib/creative/types"
+import { cn } from "@/lib/utils"
+
+export const REVIEW_BADGE_VARIANT: Record<CreativeReviewStatus, BadgeProps["variant"]> = {
+  draft: "secondary",
+  in_review: "info",
+  client_approved: "success",
+  trafficked: "good",
+  rejected: "critical",
+}
+
+const TRANSITION_LABELS: Record<CreativeReviewStatus, string> = {
+  draft: "Back to draft",
+  in_review: "Submit for review",
+  client_approved: "Approve",
+  trafficked: "Mark trafficked",
+  rejected: "Reject",
+}
+
+type CreativeAssetHistoryPanelProps = {
+  lineage: CreativeAssetLineage | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  mbaNumber: string
+  mediaPlanMasterId: number
+  clientMode?: boolean
+  onAssetUpdated: (asset: CreativeAsset) => void
+  onAssetRegistered: (asset: CreativeAsset) => void
+}
+
+function formatTimestamp(value: number): string {
+  if (!value) return "—"
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return "—"
+  return date.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const data = (await response.json().catch(() => null)) as { error?: string } | null
+  return data?.error || fallback
+}
+
+function activityLine(event: CreativeAssetActivity): string {
+  if (event.kind === "comment") return event.body
+  const to = event.to_status ? CREATIVE_REVIEW_LABELS[event.to_status] : "—"
+  return event.body ? `${to} — ${event.body}` : to
+}
+
+export function CreativeAssetHistoryPanel({
+  lineage,
+  open,
+  onOpenChange,
+  mbaNumber,
+  mediaPlanMasterId,
+  clientMode = false,
+  onAssetUpdated,
+  onAssetRegistered,
+}: CreativeAssetHistoryPanelProps) {
+  const { toast } = useToast()
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [activity, setActivity] = useState<CreativeAssetActivity[]>([])
+  const [loadingActivity, setLoadingActivity] = useState(false)
+  const [comment, setComment] = useState("")
+  const [rejectReason, setRejectReason] = useState("")
+  const [rejecting, setRejecting] = useState(false)
+  const [busy, setBusy] = useState(false)
+
+  const latestId = lineage?.latest.id ?? null
+  const selected = useMemo(
+    () => lineage?.versions.find((v) => v.id === selectedId) ?? lineage?.latest ?? null,
+    [lineage, selectedId],
+  )
+
+  useEffect(() => {
+    setSelectedId(latestId)
+    setRejecting(false)
+    setRejectReason("")
+    setComment("")
+  }, [latestId])
+
+  const loadActivity = useCallback(async () => {
+    if (!latestId) return
+    setLoadingActivity(true)
+    try {
+      const response = await fetch(`/api/creative-assets/${latestId}/activity`)
+      if (!response.ok) throw new Error(await readError(response, "Failed to load history"))
+      const rows = (await response.json()) as CreativeAssetActivity[]
+      setActivity(Array.isArray(rows) ? rows : [])
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load history",
+        variant: "destructive",
+      })
+    } finally {
+      setLoadingActivity(false)
+    }
+  }, [latestId, toast])
+
+  useEffect(() => {
+    if (open) void loadActivity()
+  }, [loadActivity, open])
+
+  const status = selected ? reviewStatusOf(selected) : "draft"
+  const transitions = allowedReviewTransitions(status, clientMode ? "client" : "manager")
+  const comments = activity.filter((e) => e.kind === "comment" && e.asset_id === selected?.id)
+
+  const moveTo = async (to: CreativeReviewStatus, reason = "") => {
+    if (!selected) return
+    setBusy(true)
+    try {
+      const response = await fetch(`/api/creative-assets/${selected.id}/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ to_status: to, ...(reason ? { reason } : {}) }),
+      })
+      if (!response.ok) throw new Error(await readError(response, "Review update failed"))
+      const data = (await response.json()) as { asset: CreativeAsset; activity: CreativeAssetActivity }
+      onAssetUpdated(data.asset)
+      setActivity((prev) => [...prev, data.activity])
+      setRejecting(false)
+      setRejectReason("")
+      toast({ title: "Saved", description: `Moved to ${CREATIVE_REVIEW_LABELS[to]}.` })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Review update failed",
+        variant: "destructive",
+      })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const postComment = async () => {
+    const text = comment.trim()
+    if (!selected || !text) return
+    setBusy(true)
+    try {
+      const response = await fetch(`/api/creative-assets/${selected.id}/activity`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: text }),
+      })
+      if (!response.ok) throw new Error(await readError(response, "Comment failed"))
+      const row = (await response.json()) as CreativeAssetActivity
+      setActivity((prev) => [...prev, row])
+      setComment("")
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Comment failed",
+        variant: "destructive",
+      })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <SlideOver
+      open={open}
+      onOpenChange={onOpenChange}
+      title={lineage?.latest.asset_name ?? "Creative history"}
+      description={
+        lineage ? `${lineage.versions.length} version${lineage.versions.length === 1 ? "" : "s"}` : undefined
+      }
+    >
+      {lineage && selected ? (
+        <div className="flex-1 space-y-6 overflow-y-auto px-6 py-5">
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold">Versions</h3>
+            <ul className="space-y-1.5">
+              {lineage.versions.map((version) => {
+                const versionStatus = reviewStatusOf(version)
+                return (
+                  <li key={version.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(version.id)}
+                      className={cn(
+                        "interactive-tint flex w-full items-center justify-between gap-3 rounded-input border border-border px-3 py-2 text-left text-sm",
+                        version.id === selected.id && "border-primary bg-primary/5",
+                      )}
+                    >
+                      <span className="min-w-0">
+                        <span className="font-medium">v{versionOf(version)}</span>
+                        <span className="ml-2 truncate text-muted-foreground">{version.original_filename}</span>
+                        <span className="block text-xs text-muted-foreground">
+                          {version.uploaded_by_name || version.uploaded_by_email || "—"} ·{" "}
+                          {formatTimestamp(version.created_at)} · {formatFileSize(version.file_size_bytes)}
+                        </span>
+                      </span>
+                      <Badge variant={REVIEW_BADGE_VARIANT[versionStatus]} size="sm">
+                        {CREATIVE_REVIEW_LABELS[versionStatus]}
+                      </Badge>
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+          </section>
+
+          <section className="space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <h3 className="text-sm font-semibold">Review · v{versionOf(selected)}</h3>
+              <Button variant="ghost" size="sm" className="text-xs" asChild>
+                <a href={`/api/creative-assets/${selected.id}/download`}>
+                  <Download className="mr-1.5 h-3.5 w-3.5" aria-hidden />
+                  Download
+                </a>
+              </Button>
+            </div>
+            {status === "rejected" && selected.rejection_reason ? (
+              <p className="rounded-input bg-pacing-critical-bg px-3 py-2 text-sm text-status-critical-fg">
+                Rejected: {selected.rejection_reason}
+              </p>
+            ) : null}
+            {transitions.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No review actions available for this version.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {transitions.map((to) => (
+                  <Button
+                    key={to}
+                    type="button"
+                    size="sm"
+                    variant={to === "rejected" ? "outline" : to === "draft" ? "ghost" : "default"}
+                    disabled={busy}
+                    onClick={() => (to === "rejected" ? setRejecting(true) : void moveTo(to))}
+                  >
+                    {TRANSITION_LABELS[to]}
+                  </Button>
+                ))}
+              </div>
+            )}
+            {rejecting ? (
+              <div className="space-y-2">
+                <Textarea
+                  value={rejectReason}
+                  onChange={(event) => setRejectReason(event.target.value)}
+                  placeholder="What needs to change?"
+                  maxLength={500}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setRejecting(false)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="destructive"
+                    disabled={busy || !rejectReason.trim()}
+                    onClick={() => void moveTo("rejected", rejectReason.trim())}
+                  >
+                    Reject version
+                  </Button>
+                </div>
+              </div>
+            ) : null}
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="flex items-center gap-1.5 text-sm font-semibold">
+              <MessageSquare className="h-4 w-4" aria-hidden />
+              Comments on v{versionOf(selected)}
+            </h3>
+            {comments.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No comments on this version yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {comments.map((c) => (
+                  <li key={c.id} className="rounded-input border border-border px-3 py-2 text-sm">
+                    <p className="whitespace-pre-wrap">{c.body}</p>
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      {c.author_name || c.author_email || "—"} · {formatTimestamp(c.created_at)}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <Textarea
+              value={comment}
+              onChange={(event) => setComment(event.target.value)}
+              placeholder="Add a comment for this version…"
+              maxLength={CREATIVE_COMMENT_MAX_LENGTH}
+            />
+            <div className="flex justify-end">
+              <Button type="button" size="sm" disabled={busy || !comment.trim()} onClick={() => void postComment()}>
+                Comment
+              </Button>
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold">History</h3>
+            {loadingActivity ? (
+              <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Loader2 className="h-3.5 w-3.5 animate-spin" aria-hidden />
+                Loading history…
+              </p>
+            ) : (
+              <ol className="space-y-1.5 text-xs">
+                {[
+                  ...lineage.versions.map((v) => ({
+                    key: `upload-${v.id}`,
+                    at: v.created_at,
+                    text: `v${versionOf(v)} uploaded (${v.original_filename})`,
+                    who: v.uploaded_by_name || v.uploaded_by_email,
+                  })),
+                  ...activity.map((e) => ({
+                    key: `activity-${e.id}`,
+                    at: e.created_at,
+                    text: `v${e.version} ${e.kind === "comment" ? "comment" : "review"}: ${activityLine(e)}`,
+                    who: e.author_name || e.author_email,
+                  })),
+                ]
+                  .sort((a, b) => (b.at || 0) - (a.at || 0))
+                  .map((row) => (
+                    <li key={row.key} className="flex justify-between gap-3">
+                      <span className="min-w-0 break-words">{row.text}</span>
+                      <span className="shrink-0 text-muted-foreground">
+                        {row.who || "—"} · {formatTimestamp(row.at)}
+                      </span>
+                    </li>
+                  ))}
+              </ol>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold">Upload new version</h3>
+            <CreativeUploadZone
+              mbaNumber={mbaNumber}
+              mediaPlanMasterId={mediaPlanMasterId}
+              lineItemLink={
+                lineage.latest.line_item_id
+                  ? { line_item_id: lineage.latest.line_item_id, source_table: lineage.latest.source_table }
+                  : null
+              }
+              versionOf={{ asset_name: lineage.latest.asset_name, lineage_id: lineage.lineage_id }}
+              onAssetRegistered={onAssetRegistered}
+              onError={(message) => toast({ title: "Upload failed", description: message, variant: "destructive" })}
+            />
+          </section>
+        </div>
+      ) : null}
+    </SlideOver>
+  )
+}
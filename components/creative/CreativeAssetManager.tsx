@@ -5,8 +5,10 @@ import Link from "next/link"
 import { usePathname } from "next/navigation"
 import { ArrowLeft, Loader2, Search } from "lucide-react"
 
+import { CreativeAssetHistoryPanel } from "@/components/creative/CreativeAssetHistoryPanel"
 import { CreativeAssetTable } from "@/components/creative/CreativeAssetTable"
 import { CreativeUploadZone } from "@/components/creative/CreativeUploadZone"
+import { MiDeliveryTracker } from "@/components/creative/MiDeliveryTracker"
 import { SearchAdWorkshopDialog } from "@/components/creative/searchads/SearchAdWorkshopDialog"
 import { MediaPlanEditorHero } from "@/components/mediaplans/MediaPlanEditorHero"
 import { AvaCreativeSkillActions } from "@/components/ava/AvaSkillActionSets"
@@ -25,6 +27,7 @@ import { setAssistantContext, clearAssistantContext } from "@/lib/assistantBridg
 import type { PageContext } from "@/lib/ava/types"
 import { getClientDisplayName } from "@/lib/clients/slug"
 import { flattenLineItemOptions, type LineItemOption } from "@/lib/creative/lineItemOptions"
+import { groupAssetLineages, lineageIdOf, reviewStatusOf, versionOf } from "@/lib/creative/review"
 import { SEARCH_LIMITS_RSA } from "@/lib/creative/searchCopy/limits"
 import type { CreativeAsset } from "@/lib/creative/types"
 
@@ -93,6 +96,7 @@ export function CreativeAssetManager({
   const [nameFilter, setNameFilter] = useState("")
   const [uploadLineItemKey, setUploadLineItemKey] = useState("none")
   const [searchOpen, setSearchOpen] = useState(false)
+  const [historyLineageId, setHistoryLineageId] = useState<string | null>(null)
 
   const searchLineItems = useMemo(
     () => lineItemOptions.filter((option) => option.source_table === "media_plan_search"),
@@ -219,9 +223,23 @@ export function CreativeAssetManager({
     }
   }, [clientMode, clientName, metaPageIdProp])
 
+  const lineages = useMemo(() => groupAssetLineages(assets), [assets])
+
+  const versionCounts = useMemo(
+    () => Object.fromEntries(lineages.map((l) => [l.lineage_id, l.versions.length])),
+    [lineages],
+  )
+
+  const historyLineage = useMemo(
+    () => lineages.find((l) => l.lineage_id === historyLineageId) ?? null,
+    [historyLineageId, lineages],
+  )
+
+  /** Latest version of each lineage; older versions live in the history panel. */
   const filteredAssets = useMemo(() => {
     const query = nameFilter.trim().toLowerCase()
-    return assets
+    return lineages
+      .map((l) => l.latest)
       .filter((asset) => {
         if (statusFilter === "active") return asset.status === "active"
         if (statusFilter === "archived") return asset.status === "archived"
@@ -235,7 +253,7 @@ export function CreativeAssetManager({
         )
       })
       .sort((a, b) => (b.created_at || 0) - (a.created_at || 0))
-  }, [assets, nameFilter, statusFilter])
+  }, [lineages, nameFilter, statusFilter])
 
   const getPageContext = useCallback((): PageContext => {
     const visible = filteredAssets.slice(0, AVA_LIST_CAP).map((asset) => ({
@@ -246,6 +264,8 @@ export function CreativeAssetManager({
       height_px: asset.height_px,
       line_item_id: asset.line_item_id || "",
       status: asset.status,
+      version: versionOf(asset),
+      review_status: reviewStatusOf(asset),
     }))
     const missingLineItemLink = filteredAssets.filter((a) => !String(a.line_item_id || "").trim()).length
 
@@ -365,6 +385,10 @@ export function CreativeAssetManager({
     [patchAsset, toast],
   )
 
+  const handleAssetUpdated = useCallback((asset: CreativeAsset) => {
+    setAssets((prev) => prev.map((row) => (row.id === asset.id ? asset : row)))
+  }, [])
+
   const handleDelete = useCallback(
     async (id: number) => {
       const response = await fetch(`/api/creative-assets/${id}`, { method: "DELETE" })
@@ -505,6 +529,8 @@ export function CreativeAssetManager({
             metaPageId={resolvedMetaPageId}
             allowDelete={!clientMode}
             allowMockup={!clientMode}
+            versionCounts={versionCounts}
+            onOpenHistory={(asset) => setHistoryLineageId(lineageIdOf(asset))}
             onRename={handleRename}
             onLineItemChange={handleLineItemChange}
             onStatusToggle={handleStatusToggle}
@@ -513,6 +539,21 @@ export function CreativeAssetManager({
         </CardContent>
       </Card>
 
+      {clientMode ? null : <MiDeliveryTracker mbaNumber={mbaNumber} assets={assets} />}
+
+      <CreativeAssetHistoryPanel
+        lineage={historyLineage}
+        open={!!historyLineage}
+        onOpenChange={(open) => {
+          if (!open) setHistoryLineageId(null)
+        }}
+        mbaNumber={mbaNumber}
+        mediaPlanMasterId={mediaPlanMasterId}
+        clientMode={clientMode}
+        onAssetUpdated={handleAssetUpdated}
+        onAssetRegistered={handleAssetRegistered}
+      />
+
       <SearchAdWorkshopDialog
         open={searchOpen}
         onOpenChange={setSearchOpen}
@@ -10,6 +10,7 @@ import {
   FileText,
   FileVideo,
   Film,
+  History,
   LayoutTemplate,
   MoreHorizontal,
   Trash2,
@@ -25,7 +26,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
-import { Badge } from "@/components/ui/badge"
+import { Badge, type BadgeProps } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import {
   DropdownMenu,
@@ -51,7 +52,10 @@ import {
   TableRow,
 } from "@/components/ui/table"
 import { MockupDialog } from "@/components/creative/mockups/MockupDialog"
-import type { CreativeAsset } from "@/lib/creative/types"
+import { REVIEW_BADGE_VARIANT } from "@/components/creative/CreativeAssetHistoryPanel"
+import { CREATIVE_REVIEW_LABELS, lineageIdOf, reviewStatusOf, versionOf } from "@/lib/creative/review"
+import { CREATIVE_SPEC_LABELS, summariseSpecReport } from "@/lib/creative/specCompliance"
+import type { CreativeAsset, CreativeSpecResult } from "@/lib/creative/types"
 import { formatDimensions, formatFileSize } from "@/lib/creative/metadata"
 import type { LineItemOption } from "@/lib/creative/lineItemOptions"
 import { cn } from "@/lib/utils"
@@ -66,6 +70,9 @@ type CreativeAssetTableProps = {
   metaPageId?: string
   allowDelete?: boolean
   allowMockup?: boolean
+  /** Versions per lineage id; rows show the latest version only. */
+  versionCounts?: Record<string, number>
+  onOpenHistory?: (asset: CreativeAsset) => void
   onRename: (id: number, assetName: string) => Promise<void>
   onLineItemChange: (
     id: number,
@@ -75,6 +82,13 @@ type CreativeAssetTableProps = {
   onDelete: (id: number) => Promise<void>
 }
 
+const SPEC_BADGE_VARIANT: Record<CreativeSpecResult, BadgeProps["variant"]> = {
+  pass: "success",
+  warn: "warning",
+  fail: "critical",
+  unchecked: "secondary",
+}
+
 function assetTypeIcon(mime: string) {
   if (mime.startsWith("image/")) return FileImage
   if (mime.startsWith("video/")) return FileVideo
@@ -171,6 +185,8 @@ export function CreativeAssetTable({
   metaPageId,
   allowDelete = true,
   allowMockup = true,
+  versionCounts,
+  onOpenHistory,
   onRename,
   onLineItemChange,
   onStatusToggle,
@@ -209,10 +225,13 @@ export function CreativeAssetTable({
             <TableRow>
               <TableHead className="w-10" />
               <TableHead>Asset name</TableHead>
+              <TableHead>Version</TableHead>
               <TableHead>Original file</TableHead>
               <TableHead>Size</TableHead>
               <TableHead>Dimensions</TableHead>
               <TableHead>Line item</TableHead>
+              <TableHead>Spec</TableHead>
+              <TableHead>Review</TableHead>
               <TableHead>Status</TableHead>
               <TableHead>Uploaded by</TableHead>
               <TableHead>Created</TableHead>
@@ -222,6 +241,8 @@ export function CreativeAssetTable({
           <TableBody>
             {assets.map((asset) => {
               const Icon = assetTypeIcon(asset.mime_type)
+              const reviewStatus = reviewStatusOf(asset)
+              const versionCount = versionCounts?.[lineageIdOf(asset)] ?? 1
               const selectValue =
                 asset.line_item_id && asset.source_table
                   ? `${asset.source_table}:${asset.line_item_id}`
@@ -238,6 +259,22 @@ export function CreativeAssetTable({
                       onSave={(name) => onRename(asset.id, name)}
                     />
                   </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {onOpenHistory ? (
+                      <button
+                        type="button"
+                        className="interactive-tint rounded-input px-1 py-0.5 text-left"
+                        onClick={() => onOpenHistory(asset)}
+                      >
+                        <span className="num font-medium">v{versionOf(asset)}</span>
+                        {versionCount > 1 ? (
+                          <span className="ml-1 text-xs text-muted-foreground">of {versionCount}</span>
+                        ) : null}
+                      </button>
+                    ) : (
+                      <span className="num font-medium">v{versionOf(asset)}</span>
+                    )}
+                  </TableCell>
                   <TableCell className="max-w-[180px] truncate text-muted-foreground">
                     {asset.original_filename}
                   </TableCell>
@@ -279,6 +316,28 @@ export function CreativeAssetTable({
                       </SelectContent>
                     </Select>
                   </TableCell>
+                  <TableCell>
+                    {asset.spec_result ? (
+                      <Badge
+                        variant={SPEC_BADGE_VARIANT[asset.spec_result]}
+                        size="sm"
+                        title={summariseSpecReport(asset.spec_report)}
+                      >
+                        {CREATIVE_SPEC_LABELS[asset.spec_result]}
+                      </Badge>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={REVIEW_BADGE_VARIANT[reviewStatus]}
+                      size="sm"
+                      title={reviewStatus === "rejected" ? asset.rejection_reason : undefined}
+                    >
+                      {CREATIVE_REVIEW_LABELS[reviewStatus]}
+                    </Badge>
+                  </TableCell>
                   <TableCell>
                     <Badge
                       variant={asset.status === "active" ? "success" : "secondary"}
@@ -308,6 +367,12 @@ export function CreativeAssetTable({
                             Download
                           </a>
                         </DropdownMenuItem>
+                        {onOpenHistory ? (
+                          <DropdownMenuItem onClick={() => onOpenHistory(asset)}>
+                            <History className="mr-2 h-4 w-4" />
+                            History &amp; review
+                          </DropdownMenuItem>
+                        ) : null}
                         {allowMockup ? (
                           <DropdownMenuItem onClick={() => setMockupTarget(asset)}>
                             <LayoutTemplate className="mr-2 h-4 w-4" />
@@ -32,6 +32,8 @@ type CreativeUploadZoneProps = {
   mbaNumber: string
   mediaPlanMasterId: number
   lineItemLink: Pick<LineItemOption, "line_item_id" | "source_table"> | null
+  /** Upload as the next version of this lineage (single file, keeps the asset name). */
+  versionOf?: Pick<CreativeAsset, "asset_name"> & { lineage_id: string }
   disabled?: boolean
   onAssetRegistered: (asset: CreativeAsset) => void
   onError: (message: string) => void
@@ -46,6 +48,7 @@ export function CreativeUploadZone({
   mbaNumber,
   mediaPlanMasterId,
   lineItemLink,
+  versionOf,
   disabled,
   onAssetRegistered,
   onError,
@@ -69,7 +72,7 @@ export function CreativeUploadZone({
         media_plan_master_id: mediaPlanMasterId,
         line_item_id: lineItemLink?.line_item_id ?? "",
         source_table: lineItemLink?.source_table ?? "",
-        asset_name: file.name,
+        asset_name: versionOf?.asset_name ?? file.name,
         original_filename: file.name,
         mime_type: blob.contentType || file.type || "application/octet-stream",
         file_size_bytes: file.size,
@@ -79,6 +82,7 @@ export function CreativeUploadZone({
         blob_url: blob.url,
         blob_pathname: blob.pathname,
         status: "active" as const,
+        ...(versionOf ? { lineage_id: versionOf.lineage_id } : {}),
       }
 
       const response = await fetch("/api/creative-assets", {
@@ -118,7 +122,7 @@ export function CreativeUploadZone({
 
       return row
     },
-    [lineItemLink, mbaNumber, mediaPlanMasterId],
+    [lineItemLink, mbaNumber, mediaPlanMasterId, versionOf],
   )
 
   const processFile = useCallback(
@@ -141,6 +145,7 @@ export function CreativeUploadZone({
           file_size_bytes: file.size,
           line_item_id: lineItemLink?.line_item_id ?? "",
           source_table: lineItemLink?.source_table ?? "",
+          ...(versionOf ? { lineage_id: versionOf.lineage_id } : {}),
         })
 
         const blob = await upload(pathname, file, {
@@ -170,12 +175,12 @@ export function CreativeUploadZone({
         onError(message)
       }
     },
-    [lineItemLink, mbaNumber, mediaPlanMasterId, onAssetRegistered, onError, registerAsset, updateQueueItem],
+    [lineItemLink, mbaNumber, mediaPlanMasterId, onAssetRegistered, onError, registerAsset, updateQueueItem, versionOf],
   )
 
   const enqueueFiles = useCallback(
     (files: FileList | File[]) => {
-      const list = Array.from(files)
+      const list = Array.from(files).slice(0, versionOf ? 1 : undefined)
       if (list.length === 0) return
 
       const newItems: UploadQueueItem[] = list.map((file) => ({
@@ -192,7 +197,7 @@ export function CreativeUploadZone({
         void processFile(item.file, item.id)
       })
     },
-    [processFile],
+    [processFile, versionOf],
   )
 
   const handleDrop = useCallback(
@@ -230,14 +235,16 @@ export function CreativeUploadZone({
         )}
       >
         <Upload className="mb-3 h-8 w-8 text-muted-foreground" aria-hidden />
-        <p className="text-sm font-medium text-foreground">Drop files here or click to browse</p>
+        <p className="text-sm font-medium text-foreground">
+          {versionOf ? "Drop the new version here or click to browse" : "Drop files here or click to browse"}
+        </p>
         <p className="mt-1 text-xs text-muted-foreground">
           Images, video, audio, PDF, or ZIP — up to 500 MB each
         </p>
         <input
           ref={inputRef}
           type="file"
-          multiple
+          multiple={!versionOf}
           accept={acceptAttribute()}
           className="sr-only"
           disabled={disabled}
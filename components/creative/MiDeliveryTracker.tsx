@@ -0,0 +1,161 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Loader2 } from "lucide-react"
+
+import { Badge, type BadgeProps } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  buildMiTracker,
+  MI_DELIVERY_LABELS,
+  MI_DELIVERY_STATUSES,
+  type MiDeliveryStatus,
+} from "@/lib/creative/materialTracker"
+import type { CreativeAsset, MiDeliverable } from "@/lib/creative/types"
+import { formatBurstDateLocal } from "@/lib/mediaplan/burstDate"
+
+const DELIVERY_BADGE_VARIANT: Record<MiDeliveryStatus, BadgeProps["variant"]> = {
+  overdue: "critical",
+  at_risk: "warning",
+  pending: "info",
+  no_deadline: "secondary",
+  delivered: "success",
+}
+
+type MiDeliveryTrackerProps = {
+  mbaNumber: string
+  /** The campaign's creative assets — delivery status follows uploads live. */
+  assets: CreativeAsset[]
+}
+
+function deadlineDetail(days: number | null): string {
+  if (days == null) return ""
+  if (days < 0) return `${-days}d late`
+  if (days === 0) return "today"
+  return `in ${days}d`
+}
+
+export function MiDeliveryTracker({ mbaNumber, assets }: MiDeliveryTrackerProps) {
+  const [deliverables, setDeliverables] = useState<MiDeliverable[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    void (async () => {
+      try {
+        const response = await fetch(
+          `/api/mediaplans/mba/${encodeURIComponent(mbaNumber)}/material-tracker`,
+        )
+        const data = (await response.json().catch(() => null)) as
+          | { deliverables?: MiDeliverable[]; error?: string }
+          | null
+        if (!response.ok) throw new Error(data?.error || "Failed to load material tracker")
+        if (!cancelled) setDeliverables(data?.deliverables ?? [])
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load material tracker")
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [mbaNumber])
+
+  const tracker = useMemo(
+    () => buildMiTracker(deliverables ?? [], assets, formatBurstDateLocal(new Date())),
+    [assets, deliverables],
+  )
+
+  return (
+    <Card className="shadow-e1">
+      <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <CardTitle className="text-base">Material delivery</CardTitle>
+        {deliverables && deliverables.length > 0 ? (
+          <div className="flex flex-wrap gap-1.5">
+            {MI_DELIVERY_STATUSES.filter((status) => tracker.counts[status] > 0).map((status) => (
+              <Badge key={status} variant={DELIVERY_BADGE_VARIANT[status]} size="sm">
+                {tracker.counts[status]} {MI_DELIVERY_LABELS[status].toLowerCase()}
+              </Badge>
+            ))}
+          </div>
+        ) : null}
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-sm text-status-critical-fg">{error}</p>
+        ) : !deliverables ? (
+          <div className="flex items-center py-6 text-sm text-muted-foreground">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden />
+            Loading material tracker…
+          </div>
+        ) : tracker.rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No material instructions exported yet. Exporting the MI workbook starts tracking each row.
+          </p>
+        ) : (
+          <div className="overflow-hidden rounded-card border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Line item</TableHead>
+                  <TableHead>Publisher · format</TableHead>
+                  <TableHead>Live date</TableHead>
+                  <TableHead>Supply deadline</TableHead>
+                  <TableHead>Assets</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tracker.rows.map((row) => {
+                  const d = row.deliverable
+                  return (
+                    <TableRow key={d.id}>
+                      <TableCell className="max-w-[240px] truncate font-medium">
+                        {d.line_item_label || d.line_item_id}
+                      </TableCell>
+                      <TableCell className="max-w-[240px] truncate text-muted-foreground">
+                        {[d.publisher_name, d.format_name, d.variant].filter(Boolean).join(" · ") || "—"}
+                      </TableCell>
+                      <TableCell className="num whitespace-nowrap text-muted-foreground">
+                        {d.live_date || "—"}
+                      </TableCell>
+                      <TableCell
+                        className="num whitespace-nowrap"
+                        title={[d.lead_time, d.supply_deadline_rule].filter(Boolean).join(" — ")}
+                      >
+                        {d.supply_deadline || "—"}
+                        {row.status !== "delivered" && row.days_to_deadline != null ? (
+                          <span className="ml-1 text-xs text-muted-foreground">
+                            {deadlineDetail(row.days_to_deadline)}
+                          </span>
+                        ) : null}
+                      </TableCell>
+                      <TableCell className="num">{row.asset_ids.length}</TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={DELIVERY_BADGE_VARIANT[row.status]}
+                          size="sm"
+                          title={row.spec_failed ? "Uploaded creative fails the publisher spec" : undefined}
+                        >
+                          {MI_DELIVERY_LABELS[row.status]}
+                          {row.spec_failed ? " · spec fail" : ""}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
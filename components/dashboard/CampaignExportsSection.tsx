@@ -1,6 +1,7 @@
 "use client"
 
 import type { ReactNode } from "react"
+import { CampaignReportsMenu } from "@/components/dashboard/CampaignReportsMenu"
 import { Badge } from "@/components/ui/badge"
 import { cn } from "@/lib/utils"
 
@@ -13,6 +14,8 @@ export type CampaignExportsSectionProps = {
   lineItemCount?: number
   isBusy: boolean
   ariaStatus: string
+  /** Campaign client; when set, scheduled performance reports are offered after the downloads */
+  reportsClientName?: string
   className?: string
   children: ReactNode
 }
@@ -27,6 +30,7 @@ export function CampaignExportsSection({
   lineItemCount,
   isBusy,
   ariaStatus,
+  reportsClientName,
   className,
   children,
 }: CampaignExportsSectionProps) {
@@ -35,6 +39,14 @@ export function CampaignExportsSection({
   const showMinimal = variant === "minimal"
   const showEmbedded = variant === "embedded"
   const pillChrome = showFloating || showEmbedded
+  const actions = (
+    <>
+      {children}
+      {reportsClientName !== undefined ? (
+        <CampaignReportsMenu mbaNumber={mbaNumber} clientName={reportsClientName} disabled={isBusy} />
+      ) : null}
+    </>
+  )
 
   return (
     <section
@@ -69,7 +81,7 @@ export function CampaignExportsSection({
               </Badge>
             ) : null}
           </div>
-          <div className="inline-flex shrink-0 flex-nowrap items-center gap-2">{children}</div>
+          <div className="inline-flex shrink-0 flex-nowrap items-center gap-2">{actions}</div>
         </>
       ) : (
         <>
@@ -89,7 +101,7 @@ export function CampaignExportsSection({
               ) : null}
             </div>
           </div>
-          <div className="flex flex-wrap items-center gap-2">{children}</div>
+          <div className="flex flex-wrap items-center gap-2">{actions}</div>
         </>
       )}
     </section>
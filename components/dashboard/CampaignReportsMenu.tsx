@@ -0,0 +1,201 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { FileChartColumn, Loader2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { toast } from "@/components/ui/use-toast"
+import {
+  REPORT_CADENCE_LABELS,
+  REPORT_CADENCES,
+  type PerformanceReportSchedule,
+  type ReportCadence,
+  type StoredPerformanceReport,
+} from "@/lib/reports/scheduledReports"
+import { cn } from "@/lib/utils"
+
+type ReportsResponse = {
+  reports?: StoredPerformanceReport[]
+  schedule?: PerformanceReportSchedule | null
+  canSchedule?: boolean
+  templates?: Array<{ id: string; label: string }>
+  error?: string
+}
+
+type CampaignReportsMenuProps = {
+  mbaNumber: string
+  clientName: string
+  disabled?: boolean
+  className?: string
+}
+
+const SCHEDULE_OFF = "off"
+
+/** Scheduled performance reports for a campaign, plus the schedule picker for staff. */
+export function CampaignReportsMenu({ mbaNumber, clientName, disabled, className }: CampaignReportsMenuProps) {
+  const [data, setData] = useState<ReportsResponse | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const reportsUrl = `/api/mediaplans/mba/${encodeURIComponent(mbaNumber)}/reports`
+
+  useEffect(() => {
+    let cancelled = false
+    void (async () => {
+      try {
+        const response = await fetch(`${reportsUrl}?client=${encodeURIComponent(clientName)}`)
+        const body = (await response.json().catch(() => null)) as ReportsResponse | null
+        if (!response.ok) throw new Error(body?.error || "Failed to load reports")
+        if (!cancelled) setData(body ?? {})
+      } catch (error) {
+        console.error("Error loading performance reports:", error)
+        if (!cancelled) setData({ reports: [], schedule: null, canSchedule: false })
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [reportsUrl, clientName])
+
+  const reports = data?.reports ?? []
+  const schedule = data?.schedule ?? null
+  const scheduleValue = schedule?.enabled ? schedule.cadence : SCHEDULE_OFF
+  const templates = data?.templates ?? []
+  const templateValue = schedule?.template_id || templates[0]?.id || ""
+
+  // Clients only see the menu once a report exists; staff always can schedule.
+  if (data && !data.canSchedule && reports.length === 0) return null
+
+  const saveSchedule = async (
+    input: { cadence: ReportCadence; enabled: boolean; template_id: string },
+    successDescription: string,
+  ) => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(reportsUrl, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ client_name: clientName, ...input }),
+      })
+      const body = (await response.json().catch(() => null)) as
+        | (PerformanceReportSchedule & { error?: string })
+        | null
+      if (!response.ok || !body) throw new Error(body?.error || "Failed to save report schedule")
+      setData((current) => ({ ...current, schedule: body }))
+      toast({ title: "Report schedule saved", description: successDescription })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save report schedule",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleScheduleChange = async (value: string) => {
+    if (value === scheduleValue) return
+    if (value === SCHEDULE_OFF && !schedule) return
+    const cadence: ReportCadence = value === SCHEDULE_OFF ? schedule!.cadence : (value as ReportCadence)
+    await saveSchedule(
+      { cadence, enabled: value !== SCHEDULE_OFF, template_id: schedule?.template_id ?? "" },
+      value === SCHEDULE_OFF
+        ? "Scheduled reports are off for this campaign."
+        : `${REPORT_CADENCE_LABELS[cadence]} performance reports will be generated automatically.`,
+    )
+  }
+
+  const handleTemplateChange = async (value: string) => {
+    if (!schedule || value === templateValue) return
+    const label = templates.find((template) => template.id === value)?.label ?? value
+    await saveSchedule(
+      { cadence: schedule.cadence, enabled: schedule.enabled, template_id: value },
+      `Scheduled reports will use "${label}".`,
+    )
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          disabled={disabled || !data}
+          className={cn("h-9 rounded-pill px-4 py-2 focus-visible:ring-2 focus-visible:ring-ring", className)}
+        >
+          {!data || isSaving ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <FileChartColumn className="h-4 w-4" />
+          )}
+          <span className="ml-2">Reports</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        <DropdownMenuLabel>Performance reports</DropdownMenuLabel>
+        {reports.length === 0 ? (
+          <DropdownMenuItem disabled>No reports generated yet</DropdownMenuItem>
+        ) : (
+          reports.slice(0, 12).map((report) => (
+            <DropdownMenuItem key={report.id} asChild>
+              <a href={`/api/reports/download?path=${encodeURIComponent(report.pathname)}`} download>
+                <span className="flex flex-col">
+                  <span className="capitalize">{report.period_label}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {REPORT_CADENCE_LABELS[report.cadence]} report
+                  </span>
+                </span>
+              </a>
+            </DropdownMenuItem>
+          ))
+        )}
+        {data?.canSchedule ? (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Schedule</DropdownMenuLabel>
+            <DropdownMenuRadioGroup value={scheduleValue} onValueChange={(value) => void handleScheduleChange(value)}>
+              <DropdownMenuRadioItem value={SCHEDULE_OFF} disabled={isSaving}>
+                Off
+              </DropdownMenuRadioItem>
+              {REPORT_CADENCES.map((cadence) => (
+                <DropdownMenuRadioItem key={cadence} value={cadence} disabled={isSaving}>
+                  {REPORT_CADENCE_LABELS[cadence]}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+            {schedule && templates.length > 1 ? (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Template</DropdownMenuLabel>
+                <DropdownMenuRadioGroup
+                  value={templateValue}
+                  onValueChange={(value) => void handleTemplateChange(value)}
+                >
+                  {templates.map((template) => (
+                    <DropdownMenuRadioItem key={template.id} value={template.id} disabled={isSaving}>
+                      {template.label}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+              </>
+            ) : null}
+            {schedule?.last_error ? (
+              <p className="px-2 pb-1.5 text-xs text-status-critical-fg" title={schedule.last_error}>
+                Last run failed — retrying on the next daily run.
+              </p>
+            ) : null}
+          </>
+        ) : null}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,357 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { format } from "date-fns"
+import { Check, Loader2, Send, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/components/ui/use-toast"
+import { useAuthContext } from "@/contexts/AuthContext"
+import {
+  getMbaApprovalState,
+  respondToMbaApproval,
+  sendMbaForClientApproval,
+  type MbaApprovalState,
+} from "@/lib/api/mbaApprovalRequests"
+import { formatAUD } from "@/lib/format/money"
+import {
+  approvalMediaTypeLabel,
+  buildApprovalLines,
+  summariseApprovalDecisions,
+  validateApprovalDecisions,
+  type ApprovalDecision,
+  type ApprovalDecisionInput,
+} from "@/lib/mediaplan/clientApproval"
+import { cn } from "@/lib/utils"
+
+type MediaPlanApprovalSectionProps = {
+  mbaNumber: string
+  clientSlug: string
+  campaignName: string
+  version: number
+  lineItemsMap: Record<string, any[]>
+}
+
+type Draft = Record<string, { decision: ApprovalDecision; comment: string }>
+
+const draftKey = (mediaType: string, lineItemId: string) => `${mediaType}::${lineItemId}`
+
+function formatTimestamp(value: number | null | undefined): string {
+  return value ? format(new Date(value), "d MMM yyyy, h:mm a") : "—"
+}
+
+/**
+ * Client sign-off for the version on screen. Staff send the version and read
+ * the audit trail; client users approve / reject each line with comments.
+ */
+export function MediaPlanApprovalSection({
+  mbaNumber,
+  clientSlug,
+  campaignName,
+  version,
+  lineItemsMap,
+}: MediaPlanApprovalSectionProps) {
+  const { isClient, userRoles } = useAuthContext()
+  const canSend = userRoles.includes("admin") || userRoles.includes("manager")
+  const { toast } = useToast()
+  const [state, setState] = useState<MbaApprovalState | null>(null)
+  const [draft, setDraft] = useState<Draft>({})
+  const [sendOpen, setSendOpen] = useState(false)
+  const [message, setMessage] = useState("")
+  const [busy, setBusy] = useState(false)
+
+  const lines = useMemo(() => buildApprovalLines(lineItemsMap), [lineItemsMap])
+
+  const load = useCallback(async () => {
+    try {
+      setState(await getMbaApprovalState(mbaNumber, version))
+    } catch (err) {
+      console.error("[MediaPlanApprovalSection] failed to load approval state", err)
+      setState({ request: null, decisions: [] })
+    }
+  }, [mbaNumber, version])
+
+  useEffect(() => {
+    setState(null)
+    void load()
+  }, [load])
+
+  const request = state?.request ?? null
+  const awaitingClient = request?.status === "sent"
+
+  useEffect(() => {
+    if (!request || request.status !== "sent") return
+    setDraft(
+      Object.fromEntries(
+        request.lines.map((l) => [draftKey(l.media_type, l.line_item_id), { decision: "approved", comment: "" }])
+      )
+    )
+  }, [request])
+
+  const decisions: ApprovalDecisionInput[] = useMemo(
+    () =>
+      (request?.lines ?? []).map((l) => {
+        const entry = draft[draftKey(l.media_type, l.line_item_id)]
+        return {
+          media_type: l.media_type,
+          line_item_id: l.line_item_id,
+          decision: entry?.decision ?? "approved",
+          comment: entry?.comment.trim() ?? "",
+        }
+      }),
+    [draft, request]
+  )
+  const draftError = request ? validateApprovalDecisions(request.lines, decisions) : null
+
+  const setLine = (key: string, patch: Partial<Draft[string]>) =>
+    setDraft((prev) => ({
+      ...prev,
+      [key]: { ...(prev[key] ?? { decision: "approved", comment: "" }), ...patch },
+    }))
+
+  async function handleSend() {
+    setBusy(true)
+    try {
+      const result = await sendMbaForClientApproval({
+        mba_number: mbaNumber,
+        media_plan_version: version,
+        client_slug: clientSlug,
+        campaign_name: campaignName,
+        message,
+        lines,
+      })
+      toast({
+        title: `Version ${version} sent for approval`,
+        description: result.emailError
+          ? `Client was not emailed: ${result.emailError}`
+          : `Emailed ${result.notified.join(", ")}`,
+        variant: result.emailError ? "destructive" : undefined,
+      })
+      setSendOpen(false)
+      setMessage("")
+      await load()
+    } catch (err) {
+      toast({
+        title: "Could not send for approval",
+        description: err instanceof Error ? err.message : String(err),
+        variant: "destructive",
+      })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleSubmit() {
+    if (!request || draftError) return
+    setBusy(true)
+    try {
+      await respondToMbaApproval(request.id, decisions)
+      const { approved, rejected } = summariseApprovalDecisions(decisions)
+      toast({
+        title: "Response submitted",
+        description: `${approved} approved, ${rejected} rejected. Your account team has been notified.`,
+      })
+      await load()
+    } catch (err) {
+      toast({
+        title: "Could not submit response",
+        description: err instanceof Error ? err.message : String(err),
+        variant: "destructive",
+      })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (state == null) return null
+  if (isClient && !request) return null
+  if (!isClient && !canSend) return null
+
+  const labels = new Map((request?.lines ?? []).map((l) => [draftKey(l.media_type, l.line_item_id), l]))
+  const counts = summariseApprovalDecisions(state.decisions)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-base font-medium">Client approval</h2>
+          <p className="mt-0.5 text-sm text-muted-foreground">
+            {!request
+              ? `Version ${version} has not been sent to the client.`
+              : awaitingClient
+                ? `Version ${version} sent by ${request.sent_by_email} on ${formatTimestamp(request.created_at)}.`
+                : `Responded by ${request.responded_by_email ?? "client"} on ${formatTimestamp(request.responded_at)}.`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {request ? (
+            awaitingClient ? (
+              <Badge variant="attention">Awaiting client</Badge>
+            ) : (
+              <Badge variant={counts.rejected > 0 ? "warning" : "good"}>
+                {counts.approved} approved · {counts.rejected} rejected
+              </Badge>
+            )
+          ) : null}
+          {canSend ? (
+            <Button size="sm" variant="outline" onClick={() => setSendOpen(true)} disabled={lines.length === 0}>
+              <Send className="mr-1.5 h-4 w-4" />
+              {request ? "Resend" : "Send for client approval"}
+            </Button>
+          ) : null}
+        </div>
+      </div>
+
+      {request?.message && awaitingClient ? (
+        <p className="whitespace-pre-wrap rounded-card border border-border bg-muted/40 px-4 py-3 text-sm">
+          {request.message}
+        </p>
+      ) : null}
+
+      {isClient && awaitingClient ? (
+        <div className="overflow-hidden rounded-card border border-border bg-card shadow-e1">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Line item</TableHead>
+                <TableHead>Media type</TableHead>
+                <TableHead className="text-right">Budget</TableHead>
+                <TableHead className="w-[180px]">Decision</TableHead>
+                <TableHead>Comment</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {request.lines.map((l) => {
+                const key = draftKey(l.media_type, l.line_item_id)
+                const entry = draft[key] ?? { decision: "approved" as const, comment: "" }
+                return (
+                  <TableRow key={key}>
+                    <TableCell className="font-medium">{l.label}</TableCell>
+                    <TableCell>{approvalMediaTypeLabel(l.media_type)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatAUD(l.budget)}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button
+                          size="sm"
+                          variant={entry.decision === "approved" ? "default" : "outline"}
+                          onClick={() => setLine(key, { decision: "approved" })}
+                          aria-pressed={entry.decision === "approved"}
+                        >
+                          <Check className="mr-1 h-3.5 w-3.5" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant={entry.decision === "rejected" ? "destructive" : "outline"}
+                          onClick={() => setLine(key, { decision: "rejected" })}
+                          aria-pressed={entry.decision === "rejected"}
+                        >
+                          <X className="mr-1 h-3.5 w-3.5" />
+                          Reject
+                        </Button>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={entry.comment}
+                        onChange={(e) => setLine(key, { comment: e.target.value })}
+                        placeholder={entry.decision === "rejected" ? "Required — what should change?" : "Optional"}
+                        className={cn(
+                          entry.decision === "rejected" && !entry.comment.trim() && "border-destructive"
+                        )}
+                        maxLength={1000}
+                      />
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+          <div className="flex items-center justify-between gap-3 border-t border-border px-4 py-3">
+            <p className="text-sm text-muted-foreground">{draftError ?? "Ready to submit."}</p>
+            <Button onClick={handleSubmit} disabled={busy || Boolean(draftError)}>
+              {busy ? <Loader2 className="mr-1.5 h-4 w-4 animate-spin" /> : null}
+              Submit response
+            </Button>
+          </div>
+        </div>
+      ) : null}
+
+      {state.decisions.length > 0 ? (
+        <div className="overflow-hidden rounded-card border border-border bg-card shadow-e1">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Line item</TableHead>
+                <TableHead>Decision</TableHead>
+                <TableHead>Comment</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead>When</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {state.decisions.map((d) => (
+                <TableRow key={d.id}>
+                  <TableCell className="font-medium">
+                    {labels.get(draftKey(d.media_type, d.line_item_id))?.label ?? d.line_item_id}
+                    <span className="ml-1.5 text-xs text-muted-foreground">
+                      {approvalMediaTypeLabel(d.media_type)}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={d.decision === "approved" ? "good" : "warning"} size="sm">
+                      {d.decision === "approved" ? "Approved" : "Rejected"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="whitespace-pre-wrap">{d.comment || "—"}</TableCell>
+                  <TableCell>{d.actor_email}</TableCell>
+                  <TableCell className="whitespace-nowrap">{formatTimestamp(d.created_at)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : null}
+
+      <Dialog open={sendOpen} onOpenChange={setSendOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Send version {version} for client approval</DialogTitle>
+            <DialogDescription>
+              {lines.length} line items, {formatAUD(lines.reduce((t, l) => t + l.budget, 0))} planned. Client users
+              on this account are emailed a link to this page.
+              {awaitingClient ? " The open request will be withdrawn." : ""}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="Optional note to the client"
+            maxLength={2000}
+            rows={4}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSendOpen(false)} disabled={busy}>
+              Cancel
+            </Button>
+            <Button onClick={handleSend} disabled={busy}>
+              {busy ? <Loader2 className="mr-1.5 h-4 w-4 animate-spin" /> : <Send className="mr-1.5 h-4 w-4" />}
+              Send
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
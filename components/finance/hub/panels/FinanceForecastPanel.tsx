@@ -60,6 +60,7 @@ import { LoadingDots } from "@/components/ui/loading-dots"
 import { EmptyState, ErrorState, LoadingState } from "@/components/ui/states"
 import { TargetGrid } from "@/components/finance/hub/panels/forecast/TargetGrid"
 import { VarianceTargetVsActualView } from "@/components/finance/hub/panels/forecast/VarianceTargetVsActualView"
+import { WhatIfScenarioView } from "@/components/finance/hub/panels/forecast/WhatIfScenarioView"
 import {
   forecastLoadResultDisposition,
   shouldAutoReloadForecast,
@@ -190,7 +191,7 @@ const SCENARIO_COPY: Record<
   },
 }
 
-export type ForecastPanelMode = "booked" | "target" | "variance"
+export type ForecastPanelMode = "booked" | "target" | "variance" | "whatif"
 
 const FORECAST_MODE_COPY: Record<ForecastPanelMode, { title: string; hint: string }> = {
   booked: {
@@ -205,10 +206,14 @@ const FORECAST_MODE_COPY: Record<ForecastPanelMode, { title: string; hint: strin
     title: "Variance",
     hint: "Target vs billed actual (client × month) — load below",
   },
+  whatif: {
+    title: "What-if",
+    hint: "Hypothetical adjustments layered on the booked forecast",
+  },
 }
 
 function parseForecastPanelMode(raw: string | null | undefined): ForecastPanelMode {
-  if (raw === "target" || raw === "variance") return raw
+  if (raw === "target" || raw === "variance" || raw === "whatif") return raw
   return "booked"
 }
 
@@ -231,7 +236,8 @@ export default function FinanceForecastPanel() {
   const fyStart = useFinanceStore((s) => s.filters.financialYear)
   const setFilters = useFinanceStore((s) => s.setFilters)
   const [panelMode, setPanelMode] = useState<ForecastPanelMode>(() => readFmodeFromLocation())
-  const [scenario, setScenario] = useState<FinanceForecastScenario>("confirmed")
+  const scenario = useFinanceStore((s) => s.forecastScenario)
+  const setScenario = useFinanceStore((s) => s.setForecastScenario)
   const [clientFilter, setClientFilter] = useState<string>("")
   const [searchInput, setSearchInput] = useState("")
   const [includeDebug, setIncludeDebug] = useState(false)
@@ -712,6 +718,26 @@ export default function FinanceForecastPanel() {
         </>
       ) : null}
 
+      {panelMode === "whatif" ? (
+        <>
+          <Alert className="rounded-card border-pacing-behind-bg bg-pacing-behind-bg text-status-behind-fg">
+            <Info className="h-4 w-4 text-status-behind-fg" aria-hidden />
+            <AlertTitle className="text-sm font-semibold text-foreground">Hypothetical only</AlertTitle>
+            <AlertDescription className="text-sm text-muted-foreground">
+              What-if scenarios recompute the FY {fyLabel(fyStart)} grid in the browser from the booked
+              forecast loaded under Booked ({SCENARIO_COPY[scenario].title}). Nothing is written to media plans.
+            </AlertDescription>
+          </Alert>
+
+          <WhatIfScenarioView
+            fyStart={fyStart}
+            dataset={payload?.dataset.meta.financial_year_start_year === fyStart ? payload.dataset : null}
+            loading={loading}
+            onLoadBaseline={() => void loadForecast()}
+          />
+        </>
+      ) : null}
+
       {panelMode === "booked" ? (
         <>
       <Alert className="rounded-card border-pacing-behind-bg bg-pacing-behind-bg text-status-behind-fg">
@@ -0,0 +1,499 @@
+"use client"
+
+import { Fragment, useCallback, useEffect, useState } from "react"
+import { ChevronDown, ChevronRight, Download, Loader2, Plus, Trash2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Textarea } from "@/components/ui/textarea"
+import { EmptyState, ErrorState, LoadingState } from "@/components/ui/states"
+import { useToast } from "@/components/ui/use-toast"
+import {
+  deleteRebateAgreement,
+  fetchRebateTracker,
+  saveRebateAgreement,
+  type RebateTrackerResponse,
+} from "@/lib/finance/api"
+import type { PublisherRebateRow } from "@/lib/finance/rebates/computeRebateTracker"
+import {
+  describeRebateAgreement,
+  rebateAgreementInputSchema,
+  REBATE_TIER_BASES,
+  sortedTiers,
+  type RebateTierBasis,
+} from "@/lib/finance/rebates/rebateAgreements"
+import { exportRebateClaimWorkbook } from "@/lib/finance/rebates/rebateClaimExcel"
+import { useFinanceStore } from "@/lib/finance/useFinanceStore"
+import { formatAUD } from "@/lib/format/money"
+import type { FinanceForecastScenario } from "@/lib/types/financeForecast"
+
+const SCENARIO_LABELS: Record<FinanceForecastScenario, string> = {
+  confirmed: "Confirmed",
+  confirmed_plus_probable: "Confirmed + probable",
+}
+
+type TierDraft = { threshold: string; rate_pct: string }
+
+type AgreementDraft = {
+  row: PublisherRebateRow
+  tier_basis: RebateTierBasis
+  tiers: TierDraft[]
+  notes: string
+}
+
+function draftFor(row: PublisherRebateRow): AgreementDraft {
+  const a = row.agreement
+  return {
+    row,
+    tier_basis: a?.tier_basis ?? "marginal",
+    tiers: a
+      ? sortedTiers(a.tiers).map((t) => ({ threshold: String(t.threshold), rate_pct: String(t.rate_pct) }))
+      : [{ threshold: "", rate_pct: "" }],
+    notes: a?.notes ?? "",
+  }
+}
+
+function fileSegment(name: string): string {
+  return name.replace(/[^A-Za-z0-9]+/g, "_").replace(/^_|_$/g, "") || "Publisher"
+}
+
+export default function FinanceRebatesPanel() {
+  const { toast } = useToast()
+  const financialYear = useFinanceStore((s) => s.filters.financialYear)
+  const scenario = useFinanceStore((s) => s.rebatesScenario)
+  const setScenario = useFinanceStore((s) => s.setRebatesScenario)
+  const [data, setData] = useState<RebateTrackerResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [draft, setDraft] = useState<AgreementDraft | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const load = useCallback(
+    async (signal?: AbortSignal) => {
+      setLoading(true)
+      setError(null)
+      try {
+        setData(await fetchRebateTracker({ financialYearStartYear: financialYear, scenario, signal }))
+      } catch (e) {
+        if (signal?.aborted) return
+        setError(e instanceof Error ? e.message : "Failed to load rebate tracker")
+      } finally {
+        if (!signal?.aborted) setLoading(false)
+      }
+    },
+    [financialYear, scenario]
+  )
+
+  useEffect(() => {
+    const controller = new AbortController()
+    void load(controller.signal)
+    return () => controller.abort()
+  }, [load])
+
+  const toggle = (key: string) =>
+    setExpanded((prev) => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+
+  const exportPublisher = async (row: PublisherRebateRow) => {
+    if (!data) return
+    try {
+      await exportRebateClaimWorkbook(
+        data.tracker,
+        `Rebate_claim_${fileSegment(row.publisher_name)}_FY${financialYear}.xlsx`,
+        [row]
+      )
+    } catch (e) {
+      toast({
+        variant: "destructive",
+        title: "Export failed",
+        description: e instanceof Error ? e.message : "Unknown error",
+      })
+    }
+  }
+
+  const saveDraft = async () => {
+    if (!draft) return
+    const parsed = rebateAgreementInputSchema.safeParse({
+      publisher_id: Number(draft.row.publisher_id),
+      financial_year_start_year: financialYear,
+      tier_basis: draft.tier_basis,
+      tiers: draft.tiers.map((t) => ({ threshold: Number(t.threshold), rate_pct: Number(t.rate_pct) })),
+      notes: draft.notes,
+    })
+    if (!parsed.success) {
+      toast({
+        variant: "destructive",
+        title: "Check the agreement",
+        description: parsed.error.issues.map((issue) => issue.message).join("; "),
+      })
+      return
+    }
+    setSaving(true)
+    try {
+      await saveRebateAgreement(parsed.data, draft.row.agreement?.id)
+      setDraft(null)
+      await load()
+      toast({ title: "Agreement saved", description: draft.row.publisher_name })
+    } catch (e) {
+      toast({
+        variant: "destructive",
+        title: "Save failed",
+        description: e instanceof Error ? e.message : "Unknown error",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeAgreement = async () => {
+    const id = draft?.row.agreement?.id
+    if (id == null) return
+    setSaving(true)
+    try {
+      await deleteRebateAgreement(id)
+      setDraft(null)
+      await load()
+    } catch (e) {
+      toast({
+        variant: "destructive",
+        title: "Delete failed",
+        description: e instanceof Error ? e.message : "Unknown error",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading && !data) return <LoadingState rows={6} />
+  if (error && !data) {
+    return <ErrorState title="Could not load rebates" message={error} onRetry={() => void load()} />
+  }
+
+  const tracker = data?.tracker
+  const publishers = tracker?.publishers ?? []
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h2 className="text-sm font-medium text-foreground">Publisher commission & volume rebates</h2>
+          <p className="text-xs text-muted-foreground">
+            Billed to {tracker?.as_of_month ?? "—"}, projected to FY end with the{" "}
+            {SCENARIO_LABELS[scenario].toLowerCase()} forecast.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={scenario} onValueChange={(v) => setScenario(v as FinanceForecastScenario)}>
+            <SelectTrigger className="h-9 w-[13rem]" aria-label="Projection scenario">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SCENARIO_LABELS) as FinanceForecastScenario[]).map((s) => (
+                <SelectItem key={s} value={s}>
+                  {SCENARIO_LABELS[s]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={!tracker || publishers.length === 0}
+            onClick={() =>
+              tracker && void exportRebateClaimWorkbook(tracker, `Rebate_claims_FY${financialYear}.xlsx`)
+            }
+          >
+            <Download className="mr-1.5 h-3.5 w-3.5" />
+            Claim schedule
+          </Button>
+          {loading ? <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" /> : null}
+        </div>
+      </div>
+
+      {tracker ? (
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+          {[
+            ["Commission to date", tracker.totals.commission_to_date],
+            ["Commission FY (projected)", tracker.totals.commission_fy_projected],
+            ["Rebates accrued", tracker.totals.rebate_to_date],
+            ["Rebates FY (projected)", tracker.totals.rebate_fy_projected],
+          ].map(([label, value]) => (
+            <div key={label as string} className="rounded-card border border-border bg-card px-3 py-2">
+              <p className="text-xs text-muted-foreground">{label}</p>
+              <p className="num text-lg font-semibold tabular-nums">{formatAUD(value as number)}</p>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {publishers.length === 0 ? (
+        <EmptyState title="No publisher spend" message="No billed or forecast publisher media for this financial year." />
+      ) : (
+        <div className="overflow-x-auto rounded-card border border-border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Publisher</TableHead>
+                <TableHead className="text-right">Commission to date</TableHead>
+                <TableHead className="text-right">Media to date</TableHead>
+                <TableHead className="text-right">Media FY (proj.)</TableHead>
+                <TableHead>Agreement</TableHead>
+                <TableHead className="text-right">Rebate accrued</TableHead>
+                <TableHead className="text-right">Rebate FY (proj.)</TableHead>
+                <TableHead className="text-right">Next tier</TableHead>
+                <TableHead className="min-w-[10rem]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {publishers.map((row) => {
+                const key = row.publisher_id ?? row.publisher_name
+                const open = expanded.has(key)
+                return (
+                  <Fragment key={key}>
+                    <TableRow>
+                      <TableCell>
+                        <button
+                          type="button"
+                          className="text-muted-foreground hover:text-foreground"
+                          aria-label={open ? "Hide months" : "Show months"}
+                          onClick={() => toggle(key)}
+                        >
+                          {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </button>
+                      </TableCell>
+                      <TableCell className="max-w-[12rem] truncate text-xs font-medium">{row.publisher_name}</TableCell>
+                      <TableCell className="num text-right text-xs">{formatAUD(row.commission_to_date)}</TableCell>
+                      <TableCell className="num text-right text-xs">{formatAUD(row.media_to_date)}</TableCell>
+                      <TableCell className="num text-right text-xs">{formatAUD(row.media_fy_projected)}</TableCell>
+                      <TableCell className="max-w-[16rem] text-xs">
+                        {row.agreement ? (
+                          <div className="space-y-1">
+                            <span className="block truncate">{describeRebateAgreement(row.agreement)}</span>
+                            {row.tier_projected ? (
+                              <Badge variant="on-track" size="sm">
+                                {row.tier_projected.rate_pct}% tier projected
+                              </Badge>
+                            ) : null}
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="num text-right text-xs">{formatAUD(row.rebate_to_date)}</TableCell>
+                      <TableCell className="num text-right text-xs">{formatAUD(row.rebate_fy_projected)}</TableCell>
+                      <TableCell className="num text-right text-xs">
+                        {row.next_tier ? (
+                          <span title={`${row.next_tier.rate_pct}% tier`}>
+                            {formatAUD(row.next_tier.shortfall)} short
+                          </span>
+                        ) : (
+                          "—"
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="h-7 text-xs"
+                            disabled={row.publisher_id == null}
+                            onClick={() => setDraft(draftFor(row))}
+                          >
+                            {row.agreement ? "Edit tiers" : "Add agreement"}
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2"
+                            aria-label={`Export ${row.publisher_name} claim schedule`}
+                            onClick={() => void exportPublisher(row)}
+                          >
+                            <Download className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                    {open ? (
+                      <TableRow className="bg-muted/30 hover:bg-muted/30">
+                        <TableCell />
+                        <TableCell colSpan={9} className="py-2">
+                          <Table>
+                            <TableHeader>
+                              <TableRow>
+                                <TableHead>Month</TableHead>
+                                <TableHead>Status</TableHead>
+                                <TableHead className="text-right">Media</TableHead>
+                                <TableHead className="text-right">Commission</TableHead>
+                                <TableHead className="text-right">Cumulative media</TableHead>
+                                <TableHead className="text-right">Rebate (month)</TableHead>
+                              </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                              {row.months.map((m) => (
+                                <TableRow key={m.month}>
+                                  <TableCell className="num text-xs">{m.month}</TableCell>
+                                  <TableCell className="text-xs">
+                                    {m.status === "actual" ? "Billed" : "Projected"}
+                                  </TableCell>
+                                  <TableCell className="num text-right text-xs">{formatAUD(m.media)}</TableCell>
+                                  <TableCell className="num text-right text-xs">{formatAUD(m.commission)}</TableCell>
+                                  <TableCell className="num text-right text-xs">
+                                    {formatAUD(m.cumulative_media)}
+                                  </TableCell>
+                                  <TableCell className="num text-right text-xs">{formatAUD(m.rebate)}</TableCell>
+                                </TableRow>
+                              ))}
+                            </TableBody>
+                          </Table>
+                        </TableCell>
+                      </TableRow>
+                    ) : null}
+                  </Fragment>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={draft != null} onOpenChange={(o) => (!o && !saving ? setDraft(null) : undefined)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Rebate agreement — {draft?.row.publisher_name}</DialogTitle>
+            <DialogDescription>
+              Tiers are FY media spend thresholds. Marginal rates apply within each band; retrospective
+              rates apply the highest tier reached to all FY spend.
+            </DialogDescription>
+          </DialogHeader>
+          {draft ? (
+            <div className="space-y-4">
+              <div className="space-y-1.5">
+                <Label>Tier basis</Label>
+                <Select
+                  value={draft.tier_basis}
+                  onValueChange={(v) => setDraft({ ...draft, tier_basis: v as RebateTierBasis })}
+                >
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REBATE_TIER_BASES.map((b) => (
+                      <SelectItem key={b} value={b}>
+                        {b === "marginal" ? "Marginal" : "Retrospective"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Tiers</Label>
+                {draft.tiers.map((tier, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <Input
+                      inputMode="decimal"
+                      placeholder="Spend from ($)"
+                      value={tier.threshold}
+                      onChange={(e) =>
+                        setDraft({
+                          ...draft,
+                          tiers: draft.tiers.map((t, j) => (j === i ? { ...t, threshold: e.target.value } : t)),
+                        })
+                      }
+                    />
+                    <Input
+                      inputMode="decimal"
+                      placeholder="Rate %"
+                      className="w-28"
+                      value={tier.rate_pct}
+                      onChange={(e) =>
+                        setDraft({
+                          ...draft,
+                          tiers: draft.tiers.map((t, j) => (j === i ? { ...t, rate_pct: e.target.value } : t)),
+                        })
+                      }
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-9 px-2"
+                      aria-label="Remove tier"
+                      disabled={draft.tiers.length === 1}
+                      onClick={() => setDraft({ ...draft, tiers: draft.tiers.filter((_, j) => j !== i) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={draft.tiers.length >= 10}
+                  onClick={() => setDraft({ ...draft, tiers: [...draft.tiers, { threshold: "", rate_pct: "" }] })}
+                >
+                  <Plus className="mr-1.5 h-3.5 w-3.5" />
+                  Add tier
+                </Button>
+              </div>
+              <div className="space-y-1.5">
+                <Label>Notes</Label>
+                <Textarea
+                  rows={2}
+                  value={draft.notes}
+                  onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                />
+              </div>
+            </div>
+          ) : null}
+          <DialogFooter className="gap-2 sm:justify-between">
+            {draft?.row.agreement ? (
+              <Button type="button" variant="ghost" disabled={saving} onClick={() => void removeAgreement()}>
+                Remove agreement
+              </Button>
+            ) : (
+              <span />
+            )}
+            <Button type="button" disabled={saving} onClick={() => void saveDraft()}>
+              {saving ? <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" /> : null}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -24,6 +24,7 @@ import { EmptyState, ErrorState, LoadingState } from "@/components/ui/states"
 import { useToast } from "@/components/ui/use-toast"
 import { formatAUD } from "@/lib/format/money"
 import { getClientDisplayName } from "@/lib/clients/slug"
+import { XeroInvoiceExportSection } from "@/components/finance/hub/panels/xero/XeroInvoiceExportSection"
 
 type PendingRecord = {
   id: number
@@ -170,6 +171,8 @@ export default function FinanceXeroQueuePanel() {
 
   return (
     <div className="space-y-8">
+      <XeroInvoiceExportSection />
+
       <section className="space-y-3">
         <div className="flex flex-wrap items-end justify-between gap-2">
           <div>
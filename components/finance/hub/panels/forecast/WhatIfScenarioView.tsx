@@ -0,0 +1,786 @@
+"use client"
+
+import { Fragment, useCallback, useEffect, useMemo, useState } from "react"
+import { format } from "date-fns"
+import { Plus, Save, Trash2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { EmptyState } from "@/components/ui/states"
+import { useToast } from "@/components/ui/use-toast"
+import {
+  applyWhatIfScenario,
+  compareWhatIfDatasets,
+  deleteWhatIfScenario,
+  fetchWhatIfScenarios,
+  saveWhatIfScenario,
+  subscribeWhatIfScenarios,
+  WHAT_IF_BASELINE_SNAPSHOT_ID,
+} from "@/lib/finance/forecast/whatIf"
+import { getMediaTypeDisplayName } from "@/lib/finance/utils"
+import { formatAUD } from "@/lib/format/money"
+import { cn } from "@/lib/utils"
+import {
+  FINANCE_FORECAST_FISCAL_MONTH_ORDER,
+  FINANCE_FORECAST_GROUP_KEYS,
+  FINANCE_FORECAST_LINE_KEYS,
+  FINANCE_FORECAST_LINE_LABELS,
+  type FinanceForecastDataset,
+  type FinanceForecastGroupKey,
+  type FinanceForecastLineKey,
+  type FinanceForecastMonthKey,
+  type FinanceForecastMonthlyAmounts,
+} from "@/lib/types/financeForecast"
+import type {
+  FinanceForecastWhatIfAdjustment,
+  FinanceForecastWhatIfAdjustmentKind,
+  FinanceForecastWhatIfScenario,
+} from "@/lib/types/financeForecastWhatIf"
+
+const ALL = "__all__"
+
+const ADJUSTMENT_COPY: Record<FinanceForecastWhatIfAdjustmentKind, string> = {
+  haircut: "Haircut %",
+  delay: "Delay campaign",
+  hypothetical_campaign: "Hypothetical campaign",
+}
+
+const SELECTABLE_LINE_KEYS = (Object.values(FINANCE_FORECAST_LINE_KEYS) as FinanceForecastLineKey[]).filter(
+  (k) => k !== FINANCE_FORECAST_LINE_KEYS.totalRevenue
+)
+
+function newId(): string {
+  return typeof crypto !== "undefined" && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `wi-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+function monthLabel(key: FinanceForecastMonthKey, fyStart: number): string {
+  const idx = FINANCE_FORECAST_FISCAL_MONTH_ORDER.indexOf(key)
+  const calMonth = ((idx + 6) % 12) + 1
+  const year = calMonth >= 7 ? fyStart : fyStart + 1
+  return format(new Date(year, calMonth - 1, 1), "MMM yy")
+}
+
+function blankScenario(fyStart: number): FinanceForecastWhatIfScenario {
+  const now = new Date().toISOString()
+  return {
+    id: newId(),
+    name: "",
+    notes: null,
+    financial_year_start_year: fyStart,
+    adjustments: [],
+    created_at: now,
+    updated_at: now,
+  }
+}
+
+function blankAdjustment(
+  kind: FinanceForecastWhatIfAdjustmentKind,
+  dataset: FinanceForecastDataset
+): FinanceForecastWhatIfAdjustment {
+  const id = newId()
+  if (kind === "haircut") {
+    return { kind, id, pct: 10, client_id: null, line_key: null, media_type: null, mba_number: null }
+  }
+  if (kind === "delay") return { kind, id, mba_number: "", months: 1 }
+  const first = dataset.client_blocks[0]
+  return {
+    kind,
+    id,
+    client_id: first?.client_id ?? "",
+    client_name: first?.client_name ?? "",
+    line_key: FINANCE_FORECAST_LINE_KEYS.assembledMediaBillingForPublisher,
+    start_month: "july",
+    months: 3,
+    amount: 0,
+  }
+}
+
+/** Media types the dataset's media-derived lines can be split by, in label order. */
+function mediaTypeOptions(dataset: FinanceForecastDataset): Array<{ key: string; label: string }> {
+  const keys = new Set<string>()
+  for (const block of dataset.client_blocks) {
+    for (const group of block.groups) {
+      for (const line of group.lines) {
+        for (const key of Object.keys(line.monthly_by_media_type ?? {})) keys.add(key)
+      }
+    }
+  }
+  return [...keys]
+    .map((key) => ({ key, label: getMediaTypeDisplayName(key) }))
+    .sort((a, b) => a.label.localeCompare(b.label))
+}
+
+type PortfolioTotals = { billing: FinanceForecastMonthlyAmounts; revenue: FinanceForecastMonthlyAmounts }
+
+function portfolioTotals(dataset: FinanceForecastDataset): PortfolioTotals {
+  const billing = {} as FinanceForecastMonthlyAmounts
+  const revenue = {} as FinanceForecastMonthlyAmounts
+  for (const k of FINANCE_FORECAST_FISCAL_MONTH_ORDER) {
+    billing[k] = 0
+    revenue[k] = 0
+  }
+  for (const block of dataset.client_blocks) {
+    for (const group of block.groups) {
+      for (const line of group.lines) {
+        const target =
+          group.group_key === FINANCE_FORECAST_GROUP_KEYS.billingBasedInformation
+            ? billing
+            : line.line_key === FINANCE_FORECAST_LINE_KEYS.totalRevenue
+              ? revenue
+              : null
+        if (!target) continue
+        for (const k of FINANCE_FORECAST_FISCAL_MONTH_ORDER) target[k] += line.monthly[k] ?? 0
+      }
+    }
+  }
+  return { billing, revenue }
+}
+
+function fy(m: FinanceForecastMonthlyAmounts): number {
+  return FINANCE_FORECAST_FISCAL_MONTH_ORDER.reduce((t, k) => t + (m[k] ?? 0), 0)
+}
+
+/** Per-group FY deltas are shown side by side; billing and revenue are never added up. */
+const GROUP_SHORT_LABELS: Array<[FinanceForecastGroupKey, string]> = [
+  [FINANCE_FORECAST_GROUP_KEYS.billingBasedInformation, "Billing"],
+  [FINANCE_FORECAST_GROUP_KEYS.revenueFeesCommission, "Revenue"],
+]
+
+function deltaClass(n: number): string {
+  if (Math.abs(n) < 0.005) return "text-muted-foreground"
+  return n > 0 ? "text-status-ahead-fg" : "text-status-critical-fg"
+}
+
+export type WhatIfScenarioViewProps = {
+  fyStart: number
+  /** Live booked dataset (baseline); null until the forecast has been loaded. */
+  dataset: FinanceForecastDataset | null
+  loading: boolean
+  onLoadBaseline: () => void
+}
+
+export function WhatIfScenarioView({ fyStart, dataset, loading, onLoadBaseline }: WhatIfScenarioViewProps) {
+  const { toast } = useToast()
+  const [saved, setSaved] = useState<FinanceForecastWhatIfScenario[]>([])
+  const [storageConfigured, setStorageConfigured] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [draft, setDraft] = useState<FinanceForecastWhatIfScenario>(() => blankScenario(fyStart))
+  const [compareTo, setCompareTo] = useState<string>(WHAT_IF_BASELINE_SNAPSHOT_ID)
+
+  useEffect(() => {
+    let cancelled = false
+    const sync = () => {
+      fetchWhatIfScenarios(fyStart)
+        .then(({ scenarios, configured }) => {
+          if (cancelled) return
+          setSaved(scenarios)
+          setStorageConfigured(configured)
+        })
+        .catch((err) => {
+          if (cancelled) return
+          toast({
+            variant: "destructive",
+            title: "Could not load scenarios",
+            description: err instanceof Error ? err.message : String(err),
+          })
+        })
+    }
+    sync()
+    const unsubscribe = subscribeWhatIfScenarios(sync)
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [fyStart, toast])
+
+  const savedForFy = useMemo(
+    () => saved.filter((s) => s.financial_year_start_year === fyStart),
+    [saved, fyStart]
+  )
+
+  const clientOptions = useMemo(
+    () => (dataset?.client_blocks ?? []).map((b) => ({ id: b.client_id, name: b.client_name })),
+    [dataset]
+  )
+
+  const mediaTypes = useMemo(() => (dataset ? mediaTypeOptions(dataset) : []), [dataset])
+
+  const patchAdjustment = useCallback(
+    (id: string, patch: Partial<FinanceForecastWhatIfAdjustment>) => {
+      setDraft((prev) => ({
+        ...prev,
+        adjustments: prev.adjustments.map((a) =>
+          a.id === id ? ({ ...a, ...patch } as FinanceForecastWhatIfAdjustment) : a
+        ),
+      }))
+    },
+    []
+  )
+
+  const result = useMemo(() => (dataset ? applyWhatIfScenario(dataset, draft) : null), [dataset, draft])
+
+  const comparison = useMemo(() => {
+    if (!dataset || !result) return null
+    const other = savedForFy.find((s) => s.id === compareTo && s.id !== draft.id)
+    const baselineSide = other
+      ? { id: other.id, label: other.name, dataset: applyWhatIfScenario(dataset, other).dataset }
+      : { id: WHAT_IF_BASELINE_SNAPSHOT_ID, label: "Baseline (booked)", dataset }
+    const scenarioSide = { id: draft.id, label: draft.name.trim() || "Unsaved scenario", dataset: result.dataset }
+    return {
+      baselineSide,
+      scenarioSide,
+      report: compareWhatIfDatasets(baselineSide, scenarioSide),
+      totalsA: portfolioTotals(baselineSide.dataset),
+      totalsB: portfolioTotals(scenarioSide.dataset),
+    }
+  }, [compareTo, dataset, draft.id, draft.name, result, savedForFy])
+
+  const saveDraft = async () => {
+    if (!draft.name.trim()) {
+      toast({ variant: "destructive", title: "Name required", description: "Give the scenario a name to save it." })
+      return
+    }
+    setSaving(true)
+    try {
+      const stored = await saveWhatIfScenario({ ...draft, financial_year_start_year: fyStart })
+      setDraft(stored)
+      toast({ title: "Scenario saved", description: stored.name })
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Could not save scenario",
+        description: err instanceof Error ? err.message : String(err),
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteDraft = async () => {
+    try {
+      await deleteWhatIfScenario(draft.id)
+      setDraft(blankScenario(fyStart))
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Could not delete scenario",
+        description: err instanceof Error ? err.message : String(err),
+      })
+    }
+  }
+
+  if (!dataset) {
+    return (
+      <EmptyState
+        title="Load the booked forecast first"
+        message="What-if scenarios are layered on top of the live booked dataset for this financial year."
+        action={
+          <Button type="button" className="h-9" disabled={loading} onClick={onLoadBaseline}>
+            {loading ? "Loading…" : "Load forecast"}
+          </Button>
+        }
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="rounded-card border-border shadow-e1">
+        <CardHeader className="flex flex-row flex-wrap items-end justify-between gap-3 pb-3">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-2">
+              <Label className="text-xs font-medium text-muted-foreground">Saved scenarios</Label>
+              <Select
+                value={savedForFy.some((s) => s.id === draft.id) ? draft.id : "__new__"}
+                onValueChange={(v) => {
+                  const hit = savedForFy.find((s) => s.id === v)
+                  setDraft(hit ?? blankScenario(fyStart))
+                }}
+              >
+                <SelectTrigger className="h-9 w-[220px]">
+                  <SelectValue placeholder="New scenario" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="__new__">New scenario</SelectItem>
+                  {savedForFy.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="what-if-name" className="text-xs font-medium text-muted-foreground">
+                Name
+              </Label>
+              <Input
+                id="what-if-name"
+                value={draft.name}
+                onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Pessimistic"
+                className="h-9 w-[220px]"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-xs font-medium text-muted-foreground">Compare against</Label>
+              <Select value={compareTo} onValueChange={setCompareTo}>
+                <SelectTrigger className="h-9 w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={WHAT_IF_BASELINE_SNAPSHOT_ID}>Baseline (booked)</SelectItem>
+                  {savedForFy
+                    .filter((s) => s.id !== draft.id)
+                    .map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {s.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              type="button"
+              className="h-9"
+              disabled={saving || !storageConfigured}
+              title={storageConfigured ? undefined : "Scenario storage is not configured on this server."}
+              onClick={() => void saveDraft()}
+            >
+              <Save className="mr-2 h-4 w-4" />
+              {saving ? "Saving…" : "Save scenario"}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              className="h-9"
+              disabled={!savedForFy.some((s) => s.id === draft.id)}
+              onClick={() => void deleteDraft()}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(ADJUSTMENT_COPY) as FinanceForecastWhatIfAdjustmentKind[]).map((kind) => (
+              <Button
+                key={kind}
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() =>
+                  setDraft((prev) => ({ ...prev, adjustments: [...prev.adjustments, blankAdjustment(kind, dataset)] }))
+                }
+              >
+                <Plus className="mr-1 h-3.5 w-3.5" />
+                {ADJUSTMENT_COPY[kind]}
+              </Button>
+            ))}
+          </div>
+
+          {draft.adjustments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No adjustments yet — the scenario currently matches the baseline.
+            </p>
+          ) : null}
+
+          {draft.adjustments.map((adj) => {
+            const applied = result?.applied.find((a) => a.adjustment_id === adj.id)
+            return (
+              <div
+                key={adj.id}
+                className="flex flex-wrap items-end gap-3 rounded-card border border-border bg-surface-panel p-3"
+              >
+                <div className="w-40 text-sm font-medium">{ADJUSTMENT_COPY[adj.kind]}</div>
+
+                {adj.kind === "haircut" ? (
+                  <>
+                    <ClientSelect
+                      value={adj.client_id ?? ALL}
+                      options={clientOptions}
+                      allowAll
+                      onChange={(v) => patchAdjustment(adj.id, { client_id: v === ALL ? null : v })}
+                    />
+                    <LineKeySelect
+                      value={adj.line_key ?? ALL}
+                      allowAll
+                      onChange={(v) =>
+                        patchAdjustment(adj.id, { line_key: v === ALL ? null : (v as FinanceForecastLineKey) })
+                      }
+                    />
+                    <MediaTypeSelect
+                      value={adj.media_type ?? ALL}
+                      options={mediaTypes}
+                      onChange={(v) => patchAdjustment(adj.id, { media_type: v === ALL ? null : v })}
+                    />
+                    <FieldInput
+                      label="MBA (optional)"
+                      value={adj.mba_number ?? ""}
+                      onChange={(v) => patchAdjustment(adj.id, { mba_number: v || null })}
+                    />
+                    <FieldInput
+                      label="Haircut %"
+                      type="number"
+                      value={String(adj.pct)}
+                      onChange={(v) => patchAdjustment(adj.id, { pct: Number(v) || 0 })}
+                    />
+                  </>
+                ) : null}
+
+                {adj.kind === "delay" ? (
+                  <>
+                    <FieldInput
+                      label="MBA"
+                      value={adj.mba_number}
+                      onChange={(v) => patchAdjustment(adj.id, { mba_number: v })}
+                    />
+                    <FieldInput
+                      label="Months later"
+                      type="number"
+                      value={String(adj.months)}
+                      onChange={(v) => patchAdjustment(adj.id, { months: Math.max(0, Math.trunc(Number(v) || 0)) })}
+                    />
+                  </>
+                ) : null}
+
+                {adj.kind === "hypothetical_campaign" ? (
+                  <>
+                    <ClientSelect
+                      value={adj.client_id}
+                      options={clientOptions}
+                      onChange={(v) =>
+                        patchAdjustment(adj.id, {
+                          client_id: v,
+                          client_name: clientOptions.find((c) => c.id === v)?.name ?? v,
+                        })
+                      }
+                    />
+                    <LineKeySelect
+                      value={adj.line_key}
+                      onChange={(v) => patchAdjustment(adj.id, { line_key: v as FinanceForecastLineKey })}
+                    />
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Start month</Label>
+                      <Select
+                        value={adj.start_month}
+                        onValueChange={(v) => patchAdjustment(adj.id, { start_month: v as FinanceForecastMonthKey })}
+                      >
+                        <SelectTrigger className="h-9 w-[120px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {FINANCE_FORECAST_FISCAL_MONTH_ORDER.map((k) => (
+                            <SelectItem key={k} value={k}>
+                              {monthLabel(k, fyStart)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <FieldInput
+                      label="Months"
+                      type="number"
+                      value={String(adj.months)}
+                      onChange={(v) => patchAdjustment(adj.id, { months: Math.max(1, Math.trunc(Number(v) || 1)) })}
+                    />
+                    <FieldInput
+                      label="Total (AUD)"
+                      type="number"
+                      value={String(adj.amount)}
+                      onChange={(v) => patchAdjustment(adj.id, { amount: Number(v) || 0 })}
+                    />
+                  </>
+                ) : null}
+
+                <div className="ml-auto flex items-center gap-3 text-xs text-muted-foreground">
+                  {applied ? (
+                    <span>
+                      {applied.affected_line_count} line(s)
+                      {GROUP_SHORT_LABELS.map(([key, label]) => (
+                        <Fragment key={key}>
+                          {` · ${label} `}
+                          <span className={cn("num", deltaClass(applied.fy_delta_by_group[key]))}>
+                            {formatAUD(applied.fy_delta_by_group[key])}
+                          </span>
+                        </Fragment>
+                      ))}
+                      {GROUP_SHORT_LABELS.some(([key]) => applied.spilled_out_of_fy_by_group?.[key])
+                        ? ` · out of FY: ${GROUP_SHORT_LABELS.map(
+                            ([key, label]) => `${label.toLowerCase()} ${formatAUD(applied.spilled_out_of_fy_by_group?.[key] ?? 0)}`
+                          ).join(", ")}`
+                        : null}
+                    </span>
+                  ) : null}
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    aria-label="Remove adjustment"
+                    onClick={() =>
+                      setDraft((prev) => ({ ...prev, adjustments: prev.adjustments.filter((a) => a.id !== adj.id) }))
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )
+          })}
+        </CardContent>
+      </Card>
+
+      {comparison ? (
+        <Card className="rounded-card border-border shadow-e1">
+          <CardHeader className="space-y-1 pb-2">
+            <CardTitle className="text-base font-medium">
+              {comparison.baselineSide.label} vs {comparison.scenarioSide.label}
+            </CardTitle>
+            <p className="text-xs text-muted-foreground">
+              FY change {formatAUD(comparison.report.fy_total.absolute_change)} across all forecast rows.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="overflow-x-auto">
+              <table className="w-full min-w-[64rem] border-collapse text-sm">
+                <thead>
+                  <tr className="border-b border-border bg-surface-panel">
+                    <th className="px-3 py-2 text-left text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                      Row
+                    </th>
+                    {FINANCE_FORECAST_FISCAL_MONTH_ORDER.map((k) => (
+                      <th
+                        key={k}
+                        className="px-2 py-2 text-right text-xs font-semibold uppercase tracking-wider text-muted-foreground"
+                      >
+                        {monthLabel(k, fyStart)}
+                      </th>
+                    ))}
+                    <th className="px-2 py-2 text-right text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                      FY
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(
+                    [
+                      ["Billing", "billing"],
+                      ["Total revenue", "revenue"],
+                    ] as const
+                  ).map(([title, key]) => {
+                    const a = comparison.totalsA[key]
+                    const b = comparison.totalsB[key]
+                    return (
+                      <ComparisonRows
+                        key={key}
+                        title={title}
+                        labelA={comparison.baselineSide.label}
+                        labelB={comparison.scenarioSide.label}
+                        a={a}
+                        b={b}
+                      />
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {comparison.report.by_client.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="w-full min-w-[36rem] border-collapse text-sm">
+                  <thead>
+                    <tr className="border-b border-border bg-surface-panel">
+                      <th className="px-3 py-2 text-left text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                        Client
+                      </th>
+                      <th className="px-2 py-2 text-right text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                        {comparison.baselineSide.label}
+                      </th>
+                      <th className="px-2 py-2 text-right text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                        {comparison.scenarioSide.label}
+                      </th>
+                      <th className="px-2 py-2 text-right text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                        Delta
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparison.report.by_client.map((row) => (
+                      <tr key={row.client_id} className="border-b border-border/60">
+                        <td className="px-3 py-1.5">{row.client_name}</td>
+                        <td className="num px-2 py-1.5 text-right">{formatAUD(row.old_amount ?? 0)}</td>
+                        <td className="num px-2 py-1.5 text-right">{formatAUD(row.new_amount ?? 0)}</td>
+                        <td className={cn("num px-2 py-1.5 text-right", deltaClass(row.absolute_change))}>
+                          {formatAUD(row.absolute_change)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No client-level differences.</p>
+            )}
+          </CardContent>
+        </Card>
+      ) : null}
+    </div>
+  )
+}
+
+function ComparisonRows({
+  title,
+  labelA,
+  labelB,
+  a,
+  b,
+}: {
+  title: string
+  labelA: string
+  labelB: string
+  a: FinanceForecastMonthlyAmounts
+  b: FinanceForecastMonthlyAmounts
+}) {
+  const rows: Array<{ label: string; values: (k: FinanceForecastMonthKey) => number; total: number; delta?: boolean }> = [
+    { label: `${title} · ${labelA}`, values: (k) => a[k], total: fy(a) },
+    { label: `${title} · ${labelB}`, values: (k) => b[k], total: fy(b) },
+    { label: `${title} · Δ`, values: (k) => b[k] - a[k], total: fy(b) - fy(a), delta: true },
+  ]
+  return (
+    <>
+      {rows.map((r) => (
+        <tr key={r.label} className={cn("border-b border-border/60", r.delta && "bg-surface-panel/60 font-medium")}>
+          <td className="whitespace-nowrap px-3 py-1.5">{r.label}</td>
+          {FINANCE_FORECAST_FISCAL_MONTH_ORDER.map((k) => (
+            <td key={k} className={cn("num px-2 py-1.5 text-right", r.delta && deltaClass(r.values(k)))}>
+              {formatAUD(r.values(k))}
+            </td>
+          ))}
+          <td className={cn("num px-2 py-1.5 text-right", r.delta && deltaClass(r.total))}>{formatAUD(r.total)}</td>
+        </tr>
+      ))}
+    </>
+  )
+}
+
+function FieldInput({
+  label,
+  value,
+  onChange,
+  type = "text",
+}: {
+  label: string
+  value: string
+  onChange: (v: string) => void
+  type?: "text" | "number"
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Input type={type} value={value} onChange={(e) => onChange(e.target.value)} className="h-9 w-[140px]" />
+    </div>
+  )
+}
+
+function ClientSelect({
+  value,
+  options,
+  onChange,
+  allowAll,
+}: {
+  value: string
+  options: Array<{ id: string; name: string }>
+  onChange: (v: string) => void
+  allowAll?: boolean
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">Client</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="h-9 w-[200px]">
+          <SelectValue placeholder="Client" />
+        </SelectTrigger>
+        <SelectContent>
+          {allowAll ? <SelectItem value={ALL}>All clients</SelectItem> : null}
+          {options.map((c) => (
+            <SelectItem key={c.id} value={c.id}>
+              {c.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+function LineKeySelect({
+  value,
+  onChange,
+  allowAll,
+}: {
+  value: string
+  onChange: (v: string) => void
+  allowAll?: boolean
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">Forecast row</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="h-9 w-[240px]">
+          <SelectValue placeholder="Row" />
+        </SelectTrigger>
+        <SelectContent>
+          {allowAll ? <SelectItem value={ALL}>All rows</SelectItem> : null}
+          {SELECTABLE_LINE_KEYS.map((k) => (
+            <SelectItem key={k} value={k}>
+              {FINANCE_FORECAST_LINE_LABELS[k]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+function MediaTypeSelect({
+  value,
+  options,
+  onChange,
+}: {
+  value: string
+  options: Array<{ key: string; label: string }>
+  onChange: (v: string) => void
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">Media type</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="h-9 w-[180px]">
+          <SelectValue placeholder="Media type" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All media types</SelectItem>
+          {options.map((m) => (
+            <SelectItem key={m.key} value={m.key}>
+              {m.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
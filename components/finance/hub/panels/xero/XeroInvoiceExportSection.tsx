@@ -0,0 +1,284 @@
+"use client"
+
+import { useCallback, useMemo, useRef, useState } from "react"
+import { format } from "date-fns"
+import { saveAs } from "file-saver"
+import { Download, FileUp, Loader2 } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { EmptyState } from "@/components/ui/states"
+import { useToast } from "@/components/ui/use-toast"
+import { fetchFinanceBilling, markExported } from "@/lib/finance/api"
+import {
+  buildXeroInvoiceDrafts,
+  buildXeroInvoiceImportCsv,
+  buildXeroInvoicesApiPayload,
+  parseXeroInvoiceExportCsv,
+  reconcileXeroInvoices,
+  type XeroReconciliationReport,
+  type XeroReconciliationStatus,
+} from "@/lib/finance/xero"
+import { formatAUD } from "@/lib/format/money"
+import type { BillingRecord } from "@/lib/types/financeBilling"
+
+const STATUS_COPY: Record<XeroReconciliationStatus, { label: string; variant: "ahead" | "on-track" | "behind" | "critical" }> = {
+  matched: { label: "Matched", variant: "ahead" },
+  amount_mismatch: { label: "Amount mismatch", variant: "critical" },
+  contact_mismatch: { label: "Contact differs", variant: "behind" },
+  missing_in_xero: { label: "Missing in Xero", variant: "behind" },
+  not_in_app: { label: "Not in app", variant: "on-track" },
+}
+
+/**
+ * Month-end Xero hand-off: export ready billing records as a Xero import CSV / API payload,
+ * then load Xero's invoice export back in to reconcile numbers and totals. Exported records
+ * are stamped `exported_at` so the next export skips them.
+ */
+export function XeroInvoiceExportSection() {
+  const { toast } = useToast()
+  const fileRef = useRef<HTMLInputElement | null>(null)
+  const [month, setMonth] = useState(() => format(new Date(), "yyyy-MM"))
+  const [includeAllStatuses, setIncludeAllStatuses] = useState(false)
+  const [records, setRecords] = useState<BillingRecord[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [report, setReport] = useState<XeroReconciliationReport | null>(null)
+
+  const drafts = useMemo(
+    () => (records ? buildXeroInvoiceDrafts(records, { includeAllStatuses }) : []),
+    [records, includeAllStatuses]
+  )
+  // Reconcile against everything the app has raised or will raise this month, whatever its status.
+  const expectedForReconcile = useMemo(
+    () => (records ? buildXeroInvoiceDrafts(records, { includeAllStatuses: true }) : []),
+    [records]
+  )
+
+  const loadRecords = useCallback(async () => {
+    setLoading(true)
+    setReport(null)
+    try {
+      const rows = await fetchFinanceBilling({ billing_month: month, billing_type: "media,sow,retainer" })
+      setRecords(rows)
+    } catch (e) {
+      setRecords(null)
+      toast({
+        variant: "destructive",
+        title: "Could not load billing records",
+        description: e instanceof Error ? e.message : String(e),
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [month, toast])
+
+  const stampExported = async () => {
+    const byId = new Map((records ?? []).map((r) => [r.id, r]))
+    const exportedRecords = drafts.flatMap((d) => {
+      const r = byId.get(d.billing_record_id)
+      return r ? [r] : []
+    })
+    try {
+      const result = await markExported({
+        records: exportedRecords.map((r) => ({
+          billing_type: r.billing_type,
+          clients_id: r.clients_id,
+          client_name: r.client_name,
+          mba_number: r.mba_number,
+          campaign_name: r.campaign_name,
+          billing_month: r.billing_month,
+          total: r.total,
+        })),
+      })
+      if (result.failed.length > 0) {
+        toast({
+          variant: "destructive",
+          title: "Some records were not marked exported",
+          description: result.failed.join(", "),
+        })
+      }
+    } catch (e) {
+      toast({
+        variant: "destructive",
+        title: "Could not mark records exported",
+        description: e instanceof Error ? e.message : String(e),
+      })
+    }
+    await loadRecords()
+  }
+
+  const downloadCsv = () => {
+    const csv = buildXeroInvoiceImportCsv(drafts)
+    saveAs(new Blob([`\uFEFF${csv}`], { type: "text/csv;charset=utf-8;" }), `xero-invoices-${month}.csv`)
+    void stampExported()
+  }
+
+  const downloadJson = () => {
+    const payload = buildXeroInvoicesApiPayload(drafts)
+    saveAs(
+      new Blob([JSON.stringify(payload, null, 2)], { type: "application/json" }),
+      `xero-invoices-${month}.json`
+    )
+    void stampExported()
+  }
+
+  const onReconcileFile = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      const parsed = parseXeroInvoiceExportCsv(await file.text())
+      setReport(reconcileXeroInvoices(expectedForReconcile, parsed.invoices, { warnings: parsed.warnings }))
+    } catch (e) {
+      toast({
+        variant: "destructive",
+        title: "Could not read Xero export",
+        description: e instanceof Error ? e.message : String(e),
+      })
+    } finally {
+      if (fileRef.current) fileRef.current.value = ""
+    }
+  }
+
+  const draftTotal = drafts.reduce((t, d) => t + d.total, 0)
+
+  return (
+    <section className="space-y-3">
+      <div>
+        <h2 className="text-sm font-medium text-foreground">Xero invoices</h2>
+        <p className="text-xs text-muted-foreground">
+          Export approved receivables for a month in Xero import format, then reconcile Xero&apos;s
+          invoice export against the same month.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="xero-export-month" className="text-xs text-muted-foreground">
+            Billing month
+          </Label>
+          <Input
+            id="xero-export-month"
+            type="month"
+            value={month}
+            onChange={(e) => {
+              setMonth(e.target.value)
+              setRecords(null)
+              setReport(null)
+            }}
+            className="h-8 w-[10rem] text-xs"
+          />
+        </div>
+        <Button type="button" size="sm" variant="outline" disabled={loading || !month} onClick={() => void loadRecords()}>
+          {loading ? <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" /> : null}
+          Load records
+        </Button>
+        <div className="flex items-center gap-2 pb-1.5">
+          <Checkbox
+            id="xero-include-all"
+            checked={includeAllStatuses}
+            onCheckedChange={(v) => setIncludeAllStatuses(v === true)}
+          />
+          <Label htmlFor="xero-include-all" className="cursor-pointer text-xs font-normal text-muted-foreground">
+            Include billed, exported and draft records
+          </Label>
+        </div>
+      </div>
+
+      {records ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-muted-foreground">
+            {drafts.length} invoice{drafts.length === 1 ? "" : "s"} · {formatAUD(draftTotal)} inc GST
+          </span>
+          <Button type="button" size="sm" variant="outline" disabled={drafts.length === 0} onClick={downloadCsv}>
+            <Download className="mr-1.5 h-3.5 w-3.5" />
+            Xero import CSV
+          </Button>
+          <Button type="button" size="sm" variant="outline" disabled={drafts.length === 0} onClick={downloadJson}>
+            <Download className="mr-1.5 h-3.5 w-3.5" />
+            API payload (JSON)
+          </Button>
+          <Button type="button" size="sm" variant="outline" onClick={() => fileRef.current?.click()}>
+            <FileUp className="mr-1.5 h-3.5 w-3.5" />
+            Reconcile Xero export…
+          </Button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => void onReconcileFile(e.target.files?.[0])}
+          />
+        </div>
+      ) : null}
+
+      {report ? (
+        report.rows.length === 0 ? (
+          <EmptyState title="Nothing to reconcile" message="Neither the app nor the Xero file has invoices for this month." />
+        ) : (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-1.5">
+              {(Object.keys(STATUS_COPY) as XeroReconciliationStatus[]).map((s) => (
+                <Badge key={s} variant={STATUS_COPY[s].variant} size="sm">
+                  {STATUS_COPY[s].label}: {report.counts[s]}
+                </Badge>
+              ))}
+            </div>
+            {report.warnings.map((w) => (
+              <p key={w} className="text-xs text-muted-foreground">
+                {w}
+              </p>
+            ))}
+            <div className="overflow-x-auto rounded-card border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Invoice #</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Client</TableHead>
+                    <TableHead>Xero contact</TableHead>
+                    <TableHead className="text-right">Expected</TableHead>
+                    <TableHead className="text-right">Xero</TableHead>
+                    <TableHead className="text-right">Delta</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.rows.map((row) => (
+                    <TableRow key={`${row.status}-${row.invoice_number}`}>
+                      <TableCell className="num text-xs">{row.invoice_number}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_COPY[row.status].variant} size="sm">
+                          {STATUS_COPY[row.status].label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="max-w-[10rem] truncate text-xs">{row.client_name || "—"}</TableCell>
+                      <TableCell className="max-w-[10rem] truncate text-xs">{row.xero_contact_name || "—"}</TableCell>
+                      <TableCell className="num text-right text-xs">
+                        {row.expected_total == null ? "—" : formatAUD(row.expected_total)}
+                      </TableCell>
+                      <TableCell className="num text-right text-xs">
+                        {row.xero_total == null ? "—" : formatAUD(row.xero_total)}
+                      </TableCell>
+                      <TableCell className="num text-right text-xs">
+                        {row.delta == null ? "—" : formatAUD(row.delta)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )
+      ) : null}
+    </section>
+  )
+}
@@ -19,6 +19,7 @@ import {
 import { Input } from "@/components/ui/input"
 import { SingleDatePicker } from "@/components/ui/single-date-picker"
 import { AutoGrowField } from "@/components/media-containers/AutoGrowField"
+import { RateCardSuggestion } from "@/components/media-containers/RateCardSuggestion"
 import {
   CpcFamilyBurstCalculatedField,
   getCpcFamilyBurstCalculatedColumnLabel,
@@ -49,7 +50,7 @@ import {
 } from "@/lib/mediaplan/burstSectionLayout"
 import { cn } from "@/lib/utils"
 
-type ExpertCardPublisher = { publisher_name: string }
+type ExpertCardPublisher = { publisher_name: string; id?: number }
 
 /** Card-surface (key, label) pairs — same list ExpertCard renders. */
 export function getExpertCardRenderedFields(
@@ -967,6 +968,16 @@ export function ExpertCard<T extends FieldValues>({
             </CardContent>
           </div>
 
+          <RateCardSuggestion
+            mediaTypeKey={config.mediaTypeKey}
+            publisherField={config.publisherField}
+            form={form}
+            itemsKey={itemsKey}
+            lineItemIndex={lineItemIndex}
+            publishers={publishers}
+            onBurstValueChange={onBurstValueChange}
+          />
+
           {burstsSlot != null ? (
             burstsSlot
           ) : (
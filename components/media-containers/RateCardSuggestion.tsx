@@ -0,0 +1,205 @@
+"use client"
+
+import * as React from "react"
+import { format } from "date-fns"
+import { Receipt } from "lucide-react"
+import type { FieldValues, Path, PathValue, UseFormReturn } from "react-hook-form"
+import { useWatch } from "react-hook-form"
+
+import { Button } from "@/components/ui/button"
+import { useMediaPlanContext } from "@/contexts/MediaPlanContext"
+import { getRateCardsForMediaType } from "@/lib/api/publisherRateCards"
+import { formatMoney, parseMoneyInput } from "@/lib/format/money"
+import {
+  rateDeviation,
+  resolveRateCard,
+  type PublisherRateCard,
+  type RateDeviation,
+  type ResolvedRateCard,
+} from "@/lib/publisher/rateCards"
+import { cn } from "@/lib/utils"
+
+type RateCardPublisher = { publisher_name: string; id?: number }
+
+type RateCardSuggestionProps<T extends FieldValues> = {
+  mediaTypeKey: string
+  publisherField: string
+  form: UseFormReturn<T>
+  itemsKey: string
+  lineItemIndex: number
+  publishers: RateCardPublisher[]
+  onBurstValueChange: (lineItemIndex: number, burstIndex: number) => void
+}
+
+type BurstRate = {
+  burstIndex: number
+  resolved: ResolvedRateCard | null
+  planned: number | null
+  deviation: RateDeviation | null
+}
+
+const LOCKED_BUY_TYPES = new Set(["bonus", "package_inclusions"])
+
+function toYmd(value: unknown, fallback: string): string {
+  if (value instanceof Date && !Number.isNaN(value.getTime())) return format(value, "yyyy-MM-dd")
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10)
+  return fallback
+}
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value : ""
+}
+
+function fmtRate(rate: number): string {
+  return formatMoney(rate, { locale: "en-AU", currency: "AUD" })
+}
+
+function fmtDelta(deltaPct: number): string {
+  const v = deltaPct.toFixed(1)
+  return deltaPct > 0 ? `+${v}%` : `${v}%`
+}
+
+/**
+ * Rate-card strip for an {@link ExpertCard} line item: resolves the publisher's
+ * card per burst (start date, buy type, format / market / daypart, client
+ * override), fills empty burst rates once, and flags bursts that deviate.
+ */
+export function RateCardSuggestion<T extends FieldValues>({
+  mediaTypeKey,
+  publisherField,
+  form,
+  itemsKey,
+  lineItemIndex,
+  publishers,
+  onBurstValueChange,
+}: RateCardSuggestionProps<T>) {
+  const { clientName } = useMediaPlanContext()
+  const [cards, setCards] = React.useState<PublisherRateCard[]>([])
+  const prefilled = React.useRef(new Set<string>())
+
+  React.useEffect(() => {
+    let cancelled = false
+    getRateCardsForMediaType(mediaTypeKey)
+      .then((rows) => {
+        if (!cancelled) setCards(rows)
+      })
+      .catch(() => {
+        // Rate cards are advisory; containers work without them.
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [mediaTypeKey])
+
+  const lineItem = (useWatch({
+    control: form.control,
+    name: `${itemsKey}.${lineItemIndex}` as Path<T>,
+  }) ?? {}) as Record<string, unknown>
+
+  const publisherName = text(lineItem[publisherField]).trim().toLowerCase()
+  const publisherId = publishers.find((p) => p.publisher_name.trim().toLowerCase() === publisherName)?.id
+  const buyType = text(lineItem.buyType)
+  const bursts = Array.isArray(lineItem.bursts) ? (lineItem.bursts as Record<string, unknown>[]) : []
+  const today = format(new Date(), "yyyy-MM-dd")
+
+  const burstRates: BurstRate[] =
+    publisherId == null || !buyType || LOCKED_BUY_TYPES.has(buyType) || cards.length === 0
+      ? []
+      : bursts.map((burst, burstIndex) => {
+          const resolved = resolveRateCard(cards, {
+            publisherId,
+            mediaType: mediaTypeKey,
+            buyType,
+            format: text(lineItem.format),
+            market: text(lineItem.market),
+            daypart: text(lineItem.daypart),
+            clientName,
+            date: toYmd(burst.startDate, today),
+          })
+          const raw = burst.buyAmount
+          const planned = raw === "" || raw == null ? null : parseMoneyInput(raw as string | number)
+          return {
+            burstIndex,
+            resolved,
+            planned,
+            deviation: resolved && planned != null ? rateDeviation(planned, resolved.card.rate) : null,
+          }
+        })
+
+  const setBurstRate = React.useCallback(
+    (burstIndex: number, rate: number) => {
+      form.setValue(
+        `${itemsKey}.${lineItemIndex}.bursts.${burstIndex}.buyAmount` as Path<T>,
+        fmtRate(rate) as PathValue<T, Path<T>>,
+        { shouldDirty: true }
+      )
+      onBurstValueChange(lineItemIndex, burstIndex)
+    },
+    [form, itemsKey, lineItemIndex, onBurstValueChange]
+  )
+
+  // Fill bursts that have no rate yet, once per burst + card.
+  const prefillKey = burstRates
+    .filter((b) => b.resolved && b.planned == null)
+    .map((b) => `${b.burstIndex}:${b.resolved!.card.id}`)
+    .join("|")
+  React.useEffect(() => {
+    if (!prefillKey) return
+    for (const entry of prefillKey.split("|")) {
+      if (prefilled.current.has(entry)) continue
+      prefilled.current.add(entry)
+      const [burstIndex, cardId] = entry.split(":").map(Number)
+      const card = cards.find((c) => c.id === cardId)
+      if (card) setBurstRate(burstIndex!, card.rate)
+    }
+  }, [prefillKey, cards, setBurstRate])
+
+  const matched = burstRates.filter((b) => b.resolved)
+  if (matched.length === 0) return null
+
+  const rates = [...new Set(matched.map((b) => b.resolved!.card.rate))]
+  const negotiated = matched.some((b) => b.resolved!.negotiated)
+  const offCard = matched.filter((b) => b.deviation && b.deviation.status !== "on_card")
+
+  return (
+    <div
+      className={cn(
+        "mx-6 mb-3 flex flex-wrap items-center gap-x-3 gap-y-1.5 rounded-md border px-3 py-2 text-xs",
+        offCard.length > 0
+          ? "border-status-attention bg-status-attention-bg"
+          : "border-border bg-muted/30"
+      )}
+    >
+      <Receipt className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+      <span>
+        Rate card{" "}
+        <span className="num font-medium tabular-nums">{rates.map(fmtRate).join(" / ")}</span>
+        {negotiated && clientName ? (
+          <span className="ml-1.5 text-muted-foreground">negotiated for {clientName}</span>
+        ) : null}
+      </span>
+      {offCard.length > 0 ? (
+        <span className="text-status-attention-fg">
+          {offCard
+            .map((b) => `Burst ${b.burstIndex + 1} ${b.deviation!.status} card (${fmtDelta(b.deviation!.deltaPct)})`)
+            .join(" · ")}
+        </span>
+      ) : matched.every((b) => b.deviation) ? (
+        <span className="text-muted-foreground">All bursts on card</span>
+      ) : null}
+      {offCard.length > 0 ? (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="ml-auto h-7 text-xs"
+          onClick={() => {
+            for (const b of offCard) setBurstRate(b.burstIndex, b.resolved!.card.rate)
+          }}
+        >
+          Apply rate card
+        </Button>
+      ) : null}
+    </div>
+  )
+}
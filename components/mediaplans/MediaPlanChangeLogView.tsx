@@ -0,0 +1,263 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, Loader2 } from "lucide-react"
+
+import { MediaPlanEditorHero } from "@/components/mediaplans/MediaPlanEditorHero"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/components/ui/use-toast"
+import {
+  MONEY_CHANGE_FIELDS,
+  type ChangeLogSave,
+  type MediaPlanChangeLogEntry,
+  type MediaPlanChangeType,
+} from "@/lib/mediaplan/changeLog"
+
+type MediaPlanChangeLogViewProps = {
+  mbaNumber: string
+}
+
+type ChangeLogResponse = {
+  saves: ChangeLogSave[]
+  total: number
+  users: Array<{ id: string; name: string }>
+  channels: Array<{ key: string; label: string }>
+}
+
+const ALL = "all"
+
+const currencyFmt = new Intl.NumberFormat("en-AU", { style: "currency", currency: "AUD" })
+
+const savedAtFmt = new Intl.DateTimeFormat("en-AU", {
+  timeZone: "Australia/Melbourne",
+  day: "numeric",
+  month: "short",
+  year: "numeric",
+  hour: "numeric",
+  minute: "2-digit",
+})
+
+const CHANGE_BADGE: Record<MediaPlanChangeType, { label: string; variant: "good" | "blocking" | "attention" | "outline" }> = {
+  line_added: { label: "line added", variant: "good" },
+  line_removed: { label: "line removed", variant: "blocking" },
+  field_change: { label: "changed", variant: "attention" },
+  burst_added: { label: "burst added", variant: "good" },
+  burst_removed: { label: "burst removed", variant: "blocking" },
+  burst_change: { label: "burst changed", variant: "attention" },
+  fee_change: { label: "fees", variant: "outline" },
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const data = (await response.json().catch(() => null)) as { error?: string } | null
+  return data?.error || fallback
+}
+
+function formatValue(field: string, value: string): string {
+  if (!value) return "—"
+  if (MONEY_CHANGE_FIELDS.has(field)) {
+    const n = Number(value)
+    return Number.isFinite(n) ? currencyFmt.format(n) : value
+  }
+  return value
+}
+
+function fieldLabel(entry: MediaPlanChangeLogEntry): string {
+  const field = entry.field.replace(/_/g, " ")
+  return entry.burst_index != null ? `Burst ${entry.burst_index + 1} ${field}` : field
+}
+
+export function MediaPlanChangeLogView({ mbaNumber }: MediaPlanChangeLogViewProps) {
+  const { toast } = useToast()
+  const [user, setUser] = useState(ALL)
+  const [channel, setChannel] = useState(ALL)
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [data, setData] = useState<ChangeLogResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    const query = new URLSearchParams()
+    if (user !== ALL) query.set("user", user)
+    if (channel !== ALL) query.set("channel", channel)
+    if (from) query.set("from", from)
+    if (to) query.set("to", to)
+    setLoading(true)
+    void (async () => {
+      try {
+        const res = await fetch(`/api/mediaplans/mba/${encodeURIComponent(mbaNumber)}/change-log?${query}`)
+        if (!res.ok) throw new Error(await readError(res, "Failed to load change history"))
+        const body = (await res.json()) as ChangeLogResponse
+        if (!cancelled) setData(body)
+      } catch (error) {
+        if (cancelled) return
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to load change history",
+          variant: "destructive",
+        })
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [mbaNumber, user, channel, from, to, toast])
+
+  const filtered = user !== ALL || channel !== ALL || Boolean(from) || Boolean(to)
+
+  return (
+    <div className="space-y-6">
+      <MediaPlanEditorHero
+        title="Change history"
+        detail={
+          <div className="space-y-1 text-sm text-muted-foreground">
+            <p>MBA {mbaNumber} · every field changed on each save</p>
+            <Button variant="link" className="h-auto p-0 text-sm" asChild>
+              <Link href={`/mediaplans/mba/${encodeURIComponent(mbaNumber)}/edit`}>
+                <ArrowLeft className="mr-1.5 h-3.5 w-3.5" aria-hidden />
+                Back to edit campaign
+              </Link>
+            </Button>
+          </div>
+        }
+        actions={
+          <>
+            <Select value={user} onValueChange={setUser}>
+              <SelectTrigger className="h-8 w-44 text-xs" aria-label="User">
+                <SelectValue placeholder="User" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All users</SelectItem>
+                {(data?.users ?? []).map((u) => (
+                  <SelectItem key={u.id} value={u.id}>
+                    {u.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={channel} onValueChange={setChannel}>
+              <SelectTrigger className="h-8 w-44 text-xs" aria-label="Channel">
+                <SelectValue placeholder="Channel" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All channels</SelectItem>
+                {(data?.channels ?? []).map((c) => (
+                  <SelectItem key={c.key} value={c.key}>
+                    {c.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => setFrom(e.target.value)}
+              className="h-8 w-36 text-xs"
+              aria-label="From date"
+            />
+            <span className="text-xs text-muted-foreground">→</span>
+            <Input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+              className="h-8 w-36 text-xs"
+              aria-label="To date"
+            />
+            {filtered ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                type="button"
+                className="text-xs"
+                onClick={() => {
+                  setUser(ALL)
+                  setChannel(ALL)
+                  setFrom("")
+                  setTo("")
+                }}
+              >
+                Clear
+              </Button>
+            ) : null}
+          </>
+        }
+      />
+
+      {loading && !data ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" aria-hidden />
+          Loading change history…
+        </div>
+      ) : !data || data.saves.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {filtered ? "No changes match these filters." : "No changes have been recorded for this campaign yet."}
+        </p>
+      ) : (
+        <ol className="relative space-y-6 border-l pl-6">
+          {data.saves.map((save) => (
+            <li key={save.key} className="space-y-2">
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" aria-hidden />
+              <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+                <span className="font-semibold">{save.changedByName || save.changedBy}</span>
+                <span className="text-muted-foreground">
+                  {save.fromVersion === save.versionNumber
+                    ? `saved version ${save.versionNumber}`
+                    : `saved version ${save.versionNumber} from v${save.fromVersion}`}
+                </span>
+                <span className="text-xs text-muted-foreground">{savedAtFmt.format(new Date(save.changedAt))}</span>
+                {loading ? <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" aria-hidden /> : null}
+              </div>
+              <div className="overflow-auto rounded border">
+                <table className="w-full text-xs">
+                  <thead className="bg-muted/40">
+                    <tr className="text-left">
+                      <th className="p-2">Media type</th>
+                      <th className="p-2">Line item</th>
+                      <th className="p-2">Change</th>
+                      <th className="p-2">Field</th>
+                      <th className="p-2">Old value</th>
+                      <th className="p-2">New value</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {save.entries.map((entry) => (
+                      <tr key={entry.id} className="border-t align-top">
+                        <td className="p-2">{entry.media_type_label}</td>
+                        <td className="p-2">
+                          <div className="font-mono">{entry.line_item_id}</div>
+                          <div className="text-muted-foreground">{entry.line_item_label}</div>
+                        </td>
+                        <td className="p-2">
+                          <Badge variant={CHANGE_BADGE[entry.change_type].variant} size="sm">
+                            {CHANGE_BADGE[entry.change_type].label}
+                          </Badge>
+                        </td>
+                        <td className="p-2 capitalize">{fieldLabel(entry)}</td>
+                        <td className="p-2">{formatValue(entry.field, entry.old_value)}</td>
+                        <td className="p-2">{formatValue(entry.field, entry.new_value)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,386 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, Download, Loader2 } from "lucide-react"
+
+import { MediaPlanEditorHero } from "@/components/mediaplans/MediaPlanEditorHero"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { useToast } from "@/components/ui/use-toast"
+import {
+  diffMediaPlanVersions,
+  type BurstDiff,
+  type LineItemDiff,
+  type LineItemDiffStatus,
+  type MediaPlanVersionDiff,
+  type MediaPlanVersionSnapshot,
+} from "@/lib/mediaplan/versionDiff"
+import { exportVersionDiffWorkbook } from "@/lib/mediaplan/versionDiffExcel"
+
+type MediaPlanVersionDiffViewProps = {
+  mbaNumber: string
+  initialFrom: number | null
+  initialTo: number | null
+}
+
+type VersionMeta = { version_number: number; created_at: unknown }
+
+const currencyFmt = new Intl.NumberFormat("en-AU", { style: "currency", currency: "AUD" })
+
+const STATUS_BADGE: Record<LineItemDiffStatus, "good" | "blocking" | "attention" | "outline"> = {
+  added: "good",
+  removed: "blocking",
+  changed: "attention",
+  unchanged: "outline",
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const data = (await response.json().catch(() => null)) as { error?: string } | null
+  return data?.error || fallback
+}
+
+function signedCurrency(n: number): string {
+  return `${n > 0 ? "+" : ""}${currencyFmt.format(n)}`
+}
+
+function describeBurst(b: BurstDiff): string {
+  const n = b.index + 1
+  if (b.kind === "added") {
+    return `Burst ${n} added · ${b.next.startDate} – ${b.next.endDate} · ${currencyFmt.format(b.next.budget)}`
+  }
+  if (b.kind === "removed") {
+    return `Burst ${n} removed · ${b.previous.startDate} – ${b.previous.endDate} · ${currencyFmt.format(b.previous.budget)}`
+  }
+  const parts: string[] = []
+  if (b.datesChanged) {
+    parts.push(`${b.previous.startDate} – ${b.previous.endDate} → ${b.next.startDate} – ${b.next.endDate}`)
+  }
+  if (b.budgetDelta !== 0) {
+    parts.push(`${currencyFmt.format(b.previous.budget)} → ${currencyFmt.format(b.next.budget)}`)
+  }
+  if (b.rateDelta !== 0) {
+    parts.push(`rate ${currencyFmt.format(b.previous.buyAmount)} → ${currencyFmt.format(b.next.buyAmount)}`)
+  }
+  if (b.deliverablesDelta !== 0) {
+    parts.push(`deliverables ${b.previous.deliverables.toLocaleString()} → ${b.next.deliverables.toLocaleString()}`)
+  }
+  return `Burst ${n} · ${parts.join(" · ")}`
+}
+
+function lineDetail(l: LineItemDiff): string[] {
+  const out = l.fields.map((f) => `${f.field}: “${f.previous || "—"}” → “${f.next || "—"}”`)
+  out.push(...l.bursts.map(describeBurst))
+  if (l.fees) {
+    if (l.fees.previousFeeTotal !== l.fees.nextFeeTotal) {
+      out.push(
+        `Fees ${currencyFmt.format(l.fees.previousFeeTotal)} → ${currencyFmt.format(l.fees.nextFeeTotal)}`,
+      )
+    }
+    out.push(...l.fees.flagChanges.map((f) => `${f.field}: ${f.previous} → ${f.next}`))
+  }
+  return out
+}
+
+async function loadSnapshot(mbaNumber: string, version: number): Promise<MediaPlanVersionSnapshot> {
+  const res = await fetch(
+    `/api/mediaplans/mba/${encodeURIComponent(mbaNumber)}?version=${version}&billingScheduleFull=1`,
+  )
+  if (!res.ok) throw new Error(await readError(res, `Failed to load version ${version}`))
+  const plan = (await res.json()) as Record<string, unknown>
+  return {
+    versionNumber: version,
+    lineItems:
+      plan.lineItems && typeof plan.lineItems === "object"
+        ? (plan.lineItems as Record<string, unknown[]>)
+        : {},
+    billingSchedule: plan.billingSchedule,
+  }
+}
+
+export function MediaPlanVersionDiffView({
+  mbaNumber,
+  initialFrom,
+  initialTo,
+}: MediaPlanVersionDiffViewProps) {
+  const { toast } = useToast()
+  const [campaignName, setCampaignName] = useState("")
+  const [versions, setVersions] = useState<number[]>([])
+  const [fromVersion, setFromVersion] = useState<number | null>(initialFrom)
+  const [toVersion, setToVersion] = useState<number | null>(initialTo)
+  const [diff, setDiff] = useState<MediaPlanVersionDiff | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [exporting, setExporting] = useState(false)
+  const [showUnchanged, setShowUnchanged] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    void (async () => {
+      try {
+        const res = await fetch(
+          `/api/mediaplans/mba/${encodeURIComponent(mbaNumber)}?skipLineItems=true&includeVersionsMeta=1`,
+        )
+        if (!res.ok) throw new Error(await readError(res, "Failed to load media plan"))
+        const plan = (await res.json()) as Record<string, unknown>
+        const meta = Array.isArray(plan.versions) ? (plan.versions as VersionMeta[]) : []
+        const numbers = [...new Set(meta.map((v) => Number(v.version_number)).filter((n) => n > 0))].sort(
+          (a, b) => a - b,
+        )
+        if (cancelled) return
+        setCampaignName(String(plan.mp_campaignname || plan.campaign_name || "").trim() || mbaNumber)
+        setVersions(numbers)
+        const latest = numbers[numbers.length - 1] ?? null
+        setToVersion((prev) => prev ?? latest)
+        setFromVersion((prev) => prev ?? numbers[numbers.length - 2] ?? latest)
+        if (latest == null) setLoading(false)
+      } catch (error) {
+        if (cancelled) return
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to load versions",
+          variant: "destructive",
+        })
+        setLoading(false)
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [mbaNumber, toast])
+
+  const runDiff = useCallback(async () => {
+    if (fromVersion == null || toVersion == null) return
+    setLoading(true)
+    try {
+      const [from, to] = await Promise.all([
+        loadSnapshot(mbaNumber, fromVersion),
+        loadSnapshot(mbaNumber, toVersion),
+      ])
+      setDiff(diffMediaPlanVersions(from, to))
+    } catch (error) {
+      setDiff(null)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to compare versions",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [fromVersion, mbaNumber, toVersion, toast])
+
+  useEffect(() => {
+    void runDiff()
+  }, [runDiff])
+
+  const visibleLines = useMemo(
+    () => (diff?.lineItems ?? []).filter((l) => showUnchanged || l.status !== "unchanged"),
+    [diff, showUnchanged],
+  )
+
+  const downloadWorkbook = useCallback(async () => {
+    if (!diff) return
+    setExporting(true)
+    try {
+      await exportVersionDiffWorkbook(diff, mbaNumber)
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Could not build workbook",
+        variant: "destructive",
+      })
+    } finally {
+      setExporting(false)
+    }
+  }, [diff, mbaNumber, toast])
+
+  const versionSelect = (
+    value: number | null,
+    onChange: (v: number) => void,
+    label: string,
+  ) => (
+    <Select value={value != null ? String(value) : undefined} onValueChange={(v) => onChange(Number(v))}>
+      <SelectTrigger className="h-8 w-28 text-xs" aria-label={label}>
+        <SelectValue placeholder={label} />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((v) => (
+          <SelectItem key={v} value={String(v)}>
+            v{v}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <div className="space-y-6">
+      <MediaPlanEditorHero
+        title={campaignName || "Compare versions"}
+        detail={
+          <div className="space-y-1 text-sm text-muted-foreground">
+            <p>MBA {mbaNumber} · version comparison</p>
+            <Button variant="link" className="h-auto p-0 text-sm" asChild>
+              <Link href={`/mediaplans/mba/${encodeURIComponent(mbaNumber)}/edit`}>
+                <ArrowLeft className="mr-1.5 h-3.5 w-3.5" aria-hidden />
+                Back to edit campaign
+              </Link>
+            </Button>
+          </div>
+        }
+        actions={
+          <>
+            {versionSelect(fromVersion, setFromVersion, "From")}
+            <span className="text-xs text-muted-foreground">→</span>
+            {versionSelect(toVersion, setToVersion, "To")}
+            <Button
+              variant="outline"
+              size="sm"
+              type="button"
+              className="text-xs"
+              disabled={exporting || !diff}
+              onClick={() => void downloadWorkbook()}
+            >
+              {exporting ? (
+                <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" aria-hidden />
+              ) : (
+                <Download className="mr-1.5 h-3.5 w-3.5" aria-hidden />
+              )}
+              Export to Excel
+            </Button>
+          </>
+        }
+      />
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" aria-hidden />
+          Comparing versions…
+        </div>
+      ) : !diff ? null : (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <Badge variant="good">{diff.summary.added} added</Badge>
+            <Badge variant="blocking">{diff.summary.removed} removed</Badge>
+            <Badge variant="attention">{diff.summary.changed} changed</Badge>
+            <Badge variant="outline">{diff.summary.unchanged} unchanged</Badge>
+            <span className="text-muted-foreground">
+              Budget {signedCurrency(diff.summary.budgetDelta)} · Billing{" "}
+              {signedCurrency(diff.summary.billingDelta)}
+            </span>
+            <label className="ml-auto flex items-center gap-2 text-muted-foreground">
+              <Switch checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+              Show unchanged
+            </label>
+          </div>
+
+          <section className="space-y-2">
+            <h2 className="text-sm font-semibold">Line items</h2>
+            <div className="overflow-auto rounded border">
+              <table className="w-full text-xs">
+                <thead className="bg-muted/40">
+                  <tr className="text-left">
+                    <th className="p-2">Media type</th>
+                    <th className="p-2">Line item</th>
+                    <th className="p-2">Status</th>
+                    <th className="p-2">Changes</th>
+                    <th className="p-2 text-right">v{diff.fromVersion}</th>
+                    <th className="p-2 text-right">v{diff.toVersion}</th>
+                    <th className="p-2 text-right">Delta</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleLines.length === 0 ? (
+                    <tr>
+                      <td colSpan={7} className="p-3 text-center text-muted-foreground">
+                        No line-item changes between these versions.
+                      </td>
+                    </tr>
+                  ) : (
+                    visibleLines.map((l) => (
+                      <tr key={`${l.mediaType}|${l.lineItemId}`} className="border-t align-top">
+                        <td className="p-2">{l.mediaTypeLabel}</td>
+                        <td className="p-2">
+                          <div className="font-mono">{l.lineItemId}</div>
+                          <div className="text-muted-foreground">{l.label}</div>
+                        </td>
+                        <td className="p-2">
+                          <Badge variant={STATUS_BADGE[l.status]} size="sm">
+                            {l.status}
+                          </Badge>
+                        </td>
+                        <td className="p-2">
+                          {lineDetail(l).map((d) => (
+                            <div key={d}>{d}</div>
+                          ))}
+                        </td>
+                        <td className="p-2 text-right">{currencyFmt.format(l.previousBudget)}</td>
+                        <td className="p-2 text-right">{currencyFmt.format(l.nextBudget)}</td>
+                        <td className="p-2 text-right">{signedCurrency(l.nextBudget - l.previousBudget)}</td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h2 className="text-sm font-semibold">Billing schedule</h2>
+            <div className="overflow-auto rounded border">
+              <table className="w-full text-xs">
+                <thead className="bg-muted/40">
+                  <tr className="text-left">
+                    <th className="p-2">Month</th>
+                    <th className="p-2 text-right">v{diff.fromVersion}</th>
+                    <th className="p-2 text-right">v{diff.toVersion}</th>
+                    <th className="p-2 text-right">Delta</th>
+                    <th className="p-2">Line movements</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.billingMonths.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="p-3 text-center text-muted-foreground">
+                        Billing schedule is unchanged.
+                      </td>
+                    </tr>
+                  ) : (
+                    diff.billingMonths.map((m) => (
+                      <tr key={m.monthYear} className="border-t align-top">
+                        <td className="p-2">{m.monthYear}</td>
+                        <td className="p-2 text-right">{currencyFmt.format(m.previousTotal)}</td>
+                        <td className="p-2 text-right">{currencyFmt.format(m.nextTotal)}</td>
+                        <td className="p-2 text-right">{signedCurrency(m.nextTotal - m.previousTotal)}</td>
+                        <td className="p-2">
+                          {m.changes.map((c) => (
+                            <div key={`${c.kind}|${c.lineItemId}`}>
+                              <span className="font-mono">{c.lineItemId}</span>{" "}
+                              {c.kind === "line_add"
+                                ? `added ${c.new_value}`
+                                : c.kind === "line_remove"
+                                  ? `removed ${c.old_value}`
+                                  : `${c.old_value} → ${c.new_value}`}
+                            </div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        </>
+      )}
+    </div>
+  )
+}
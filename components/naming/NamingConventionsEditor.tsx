@@ -0,0 +1,775 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/components/ui/use-toast"
+import { getClientDisplayName, slugifyClientNameForUrl } from "@/lib/clients/slug"
+import {
+  NAMING_SEPARATORS,
+  mergeNamingConventions,
+  validateNamingConventionOverride,
+  type ClientNamingConventions,
+  type NamingConventionOverride,
+  type NamingTemplateOverride,
+} from "@/lib/naming/clientConventions"
+import { PICKLISTS, TEMPLATES } from "@/lib/naming/templates"
+import type { ElementSource, NamingTemplate, TemplateElement } from "@/lib/naming/types"
+import {
+  HOUSE_UTM_TAXONOMY,
+  UTM_PLATFORMS,
+  UTM_PUBLISHER_TOKEN,
+  type UtmPlatformDefault,
+  type UtmTaxonomy,
+} from "@/lib/naming/utm"
+
+type ClientOption = { slug: string; name: string }
+
+type ConventionsResponse = {
+  clientSlug: string
+  override: ClientNamingConventions | null
+}
+
+const EMPTY_OVERRIDE: NamingConventionOverride = { templates: [], picklists: {} }
+
+const SOURCES: ElementSource[] = ["plan", "picklist", "free", "literal"]
+
+const PLATFORMS = [...new Set(TEMPLATES.map((t) => t.platform))]
+
+function levelKey(t: Pick<NamingTemplate, "platform" | "level">): string {
+  return `${t.platform}|${t.level}`
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const data = (await response.json().catch(() => null)) as
+    | { error?: string; issues?: Array<{ message: string }> }
+    | null
+  return data?.issues?.[0]?.message || data?.error || fallback
+}
+
+function toOverride(template: NamingTemplate): NamingTemplateOverride {
+  return {
+    platform: template.platform,
+    level: template.level,
+    elements: template.elements.map((el) => ({ ...el })),
+    separator: template.separator,
+    case: template.case,
+  }
+}
+
+function cleanLines(values: string[]): string[] {
+  return values.map((v) => v.trim()).filter(Boolean)
+}
+
+/** Picklist textareas keep blank lines while typing; drop them before validating or saving. */
+function cleanOverride(draft: NamingConventionOverride): NamingConventionOverride {
+  return {
+    ...(draft.utm
+      ? {
+          utm: {
+            ...draft.utm,
+            sources: cleanLines(draft.utm.sources),
+            mediums: cleanLines(draft.utm.mediums),
+          },
+        }
+      : {}),
+    templates: draft.templates.map((t) => ({
+      ...t,
+      elements: t.elements.map((el) => ({ ...el, key: el.key.trim() })),
+    })),
+    picklists: Object.fromEntries(
+      Object.entries(draft.picklists).map(([key, values]) => [
+        key,
+        cleanLines(values),
+      ]),
+    ),
+  }
+}
+
+function previewName(template: NamingTemplateOverride): string {
+  return template.elements
+    .map((el) => (el.source === "literal" ? el.literal || "?" : `{${el.key || "?"}}`))
+    .join(template.separator)
+}
+
+function copyUtmTaxonomy(taxonomy: UtmTaxonomy): UtmTaxonomy {
+  return {
+    sources: [...taxonomy.sources],
+    mediums: [...taxonomy.mediums],
+    defaults: Object.fromEntries(
+      Object.entries(taxonomy.defaults).map(([platform, d]) => [platform, { ...d }]),
+    ),
+  }
+}
+
+function UtmTaxonomyEditor({
+  taxonomy,
+  onChange,
+}: {
+  taxonomy: UtmTaxonomy
+  onChange: (next: UtmTaxonomy) => void
+}) {
+  const setDefault = (platform: string, patch: Partial<UtmPlatformDefault>) => {
+    const current = taxonomy.defaults[platform as keyof UtmTaxonomy["defaults"]] ?? {
+      source: "",
+      medium: "",
+    }
+    onChange({ ...taxonomy, defaults: { ...taxonomy.defaults, [platform]: { ...current, ...patch } } })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        {(["sources", "mediums"] as const).map((key) => (
+          <div key={key} className="space-y-1">
+            <Label htmlFor={`utm-${key}`} className="text-xs">
+              Allowed utm_{key === "sources" ? "source" : "medium"} values (blank allows any)
+            </Label>
+            <Textarea
+              id={`utm-${key}`}
+              value={taxonomy[key].join("\n")}
+              onChange={(e) => onChange({ ...taxonomy, [key]: e.target.value.split("\n") })}
+              rows={Math.min(8, Math.max(3, taxonomy[key].length))}
+              className="font-mono text-xs"
+            />
+          </div>
+        ))}
+      </div>
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground">
+          Defaults per platform. Use {UTM_PUBLISHER_TOKEN} as the source to tag each line with its publisher.
+        </p>
+        {UTM_PLATFORMS.map((platform) => {
+          const d = taxonomy.defaults[platform]
+          return (
+            <div key={platform} className="flex flex-wrap items-center gap-2">
+              <span className="w-20 font-mono text-xs">{platform}</span>
+              <Input
+                value={d?.source ?? ""}
+                onChange={(e) => setDefault(platform, { source: e.target.value })}
+                placeholder="utm_source"
+                className="h-8 w-40 font-mono text-xs"
+                aria-label={`${platform} utm_source`}
+              />
+              <Input
+                value={d?.medium ?? ""}
+                onChange={(e) => setDefault(platform, { medium: e.target.value })}
+                placeholder="utm_medium"
+                className="h-8 w-40 font-mono text-xs"
+                aria-label={`${platform} utm_medium`}
+              />
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+function TemplateOverrideEditor({
+  template,
+  picklistKeys,
+  onChange,
+}: {
+  template: NamingTemplateOverride
+  picklistKeys: string[]
+  onChange: (next: NamingTemplateOverride) => void
+}) {
+  const updateElement = (index: number, patch: Partial<TemplateElement>) => {
+    onChange({
+      ...template,
+      elements: template.elements.map((el, i) => (i === index ? { ...el, ...patch } : el)),
+    })
+  }
+
+  const moveElement = (index: number, delta: number) => {
+    const target = index + delta
+    if (target < 0 || target >= template.elements.length) return
+    const elements = [...template.elements]
+    ;[elements[index], elements[target]] = [elements[target], elements[index]]
+    onChange({ ...template, elements })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Label className="text-xs">Separator</Label>
+          <Select
+            value={template.separator}
+            onValueChange={(separator) =>
+              onChange({ ...template, separator: separator as NamingTemplate["separator"] })
+            }
+          >
+            <SelectTrigger className="h-8 w-20 font-mono text-xs" aria-label="Separator">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {NAMING_SEPARATORS.map((sep) => (
+                <SelectItem key={sep} value={sep} className="font-mono">
+                  {sep}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label className="text-xs">Case</Label>
+          <Select
+            value={template.case}
+            onValueChange={(value) => onChange({ ...template, case: value as NamingTemplate["case"] })}
+          >
+            <SelectTrigger className="h-8 w-28 text-xs" aria-label="Case">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="lower">lower</SelectItem>
+              <SelectItem value="preserve">preserve</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <code className="truncate text-xs text-muted-foreground">{previewName(template)}</code>
+      </div>
+
+      <div className="space-y-2">
+        {template.elements.map((el, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <Input
+              value={el.key}
+              onChange={(e) => updateElement(index, { key: e.target.value })}
+              disabled={el.isLineItemId}
+              className="h-8 w-40 font-mono text-xs"
+              aria-label="Element key"
+            />
+            <Select
+              value={el.source}
+              onValueChange={(source) => updateElement(index, { source: source as ElementSource })}
+              disabled={el.isLineItemId}
+            >
+              <SelectTrigger className="h-8 w-28 text-xs" aria-label="Source">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SOURCES.map((source) => (
+                  <SelectItem key={source} value={source}>
+                    {source}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {el.source === "picklist" ? (
+              <Select
+                value={el.picklist || undefined}
+                onValueChange={(picklist) => updateElement(index, { picklist })}
+              >
+                <SelectTrigger className="h-8 w-40 text-xs" aria-label="Picklist">
+                  <SelectValue placeholder="Picklist" />
+                </SelectTrigger>
+                <SelectContent>
+                  {picklistKeys.map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {key}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : null}
+            {el.source === "literal" ? (
+              <Input
+                value={el.literal ?? ""}
+                onChange={(e) => updateElement(index, { literal: e.target.value })}
+                placeholder="Literal text"
+                className="h-8 w-32 font-mono text-xs"
+                aria-label="Literal"
+              />
+            ) : null}
+            <label className="flex items-center gap-1.5 text-xs">
+              <Checkbox
+                checked={el.optional === true}
+                onCheckedChange={(checked) => updateElement(index, { optional: checked === true })}
+                disabled={el.isLineItemId}
+              />
+              optional
+            </label>
+            {el.isLineItemId ? (
+              <Badge variant="secondary" size="sm">
+                line item id
+              </Badge>
+            ) : null}
+            <div className="ml-auto flex items-center gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => moveElement(index, -1)}
+                disabled={index === 0}
+                aria-label="Move up"
+              >
+                <ArrowUp className="h-3.5 w-3.5" aria-hidden />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => moveElement(index, 1)}
+                disabled={index === template.elements.length - 1}
+                aria-label="Move down"
+              >
+                <ArrowDown className="h-3.5 w-3.5" aria-hidden />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() =>
+                  onChange({ ...template, elements: template.elements.filter((_, i) => i !== index) })
+                }
+                disabled={el.isLineItemId}
+                aria-label="Remove element"
+              >
+                <Trash2 className="h-3.5 w-3.5" aria-hidden />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="text-xs"
+        onClick={() =>
+          onChange({ ...template, elements: [...template.elements, { key: "", source: "free" }] })
+        }
+      >
+        <Plus className="mr-1.5 h-3.5 w-3.5" aria-hidden />
+        Add element
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * Admin editor for a client's naming conventions. Edits are validated live
+ * with the same checks the API applies on save (`validateTemplates` over the
+ * merged set), and Save stays disabled until the draft is clean.
+ */
+export function NamingConventionsEditor() {
+  const { toast } = useToast()
+  const [clients, setClients] = useState<ClientOption[]>([])
+  const [clientSlug, setClientSlug] = useState("")
+  const [stored, setStored] = useState<ClientNamingConventions | null>(null)
+  const [draft, setDraft] = useState<NamingConventionOverride>(EMPTY_OVERRIDE)
+  const [newPicklistKey, setNewPicklistKey] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    void (async () => {
+      try {
+        const res = await fetch("/api/clients")
+        if (!res.ok) throw new Error("Failed to load clients")
+        const data = (await res.json()) as unknown
+        if (cancelled) return
+        const rows = Array.isArray(data) ? (data as Array<Record<string, unknown>>) : []
+        const options = new Map<string, ClientOption>()
+        for (const row of rows) {
+          const name = getClientDisplayName(row)
+          // Keyed like the builders key it: from the client name on the plan.
+          const slug = slugifyClientNameForUrl(name)
+          if (name && slug) options.set(slug, { slug, name })
+        }
+        setClients([...options.values()].sort((a, b) => a.name.localeCompare(b.name)))
+      } catch (error) {
+        if (cancelled) return
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to load clients",
+          variant: "destructive",
+        })
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [toast])
+
+  useEffect(() => {
+    if (!clientSlug) return
+    let cancelled = false
+    setLoading(true)
+    void (async () => {
+      try {
+        const res = await fetch(`/api/naming/conventions/${encodeURIComponent(clientSlug)}`)
+        if (!res.ok) throw new Error(await readError(res, "Failed to load naming conventions"))
+        const body = (await res.json()) as ConventionsResponse
+        if (cancelled) return
+        setStored(body.override)
+        setDraft(
+          body.override
+            ? {
+                templates: body.override.templates,
+                picklists: body.override.picklists,
+                ...(body.override.utm ? { utm: body.override.utm } : {}),
+              }
+            : EMPTY_OVERRIDE,
+        )
+      } catch (error) {
+        if (cancelled) return
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to load naming conventions",
+          variant: "destructive",
+        })
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [clientSlug, toast])
+
+  const cleaned = useMemo(() => cleanOverride(draft), [draft])
+  const issues = useMemo(() => validateNamingConventionOverride(cleaned), [cleaned])
+  const merged = useMemo(() => mergeNamingConventions(cleaned), [cleaned])
+  const picklistKeys = Object.keys(merged.picklists).sort()
+  const overriddenLevels = new Map(draft.templates.map((t) => [levelKey(t), t]))
+
+  const setTemplateOverride = (house: NamingTemplate, next: NamingTemplateOverride | null) => {
+    setDraft((prev) => {
+      const others = prev.templates.filter((t) => levelKey(t) !== levelKey(house))
+      return { ...prev, templates: next ? [...others, next] : others }
+    })
+  }
+
+  const setPicklist = (key: string, values: string[] | null) => {
+    setDraft((prev) => {
+      const picklists = { ...prev.picklists }
+      if (values) picklists[key] = values
+      else delete picklists[key]
+      return { ...prev, picklists }
+    })
+  }
+
+  const save = async () => {
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/naming/conventions/${encodeURIComponent(clientSlug)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(cleaned),
+      })
+      if (!res.ok) throw new Error(await readError(res, "Failed to save naming conventions"))
+      const body = (await res.json()) as ConventionsResponse
+      setStored(body.override)
+      toast({ title: "Saved", description: "Naming conventions updated for this client." })
+    } catch (error) {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : "Failed to save naming conventions",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const resetToHouse = async () => {
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/naming/conventions/${encodeURIComponent(clientSlug)}`, {
+        method: "DELETE",
+      })
+      if (!res.ok) throw new Error(await readError(res, "Failed to reset naming conventions"))
+      setStored(null)
+      setDraft(EMPTY_OVERRIDE)
+      toast({ title: "Reset", description: "This client now uses the house naming conventions." })
+    } catch (error) {
+      toast({
+        title: "Reset failed",
+        description: error instanceof Error ? error.message : "Failed to reset naming conventions",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <Select value={clientSlug || undefined} onValueChange={setClientSlug}>
+          <SelectTrigger className="h-9 w-72" aria-label="Client">
+            <SelectValue placeholder="Select a client" />
+          </SelectTrigger>
+          <SelectContent>
+            {clients.map((client) => (
+              <SelectItem key={client.slug} value={client.slug}>
+                {client.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {clientSlug ? (
+          <>
+            <Button type="button" onClick={() => void save()} disabled={saving || loading || issues.length > 0}>
+              {saving ? <Loader2 className="mr-1.5 h-4 w-4 animate-spin" aria-hidden /> : null}
+              Save
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => void resetToHouse()}
+              disabled={saving || loading || !stored}
+            >
+              Reset to house conventions
+            </Button>
+            {stored ? (
+              <span className="text-xs text-muted-foreground">
+                Last saved by {stored.updated_by || "unknown"}
+              </span>
+            ) : (
+              <span className="text-xs text-muted-foreground">Using the house conventions</span>
+            )}
+          </>
+        ) : null}
+      </div>
+
+      {!clientSlug ? (
+        <p className="text-sm text-muted-foreground">Pick a client to edit its naming conventions.</p>
+      ) : loading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" aria-hidden />
+          Loading naming conventions…
+        </div>
+      ) : (
+        <>
+          <Card className="rounded-card border-border bg-card shadow-e1">
+            <CardHeader>
+              <CardTitle className="text-foreground">Validation</CardTitle>
+              <CardDescription>
+                Checked as you edit — the trafficking builder and workbooks only use conventions that pass.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {issues.length === 0 ? (
+                <p className="text-sm font-medium text-status-ahead-fg">No issues.</p>
+              ) : (
+                <ul className="space-y-1 text-sm text-status-critical-fg">
+                  {issues.map((issue, i) => (
+                    <li key={i}>
+                      {issue.platform ? (
+                        <span className="font-mono">
+                          {issue.platform}
+                          {issue.level ? `/${issue.level}` : ""}:{" "}
+                        </span>
+                      ) : null}
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          {PLATFORMS.map((platform) => (
+            <Card key={platform} className="rounded-card border-border bg-card shadow-e1">
+              <CardHeader>
+                <CardTitle className="font-mono text-foreground">{platform}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-5">
+                {TEMPLATES.filter((t) => t.platform === platform).map((house) => {
+                  const override = overriddenLevels.get(levelKey(house))
+                  const id = `override-${house.platform}-${house.level}`
+                  return (
+                    <div key={house.level} className="space-y-3 border-t pt-4 first:border-t-0 first:pt-0">
+                      <div className="flex flex-wrap items-center gap-3">
+                        <span className="text-sm font-semibold capitalize">
+                          {house.level.replace(/_/g, " ")}
+                        </span>
+                        {house.isPacingGrain ? (
+                          <Badge variant="outline" size="sm">
+                            pacing grain
+                          </Badge>
+                        ) : null}
+                        <div className="ml-auto flex items-center gap-2">
+                          <Switch
+                            id={id}
+                            checked={Boolean(override)}
+                            onCheckedChange={(checked) =>
+                              setTemplateOverride(house, checked ? toOverride(house) : null)
+                            }
+                          />
+                          <Label htmlFor={id} className="text-xs">
+                            Override
+                          </Label>
+                        </div>
+                      </div>
+                      {override ? (
+                        <TemplateOverrideEditor
+                          template={override}
+                          picklistKeys={picklistKeys}
+                          onChange={(next) => setTemplateOverride(house, next)}
+                        />
+                      ) : (
+                        <code className="block truncate text-xs text-muted-foreground">
+                          {previewName(house)}
+                        </code>
+                      )}
+                    </div>
+                  )
+                })}
+              </CardContent>
+            </Card>
+          ))}
+
+          <Card className="rounded-card border-border bg-card shadow-e1">
+            <CardHeader>
+              <CardTitle className="text-foreground">Picklists</CardTitle>
+              <CardDescription>One slug per line. Overriding a list replaces the house values.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              {picklistKeys.map((key) => {
+                const values = draft.picklists[key]
+                const isHouse = key in PICKLISTS
+                const id = `picklist-${key}`
+                return (
+                  <div key={key} className="space-y-2">
+                    <div className="flex items-center gap-3">
+                      <span className="font-mono text-sm">{key}</span>
+                      {!isHouse ? (
+                        <Badge variant="secondary" size="sm">
+                          client
+                        </Badge>
+                      ) : null}
+                      <div className="ml-auto flex items-center gap-2">
+                        {isHouse ? (
+                          <>
+                            <Switch
+                              id={id}
+                              checked={Boolean(values)}
+                              onCheckedChange={(checked) =>
+                                setPicklist(key, checked ? [...PICKLISTS[key]] : null)
+                              }
+                            />
+                            <Label htmlFor={id} className="text-xs">
+                              Override
+                            </Label>
+                          </>
+                        ) : (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="text-xs"
+                            onClick={() => setPicklist(key, null)}
+                          >
+                            Remove
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {values ? (
+                      <Textarea
+                        value={values.join("\n")}
+                        onChange={(e) => setPicklist(key, e.target.value.split("\n"))}
+                        rows={Math.min(8, Math.max(3, values.length))}
+                        className="font-mono text-xs"
+                      />
+                    ) : (
+                      <p className="truncate font-mono text-xs text-muted-foreground">
+                        {(PICKLISTS[key] ?? []).join(", ")}
+                      </p>
+                    )}
+                  </div>
+                )
+              })}
+              <div className="flex items-center gap-2 border-t pt-4">
+                <Input
+                  value={newPicklistKey}
+                  onChange={(e) => setNewPicklistKey(e.target.value)}
+                  placeholder="new_picklist_key"
+                  className="h-8 w-56 font-mono text-xs"
+                  aria-label="New picklist key"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="text-xs"
+                  disabled={!newPicklistKey.trim() || newPicklistKey.trim() in merged.picklists}
+                  onClick={() => {
+                    setPicklist(newPicklistKey.trim(), [])
+                    setNewPicklistKey("")
+                  }}
+                >
+                  <Plus className="mr-1.5 h-3.5 w-3.5" aria-hidden />
+                  Add picklist
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="rounded-card border-border bg-card shadow-e1">
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <CardTitle className="text-foreground">UTM taxonomy</CardTitle>
+                <div className="ml-auto flex items-center gap-2">
+                  <Switch
+                    id="override-utm"
+                    checked={Boolean(draft.utm)}
+                    onCheckedChange={(checked) =>
+                      setDraft((prev) => {
+                        const { utm: _utm, ...rest } = prev
+                        return checked ? { ...rest, utm: copyUtmTaxonomy(HOUSE_UTM_TAXONOMY) } : rest
+                      })
+                    }
+                  />
+                  <Label htmlFor="override-utm" className="text-xs">
+                    Override
+                  </Label>
+                </div>
+              </div>
+              <CardDescription>
+                Allowed source and medium values for the trafficking page&apos;s bulk UTM links. Values
+                must be lowercase with no spaces.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {draft.utm ? (
+                <UtmTaxonomyEditor
+                  taxonomy={draft.utm}
+                  onChange={(utm) => setDraft((prev) => ({ ...prev, utm }))}
+                />
+              ) : (
+                <p className="font-mono text-xs text-muted-foreground">
+                  mediums: {HOUSE_UTM_TAXONOMY.mediums.join(", ")} · sources: any
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
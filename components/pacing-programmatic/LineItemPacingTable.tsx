@@ -16,6 +16,7 @@ import {
 } from "@/components/ui/sortable-table-header";
 import { Badge } from "@/components/ui/badge";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ProjectionCell } from "@/components/pacing/ProjectionCell";
 import type { DeliverableMetric } from "@/lib/pacing/deliverables/mapDeliverableMetric";
 import { inclusiveDaysBetween } from "@/lib/pacing/burst/currentBurst";
 import {
@@ -64,7 +65,8 @@ type PacingSortColumn =
   | "cpm"
   | "cpv"
   | "deliverableActual"
-  | "deliverableTarget";
+  | "deliverableTarget"
+  | "projection";
 
 type SortableValue = string | number | boolean | null | undefined;
 
@@ -94,6 +96,7 @@ const NUMERIC_SORT_COLUMNS = new Set<PacingSortColumn>([
   "cpv",
   "deliverableActual",
   "deliverableTarget",
+  "projection",
 ]);
 
 function sortableNumber(value: number | null | undefined): number {
@@ -125,6 +128,7 @@ const ROW_SORT_SELECTORS: Record<
   cpv: (r) => sortableNumber(r.cpv),
   deliverableActual: (r) => r.deliverableActual,
   deliverableTarget: (r) => r.deliverableTarget,
+  projection: (r) => sortableNumber(r.projection?.spend.projectedPct),
 };
 
 function SortablePacingTh({
@@ -646,6 +650,16 @@ export function LineItemPacingTable({ rows, asOfDate }: LineItemPacingTableProps
                 className="sticky bg-background p-2 text-right border-b"
                 style={{ top: 0, zIndex: 20 }}
               />
+              <SortablePacingTh
+                label="Forecast"
+                column="projection"
+                sortColumn={sortColumn}
+                sortDirection={sortDirection}
+                onToggle={toggleSort}
+                align="right"
+                className="sticky bg-background p-2 text-right whitespace-nowrap border-b"
+                style={{ top: 0, zIndex: 20 }}
+              />
             </tr>
           </thead>
           <tbody>
@@ -779,6 +793,10 @@ function FragmentForLineItem({
         <td className="p-2 border-b text-right tabular-nums" title={targetTitle}>
           {fmtNumberOrZero(row.deliverableTarget)}
         </td>
+        <ProjectionCell
+          projection={row.projection}
+          deliverableLabel={labelForDeliverableMetric(row.deliverableMetric).toLowerCase()}
+        />
       </tr>
 
       {isExpanded &&
@@ -861,6 +879,7 @@ function FragmentForCampaign({
           {fmtNumberOrZero(delivered)}
         </td>
         <td className="p-2 border-b" />
+        <td className="p-2 border-b" />
       </tr>
 
       {isExpanded &&
@@ -919,6 +938,7 @@ function AdSetRow({
         {fmtNumberOrZero(delivered)}
       </td>
       <td className="p-2 border-b" />
+      <td className="p-2 border-b" />
     </tr>
   );
 }
@@ -19,6 +19,7 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ProjectionCell } from "@/components/pacing/ProjectionCell";
 import { slugifyClientName } from "@/lib/api/dashboard/shared";
 import {
   buildKpiComparisons,
@@ -79,7 +80,8 @@ type PacingSortColumn =
   | "cpc"
   | "ctr"
   | "impressions"
-  | "conversions";
+  | "conversions"
+  | "projection";
 
 type SortableValue = string | number | boolean | null | undefined;
 
@@ -116,6 +118,7 @@ const NUMERIC_SORT_COLUMNS = new Set<PacingSortColumn>([
   "ctr",
   "impressions",
   "conversions",
+  "projection",
 ]);
 
 /** Nullable numerics sort after real values (asc and desc). */
@@ -156,6 +159,7 @@ const ROW_SORT_SELECTORS: Record<
   ctr: (r) => sortableNumber(r.ctr),
   impressions: (r) => r.impressions,
   conversions: (r) => r.conversions,
+  projection: (r) => sortableNumber(r.projection?.spend.projectedPct),
 };
 
 function SortablePacingTh({
@@ -717,6 +721,16 @@ export function LineItemPacingTable({
                 className="sticky bg-background p-2 text-right border-b"
                 style={{ top: 0, zIndex: 20 }}
               />
+              <SortablePacingTh
+                label="Forecast"
+                column="projection"
+                sortColumn={sortColumn}
+                sortDirection={sortDirection}
+                onToggle={toggleSort}
+                align="right"
+                className="sticky bg-background p-2 text-right whitespace-nowrap border-b"
+                style={{ top: 0, zIndex: 20 }}
+              />
               <th
                 className="sticky top-0 bg-background p-2 text-right border-b"
                 style={{ zIndex: 20 }}
@@ -874,6 +888,7 @@ function FragmentForLineItem({
         </td>
         <td className="p-2 border-b text-right tabular-nums">{fmtNumberOrZero(row.impressions)}</td>
         <td className="p-2 border-b text-right tabular-nums">{fmtNumberOrZero(row.conversions)}</td>
+        <ProjectionCell projection={row.projection} />
         <td className="p-2 text-right border-b whitespace-nowrap">
           <div className="inline-flex items-center gap-1.5">
             <Button variant="outline" size="sm" className="h-7 px-2.5 text-xs" asChild>
@@ -993,6 +1008,7 @@ function FragmentForCampaign({
         <td className="p-2 border-b text-right tabular-nums">{fmtNumberOrZero(campaign.impressions)}</td>
         <td className="p-2 border-b text-right tabular-nums">{fmtNumberOrZero(campaign.conversions)}</td>
         <td className="p-2 border-b" />
+        <td className="p-2 border-b" />
       </tr>
 
       {isExpanded &&
@@ -1052,6 +1068,7 @@ function FragmentForCampaign({
             <td className="p-2 border-b text-right tabular-nums">{fmtNumberOrZero(ag.impressions)}</td>
             <td className="p-2 border-b text-right tabular-nums">{fmtNumberOrZero(ag.conversions)}</td>
             <td className="p-2 border-b" />
+            <td className="p-2 border-b" />
           </tr>
         ))}
     </Fragment>
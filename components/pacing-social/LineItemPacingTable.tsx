@@ -16,6 +16,7 @@ import {
 } from "@/components/ui/sortable-table-header";
 import { Badge } from "@/components/ui/badge";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ProjectionCell } from "@/components/pacing/ProjectionCell";
 import type { DeliverableMetric } from "@/lib/pacing/deliverables/mapDeliverableMetric";
 import { inclusiveDaysBetween } from "@/lib/pacing/burst/currentBurst";
 import {
@@ -63,7 +64,8 @@ type PacingSortColumn =
   | "impressions"
   | "clicks"
   | "deliverableActual"
-  | "deliverableTarget";
+  | "deliverableTarget"
+  | "projection";
 
 type SortableValue = string | number | boolean | null | undefined;
 
@@ -91,6 +93,7 @@ const NUMERIC_SORT_COLUMNS = new Set<PacingSortColumn>([
   "clicks",
   "deliverableActual",
   "deliverableTarget",
+  "projection",
 ]);
 
 function sortableNumber(value: number | null | undefined): number {
@@ -120,6 +123,7 @@ const ROW_SORT_SELECTORS: Record<
   clicks: (r) => r.clicks,
   deliverableActual: (r) => r.deliverableActual,
   deliverableTarget: (r) => r.deliverableTarget,
+  projection: (r) => sortableNumber(r.projection?.spend.projectedPct),
 };
 
 function SortablePacingTh({
@@ -618,6 +622,16 @@ export function LineItemPacingTable({ rows, asOfDate }: LineItemPacingTableProps
                 className="sticky bg-background p-2 text-right border-b"
                 style={{ top: 0, zIndex: 20 }}
               />
+              <SortablePacingTh
+                label="Forecast"
+                column="projection"
+                sortColumn={sortColumn}
+                sortDirection={sortDirection}
+                onToggle={toggleSort}
+                align="right"
+                className="sticky bg-background p-2 text-right whitespace-nowrap border-b"
+                style={{ top: 0, zIndex: 20 }}
+              />
             </tr>
           </thead>
           <tbody>
@@ -749,6 +763,10 @@ function FragmentForLineItem({
         <td className="p-2 border-b text-right tabular-nums" title={targetTitle}>
           {fmtNumberOrZero(row.deliverableTarget)}
         </td>
+        <ProjectionCell
+          projection={row.projection}
+          deliverableLabel={labelForDeliverableMetric(row.deliverableMetric).toLowerCase()}
+        />
       </tr>
 
       {isExpanded &&
@@ -829,6 +847,7 @@ function FragmentForCampaign({
           {fmtNumberOrZero(delivered)}
         </td>
         <td className="p-2 border-b" />
+        <td className="p-2 border-b" />
       </tr>
 
       {isExpanded &&
@@ -885,6 +904,7 @@ function AdSetRow({
         {fmtNumberOrZero(delivered)}
       </td>
       <td className="p-2 border-b" />
+      <td className="p-2 border-b" />
     </tr>
   );
 }
@@ -0,0 +1,38 @@
+"use client"
+
+import Link from "next/link"
+import { usePathname } from "next/navigation"
+import { cn } from "@/lib/utils"
+
+const adminLinks = [
+  { href: "/pacing/admin/orphans", label: "Orphans" },
+  { href: "/pacing/admin/naming", label: "Naming" },
+] as const
+
+/** Sub-navigation between the pacing admin tools. */
+export function PacingAdminNav() {
+  const pathname = usePathname() ?? ""
+
+  return (
+    <nav aria-label="Pacing admin" className="flex gap-1 px-4">
+      {adminLinks.map(({ href, label }) => {
+        const active = pathname === href || pathname.startsWith(`${href}/`)
+        return (
+          <Link
+            key={href}
+            href={href}
+            aria-current={active ? "page" : undefined}
+            className={cn(
+              "rounded-md px-3 py-1 text-xs font-medium transition-colors",
+              active
+                ? "bg-muted text-foreground"
+                : "text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {label}
+          </Link>
+        )
+      })}
+    </nav>
+  )
+}
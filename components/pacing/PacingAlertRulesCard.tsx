@@ -0,0 +1,350 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { BellRing, Loader2, Plus, Trash2 } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { EmptyState, ErrorState, LoadingState } from "@/components/ui/states"
+import { Switch } from "@/components/ui/switch"
+import { useToast } from "@/components/ui/use-toast"
+import {
+  createMyPacingAlertRule,
+  deleteMyPacingAlertRule,
+  getMyPacingAlertRules,
+  updateMyPacingAlertRule,
+} from "@/lib/api/pacingAlertRules"
+import {
+  describePacingAlertRule,
+  PACING_ALERT_CHANNELS,
+  PACING_ALERT_CONDITION_LABEL,
+  type PacingAlertCondition,
+  type PacingAlertConditionKind,
+  type PacingAlertRule,
+} from "@/lib/ops/digest/alertRules"
+
+type Draft = {
+  name: string
+  kind: PacingAlertConditionKind
+  thresholdPct: string
+  minDaysElapsed: string
+  clientNames: string
+  mbaNumbers: string
+  channels: string[]
+  platforms: string
+}
+
+const EMPTY_DRAFT: Draft = {
+  name: "",
+  kind: "behind",
+  thresholdPct: "15",
+  minDaysElapsed: "5",
+  clientNames: "",
+  mbaNumbers: "",
+  channels: [],
+  platforms: "",
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean)
+}
+
+function draftCondition(draft: Draft): PacingAlertCondition {
+  const threshold = Number(draft.thresholdPct) || 0
+  const minDays = Math.max(0, Math.floor(Number(draft.minDaysElapsed) || 0))
+  switch (draft.kind) {
+    case "behind":
+    case "ahead":
+      return { kind: draft.kind, threshold_pct: threshold, min_days_elapsed: minDays }
+    case "under_delivers":
+      return { kind: "under_delivers", threshold_pct: threshold }
+    case "exhausts_early":
+      return { kind: "exhausts_early" }
+    case "anomaly":
+      return { kind: "anomaly" }
+  }
+}
+
+/**
+ * Personal pacing alert subscriptions. Rules are evaluated by the daily
+ * pacing-digest cron; matches go to the owner's email, separate from the ops digest.
+ */
+export function PacingAlertRulesCard() {
+  const { toast } = useToast()
+  const [rules, setRules] = useState<PacingAlertRule[] | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT)
+  const [saving, setSaving] = useState(false)
+  const [busyId, setBusyId] = useState<number | null>(null)
+
+  const load = useCallback(async () => {
+    setLoadError(null)
+    try {
+      setRules(await getMyPacingAlertRules())
+    } catch (e) {
+      setLoadError(e instanceof Error ? e.message : String(e))
+    }
+  }, [])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  const showThreshold = draft.kind === "behind" || draft.kind === "ahead" || draft.kind === "under_delivers"
+  const showMinDays = draft.kind === "behind" || draft.kind === "ahead"
+
+  const addRule = async () => {
+    setSaving(true)
+    try {
+      const created = await createMyPacingAlertRule({
+        name: draft.name.trim() || PACING_ALERT_CONDITION_LABEL[draft.kind],
+        enabled: true,
+        scope: {
+          client_names: splitList(draft.clientNames),
+          mba_numbers: splitList(draft.mbaNumbers),
+          channels: draft.channels,
+          platforms: splitList(draft.platforms),
+        },
+        condition: draftCondition(draft),
+      })
+      setRules((prev) => [...(prev ?? []), created])
+      setDraft(EMPTY_DRAFT)
+    } catch (e) {
+      toast({
+        variant: "destructive",
+        title: "Could not save alert",
+        description: e instanceof Error ? e.message : String(e),
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleRule = async (rule: PacingAlertRule) => {
+    setBusyId(rule.id)
+    try {
+      const updated = await updateMyPacingAlertRule(rule.id, { enabled: !rule.enabled })
+      setRules((prev) => (prev ?? []).map((r) => (r.id === rule.id ? updated : r)))
+    } catch (e) {
+      toast({
+        variant: "destructive",
+        title: "Could not update alert",
+        description: e instanceof Error ? e.message : String(e),
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const removeRule = async (rule: PacingAlertRule) => {
+    setBusyId(rule.id)
+    try {
+      await deleteMyPacingAlertRule(rule.id)
+      setRules((prev) => (prev ?? []).filter((r) => r.id !== rule.id))
+    } catch (e) {
+      toast({
+        variant: "destructive",
+        title: "Could not delete alert",
+        description: e instanceof Error ? e.message : String(e),
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const toggleChannel = (channel: string, checked: boolean) => {
+    setDraft((prev) => ({
+      ...prev,
+      channels: checked ? [...prev.channels, channel] : prev.channels.filter((c) => c !== channel),
+    }))
+  }
+
+  return (
+    <Card className="rounded-card border-border bg-card shadow-e0">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-foreground">
+          <BellRing className="h-5 w-5 text-muted-foreground" aria-hidden />
+          Pacing alerts
+        </CardTitle>
+        <CardDescription>
+          Emailed to you after the daily pacing digest whenever a live line item in scope matches.
+          Leave a scope field blank to match everything; with no scope the rule covers every live line, not only your clients.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loadError ? (
+          <ErrorState title="Could not load alerts" message={loadError} />
+        ) : rules == null ? (
+          <LoadingState rows={2} />
+        ) : rules.length === 0 ? (
+          <EmptyState title="No pacing alerts" message="Add a rule below to start getting alerts." />
+        ) : (
+          <div className="divide-y divide-border rounded-card border border-border bg-surface-panel">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between gap-4 p-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h3 className="truncate font-medium text-foreground">{rule.name}</h3>
+                    <Badge variant="outline" size="sm">
+                      {PACING_ALERT_CONDITION_LABEL[rule.condition.kind]}
+                    </Badge>
+                  </div>
+                  <p className="truncate text-sm text-muted-foreground">{describePacingAlertRule(rule)}</p>
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  <Switch
+                    checked={rule.enabled}
+                    disabled={busyId === rule.id}
+                    onCheckedChange={() => void toggleRule(rule)}
+                    aria-label={`Toggle ${rule.name}`}
+                  />
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    disabled={busyId === rule.id}
+                    onClick={() => void removeRule(rule)}
+                    aria-label={`Delete ${rule.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3 rounded-card border border-border p-4">
+          <div className="grid gap-3 md:grid-cols-2">
+            <div className="space-y-1.5">
+              <Label htmlFor="alert-rule-name" className="text-xs text-muted-foreground">
+                Name
+              </Label>
+              <Input
+                id="alert-rule-name"
+                value={draft.name}
+                placeholder={PACING_ALERT_CONDITION_LABEL[draft.kind]}
+                onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs text-muted-foreground">Alert when</Label>
+              <Select
+                value={draft.kind}
+                onValueChange={(v) => setDraft((prev) => ({ ...prev, kind: v as PacingAlertConditionKind }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PACING_ALERT_CONDITION_LABEL) as PacingAlertConditionKind[]).map((kind) => (
+                    <SelectItem key={kind} value={kind}>
+                      {PACING_ALERT_CONDITION_LABEL[kind]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {showThreshold ? (
+              <div className="space-y-1.5">
+                <Label htmlFor="alert-rule-threshold" className="text-xs text-muted-foreground">
+                  {draft.kind === "under_delivers" ? "Shortfall more than (%)" : "By more than (%)"}
+                </Label>
+                <Input
+                  id="alert-rule-threshold"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={draft.thresholdPct}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, thresholdPct: e.target.value }))}
+                />
+              </div>
+            ) : null}
+            {showMinDays ? (
+              <div className="space-y-1.5">
+                <Label htmlFor="alert-rule-min-days" className="text-xs text-muted-foreground">
+                  Only after day
+                </Label>
+                <Input
+                  id="alert-rule-min-days"
+                  type="number"
+                  min={0}
+                  value={draft.minDaysElapsed}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, minDaysElapsed: e.target.value }))}
+                />
+              </div>
+            ) : null}
+            <div className="space-y-1.5">
+              <Label htmlFor="alert-rule-clients" className="text-xs text-muted-foreground">
+                Clients (comma separated)
+              </Label>
+              <Input
+                id="alert-rule-clients"
+                value={draft.clientNames}
+                onChange={(e) => setDraft((prev) => ({ ...prev, clientNames: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="alert-rule-mbas" className="text-xs text-muted-foreground">
+                MBA numbers (comma separated)
+              </Label>
+              <Input
+                id="alert-rule-mbas"
+                value={draft.mbaNumbers}
+                onChange={(e) => setDraft((prev) => ({ ...prev, mbaNumbers: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="alert-rule-platforms" className="text-xs text-muted-foreground">
+                Platforms (e.g. meta, tiktok, DV360)
+              </Label>
+              <Input
+                id="alert-rule-platforms"
+                value={draft.platforms}
+                onChange={(e) => setDraft((prev) => ({ ...prev, platforms: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <span className="text-xs text-muted-foreground">Channels</span>
+              <div className="flex flex-wrap gap-4 pt-2">
+                {PACING_ALERT_CHANNELS.map((channel) => (
+                  <div key={channel} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`alert-rule-channel-${channel}`}
+                      checked={draft.channels.includes(channel)}
+                      onCheckedChange={(v) => toggleChannel(channel, v === true)}
+                    />
+                    <Label
+                      htmlFor={`alert-rule-channel-${channel}`}
+                      className="cursor-pointer text-sm font-normal capitalize"
+                    >
+                      {channel}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="button" size="sm" disabled={saving} onClick={() => void addRule()}>
+              {saving ? (
+                <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Plus className="mr-1.5 h-3.5 w-3.5" />
+              )}
+              Add alert
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -54,8 +54,10 @@ export function PacingShell({ children, isAdmin = false }: PacingShellProps) {
         className="-mt-1 flex border-b border-border/60"
       >
         {tabs.map(({ href, label }) => {
+          // Admin links to its first tool but stays active across /pacing/admin/*.
+          const prefix = href.startsWith("/pacing/admin/") ? "/pacing/admin" : href
           const active =
-            pathname === href || pathname.startsWith(`${href}/`)
+            pathname === prefix || pathname.startsWith(`${prefix}/`)
           return (
             <Link
               key={href}
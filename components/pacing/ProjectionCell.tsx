@@ -0,0 +1,83 @@
+"use client"
+
+import { AlertTriangle } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { formatAUD } from "@/lib/format/money"
+import {
+  describeAnomaly,
+  projectedSpendPctLabel,
+  projectionOutcomeLabel,
+} from "@/lib/pacing/projection/formatProjection"
+import {
+  PROJECTION_TRAILING_DAYS,
+  type LineItemProjection,
+  type ProjectionOutcome,
+} from "@/lib/pacing/projection/projectPacing"
+
+const OUTCOME_VARIANT: Record<ProjectionOutcome, "on-track" | "ahead" | "behind" | "secondary"> = {
+  exhaust_early: "ahead",
+  under_deliver: "behind",
+  on_target: "on-track",
+  insufficient_data: "secondary",
+}
+
+function fmtNumber(n: number): string {
+  return new Intl.NumberFormat("en-AU", { maximumFractionDigits: 0 }).format(n)
+}
+
+function projectionTitle(projection: LineItemProjection, deliverableLabel?: string): string {
+  const { spend, deliverable } = projection
+  const lines = [
+    `Projected spend ${formatAUD(spend.projectedFinal)} of ${formatAUD(spend.goalTotal)}`,
+    `80% range ${formatAUD(spend.low)} – ${formatAUD(spend.high)}`,
+    `Run-rate ${formatAUD(spend.runRate)}/day over the last ${Math.min(PROJECTION_TRAILING_DAYS, projection.observedDays)} complete days` +
+      (projection.seasonalityApplied ? " (weekday-adjusted)" : ""),
+  ]
+  if (deliverable) {
+    lines.push(
+      `Projected ${deliverableLabel ?? "deliverable"} ${fmtNumber(deliverable.projectedFinal)} of ${fmtNumber(deliverable.goalTotal)} (${fmtNumber(deliverable.low)} – ${fmtNumber(deliverable.high)})`,
+    )
+  }
+  lines.push(`Burst ${projection.startDate} → ${projection.endDate} · ${projection.remainingDays} days left`)
+  return lines.join("\n")
+}
+
+/**
+ * Forecast-to-completion cell for the pacing line-item tables. Projects the
+ * current burst only (same window as the status pill).
+ */
+export function ProjectionCell({
+  projection,
+  deliverableLabel,
+}: {
+  projection: LineItemProjection | null
+  deliverableLabel?: string
+}) {
+  if (!projection) {
+    return <td className="p-2 border-b text-right text-muted-foreground">—</td>
+  }
+
+  const anomalyTitle = projection.anomalies.map(describeAnomaly).join("\n")
+
+  return (
+    <td className="p-2 border-b text-right" title={projectionTitle(projection, deliverableLabel)}>
+      <div className="inline-flex items-center justify-end gap-1.5 whitespace-nowrap">
+        {projection.anomalies.length > 0 ? (
+          <span title={anomalyTitle} aria-label="Delivery anomaly">
+            <AlertTriangle className="h-3 w-3 text-status-behind" />
+          </span>
+        ) : null}
+        {projection.outcome !== "insufficient_data" ? (
+          <span className="tabular-nums">{projectedSpendPctLabel(projection)}</span>
+        ) : null}
+        <Badge
+          variant={OUTCOME_VARIANT[projection.outcome]}
+          size="sm"
+          className="whitespace-nowrap text-[10px]"
+        >
+          {projectionOutcomeLabel(projection)}
+        </Badge>
+      </div>
+    </td>
+  )
+}
@@ -13,6 +13,7 @@ import type {
   BriefState,
   DiagnosisState,
   AudienceDraft,
+  AllocationMode,
 } from "@/components/planning/store"
 import {
   effectiveSegmentId,
@@ -36,6 +37,7 @@ type ExportDeckButtonProps = {
   onInsight: (cacheKey: string, text: string) => void
   segments: PlanningSegment[]
   showDollars: boolean
+  allocationMode: AllocationMode
 }
 
 function waitFrames(n = 2) {
@@ -142,6 +144,7 @@ export function ExportDeckButton({
   onInsight,
   segments,
   showDollars,
+  allocationMode,
 }: ExportDeckButtonProps) {
   const { toast } = useToast()
   const [busy, setBusy] = useState(false)
@@ -225,7 +228,11 @@ export function ExportDeckButton({
       }
 
       const splitCap = await mountAndCapture(
-        <RecommendedSplitBlock bundles={bundles} showDollars={showDollars} />,
+        <RecommendedSplitBlock
+          bundles={bundles}
+          showDollars={showDollars}
+          allocationMode={allocationMode}
+        />,
         ['[data-export="recommended-split"]']
       )
       const split = splitCap['[data-export="recommended-split"]']
@@ -0,0 +1,148 @@
+"use client"
+
+import type { BudgetOptimiserResult } from "@/lib/planning/budgetOptimiser"
+import { cn } from "@/lib/utils"
+import { AUDIENCE_ACCENTS } from "./constants"
+import type { AudienceCompareBundle } from "./StageCompare"
+
+type OptimiserSensitivityBlockProps = {
+  bundles: AudienceCompareBundle[]
+  channelNamesById: Record<string, string>
+}
+
+function fmtDollars(n: number): string {
+  if (n >= 1_000_000) return `$${(n / 1_000_000).toFixed(2)}M`
+  if (n >= 1000) return `$${Math.round(n / 1000)}k`
+  return `$${Math.round(n)}`
+}
+
+function fmtSigned(n: number, digits = 1): string {
+  const v = n.toFixed(digits)
+  return n > 0 ? `+${v}` : v
+}
+
+function SensitivityTable({
+  optimiser,
+  channelNamesById,
+}: {
+  optimiser: BudgetOptimiserResult
+  channelNamesById: Record<string, string>
+}) {
+  const [low, high] = optimiser.sensitivity
+  const rows = optimiser.channels
+    .filter((c, i) => c.dollars > 0 || (low?.channels[i]?.dollars ?? 0) > 0 || (high?.channels[i]?.dollars ?? 0) > 0)
+    .sort((a, b) => b.pct - a.pct)
+
+  return (
+    <table className="w-full border-collapse text-xs">
+      <thead>
+        <tr className="border-b border-border text-left text-[11px] font-medium uppercase tracking-wider text-muted-foreground">
+          <th className="px-3 py-2">Channel</th>
+          {low ? <th className="px-3 py-2 text-right">{low.swing_pct}% budget</th> : null}
+          <th className="px-3 py-2 text-right">Base</th>
+          {high ? <th className="px-3 py-2 text-right">+{high.swing_pct}% budget</th> : null}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((c) => {
+          const i = optimiser.channels.indexOf(c)
+          return (
+            <tr key={c.id} className="border-b border-border last:border-0">
+              <td className="px-3 py-1.5">
+                {channelNamesById[c.id] ?? c.id}
+                {c.bound ? (
+                  <span className="ml-1.5 text-[10px] text-muted-foreground">
+                    at {c.bound} {Math.round(c.bound === "min" ? c.min_pct : c.max_pct)}%
+                  </span>
+                ) : null}
+              </td>
+              {low ? (
+                <td className="num px-3 py-1.5 text-right tabular-nums">
+                  {low.channels[i]!.pct.toFixed(1)}%
+                  <span className="ml-1 text-[10px] text-muted-foreground">
+                    ({fmtSigned(low.channels[i]!.pct_change_pts)})
+                  </span>
+                </td>
+              ) : null}
+              <td className="num px-3 py-1.5 text-right tabular-nums">{c.pct.toFixed(1)}%</td>
+              {high ? (
+                <td className="num px-3 py-1.5 text-right tabular-nums">
+                  {high.channels[i]!.pct.toFixed(1)}%
+                  <span className="ml-1 text-[10px] text-muted-foreground">
+                    ({fmtSigned(high.channels[i]!.pct_change_pts)})
+                  </span>
+                </td>
+              ) : null}
+            </tr>
+          )
+        })}
+        <tr className="border-t border-border bg-muted/20 font-medium">
+          <td className="px-3 py-1.5">Weighted reach pts</td>
+          {low ? (
+            <td className="num px-3 py-1.5 text-right tabular-nums">
+              {low.objective.toFixed(1)}
+              <span className="ml-1 text-[10px] font-normal text-muted-foreground">
+                ({fmtSigned(low.objective_change_pct)}%)
+              </span>
+            </td>
+          ) : null}
+          <td className="num px-3 py-1.5 text-right tabular-nums">{optimiser.objective.toFixed(1)}</td>
+          {high ? (
+            <td className="num px-3 py-1.5 text-right tabular-nums">
+              {high.objective.toFixed(1)}
+              <span className="ml-1 text-[10px] font-normal text-muted-foreground">
+                ({fmtSigned(high.objective_change_pct)}%)
+              </span>
+            </td>
+          ) : null}
+        </tr>
+        <tr className="text-[10px] text-muted-foreground">
+          <td className="px-3 py-1.5">Budget</td>
+          {low ? <td className="num px-3 py-1.5 text-right tabular-nums">{fmtDollars(low.budget)}</td> : null}
+          <td className="num px-3 py-1.5 text-right tabular-nums">{fmtDollars(optimiser.budget)}</td>
+          {high ? <td className="num px-3 py-1.5 text-right tabular-nums">{fmtDollars(high.budget)}</td> : null}
+        </tr>
+      </tbody>
+    </table>
+  )
+}
+
+/** ±budget sensitivity for the optimised split, one panel per audience. */
+export function OptimiserSensitivityBlock({ bundles, channelNamesById }: OptimiserSensitivityBlockProps) {
+  const withRuns = bundles.filter((b) => b.optimiser)
+  if (withRuns.length === 0) return null
+
+  return (
+    <div className="space-y-2" data-export="optimiser-sensitivity">
+      <div>
+        <h3 className="text-sm font-medium">Budget sensitivity</h3>
+        <p className="mt-0.5 text-xs text-muted-foreground">
+          The optimiser re-run at lower and higher budgets. Share changes are percentage points vs the base
+          split; weighted reach points are DFII-weighted channel reach summed across the mix.
+        </p>
+      </div>
+      <div className={cn("grid gap-3", withRuns.length > 1 && "lg:grid-cols-2")}>
+        {withRuns.map((b) => {
+          const accent = AUDIENCE_ACCENTS[b.draft.colorIndex]!
+          const optimiser = b.optimiser!
+          return (
+            <div key={b.draft.id} className="overflow-hidden rounded-card border border-border bg-card shadow-e1">
+              <div className="flex items-center gap-1.5 border-b border-border px-3 py-2 text-xs font-medium">
+                <span className={cn("h-2 w-2 rounded-full", accent.bg)} />
+                {b.draft.name}
+              </div>
+              <SensitivityTable optimiser={optimiser} channelNamesById={channelNamesById} />
+              {optimiser.warnings.length > 0 ? (
+                <ul className="space-y-0.5 border-t border-border px-3 py-2 text-[11px] text-status-behind-fg">
+                  {optimiser.warnings.map((w) => (
+                    <li key={w}>{w}</li>
+                  ))}
+                </ul>
+              ) : null}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
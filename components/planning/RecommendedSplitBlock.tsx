@@ -1,16 +1,19 @@
 "use client"
 
+import { estimateAllocatedReach } from "@/app/tools/behavioural-planner/lib/bcs-engine"
 import type { AllocatedChannel } from "@/app/tools/behavioural-planner/lib/types"
 import { dfii } from "@/lib/planning/dfii"
 import { cn } from "@/lib/utils"
 import { DfiiValue } from "./OutcomeCharts"
 import { AUDIENCE_ACCENTS } from "./constants"
 import type { AudienceCompareBundle } from "./StageCompare"
+import type { AllocationMode } from "./store"
 
 type RecommendedSplitBlockProps = {
   bundles: AudienceCompareBundle[]
   /** When true, show indicative dollars from allocate (brief.budget > 0). */
   showDollars: boolean
+  allocationMode: AllocationMode
 }
 
 type SplitRow = {
@@ -22,6 +25,8 @@ type SplitRow = {
     dollars: number
     isLead: boolean
     dfii: number | null
+    /** De-duplicated reach points gained from the next $10k here; null without curves. */
+    extraPer10kPts: number | null
   } | null>
   combinedWeight: number
   scoredOrder: number
@@ -51,6 +56,22 @@ function buildSplitRows(bundles: AudienceCompareBundle[]): SplitRow[] {
     dfiiByAudience.set(b.draft.id, map)
   }
 
+  const marginalByAudience = new Map<string, Map<string, number>>()
+  for (const b of bundles) {
+    const audienceWc = b.adapted?.audienceWc ?? 0
+    if (!(audienceWc > 0) || b.allocated.length === 0) continue
+    // Unallocated scored channels join at $0 so their first-dollar reach shows too.
+    const allocatedIds = new Set(b.allocated.map((a) => a.ch.id))
+    const atZero = b.scored
+      .filter((s) => !allocatedIds.has(s.ch.id))
+      .map((s) => ({ ...s, pct: 0, dollars: 0 }))
+    const est = estimateAllocatedReach([...b.allocated, ...atZero], audienceWc)
+    marginalByAudience.set(
+      b.draft.id,
+      new Map(est.channels.map((c) => [c.id, c.marginalReachPerThousand * 10 * 100]))
+    )
+  }
+
   const allocByAudience = new Map<string, Map<string, AllocatedChannel>>()
   for (const b of bundles) {
     allocByAudience.set(
@@ -93,6 +114,7 @@ function buildSplitRows(bundles: AudienceCompareBundle[]): SplitRow[] {
         dollars: alloc?.dollars ?? 0,
         isLead: false,
         dfii: dfiiByAudience.get(b.draft.id)?.get(channelId) ?? null,
+        extraPer10kPts: marginalByAudience.get(b.draft.id)?.get(channelId) ?? null,
       }
     })
 
@@ -128,6 +150,7 @@ function buildSplitRows(bundles: AudienceCompareBundle[]): SplitRow[] {
 export function RecommendedSplitBlock({
   bundles,
   showDollars,
+  allocationMode,
 }: RecommendedSplitBlockProps) {
   const rows = buildSplitRows(bundles)
 
@@ -142,9 +165,13 @@ export function RecommendedSplitBlock({
       <div>
         <h3 className="text-sm font-medium">Recommended split</h3>
         <p className="mt-0.5 text-xs text-muted-foreground">
-          All channels shown with DFII. Budget concentrates in the top{" "}
-          {bundles[0]?.allocated.length || 8} by BCS (power 1.5) — percentages sum to
-          100% per audience
+          {allocationMode === "reach" && showDollars
+            ? "All channels shown with DFII. Budget follows marginal de-duplicated reach across the top BCS channels — each increment goes where it adds the most reach; channels without RM reach (e.g. Search) get none. Percentages sum to 100% per audience"
+            : allocationMode === "optimised" && showDollars
+              ? "All channels shown with DFII. Budget is optimised for DFII-weighted reach across the top BCS channels, within the Stage D min / max shares. Percentages sum to 100% per audience unless maximums cap the spend"
+              : `All channels shown with DFII. Budget concentrates in the top ${
+                bundles[0]?.allocated.length || 8
+              } by BCS (power 1.5) — percentages sum to 100% per audience`}
           {showDollars
             ? ". Dollars are indicative — benchmark CPMs until warehouse CPMs are seeded."
             : ". Add a working budget in Stage A to see indicative dollars."}
@@ -236,6 +263,14 @@ export function RecommendedSplitBlock({
                             <span className="inline-flex items-center gap-1">
                               DFII <DfiiValue value={cell.dfii} />
                             </span>
+                            {showDollars && cell.extraPer10kPts != null ? (
+                              <span
+                                className="num tabular-nums"
+                                title="De-duplicated reach gained from the next $10k in this channel"
+                              >
+                                +{cell.extraPer10kPts.toFixed(2)} pts/$10k
+                              </span>
+                            ) : null}
                           </div>
                         </td>
                       )
@@ -4,17 +4,21 @@ import { useState } from "react"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
+import { Segmented, SegmentedItem } from "@/components/ui/segmented"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useToast } from "@/components/ui/use-toast"
+import { estimateAllocatedReach } from "@/app/tools/behavioural-planner/lib/bcs-engine"
 import type { AllocatedChannel, ScoredChannel } from "@/app/tools/behavioural-planner/lib/types"
 import type { AdapterResult } from "@/lib/planning/adapter"
 import type { PlanningAudienceRow } from "@/lib/planning/audienceTypes"
 import { buildCreateCampaignHref } from "@/lib/mediaplan/createPrefill"
+import type { BudgetOptimiserResult, ChannelBounds } from "@/lib/planning/budgetOptimiser"
 import { PLANNING_CHANNEL_BENCH_VERSION } from "@/lib/planning/planningChannelBench"
 import { buildRecommendedSplitV1 } from "@/lib/planning/recommendedSplit"
 import { cn } from "@/lib/utils"
 import { CompareAudienceInsight } from "./CompareAudienceInsight"
 import { ExportDeckButton } from "./ExportDeckButton"
+import { OptimiserSensitivityBlock } from "./OptimiserSensitivityBlock"
 import { AllChannelsCompareTable } from "./AllChannelsCompareTable"
 import { OutcomeCharts, topDfiiLabel } from "./OutcomeCharts"
 import { RecommendedSplitBlock } from "./RecommendedSplitBlock"
@@ -22,6 +26,7 @@ import { SavedAudienceAttachList } from "./SavedAudienceAttachList"
 import { AUDIENCE_ACCENTS } from "./constants"
 import { formatAudienceWc, robustnessFromN } from "./robustness"
 import type {
+  AllocationMode,
   AudienceDraft,
   BriefState,
   DiagnosisState,
@@ -34,6 +39,8 @@ export type AudienceCompareBundle = {
   /** Full BCS-scored set (Stage D exclusions already applied). */
   scored: ScoredChannel[]
   allocated: AllocatedChannel[]
+  /** Constrained optimiser run behind `allocated` (optimised mode only). */
+  optimiser: BudgetOptimiserResult | null
   loading: boolean
   error: string | null
 }
@@ -43,6 +50,8 @@ export type SavedAudienceDefinition = {
   brief: BriefState
   diagnosis: DiagnosisState
   exclusions: string[]
+  /** Stage D min/max shares for the optimiser. */
+  channel_bounds?: Record<string, ChannelBounds>
   wave_id: string
   /** Frozen Stage E → create handoff snapshot (lives in freeform definition_json). */
   recommended_split?: ReturnType<typeof buildRecommendedSplitV1>
@@ -55,7 +64,10 @@ type StageCompareProps = {
   waveLabel: string
   reachBasis: string
   excludedChannelIds: string[]
+  channelBounds: Record<string, ChannelBounds>
   bundles: AudienceCompareBundle[]
+  allocationMode: AllocationMode
+  onAllocationModeChange: (mode: AllocationMode) => void
   savedAudiences: PlanningAudienceRow[]
   savedLoading: boolean
   /** engineChannelId → display name for export constraints summary */
@@ -74,6 +86,26 @@ function blendedReach(allocated: AllocatedChannel[]): number {
   return allocated.reduce((s, a) => s + a.ch.reachPct * 100 * (a.pct / 100), 0)
 }
 
+/**
+ * De-duplicated reach at the indicative dollars, plus reach points gained per
+ * extra $10k spread pro rata across the current split.
+ */
+export function dedupedReachSummary(bundle: AudienceCompareBundle): {
+  reachPct: number
+  extraPer10kPts: number
+} | null {
+  const audienceWc = bundle.adapted?.audienceWc ?? 0
+  if (!(audienceWc > 0) || bundle.allocated.length === 0) return null
+  const est = estimateAllocatedReach(bundle.allocated, audienceWc)
+  if (!(est.combinedReach > 0)) return null
+  const share = new Map(bundle.allocated.map((a) => [a.ch.id, a.pct / 100]))
+  const perThousand = est.channels.reduce(
+    (t, c) => t + (share.get(c.id) ?? 0) * c.marginalReachPerThousand,
+    0
+  )
+  return { reachPct: est.combinedReach * 100, extraPer10kPts: perThousand * 10 * 100 }
+}
+
 function topMix(allocated: AllocatedChannel[], n = 3) {
   return allocated.slice(0, n)
 }
@@ -85,7 +117,10 @@ export function StageCompare({
   waveLabel,
   reachBasis,
   excludedChannelIds,
+  channelBounds,
   bundles,
+  allocationMode,
+  onAllocationModeChange,
   savedAudiences,
   savedLoading,
   channelNamesById,
@@ -133,12 +168,14 @@ export function StageCompare({
       })),
       budget: brief.budget,
       benchVersion: PLANNING_CHANNEL_BENCH_VERSION,
+      optimiser: bundle.optimiser,
     })
     const definition: SavedAudienceDefinition = {
       audience: bundle.draft,
       brief,
       diagnosis,
       exclusions: excludedChannelIds,
+      channel_bounds: channelBounds,
       wave_id: waveId,
       recommended_split,
     }
@@ -232,6 +269,7 @@ export function StageCompare({
           onInsight={onInsight}
           segments={segments}
           showDollars={showDollars}
+          allocationMode={allocationMode}
         />
       </div>
 
@@ -251,6 +289,7 @@ export function StageCompare({
           const lead = b.allocated[0]
           const mix = topMix(b.allocated, 3)
           const reach = blendedReach(b.allocated)
+          const deduped = showDollars ? dedupedReachSummary(b) : null
           const busy = savingId === b.draft.id
           return (
             <div
@@ -277,10 +316,27 @@ export function StageCompare({
                   <span>
                     n <span className="num text-foreground">{rob.n || "—"}</span>
                   </span>
-                  <span>
-                    Reach{" "}
-                    <span className="num text-foreground">{Math.round(reach)}%</span>
-                  </span>
+                  {deduped ? (
+                    <>
+                      <span title="De-duplicated across channels at indicative dollars">
+                        Est. reach{" "}
+                        <span className="num text-foreground">
+                          {Math.round(deduped.reachPct)}%
+                        </span>
+                      </span>
+                      <span title="Reach gained from another $10k spread across this split">
+                        +$10k{" "}
+                        <span className="num text-foreground">
+                          +{deduped.extraPer10kPts.toFixed(2)} pts
+                        </span>
+                      </span>
+                    </>
+                  ) : (
+                    <span>
+                      Reach{" "}
+                      <span className="num text-foreground">{Math.round(reach)}%</span>
+                    </span>
+                  )}
                 </div>
                 <div className="sr-only">
                   audience_wc={b.adapted?.audienceWc ?? 0} unweighted_n={rob.n}
@@ -348,13 +404,40 @@ export function StageCompare({
       </div>
 
       <Tabs defaultValue="mix" className="w-full">
-        <TabsList>
-          <TabsTrigger value="mix">Mix table</TabsTrigger>
-          <TabsTrigger value="charts">Charts</TabsTrigger>
-        </TabsList>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <TabsList>
+            <TabsTrigger value="mix">Mix table</TabsTrigger>
+            <TabsTrigger value="charts">Charts</TabsTrigger>
+          </TabsList>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span>Split by</span>
+            <Segmented
+              value={allocationMode}
+              onValueChange={(v) => {
+                if (v === "bcs" || v === "reach" || v === "optimised") onAllocationModeChange(v)
+              }}
+              aria-label="Budget split method"
+            >
+              <SegmentedItem value="bcs">BCS weight</SegmentedItem>
+              <SegmentedItem value="reach" disabled={!showDollars}>
+                Marginal reach
+              </SegmentedItem>
+              <SegmentedItem value="optimised" disabled={!showDollars}>
+                Optimised
+              </SegmentedItem>
+            </Segmented>
+          </div>
+        </div>
         <TabsContent value="mix" className="space-y-6">
           <AllChannelsCompareTable bundles={bundles} />
-          <RecommendedSplitBlock bundles={bundles} showDollars={showDollars} />
+          <RecommendedSplitBlock
+            bundles={bundles}
+            showDollars={showDollars}
+            allocationMode={allocationMode}
+          />
+          {allocationMode === "optimised" && showDollars ? (
+            <OptimiserSensitivityBlock bundles={bundles} channelNamesById={channelNamesById} />
+          ) : null}
         </TabsContent>
         <TabsContent value="charts">
           <OutcomeCharts bundles={bundles} onOpenMethodology={onOpenMethodology} />
@@ -398,8 +481,10 @@ export function StageCompare({
       />
 
       <p className="text-[11px] leading-relaxed text-muted-foreground">
-        Reach figures are channel-consumption potential for the composed audience (weighted
-        counts ÷ audience size) — not de-duplicated delivered campaign reach across channels.
+        Channel reach figures are consumption potential for the composed audience (weighted
+        counts ÷ audience size). Est. reach models each channel&apos;s reach curve from that
+        ceiling and benchmark CPMs, then de-duplicates across channels assuming independent
+        exposure — a planning estimate, not delivered campaign reach.
       </p>
 
       <div className="flex justify-start">
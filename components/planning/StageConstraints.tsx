@@ -2,6 +2,8 @@
 
 import { Button } from "@/components/ui/button"
 import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import type { ChannelBounds } from "@/lib/planning/budgetOptimiser"
 import { cn } from "@/lib/utils"
 
 export type ConstraintChannel = {
@@ -13,7 +15,10 @@ export type ConstraintChannel = {
 type StageConstraintsProps = {
   channels: ConstraintChannel[]
   excludedChannelIds: string[]
+  /** Min/max share of budget per channel — used by the optimised split. */
+  channelBounds: Record<string, ChannelBounds>
   onToggle: (engineChannelId: string) => void
+  onBoundsChange: (engineChannelId: string, bounds: ChannelBounds) => void
   onContinue: () => void
   onBack: () => void
 }
@@ -23,6 +28,14 @@ type ChannelGroup = {
   channels: ConstraintChannel[]
 }
 
+function parseBound(raw: string): number | null {
+  const trimmed = raw.trim()
+  if (!trimmed) return null
+  const n = Number(trimmed)
+  if (!Number.isFinite(n)) return null
+  return Math.min(100, Math.max(0, n))
+}
+
 function groupChannels(channels: ConstraintChannel[]): ChannelGroup[] {
   const byGroup = new Map<string, ConstraintChannel[]>()
   for (const ch of channels) {
@@ -39,12 +52,15 @@ function groupChannels(channels: ConstraintChannel[]): ChannelGroup[] {
 export function StageConstraints({
   channels,
   excludedChannelIds,
+  channelBounds,
   onToggle,
+  onBoundsChange,
   onContinue,
   onBack,
 }: StageConstraintsProps) {
   const excluded = new Set(excludedChannelIds)
   const groups = groupChannels(channels)
+  const boundedCount = Object.keys(channelBounds).filter((id) => !excluded.has(id)).length
 
   return (
     <div className="space-y-5">
@@ -52,7 +68,8 @@ export function StageConstraints({
         <h2 className="text-base font-medium">Constraints</h2>
         <p className="mt-1 text-sm text-muted-foreground">
           All channels are included by default. Untick a channel to exclude it from
-          scoring, the recommended split and the compare charts.
+          scoring, the recommended split and the compare charts. Optional min / max
+          shares of budget constrain the optimised split in Stage E.
         </p>
       </div>
 
@@ -71,12 +88,13 @@ export function StageConstraints({
                 {g.channels.map((ch) => {
                   const checked = !excluded.has(ch.id)
                   const id = `constraint-${ch.id}`
+                  const bounds = channelBounds[ch.id] ?? { minPct: null, maxPct: null }
                   return (
-                    <li key={ch.id}>
+                    <li key={ch.id} className="flex items-center gap-2">
                       <label
                         htmlFor={id}
                         className={cn(
-                          "flex cursor-pointer items-center gap-2.5 rounded-input px-2 py-1.5",
+                          "flex min-w-0 cursor-pointer items-center gap-2.5 rounded-input px-2 py-1.5",
                           "interactive-tint transition-colors",
                           !checked && "opacity-70"
                         )}
@@ -95,6 +113,38 @@ export function StageConstraints({
                           {ch.name}
                         </span>
                       </label>
+                      {checked ? (
+                        <div className="ml-auto flex shrink-0 items-center gap-1 text-[11px] text-muted-foreground">
+                          <Input
+                            type="number"
+                            inputMode="decimal"
+                            min={0}
+                            max={100}
+                            value={bounds.minPct ?? ""}
+                            onChange={(e) =>
+                              onBoundsChange(ch.id, { ...bounds, minPct: parseBound(e.target.value) })
+                            }
+                            placeholder="min"
+                            aria-label={`${ch.name} minimum share of budget (%)`}
+                            className="h-7 w-14 px-1.5 text-xs tabular-nums"
+                          />
+                          <span aria-hidden>–</span>
+                          <Input
+                            type="number"
+                            inputMode="decimal"
+                            min={0}
+                            max={100}
+                            value={bounds.maxPct ?? ""}
+                            onChange={(e) =>
+                              onBoundsChange(ch.id, { ...bounds, maxPct: parseBound(e.target.value) })
+                            }
+                            placeholder="max"
+                            aria-label={`${ch.name} maximum share of budget (%)`}
+                            className="h-7 w-14 px-1.5 text-xs tabular-nums"
+                          />
+                          <span>%</span>
+                        </div>
+                      ) : null}
                     </li>
                   )
                 })}
@@ -106,6 +156,7 @@ export function StageConstraints({
           {excludedChannelIds.length === 0
             ? "All channels included."
             : `${excludedChannelIds.length} channel(s) excluded from mix & compare.`}
+          {boundedCount > 0 ? ` ${boundedCount} channel(s) with budget bounds.` : ""}
         </p>
       </div>
 
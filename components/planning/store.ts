@@ -3,6 +3,7 @@ import type {
   PlanningState,
   ReachBasis,
 } from "@/lib/planning/types"
+import type { ChannelBounds } from "@/lib/planning/budgetOptimiser"
 import {
   CODE_ENGINE_PARAMS,
   type EngineParams,
@@ -70,6 +71,12 @@ export type DiagnosisState = {
   weights: Weights
 }
 
+/**
+ * Stage E budget split: BCS-weighted top-N, greedy marginal de-duplicated
+ * reach, or the constrained optimiser (Stage D min/max shares).
+ */
+export type AllocationMode = "bcs" | "reach" | "optimised"
+
 export type PlanningWorkflowState = {
   stage: StageId
   /** Stages the user has completed (stepper clickable). */
@@ -81,6 +88,9 @@ export type PlanningWorkflowState = {
   diagnosis: DiagnosisState
   /** Engine channel ids excluded from scoring + compare table. */
   excludedChannelIds: string[]
+  /** Engine channel id → min/max share of budget for the optimiser. */
+  channelBounds: Record<string, ChannelBounds>
+  allocationMode: AllocationMode
 }
 
 export type PlanningAction =
@@ -97,6 +107,8 @@ export type PlanningAction =
   | { type: "PATCH_DIAGNOSIS"; patch: Partial<DiagnosisState> }
   | { type: "TOGGLE_CHANNEL"; engineChannelId: string }
   | { type: "SET_EXCLUDED"; ids: string[] }
+  | { type: "SET_CHANNEL_BOUNDS"; engineChannelId: string; bounds: ChannelBounds }
+  | { type: "SET_ALLOCATION_MODE"; mode: AllocationMode }
   | {
       type: "LOAD_SAVED"
       waveId: string
@@ -105,6 +117,7 @@ export type PlanningAction =
       activeAudienceId: string
       diagnosis: DiagnosisState
       excludedChannelIds: string[]
+      channelBounds?: Record<string, ChannelBounds>
     }
   | { type: "RESET"; waveId: string; defaultSegmentId: string }
 
@@ -171,6 +184,8 @@ export function createInitialState(opts: {
       weights: { ...OBJECTIVE_PRESETS.consideration.weights },
     },
     excludedChannelIds: [],
+    channelBounds: {},
+    allocationMode: "bcs",
   }
 }
 
@@ -314,6 +329,20 @@ export function planningReducer(
     }
     case "SET_EXCLUDED":
       return { ...state, excludedChannelIds: action.ids }
+    case "SET_CHANNEL_BOUNDS": {
+      const rest = { ...state.channelBounds }
+      delete rest[action.engineChannelId]
+      const { minPct, maxPct } = action.bounds
+      return {
+        ...state,
+        channelBounds:
+          minPct == null && maxPct == null
+            ? rest
+            : { ...rest, [action.engineChannelId]: { minPct, maxPct } },
+      }
+    }
+    case "SET_ALLOCATION_MODE":
+      return { ...state, allocationMode: action.mode }
     case "LOAD_SAVED": {
       if (action.audiences.length === 0) return state
       return {
@@ -325,6 +354,7 @@ export function planningReducer(
         activeAudienceId: action.activeAudienceId,
         diagnosis: action.diagnosis,
         excludedChannelIds: action.excludedChannelIds,
+        channelBounds: action.channelBounds ?? {},
         completed: {
           brief: true,
           audiences: true,
@@ -0,0 +1,187 @@
+"use client"
+
+import { useState } from "react"
+import { Download, Loader2 } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useToast } from "@/components/ui/use-toast"
+import {
+  bulkUploadErrorCount,
+  downloadBulkUpload,
+  type BulkUploadExport,
+} from "@/lib/naming/bulkUpload"
+import { levelHeading } from "@/lib/naming/exportTraffickingWorkbook"
+
+const PREVIEW_LINE_CAP = 50
+
+const currency = new Intl.NumberFormat("en-AU", { style: "currency", currency: "AUD" })
+
+type BulkUploadPreviewDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  uploads: BulkUploadExport[]
+  tabLabels: Record<string, string>
+}
+
+/** Per-platform validation preview; a platform downloads only once it has no errors. */
+export function BulkUploadPreviewDialog({
+  open,
+  onOpenChange,
+  uploads,
+  tabLabels,
+}: BulkUploadPreviewDialogProps) {
+  const { toast } = useToast()
+  const [downloading, setDownloading] = useState<string | null>(null)
+
+  const download = async (upload: BulkUploadExport) => {
+    setDownloading(upload.platform)
+    try {
+      const filename = await downloadBulkUpload(upload)
+      toast({ title: "Downloaded", description: filename })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to build bulk upload"
+      toast({ title: "Export failed", description: message, variant: "destructive" })
+    } finally {
+      setDownloading(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Platform bulk uploads</DialogTitle>
+          <DialogDescription>
+            Composed names with flight dates and budgets from each line item&apos;s bursts.
+            Everything is created paused or as a draft.
+          </DialogDescription>
+        </DialogHeader>
+
+        {uploads.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            None of this plan&apos;s platforms has a bulk-upload format.
+          </p>
+        ) : (
+          <Tabs defaultValue={uploads[0].platform}>
+            <TabsList className="w-full flex-wrap justify-start gap-4">
+              {uploads.map((upload) => {
+                const errors = bulkUploadErrorCount(upload)
+                return (
+                  <TabsTrigger key={upload.platform} value={upload.platform}>
+                    {tabLabels[upload.platform] ?? upload.platform}
+                    {errors > 0 ? (
+                      <Badge variant="critical" size="sm" className="ml-2">
+                        {errors}
+                      </Badge>
+                    ) : null}
+                  </TabsTrigger>
+                )
+              })}
+            </TabsList>
+
+            {uploads.map((upload) => {
+              const errors = bulkUploadErrorCount(upload)
+              return (
+                <TabsContent key={upload.platform} value={upload.platform} className="space-y-4">
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="space-y-0.5">
+                      <p className="text-sm font-medium">{upload.label}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {upload.files.map((file) => `${file.filename} (${file.rows} rows)`).join(" · ")}
+                      </p>
+                    </div>
+                    <Button
+                      type="button"
+                      size="sm"
+                      className="text-xs"
+                      disabled={errors > 0 || downloading !== null}
+                      onClick={() => void download(upload)}
+                    >
+                      {downloading === upload.platform ? (
+                        <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" aria-hidden />
+                      ) : (
+                        <Download className="mr-1.5 h-3.5 w-3.5" aria-hidden />
+                      )}
+                      {errors > 0 ? `Fix ${errors} error${errors === 1 ? "" : "s"} to download` : "Download"}
+                    </Button>
+                  </div>
+
+                  {upload.issues.length > 0 ? (
+                    <ul className="space-y-1 rounded-card border border-border px-3 py-2 text-xs">
+                      {upload.issues.map((issue, idx) => (
+                        <li key={idx} className="flex items-start gap-2">
+                          <Badge variant={issue.severity === "error" ? "critical" : "attention"} size="sm">
+                            {issue.severity}
+                          </Badge>
+                          <span>
+                            {issue.level ? `${levelHeading(issue.level)} ` : ""}
+                            {issue.name ? <span className="font-mono">{issue.name}</span> : null}
+                            {issue.level || issue.name ? " — " : ""}
+                            {issue.message}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : null}
+
+                  {upload.lines.length > 0 ? (
+                    <div className="overflow-x-auto rounded-card border border-border">
+                      <table className="w-full text-xs">
+                        <thead className="bg-muted/50 text-left">
+                          <tr>
+                            <th className="px-3 py-2 font-medium">Name</th>
+                            <th className="px-3 py-2 font-medium">Parent</th>
+                            <th className="px-3 py-2 font-medium">Flight</th>
+                            <th className="px-3 py-2 text-right font-medium">Budget</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {upload.lines.slice(0, PREVIEW_LINE_CAP).map((line, idx) => (
+                            <tr key={`${line.name}-${idx}`} className="border-t border-border">
+                              <td className="px-3 py-1.5 font-mono">{line.name}</td>
+                              <td className="px-3 py-1.5 font-mono text-muted-foreground">
+                                {line.groupName || line.campaignName}
+                              </td>
+                              <td className="whitespace-nowrap px-3 py-1.5">
+                                {line.flight.startDate} → {line.flight.endDate}
+                              </td>
+                              <td className="px-3 py-1.5 text-right tabular-nums">
+                                {currency.format(line.flight.budget)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      {upload.lines.length > PREVIEW_LINE_CAP ? (
+                        <p className="border-t border-border px-3 py-1.5 text-xs text-muted-foreground">
+                          +{upload.lines.length - PREVIEW_LINE_CAP} more in the file
+                        </p>
+                      ) : null}
+                    </div>
+                  ) : null}
+
+                  {upload.notes.length > 0 ? (
+                    <ul className="list-disc space-y-1 pl-5 text-xs text-muted-foreground">
+                      {upload.notes.map((note) => (
+                        <li key={note}>{note}</li>
+                      ))}
+                    </ul>
+                  ) : null}
+                </TabsContent>
+              )
+            })}
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,204 @@
+"use client"
+
+import { ClipboardCopy, Download } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import type { BulkUtmResult, BulkUtmRow, UtmTaxonomy } from "@/lib/naming/utm"
+
+type BulkUtmPanelProps = {
+  results: BulkUtmResult[]
+  taxonomy: UtmTaxonomy
+  landingUrl: string
+  onLandingUrlChange: (url: string) => void
+  onRowChange: (lineItemId: string, patch: Partial<Pick<BulkUtmRow, "landingUrl" | "source" | "medium">>) => void
+  onCopyAll: () => void
+  onDownloadCsv: () => void
+}
+
+function TaxonomyValueEditor({
+  value,
+  allowed,
+  label,
+  onChange,
+}: {
+  value: string
+  allowed: string[]
+  label: string
+  onChange: (value: string) => void
+}) {
+  if (allowed.length === 0) {
+    return (
+      <Input
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="h-8 w-32 font-mono text-xs"
+        aria-label={label}
+      />
+    )
+  }
+  return (
+    <Select value={value || undefined} onValueChange={onChange}>
+      <SelectTrigger className="h-8 w-36 font-mono text-xs" aria-label={label}>
+        <SelectValue placeholder="Pick" />
+      </SelectTrigger>
+      <SelectContent>
+        {allowed.map((option) => (
+          <SelectItem key={option} value={option} className="font-mono">
+            {option}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+/**
+ * UTM-tagged URL per digital line item. utm_campaign, utm_content and utm_id
+ * come from the naming tokens; source and medium are limited to the client's
+ * UTM taxonomy.
+ */
+export function BulkUtmPanel({
+  results,
+  taxonomy,
+  landingUrl,
+  onLandingUrlChange,
+  onRowChange,
+  onCopyAll,
+  onDownloadCsv,
+}: BulkUtmPanelProps) {
+  const validCount = results.filter((r) => r.url).length
+
+  return (
+    <section className="space-y-3 rounded-card border border-border bg-card p-4 shadow-e1">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold text-foreground">UTM links</h3>
+          <p className="text-xs text-muted-foreground">
+            utm_campaign = campaign · utm_content = publisher_format · utm_id = line_item_id
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="utm-landing-url" className="text-xs">
+              Campaign landing page
+            </Label>
+            <Input
+              id="utm-landing-url"
+              value={landingUrl}
+              onChange={(e) => onLandingUrlChange(e.target.value)}
+              placeholder="https://"
+              className="h-8 w-80 text-xs"
+            />
+          </div>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="text-xs"
+            disabled={validCount === 0}
+            onClick={onCopyAll}
+          >
+            <ClipboardCopy className="mr-1.5 h-3.5 w-3.5" aria-hidden />
+            Copy all ({validCount})
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="text-xs"
+            disabled={results.length === 0}
+            onClick={onDownloadCsv}
+          >
+            <Download className="mr-1.5 h-3.5 w-3.5" aria-hidden />
+            Download CSV
+          </Button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Line item</TableHead>
+              <TableHead>Landing page override</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead>Medium</TableHead>
+              <TableHead>Tagged URL</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {results.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-sm text-muted-foreground">
+                  No digital line items to tag.
+                </TableCell>
+              </TableRow>
+            ) : (
+              results.map((result) => (
+                <TableRow key={result.lineItemId}>
+                  <TableCell>
+                    <div className="font-mono text-xs">{result.id || result.lineItemId}</div>
+                    <div className="text-[11px] text-muted-foreground">
+                      {result.platform} · {result.content}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={result.landingUrl}
+                      onChange={(e) => onRowChange(result.lineItemId, { landingUrl: e.target.value })}
+                      placeholder="Campaign landing page"
+                      className="h-8 w-56 text-xs"
+                      aria-label="Landing page override"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TaxonomyValueEditor
+                      value={result.source}
+                      allowed={taxonomy.sources}
+                      label="utm_source"
+                      onChange={(source) => onRowChange(result.lineItemId, { source })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TaxonomyValueEditor
+                      value={result.medium}
+                      allowed={taxonomy.mediums}
+                      label="utm_medium"
+                      onChange={(medium) => onRowChange(result.lineItemId, { medium })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {result.url ? (
+                      <code className="block max-w-md truncate font-mono text-xs text-foreground" title={result.url}>
+                        {result.url}
+                      </code>
+                    ) : (
+                      <span className="text-xs text-status-critical-fg">{result.errors.join("; ")}</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </section>
+  )
+}
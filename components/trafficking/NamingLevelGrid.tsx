@@ -28,8 +28,7 @@ import {
   formatLevelCopy,
   tryComposeName,
 } from "@/lib/naming/exportTraffickingWorkbook"
-import { PICKLISTS } from "@/lib/naming/templates"
-import type { NamingTemplate, TemplateElement } from "@/lib/naming/types"
+import type { NamingPicklists, NamingTemplate, TemplateElement } from "@/lib/naming/types"
 import { validateValue } from "@/lib/naming/validate"
 import { cn } from "@/lib/utils"
 
@@ -42,6 +41,8 @@ export type NamingGridRow = {
 
 type NamingLevelGridProps = {
   template: NamingTemplate
+  /** The client's picklists (house PICKLISTS unless the client overrides them). */
+  picklists: NamingPicklists
   rows: NamingGridRow[]
   /** Composite plan fields resolved live (campaign_name / io_name). */
   resolveComposites: (values: Record<string, string>) => Record<string, string>
@@ -76,8 +77,9 @@ function elementLabel(el: TemplateElement): string {
 function liveCompose(
   template: NamingTemplate,
   values: Record<string, string>,
+  picklists: NamingPicklists,
 ): { name: string | null; error?: string } {
-  const result = tryComposeName(template, values)
+  const result = tryComposeName(template, values, picklists)
   return result.ok
     ? { name: result.name }
     : { name: null, error: result.error }
@@ -85,11 +87,15 @@ function liveCompose(
 
 function CellEditor({
   element,
+  separator,
+  picklists,
   value,
   onChange,
   disabled,
 }: {
   element: TemplateElement
+  separator: NamingTemplate["separator"]
+  picklists: NamingPicklists
   value: string
   onChange: (next: string) => void
   disabled?: boolean
@@ -112,7 +118,7 @@ function CellEditor({
   }
 
   if (element.source === "picklist" && element.picklist) {
-    const options = PICKLISTS[element.picklist] ?? []
+    const options = picklists[element.picklist] ?? []
     return (
       <Select value={value || undefined} onValueChange={onChange} disabled={disabled}>
         <SelectTrigger className="h-8 min-w-[8rem]">
@@ -130,7 +136,7 @@ function CellEditor({
   }
 
   // free or editable plan (targeting / creative_name)
-  const check = validateValue(element, value)
+  const check = validateValue(element, value, { picklists, separator })
   const showError = value.trim() !== "" && !check.ok
   return (
     <div className="min-w-[8rem] space-y-1">
@@ -170,6 +176,7 @@ function mergeRowValues(
 
 export function NamingLevelGrid({
   template,
+  picklists,
   rows,
   resolveComposites,
   sizeSelection,
@@ -182,7 +189,7 @@ export function NamingLevelGrid({
 }: NamingLevelGridProps) {
   const { toast } = useToast()
   const hasSize = template.elements.some((el) => el.key === "size")
-  const sizeOptions = PICKLISTS.iab_sizes
+  const sizeOptions = picklists.iab_sizes ?? []
 
   const visibleElements = template.elements.filter((el) => el.source !== "literal")
 
@@ -190,7 +197,7 @@ export function NamingLevelGrid({
     const merged = mergeRowValues(template, row, resolveComposites)
     const composed = row.excluded
       ? { name: null as string | null, error: "Excluded" }
-      : liveCompose(template, merged)
+      : liveCompose(template, merged, picklists)
     return { row, merged, composed }
   })
 
@@ -362,6 +369,8 @@ export function NamingLevelGrid({
                       <TableCell key={el.key}>
                         <CellEditor
                           element={el}
+                          separator={template.separator}
+                          picklists={picklists}
                           value={
                             el.key === "campaign_name" || el.key === "io_name"
                               ? merged[el.key] ?? ""
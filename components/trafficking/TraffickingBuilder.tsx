@@ -1,11 +1,13 @@
 "use client"
 
-import { useCallback, useEffect, useState } from "react"
+import { useCallback, useEffect, useMemo, useState } from "react"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
-import { ArrowLeft, ClipboardCopy, Download, Loader2, RotateCcw } from "lucide-react"
+import { ArrowLeft, ClipboardCopy, Download, FileUp, Loader2, RotateCcw } from "lucide-react"
 
 import { BestPracticeRail } from "@/components/trafficking/BestPracticeRail"
+import { BulkUploadPreviewDialog } from "@/components/trafficking/BulkUploadPreviewDialog"
+import { BulkUtmPanel } from "@/components/trafficking/BulkUtmPanel"
 import {
   NamingLevelGrid,
   type NamingGridRow,
@@ -16,7 +18,16 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useToast } from "@/components/ui/use-toast"
 import { setAssistantContext, clearAssistantContext } from "@/lib/assistantBridge"
 import type { PageContext } from "@/lib/ava/types"
+import { slugifyClientNameForUrl } from "@/lib/clients/slug"
 import { copyToClipboard } from "@/lib/copyToClipboard"
+import { buildBulkUploadExports, type BulkUploadExport } from "@/lib/naming/bulkUpload"
+import {
+  HOUSE_NAMING_CONVENTIONS,
+  resolveClientNamingConventions,
+  type ClientNamingConventions,
+  type NamingConventions,
+  type ResolvedNamingConventions,
+} from "@/lib/naming/clientConventions"
 import { composeName } from "@/lib/naming/compose"
 import {
   downloadTraffickingWorkbook,
@@ -33,8 +44,15 @@ import {
   type PlanGlobals,
   type PlatformTab,
 } from "@/lib/naming/fromPlan"
-import { PICKLISTS, getTemplate } from "@/lib/naming/templates"
-import type { NamingTemplate } from "@/lib/naming/types"
+import { getTemplate } from "@/lib/naming/templates"
+import type { NamingPicklists, NamingTemplate } from "@/lib/naming/types"
+import {
+  buildBulkUtm,
+  downloadBulkUtmCsv,
+  seedBulkUtmRows,
+  type BulkUtmRow,
+  type UtmTaxonomy,
+} from "@/lib/naming/utm"
 import type { MediaContainerBestPractice } from "@/lib/types/publisher"
 
 const AVA_LIST_CAP = 20
@@ -64,15 +82,19 @@ function newRowId(): string {
   return `row-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`
 }
 
-function defaultPicklistValue(picklistKey: string | undefined): string {
+function defaultPicklistValue(
+  picklistKey: string | undefined,
+  picklists: NamingPicklists,
+): string {
   if (!picklistKey) return ""
-  const list = PICKLISTS[picklistKey]
+  const list = picklists[picklistKey]
   return list?.[0] ?? ""
 }
 
 function seedValuesForTemplate(
   template: NamingTemplate,
   globals: PlanGlobals,
+  picklists: NamingPicklists,
   line?: {
     publisher: string
     media_type: string
@@ -87,7 +109,7 @@ function seedValuesForTemplate(
       continue
     }
     if (el.source === "picklist") {
-      values[el.key] = defaultPicklistValue(el.picklist)
+      values[el.key] = defaultPicklistValue(el.picklist, picklists)
       continue
     }
     if (el.source === "free") {
@@ -139,8 +161,9 @@ function buildPlatformState(
   tab: PlatformTab,
   globals: PlanGlobals,
   lineItems: Record<string, unknown[]>,
+  conventions: NamingConventions,
 ): PlatformState {
-  const templates = templatesForPlatform(tab.platform)
+  const templates = templatesForPlatform(tab.platform, conventions.templates)
   const baseLines = baseRowsForPlatform(tab.platform, lineItems, tab)
   const levels: LevelRowsState = {}
 
@@ -150,7 +173,7 @@ function buildPlatformState(
         id: newRowId(),
         isBase: true,
         excluded: false,
-        values: seedValuesForTemplate(template, globals, line),
+        values: seedValuesForTemplate(template, globals, conventions.picklists, line),
       }))
     } else {
       levels[template.level] = [
@@ -158,7 +181,7 @@ function buildPlatformState(
           id: newRowId(),
           isBase: true,
           excluded: false,
-          values: seedValuesForTemplate(template, globals),
+          values: seedValuesForTemplate(template, globals, conventions.picklists),
         },
       ]
     }
@@ -171,19 +194,54 @@ function buildAllPlatformState(
   tabs: PlatformTab[],
   globals: PlanGlobals,
   lineItems: Record<string, unknown[]>,
+  conventions: NamingConventions,
 ): Record<string, PlatformState> {
   const out: Record<string, PlatformState> = {}
   for (const tab of tabs) {
-    out[tab.platform] = buildPlatformState(tab, globals, lineItems)
+    out[tab.platform] = buildPlatformState(tab, globals, lineItems, conventions)
   }
   return out
 }
 
+function seedUtmRows(
+  tabs: PlatformTab[],
+  lineItems: Record<string, unknown[]>,
+  taxonomy: UtmTaxonomy,
+): BulkUtmRow[] {
+  return seedBulkUtmRows(
+    tabs.map((tab) => ({
+      platform: tab.platform,
+      lines: baseRowsForPlatform(tab.platform, lineItems, tab),
+    })),
+    taxonomy,
+  )
+}
+
 async function readError(response: Response, fallback: string): Promise<string> {
   const data = (await response.json().catch(() => null)) as { error?: string } | null
   return data?.error || fallback
 }
 
+const HOUSE_CONVENTIONS: ResolvedNamingConventions = {
+  conventions: HOUSE_NAMING_CONVENTIONS,
+  source: "house",
+  issues: [],
+}
+
+/** The plan client's naming conventions; any lookup failure means the house set. */
+async function loadClientConventions(clientName: string): Promise<ResolvedNamingConventions> {
+  const slug = slugifyClientNameForUrl(clientName)
+  if (!slug) return HOUSE_CONVENTIONS
+  try {
+    const res = await fetch(`/api/naming/conventions/${encodeURIComponent(slug)}`)
+    if (!res.ok) return HOUSE_CONVENTIONS
+    const body = (await res.json()) as { override?: ClientNamingConventions | null }
+    return resolveClientNamingConventions(body.override ?? null)
+  } catch {
+    return HOUSE_CONVENTIONS
+  }
+}
+
 export function TraffickingBuilder({ mbaNumber }: TraffickingBuilderProps) {
   const pathname = usePathname()
   const { toast } = useToast()
@@ -197,6 +255,11 @@ export function TraffickingBuilder({ mbaNumber }: TraffickingBuilderProps) {
   const [bestPracticeRows, setBestPracticeRows] = useState<MediaContainerBestPractice[]>([])
   const [railOpen, setRailOpen] = useState(true)
   const [sizeSelectionByLevel, setSizeSelectionByLevel] = useState<Record<string, string[]>>({})
+  const [resolvedConventions, setResolvedConventions] =
+    useState<ResolvedNamingConventions>(HOUSE_CONVENTIONS)
+  const { conventions } = resolvedConventions
+  const [utmRows, setUtmRows] = useState<BulkUtmRow[]>([])
+  const [utmLandingUrl, setUtmLandingUrl] = useState("")
 
   const loadData = useCallback(async () => {
     setLoading(true)
@@ -234,13 +297,23 @@ export function TraffickingBuilder({ mbaNumber }: TraffickingBuilderProps) {
           ? (plan.lineItems as Record<string, unknown[]>)
           : {}
 
+      const nextConventions = await loadClientConventions(
+        String(plan.mp_client_name || plan.client_name || plan.mp_clientname || ""),
+      )
       const nextTabs = derivePlatformTabs(items)
-      const nextState = buildAllPlatformState(nextTabs, nextGlobals, items)
+      const nextState = buildAllPlatformState(
+        nextTabs,
+        nextGlobals,
+        items,
+        nextConventions.conventions,
+      )
 
+      setResolvedConventions(nextConventions)
       setGlobals(nextGlobals)
       setLineItems(items)
       setTabs(nextTabs)
       setPlatformState(nextState)
+      setUtmRows(seedUtmRows(nextTabs, items, nextConventions.conventions.utm))
       setCampaignName(
         String(plan.mp_campaignname || plan.campaign_name || "").trim() || mbaNumber,
       )
@@ -272,7 +345,7 @@ export function TraffickingBuilder({ mbaNumber }: TraffickingBuilderProps) {
   const resolveComposites = useCallback(
     (platform: string, values: Record<string, string>): Record<string, string> => {
       const out: Record<string, string> = {}
-      const campaignTpl = getTemplate(platform, "campaign")
+      const campaignTpl = getTemplate(platform, "campaign", conventions.templates)
       if (campaignTpl) {
         try {
           const campaignRows = platformState[platform]?.levels.campaign
@@ -281,7 +354,7 @@ export function TraffickingBuilder({ mbaNumber }: TraffickingBuilderProps) {
           for (const el of campaignTpl.elements) {
             if (el.source === "literal" && el.literal) merged[el.key] = el.literal
             if (el.source === "picklist" && !merged[el.key]) {
-              merged[el.key] = defaultPicklistValue(el.picklist)
+              merged[el.key] = defaultPicklistValue(el.picklist, conventions.picklists)
             }
             if (el.source === "plan" && !merged[el.key] && values[el.key]) {
               merged[el.key] = values[el.key]
@@ -294,7 +367,8 @@ export function TraffickingBuilder({ mbaNumber }: TraffickingBuilderProps) {
       }
 
       const ioTpl =
-        getTemplate(platform, "insertion_order") ?? getTemplate(platform, "package")
+        getTemplate(platform, "insertion_order", conventions.templates) ??
+        getTemplate(platform, "package", conventions.templates)
       if (ioTpl) {
         try {
           const ioRows =
@@ -311,7 +385,7 @@ export function TraffickingBuilder({ mbaNumber }: TraffickingBuilderProps) {
           for (const el of ioTpl.elements) {
             if (el.source === "literal" && el.literal) merged[el.key] = el.literal
             if (el.source === "picklist" && !merged[el.key]) {
-              merged[el.key] = defaultPicklistValue(el.picklist)
+              merged[el.key] = defaultPicklistValue(el.picklist, conventions.picklists)
             }
           }
           out.io_name = composeName(ioTpl, merged)
@@ -322,7 +396,7 @@ export function TraffickingBuilder({ mbaNumber }: TraffickingBuilderProps) {
 
       return out
     },
-    [platformState],
+    [conventions, platformState],
   )
 
   const updateRowValue = (level: string, rowId: string, key: string, value: string) => {
@@ -449,7 +523,8 @@ export function TraffickingBuilder({ mbaNumber }: TraffickingBuilderProps) {
     if (!globals) return
     const nextTabs = derivePlatformTabs(lineItems)
     setTabs(nextTabs)
-    setPlatformState(buildAllPlatformState(nextTabs, globals, lineItems))
+    setPlatformState(buildAllPlatformState(nextTabs, globals, lineItems, conventions))
+    setUtmRows(seedUtmRows(nextTabs, lineItems, conventions.utm))
     setSizeSelectionByLevel({})
     toast({ title: "Reset", description: "Rows regenerated from the media plan." })
   }
@@ -476,7 +551,7 @@ export function TraffickingBuilder({ mbaNumber }: TraffickingBuilderProps) {
 
   const getPageContext = useCallback((): PageContext => {
     const platform = activePlatform || tabs[0]?.platform || ""
-    const templates = platform ? templatesForPlatform(platform) : []
+    const templates = platform ? templatesForPlatform(platform, conventions.templates) : []
     let rowCount = 0
     let invalidRowCount = 0
     let validNameCount = 0
@@ -502,7 +577,7 @@ export function TraffickingBuilder({ mbaNumber }: TraffickingBuilderProps) {
           continue
         }
         const merged = mergeRowForCompose(platform, template, row)
-        const attempt = tryComposeName(template, merged)
+        const attempt = tryComposeName(template, merged, conventions.picklists)
         if (attempt.ok) {
           validNameCount += 1
         } else {
@@ -550,6 +625,7 @@ export function TraffickingBuilder({ mbaNumber }: TraffickingBuilderProps) {
   }, [
     activePlatform,
     campaignName,
+    conventions,
     globals?.brand,
     globals?.client,
     mbaNumber,
@@ -570,14 +646,14 @@ export function TraffickingBuilder({ mbaNumber }: TraffickingBuilderProps) {
   }, [])
 
   const copyPlatformBlock = async (tab: PlatformTab) => {
-    const templates = templatesForPlatform(tab.platform)
+    const templates = templatesForPlatform(tab.platform, conventions.templates)
     const levels = templates.map((template) => {
       const rows = platformState[tab.platform]?.levels[template.level] ?? []
       const names: string[] = []
       for (const row of rows) {
         if (row.excluded) continue
         const merged = mergeRowForCompose(tab.platform, template, row)
-        const attempt = tryComposeName(template, merged)
+        const attempt = tryComposeName(template, merged, conventions.picklists)
         if (attempt.ok) names.push(attempt.name)
       }
       return { level: template.level, names }
@@ -599,9 +675,72 @@ export function TraffickingBuilder({ mbaNumber }: TraffickingBuilderProps) {
     })
   }
 
+  const utmResults = useMemo(
+    () =>
+      globals
+        ? utmRows.map((row) =>
+            buildBulkUtm(row, { globals, landingUrl: utmLandingUrl, taxonomy: conventions.utm }),
+          )
+        : [],
+    [conventions.utm, globals, utmLandingUrl, utmRows],
+  )
+
+  const updateUtmRow = (
+    lineItemId: string,
+    patch: Partial<Pick<BulkUtmRow, "landingUrl" | "source" | "medium">>,
+  ) => {
+    setUtmRows((prev) =>
+      prev.map((row) => (row.lineItemId === lineItemId ? { ...row, ...patch } : row)),
+    )
+  }
+
+  const copyUtmUrls = async () => {
+    const urls = utmResults.filter((r) => r.url).map((r) => r.url)
+    const ok = await copyToClipboard(urls.join("\n"))
+    if (!ok) {
+      toast({
+        title: "Copy failed",
+        description: "Clipboard is unavailable in this browser context.",
+        variant: "destructive",
+      })
+      return
+    }
+    const skipped = utmResults.length - urls.length
+    toast({
+      title: `${urls.length} copied${skipped > 0 ? `, ${skipped} invalid skipped` : ""}`,
+    })
+  }
+
+  const downloadUtmCsv = async () => {
+    try {
+      const filename = await downloadBulkUtmCsv(utmResults, mbaNumber)
+      toast({ title: "Downloaded", description: filename })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to build UTM CSV"
+      toast({ title: "Export failed", description: message, variant: "destructive" })
+    }
+  }
+
   const [exporting, setExporting] = useState(false)
   const [exportingMaterialInstructions, setExportingMaterialInstructions] = useState(false)
 
+  const [bulkUploads, setBulkUploads] = useState<BulkUploadExport[] | null>(null)
+
+  const exportPlatforms = (): TraffickingExportPlatform[] =>
+    tabs.map((tab) => ({
+      platform: tab.platform,
+      levels: templatesForPlatform(tab.platform, conventions.templates).map((template) => {
+        const rows = platformState[tab.platform]?.levels[template.level] ?? []
+        return {
+          template,
+          rows: rows.map((row) => ({
+            values: mergeRowForCompose(tab.platform, template, row),
+            excluded: row.excluded,
+          })),
+        }
+      }),
+    }))
+
   const downloadWorkbook = async () => {
     if (!globals) return
     setExporting(true)
@@ -615,24 +754,14 @@ export function TraffickingBuilder({ mbaNumber }: TraffickingBuilderProps) {
         }),
       )
 
-      const platforms: TraffickingExportPlatform[] = tabs.map((tab) => ({
-        platform: tab.platform,
-        levels: templatesForPlatform(tab.platform).map((template) => {
-          const rows = platformState[tab.platform]?.levels[template.level] ?? []
-          return {
-            template,
-            rows: rows.map((row) => ({
-              values: mergeRowForCompose(tab.platform, template, row),
-              excluded: row.excluded,
-            })),
-          }
-        }),
-      }))
+      const platforms = exportPlatforms()
 
       const filename = await downloadTraffickingWorkbook({
         globals,
         inputRows,
         platforms,
+        conventions,
+        utms: utmResults,
       })
       toast({ title: "Downloaded", description: filename })
     } catch (error) {
@@ -644,6 +773,13 @@ export function TraffickingBuilder({ mbaNumber }: TraffickingBuilderProps) {
     }
   }
 
+  const previewBulkUploads = () => {
+    if (!globals) return
+    setBulkUploads(
+      buildBulkUploadExports({ globals, platforms: exportPlatforms(), lineItems, conventions }),
+    )
+  }
+
   const downloadMaterialInstructions = async () => {
     setExportingMaterialInstructions(true)
     try {
@@ -707,7 +843,17 @@ export function TraffickingBuilder({ mbaNumber }: TraffickingBuilderProps) {
         title={campaignName || "Trafficking"}
         detail={
           <div className="space-y-1 text-sm text-muted-foreground">
-            <p>MBA {mbaNumber}</p>
+            <p>
+              MBA {mbaNumber} ·{" "}
+              {resolvedConventions.source === "client"
+                ? "client naming conventions"
+                : "house naming conventions"}
+            </p>
+            {resolvedConventions.issues.length > 0 ? (
+              <p className="text-status-critical-fg">
+                This client&apos;s naming conventions are invalid ({resolvedConventions.issues[0].message}) — using the house templates.
+              </p>
+            ) : null}
             <Button variant="link" className="h-auto p-0 text-sm" asChild>
               <Link href={`/mediaplans/mba/${encodeURIComponent(mbaNumber)}/edit`}>
                 <ArrowLeft className="mr-1.5 h-3.5 w-3.5" aria-hidden />
@@ -738,6 +884,17 @@ export function TraffickingBuilder({ mbaNumber }: TraffickingBuilderProps) {
               )}
               Download workbook
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              type="button"
+              className="text-xs"
+              disabled={tabs.length === 0}
+              onClick={previewBulkUploads}
+            >
+              <FileUp className="mr-1.5 h-3.5 w-3.5" aria-hidden />
+              Bulk upload files
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -805,13 +962,14 @@ export function TraffickingBuilder({ mbaNumber }: TraffickingBuilderProps) {
                     </Button>
                   </div>
 
-                  {templatesForPlatform(tab.platform).map((template) => {
+                  {templatesForPlatform(tab.platform, conventions.templates).map((template) => {
                     const levelKey = `${tab.platform}:${template.level}`
                     const rows = platformState[tab.platform]?.levels[template.level] ?? []
                     return (
                       <NamingLevelGrid
                         key={template.level}
                         template={template}
+                        picklists={conventions.picklists}
                         rows={rows}
                         resolveComposites={(values) =>
                           resolveComposites(tab.platform, values)
@@ -849,6 +1007,27 @@ export function TraffickingBuilder({ mbaNumber }: TraffickingBuilderProps) {
           </aside>
         </div>
       )}
+
+      {tabs.length > 0 ? (
+        <BulkUtmPanel
+          results={utmResults}
+          taxonomy={conventions.utm}
+          landingUrl={utmLandingUrl}
+          onLandingUrlChange={setUtmLandingUrl}
+          onRowChange={updateUtmRow}
+          onCopyAll={() => void copyUtmUrls()}
+          onDownloadCsv={() => void downloadUtmCsv()}
+        />
+      ) : null}
+
+      <BulkUploadPreviewDialog
+        open={bulkUploads !== null}
+        onOpenChange={(open) => {
+          if (!open) setBulkUploads(null)
+        }}
+        uploads={bulkUploads ?? []}
+        tabLabels={Object.fromEntries(tabs.map((tab) => [tab.platform, tab.label]))}
+      />
     </div>
   )
 }
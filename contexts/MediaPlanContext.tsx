@@ -5,15 +5,19 @@ import React, { createContext, useContext, useState, ReactNode } from "react"
 interface MediaPlanContextType {
   mbaNumber: string
   setMbaNumber: (number: string) => void
+  /** Client on the plan being edited; containers use it for negotiated rate cards. */
+  clientName: string
+  setClientName: (name: string) => void
 }
 
 const MediaPlanContext = createContext<MediaPlanContextType | undefined>(undefined)
 
 export function MediaPlanProvider({ children }: { children: ReactNode }) {
   const [mbaNumber, setMbaNumber] = useState<string>("")
+  const [clientName, setClientName] = useState<string>("")
 
   return (
-    <MediaPlanContext.Provider value={{ mbaNumber, setMbaNumber }}>
+    <MediaPlanContext.Provider value={{ mbaNumber, setMbaNumber, clientName, setClientName }}>
       {children}
     </MediaPlanContext.Provider>
   )
@@ -0,0 +1,31 @@
+import type { ManagementOverview } from "@/lib/management/managementOverview"
+
+async function jsonOrThrow<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const details = await response.text()
+    let message = details
+    try {
+      const parsed = JSON.parse(details) as { error?: string }
+      if (typeof parsed?.error === "string" && parsed.error.trim()) {
+        message = parsed.error
+      }
+    } catch {
+      // keep raw text
+    }
+    throw new Error(message || `Request failed with status ${response.status}`)
+  }
+  return (await response.json()) as T
+}
+
+/** `from` / `to` are YYYY-MM-DD. */
+export async function getManagementOverview(
+  range: { from: string; to: string },
+  init?: { signal?: AbortSignal }
+): Promise<ManagementOverview> {
+  const response = await fetch(`/api/management/overview?${new URLSearchParams(range)}`, {
+    headers: { Accept: "application/json" },
+    cache: "no-store",
+    signal: init?.signal,
+  })
+  return jsonOrThrow<ManagementOverview>(response)
+}
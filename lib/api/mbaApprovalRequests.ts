@@ -0,0 +1,72 @@
+import type {
+  ApprovalDecisionInput,
+  ApprovalRequestInput,
+  MbaApprovalDecisionRow,
+  MbaApprovalRequest,
+} from "@/lib/mediaplan/clientApproval"
+
+export type MbaApprovalState = {
+  request: MbaApprovalRequest | null
+  decisions: MbaApprovalDecisionRow[]
+}
+
+async function jsonOrThrow<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const details = await response.text()
+    let message = details
+    try {
+      const parsed = JSON.parse(details) as { error?: string }
+      if (typeof parsed?.error === "string" && parsed.error.trim()) {
+        message = parsed.error
+      }
+    } catch {
+      // keep raw text
+    }
+    throw new Error(message || `Request failed with status ${response.status}`)
+  }
+  return (await response.json()) as T
+}
+
+export async function getMbaApprovalState(
+  mbaNumber: string,
+  mediaPlanVersion: number,
+): Promise<MbaApprovalState> {
+  const qs = new URLSearchParams({
+    mba_number: mbaNumber,
+    media_plan_version: String(mediaPlanVersion),
+  })
+  const response = await fetch(`/api/mba-approval-requests?${qs}`, {
+    headers: { Accept: "application/json" },
+    cache: "no-store",
+  })
+  const data = await jsonOrThrow<Partial<MbaApprovalState>>(response)
+  return {
+    request: data.request ?? null,
+    decisions: Array.isArray(data.decisions) ? data.decisions : [],
+  }
+}
+
+export async function sendMbaForClientApproval(input: ApprovalRequestInput): Promise<{
+  request: MbaApprovalRequest
+  notified: string[]
+  emailError: string | null
+}> {
+  const response = await fetch("/api/mba-approval-requests", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json" },
+    body: JSON.stringify(input),
+  })
+  return jsonOrThrow(response)
+}
+
+export async function respondToMbaApproval(
+  requestId: number,
+  decisions: ApprovalDecisionInput[],
+): Promise<{ request: MbaApprovalRequest; decisions: MbaApprovalDecisionRow[]; emailError: string | null }> {
+  const response = await fetch(`/api/mba-approval-requests/${encodeURIComponent(String(requestId))}/respond`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json" },
+    body: JSON.stringify({ decisions }),
+  })
+  return jsonOrThrow(response)
+}
@@ -0,0 +1,56 @@
+import type { PacingAlertRule, PacingAlertRuleInput } from "@/lib/ops/digest/alertRules"
+
+async function jsonOrThrow<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const details = await response.text()
+    let message = details
+    try {
+      const parsed = JSON.parse(details) as { error?: string }
+      if (typeof parsed?.error === "string" && parsed.error.trim()) {
+        message = parsed.error
+      }
+    } catch {
+      // keep raw text
+    }
+    throw new Error(message || `Request failed with status ${response.status}`)
+  }
+  return (await response.json()) as T
+}
+
+export async function getMyPacingAlertRules(): Promise<PacingAlertRule[]> {
+  const response = await fetch("/api/me/pacing-alert-rules", {
+    headers: { Accept: "application/json" },
+    cache: "no-store",
+  })
+  const data = await jsonOrThrow<PacingAlertRule[]>(response)
+  return Array.isArray(data) ? data : []
+}
+
+export async function createMyPacingAlertRule(input: PacingAlertRuleInput): Promise<PacingAlertRule> {
+  const response = await fetch("/api/me/pacing-alert-rules", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json" },
+    body: JSON.stringify(input),
+  })
+  return jsonOrThrow<PacingAlertRule>(response)
+}
+
+export async function updateMyPacingAlertRule(
+  id: number,
+  patch: Partial<PacingAlertRuleInput>,
+): Promise<PacingAlertRule> {
+  const response = await fetch(`/api/me/pacing-alert-rules/${encodeURIComponent(String(id))}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json", Accept: "application/json" },
+    body: JSON.stringify(patch),
+  })
+  return jsonOrThrow<PacingAlertRule>(response)
+}
+
+export async function deleteMyPacingAlertRule(id: number): Promise<void> {
+  const response = await fetch(`/api/me/pacing-alert-rules/${encodeURIComponent(String(id))}`, {
+    method: "DELETE",
+    headers: { Accept: "application/json" },
+  })
+  await jsonOrThrow<{ ok: boolean }>(response)
+}
@@ -0,0 +1,87 @@
+import { coalescedGetJson, invalidateCoalescedGetJson } from "@/lib/api/coalescedGetJson"
+import type { PublisherRateCard, PublisherRateCardInput } from "@/lib/publisher/rateCards"
+import { publisherApiRecordPath } from "@/lib/publisher/publisherHubPath"
+import type { Publisher } from "@/lib/types/publisher"
+
+async function jsonOrThrow<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const details = await response.text()
+    let message = details
+    try {
+      const parsed = JSON.parse(details) as { error?: string }
+      if (typeof parsed?.error === "string" && parsed.error.trim()) {
+        message = parsed.error
+      }
+    } catch {
+      // keep raw text
+    }
+    throw new Error(message || `Request failed with status ${response.status}`)
+  }
+  return (await response.json()) as T
+}
+
+type PublisherRef = Pick<Publisher, "publisherid">
+
+function rateCardsPath(publisher: PublisherRef): string {
+  return `${publisherApiRecordPath(publisher)}/rate-cards`
+}
+
+export async function getPublisherRateCards(publisher: PublisherRef): Promise<PublisherRateCard[]> {
+  const response = await fetch(rateCardsPath(publisher), {
+    headers: { Accept: "application/json" },
+    cache: "no-store",
+  })
+  const data = await jsonOrThrow<PublisherRateCard[]>(response)
+  return Array.isArray(data) ? data : []
+}
+
+function mediaTypeUrl(mediaType: string): string {
+  return `/api/publisher-rate-cards?media_type=${encodeURIComponent(mediaType)}`
+}
+
+/** Every publisher's cards for one container media type (coalesced across line items). */
+export async function getRateCardsForMediaType(mediaType: string): Promise<PublisherRateCard[]> {
+  const data = await coalescedGetJson<PublisherRateCard[]>(mediaTypeUrl(mediaType))
+  return Array.isArray(data) ? data : []
+}
+
+export async function createPublisherRateCard(
+  publisher: PublisherRef,
+  input: PublisherRateCardInput
+): Promise<PublisherRateCard> {
+  const response = await fetch(rateCardsPath(publisher), {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json" },
+    body: JSON.stringify(input),
+  })
+  const card = await jsonOrThrow<PublisherRateCard>(response)
+  invalidateCoalescedGetJson(mediaTypeUrl(input.media_type))
+  return card
+}
+
+export async function updatePublisherRateCard(
+  publisher: PublisherRef,
+  id: number,
+  input: PublisherRateCardInput
+): Promise<PublisherRateCard> {
+  const response = await fetch(`${rateCardsPath(publisher)}/${encodeURIComponent(String(id))}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json", Accept: "application/json" },
+    body: JSON.stringify(input),
+  })
+  const card = await jsonOrThrow<PublisherRateCard>(response)
+  invalidateCoalescedGetJson(mediaTypeUrl(input.media_type))
+  return card
+}
+
+export async function deletePublisherRateCard(
+  publisher: PublisherRef,
+  card: Pick<PublisherRateCard, "id" | "media_type">
+): Promise<void> {
+  const response = await fetch(`${rateCardsPath(publisher)}/${encodeURIComponent(String(card.id))}`, {
+    method: "DELETE",
+    headers: { Accept: "application/json" },
+  })
+  await jsonOrThrow<{ success: boolean }>(response)
+  invalidateCoalescedGetJson(mediaTypeUrl(card.media_type))
+}
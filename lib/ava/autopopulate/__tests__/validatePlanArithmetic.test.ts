@@ -0,0 +1,131 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+import type { DetectedSheet, MappedLineItem, MapperResult } from "../types.js"
+import { summariseArithmeticReport, validatePlanArithmetic } from "../validatePlanArithmetic.js"
+
+function plan(line_items: MappedLineItem[], plan_meta: MapperResult["plan_meta"] = {}): MapperResult {
+  return { plan_meta, line_items, needs_review: [], warnings: [] }
+}
+
+function radio(fields: Record<string, string>, bursts: MappedLineItem["bursts"], is_bonus = false): MappedLineItem {
+  return { channel: "radio", fields, bursts, confidence: 0.9, ...(is_bonus ? { is_bonus } : {}) }
+}
+
+const weeklyFlight: DetectedSheet["flight"] = {
+  dateRow: 4,
+  granularity: "weekly",
+  columns: [
+    { index: 8, letter: "I", date: "2026-03-02" },
+    { index: 9, letter: "J", date: "2026-03-09" },
+    { index: 10, letter: "K", date: "2026-03-16" },
+  ],
+}
+
+test("validatePlanArithmetic: consistent plan passes", () => {
+  const report = validatePlanArithmetic(
+    plan([
+      radio({ station: "2DAY", total: "1,800", weeks: "2" }, [
+        { startDate: "2026-03-02", endDate: "2026-03-08", budget: "$900", buyAmount: "45", quantity: 20 },
+        { startDate: "2026-03-09", endDate: "2026-03-15", budget: "$900", buyAmount: "45", quantity: 20 },
+      ]),
+    ]),
+    { flight: weeklyFlight },
+  )
+  assert.equal(report.ok, true)
+  assert.equal(report.checked_lines, 1)
+  assert.deepEqual(report.lines, [])
+  assert.match(summariseArithmeticReport(report), /passed on 1 line item/)
+})
+
+test("validatePlanArithmetic: rate × spots, stated total and weeks mismatches are errors", () => {
+  const report = validatePlanArithmetic(
+    plan([
+      radio({ station: "2DAY", market: "Sydney", total: "2000", weeks: "3" }, [
+        { startDate: "2026-03-02", endDate: "2026-03-08", budget: "1000", buyAmount: "45", quantity: 20 },
+        { startDate: "2026-03-09", endDate: "2026-03-15", budget: "900.40", buyAmount: "45", quantity: 20 },
+      ]),
+    ]),
+  )
+  assert.equal(report.ok, false)
+  assert.equal(report.errors, 3)
+  const [line] = report.lines
+  assert.equal(line?.label, "2DAY · Sydney")
+  assert.deepEqual(
+    line?.issues.map((i) => [i.kind, i.burst_index, i.expected, i.actual]),
+    [
+      ["rate_x_spots", 0, 900, 1000],
+      ["stated_total", undefined, 2000, 1900.4],
+      ["stated_weeks", undefined, 3, 2],
+    ],
+  )
+})
+
+test("validatePlanArithmetic: per-week rates are multiplied by the burst weeks; a mismatch is a warning", () => {
+  const ooh = (budget: string): MappedLineItem => ({
+    channel: "ooh",
+    fields: { network: "JCDecaux", format: "Billboard", unit_rate: "500" },
+    bursts: [{ startDate: "2026-03-02", endDate: "2026-03-15", budget, quantity: 2 }],
+    confidence: 0.9,
+  })
+  assert.deepEqual(validatePlanArithmetic(plan([ooh("2000")])).lines, [])
+
+  const report = validatePlanArithmetic(
+    plan([
+      ooh("2500"),
+      radio({ station: "2DAY", buy_type: "Weekly package" }, [
+        { startDate: "2026-03-02", endDate: "2026-03-15", budget: "1300", buyAmount: "600", quantity: 1 },
+      ]),
+    ]),
+  )
+  assert.equal(report.ok, true)
+  assert.deepEqual(
+    report.lines.map((l) => l.issues.map((i) => [i.kind, i.severity, i.expected, i.actual])),
+    [[["rate_x_spots", "warning", 2000, 2500]], [["rate_x_spots", "warning", 1200, 1300]]],
+  )
+  assert.match(report.lines[0]!.issues[0]!.message, /× 2 units × 2 week\(s\)/)
+})
+
+test("validatePlanArithmetic: flight, plan-date and date-order problems", () => {
+  const report = validatePlanArithmetic(
+    plan(
+      [
+        radio({ station: "KIIS" }, [
+          { startDate: "2026-03-04", endDate: "2026-03-10", budget: "500" },
+          { startDate: "2026-03-20", endDate: "2026-03-16", budget: "500" },
+        ]),
+        radio({ station: "GOLD" }, [{ startDate: "2026-03-02", endDate: "2026-03-08" }], false),
+      ],
+      { startDate: "2026-03-02", endDate: "2026-03-22" },
+    ),
+    { flight: weeklyFlight },
+  )
+  assert.deepEqual(
+    report.lines.map((l) => [l.line_index, l.issues.map((i) => `${i.kind}:${i.severity}`)]),
+    [[0, ["off_flight:warning", "invalid_dates:error"]]],
+  )
+})
+
+test("validatePlanArithmetic: bonus ratio and orphan bonus lines; needs_review skipped", () => {
+  const report = validatePlanArithmetic(
+    plan([
+      radio({ station: "2DAY" }, [{ startDate: "2026-03-02", endDate: "2026-03-08", quantity: 10 }]),
+      radio({ station: "2DAY" }, [{ startDate: "2026-03-02", endDate: "2026-03-08", quantity: 15 }], true),
+      radio({ station: "WSFM" }, [{ startDate: "2026-03-02", endDate: "2026-03-08", quantity: 5 }], true),
+      { ...radio({ station: "2GB" }, [{ startDate: "2026-03-08", endDate: "2026-03-02" }]), needs_review: "unclear" },
+    ]),
+  )
+  assert.equal(report.ok, true)
+  assert.equal(report.checked_lines, 3)
+  assert.deepEqual(report.bonus_ratios, [
+    { key: "2day", paid_spots: 10, bonus_spots: 15, ratio: 1.5 },
+    { key: "wsfm", paid_spots: 0, bonus_spots: 5, ratio: null },
+  ])
+  assert.deepEqual(
+    report.lines.map((l) => [l.line_index, l.is_bonus, l.issues[0]?.kind]),
+    [
+      [1, true, "bonus_ratio"],
+      [2, true, "bonus_without_paid"],
+    ],
+  )
+  assert.match(summariseArithmeticReport(report), /0 error\(s\), 2 warning\(s\)/)
+})
@@ -25,6 +25,10 @@ Money / burst budget (authoritative copy rule):
 - Only fall back to rate × spots when both values are explicit cells AND no investment/total cell is usable.
 - Never invent a budget figure.
 
+Owner arithmetic (copied for a post-map consistency check — never compute these):
+- When a row states a per-spot / per-unit rate, copy it to burst.buyAmount (radio) or fields.unit_rate (OOH); copy that burst's spot / unit count to burst.quantity.
+- When a row states its own line total or number of weeks, copy them to fields.total and fields.weeks.
+
 Rules:
 1. Identify data rows vs group/subtotal/header rows. Group rows (e.g. a State or Network name with no rate/quantity of its own) are context, NOT line items — attach their label to the child rows as network/market where appropriate.
 ${coverageRule}
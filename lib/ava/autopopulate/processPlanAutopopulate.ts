@@ -6,7 +6,9 @@ import type {
   DetectedSheet,
   MappedLineItem,
   MapperResult,
+  PlanArithmeticReport,
 } from "./types"
+import { summariseArithmeticReport, validatePlanArithmetic } from "./validatePlanArithmetic"
 
 export type ProcessPlanAutopopulateResult = {
   channel: AutopopulateChannel
@@ -24,6 +26,8 @@ export type ProcessPlanAutopopulateResult = {
     | "bonusSheets"
   >
   mapped: MapperResult
+  /** Owner-maths discrepancies; apply_parsed_plan refuses while it has errors. */
+  validation: PlanArithmeticReport
   summary: string
 }
 
@@ -72,6 +76,8 @@ export async function processPlanAutopopulate(input: {
     mapped.warnings = bonusWarnings
   }
 
+  const validation = validatePlanArithmetic(mapped, { flight: detected.flight })
+
   return {
     channel: input.channel,
     detected: {
@@ -92,6 +98,7 @@ export async function processPlanAutopopulate(input: {
       })),
     },
     mapped,
-    summary: summariseMapperResult(mapped),
+    validation,
+    summary: `${summariseMapperResult(mapped)}\n${summariseArithmeticReport(validation)}`,
   }
 }
@@ -82,3 +82,57 @@ export type CapturedLineItemsLoad = {
   items: Record<string, unknown>[]
   replace: boolean
 }
+
+export type PlanDiscrepancyKind =
+  /** Burst rate × spots does not match the burst total. */
+  | "rate_x_spots"
+  /** Sum of burst totals does not match the line's stated total. */
+  | "stated_total"
+  /** Stated flight weeks do not match the weeks the bursts cover. */
+  | "stated_weeks"
+  /** Burst ends before it starts or has an unparseable date. */
+  | "invalid_dates"
+  /** Burst does not start on a detected flight column / falls outside the flight band. */
+  | "off_flight"
+  /** Burst falls outside plan_meta start/end. */
+  | "outside_plan_dates"
+  /** Bonus spots exceed the allowed ratio against paid spots for the same station/network. */
+  | "bonus_ratio"
+  /** Bonus line with no paid line for the same station/network. */
+  | "bonus_without_paid"
+
+export type PlanDiscrepancy = {
+  kind: PlanDiscrepancyKind
+  /** Errors block apply_parsed_plan; warnings are reported only. */
+  severity: "error" | "warning"
+  message: string
+  burst_index?: number
+  expected?: number
+  actual?: number
+}
+
+export type PlanLineValidation = {
+  /** Index into MapperResult.line_items. */
+  line_index: number
+  label: string
+  is_bonus: boolean
+  issues: PlanDiscrepancy[]
+}
+
+export type PlanBonusRatio = {
+  key: string
+  paid_spots: number
+  bonus_spots: number
+  /** bonus_spots / paid_spots; null when there are no paid spots. */
+  ratio: number | null
+}
+
+/** Arithmetic consistency report for a mapped plan (lines with issues only). */
+export type PlanArithmeticReport = {
+  ok: boolean
+  errors: number
+  warnings: number
+  checked_lines: number
+  lines: PlanLineValidation[]
+  bonus_ratios: PlanBonusRatio[]
+}
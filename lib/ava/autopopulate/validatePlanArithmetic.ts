@@ -0,0 +1,300 @@
+/**
+ * Stage 3 — arithmetic consistency check on a mapped media-owner plan.
+ * Cross-checks the owner's own numbers (rate × spots = total, stated totals and
+ * weeks vs bursts, bonus ratios) so broken owner maths is caught before the
+ * planner loads the lines. Rates on per-period buys (OOH panels, weekly
+ * packages) are also tried against the burst's weeks, and a mismatch there is
+ * only a warning — the period basis is not always stated. Pure: never edits
+ * the mapped result.
+ */
+
+import { parseMoneyInput } from "@/lib/format/money"
+import type {
+  DetectedSheet,
+  MappedLineItem,
+  MapperResult,
+  PlanArithmeticReport,
+  PlanBonusRatio,
+  PlanDiscrepancy,
+  PlanLineValidation,
+} from "./types"
+
+/** Absolute slack (dollars) before a money mismatch is reported. */
+export const ARITHMETIC_TOLERANCE_ABS = 1
+/** Relative slack — owner sheets round rates to cents, totals to dollars. */
+export const ARITHMETIC_TOLERANCE_PCT = 0.005
+/** Bonus spots above this multiple of paid spots are flagged. */
+export const MAX_BONUS_RATIO = 1
+
+const DAY_MS = 86_400_000
+
+const RATE_FIELDS = ["unit_rate", "unitRate", "rate"]
+const TOTAL_FIELDS = ["total", "total_cost", "investment", "media_value"]
+const WEEK_FIELDS = ["weeks", "flight_weeks", "no_of_weeks"]
+const BUY_TYPE_FIELDS = ["buy_type", "buyType"]
+/** Buy types priced per week or period rather than per spot. */
+const PER_PERIOD_BUY_TYPE_RE = /week|period|month|package/i
+
+function fieldNumber(fields: Record<string, string>, keys: string[]): number | null {
+  for (const k of keys) {
+    const n = parseMoneyInput(fields[k])
+    if (n != null) return n
+  }
+  return null
+}
+
+function dayNumber(iso: string | undefined): number | null {
+  if (!iso || !/^\d{4}-\d{2}-\d{2}/.test(iso)) return null
+  const t = Date.parse(`${iso.slice(0, 10)}T00:00:00Z`)
+  return Number.isFinite(t) ? Math.round(t / DAY_MS) : null
+}
+
+function withinTolerance(expected: number, actual: number): boolean {
+  const slack = Math.max(ARITHMETIC_TOLERANCE_ABS, Math.abs(expected) * ARITHMETIC_TOLERANCE_PCT)
+  return Math.abs(expected - actual) <= slack
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+function money(n: number): string {
+  return `$${round2(n).toLocaleString("en-AU")}`
+}
+
+function lineLabel(item: MappedLineItem, index: number): string {
+  const f = item.fields
+  const parts = [f.station || f.network, f.location || f.placement || f.format, f.market]
+    .map((p) => (p ?? "").trim())
+    .filter(Boolean)
+  return parts.length ? parts.join(" · ") : `Line ${index + 1}`
+}
+
+/** Station (radio) or network + format (OOH) — the unit a bonus schedule is negotiated against. */
+function bonusKey(item: MappedLineItem): string {
+  const f = item.fields
+  const key =
+    item.channel === "radio"
+      ? f.station || f.network
+      : [f.network, f.format].filter((p) => p && p.trim()).join(" · ")
+  return (key ?? "").trim().toLowerCase()
+}
+
+/** OOH is sold per panel per week; other channels only when the buy type says so. */
+function isPerPeriodRate(item: MappedLineItem): boolean {
+  if (item.channel === "ooh") return true
+  return BUY_TYPE_FIELDS.some((k) => PER_PERIOD_BUY_TYPE_RE.test(item.fields[k] ?? ""))
+}
+
+function lineSpots(item: MappedLineItem): number {
+  return item.bursts.reduce((t, b) => t + (b.quantity ?? 0), 0)
+}
+
+function checkLine(
+  item: MappedLineItem,
+  flight: DetectedSheet["flight"] | undefined,
+  planRange: { start: number | null; end: number | null },
+): PlanDiscrepancy[] {
+  const issues: PlanDiscrepancy[] = []
+  const fieldRate = fieldNumber(item.fields, RATE_FIELDS)
+  const perPeriod = isPerPeriodRate(item)
+  const flightDays = (flight?.columns ?? [])
+    .map((c) => dayNumber(c.date))
+    .filter((d): d is number => d != null)
+  const checkFlight = flightDays.length > 0 && flight?.granularity !== "unknown"
+  const flightStart = checkFlight ? Math.min(...flightDays) : null
+  // Last column covers at most a month past its start date.
+  const flightEnd = checkFlight ? Math.max(...flightDays) + 31 : null
+
+  let burstTotal = 0
+  let burstTotalKnown = false
+  let burstWeeks = 0
+
+  item.bursts.forEach((burst, i) => {
+    const start = dayNumber(burst.startDate)
+    const end = dayNumber(burst.endDate)
+    const datesValid = start != null && end != null && end >= start
+    const weeks = datesValid ? Math.ceil((end - start + 1) / 7) : null
+    if (!datesValid) {
+      issues.push({
+        kind: "invalid_dates",
+        severity: "error",
+        burst_index: i,
+        message: `Burst ${i + 1} dates ${burst.startDate} → ${burst.endDate} are invalid.`,
+      })
+    } else {
+      burstWeeks += weeks!
+      if (checkFlight && (!flightDays.includes(start) || end > flightEnd! || start < flightStart!)) {
+        issues.push({
+          kind: "off_flight",
+          severity: "warning",
+          burst_index: i,
+          message: `Burst ${i + 1} (${burst.startDate} → ${burst.endDate}) does not line up with the plan's flight columns.`,
+        })
+      }
+      if ((planRange.start != null && start < planRange.start) || (planRange.end != null && end > planRange.end)) {
+        issues.push({
+          kind: "outside_plan_dates",
+          severity: "warning",
+          burst_index: i,
+          message: `Burst ${i + 1} (${burst.startDate} → ${burst.endDate}) falls outside the plan dates.`,
+        })
+      }
+    }
+
+    const total = parseMoneyInput(burst.budget)
+    if (total != null) {
+      burstTotal += total
+      burstTotalKnown = true
+    }
+    const rate = fieldRate ?? parseMoneyInput(burst.buyAmount)
+    if (total != null && rate != null && burst.quantity != null) {
+      const expected = rate * burst.quantity
+      const perPeriodExpected = perPeriod && weeks != null ? expected * weeks : null
+      const matches =
+        withinTolerance(expected, total) || (perPeriodExpected != null && withinTolerance(perPeriodExpected, total))
+      if (!matches) {
+        issues.push(
+          perPeriodExpected != null
+            ? {
+                kind: "rate_x_spots",
+                severity: "warning",
+                burst_index: i,
+                expected: round2(perPeriodExpected),
+                actual: round2(total),
+                message: `Burst ${i + 1}: rate ${money(rate)} × ${burst.quantity} units × ${weeks} week(s) = ${money(perPeriodExpected)}, but the plan states ${money(total)}.`,
+              }
+            : {
+                kind: "rate_x_spots",
+                severity: perPeriod ? "warning" : "error",
+                burst_index: i,
+                expected: round2(expected),
+                actual: round2(total),
+                message: `Burst ${i + 1}: rate ${money(rate)} × ${burst.quantity} spots = ${money(expected)}, but the plan states ${money(total)}.`,
+              },
+        )
+      }
+    }
+  })
+
+  const statedTotal = fieldNumber(item.fields, TOTAL_FIELDS)
+  if (statedTotal != null && burstTotalKnown && !withinTolerance(statedTotal, burstTotal)) {
+    issues.push({
+      kind: "stated_total",
+      severity: "error",
+      expected: round2(statedTotal),
+      actual: round2(burstTotal),
+      message: `Bursts sum to ${money(burstTotal)}, but the line total is ${money(statedTotal)}.`,
+    })
+  }
+
+  const statedWeeks = fieldNumber(item.fields, WEEK_FIELDS)
+  if (statedWeeks != null && item.bursts.length > 0 && statedWeeks !== burstWeeks) {
+    issues.push({
+      kind: "stated_weeks",
+      severity: "error",
+      expected: statedWeeks,
+      actual: burstWeeks,
+      message: `Plan states ${statedWeeks} week(s) but the burst dates cover ${burstWeeks}.`,
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Validate every importable line (needs_review lines are skipped — they never
+ * load). `flight` is the detected flight band; without it burst/flight
+ * alignment is not checked.
+ */
+export function validatePlanArithmetic(
+  mapped: MapperResult,
+  opts: { flight?: DetectedSheet["flight"] } = {},
+): PlanArithmeticReport {
+  const planRange = {
+    start: dayNumber(mapped.plan_meta.startDate),
+    end: dayNumber(mapped.plan_meta.endDate),
+  }
+  const byLine = new Map<number, PlanLineValidation>()
+  const push = (index: number, item: MappedLineItem, issues: PlanDiscrepancy[]) => {
+    if (issues.length === 0) return
+    const entry = byLine.get(index) ?? {
+      line_index: index,
+      label: lineLabel(item, index),
+      is_bonus: item.is_bonus === true,
+      issues: [],
+    }
+    entry.issues.push(...issues)
+    byLine.set(index, entry)
+  }
+
+  let checked = 0
+  const spots = new Map<string, { paid: number; bonus: number; bonusLines: number[] }>()
+  mapped.line_items.forEach((item, index) => {
+    if (item.needs_review) return
+    checked++
+    push(index, item, checkLine(item, opts.flight, planRange))
+
+    const key = bonusKey(item)
+    if (!key) return
+    const entry = spots.get(key) ?? { paid: 0, bonus: 0, bonusLines: [] }
+    if (item.is_bonus) {
+      entry.bonus += lineSpots(item)
+      entry.bonusLines.push(index)
+    } else {
+      entry.paid += lineSpots(item)
+    }
+    spots.set(key, entry)
+  })
+
+  const bonus_ratios: PlanBonusRatio[] = []
+  for (const [key, s] of spots) {
+    if (s.bonusLines.length === 0) continue
+    const ratio = s.paid > 0 ? round2(s.bonus / s.paid) : null
+    bonus_ratios.push({ key, paid_spots: s.paid, bonus_spots: s.bonus, ratio })
+    const issue: PlanDiscrepancy | null =
+      s.paid === 0
+        ? {
+            kind: "bonus_without_paid",
+            severity: "warning",
+            message: `Bonus line has no paid spots on the same ${mapped.line_items[s.bonusLines[0]!]!.channel === "radio" ? "station" : "network/format"}.`,
+          }
+        : ratio! > MAX_BONUS_RATIO
+          ? {
+              kind: "bonus_ratio",
+              severity: "warning",
+              expected: MAX_BONUS_RATIO,
+              actual: ratio!,
+              message: `${s.bonus} bonus vs ${s.paid} paid spots (${ratio}:1) exceeds the ${MAX_BONUS_RATIO}:1 bonus ratio.`,
+            }
+          : null
+    if (issue) {
+      for (const index of s.bonusLines) push(index, mapped.line_items[index]!, [issue])
+    }
+  }
+
+  const lines = [...byLine.values()].sort((a, b) => a.line_index - b.line_index)
+  const all = lines.flatMap((l) => l.issues)
+  const errors = all.filter((i) => i.severity === "error").length
+  return {
+    ok: errors === 0,
+    errors,
+    warnings: all.length - errors,
+    checked_lines: checked,
+    lines,
+    bonus_ratios: bonus_ratios.sort((a, b) => a.key.localeCompare(b.key)),
+  }
+}
+
+/** Chat-ready discrepancy summary; lists up to `limit` issues. */
+export function summariseArithmeticReport(report: PlanArithmeticReport, limit = 10): string {
+  if (report.errors === 0 && report.warnings === 0) {
+    return `Arithmetic check passed on ${report.checked_lines} line item(s).`
+  }
+  const head = `Arithmetic check: ${report.errors} error(s), ${report.warnings} warning(s) across ${report.lines.length} line item(s).`
+  const rows = report.lines.flatMap((l) =>
+    l.issues.map((i) => `- [${i.severity}] Line ${l.line_index + 1} (${l.label}${l.is_bonus ? ", bonus" : ""}): ${i.message}`),
+  )
+  const more = rows.length > limit ? [`- …and ${rows.length - limit} more.`] : []
+  return [head, ...rows.slice(0, limit), ...more].join("\n")
+}
@@ -74,3 +74,30 @@ test("apply_parsed_plan captures line items on confirm", async () => {
   assert.equal(c.capturedLineItemsLoad?.channel, "radio")
   assert.equal(c.capturedLineItemsLoad?.items.length, 1)
 })
+
+test("apply_parsed_plan refuses when the owner's arithmetic does not reconcile", async () => {
+  const c = ctx({
+    pendingParsedPlan: {
+      channel: "radio",
+      mapped: {
+        plan_meta: {},
+        line_items: [
+          {
+            channel: "radio",
+            fields: { network: "SCA", station: "2DAY" },
+            bursts: [
+              { startDate: "2026-01-01", endDate: "2026-01-07", budget: "1000", buyAmount: "45", quantity: 20 },
+            ],
+            confidence: 0.9,
+          },
+        ],
+        needs_review: [],
+        warnings: [],
+      },
+    },
+  })
+  const refused = await applyParsedPlanTool.execute({ confirm: true }, c)
+  assert.equal(refused.isError, true)
+  assert.match(refused.content as string, /rate \$45 × 20 spots = \$900/)
+  assert.equal(c.capturedLineItemsLoad, null)
+})
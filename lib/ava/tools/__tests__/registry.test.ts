@@ -148,6 +148,8 @@ test("get_creative_assets shape", () => {
   assert.equal(row.mime, "image/png")
   assert.equal(row.line_item_id, "xSO1")
   assert.equal(row.status, "active")
+  assert.equal(row.version, 1)
+  assert.equal(row.review_status, "draft")
 })
 
 test("get_methodology shape", () => {
@@ -1,12 +1,16 @@
 import type AvaTool from "./types"
 import type { AutopopulateChannel } from "@/lib/ava/autopopulate/types"
 import { mapperResultToFormItems } from "@/lib/ava/autopopulate/toFormLineItems"
+import {
+  summariseArithmeticReport,
+  validatePlanArithmetic,
+} from "@/lib/ava/autopopulate/validatePlanArithmetic"
 
 export const applyParsedPlanTool: AvaTool = {
   definition: {
     name: "apply_parsed_plan",
     description:
-      "After the user explicitly confirms, load the pending AVA-parsed media-owner plan into the create/edit form (radio or ooh line items). Do NOT call until the user confirms. Never writes to Xano — only the form for human review.",
+      "After the user explicitly confirms, load the pending AVA-parsed media-owner plan into the create/edit form (radio or ooh line items). Do NOT call until the user confirms. Refuses while the plan's own arithmetic (rate × spots, totals, weeks) is inconsistent. Never writes to Xano — only the form for human review.",
     input_schema: {
       type: "object",
       properties: {
@@ -51,6 +55,14 @@ export const applyParsedPlanTool: AvaTool = {
       return { content: "Pending plan channel must be radio or ooh.", isError: true }
     }
 
+    const validation = validatePlanArithmetic(pending.mapped, { flight: pending.flight })
+    if (!validation.ok) {
+      return {
+        content: `apply_parsed_plan refused: the media owner's plan arithmetic does not reconcile. Share these discrepancies with the user and ask for a corrected plan from the owner.\n${summariseArithmeticReport(validation)}`,
+        isError: true,
+      }
+    }
+
     const replace = (input as Record<string, unknown>).replace !== false
     const items = mapperResultToFormItems(pending.mapped, channel)
     if (items.length === 0) {
@@ -64,7 +76,7 @@ export const applyParsedPlanTool: AvaTool = {
     context.capturedLineItemsLoad = { channel, items, replace }
 
     return {
-      content: `Validated load of ${items.length} ${channel} line item(s) into the form (${replace ? "replace" : "append"}). Client will apply for human review — not saved to Xano yet.`,
+      content: `Validated load of ${items.length} ${channel} line item(s) into the form (${replace ? "replace" : "append"}). Client will apply for human review — not saved to Xano yet.${validation.warnings ? ` ${validation.warnings} arithmetic warning(s) to review:\n${summariseArithmeticReport(validation)}` : ""}`,
       isError: false,
     }
   },
@@ -218,6 +218,9 @@ export const generateMiWorkbookTool: AvaTool = {
       const buffer = await workbook.xlsx.writeBuffer()
       const filename = miWorkbookFilename(campaign.client, campaign.name)
       const exportResult = await storeMiWorkbookBuffer(scopedMba.mba, filename, buffer)
+      // Lazy: the tracker's Xano client is server-only.
+      const { syncMiDeliverables } = await import("@/lib/creative/syncMiDeliverables")
+      await syncMiDeliverables(scopedMba.mba, result.resolved)
       const sizeBytes = buffer instanceof ArrayBuffer ? buffer.byteLength : Buffer.byteLength(buffer as any)
 
       // App-gated download route streams on click — never embed a raw Blob signed URL.
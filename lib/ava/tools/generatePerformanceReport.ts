@@ -1,4 +1,5 @@
 import type AvaTool from "./types"
+import type { DeliveryChannelGroup } from "./summaries"
 import { toChatFileAttachment } from "@/lib/ava/chatFileAttachment"
 import {
   buildPerformanceReport,
@@ -7,9 +8,12 @@ import {
 import {
   buildPerformanceReportHardNumbers,
   findInventedMoneyInNarrative,
+  MAX_CHANNEL_LINES,
   plannedToDateFromPageContext,
   type DeliverySnapshotTotals,
 } from "@/lib/reports/performanceReportHardNumbers"
+import { buildReportSections } from "@/lib/reports/reportSections"
+import { resolveReportTemplate } from "@/lib/reports/reportTemplates"
 import {
   PPTX_CONTENT_TYPE,
   storePerformanceReport,
@@ -52,6 +56,20 @@ function requireExactStringArray(
   return value.map((item, i) => requireString(item, `${field}[${i}]`, cap, violations))
 }
 
+function requireStringArrayInRange(
+  value: unknown,
+  field: string,
+  min: number,
+  max: number,
+  cap: number,
+  violations: CapViolation[],
+): string[] | null {
+  if (!Array.isArray(value) || value.length < min || value.length > max) {
+    return null
+  }
+  return value.map((item, i) => requireString(item, `${field}[${i}]`, cap, violations))
+}
+
 function requireSteps(
   value: unknown,
   violations: CapViolation[],
@@ -74,7 +92,7 @@ function requireSteps(
 function validateNarrativePayload(
   args: Record<string, unknown>,
 ):
-  | { ok: true; clientName: string; reportMonth: string; mbaHint?: string; narrative: Omit<
+  | { ok: true; clientName: string; reportMonth: string; mbaHint?: string; templateId?: string; narrative: Omit<
       PerformanceReportPayload,
       "deliverySpend" | "deliveryDeliverables" | "kpis"
     > }
@@ -83,8 +101,16 @@ function validateNarrativePayload(
   const clientName = requireString(args.clientName, "clientName", 40, violations)
   const reportMonth = requireString(args.reportMonth, "reportMonth", 20, violations)
   const mbaHint = asString(args.mbaNumber) ?? asString(args.mba)
+  const templateId = asString(args.templateId)
 
-  const channels = requireExactStringArray(args.channels, "channels", 4, 90, violations)
+  const channels = requireStringArrayInRange(
+    args.channels,
+    "channels",
+    1,
+    MAX_CHANNEL_LINES,
+    90,
+    violations,
+  )
   const insights = requireExactStringArray(args.insights, "insights", 3, 110, violations)
   const steps = requireSteps(args.steps, violations)
 
@@ -95,7 +121,10 @@ function validateNarrativePayload(
     return { ok: false, content: "reportMonth is required." }
   }
   if (!channels) {
-    return { ok: false, content: "channels must be an array of exactly 4 strings (≤90 each)." }
+    return {
+      ok: false,
+      content: `channels must be an array of 1 to ${MAX_CHANNEL_LINES} strings (≤90 each).`,
+    }
   }
   if (!insights) {
     return { ok: false, content: "insights must be an array of exactly 3 strings (≤110 each)." }
@@ -109,7 +138,7 @@ function validateNarrativePayload(
 
   const narrative = {
     execSummary: requireString(args.execSummary, "execSummary", 120, violations),
-    channels: channels as PerformanceReportPayload["channels"],
+    channels,
     keyInsight: requireString(args.keyInsight, "keyInsight", 240, violations),
     insights: insights as PerformanceReportPayload["insights"],
     recsInFlight: requireString(args.recsInFlight, "recsInFlight", 140, violations),
@@ -153,7 +182,14 @@ function validateNarrativePayload(
     }
   }
 
-  return { ok: true, clientName, reportMonth, mbaHint: mbaHint || undefined, narrative }
+  return {
+    ok: true,
+    clientName,
+    reportMonth,
+    mbaHint: mbaHint || undefined,
+    templateId: templateId || undefined,
+    narrative,
+  }
 }
 
 function parseDeliveryTotals(raw: string): DeliverySnapshotTotals | null {
@@ -178,6 +214,27 @@ function parseDeliveryTotals(raw: string): DeliverySnapshotTotals | null {
   }
 }
 
+/**
+ * Channel groups and window from the snapshot summary, for the repeated channel
+ * slides and tables. The summary carries no daily series, so chart placeholders
+ * are left out of decks built here.
+ */
+function parseDeliverySections(raw: string): ReturnType<typeof buildReportSections> {
+  try {
+    const parsed = JSON.parse(raw) as {
+      channels?: DeliveryChannelGroup[]
+      window?: { startDate: string | null; endDate: string | null }
+    }
+    return buildReportSections({
+      channels: Array.isArray(parsed.channels) ? parsed.channels : [],
+      daily: [],
+      window: parsed.window ?? { startDate: null, endDate: null },
+    })
+  } catch {
+    return buildReportSections({ channels: [], daily: [], window: { startDate: null, endDate: null } })
+  }
+}
+
 export const generatePerformanceReportTool: AvaTool = {
   definition: {
     name: "generate_performance_report",
@@ -202,16 +259,21 @@ export const generatePerformanceReportTool: AvaTool = {
           type: "string",
           description: 'Report month label (≤20), e.g. "Jul 2026".',
         },
+        templateId: {
+          type: "string",
+          description:
+            "Optional branded template id for the client; defaults to the client's default template, else the house template.",
+        },
         execSummary: {
           type: "string",
           description: "Executive summary narrative only — no $ figures (≤120).",
         },
         channels: {
           type: "array",
-          description: "Exactly 4 channel commentary lines — no $ figures (≤90 each).",
+          description: `One commentary line per channel in market, 1 to ${MAX_CHANNEL_LINES} — no $ figures (≤90 each).`,
           items: { type: "string" },
-          minItems: 4,
-          maxItems: 4,
+          minItems: 1,
+          maxItems: MAX_CHANNEL_LINES,
         },
         keyInsight: {
           type: "string",
@@ -297,7 +359,8 @@ export const generatePerformanceReportTool: AvaTool = {
       }
     }
 
-    const totals = parseDeliveryTotals(String(snapshotResult.content ?? ""))
+    const snapshotContent = String(snapshotResult.content ?? "")
+    const totals = parseDeliveryTotals(snapshotContent)
     if (!totals) {
       return {
         content: "Failed to parse reconciled delivery totals for the performance report.",
@@ -316,7 +379,12 @@ export const generatePerformanceReportTool: AvaTool = {
     }
 
     try {
-      const buffer = await buildPerformanceReport(payload)
+      const template = resolveReportTemplate(context.clientSlug || validated.clientName, validated.templateId)
+      const buffer = await buildPerformanceReport(payload, {
+        templatePath: template.path,
+        palette: template.palette,
+        sections: parseDeliverySections(snapshotContent),
+      })
       const fileName = `${validated.clientName} ${scopedMba.mba} performance report ${validated.reportMonth}.pptx`
       const exportResult = await storePerformanceReport(scopedMba.mba, fileName, buffer)
 
@@ -330,6 +398,7 @@ export const generatePerformanceReportTool: AvaTool = {
       return {
         content: jsonContent({
           filename: exportResult.filename,
+          template: template.id,
           reconciled: hard.reconciled,
           injected: {
             deliverySpend: hard.deliverySpend,
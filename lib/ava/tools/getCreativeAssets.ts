@@ -15,7 +15,7 @@ export const getCreativeAssetsTool: AvaTool = {
   definition: {
     name: "get_creative_assets",
     description:
-      "List creative assets for an MBA (name, mime, dims, line_item_id, status). Use when the user asks what creative exists for a campaign.",
+      "List creative assets for an MBA (name, mime, dims, line_item_id, status, version, review_status). Use when the user asks what creative exists for a campaign.",
     input_schema: {
       type: "object",
       properties: {
@@ -2,6 +2,7 @@ import type { MediaContainerLineItem } from "@/lib/api/media-containers"
 import type { PlanningAudienceRow } from "@/lib/planning/audienceTypes"
 import type { MediaContainerBestPractice } from "@/lib/types/publisher"
 import type { CreativeAsset } from "@/lib/creative/types"
+import { reviewStatusOf, versionOf } from "@/lib/creative/review"
 import type { PlanningMethodologyRow } from "@/lib/planning/types"
 import { getTemplate } from "@/lib/naming/templates"
 import { composeName } from "@/lib/naming/compose"
@@ -197,6 +198,8 @@ export function summariseCreativeAsset(asset: CreativeAsset) {
     height_px: asset.height_px,
     line_item_id: asset.line_item_id,
     status: asset.status,
+    version: versionOf(asset),
+    review_status: reviewStatusOf(asset),
   }
 }
 
@@ -294,6 +297,15 @@ export type DeliveryChannelGroup = {
   }
 }
 
+/** One channel group's delivery on one day (report charts). */
+export type DeliveryDailyPoint = {
+  date: string
+  group: string
+  spend: number
+  impressions: number
+  clicks: number
+}
+
 export function summariseDeliverySnapshot(args: {
   asOf: string
   window: { startDate: string | null; endDate: string | null }
@@ -10,6 +10,7 @@ import type {
 import type {
   AutopopulateChannel,
   CapturedLineItemsLoad,
+  DetectedSheet,
   MapperResult,
 } from "@/lib/ava/autopopulate/types";
 import type { UserRole } from "@/lib/rbac";
@@ -18,6 +19,8 @@ export type PendingParsedPlan = {
   channel: AutopopulateChannel;
   mapped: MapperResult;
   fileName?: string;
+  /** Detected flight band, so apply_parsed_plan can re-run the burst/flight check. */
+  flight?: DetectedSheet["flight"];
 };
 
 export type AvaToolContext = {
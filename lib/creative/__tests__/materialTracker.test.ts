@@ -0,0 +1,116 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+import {
+  buildMiTracker,
+  deliverablesFromResolved,
+  parseLeadTime,
+  planDeliverableSync,
+  rowsDueForReminder,
+  supplyDeadlineFor,
+} from "@/lib/creative/materialTracker"
+import type { CreativeAsset, MiDeliverable } from "@/lib/creative/types"
+import type { MiResolvedSpec } from "@/lib/specs/resolve"
+
+function spec(overrides: Partial<MiResolvedSpec>): MiResolvedSpec {
+  return {
+    line_item_id: "LI-1",
+    displayName: "Meta — Feed",
+    container_category: "Social",
+    publisher_slug: "meta",
+    format_name: "Instagram Feed - Image",
+    confidence: "high",
+    fields_am: { "Live Date": "2026-07-13" },
+    fields_specs: { "Supply Deadline": "5-10 working days before live" },
+    fields_client: { Publisher: "Meta" },
+    ...overrides,
+  }
+}
+
+function deliverable(id: number, overrides: Partial<MiDeliverable> = {}): MiDeliverable {
+  const [row] = deliverablesFromResolved("MBA1", [spec({})])
+  return { ...row!, id, created_at: 1, ...overrides }
+}
+
+function asset(overrides: Partial<CreativeAsset>): CreativeAsset {
+  return {
+    id: 1,
+    created_at: 1,
+    mba_number: "MBA1",
+    media_plan_master_id: 1,
+    line_item_id: "LI-1",
+    source_table: "media_plan_social",
+    asset_name: "a",
+    original_filename: "a.jpg",
+    mime_type: "image/jpeg",
+    file_size_bytes: 1,
+    width_px: 1080,
+    height_px: 1080,
+    duration_seconds: 0,
+    blob_url: "",
+    blob_pathname: "",
+    status: "active",
+    uploaded_by_email: "",
+    uploaded_by_role: "admin",
+    uploaded_by_name: "",
+    ...overrides,
+  }
+}
+
+test("supply deadlines step back working days, calendar days or to the prior month", () => {
+  assert.deepEqual(parseLeadTime("5-10 working days before live"), { days: 10, unit: "working", defaulted: false })
+  assert.equal(parseLeadTime("Confirm with Amazon Ads account manager").defaulted, true)
+  // Monday 13 July 2026 − 10 working days = Monday 29 June.
+  assert.equal(supplyDeadlineFor("2026-07-13", parseLeadTime("5-10 working days before live")), "2026-06-29")
+  assert.equal(supplyDeadlineFor("2026-07-13", parseLeadTime("7 days prior")), "2026-07-06")
+  assert.equal(supplyDeadlineFor("2026-03-05", parseLeadTime("By the 15th of the month prior to start date")), "2026-02-15")
+  assert.equal(supplyDeadlineFor("", parseLeadTime("5 working days")), "")
+})
+
+test("planDeliverableSync creates new rows, patches changed ones and archives dropped ones", () => {
+  const kept = deliverable(1, { live_date: "2026-07-06", supply_deadline: "2026-06-22", last_reminded_at: 5 })
+  const dropped = deliverable(2, { line_item_id: "LI-OLD" })
+  const next = deliverablesFromResolved("MBA1", [spec({}), spec({ line_item_id: "LI-2" })])
+  const plan = planDeliverableSync([kept, dropped], next)
+  assert.deepEqual(plan.create.map((d) => d.line_item_id), ["LI-2"])
+  assert.deepEqual(plan.update, [{ id: 1, patch: { live_date: "2026-07-13", supply_deadline: "2026-06-29" } }])
+  assert.deepEqual(plan.archive, [2])
+})
+
+test("tracker status follows deadline and compliant uploads", () => {
+  const rows = [
+    deliverable(1),
+    deliverable(2, { line_item_id: "LI-2" }),
+    deliverable(3, { line_item_id: "LI-3", supply_deadline: "2026-07-02" }),
+    deliverable(4, { line_item_id: "LI-4", supply_deadline: "" }),
+  ]
+  const assets = [
+    asset({ id: 10, line_item_id: "LI-1" }),
+    asset({ id: 11, line_item_id: "LI-2", spec_result: "fail" }),
+  ]
+  const tracker = buildMiTracker(rows, assets, "2026-06-30")
+  assert.deepEqual(
+    tracker.rows.map((r) => [r.deliverable.id, r.status, r.days_to_deadline, r.spec_failed]),
+    [
+      [2, "overdue", -1, true],
+      [3, "at_risk", 2, false],
+      [4, "no_deadline", null, false],
+      [1, "delivered", -1, false],
+    ],
+  )
+  assert.equal(tracker.counts.overdue, 1)
+
+  const now = Date.parse("2026-06-30T00:00:00Z")
+  rows[1]!.last_reminded_at = now - 60 * 60 * 1000
+  const due = rowsDueForReminder(buildMiTracker(rows, assets, "2026-06-30").rows, now, "2026-06-30")
+  assert.deepEqual(due.map((r) => r.deliverable.id), [3])
+})
+
+test("rowsDueForReminder: stops once the live date has passed", () => {
+  const rows = [
+    deliverable(1, { supply_deadline: "2026-07-01", live_date: "2026-07-13" }),
+    deliverable(2, { line_item_id: "LI-2", supply_deadline: "2026-07-01", live_date: "2026-07-10" }),
+  ]
+  const today = "2026-07-11"
+  const due = rowsDueForReminder(buildMiTracker(rows, [], today).rows, Date.parse("2026-07-11T00:00:00Z"), today)
+  assert.deepEqual(due.map((r) => r.deliverable.id), [1])
+})
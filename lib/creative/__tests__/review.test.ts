@@ -0,0 +1,86 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+import {
+  checkReviewTransition,
+  groupAssetLineages,
+  lineageIdOf,
+  nextVersionNumber,
+  validateCommentBody,
+  validateReviewBody,
+} from "@/lib/creative/review"
+import type { CreativeAsset } from "@/lib/creative/types"
+
+function asset(overrides: Partial<CreativeAsset>): CreativeAsset {
+  return {
+    id: 1,
+    created_at: 1,
+    mba_number: "MBA1",
+    media_plan_master_id: 1,
+    line_item_id: "",
+    source_table: "",
+    asset_name: "Hero",
+    original_filename: "hero.mp4",
+    mime_type: "video/mp4",
+    file_size_bytes: 10,
+    width_px: 1920,
+    height_px: 1080,
+    duration_seconds: 15,
+    blob_url: "https://example.com/a",
+    blob_pathname: "a",
+    status: "active",
+    uploaded_by_email: "a@b.com",
+    uploaded_by_role: "admin",
+    uploaded_by_name: "Ada",
+    ...overrides,
+  }
+}
+
+test("groupAssetLineages: versions grouped newest first, legacy rows are their own lineage", () => {
+  const rows = [
+    asset({ id: 1, lineage_id: "L1", version: 1, created_at: 10 }),
+    asset({ id: 2, lineage_id: "L1", version: 2, created_at: 20 }),
+    asset({ id: 3, created_at: 15 }),
+  ]
+  const lineages = groupAssetLineages(rows)
+  assert.deepEqual(
+    lineages.map((l) => [l.lineage_id, l.latest.id, l.versions.map((v) => v.id)]),
+    [
+      ["L1", 2, [2, 1]],
+      ["asset-3", 3, [3]],
+    ],
+  )
+  assert.equal(lineageIdOf(rows[2]!), "asset-3")
+  assert.equal(nextVersionNumber(rows, "L1"), 3)
+  assert.equal(nextVersionNumber(rows, "asset-3"), 2)
+  assert.equal(nextVersionNumber(rows, "missing"), null)
+})
+
+test("checkReviewTransition: agency workflow and client sign-off only", () => {
+  assert.deepEqual(checkReviewTransition("draft", "in_review", "manager"), { ok: true })
+  assert.deepEqual(checkReviewTransition("in_review", "client_approved", "client"), { ok: true })
+  assert.deepEqual(checkReviewTransition("in_review", "rejected", "client"), { ok: true })
+  assert.deepEqual(checkReviewTransition("client_approved", "trafficked", "admin"), { ok: true })
+
+  const clientTraffic = checkReviewTransition("client_approved", "trafficked", "client")
+  assert.equal(clientTraffic.ok, false)
+  assert.match(!clientTraffic.ok ? clientTraffic.error : "", /Only the agency/)
+
+  const skip = checkReviewTransition("draft", "trafficked", "admin")
+  assert.equal(skip.ok, false)
+  assert.equal(checkReviewTransition("trafficked", "in_review", "admin").ok, false)
+})
+
+test("validateReviewBody requires a reason to reject; validateCommentBody trims", () => {
+  assert.deepEqual(validateReviewBody({ to_status: "in_review" }), {
+    ok: true,
+    value: { to_status: "in_review", reason: "" },
+  })
+  assert.equal(validateReviewBody({ to_status: "rejected" }).ok, false)
+  assert.equal(validateReviewBody({ to_status: "approved" }).ok, false)
+  assert.deepEqual(validateReviewBody({ to_status: "rejected", reason: " Logo too small " }), {
+    ok: true,
+    value: { to_status: "rejected", reason: "Logo too small" },
+  })
+  assert.deepEqual(validateCommentBody({ body: "  Swap end frame " }), { ok: true, value: { body: "Swap end frame" } })
+  assert.equal(validateCommentBody({ body: "   " }).ok, false)
+})
@@ -0,0 +1,113 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+import {
+  buildSpecReport,
+  parseDurationRange,
+  parseFileSizeLimit,
+  type SpecCandidate,
+  type SpecCheckAsset,
+} from "@/lib/creative/specCompliance"
+import type { MiFormatRecord, MiPublisherRecord } from "@/lib/specs/library"
+
+const META: MiPublisherRecord = {
+  publisher_slug: "meta",
+  publisher_name: "Meta",
+  last_refreshed: "2026-05-22",
+  source: "test",
+  universal_constraints: { max_file_size_image: "30MB", file_type_video: ["MP4", "MOV"] },
+}
+
+const FEED_IMAGE: MiFormatRecord = {
+  format_name: "Instagram Feed - Image",
+  file_type: "JPG or PNG",
+  ratios_supported: ["1:1", "4:5"],
+  dimensions: { "1:1": "1080x1080", "4:5": "1080x1350" },
+}
+
+const FEED_VIDEO: MiFormatRecord = {
+  format_name: "Instagram Feed - Video",
+  ratios_supported: ["1:1", "4:5"],
+  dimensions: { "1:1": "1080x1080", "4:5": "1080x1350" },
+  max_file_size: "4GB",
+  duration_max: "60 minutes",
+  duration_recommended: "5-15 seconds",
+}
+
+function asset(overrides: Partial<SpecCheckAsset>): SpecCheckAsset {
+  return {
+    original_filename: "hero.jpg",
+    mime_type: "image/jpeg",
+    file_size_bytes: 2 * 1024 * 1024,
+    width_px: 1080,
+    height_px: 1350,
+    duration_seconds: 0,
+    ...overrides,
+  }
+}
+
+const candidates: SpecCandidate[] = [
+  { publisher: META, format: FEED_IMAGE, confidence: "high" },
+  { publisher: META, format: FEED_VIDEO, confidence: "high" },
+]
+
+test("spec strings parse into byte limits and duration ranges", () => {
+  assert.equal(parseFileSizeLimit("Under 30MB"), 30 * 1024 ** 2)
+  assert.equal(parseFileSizeLimit({ initial_load: "<100KB", polite_load: "<2-5MB depending on unit" }), 5 * 1024 ** 2)
+  assert.deepEqual(parseDurationRange("5-60 seconds (recommended 9-15s)"), { min: 5, max: 60 })
+  assert.deepEqual(parseDurationRange("15 seconds (exact)"), { min: 15, max: 15 })
+  assert.deepEqual(parseDurationRange("6 minutes"), { min: null, max: 360 })
+  assert.equal(parseDurationRange("Any length"), null)
+})
+
+test("an on-spec image passes against the best-fitting variant, using universal size limits", () => {
+  const report = buildSpecReport(asset({}), candidates, new Date("2026-10-01T00:00:00Z"))
+  assert.equal(report.result, "pass")
+  assert.equal(report.format_name, "Instagram Feed - Image")
+  assert.deepEqual(
+    report.checks.map((c) => [c.kind, c.result]),
+    [
+      ["file_type", "pass"],
+      ["file_size", "pass"],
+      ["aspect_ratio", "pass"],
+      ["dimensions", "pass"],
+    ],
+  )
+})
+
+test("wrong ratio and oversize files fail; long video and upscaled sizes warn", () => {
+  const wide = buildSpecReport(asset({ width_px: 1920, height_px: 1080, file_size_bytes: 40 * 1024 ** 2 }), candidates)
+  assert.equal(wide.result, "fail")
+  assert.deepEqual(
+    wide.checks.filter((c) => c.result === "fail").map((c) => c.kind),
+    ["file_size", "aspect_ratio", "dimensions"],
+  )
+
+  const video = buildSpecReport(
+    asset({ original_filename: "cut.mp4", mime_type: "video/mp4", width_px: 2160, height_px: 2160, duration_seconds: 30 }),
+    candidates,
+  )
+  assert.equal(video.result, "warn")
+  assert.equal(video.format_name, "Instagram Feed - Video")
+  assert.deepEqual(
+    video.checks.filter((c) => c.result === "warn").map((c) => c.kind),
+    ["dimensions", "duration"],
+  )
+})
+
+test("no candidates leaves the asset unchecked with a reason", () => {
+  const report = buildSpecReport(asset({}), [])
+  assert.equal(report.result, "unchecked")
+  assert.match(report.reason ?? "", /No publisher spec/)
+})
+
+test("an uncheckable candidate does not hide a failing one", () => {
+  const report = buildSpecReport(asset({ width_px: 1920, height_px: 1080 }), [
+    { publisher: META, format: FEED_IMAGE },
+    { publisher: null, format: { format_name: "Sponsored Post" } },
+  ])
+  assert.equal(report.result, "fail")
+  assert.equal(report.format_name, "Instagram Feed - Image")
+
+  const onlyUnchecked = buildSpecReport(asset({}), [{ publisher: null, format: { format_name: "Sponsored Post" } }])
+  assert.equal(onlyUnchecked.result, "unchecked")
+})
@@ -0,0 +1,25 @@
+import { getUserRoles } from "@/lib/rbac"
+import type { CreativeAsset } from "@/lib/creative/types"
+
+export type CreativeActor = {
+  email: string
+  role: CreativeAsset["uploaded_by_role"]
+  name: string
+}
+
+/** Who is uploading / reviewing / commenting, from the Auth0 session user. */
+export function resolveCreativeActor(user: { [key: string]: unknown }): CreativeActor {
+  const roles = getUserRoles(user as Parameters<typeof getUserRoles>[0])
+  const role = roles.includes("admin") ? "admin" : roles.includes("client") ? "client" : "manager"
+
+  const email = typeof user.email === "string" && user.email.trim() ? user.email.trim() : ""
+
+  let name = typeof user.name === "string" ? user.name.trim() : ""
+  if (!name) {
+    const given = typeof user.given_name === "string" ? user.given_name.trim() : ""
+    const family = typeof user.family_name === "string" ? user.family_name.trim() : ""
+    name = `${given} ${family}`.trim()
+  }
+
+  return { email, role, name }
+}
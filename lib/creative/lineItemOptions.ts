@@ -30,7 +30,7 @@ export type LineItemOption = {
   source_table: string
 }
 
-function resolveLineItemId(item: Record<string, unknown>): string {
+export function resolveLineItemId(item: Record<string, unknown>): string {
   const candidates = [item.line_item_id, item.lineItemId, item.LINE_ITEM_ID, item.id]
   for (const value of candidates) {
     if (value === undefined || value === null) continue
@@ -0,0 +1,242 @@
+import { differenceInCalendarDays, format, getDaysInMonth, subBusinessDays, subDays } from "date-fns"
+
+import { coerceBurstDateLocal, formatBurstDateLocal } from "@/lib/mediaplan/burstDate"
+import type { CreativeAsset, MiDeliverable, MiDeliverableWritable } from "@/lib/creative/types"
+import type { MiResolvedSpec } from "@/lib/specs/resolve"
+
+export const MI_DELIVERY_STATUSES = ["overdue", "at_risk", "pending", "no_deadline", "delivered"] as const
+
+export type MiDeliveryStatus = (typeof MI_DELIVERY_STATUSES)[number]
+
+export const MI_DELIVERY_LABELS: Record<MiDeliveryStatus, string> = {
+  overdue: "Overdue",
+  at_risk: "At risk",
+  pending: "Pending",
+  no_deadline: "No deadline",
+  delivered: "Delivered",
+}
+
+/** Undelivered rows this many days (or fewer) from their deadline are at risk. */
+export const MI_AT_RISK_DAYS = 3
+/** Hourly digest cron: remind each late row at most about once a day. */
+export const MI_REMINDER_INTERVAL_MS = 20 * 60 * 60 * 1000
+
+export type MiLeadTime = {
+  days: number
+  unit: "working" | "calendar" | "month_prior"
+  /** True when the publisher rule gave no usable number. */
+  defaulted: boolean
+}
+
+const DEFAULT_LEAD_TIME: MiLeadTime = { days: 5, unit: "working", defaulted: true }
+
+/**
+ * Read a publisher supply rule. Ranges take the longer bound ("5-10 working
+ * days" → 10) so the deadline errs early; unreadable rules fall back to 5
+ * working days.
+ */
+export function parseLeadTime(rule: string): MiLeadTime {
+  const monthPrior = /by the (\d{1,2})(?:st|nd|rd|th)? of the month prior/i.exec(rule)
+  if (monthPrior) return { days: Number(monthPrior[1]), unit: "month_prior", defaulted: false }
+  const match = /(\d+)(?:\s*[-–]\s*(\d+))?\s*(working|business)?\s*days?\b/i.exec(rule)
+  if (!match) return DEFAULT_LEAD_TIME
+  return {
+    days: Number(match[2] ?? match[1]),
+    unit: match[3] ? "working" : "calendar",
+    defaulted: false,
+  }
+}
+
+export function leadTimeLabel(lead: MiLeadTime): string {
+  const base =
+    lead.unit === "month_prior"
+      ? `by day ${lead.days} of the prior month`
+      : `${lead.days} ${lead.unit === "working" ? "working " : ""}day${lead.days === 1 ? "" : "s"}`
+  return lead.defaulted ? `${base} (default)` : base
+}
+
+/** Supply deadline (YYYY-MM-DD) for a live date, or "" when the live date is unusable. */
+export function supplyDeadlineFor(liveDate: string, lead: MiLeadTime): string {
+  const live = coerceBurstDateLocal(liveDate)
+  if (!live) return ""
+  if (lead.unit === "month_prior") {
+    const prior = new Date(live.getFullYear(), live.getMonth() - 1, 1)
+    prior.setDate(Math.min(lead.days, getDaysInMonth(prior)))
+    return format(prior, "yyyy-MM-dd")
+  }
+  const deadline = lead.unit === "working" ? subBusinessDays(live, lead.days) : subDays(live, lead.days)
+  return format(deadline, "yyyy-MM-dd")
+}
+
+export function deliverableKey(d: Pick<MiDeliverable, "line_item_id" | "format_name" | "variant">): string {
+  return [d.line_item_id, d.format_name, d.variant].join("|")
+}
+
+/** One deliverable per resolved MI row (NEEDS_SPEC rows still need creative). */
+export function deliverablesFromResolved(
+  mbaNumber: string,
+  resolved: readonly MiResolvedSpec[],
+): MiDeliverableWritable[] {
+  const byKey = new Map<string, MiDeliverableWritable>()
+  for (const spec of resolved) {
+    const rule = spec.fields_specs["Supply Deadline"] ?? ""
+    const lead = parseLeadTime(rule)
+    const liveDate = formatBurstDateLocal(spec.fields_am["Live Date"] ?? "")
+    const row: MiDeliverableWritable = {
+      mba_number: mbaNumber,
+      line_item_id: spec.line_item_id,
+      line_item_label: spec.displayName,
+      container_category: spec.container_category,
+      publisher_name: spec.fields_client.Publisher ?? "",
+      format_name: spec.format_name ?? "",
+      variant: spec.variant ?? "",
+      live_date: liveDate,
+      supply_deadline_rule: rule,
+      lead_time: leadTimeLabel(lead),
+      supply_deadline: liveDate ? supplyDeadlineFor(liveDate, lead) : "",
+      archived: false,
+      last_reminded_at: 0,
+    }
+    byKey.set(deliverableKey(row), row)
+  }
+  return [...byKey.values()]
+}
+
+const SYNCED_FIELDS = [
+  "line_item_label",
+  "container_category",
+  "publisher_name",
+  "live_date",
+  "supply_deadline_rule",
+  "lead_time",
+  "supply_deadline",
+] as const satisfies readonly (keyof MiDeliverableWritable)[]
+
+export type MiDeliverableSyncPlan = {
+  create: MiDeliverableWritable[]
+  update: Array<{ id: number; patch: Partial<MiDeliverableWritable> }>
+  archive: number[]
+}
+
+/**
+ * Diff a fresh export against the stored rows. Matching rows keep their id and
+ * reminder history; rows missing from the export are archived, not deleted.
+ */
+export function planDeliverableSync(
+  existing: readonly MiDeliverable[],
+  next: readonly MiDeliverableWritable[],
+): MiDeliverableSyncPlan {
+  const byKey = new Map(existing.map((d) => [deliverableKey(d), d]))
+  const plan: MiDeliverableSyncPlan = { create: [], update: [], archive: [] }
+  const seen = new Set<string>()
+  for (const row of next) {
+    const key = deliverableKey(row)
+    seen.add(key)
+    const current = byKey.get(key)
+    if (!current) {
+      plan.create.push(row)
+      continue
+    }
+    const patch: Partial<MiDeliverableWritable> = {}
+    for (const field of SYNCED_FIELDS) {
+      if (current[field] !== row[field]) Object.assign(patch, { [field]: row[field] })
+    }
+    if (current.archived) patch.archived = false
+    if (Object.keys(patch).length > 0) plan.update.push({ id: current.id, patch })
+  }
+  for (const d of existing) {
+    if (!d.archived && !seen.has(deliverableKey(d))) plan.archive.push(d.id)
+  }
+  return plan
+}
+
+export type MiTrackerRow = {
+  deliverable: MiDeliverable
+  status: MiDeliveryStatus
+  /** Negative once the deadline has passed; null without a deadline. */
+  days_to_deadline: number | null
+  asset_ids: number[]
+  /** Creative arrived but every linked asset fails its spec check. */
+  spec_failed: boolean
+}
+
+export type MiTracker = {
+  rows: MiTrackerRow[]
+  counts: Record<MiDeliveryStatus, number>
+}
+
+/**
+ * An asset counts toward a deliverable when it is active, linked to the same
+ * line item, and — where its spec check picked a format — that format matches.
+ */
+function linkedAssets(d: MiDeliverable, assets: readonly CreativeAsset[]): CreativeAsset[] {
+  return assets.filter(
+    (a) =>
+      a.status === "active" &&
+      a.line_item_id === d.line_item_id &&
+      (!a.spec_report?.format_name || !d.format_name || a.spec_report.format_name === d.format_name),
+  )
+}
+
+export function deliveryStatusFor(
+  deadline: string,
+  today: string,
+  delivered: boolean,
+): { status: MiDeliveryStatus; days_to_deadline: number | null } {
+  const due = coerceBurstDateLocal(deadline)
+  const now = coerceBurstDateLocal(today)
+  const days = due && now ? differenceInCalendarDays(due, now) : null
+  if (delivered) return { status: "delivered", days_to_deadline: days }
+  if (days == null) return { status: "no_deadline", days_to_deadline: null }
+  if (days < 0) return { status: "overdue", days_to_deadline: days }
+  if (days <= MI_AT_RISK_DAYS) return { status: "at_risk", days_to_deadline: days }
+  return { status: "pending", days_to_deadline: days }
+}
+
+/** Tracker rows for an MBA's live deliverables; late rows first, then by deadline. */
+export function buildMiTracker(
+  deliverables: readonly MiDeliverable[],
+  assets: readonly CreativeAsset[],
+  today: string,
+): MiTracker {
+  const counts = Object.fromEntries(MI_DELIVERY_STATUSES.map((s) => [s, 0])) as Record<MiDeliveryStatus, number>
+  const rows = deliverables
+    .filter((d) => !d.archived)
+    .map((deliverable): MiTrackerRow => {
+      const linked = linkedAssets(deliverable, assets)
+      const compliant = linked.filter((a) => a.spec_result !== "fail")
+      const { status, days_to_deadline } = deliveryStatusFor(
+        deliverable.supply_deadline,
+        today,
+        compliant.length > 0,
+      )
+      counts[status]++
+      return {
+        deliverable,
+        status,
+        days_to_deadline,
+        asset_ids: linked.map((a) => a.id),
+        spec_failed: linked.length > 0 && compliant.length === 0,
+      }
+    })
+    .sort(
+      (a, b) =>
+        MI_DELIVERY_STATUSES.indexOf(a.status) - MI_DELIVERY_STATUSES.indexOf(b.status) ||
+        (a.deliverable.supply_deadline || "9999").localeCompare(b.deliverable.supply_deadline || "9999"),
+    )
+  return { rows, counts }
+}
+
+/**
+ * Overdue / at-risk rows not reminded within the last interval. Reminders stop
+ * once the live date has passed: by then the line is running without the
+ * creative and the trafficking team is chasing it directly.
+ */
+export function rowsDueForReminder(rows: readonly MiTrackerRow[], now: number, today: string): MiTrackerRow[] {
+  return rows.filter(
+    (r) =>
+      (r.status === "overdue" || r.status === "at_risk") &&
+      !(r.deliverable.live_date && r.deliverable.live_date < today) &&
+      now - (r.deliverable.last_reminded_at || 0) >= MI_REMINDER_INTERVAL_MS,
+  )
+}
@@ -0,0 +1,72 @@
+import "server-only"
+
+import { fetchAllMediaContainerLineItems, MEDIA_CONTAINER_ENDPOINTS } from "@/lib/api/media-containers"
+import { LINE_ITEM_SOURCE_TABLES, resolveLineItemId } from "@/lib/creative/lineItemOptions"
+import { buildSpecReport, uncheckedSpecReport, type SpecCandidate } from "@/lib/creative/specCompliance"
+import type { CreativeAsset, CreativeSpecReport } from "@/lib/creative/types"
+import { update } from "@/lib/creative/xanoCreativeAssets"
+import { loadMiLibrary } from "@/lib/specs/library"
+import { resolveMiPlan } from "@/lib/specs/resolve"
+
+type MediaContainerKey = keyof typeof MEDIA_CONTAINER_ENDPOINTS
+
+function channelKeyForSourceTable(sourceTable: string): MediaContainerKey | null {
+  const entry = Object.entries(LINE_ITEM_SOURCE_TABLES).find(([, table]) => table === sourceTable)
+  return entry && entry[0] in MEDIA_CONTAINER_ENDPOINTS ? (entry[0] as MediaContainerKey) : null
+}
+
+/**
+ * The plan row the asset is linked to. Container rows exist per plan version;
+ * the latest version's row carries the current publisher/format.
+ */
+async function findLinkedLineItem(
+  asset: Pick<CreativeAsset, "mba_number" | "line_item_id">,
+  channelKey: MediaContainerKey,
+): Promise<Record<string, unknown> | null> {
+  const lineItems = await fetchAllMediaContainerLineItems(asset.mba_number, undefined, [channelKey])
+  const matches = (lineItems[channelKey] ?? []).filter(
+    (row) => resolveLineItemId(row as Record<string, unknown>) === asset.line_item_id,
+  )
+  if (matches.length === 0) return null
+  return matches.reduce((a, b) => (Number(b.media_plan_version) > Number(a.media_plan_version) ? b : a))
+}
+
+/** Resolve the line item's MI library format(s) and check the asset against them. */
+export async function resolveAssetSpecReport(asset: CreativeAsset): Promise<CreativeSpecReport> {
+  if (!asset.line_item_id || !asset.source_table) {
+    return uncheckedSpecReport("Not linked to a line item.")
+  }
+  const channelKey = channelKeyForSourceTable(asset.source_table)
+  if (!channelKey) {
+    return uncheckedSpecReport(`No spec lookup for ${asset.source_table}.`)
+  }
+  const row = await findLinkedLineItem(asset, channelKey)
+  if (!row) {
+    return uncheckedSpecReport("Linked line item was not found on the media plan.")
+  }
+
+  const library = loadMiLibrary()
+  const { resolved } = resolveMiPlan({ lineItems: { [channelKey]: [row] } }, library)
+  const candidates: SpecCandidate[] = []
+  for (const spec of resolved) {
+    if (!spec.publisher_slug || !spec.format_name) continue
+    const publisher = library.bySlug.get(spec.publisher_slug) ?? null
+    const format = publisher?.formats?.find((f) => f.format_name === spec.format_name)
+    if (format) candidates.push({ publisher, format, confidence: spec.confidence })
+  }
+  return buildSpecReport(asset, candidates)
+}
+
+/**
+ * Re-check and persist spec compliance. Never throws — a failed lookup must not
+ * fail the upload or edit that triggered it, so the asset comes back unchanged.
+ */
+export async function refreshAssetSpecCheck(asset: CreativeAsset): Promise<CreativeAsset> {
+  try {
+    const report = await resolveAssetSpecReport(asset)
+    return await update(asset.id, { spec_result: report.result, spec_report: report })
+  } catch (error) {
+    console.error("[creative-assets] spec check failed", { id: asset.id, error })
+    return asset
+  }
+}
@@ -0,0 +1,139 @@
+import type { CreativeAsset, CreativeReviewStatus } from "@/lib/creative/types"
+import { CREATIVE_REVIEW_STATUSES } from "@/lib/creative/types"
+
+export const CREATIVE_REVIEW_LABELS: Record<CreativeReviewStatus, string> = {
+  draft: "Draft",
+  in_review: "In review",
+  client_approved: "Client approved",
+  trafficked: "Trafficked",
+  rejected: "Rejected",
+}
+
+/**
+ * Allowed review moves. Trafficked is terminal — a changed creative is a new
+ * version, not a re-opened one.
+ */
+const REVIEW_TRANSITIONS: Record<CreativeReviewStatus, readonly CreativeReviewStatus[]> = {
+  draft: ["in_review"],
+  in_review: ["client_approved", "rejected", "draft"],
+  client_approved: ["trafficked", "in_review"],
+  rejected: ["in_review", "draft"],
+  trafficked: [],
+}
+
+/** Clients can only sign off or reject what the agency has put in review. */
+const CLIENT_TRANSITIONS: Partial<Record<CreativeReviewStatus, readonly CreativeReviewStatus[]>> = {
+  in_review: ["client_approved", "rejected"],
+}
+
+export const CREATIVE_COMMENT_MAX_LENGTH = 2000
+export const CREATIVE_REJECTION_REASON_MAX_LENGTH = 500
+
+type ValidationResult<T> = { ok: true; value: T } | { ok: false; error: string }
+
+/** Pre-versioning rows have no lineage; each is its own lineage keyed by id. */
+export function lineageIdOf(asset: Pick<CreativeAsset, "id" | "lineage_id">): string {
+  return asset.lineage_id?.trim() || `asset-${asset.id}`
+}
+
+export function versionOf(asset: Pick<CreativeAsset, "version">): number {
+  return typeof asset.version === "number" && asset.version > 0 ? asset.version : 1
+}
+
+export function reviewStatusOf(asset: Pick<CreativeAsset, "review_status">): CreativeReviewStatus {
+  return asset.review_status && CREATIVE_REVIEW_STATUSES.includes(asset.review_status)
+    ? asset.review_status
+    : "draft"
+}
+
+export type CreativeAssetLineage = {
+  lineage_id: string
+  latest: CreativeAsset
+  /** Newest version first. */
+  versions: CreativeAsset[]
+}
+
+/** Group assets by lineage, newest version first; lineages ordered by latest upload. */
+export function groupAssetLineages(assets: readonly CreativeAsset[]): CreativeAssetLineage[] {
+  const byLineage = new Map<string, CreativeAsset[]>()
+  for (const asset of assets) {
+    const key = lineageIdOf(asset)
+    const rows = byLineage.get(key) ?? []
+    rows.push(asset)
+    byLineage.set(key, rows)
+  }
+  return [...byLineage.entries()]
+    .map(([lineage_id, rows]) => {
+      const versions = rows.sort(
+        (a, b) => versionOf(b) - versionOf(a) || (b.created_at || 0) - (a.created_at || 0),
+      )
+      return { lineage_id, latest: versions[0]!, versions }
+    })
+    .sort((a, b) => (b.latest.created_at || 0) - (a.latest.created_at || 0))
+}
+
+/** Next version number for a lineage, or null when no asset carries that lineage. */
+export function nextVersionNumber(assets: readonly CreativeAsset[], lineageId: string): number | null {
+  const versions = assets.filter((a) => lineageIdOf(a) === lineageId).map(versionOf)
+  return versions.length ? Math.max(...versions) + 1 : null
+}
+
+export function allowedReviewTransitions(
+  from: CreativeReviewStatus,
+  role: CreativeAsset["uploaded_by_role"],
+): readonly CreativeReviewStatus[] {
+  return role === "client" ? (CLIENT_TRANSITIONS[from] ?? []) : REVIEW_TRANSITIONS[from]
+}
+
+export function checkReviewTransition(
+  from: CreativeReviewStatus,
+  to: CreativeReviewStatus,
+  role: CreativeAsset["uploaded_by_role"],
+): { ok: true } | { ok: false; error: string } {
+  if (allowedReviewTransitions(from, role).includes(to)) return { ok: true }
+  if (REVIEW_TRANSITIONS[from].includes(to)) {
+    return { ok: false, error: `Only the agency can move an asset to ${CREATIVE_REVIEW_LABELS[to]}` }
+  }
+  return {
+    ok: false,
+    error: `Cannot move from ${CREATIVE_REVIEW_LABELS[from]} to ${CREATIVE_REVIEW_LABELS[to]}`,
+  }
+}
+
+export function validateReviewBody(
+  body: unknown,
+): ValidationResult<{ to_status: CreativeReviewStatus; reason: string }> {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { ok: false, error: "Expected a JSON object body" }
+  }
+  const raw = body as Record<string, unknown>
+  const toStatus = raw.to_status
+  if (typeof toStatus !== "string" || !CREATIVE_REVIEW_STATUSES.includes(toStatus as CreativeReviewStatus)) {
+    return { ok: false, error: `to_status must be one of ${CREATIVE_REVIEW_STATUSES.join(", ")}` }
+  }
+  if (raw.reason !== undefined && typeof raw.reason !== "string") {
+    return { ok: false, error: "reason must be a string" }
+  }
+  const reason = typeof raw.reason === "string" ? raw.reason.trim() : ""
+  if (toStatus === "rejected" && !reason) {
+    return { ok: false, error: "A reason is required to reject an asset" }
+  }
+  if (reason.length > CREATIVE_REJECTION_REASON_MAX_LENGTH) {
+    return { ok: false, error: `reason must be at most ${CREATIVE_REJECTION_REASON_MAX_LENGTH} characters` }
+  }
+  return { ok: true, value: { to_status: toStatus as CreativeReviewStatus, reason } }
+}
+
+export function validateCommentBody(body: unknown): ValidationResult<{ body: string }> {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { ok: false, error: "Expected a JSON object body" }
+  }
+  const text = (body as Record<string, unknown>).body
+  if (typeof text !== "string" || !text.trim()) {
+    return { ok: false, error: "body must be a non-empty string" }
+  }
+  if (text.trim().length > CREATIVE_COMMENT_MAX_LENGTH) {
+    return { ok: false, error: `body must be at most ${CREATIVE_COMMENT_MAX_LENGTH} characters` }
+  }
+  return { ok: true, value: { body: text.trim() } }
+}
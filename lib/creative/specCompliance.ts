@@ -0,0 +1,399 @@
+import type { MiFormatRecord, MiPublisherRecord } from "@/lib/specs/library"
+import type { MiResolvedSpec } from "@/lib/specs/resolve"
+import type {
+  CreativeAsset,
+  CreativeSpecCheck,
+  CreativeSpecReport,
+  CreativeSpecResult,
+} from "@/lib/creative/types"
+
+export const CREATIVE_SPEC_LABELS: Record<CreativeSpecResult, string> = {
+  pass: "Pass",
+  warn: "Warn",
+  fail: "Fail",
+  unchecked: "Unchecked",
+}
+
+/** Aspect ratios within 1% count as the same ratio (1080x1350 vs 4:5 rounding). */
+const RATIO_TOLERANCE = 0.01
+/** Seconds of slack on duration limits — encoders pad a frame or two. */
+const DURATION_TOLERANCE_S = 0.5
+
+const RESULT_RANK: Record<CreativeSpecResult, number> = { pass: 0, unchecked: 1, warn: 2, fail: 3 }
+
+export type SpecCheckAsset = Pick<
+  CreativeAsset,
+  "original_filename" | "mime_type" | "file_size_bytes" | "width_px" | "height_px" | "duration_seconds"
+>
+
+export type SpecCandidate = {
+  publisher: MiPublisherRecord | null
+  format: MiFormatRecord
+  confidence?: MiResolvedSpec["confidence"]
+}
+
+type AssetKind = "image" | "video" | "audio" | "other"
+
+/** Spec wording → file extensions it allows. HTML5 units ship as zips. */
+const FILE_TYPE_EXTENSIONS: Record<string, string[]> = {
+  "mpeg-4": ["mp4"],
+  html5: ["zip"],
+  prores: ["mov"],
+  jpg: ["jpg", "jpeg"],
+  jpeg: ["jpg", "jpeg"],
+  png: ["png"],
+  gif: ["gif"],
+  mp4: ["mp4", "m4v"],
+  mov: ["mov"],
+  mpeg: ["mpeg", "mpg"],
+  mpg: ["mpeg", "mpg"],
+  "3gp": ["3gp"],
+  avi: ["avi"],
+  webm: ["webm"],
+  zip: ["zip"],
+  pdf: ["pdf"],
+  eps: ["eps"],
+  mp3: ["mp3"],
+  wav: ["wav"],
+  m4a: ["m4a"],
+  aac: ["aac"],
+  ogg: ["ogg"],
+  m2ts: ["m2ts"],
+  m2t: ["m2t"],
+  ts: ["ts"],
+}
+
+const FILE_TYPE_PATTERN = new RegExp(
+  `\\b(${Object.keys(FILE_TYPE_EXTENSIONS)
+    .sort((a, b) => b.length - a.length)
+    .join("|")})\\b`,
+  "gi",
+)
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "video/mp4": "mp4",
+  "video/quicktime": "mov",
+  "video/mpeg": "mpeg",
+  "video/webm": "webm",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/mp4": "m4a",
+  "application/pdf": "pdf",
+  "application/zip": "zip",
+}
+
+const SIZE_UNITS: Record<string, number> = { kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 }
+
+/** Dimension strings hedged like this are examples, not hard requirements. */
+const ADVISORY_DIMENSIONS = /\b(varies|confirm|common|recommended|minimum)\b/i
+
+function assetKind(asset: SpecCheckAsset): AssetKind {
+  const mime = asset.mime_type.toLowerCase()
+  if (mime.startsWith("image/")) return "image"
+  if (mime.startsWith("video/")) return "video"
+  if (mime.startsWith("audio/")) return "audio"
+  return "other"
+}
+
+function assetExtension(asset: SpecCheckAsset): string {
+  const match = /\.([a-z0-9]+)$/i.exec(asset.original_filename.trim())
+  if (match) return match[1]!.toLowerCase()
+  return MIME_EXTENSIONS[asset.mime_type.toLowerCase()] ?? ""
+}
+
+function textValues(value: unknown): string[] {
+  if (typeof value === "string") return [value]
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === "string")
+  if (value && typeof value === "object") return Object.values(value).flatMap(textValues)
+  return []
+}
+
+/** Universal constraint keyed by asset kind, e.g. `max_file_size_video`. */
+function universalConstraint(
+  publisher: MiPublisherRecord | null,
+  key: string,
+  kind: AssetKind,
+): unknown {
+  const constraints = publisher?.universal_constraints
+  if (!constraints || typeof constraints !== "object" || Array.isArray(constraints)) return undefined
+  return (constraints as Record<string, unknown>)[`${key}_${kind}`]
+}
+
+export function parseAllowedExtensions(value: unknown): string[] {
+  const out = new Set<string>()
+  for (const text of textValues(value)) {
+    for (const match of text.matchAll(FILE_TYPE_PATTERN)) {
+      for (const ext of FILE_TYPE_EXTENSIONS[match[1]!.toLowerCase()] ?? []) out.add(ext)
+    }
+  }
+  return [...out]
+}
+
+/** Largest size stated (bytes) — objects list per-load budgets, the biggest is the ceiling. */
+export function parseFileSizeLimit(value: unknown): number | null {
+  let max: number | null = null
+  for (const text of textValues(value)) {
+    for (const match of text.matchAll(/(\d+(?:\.\d+)?)\s*(KB|MB|GB)\b/gi)) {
+      const bytes = Number(match[1]) * SIZE_UNITS[match[2]!.toLowerCase()]!
+      if (max == null || bytes > max) max = bytes
+    }
+  }
+  return max
+}
+
+export function parseDimensionPairs(value: unknown): Array<{ width: number; height: number }> {
+  const pairs: Array<{ width: number; height: number }> = []
+  for (const text of textValues(value)) {
+    for (const match of text.matchAll(/(\d{2,5})\s*[x×]\s*(\d{2,5})/gi)) {
+      pairs.push({ width: Number(match[1]), height: Number(match[2]) })
+    }
+  }
+  return pairs
+}
+
+export function parseRatios(value: unknown): number[] {
+  const ratios: number[] = []
+  for (const text of textValues(value)) {
+    for (const match of text.matchAll(/(\d+(?:\.\d+)?)\s*:\s*(\d+(?:\.\d+)?)/g)) {
+      const w = Number(match[1])
+      const h = Number(match[2])
+      if (w > 0 && h > 0) ratios.push(w / h)
+    }
+  }
+  return ratios
+}
+
+/**
+ * "5-15 seconds" → 5..15, "15 seconds (exact)" → 15..15, "6 minutes" → ..360.
+ * A lone number is a ceiling. "Any length" and unparseable text → null.
+ */
+export function parseDurationRange(value: unknown): { min: number | null; max: number } | null {
+  const text = textValues(value)[0]
+  if (!text || /any length/i.test(text)) return null
+  const match = /(\d+(?:\.\d+)?)(?:\s*[-–]\s*(\d+(?:\.\d+)?))?\s*(seconds?|secs?|s|minutes?|mins?)\b/i.exec(text)
+  if (!match) return null
+  const scale = /^m/i.test(match[3]!) ? 60 : 1
+  const first = Number(match[1]) * scale
+  if (match[2]) return { min: first, max: Number(match[2]) * scale }
+  return { min: /\bexact\b/i.test(text) ? first : null, max: first }
+}
+
+function sameRatio(a: number, b: number): boolean {
+  return Math.abs(a - b) / b <= RATIO_TOLERANCE
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) return `${Math.round((bytes / 1024 ** 3) * 10) / 10}GB`
+  if (bytes >= 1024 ** 2) return `${Math.round((bytes / 1024 ** 2) * 10) / 10}MB`
+  return `${Math.round(bytes / 1024)}KB`
+}
+
+function formatRatio(ratio: number): string {
+  return `${Math.round(ratio * 100) / 100}:1`
+}
+
+function formatSeconds(seconds: number): string {
+  return `${Math.round(seconds * 10) / 10}s`
+}
+
+function checkFileType(
+  asset: SpecCheckAsset,
+  kind: AssetKind,
+  candidate: SpecCandidate,
+): CreativeSpecCheck | null {
+  const spec = candidate.format.file_type ?? universalConstraint(candidate.publisher, "file_type", kind)
+  const allowed = parseAllowedExtensions(spec)
+  if (allowed.length === 0) return null
+  const ext = assetExtension(asset)
+  const expected = textValues(spec).join(", ")
+  if (ext && allowed.includes(ext)) {
+    return { kind: "file_type", result: "pass", message: `.${ext} is an accepted file type.`, expected, actual: ext }
+  }
+  return {
+    kind: "file_type",
+    result: "fail",
+    message: `${ext ? `.${ext}` : "This file type"} is not accepted — spec allows ${expected}.`,
+    expected,
+    actual: ext || asset.mime_type,
+  }
+}
+
+function checkFileSize(
+  asset: SpecCheckAsset,
+  kind: AssetKind,
+  candidate: SpecCandidate,
+): CreativeSpecCheck | null {
+  const limit =
+    parseFileSizeLimit(candidate.format.max_file_size) ??
+    parseFileSizeLimit(universalConstraint(candidate.publisher, "max_file_size", kind))
+  if (limit == null || !(asset.file_size_bytes > 0)) return null
+  const expected = `≤ ${formatBytes(limit)}`
+  const actual = formatBytes(asset.file_size_bytes)
+  return asset.file_size_bytes <= limit
+    ? { kind: "file_size", result: "pass", message: `${actual} is within the ${formatBytes(limit)} limit.`, expected, actual }
+    : { kind: "file_size", result: "fail", message: `${actual} exceeds the ${formatBytes(limit)} limit.`, expected, actual }
+}
+
+function checkGeometry(asset: SpecCheckAsset, format: MiFormatRecord): CreativeSpecCheck[] {
+  const pairs = [...parseDimensionPairs(format.dimensions), ...parseDimensionPairs(format.ratios_supported ?? format.ratios)]
+  const ratios = [
+    ...parseRatios(format.ratios_supported ?? format.ratios),
+    ...parseRatios(format.ratio),
+    ...pairs.map((p) => p.width / p.height),
+  ]
+  if (pairs.length === 0 && ratios.length === 0) return []
+
+  if (!(asset.width_px > 0 && asset.height_px > 0)) {
+    return [{ kind: "dimensions", result: "warn", message: "Dimensions were not detected, so size and ratio were not checked." }]
+  }
+
+  const advisory = textValues(format.dimensions).some((t) => ADVISORY_DIMENSIONS.test(t))
+  const miss = advisory ? "warn" : "fail"
+  const actualSize = `${asset.width_px}x${asset.height_px}`
+  const assetRatio = asset.width_px / asset.height_px
+  const checks: CreativeSpecCheck[] = []
+
+  if (ratios.length > 0) {
+    const expected = [...new Set(ratios.map(formatRatio))].join(", ")
+    checks.push(
+      ratios.some((r) => sameRatio(assetRatio, r))
+        ? { kind: "aspect_ratio", result: "pass", message: `Aspect ratio ${formatRatio(assetRatio)} matches the spec.`, expected, actual: formatRatio(assetRatio) }
+        : {
+            kind: "aspect_ratio",
+            result: miss,
+            message: `Aspect ratio ${formatRatio(assetRatio)} is not one of ${expected}.`,
+            expected,
+            actual: formatRatio(assetRatio),
+          },
+    )
+  }
+
+  if (pairs.length > 0) {
+    const expected = [...new Set(pairs.map((p) => `${p.width}x${p.height}`))].join(", ")
+    const base = { kind: "dimensions" as const, expected, actual: actualSize }
+    if (pairs.some((p) => p.width === asset.width_px && p.height === asset.height_px)) {
+      checks.push({ ...base, result: "pass", message: `${actualSize} matches the spec.` })
+    } else {
+      const sameShape = pairs.filter((p) => sameRatio(assetRatio, p.width / p.height))
+      if (sameShape.some((p) => asset.width_px >= p.width && asset.height_px >= p.height)) {
+        checks.push({ ...base, result: "warn", message: `${actualSize} is larger than the spec size and will be scaled down.` })
+      } else if (sameShape.length > 0) {
+        checks.push({ ...base, result: miss, message: `${actualSize} is below the spec size (${expected}).` })
+      } else {
+        checks.push({ ...base, result: miss, message: `${actualSize} is not a spec size (${expected}).` })
+      }
+    }
+  }
+
+  return checks
+}
+
+function checkDuration(asset: SpecCheckAsset, format: MiFormatRecord): CreativeSpecCheck | null {
+  const hard = parseDurationRange(format.duration)
+  const ceiling = parseDurationRange(format.duration_max)
+  const recommended = parseDurationRange(format.duration_recommended)
+  const min = hard?.min ?? null
+  const maxes = [hard?.max, ceiling?.max].filter((n): n is number => n != null)
+  const max = maxes.length ? Math.min(...maxes) : null
+  if (min == null && max == null && !recommended) return null
+
+  if (!(asset.duration_seconds > 0)) {
+    return { kind: "duration", result: "warn", message: "Duration was not detected, so length was not checked." }
+  }
+
+  const actual = formatSeconds(asset.duration_seconds)
+  const expected =
+    min != null && max != null
+      ? min === max ? formatSeconds(min) : `${formatSeconds(min)}–${formatSeconds(max)}`
+      : max != null ? `≤ ${formatSeconds(max)}` : `${formatSeconds(recommended!.min ?? 0)}–${formatSeconds(recommended!.max)}`
+  const base = { kind: "duration" as const, expected, actual }
+  if (min != null && asset.duration_seconds < min - DURATION_TOLERANCE_S) {
+    return { ...base, result: "fail", message: `${actual} is shorter than the required ${expected}.` }
+  }
+  if (max != null && asset.duration_seconds > max + DURATION_TOLERANCE_S) {
+    return { ...base, result: "fail", message: `${actual} is longer than the allowed ${expected}.` }
+  }
+  if (
+    recommended &&
+    ((recommended.min != null && asset.duration_seconds < recommended.min - DURATION_TOLERANCE_S) ||
+      asset.duration_seconds > recommended.max + DURATION_TOLERANCE_S)
+  ) {
+    return { ...base, result: "warn", message: `${actual} is outside the recommended ${format.duration_recommended}.` }
+  }
+  return { ...base, result: "pass", message: `${actual} is within the spec length.` }
+}
+
+/** Every applicable check for one candidate format; empty when the spec states nothing checkable. */
+export function checkAssetAgainstFormat(asset: SpecCheckAsset, candidate: SpecCandidate): CreativeSpecCheck[] {
+  const kind = assetKind(asset)
+  const checks: Array<CreativeSpecCheck | null> = [
+    checkFileType(asset, kind, candidate),
+    checkFileSize(asset, kind, candidate),
+  ]
+  if (kind === "image" || kind === "video") checks.push(...checkGeometry(asset, candidate.format))
+  if (kind === "video" || kind === "audio") checks.push(checkDuration(asset, candidate.format))
+  return checks.filter((c): c is CreativeSpecCheck => c != null)
+}
+
+export function specResultOf(checks: readonly CreativeSpecCheck[]): CreativeSpecResult {
+  if (checks.length === 0) return "unchecked"
+  return checks.reduce<CreativeSpecResult>(
+    (worst, c) => (RESULT_RANK[c.result] > RESULT_RANK[worst] ? c.result : worst),
+    "pass",
+  )
+}
+
+export function uncheckedSpecReport(reason: string, now = new Date()): CreativeSpecReport {
+  return {
+    result: "unchecked",
+    publisher_slug: null,
+    format_name: null,
+    reason,
+    checks: [],
+    checked_at: now.toISOString(),
+  }
+}
+
+/**
+ * Check the asset against each candidate format (a line item can resolve to a
+ * static and a video variant) and keep the one it fits best.
+ */
+export function buildSpecReport(
+  asset: SpecCheckAsset,
+  candidates: readonly SpecCandidate[],
+  now = new Date(),
+): CreativeSpecReport {
+  if (candidates.length === 0) return uncheckedSpecReport("No publisher spec found for this line item.", now)
+  const scored = candidates.map((candidate) => {
+    const checks = checkAssetAgainstFormat(asset, candidate)
+    return { candidate, checks, result: specResultOf(checks) }
+  })
+  // A candidate with nothing checkable says nothing about fit; only fall back
+  // to it when no candidate could be checked at all.
+  const checked = scored.filter((s) => s.result !== "unchecked")
+  const best = (checked.length > 0 ? checked : scored).reduce((a, b) =>
+    RESULT_RANK[b.result] < RESULT_RANK[a.result] ? b : a,
+  )
+  return {
+    result: best.result,
+    publisher_slug: best.candidate.publisher?.publisher_slug ?? null,
+    format_name: best.candidate.format.format_name,
+    ...(best.candidate.confidence ? { confidence: best.candidate.confidence } : {}),
+    ...(best.result === "unchecked" ? { reason: "The matched spec has no checkable constraints." } : {}),
+    checks: best.checks,
+    checked_at: now.toISOString(),
+  }
+}
+
+/** One-line tooltip summary: the failing and warning checks, or the skip reason. */
+export function summariseSpecReport(report: CreativeSpecReport | null | undefined): string {
+  if (!report) return "Not checked yet"
+  if (report.result === "unchecked") return report.reason ?? "Not checked"
+  const spec = [report.format_name, report.publisher_slug].filter(Boolean).join(" · ")
+  const issues = report.checks.filter((c) => c.result !== "pass").map((c) => c.message)
+  return [spec, ...(issues.length ? issues : ["All checks passed."])].filter(Boolean).join("\n")
+}
@@ -0,0 +1,39 @@
+import "server-only"
+
+import { deliverablesFromResolved, planDeliverableSync } from "@/lib/creative/materialTracker"
+import {
+  createMiDeliverable,
+  listMiDeliverables,
+  updateMiDeliverable,
+} from "@/lib/creative/xanoCreativeAssets"
+import type { MiResolvedSpec } from "@/lib/specs/resolve"
+
+export type MiDeliverableSyncSummary = {
+  created: number
+  updated: number
+  archived: number
+}
+
+/**
+ * Record an MI export's rows as trackable deliverables. Called after the
+ * workbook is built; failures are logged and swallowed so tracking never
+ * blocks the export itself.
+ */
+export async function syncMiDeliverables(
+  mbaNumber: string,
+  resolved: readonly MiResolvedSpec[],
+): Promise<MiDeliverableSyncSummary | null> {
+  try {
+    const existing = await listMiDeliverables(mbaNumber)
+    const plan = planDeliverableSync(existing, deliverablesFromResolved(mbaNumber, resolved))
+    await Promise.all([
+      ...plan.create.map((row) => createMiDeliverable(row)),
+      ...plan.update.map(({ id, patch }) => updateMiDeliverable(id, patch)),
+      ...plan.archive.map((id) => updateMiDeliverable(id, { archived: true })),
+    ])
+    return { created: plan.create.length, updated: plan.update.length, archived: plan.archive.length }
+  } catch (error) {
+    console.error("[mi-deliverables] sync failed", { mbaNumber, error })
+    return null
+  }
+}
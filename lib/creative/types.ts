@@ -1,3 +1,5 @@
+import type { MiResolvedSpec } from "@/lib/specs/resolve"
+
 export interface CreativeAsset {
   id: number
   created_at: number
@@ -18,10 +20,102 @@ export interface CreativeAsset {
   uploaded_by_email: string
   uploaded_by_role: "admin" | "manager" | "client"
   uploaded_by_name: string
+  /** Shared by every version of the same creative; absent on pre-versioning rows. */
+  lineage_id?: string
+  /** 1-based version within the lineage. */
+  version?: number
+  review_status?: CreativeReviewStatus
+  /** Set while review_status is "rejected". */
+  rejection_reason?: string
+  /** Publisher spec compliance, stamped server-side when the asset or its line item changes. */
+  spec_result?: CreativeSpecResult
+  spec_report?: CreativeSpecReport | null
+}
+
+export const CREATIVE_REVIEW_STATUSES = [
+  "draft",
+  "in_review",
+  "client_approved",
+  "trafficked",
+  "rejected",
+] as const
+
+export type CreativeReviewStatus = (typeof CREATIVE_REVIEW_STATUSES)[number]
+
+export const CREATIVE_SPEC_RESULTS = ["pass", "warn", "fail", "unchecked"] as const
+
+export type CreativeSpecResult = (typeof CREATIVE_SPEC_RESULTS)[number]
+
+export type CreativeSpecCheckKind = "file_type" | "file_size" | "dimensions" | "aspect_ratio" | "duration"
+
+export type CreativeSpecCheck = {
+  kind: CreativeSpecCheckKind
+  result: Exclude<CreativeSpecResult, "unchecked">
+  message: string
+  expected?: string
+  actual?: string
+}
+
+/** Outcome of checking an asset against its line item's MI library format. */
+export type CreativeSpecReport = {
+  result: CreativeSpecResult
+  publisher_slug: string | null
+  format_name: string | null
+  confidence?: MiResolvedSpec["confidence"]
+  /** Why the asset was not checked, when result is "unchecked". */
+  reason?: string
+  checks: CreativeSpecCheck[]
+  checked_at: string
 }
 
+/** Review transitions and comments, pinned to one asset version. */
+export interface CreativeAssetActivity {
+  id: number
+  created_at: number
+  asset_id: number
+  lineage_id: string
+  mba_number: string
+  version: number
+  kind: "comment" | "review"
+  /** Comment text, or the rejection reason on a review event. */
+  body: string
+  from_status: CreativeReviewStatus | ""
+  to_status: CreativeReviewStatus | ""
+  author_email: string
+  author_name: string
+  author_role: CreativeAsset["uploaded_by_role"]
+}
+
+export type CreativeAssetActivityWritable = Omit<CreativeAssetActivity, "id" | "created_at">
+
 export type CreativeAssetWritable = Omit<CreativeAsset, "id" | "created_at">
 
+/** One material-instructions row, tracked from MI export until its creative arrives. */
+export interface MiDeliverable {
+  id: number
+  created_at: number
+  mba_number: string
+  line_item_id: string
+  line_item_label: string
+  container_category: string
+  publisher_name: string
+  format_name: string
+  variant: string
+  /** YYYY-MM-DD (Sydney); "" when the plan has no live date. */
+  live_date: string
+  supply_deadline_rule: string
+  /** e.g. "10 working days"; suffixed "(default)" when the rule could not be read. */
+  lead_time: string
+  /** YYYY-MM-DD (Sydney); "" without a live date. */
+  supply_deadline: string
+  /** Set when the row drops out of a later MI export. */
+  archived: boolean
+  /** Epoch ms of the last overdue / at-risk reminder; 0 when never reminded. */
+  last_reminded_at: number
+}
+
+export type MiDeliverableWritable = Omit<MiDeliverable, "id" | "created_at">
+
 /** POST /api/creative-assets body keys (uploaded_by_* stamped from session). */
 export const CREATIVE_ASSET_CREATE_BODY_KEYS = [
   "mba_number",
@@ -81,6 +175,8 @@ export type UploadClientPayload = {
   source_table: string
   media_plan_master_id?: number
   file_size_bytes?: number
+  /** Set when the upload is a new version of an existing lineage. */
+  lineage_id?: string
 }
 
 export type UploadTokenPayload = UploadClientPayload & {
@@ -139,6 +235,8 @@ export function parseUploadTokenPayload(
           : Number.isFinite(Number(raw.file_size_bytes))
             ? Number(raw.file_size_bytes)
             : undefined,
+      lineage_id:
+        typeof raw.lineage_id === "string" && raw.lineage_id.trim() ? raw.lineage_id.trim() : undefined,
     },
   }
 }
@@ -173,15 +271,33 @@ function requireNumber(value: unknown, field: string): string | null {
   return null
 }
 
+/** Optional POST keys — version, review state and spec results are always stamped server-side. */
+export const CREATIVE_ASSET_CREATE_OPTIONAL_KEYS = ["lineage_id"] as const
+
 export function validateCreativeAssetCreateBody(
   body: unknown,
-): ValidationResult<Omit<CreativeAssetWritable, "uploaded_by_email" | "uploaded_by_role" | "uploaded_by_name">> {
+): ValidationResult<
+  Omit<
+    CreativeAssetWritable,
+    | "uploaded_by_email"
+    | "uploaded_by_role"
+    | "uploaded_by_name"
+    | "version"
+    | "review_status"
+    | "rejection_reason"
+    | "spec_result"
+    | "spec_report"
+  >
+> {
   if (!body || typeof body !== "object" || Array.isArray(body)) {
     return { ok: false, error: "Expected a JSON object body" }
   }
 
   const raw = body as Record<string, unknown>
-  const unknownError = hasOnlyKeys(raw, CREATIVE_ASSET_CREATE_BODY_KEYS as unknown as string[])
+  const unknownError = hasOnlyKeys(raw, [
+    ...CREATIVE_ASSET_CREATE_BODY_KEYS,
+    ...CREATIVE_ASSET_CREATE_OPTIONAL_KEYS,
+  ])
   if (unknownError) {
     return { ok: false, error: unknownError }
   }
@@ -230,6 +346,11 @@ export function validateCreativeAssetCreateBody(
     return { ok: false, error: "status must be active or archived" }
   }
 
+  if ("lineage_id" in raw && raw.lineage_id !== undefined) {
+    const err = requireString(raw.lineage_id, "lineage_id")
+    if (err) return { ok: false, error: err }
+  }
+
   return {
     ok: true,
     value: {
@@ -247,6 +368,7 @@ export function validateCreativeAssetCreateBody(
       blob_url: String(raw.blob_url).trim(),
       blob_pathname: String(raw.blob_pathname).trim(),
       status: raw.status as CreativeAsset["status"],
+      ...(typeof raw.lineage_id === "string" ? { lineage_id: raw.lineage_id.trim() } : {}),
     },
   }
 }
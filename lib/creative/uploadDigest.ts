@@ -1,13 +1,20 @@
 import "server-only"
 
-import { listByMba } from "@/lib/creative/xanoCreativeAssets"
-import type { CreativeAsset } from "@/lib/creative/types"
+import { formatBurstDateLocal } from "@/lib/mediaplan/burstDate"
+import { buildMiTracker, rowsDueForReminder, type MiTrackerRow } from "@/lib/creative/materialTracker"
+import { listByMba, listMiDeliverables } from "@/lib/creative/xanoCreativeAssets"
+import type { CreativeAsset, MiDeliverable } from "@/lib/creative/types"
 
 export type UploadDigestGroup = {
   mbaNumber: string
   assets: CreativeAsset[]
 }
 
+export type DeliveryReminderGroup = {
+  mbaNumber: string
+  rows: MiTrackerRow[]
+}
+
 export type UploadDigestPayload = {
   windowMinutes: number
   sinceIso: string
@@ -15,6 +22,9 @@ export type UploadDigestPayload = {
   totalFiles: number
   totalUploaders: number
   groups: UploadDigestGroup[]
+  /** Overdue / at-risk MI deliverables not reminded in the last interval. */
+  totalReminders: number
+  reminders: DeliveryReminderGroup[]
 }
 
 const WINDOW_MINUTES = Number(process.env.UPLOAD_DIGEST_WINDOW_MIN ?? 65)
@@ -30,7 +40,10 @@ export async function buildUploadDigest(
 ): Promise<UploadDigestPayload> {
   const windowMs = WINDOW_MINUTES * 60 * 1000
   const cutoff = now.getTime() - windowMs
-  const all = await listByMba() // all rows; filtered below
+  const [all, deliverables] = await Promise.all([
+    listByMba(), // all rows; filtered below
+    listMiDeliverables(),
+  ])
 
   const fresh = all.filter(
     (a) =>
@@ -59,6 +72,8 @@ export async function buildUploadDigest(
     fresh.map((a) => a.uploaded_by_email).filter(Boolean),
   )
 
+  const reminders = buildDeliveryReminders(deliverables, all, now)
+
   return {
     windowMinutes: WINDOW_MINUTES,
     sinceIso: new Date(cutoff).toISOString(),
@@ -66,5 +81,40 @@ export async function buildUploadDigest(
     totalFiles: fresh.length,
     totalUploaders: uploaders.size,
     groups,
+    totalReminders: reminders.reduce((n, g) => n + g.rows.length, 0),
+    reminders,
+  }
+}
+
+function buildDeliveryReminders(
+  deliverables: MiDeliverable[],
+  assets: CreativeAsset[],
+  now: Date,
+): DeliveryReminderGroup[] {
+  const today = formatBurstDateLocal(now)
+  const byMba = new Map<string, MiDeliverable[]>()
+  for (const d of deliverables) {
+    if (d.archived) continue
+    const key = String(d.mba_number ?? "").trim()
+    if (!key) continue
+    const arr = byMba.get(key) ?? []
+    arr.push(d)
+    byMba.set(key, arr)
   }
+
+  const assetsByMba = new Map<string, CreativeAsset[]>()
+  for (const a of assets) {
+    const key = String(a.mba_number ?? "").trim().toLowerCase()
+    const arr = assetsByMba.get(key) ?? []
+    arr.push(a)
+    assetsByMba.set(key, arr)
+  }
+
+  return [...byMba.entries()]
+    .map(([mbaNumber, rows]) => {
+      const tracker = buildMiTracker(rows, assetsByMba.get(mbaNumber.toLowerCase()) ?? [], today)
+      return { mbaNumber, rows: rowsDueForReminder(tracker.rows, now.getTime(), today) }
+    })
+    .filter((g) => g.rows.length > 0)
+    .sort((a, b) => a.mbaNumber.localeCompare(b.mbaNumber))
 }
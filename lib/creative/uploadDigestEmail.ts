@@ -1,3 +1,4 @@
+import { MI_DELIVERY_LABELS } from "./materialTracker"
 import type { UploadDigestPayload } from "./uploadDigest"
 
 function escapeHtml(v: string): string {
@@ -35,8 +36,57 @@ function fmtTime(epoch: number): string {
 }
 
 export function buildUploadDigestSubject(p: UploadDigestPayload): string {
+  const reminders = p.totalReminders > 0
+    ? `${p.totalReminders} creative deliverable${p.totalReminders === 1 ? "" : "s"} overdue or at risk`
+    : ""
+  if (p.totalFiles === 0) return `Creative reminder — ${reminders}`
   const mbas = p.groups.length
-  return `Client upload${p.totalFiles === 1 ? "" : "s"} — ${p.totalFiles} file${p.totalFiles === 1 ? "" : "s"} across ${mbas} campaign${mbas === 1 ? "" : "s"}`
+  const uploads = `Client upload${p.totalFiles === 1 ? "" : "s"} — ${p.totalFiles} file${p.totalFiles === 1 ? "" : "s"} across ${mbas} campaign${mbas === 1 ? "" : "s"}`
+  return reminders ? `${uploads} · ${reminders}` : uploads
+}
+
+function fmtDeadline(ymd: string, days: number | null): string {
+  if (!ymd) return "—"
+  if (days == null) return escapeHtml(ymd)
+  const rel = days < 0 ? `${-days}d late` : days === 0 ? "today" : `in ${days}d`
+  return `${escapeHtml(ymd)} <span style="color:#9aa39e;font-size:11px;">(${rel})</span>`
+}
+
+function buildReminderRowsHtml(p: UploadDigestPayload): string {
+  if (p.reminders.length === 0) return ""
+  const groups = p.reminders
+    .map((g) => {
+      const body = g.rows
+        .map(
+          (r) => `<tr>
+      <td style="padding:7px 10px;border-bottom:1px solid #e2e6e4;font-family:Arial,Helvetica,sans-serif;font-size:13px;color:#1c2b25;">${escapeHtml(r.deliverable.line_item_label || r.deliverable.line_item_id)}</td>
+      <td style="padding:7px 10px;border-bottom:1px solid #e2e6e4;font-family:Arial,Helvetica,sans-serif;font-size:12px;color:#6a7772;">${escapeHtml([r.deliverable.publisher_name, r.deliverable.format_name].filter(Boolean).join(" · ") || "—")}</td>
+      <td style="padding:7px 10px;border-bottom:1px solid #e2e6e4;font-family:Arial,Helvetica,sans-serif;font-size:12px;color:#6a7772;">${fmtDeadline(r.deliverable.supply_deadline, r.days_to_deadline)}</td>
+      <td style="padding:7px 10px;border-bottom:1px solid #e2e6e4;font-family:Arial,Helvetica,sans-serif;font-size:12px;font-weight:700;color:${r.status === "overdue" ? "#b42318" : "#b54708"};">${MI_DELIVERY_LABELS[r.status]}${r.spec_failed ? " · spec fail" : ""}</td>
+    </tr>`,
+        )
+        .join("")
+      return `<tr><td style="padding:16px 24px 4px;font-family:Arial,Helvetica,sans-serif;">
+      <div style="font-size:14px;font-weight:700;color:#472477;">MBA ${escapeHtml(g.mbaNumber)} · ${g.rows.length} deliverable${g.rows.length === 1 ? "" : "s"} awaiting creative</div>
+    </td></tr>
+    <tr><td style="padding:4px 24px 12px;">
+      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse;border:1px solid #e2e6e4;">
+        <tr style="background:#f4f6f5;">
+          <th align="left" style="padding:7px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#6a7772;border-bottom:1px solid #e2e6e4;">Line item</th>
+          <th align="left" style="padding:7px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#6a7772;border-bottom:1px solid #e2e6e4;">Publisher · format</th>
+          <th align="left" style="padding:7px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#6a7772;border-bottom:1px solid #e2e6e4;">Supply deadline</th>
+          <th align="left" style="padding:7px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#6a7772;border-bottom:1px solid #e2e6e4;">Status</th>
+        </tr>
+        ${body}
+      </table>
+    </td></tr>`
+    })
+    .join("")
+  return `<tr><td style="padding:18px 24px 0;font-family:Arial,Helvetica,sans-serif;">
+      <div style="font-size:15px;font-weight:700;color:#1c2b25;">Material delivery reminders</div>
+      <div style="font-size:12px;color:#6a7772;margin-top:3px;">Exported MI rows with no compliant creative uploaded by their supply deadline.</div>
+    </td></tr>
+    ${groups}`
 }
 
 export function buildUploadDigestEmailHtml(p: UploadDigestPayload): string {
@@ -82,12 +132,13 @@ export function buildUploadDigestEmailHtml(p: UploadDigestPayload): string {
     <tr><td align="center">
       <table role="presentation" width="720" cellpadding="0" cellspacing="0" style="max-width:720px;width:100%;background:#ffffff;border:1px solid #e2e6e4;border-radius:10px;overflow:hidden;">
         <tr><td style="background:#008e5e;padding:18px 24px;font-family:Arial,Helvetica,sans-serif;">
-          <div style="font-size:17px;font-weight:700;color:#ffffff;">New client creative uploads</div>
-          <div style="font-size:12px;color:#d7efe6;margin-top:3px;">${p.totalFiles} file(s) from ${p.totalUploaders} uploader(s) · last ${p.windowMinutes} min</div>
+          <div style="font-size:17px;font-weight:700;color:#ffffff;">${p.totalFiles > 0 ? "New client creative uploads" : "Creative delivery reminders"}</div>
+          <div style="font-size:12px;color:#d7efe6;margin-top:3px;">${p.totalFiles} file(s) from ${p.totalUploaders} uploader(s) · last ${p.windowMinutes} min${p.totalReminders > 0 ? ` · ${p.totalReminders} deliverable(s) overdue or at risk` : ""}</div>
         </td></tr>
         ${rows}
+        ${buildReminderRowsHtml(p)}
         <tr><td style="padding:8px 24px 20px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#9aa39e;">
-          Internal ops email · client-role uploads only · AssembledView cron
+          Internal ops email · client-role uploads and MI deliverables · AssembledView cron
         </td></tr>
       </table>
     </td></tr>
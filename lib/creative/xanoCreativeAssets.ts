@@ -2,9 +2,19 @@ import "server-only"
 
 import axios, { AxiosError } from "axios"
 import { parseXanoListPayload, requireXanoAuthHeaderRecord, xanoUrl } from "@/lib/api/xano"
-import type { CreativeAsset, CreativeAssetWritable } from "@/lib/creative/types"
+import { nextVersionNumber } from "@/lib/creative/review"
+import type {
+  CreativeAsset,
+  CreativeAssetActivity,
+  CreativeAssetActivityWritable,
+  CreativeAssetWritable,
+  MiDeliverable,
+  MiDeliverableWritable,
+} from "@/lib/creative/types"
 
 const CREATIVE_ASSET_PATH = "creative_asset"
+const CREATIVE_ASSET_ACTIVITY_PATH = "creative_asset_activity"
+const MI_DELIVERABLE_PATH = "mi_deliverable"
 const XANO_TIMEOUT_MS = 15_000
 
 export class XanoCreativeAssetError extends Error {
@@ -152,3 +162,133 @@ export async function remove(id: number): Promise<void> {
     mapAxiosError(error, "remove")
   }
 }
+
+/**
+ * Version / review fields for a new upload. Without a lineage the upload starts
+ * a new one at v1; with one it becomes the next version. Returns null when the
+ * lineage is unknown for this MBA.
+ */
+export async function resolveVersionFields(
+  mbaNumber: string,
+  lineageId?: string,
+): Promise<Pick<CreativeAsset, "lineage_id" | "version" | "review_status" | "rejection_reason"> | null> {
+  if (!lineageId) {
+    return { lineage_id: crypto.randomUUID(), version: 1, review_status: "draft", rejection_reason: "" }
+  }
+  const version = nextVersionNumber(await listByMba(mbaNumber), lineageId)
+  if (version == null) return null
+  return { lineage_id: lineageId, version, review_status: "draft", rejection_reason: "" }
+}
+
+function asActivity(row: unknown): CreativeAssetActivity {
+  return row as CreativeAssetActivity
+}
+
+/** Review + comment activity for every version in a lineage, oldest first. */
+export async function listActivityByLineage(
+  lineageId: string,
+  mbaNumber: string,
+): Promise<CreativeAssetActivity[]> {
+  try {
+    const response = await axios.get(
+      `${xanoUrl(CREATIVE_ASSET_ACTIVITY_PATH, "XANO_CLIENTS_BASE_URL")}?lineage_id=${encodeURIComponent(lineageId)}`,
+      {
+        headers: authHeaders(),
+        timeout: XANO_TIMEOUT_MS,
+      },
+    )
+    const list = Array.isArray(response.data) ? response.data : parseXanoListPayload(response.data)
+    const normalized = mbaNumber.trim().toLowerCase()
+    return list
+      .map(asActivity)
+      .filter(
+        (row) =>
+          row.lineage_id === lineageId &&
+          String(row.mba_number ?? "").trim().toLowerCase() === normalized,
+      )
+      .sort((a, b) => (a.created_at || 0) - (b.created_at || 0))
+  } catch (error) {
+    mapAxiosError(error, "listActivityByLineage")
+  }
+}
+
+export async function createActivity(
+  body: CreativeAssetActivityWritable,
+): Promise<CreativeAssetActivity> {
+  try {
+    const response = await axios.post(
+      xanoUrl(CREATIVE_ASSET_ACTIVITY_PATH, "XANO_CLIENTS_BASE_URL"),
+      body,
+      {
+        headers: authHeaders(),
+        timeout: XANO_TIMEOUT_MS,
+      },
+    )
+    return asActivity(response.data)
+  } catch (error) {
+    mapAxiosError(error, "createActivity")
+  }
+}
+
+function asMiDeliverable(row: unknown): MiDeliverable {
+  return row as MiDeliverable
+}
+
+/**
+ * Material-instruction deliverables, archived rows included. Without an MBA
+ * this returns the full table (unpaginated) — the digest cron relies on that.
+ */
+export async function listMiDeliverables(mbaNumber?: string): Promise<MiDeliverable[]> {
+  try {
+    const base = xanoUrl(MI_DELIVERABLE_PATH, "XANO_CLIENTS_BASE_URL")
+    const url = mbaNumber ? `${base}?mba_number=${encodeURIComponent(mbaNumber)}` : base
+    const response = await axios.get(url, {
+      headers: authHeaders(),
+      timeout: XANO_TIMEOUT_MS,
+    })
+    const list = Array.isArray(response.data) ? response.data : parseXanoListPayload(response.data)
+    const rows = list.map(asMiDeliverable)
+    if (!mbaNumber) return rows
+    const normalized = mbaNumber.trim().toLowerCase()
+    return rows.filter(
+      (row) => String(row.mba_number ?? "").trim().toLowerCase() === normalized,
+    )
+  } catch (error) {
+    mapAxiosError(error, "listMiDeliverables")
+  }
+}
+
+export async function createMiDeliverable(body: MiDeliverableWritable): Promise<MiDeliverable> {
+  try {
+    const response = await axios.post(
+      xanoUrl(MI_DELIVERABLE_PATH, "XANO_CLIENTS_BASE_URL"),
+      body,
+      {
+        headers: authHeaders(),
+        timeout: XANO_TIMEOUT_MS,
+      },
+    )
+    return asMiDeliverable(response.data)
+  } catch (error) {
+    mapAxiosError(error, "createMiDeliverable")
+  }
+}
+
+export async function updateMiDeliverable(
+  id: number,
+  body: Partial<MiDeliverableWritable>,
+): Promise<MiDeliverable> {
+  try {
+    const response = await axios.patch(
+      xanoUrl(`${MI_DELIVERABLE_PATH}/${id}`, "XANO_CLIENTS_BASE_URL"),
+      body,
+      {
+        headers: authHeaders(),
+        timeout: XANO_TIMEOUT_MS,
+      },
+    )
+    return asMiDeliverable(response.data)
+  } catch (error) {
+    mapAxiosError(error, "updateMiDeliverable")
+  }
+}
@@ -3,7 +3,11 @@ import {
   MEDIA_CONTAINER_ENDPOINTS,
   type MediaContainerLineItem,
 } from "@/lib/api/media-containers"
-import type { DeliveryChannelGroup, DeliveryLineSnapshot } from "@/lib/ava/tools/summaries"
+import type {
+  DeliveryChannelGroup,
+  DeliveryDailyPoint,
+  DeliveryLineSnapshot,
+} from "@/lib/ava/tools/summaries"
 import {
   cleanPacingLineItemId,
   extractPacingLineItemIdFromItem,
@@ -32,6 +36,8 @@ export type LoadedDeliverySnapshot = {
   versionNumber: number | null
   channels: DeliveryChannelGroup[]
   planTotals: DeliveryChannelGroup["totals"]
+  /** Per-group daily delivery for report charts; not part of the AVA summary. */
+  daily: DeliveryDailyPoint[]
 }
 
 type PlanLineMeta = {
@@ -165,6 +171,31 @@ function buildLines(
   return lines
 }
 
+function buildDaily(
+  groupById: Map<string, string>,
+  pacingRows: PacingRow[],
+  searchDaily: Array<{ date: string; cost: number; impressions: number; clicks: number }>,
+): DeliveryDailyPoint[] {
+  const byKey = new Map<string, DeliveryDailyPoint>()
+  const add = (group: string, date: string, spend: number, impressions: number, clicks: number) => {
+    const day = date.slice(0, 10)
+    const key = `${group}|${day}`
+    const cur = byKey.get(key) ?? { date: day, group, spend: 0, impressions: 0, clicks: 0 }
+    cur.spend += spend || 0
+    cur.impressions += impressions || 0
+    cur.clicks += clicks || 0
+    byKey.set(key, cur)
+  }
+  for (const row of pacingRows) {
+    const group = groupById.get(cleanPacingLineItemId(row.lineItemId) ?? "")
+    if (group && row.dateDay) add(group, row.dateDay, row.amountSpent, row.impressions, row.clicks)
+  }
+  for (const day of searchDaily) {
+    add("search", day.date, day.cost, day.impressions, day.clicks)
+  }
+  return [...byKey.values()].sort((a, b) => a.date.localeCompare(b.date) || a.group.localeCompare(b.group))
+}
+
 function sumLines(lines: DeliveryLineSnapshot[]) {
   const totals = emptyMetrics()
   let plannedBudget = 0
@@ -296,6 +327,7 @@ export async function loadDeliverySnapshot(
 
   let pacingRows: PacingRow[] = []
   const searchDelivered = new Map<string, ReturnType<typeof emptyMetrics>>()
+  const searchDaily: Array<{ date: string; cost: number; impressions: number; clicks: number }> = []
 
   const pacingPromise =
     nonSearchIds.length > 0
@@ -323,6 +355,7 @@ export async function loadDeliverySnapshot(
         results: series.totals.conversions || 0,
         video3sViews: 0,
       })
+      searchDaily.push(...(series.daily ?? []))
     }
   }
 
@@ -354,6 +387,10 @@ export async function loadDeliverySnapshot(
   }
 
   const planTotals = sumLines(channels.flatMap((c) => c.lines))
+  const groupById = new Map<string, string>()
+  for (const [group, planMap] of groups) {
+    for (const id of planMap.keys()) groupById.set(id, group)
+  }
 
   return {
     asOf: getAsOfDate(),
@@ -362,5 +399,6 @@ export async function loadDeliverySnapshot(
     versionNumber: versionNumber ?? null,
     channels,
     planTotals,
+    daily: buildDaily(groupById, pacingRows, searchDaily),
   }
 }
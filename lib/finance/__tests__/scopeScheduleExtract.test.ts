@@ -85,3 +85,34 @@ test("3-month $10k schedule → 3 × $10k receivables totalling $30k (not $30k 
   assert.equal(sum, 30_000)
   assert.deepEqual(monthlyTotals, [10_000, 10_000, 10_000])
 })
+
+test("deriveSowBillingRecordsFromScopes: approved change request adds its lines in its billing month", () => {
+  const scope = {
+    id: 1,
+    scope_id: "KRUSTY-SOW-TEST",
+    client_name: "Krusty Krab",
+    project_name: "Monthly SOW",
+    project_status: "approved",
+    billing_schedule: flatTenKSchedule,
+    change_requests: JSON.stringify([
+      {
+        number: "KRUSTY-SOW-TEST-CR1",
+        status: "approved",
+        reason: "Extra strategy time",
+        billing_month: "2026-02",
+        lines: [{ expense_category: "Strategy", description: "", amount: 2_500 }],
+        created_at: "2026-01-20",
+        created_by: "Sam",
+      },
+    ]),
+  }
+
+  const [jan] = deriveSowBillingRecordsFromScopes([scope], 2026, 1, () => 1, { includeNonApprovedScopes: false })
+  assert.equal(jan.total, 10_000)
+
+  const [feb] = deriveSowBillingRecordsFromScopes([scope], 2026, 2, () => 1, { includeNonApprovedScopes: false })
+  assert.equal(feb.total, 12_500)
+  assert.equal(feb.line_items.length, 2)
+  assert.equal(feb.line_items[1].item_code, "SOW-CR")
+  assert.equal(feb.line_items[1].description, "KRUSTY-SOW-TEST-CR1: Strategy")
+})
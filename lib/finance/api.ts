@@ -1,5 +1,7 @@
 import { parseXanoListPayload } from "@/lib/api/xano"
 import { expandMonthRange } from "@/lib/finance/monthRange"
+import type { RebateTrackerResult } from "@/lib/finance/rebates/computeRebateTracker"
+import type { RebateAgreement, RebateAgreementInput } from "@/lib/finance/rebates/rebateAgreements"
 import type {
   BillingEdit,
   BillingLineItem,
@@ -8,6 +10,7 @@ import type {
   FinanceFilters,
   SavedView,
 } from "@/lib/types/financeBilling"
+import type { FinanceForecastScenario } from "@/lib/types/financeForecast"
 
 export type FinanceBillingQuery = {
   billing_month: string
@@ -315,6 +318,31 @@ export async function markBilled(params: {
   return jsonOrThrow(response, path)
 }
 
+export async function markExported(params: {
+  records: Array<{
+    billing_type: BillingType
+    clients_id: number
+    client_name: string
+    mba_number: string | null
+    campaign_name: string | null
+    billing_month: string
+    total?: number
+  }>
+}): Promise<{
+  exported_at: number
+  exported_by: number
+  exported: string[]
+  failed: string[]
+}> {
+  const path = "/api/finance/billing/mark-exported"
+  const response = await fetch(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(params),
+  })
+  return jsonOrThrow(response, path)
+}
+
 export async function saveBillingNotes(params: {
   billing_type: BillingType
   clients_id: number
@@ -393,3 +421,40 @@ export async function saveSavedView(view: Omit<SavedView, "id">): Promise<SavedV
   })
   return jsonOrThrow<SavedView>(response, "/api/finance/saved-views")
 }
+
+export type RebateTrackerResponse = {
+  tracker: RebateTrackerResult
+  meta: { scenario: FinanceForecastScenario; as_of_month: string; generated_at: string }
+}
+
+export async function fetchRebateTracker(params: {
+  financialYearStartYear: number
+  scenario: FinanceForecastScenario
+  signal?: AbortSignal
+}): Promise<RebateTrackerResponse> {
+  const path = `/api/finance/rebates?${new URLSearchParams({
+    fy: String(params.financialYearStartYear),
+    scenario: params.scenario,
+  })}`
+  const response = await fetch(path, { signal: params.signal, cache: "no-store" })
+  return jsonOrThrow<RebateTrackerResponse>(response, path)
+}
+
+export async function saveRebateAgreement(
+  input: RebateAgreementInput,
+  id?: number
+): Promise<RebateAgreement> {
+  const path = id != null ? `/api/finance/rebates/agreements/${id}` : "/api/finance/rebates/agreements"
+  const response = await fetch(path, {
+    method: id != null ? "PATCH" : "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  })
+  return jsonOrThrow<RebateAgreement>(response, path)
+}
+
+export async function deleteRebateAgreement(id: number): Promise<void> {
+  const path = `/api/finance/rebates/agreements/${id}`
+  const response = await fetch(path, { method: "DELETE" })
+  await jsonOrThrow<{ success: boolean }>(response, path)
+}
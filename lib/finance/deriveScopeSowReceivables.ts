@@ -5,6 +5,7 @@ import {
   extractLineItemsFromScopeSchedule,
   parseScopeJSON,
 } from "@/lib/finance/scopeScheduleExtract"
+import { extractLineItemsFromScopeChangeRequests } from "@/lib/scopes/changeRequests"
 
 export type ScopeOfWorkRow = {
   id: number
@@ -12,10 +13,13 @@ export type ScopeOfWorkRow = {
   client_name?: string
   project_name?: string
   project_status?: string
+  scope_version?: number
   payment_terms_and_conditions?: string
   billing_schedule?: unknown
   billingSchedule?: unknown
   cost?: unknown
+  hourly_rate?: unknown
+  change_requests?: unknown
 }
 
 function financeLineItemsToSowBillingLines(items: FinanceLineItem[]): BillingLineItem[] {
@@ -40,6 +44,7 @@ function isScopeInBookedBucket(statusRaw: string | undefined): boolean {
 
 /**
  * Build synthetic `billing_type: "sow"` rows from scopes-of-work for one calendar month.
+ * Approved change requests billed in the month are added to the scope's row.
  */
 export function deriveSowBillingRecordsFromScopes(
   scopes: ScopeOfWorkRow[],
@@ -58,7 +63,8 @@ export function deriveSowBillingRecordsFromScopes(
     const billingSchedule = parseScopeJSON(scope.billingSchedule ?? scope.billing_schedule)
     const fromSchedule = extractLineItemsFromScopeSchedule(billingSchedule, year, month)
     const fromCost = extractLineItemsFromScopeCost(scope.cost)
-    const lineFinance = fromSchedule.length > 0 ? fromSchedule : fromCost
+    const fromChangeRequests = extractLineItemsFromScopeChangeRequests(scope.change_requests, year, month)
+    const lineFinance = [...(fromSchedule.length > 0 ? fromSchedule : fromCost), ...fromChangeRequests]
     const total = Math.round(lineFinance.reduce((s, li) => s + li.amount, 0) * 100) / 100
     if (total <= 0) continue
 
@@ -14,9 +14,12 @@ import type {
   FinanceForecastLine,
   FinanceForecastLineKey,
   FinanceForecastMediaPlanVersionInput,
+  FinanceForecastMediaTypeMonthly,
   FinanceForecastMonthlyAmounts,
   FinanceForecastMonthKey,
   FinanceForecastPublisherInput,
+  FinanceForecastChannelMedia,
+  FinanceForecastPublisherMedia,
   FinanceForecastRowGroup,
   FinanceForecastScenario,
 } from "@/lib/types/financeForecast"
@@ -162,6 +165,159 @@ export function buildFinanceForecastDataset(
   return { meta, client_blocks }
 }
 
+export interface BuildPublisherForecastMediaParams {
+  media_plan_versions: ReadonlyArray<FinanceForecastMediaPlanVersionInput>
+  publishers: ReadonlyArray<FinanceForecastPublisherInput>
+  /** Calendar year of FY start (1 July). */
+  financial_year_start_year: number
+  scenario: FinanceForecastScenario
+  /**
+   * MBA months marked billed ({@link billedMbaMonthKey}). When set, only those
+   * months of those MBAs are walked, so lines that are still only forecast are
+   * left out — see {@link collectBilledMbaMonths}.
+   */
+  billed_mba_months?: ReadonlySet<string>
+}
+
+/** Key for one MBA's billing month (YYYY-MM) in `billed_mba_months`. */
+export function billedMbaMonthKey(mbaNumber: string, billingMonth: string): string {
+  return `${mbaNumber.trim()}\u001f${billingMonth}`
+}
+
+/**
+ * MBA months marked billed in `finance_billing_records` (media rows only; SOW
+ * and retainer billing carries no publisher media).
+ */
+export function collectBilledMbaMonths(
+  rows: ReadonlyArray<{
+    billing_type?: string | null
+    mba_number?: string | null
+    billing_month?: string | null
+    billed?: boolean | null
+  }>
+): Set<string> {
+  const out = new Set<string>()
+  for (const row of rows) {
+    if (row.billed !== true || row.billing_type !== "media") continue
+    const mba = String(row.mba_number ?? "").trim()
+    const month = String(row.billing_month ?? "").trim()
+    if (!mba || !month) continue
+    out.add(billedMbaMonthKey(mba, month))
+  }
+  return out
+}
+
+/**
+ * Walks every billable publisher line of the latest version per MBA, month by
+ * month, using the same version selection and billing → delivery fallback as
+ * {@link buildFinanceForecastDataset}.
+ */
+function forEachForecastBillableLine(
+  params: BuildPublisherForecastMediaParams,
+  visit: (row: BillableRow, fmk: FinanceForecastMonthKey) => void
+): void {
+  const publisherByName = buildPublisherLookup(params.publishers)
+  const fyStart = params.financial_year_start_year
+  const latest = selectLatestVersionPerMba(params.media_plan_versions, params.scenario, fyStart)
+
+  for (const version of latest) {
+    const mba = String(version.mba_number ?? "").trim()
+    const billing = coalesceSchedule(version.billingSchedule ?? version.billing_schedule)
+    const delivery = coalesceSchedule(version.deliverySchedule ?? version.delivery_schedule)
+
+    for (let i = 0; i < FINANCE_FORECAST_FISCAL_MONTH_ORDER.length; i++) {
+      const fmk = fiscalMonthKeyFromIndex(i)
+      const { calendarYear, calendarMonth } = fiscalSlotToCalendar(fyStart, i)
+      if (
+        params.billed_mba_months &&
+        !params.billed_mba_months.has(
+          billedMbaMonthKey(mba, `${calendarYear}-${String(calendarMonth).padStart(2, "0")}`)
+        )
+      ) {
+        continue
+      }
+      let lineRows = extractBillableLinesForMonth(billing, calendarYear, calendarMonth, publisherByName)
+      if (lineRows.length === 0) {
+        lineRows = extractBillableLinesForMonth(delivery, calendarYear, calendarMonth, publisherByName)
+      }
+      for (const row of lineRows) visit(row, fmk)
+    }
+  }
+}
+
+/**
+ * Media and publisher commission per publisher per fiscal month, using the same
+ * version selection, billing → delivery line fallback and `*_comms` rates as
+ * {@link buildFinanceForecastDataset}. Media that cannot be attributed to a
+ * publisher line is left out. Sorted by FY media, largest first.
+ */
+export function buildPublisherForecastMedia(
+  params: BuildPublisherForecastMediaParams
+): FinanceForecastPublisherMedia[] {
+  const byPublisher = new Map<string, FinanceForecastPublisherMedia>()
+
+  forEachForecastBillableLine(params, (row, fmk) => {
+    const name = String(row.publisher.publisher_name ?? "").trim() || "Unknown"
+    const key = normalizeName(name)
+    let entry = byPublisher.get(key)
+    if (!entry) {
+      entry = {
+        publisher_id: row.publisher.id != null ? String(row.publisher.id) : null,
+        publisher_name: name,
+        media: emptyMonthly(),
+        commission: emptyMonthly(),
+        fy_media: 0,
+        fy_commission: 0,
+      }
+      byPublisher.set(key, entry)
+    }
+    mergeMonthly(entry.media, fmk, row.mediaAmount)
+    mergeMonthly(
+      entry.commission,
+      fmk,
+      applyForecastCommissionRate(row.mediaAmount, readPublisherCommissionRate(row.publisher, row.mediaTypeKey))
+    )
+  })
+
+  const out = [...byPublisher.values()].map((entry) => ({
+    ...entry,
+    fy_media: fySum(entry.media),
+    fy_commission: fySum(entry.commission),
+  }))
+  out.sort((a, b) => b.fy_media - a.fy_media || a.publisher_name.localeCompare(b.publisher_name))
+  return out
+}
+
+/**
+ * Media under management per channel (container media type) per fiscal month —
+ * the same billable lines as {@link buildPublisherForecastMedia}, grouped by
+ * media type instead of publisher. Sorted by FY media, largest first.
+ */
+export function buildChannelForecastMedia(
+  params: BuildPublisherForecastMediaParams
+): FinanceForecastChannelMedia[] {
+  const byChannel = new Map<string, FinanceForecastChannelMedia>()
+
+  forEachForecastBillableLine(params, (row, fmk) => {
+    const mediaType = row.mediaTypeKey || "other"
+    let entry = byChannel.get(mediaType)
+    if (!entry) {
+      entry = {
+        media_type: mediaType,
+        label: row.mediaTypeDisplay.trim() || mediaType,
+        media: emptyMonthly(),
+        fy_media: 0,
+      }
+      byChannel.set(mediaType, entry)
+    }
+    mergeMonthly(entry.media, fmk, row.mediaAmount)
+  })
+
+  const out = [...byChannel.values()].map((entry) => ({ ...entry, fy_media: fySum(entry.media) }))
+  out.sort((a, b) => b.fy_media - a.fy_media || a.label.localeCompare(b.label))
+  return out
+}
+
 // ---------------------------------------------------------------------------
 // Version & status
 // ---------------------------------------------------------------------------
@@ -544,6 +700,17 @@ function mergeMonthly(into: FinanceForecastMonthlyAmounts, key: FinanceForecastM
   into[key] = round2((into[key] ?? 0) + v)
 }
 
+function mergeMediaTypeMonthly(
+  into: FinanceForecastMediaTypeMonthly,
+  mediaTypeKey: string,
+  key: FinanceForecastMonthKey,
+  v: number
+) {
+  if (!v) return
+  const monthly = (into[mediaTypeKey || "other"] ??= emptyMonthly())
+  mergeMonthly(monthly, key, v)
+}
+
 function fySum(m: FinanceForecastMonthlyAmounts): number {
   let t = 0
   for (const k of FINANCE_FORECAST_FISCAL_MONTH_ORDER) t += m[k] ?? 0
@@ -582,6 +749,12 @@ function buildLinesForCampaign(args: {
   const serviceFeeMonthly = emptyMonthly()
   const fixedGtdMonthly = emptyMonthly()
 
+  const aaByMediaType: FinanceForecastMediaTypeMonthly = {}
+  const amByMediaType: FinanceForecastMediaTypeMonthly = {}
+  const searchSocialByMediaType: FinanceForecastMediaTypeMonthly = {}
+  const directDigitalByMediaType: FinanceForecastMediaTypeMonthly = {}
+  const commissionOtherByMediaType: FinanceForecastMediaTypeMonthly = {}
+
   const scheduleNotes: string[] = []
 
   for (let i = 0; i < FINANCE_FORECAST_FISCAL_MONTH_ORDER.length; i++) {
@@ -631,6 +804,8 @@ function buildLinesForCampaign(args: {
       })
       aa += split.advertisingAssociates
       am += split.assembledMedia
+      mergeMediaTypeMonthly(aaByMediaType, row.mediaTypeKey, fmk, split.advertisingAssociates)
+      mergeMediaTypeMonthly(amByMediaType, row.mediaTypeKey, fmk, split.assembledMedia)
     }
     mergeMonthly(aaMonthly, fmk, aa)
     mergeMonthly(amMonthly, fmk, am)
@@ -647,10 +822,13 @@ function buildLinesForCampaign(args: {
       })
       if (bucket === "search_social") {
         mergeMonthly(searchSocialMonthly, fmk, commsAmt)
+        mergeMediaTypeMonthly(searchSocialByMediaType, mtKey, fmk, commsAmt)
       } else if (bucket === "direct_managed_digital") {
         mergeMonthly(directDigitalMonthly, fmk, commsAmt)
+        mergeMediaTypeMonthly(directDigitalByMediaType, mtKey, fmk, commsAmt)
       } else {
         mergeMonthly(commissionOtherMonthly, fmk, commsAmt)
+        mergeMediaTypeMonthly(commissionOtherByMediaType, mtKey, fmk, commsAmt)
       }
     }
 
@@ -697,6 +875,7 @@ function buildLinesForCampaign(args: {
       line_key: FINANCE_FORECAST_LINE_KEYS.advertisingAssociatesBillingForPublisher,
       group_key: FINANCE_FORECAST_GROUP_KEYS.billingBasedInformation,
       monthly: aaMonthly,
+      monthly_by_media_type: aaByMediaType,
       client_id: args.client_id,
       client_name: args.client_name,
       mba_number: mba,
@@ -715,6 +894,7 @@ function buildLinesForCampaign(args: {
       line_key: FINANCE_FORECAST_LINE_KEYS.assembledMediaBillingForPublisher,
       group_key: FINANCE_FORECAST_GROUP_KEYS.billingBasedInformation,
       monthly: amMonthly,
+      monthly_by_media_type: amByMediaType,
       client_id: args.client_id,
       client_name: args.client_name,
       mba_number: mba,
@@ -736,6 +916,7 @@ function buildLinesForCampaign(args: {
       line_key: FINANCE_FORECAST_LINE_KEYS.searchSocial20Pct,
       group_key: FINANCE_FORECAST_GROUP_KEYS.revenueFeesCommission,
       monthly: searchSocialMonthly,
+      monthly_by_media_type: searchSocialByMediaType,
       client_id: args.client_id,
       client_name: args.client_name,
       mba_number: mba,
@@ -754,6 +935,7 @@ function buildLinesForCampaign(args: {
       line_key: FINANCE_FORECAST_LINE_KEYS.directManagedDigital40Pct,
       group_key: FINANCE_FORECAST_GROUP_KEYS.revenueFeesCommission,
       monthly: directDigitalMonthly,
+      monthly_by_media_type: directDigitalByMediaType,
       client_id: args.client_id,
       client_name: args.client_name,
       mba_number: mba,
@@ -772,6 +954,7 @@ function buildLinesForCampaign(args: {
       line_key: FINANCE_FORECAST_LINE_KEYS.commission,
       group_key: FINANCE_FORECAST_GROUP_KEYS.revenueFeesCommission,
       monthly: commissionOtherMonthly,
+      monthly_by_media_type: commissionOtherByMediaType,
       client_id: args.client_id,
       client_name: args.client_name,
       mba_number: mba,
@@ -897,6 +1080,7 @@ function makeLine(p: {
   line_key: FinanceForecastLineKey
   group_key: FinanceForecastLine["group_key"]
   monthly: FinanceForecastMonthlyAmounts
+  monthly_by_media_type?: FinanceForecastMediaTypeMonthly
   client_id: string
   client_name: string
   mba_number: string | null
@@ -920,6 +1104,9 @@ function makeLine(p: {
     line_key: p.line_key,
     monthly: { ...p.monthly },
     fy_total: fySum(p.monthly),
+    ...(p.monthly_by_media_type && Object.keys(p.monthly_by_media_type).length > 0
+      ? { monthly_by_media_type: p.monthly_by_media_type }
+      : {}),
     source: p.source,
     debug: p.debug
       ? { ...p.debug, explanation: `${p.debug.explanation} Campaign: ${p.campaign_name}` }
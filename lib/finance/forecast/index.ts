@@ -1,6 +1,11 @@
 export {
   buildFinanceForecastDataset,
+  buildChannelForecastMedia,
+  buildPublisherForecastMedia,
+  billedMbaMonthKey,
+  collectBilledMbaMonths,
   type BuildFinanceForecastDatasetParams,
+  type BuildPublisherForecastMediaParams,
 } from "./buildFinanceForecastDataset"
 
 export * from "./mapping"
@@ -1,4 +1,5 @@
 export {
+  fetchFinanceForecastRawForTenant,
   fetchFinanceForecastRawFromXano,
   loadFinanceForecastDataset,
   normalizeScenario,
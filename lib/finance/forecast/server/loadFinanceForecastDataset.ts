@@ -192,6 +192,21 @@ function filterClientsByTenant(
   })
 }
 
+/**
+ * Cached raw payload with the same tenant filter as {@link loadFinanceForecastDataset},
+ * for callers that run their own builders over the versions.
+ */
+export async function fetchFinanceForecastRawForTenant(
+  allowedClientSlugs: Set<string> | null
+): Promise<FinanceForecastRawPayload> {
+  const raw = await fetchFinanceForecastRawFromXano()
+  return {
+    versions: filterVersionsByTenant(raw.versions, allowedClientSlugs),
+    clients: filterClientsByTenant(raw.clients, allowedClientSlugs),
+    publishers: raw.publishers,
+  }
+}
+
 function filterVersionsByClientParam(
   versions: FinanceForecastMediaPlanVersionInput[],
   clients: FinanceForecastClientInput[],
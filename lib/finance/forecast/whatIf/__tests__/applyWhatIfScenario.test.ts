@@ -0,0 +1,223 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+
+import {
+  FINANCE_FORECAST_FISCAL_MONTH_ORDER,
+  FINANCE_FORECAST_GROUP_KEYS,
+  FINANCE_FORECAST_LINE_KEYS,
+  type FinanceForecastDataset,
+  type FinanceForecastLine,
+  type FinanceForecastLineKey,
+  type FinanceForecastMonthlyAmounts,
+} from "../../../../types/financeForecast.js"
+import { applyWhatIfScenario } from "../applyWhatIfScenario.js"
+import { compareWhatIfDatasets } from "../compareWhatIfDatasets.js"
+import { normalizeWhatIfScenario } from "../savedWhatIfScenarios.js"
+
+function monthly(partial: Partial<FinanceForecastMonthlyAmounts>): FinanceForecastMonthlyAmounts {
+  const m = {} as FinanceForecastMonthlyAmounts
+  for (const k of FINANCE_FORECAST_FISCAL_MONTH_ORDER) m[k] = partial[k] ?? 0
+  return m
+}
+
+function line(
+  line_key: FinanceForecastLineKey,
+  m: Partial<FinanceForecastMonthlyAmounts>,
+  mba: string | null,
+  versionId: string | null
+): FinanceForecastLine {
+  const mm = monthly(m)
+  const isBilling =
+    line_key === FINANCE_FORECAST_LINE_KEYS.assembledMediaBillingForPublisher ||
+    line_key === FINANCE_FORECAST_LINE_KEYS.advertisingAssociatesBillingForPublisher
+  return {
+    client_id: "c1",
+    client_name: "Client One",
+    mba_number: mba,
+    campaign_id: null,
+    media_plan_version_id: versionId,
+    version_number: versionId ? 1 : null,
+    scenario: "confirmed",
+    group_key: isBilling
+      ? FINANCE_FORECAST_GROUP_KEYS.billingBasedInformation
+      : FINANCE_FORECAST_GROUP_KEYS.revenueFeesCommission,
+    line_key,
+    monthly: mm,
+    fy_total: FINANCE_FORECAST_FISCAL_MONTH_ORDER.reduce((t, k) => t + mm[k], 0),
+    source: { kind: "test" },
+  }
+}
+
+function baseline(): FinanceForecastDataset {
+  return {
+    meta: { financial_year_start_year: 2025, scenario: "confirmed" },
+    client_blocks: [
+      {
+        client_id: "c1",
+        client_name: "Client One",
+        groups: [
+          {
+            group_key: FINANCE_FORECAST_GROUP_KEYS.billingBasedInformation,
+            lines: [
+              line(FINANCE_FORECAST_LINE_KEYS.assembledMediaBillingForPublisher, { july: 1000, may: 500, june: 500 }, "MBA-1", "v1"),
+            ],
+          },
+          {
+            group_key: FINANCE_FORECAST_GROUP_KEYS.revenueFeesCommission,
+            lines: [
+              line(FINANCE_FORECAST_LINE_KEYS.commission, { july: 100, june: 50 }, "MBA-1", "v1"),
+              line(FINANCE_FORECAST_LINE_KEYS.retainer, { july: 200 }, null, null),
+              line(FINANCE_FORECAST_LINE_KEYS.totalRevenue, { july: 300, june: 50 }, null, null),
+            ],
+          },
+        ],
+      },
+    ],
+  }
+}
+
+function findLine(ds: FinanceForecastDataset, key: FinanceForecastLineKey, clientId = "c1") {
+  const block = ds.client_blocks.find((b) => b.client_id === clientId)
+  return block?.groups.flatMap((g) => g.lines).find((l) => l.line_key === key)
+}
+
+test("applyWhatIfScenario does not mutate the baseline dataset", () => {
+  const base = baseline()
+  const snapshot = JSON.stringify(base)
+  applyWhatIfScenario(base, {
+    id: "s1",
+    name: "Pessimistic",
+    adjustments: [{ kind: "haircut", id: "h1", pct: 50 }],
+  })
+  assert.equal(JSON.stringify(base), snapshot)
+})
+
+test("haircut scoped by line_key scales only matching rows and rebuilds total revenue", () => {
+  const { dataset, applied } = applyWhatIfScenario(baseline(), {
+    id: "s1",
+    name: "Commission haircut",
+    adjustments: [{ kind: "haircut", id: "h1", line_key: FINANCE_FORECAST_LINE_KEYS.commission, pct: 20 }],
+  })
+  assert.equal(findLine(dataset, FINANCE_FORECAST_LINE_KEYS.commission)?.fy_total, 120)
+  assert.equal(findLine(dataset, FINANCE_FORECAST_LINE_KEYS.retainer)?.fy_total, 200)
+  assert.equal(findLine(dataset, FINANCE_FORECAST_LINE_KEYS.totalRevenue)?.monthly.july, 280)
+  assert.equal(applied[0]?.affected_line_count, 1)
+  assert.deepEqual(applied[0]?.fy_delta_by_group, {
+    [FINANCE_FORECAST_GROUP_KEYS.billingBasedInformation]: 0,
+    [FINANCE_FORECAST_GROUP_KEYS.revenueFeesCommission]: -30,
+  })
+})
+
+test("haircut scoped by media_type cuts only that media type's share of each line", () => {
+  const base = baseline()
+  const commission = findLine(base, FINANCE_FORECAST_LINE_KEYS.commission)!
+  commission.monthly_by_media_type = {
+    search: monthly({ july: 60, june: 50 }),
+    television: monthly({ july: 40 }),
+  }
+  const { dataset, applied } = applyWhatIfScenario(base, {
+    id: "s1",
+    name: "Search pullback",
+    adjustments: [
+      { kind: "delay", id: "d1", mba_number: "MBA-1", months: 1 },
+      { kind: "haircut", id: "h1", media_type: "search", pct: 50 },
+    ],
+  })
+  const cut = findLine(dataset, FINANCE_FORECAST_LINE_KEYS.commission)
+  assert.equal(cut?.monthly.august, 70)
+  assert.equal(cut?.monthly_by_media_type?.search?.august, 30)
+  assert.equal(cut?.monthly_by_media_type?.television?.august, 40)
+  // Lines without a media type split (billing here, retainer) never match.
+  assert.equal(findLine(dataset, FINANCE_FORECAST_LINE_KEYS.retainer)?.fy_total, 200)
+  assert.equal(findLine(dataset, FINANCE_FORECAST_LINE_KEYS.assembledMediaBillingForPublisher)?.fy_total, 1500)
+  assert.equal(applied[1]?.affected_line_count, 1)
+  assert.deepEqual(applied[1]?.fy_delta_by_group, {
+    [FINANCE_FORECAST_GROUP_KEYS.billingBasedInformation]: 0,
+    [FINANCE_FORECAST_GROUP_KEYS.revenueFeesCommission]: -30,
+  })
+})
+
+test("delay shifts a campaign's months and reports amounts pushed past June", () => {
+  const { dataset, applied } = applyWhatIfScenario(baseline(), {
+    id: "s2",
+    name: "MBA-1 slips a month",
+    adjustments: [{ kind: "delay", id: "d1", mba_number: "mba-1", months: 1 }],
+  })
+  const billing = findLine(dataset, FINANCE_FORECAST_LINE_KEYS.assembledMediaBillingForPublisher)
+  assert.equal(billing?.monthly.july, 0)
+  assert.equal(billing?.monthly.august, 1000)
+  assert.equal(billing?.monthly.june, 500)
+  assert.equal(billing?.fy_total, 1500)
+  // Retainer has no MBA, so it stays put.
+  assert.equal(findLine(dataset, FINANCE_FORECAST_LINE_KEYS.retainer)?.monthly.july, 200)
+  // Billing and revenue pushed past June are reported apart, never summed.
+  assert.deepEqual(applied[0]?.spilled_out_of_fy_by_group, {
+    [FINANCE_FORECAST_GROUP_KEYS.billingBasedInformation]: 500,
+    [FINANCE_FORECAST_GROUP_KEYS.revenueFeesCommission]: 50,
+  })
+  assert.deepEqual(applied[0]?.fy_delta_by_group, {
+    [FINANCE_FORECAST_GROUP_KEYS.billingBasedInformation]: -500,
+    [FINANCE_FORECAST_GROUP_KEYS.revenueFeesCommission]: -50,
+  })
+})
+
+test("hypothetical campaign adds a distinct line and a client block when needed", () => {
+  const { dataset } = applyWhatIfScenario(baseline(), {
+    id: "s3",
+    name: "New pitch",
+    adjustments: [
+      {
+        kind: "hypothetical_campaign",
+        id: "hc1",
+        client_id: "c2",
+        client_name: "Another Client",
+        line_key: FINANCE_FORECAST_LINE_KEYS.serviceFeeDigital,
+        start_month: "may",
+        months: 4,
+        amount: 4000,
+      },
+    ],
+  })
+  const fee = findLine(dataset, FINANCE_FORECAST_LINE_KEYS.serviceFeeDigital, "c2")
+  assert.ok(fee)
+  assert.equal(fee.monthly.may, 1000)
+  assert.equal(fee.monthly.june, 1000)
+  assert.equal(fee.fy_total, 2000)
+  assert.equal(findLine(dataset, FINANCE_FORECAST_LINE_KEYS.totalRevenue, "c2")?.fy_total, 2000)
+})
+
+test("compareWhatIfDatasets reports the scenario delta through the variance engine", () => {
+  const base = baseline()
+  const { dataset } = applyWhatIfScenario(base, {
+    id: "s1",
+    name: "Pessimistic",
+    adjustments: [{ kind: "haircut", id: "h1", client_id: "c1", pct: 10 }],
+  })
+  const report = compareWhatIfDatasets(
+    { id: "live", label: "Baseline", dataset: base },
+    { id: "s1", label: "Pessimistic", dataset },
+  )
+  assert.equal(report.baseline_label, "Baseline")
+  assert.equal(report.comparison_label, "Pessimistic")
+  // Billing 2000 + commission 150 + retainer 200 + total revenue 350 = 2700 → −10%.
+  assert.equal(Math.round(report.fy_total.absolute_change), -270)
+  assert.ok(report.by_client.every((r) => r.change_type === "decreased"))
+})
+
+test("normalizeWhatIfScenario drops invalid adjustments", () => {
+  const s = normalizeWhatIfScenario({
+    id: "s1",
+    name: "  Mixed ",
+    financial_year_start_year: 2025,
+    adjustments: [
+      { kind: "haircut", id: "h1", pct: "15" },
+      { kind: "delay", id: "d1" },
+      { kind: "hypothetical_campaign", id: "x", client_id: "c1", line_key: "nope", start_month: "july", months: 1, amount: 1 },
+    ],
+  })
+  assert.ok(s)
+  assert.equal(s.name, "Mixed")
+  assert.equal(s.adjustments.length, 1)
+  assert.equal(s.adjustments[0]?.kind, "haircut")
+  assert.equal(normalizeWhatIfScenario({ id: "s", name: "" }), null)
+})
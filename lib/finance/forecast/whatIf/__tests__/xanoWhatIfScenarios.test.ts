@@ -0,0 +1,79 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+
+import {
+  fetchWhatIfScenariosFromXano,
+  upsertWhatIfScenarioInXano,
+} from "../xanoWhatIfScenarios.js"
+
+const STORED = {
+  id: 7,
+  scenario_id: "s-pessimistic",
+  name: "Pessimistic",
+  notes: null,
+  financial_year_start_year: 2025,
+  adjustments: JSON.stringify([{ kind: "haircut", id: "h1", media_type: "search", pct: 20 }]),
+  created_at: "2026-01-05T00:00:00.000Z",
+  updated_at: "2026-02-01T00:00:00.000Z",
+}
+
+async function withXano(
+  handler: (url: string, init?: RequestInit) => Response,
+  run: () => Promise<void>
+): Promise<void> {
+  const prevBase = process.env.XANO_FINANCE_FORECAST_SNAPSHOTS_BASE_URL
+  const originalFetch = globalThis.fetch
+  process.env.XANO_FINANCE_FORECAST_SNAPSHOTS_BASE_URL = "https://xano.test/api:forecast/"
+  globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => handler(String(input), init)) as typeof fetch
+  try {
+    await run()
+  } finally {
+    globalThis.fetch = originalFetch
+    if (prevBase === undefined) delete process.env.XANO_FINANCE_FORECAST_SNAPSHOTS_BASE_URL
+    else process.env.XANO_FINANCE_FORECAST_SNAPSHOTS_BASE_URL = prevBase
+  }
+}
+
+test("fetchWhatIfScenariosFromXano reads JSON adjustments and filters by FY", async () => {
+  await withXano(
+    () => new Response(JSON.stringify([STORED, { ...STORED, id: 8, scenario_id: "s-old", financial_year_start_year: 2024 }])),
+    async () => {
+      const scenarios = await fetchWhatIfScenariosFromXano(2025)
+      assert.deepEqual(scenarios.map((s) => s.id), ["s-pessimistic"])
+      assert.deepEqual(scenarios[0]?.adjustments, [
+        { kind: "haircut", id: "h1", label: undefined, client_id: null, mba_number: null, line_key: null, media_type: "search", pct: 20 },
+      ])
+    }
+  )
+})
+
+test("upsertWhatIfScenarioInXano patches the row with the same scenario id and keeps created_at", async () => {
+  const writes: Array<{ url: string; method?: string; body: Record<string, unknown> }> = []
+  await withXano(
+    (url, init) => {
+      if (!init?.method || init.method === "GET") return new Response(JSON.stringify([STORED]))
+      const body = JSON.parse(String(init.body)) as Record<string, unknown>
+      writes.push({ url, method: init.method, body })
+      return new Response(JSON.stringify({ ...body, id: 7 }))
+    },
+    async () => {
+      const saved = await upsertWhatIfScenarioInXano(
+        {
+          id: "s-pessimistic",
+          name: " Pessimistic v2 ",
+          financial_year_start_year: 2025,
+          adjustments: [],
+          created_at: "2026-03-01T00:00:00.000Z",
+          updated_at: "2026-03-01T00:00:00.000Z",
+        },
+        "finance@example.com"
+      )
+      assert.equal(saved.name, "Pessimistic v2")
+      assert.equal(saved.created_at, STORED.created_at)
+    }
+  )
+  assert.equal(writes.length, 1)
+  assert.equal(writes[0]?.method, "PATCH")
+  assert.equal(writes[0]?.url, "https://xano.test/api:forecast/finance_forecast_what_if_scenarios/7")
+  assert.equal(writes[0]?.body.updated_by, "finance@example.com")
+})
@@ -0,0 +1,381 @@
+/**
+ * Pure what-if engine: layer hypothetical adjustments on a live forecast dataset.
+ * No I/O — the baseline dataset is never mutated; a deep-cloned copy is returned.
+ *
+ * Application order is fixed so results are reproducible regardless of list order:
+ * delays → haircuts → hypothetical campaigns. Haircuts therefore act on the delayed
+ * shape of booked work, and never on hypothetical campaigns (those carry their own amount).
+ */
+
+import {
+  FINANCE_FORECAST_FISCAL_MONTH_ORDER,
+  FINANCE_FORECAST_GROUP_KEYS,
+  FINANCE_FORECAST_GROUP_LABELS,
+  FINANCE_FORECAST_LINE_KEYS,
+  type FinanceForecastClientBlock,
+  type FinanceForecastDataset,
+  type FinanceForecastGroupKey,
+  type FinanceForecastLine,
+  type FinanceForecastMonthlyAmounts,
+} from "@/lib/types/financeForecast"
+import type {
+  FinanceForecastWhatIfAdjustment,
+  FinanceForecastWhatIfAppliedAdjustment,
+  FinanceForecastWhatIfDelay,
+  FinanceForecastWhatIfHaircut,
+  FinanceForecastWhatIfHypotheticalCampaign,
+  FinanceForecastWhatIfResult,
+  FinanceForecastWhatIfScenario,
+} from "@/lib/types/financeForecastWhatIf"
+import { FORECAST_REVENUE_BODY_LINE_ORDER, getForecastRowDefinition } from "@/lib/finance/forecast/mapping"
+
+/** `media_plan_version_id` prefix for hypothetical rows so they never collide with booked versions. */
+export const WHAT_IF_VERSION_ID_PREFIX = "whatif:"
+
+const KIND_ORDER: Record<FinanceForecastWhatIfAdjustment["kind"], number> = {
+  delay: 0,
+  haircut: 1,
+  hypothetical_campaign: 2,
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+function emptyMonthly(): FinanceForecastMonthlyAmounts {
+  const m = {} as FinanceForecastMonthlyAmounts
+  for (const k of FINANCE_FORECAST_FISCAL_MONTH_ORDER) m[k] = 0
+  return m
+}
+
+function fySum(m: FinanceForecastMonthlyAmounts): number {
+  let t = 0
+  for (const k of FINANCE_FORECAST_FISCAL_MONTH_ORDER) t += m[k] ?? 0
+  return round2(t)
+}
+
+type GroupAmounts = Record<FinanceForecastGroupKey, number>
+
+function emptyGroupAmounts(): GroupAmounts {
+  return {
+    [FINANCE_FORECAST_GROUP_KEYS.billingBasedInformation]: 0,
+    [FINANCE_FORECAST_GROUP_KEYS.revenueFeesCommission]: 0,
+  }
+}
+
+function roundGroupAmounts(amounts: GroupAmounts): GroupAmounts {
+  const out = emptyGroupAmounts()
+  for (const key of Object.keys(out) as FinanceForecastGroupKey[]) out[key] = round2(amounts[key])
+  return out
+}
+
+/** FY totals per group (total revenue roll-ups excluded). */
+function datasetFyTotals(dataset: FinanceForecastDataset): GroupAmounts {
+  const t = emptyGroupAmounts()
+  for (const block of dataset.client_blocks) {
+    for (const group of block.groups) {
+      for (const line of group.lines) {
+        if (line.line_key === FINANCE_FORECAST_LINE_KEYS.totalRevenue) continue
+        t[group.group_key] += line.fy_total
+      }
+    }
+  }
+  return t
+}
+
+function cloneDataset(dataset: FinanceForecastDataset): FinanceForecastDataset {
+  return {
+    meta: { ...dataset.meta },
+    client_blocks: dataset.client_blocks.map((block) => ({
+      ...block,
+      groups: block.groups.map((group) => ({
+        ...group,
+        lines: group.lines.map((line) => ({
+          ...line,
+          monthly: { ...line.monthly },
+          monthly_by_media_type: line.monthly_by_media_type
+            ? Object.fromEntries(
+                Object.entries(line.monthly_by_media_type).map(([mediaType, m]) => [mediaType, { ...m }])
+              )
+            : undefined,
+          source: { ...line.source },
+          debug: line.debug ? { ...line.debug } : undefined,
+        })),
+      })),
+    })),
+  }
+}
+
+function* bodyLines(dataset: FinanceForecastDataset): Generator<FinanceForecastLine> {
+  for (const block of dataset.client_blocks) {
+    for (const group of block.groups) {
+      for (const line of group.lines) {
+        if (line.line_key === FINANCE_FORECAST_LINE_KEYS.totalRevenue) continue
+        yield line
+      }
+    }
+  }
+}
+
+function isHypotheticalLine(line: FinanceForecastLine): boolean {
+  return String(line.media_plan_version_id ?? "").startsWith(WHAT_IF_VERSION_ID_PREFIX)
+}
+
+function sameMba(a: string | null | undefined, b: string | null | undefined): boolean {
+  return String(a ?? "").trim().toLowerCase() === String(b ?? "").trim().toLowerCase()
+}
+
+/** Shift one FY month map `shift` slots later; returns the shifted map and the amount pushed past June. */
+function shiftMonthly(
+  monthly: FinanceForecastMonthlyAmounts,
+  shift: number
+): { next: FinanceForecastMonthlyAmounts; spilled: number } {
+  const next = emptyMonthly()
+  let spilled = 0
+  FINANCE_FORECAST_FISCAL_MONTH_ORDER.forEach((k, idx) => {
+    const v = monthly[k] ?? 0
+    const target = idx + shift
+    if (target < FINANCE_FORECAST_FISCAL_MONTH_ORDER.length) {
+      const tk = FINANCE_FORECAST_FISCAL_MONTH_ORDER[target]!
+      next[tk] = round2(next[tk] + v)
+    } else {
+      spilled += v
+    }
+  })
+  return { next, spilled }
+}
+
+function applyDelay(
+  dataset: FinanceForecastDataset,
+  adj: FinanceForecastWhatIfDelay
+): Omit<FinanceForecastWhatIfAppliedAdjustment, "fy_delta_by_group"> {
+  const shift = Math.max(0, Math.trunc(adj.months))
+  let affected = 0
+  const spilled = emptyGroupAmounts()
+  if (shift === 0 || !adj.mba_number.trim()) {
+    return { adjustment_id: adj.id, kind: adj.kind, affected_line_count: 0, spilled_out_of_fy_by_group: spilled }
+  }
+
+  for (const line of bodyLines(dataset)) {
+    if (isHypotheticalLine(line) || !sameMba(line.mba_number, adj.mba_number)) continue
+    const shifted = shiftMonthly(line.monthly, shift)
+    line.monthly = shifted.next
+    line.fy_total = fySum(shifted.next)
+    spilled[line.group_key] += shifted.spilled
+    for (const [mediaType, m] of Object.entries(line.monthly_by_media_type ?? {})) {
+      line.monthly_by_media_type![mediaType] = shiftMonthly(m, shift).next
+    }
+    affected++
+  }
+
+  return {
+    adjustment_id: adj.id,
+    kind: adj.kind,
+    affected_line_count: affected,
+    spilled_out_of_fy_by_group: roundGroupAmounts(spilled),
+  }
+}
+
+function haircutMatches(line: FinanceForecastLine, adj: FinanceForecastWhatIfHaircut): boolean {
+  if (isHypotheticalLine(line)) return false
+  if (adj.client_id != null && adj.client_id !== "" && String(line.client_id) !== String(adj.client_id)) {
+    return false
+  }
+  if (adj.mba_number != null && adj.mba_number !== "" && !sameMba(line.mba_number, adj.mba_number)) {
+    return false
+  }
+  if (adj.line_key != null && line.line_key !== adj.line_key) return false
+  if (adj.media_type != null && adj.media_type !== "" && !line.monthly_by_media_type?.[adj.media_type]) {
+    return false
+  }
+  return true
+}
+
+function applyHaircut(
+  dataset: FinanceForecastDataset,
+  adj: FinanceForecastWhatIfHaircut
+): Omit<FinanceForecastWhatIfAppliedAdjustment, "fy_delta_by_group"> {
+  const factor = 1 - (Number.isFinite(adj.pct) ? adj.pct : 0) / 100
+  let affected = 0
+  const mediaType = adj.media_type || null
+  for (const line of bodyLines(dataset)) {
+    if (!haircutMatches(line, adj)) continue
+    if (mediaType) {
+      // Only the media type's share is cut; the rest of the line is untouched.
+      const share = line.monthly_by_media_type![mediaType]!
+      for (const k of FINANCE_FORECAST_FISCAL_MONTH_ORDER) {
+        const cut = round2((share[k] ?? 0) * (1 - factor))
+        line.monthly[k] = round2((line.monthly[k] ?? 0) - cut)
+        share[k] = round2((share[k] ?? 0) - cut)
+      }
+    } else {
+      for (const k of FINANCE_FORECAST_FISCAL_MONTH_ORDER) {
+        line.monthly[k] = round2((line.monthly[k] ?? 0) * factor)
+      }
+      for (const share of Object.values(line.monthly_by_media_type ?? {})) {
+        for (const k of FINANCE_FORECAST_FISCAL_MONTH_ORDER) share[k] = round2((share[k] ?? 0) * factor)
+      }
+    }
+    line.fy_total = fySum(line.monthly)
+    affected++
+  }
+  return { adjustment_id: adj.id, kind: adj.kind, affected_line_count: affected }
+}
+
+function ensureClientBlock(
+  dataset: FinanceForecastDataset,
+  clientId: string,
+  clientName: string
+): FinanceForecastClientBlock {
+  const existing = dataset.client_blocks.find((b) => String(b.client_id) === String(clientId))
+  if (existing) return existing
+  const block: FinanceForecastClientBlock = {
+    client_id: clientId,
+    client_name: clientName,
+    groups: [
+      {
+        group_key: FINANCE_FORECAST_GROUP_KEYS.billingBasedInformation,
+        title: FINANCE_FORECAST_GROUP_LABELS[FINANCE_FORECAST_GROUP_KEYS.billingBasedInformation],
+        lines: [],
+      },
+      {
+        group_key: FINANCE_FORECAST_GROUP_KEYS.revenueFeesCommission,
+        title: FINANCE_FORECAST_GROUP_LABELS[FINANCE_FORECAST_GROUP_KEYS.revenueFeesCommission],
+        lines: [],
+      },
+    ],
+  }
+  dataset.client_blocks.push(block)
+  dataset.client_blocks.sort((a, b) =>
+    a.client_name.localeCompare(b.client_name, undefined, { sensitivity: "base" })
+  )
+  return block
+}
+
+function applyHypotheticalCampaign(
+  dataset: FinanceForecastDataset,
+  adj: FinanceForecastWhatIfHypotheticalCampaign
+): Omit<FinanceForecastWhatIfAppliedAdjustment, "fy_delta_by_group"> {
+  const noop = { adjustment_id: adj.id, kind: adj.kind, affected_line_count: 0 }
+  if (adj.line_key === FINANCE_FORECAST_LINE_KEYS.totalRevenue) return noop
+  const groupKey = getForecastRowDefinition(adj.line_key)?.group
+  const startIdx = FINANCE_FORECAST_FISCAL_MONTH_ORDER.indexOf(adj.start_month)
+  const span = Math.max(1, Math.trunc(adj.months))
+  if (!groupKey || startIdx < 0 || !Number.isFinite(adj.amount) || adj.amount === 0) return noop
+
+  // Spread over the full flight, then keep only the slots inside this FY.
+  const perMonth = adj.amount / span
+  const monthly = emptyMonthly()
+  for (let i = startIdx; i < Math.min(startIdx + span, FINANCE_FORECAST_FISCAL_MONTH_ORDER.length); i++) {
+    monthly[FINANCE_FORECAST_FISCAL_MONTH_ORDER[i]!] = round2(perMonth)
+  }
+
+  const block = ensureClientBlock(dataset, adj.client_id, adj.client_name)
+  const group = block.groups.find((g) => g.group_key === groupKey)
+  if (!group) return noop
+
+  group.lines.push({
+    client_id: block.client_id,
+    client_name: block.client_name,
+    campaign_id: null,
+    mba_number: null,
+    media_plan_version_id: `${WHAT_IF_VERSION_ID_PREFIX}${adj.id}`,
+    version_number: null,
+    scenario: dataset.meta.scenario,
+    group_key: groupKey,
+    line_key: adj.line_key,
+    monthly,
+    fy_total: fySum(monthly),
+    source: { kind: "what_if_hypothetical_campaign" },
+    debug: {
+      stage: "what_if",
+      explanation: `Hypothetical campaign${adj.label ? ` "${adj.label}"` : ""}: ${adj.amount} over ${span} month(s) from ${adj.start_month}.`,
+    },
+  })
+
+  return { ...noop, affected_line_count: 1 }
+}
+
+/** Rebuild each client's total revenue row from its (possibly adjusted) body lines. */
+function recomputeTotalRevenue(dataset: FinanceForecastDataset): void {
+  for (const block of dataset.client_blocks) {
+    const group = block.groups.find((g) => g.group_key === FINANCE_FORECAST_GROUP_KEYS.revenueFeesCommission)
+    if (!group) continue
+    const body = group.lines.filter((l) => l.line_key !== FINANCE_FORECAST_LINE_KEYS.totalRevenue)
+    const monthly = emptyMonthly()
+    for (const line of body) {
+      if (!FORECAST_REVENUE_BODY_LINE_ORDER.includes(line.line_key)) continue
+      for (const k of FINANCE_FORECAST_FISCAL_MONTH_ORDER) {
+        monthly[k] = round2(monthly[k] + (line.monthly[k] ?? 0))
+      }
+    }
+
+    const existing = group.lines.find((l) => l.line_key === FINANCE_FORECAST_LINE_KEYS.totalRevenue)
+    if (existing) {
+      existing.monthly = monthly
+      existing.fy_total = fySum(monthly)
+      continue
+    }
+    if (body.length === 0) continue
+    group.lines.push({
+      client_id: block.client_id,
+      client_name: block.client_name,
+      campaign_id: null,
+      mba_number: null,
+      media_plan_version_id: null,
+      version_number: null,
+      scenario: dataset.meta.scenario,
+      group_key: FINANCE_FORECAST_GROUP_KEYS.revenueFeesCommission,
+      line_key: FINANCE_FORECAST_LINE_KEYS.totalRevenue,
+      monthly,
+      fy_total: fySum(monthly),
+      source: { kind: "sum_revenue_body_lines" },
+    })
+  }
+}
+
+function sortedAdjustments(
+  adjustments: ReadonlyArray<FinanceForecastWhatIfAdjustment>
+): FinanceForecastWhatIfAdjustment[] {
+  return adjustments
+    .map((adj, idx) => ({ adj, idx }))
+    .sort((a, b) => KIND_ORDER[a.adj.kind] - KIND_ORDER[b.adj.kind] || a.idx - b.idx)
+    .map((x) => x.adj)
+}
+
+/**
+ * Apply a what-if scenario to a baseline dataset. The returned dataset has the same
+ * shape as `buildFinanceForecastDataset` output so the grid, exports and snapshot
+ * helpers accept it unchanged.
+ */
+export function applyWhatIfScenario(
+  baseline: FinanceForecastDataset,
+  scenario: Pick<FinanceForecastWhatIfScenario, "id" | "name" | "adjustments">
+): FinanceForecastWhatIfResult {
+  const dataset = cloneDataset(baseline)
+  const applied: FinanceForecastWhatIfAppliedAdjustment[] = []
+
+  for (const adj of sortedAdjustments(scenario.adjustments)) {
+    const before = datasetFyTotals(dataset)
+    const partial =
+      adj.kind === "delay"
+        ? applyDelay(dataset, adj)
+        : adj.kind === "haircut"
+          ? applyHaircut(dataset, adj)
+          : applyHypotheticalCampaign(dataset, adj)
+    const after = datasetFyTotals(dataset)
+    const delta = emptyGroupAmounts()
+    for (const key of Object.keys(delta) as FinanceForecastGroupKey[]) delta[key] = after[key] - before[key]
+    applied.push({ ...partial, fy_delta_by_group: roundGroupAmounts(delta) })
+  }
+
+  recomputeTotalRevenue(dataset)
+  dataset.meta.generated_at = new Date().toISOString()
+
+  return {
+    scenario_id: scenario.id,
+    scenario_name: scenario.name,
+    dataset,
+    applied,
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Bridge what-if datasets into the snapshot variance engine so "baseline vs pessimistic"
+ * reads exactly like a diff between two saved snapshots.
+ */
+
+import type { FinanceForecastDataset } from "@/lib/types/financeForecast"
+import type {
+  CompareFinanceForecastVarianceOptions,
+  FinanceForecastSnapshotVarianceInput,
+  FinanceForecastVarianceReport,
+} from "@/lib/types/financeForecastVariance"
+import { buildSnapshotLinesFromDataset } from "@/lib/finance/forecast/snapshot/buildSnapshotPayload"
+import { compareFinanceForecastSnapshots } from "@/lib/finance/forecast/snapshot/varianceEngine"
+
+/** Pseudo snapshot id used for the live (unadjusted) dataset. */
+export const WHAT_IF_BASELINE_SNAPSHOT_ID = "live-baseline"
+
+/**
+ * Normalise an in-memory dataset to variance-engine input. Line ids are synthetic
+ * (`<snapshot_id>:<row>`) because nothing is persisted.
+ */
+export function whatIfDatasetToVarianceInput(
+  dataset: FinanceForecastDataset,
+  snapshotId: string,
+  label?: string
+): FinanceForecastSnapshotVarianceInput {
+  const rows = buildSnapshotLinesFromDataset(dataset, { include_debug_json: false })
+  return {
+    snapshot_id: snapshotId,
+    label,
+    lines: rows.map((row, idx) => ({
+      ...row,
+      id: `${snapshotId}:${idx}`,
+      snapshot_id: snapshotId,
+    })),
+  }
+}
+
+export type WhatIfComparisonSide = {
+  id: string
+  label: string
+  dataset: FinanceForecastDataset
+}
+
+/** Old = `baseline`, new = `comparison` — same convention as `compareFinanceForecastSnapshots`. */
+export function compareWhatIfDatasets(
+  baseline: WhatIfComparisonSide,
+  comparison: WhatIfComparisonSide,
+  options?: CompareFinanceForecastVarianceOptions
+): FinanceForecastVarianceReport {
+  return compareFinanceForecastSnapshots(
+    whatIfDatasetToVarianceInput(baseline.dataset, baseline.id, baseline.label),
+    whatIfDatasetToVarianceInput(comparison.dataset, comparison.id, comparison.label),
+    options
+  )
+}
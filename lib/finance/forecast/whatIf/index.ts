@@ -0,0 +1,15 @@
+export { applyWhatIfScenario, WHAT_IF_VERSION_ID_PREFIX } from "./applyWhatIfScenario"
+export {
+  compareWhatIfDatasets,
+  WHAT_IF_BASELINE_SNAPSHOT_ID,
+  whatIfDatasetToVarianceInput,
+  type WhatIfComparisonSide,
+} from "./compareWhatIfDatasets"
+export {
+  deleteWhatIfScenario,
+  fetchWhatIfScenarios,
+  normalizeWhatIfAdjustment,
+  normalizeWhatIfScenario,
+  saveWhatIfScenario,
+  subscribeWhatIfScenarios,
+} from "./savedWhatIfScenarios"
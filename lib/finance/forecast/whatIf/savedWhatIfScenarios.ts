@@ -0,0 +1,168 @@
+import {
+  FINANCE_FORECAST_FISCAL_MONTH_ORDER,
+  FINANCE_FORECAST_LINE_KEYS,
+  type FinanceForecastLineKey,
+  type FinanceForecastMonthKey,
+} from "@/lib/types/financeForecast"
+import type {
+  FinanceForecastWhatIfAdjustment,
+  FinanceForecastWhatIfScenario,
+} from "@/lib/types/financeForecastWhatIf"
+
+const WHAT_IF_SCENARIOS_URL = "/api/finance/forecast/what-if-scenarios"
+
+const WHAT_IF_CHANGED_EVENT = "finance-forecast-what-if-changed"
+
+const LINE_KEYS = new Set<string>(Object.values(FINANCE_FORECAST_LINE_KEYS))
+const MONTH_KEYS = new Set<string>(FINANCE_FORECAST_FISCAL_MONTH_ORDER)
+
+function str(v: unknown): string {
+  return typeof v === "string" ? v.trim() : typeof v === "number" ? String(v) : ""
+}
+
+function num(v: unknown): number | null {
+  const n = typeof v === "number" ? v : typeof v === "string" ? Number(v) : NaN
+  return Number.isFinite(n) ? n : null
+}
+
+function optionalLineKey(v: unknown): FinanceForecastLineKey | null {
+  return typeof v === "string" && LINE_KEYS.has(v) ? (v as FinanceForecastLineKey) : null
+}
+
+/** Normalise one stored adjustment; returns null when required fields are missing. */
+export function normalizeWhatIfAdjustment(raw: unknown): FinanceForecastWhatIfAdjustment | null {
+  if (!raw || typeof raw !== "object") return null
+  const c = raw as Record<string, unknown>
+  const id = str(c.id)
+  if (!id) return null
+  const label = str(c.label) || undefined
+
+  if (c.kind === "haircut") {
+    const pct = num(c.pct)
+    if (pct === null) return null
+    return {
+      kind: "haircut",
+      id,
+      label,
+      client_id: str(c.client_id) || null,
+      mba_number: str(c.mba_number) || null,
+      line_key: optionalLineKey(c.line_key),
+      media_type: str(c.media_type) || null,
+      pct,
+    }
+  }
+
+  if (c.kind === "delay") {
+    const mba = str(c.mba_number)
+    const months = num(c.months)
+    if (!mba || months === null) return null
+    return { kind: "delay", id, label, mba_number: mba, months: Math.max(0, Math.trunc(months)) }
+  }
+
+  if (c.kind === "hypothetical_campaign") {
+    const clientId = str(c.client_id)
+    const lineKey = optionalLineKey(c.line_key)
+    const start = str(c.start_month)
+    const months = num(c.months)
+    const amount = num(c.amount)
+    if (!clientId || !lineKey || !MONTH_KEYS.has(start) || months === null || amount === null) return null
+    return {
+      kind: "hypothetical_campaign",
+      id,
+      label,
+      client_id: clientId,
+      client_name: str(c.client_name) || clientId,
+      line_key: lineKey,
+      start_month: start as FinanceForecastMonthKey,
+      months: Math.max(1, Math.trunc(months)),
+      amount,
+    }
+  }
+
+  return null
+}
+
+/** Normalise a stored scenario; invalid adjustments are dropped rather than failing the whole row. */
+export function normalizeWhatIfScenario(raw: unknown): FinanceForecastWhatIfScenario | null {
+  if (!raw || typeof raw !== "object") return null
+  const c = raw as Record<string, unknown>
+  const id = str(c.id)
+  const name = str(c.name)
+  const fy = num(c.financial_year_start_year)
+  if (!id || !name || fy === null) return null
+  const adjustments = Array.isArray(c.adjustments)
+    ? c.adjustments.flatMap((a) => {
+        const adj = normalizeWhatIfAdjustment(a)
+        return adj ? [adj] : []
+      })
+    : []
+  const now = new Date().toISOString()
+  return {
+    id,
+    name,
+    notes: str(c.notes) || null,
+    financial_year_start_year: Math.trunc(fy),
+    adjustments,
+    created_at: str(c.created_at) || now,
+    updated_at: str(c.updated_at) || now,
+  }
+}
+
+async function readError(res: Response, fallback: string): Promise<string> {
+  const body = (await res.json().catch(() => null)) as { message?: unknown; error?: unknown } | null
+  const message = body?.message ?? body?.error
+  return typeof message === "string" && message ? message : fallback
+}
+
+function notifyWhatIfScenariosChanged(): void {
+  if (typeof window !== "undefined") window.dispatchEvent(new Event(WHAT_IF_CHANGED_EVENT))
+}
+
+/**
+ * Saved scenarios for one FY, newest first. `configured` is false when the server has
+ * no snapshot storage, in which case scenarios cannot be saved either.
+ */
+export async function fetchWhatIfScenarios(
+  financialYearStartYear: number
+): Promise<{ scenarios: FinanceForecastWhatIfScenario[]; configured: boolean }> {
+  const res = await fetch(`${WHAT_IF_SCENARIOS_URL}?financial_year=${financialYearStartYear}`, { cache: "no-store" })
+  if (!res.ok) throw new Error(await readError(res, "Failed to load what-if scenarios"))
+  const body = (await res.json()) as { scenarios?: unknown; configured?: unknown }
+  const scenarios = Array.isArray(body.scenarios)
+    ? body.scenarios.flatMap((entry) => {
+        const scenario = normalizeWhatIfScenario(entry)
+        return scenario ? [scenario] : []
+      })
+    : []
+  return { scenarios, configured: body.configured !== false }
+}
+
+/** Create or replace by id; the server keeps `created_at` and stamps `updated_at`. */
+export async function saveWhatIfScenario(
+  scenario: FinanceForecastWhatIfScenario
+): Promise<FinanceForecastWhatIfScenario> {
+  const res = await fetch(WHAT_IF_SCENARIOS_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...scenario, name: scenario.name.trim() }),
+  })
+  if (!res.ok) throw new Error(await readError(res, "Failed to save scenario"))
+  const saved = normalizeWhatIfScenario(((await res.json()) as { scenario?: unknown }).scenario)
+  if (!saved) throw new Error("Failed to save scenario")
+  notifyWhatIfScenariosChanged()
+  return saved
+}
+
+export async function deleteWhatIfScenario(id: string): Promise<void> {
+  const res = await fetch(`${WHAT_IF_SCENARIOS_URL}/${encodeURIComponent(id)}`, { method: "DELETE" })
+  if (!res.ok && res.status !== 404) throw new Error(await readError(res, "Failed to delete scenario"))
+  notifyWhatIfScenariosChanged()
+}
+
+/** Fires after this tab saves or deletes a scenario. */
+export function subscribeWhatIfScenarios(onChange: () => void): () => void {
+  if (typeof window === "undefined") return () => {}
+  const handler = () => onChange()
+  window.addEventListener(WHAT_IF_CHANGED_EVENT, handler)
+  return () => window.removeEventListener(WHAT_IF_CHANGED_EVENT, handler)
+}
@@ -0,0 +1,134 @@
+/**
+ * Saved what-if scenarios in Xano, in the same api group as the forecast snapshots
+ * (`XANO_FINANCE_FORECAST_SNAPSHOTS_BASE_URL`), so finance can share a scenario and
+ * compare it on any machine the way they compare snapshots. One row per scenario;
+ * the app's scenario id is kept in `scenario_id` and adjustments as JSON.
+ * Endpoint path can be overridden via env (see below).
+ */
+
+import { xanoAuthHeaderRecord, xanoPostHeaderRecord } from "@/lib/api/xano"
+import type { FinanceForecastWhatIfScenario } from "@/lib/types/financeForecastWhatIf"
+
+import { normalizeWhatIfScenario } from "./savedWhatIfScenarios"
+
+const SCENARIOS_PATH =
+  process.env.XANO_FINANCE_FORECAST_WHAT_IF_SCENARIOS_PATH ?? "finance_forecast_what_if_scenarios"
+
+type XanoWhatIfScenarioRow = Record<string, unknown> & { id?: unknown; scenario_id?: unknown }
+
+function scenariosUrl(rowId?: string): string {
+  const base = process.env.XANO_FINANCE_FORECAST_SNAPSHOTS_BASE_URL?.replace(/\/$/, "")
+  if (!base) {
+    throw new Error("XANO_FINANCE_FORECAST_SNAPSHOTS_BASE_URL is not set")
+  }
+  return rowId ? `${base}/${SCENARIOS_PATH}/${encodeURIComponent(rowId)}` : `${base}/${SCENARIOS_PATH}`
+}
+
+function unwrapArray(payload: unknown): unknown[] {
+  if (Array.isArray(payload)) return payload
+  if (payload && typeof payload === "object") {
+    const p = payload as Record<string, unknown>
+    if (Array.isArray(p.data)) return p.data
+    if (Array.isArray(p.items)) return p.items
+  }
+  return []
+}
+
+function parseAdjustments(raw: unknown): unknown {
+  if (typeof raw !== "string") return raw
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return []
+  }
+}
+
+function rowToScenario(row: XanoWhatIfScenarioRow): FinanceForecastWhatIfScenario | null {
+  return normalizeWhatIfScenario({
+    ...row,
+    id: row.scenario_id,
+    adjustments: parseAdjustments(row.adjustments),
+  })
+}
+
+async function xanoFailure(res: Response, action: string): Promise<Error> {
+  const t = await res.text().catch(() => "")
+  return new Error(`Xano what-if scenario ${action} failed (${res.status}): ${t || res.statusText}`)
+}
+
+async function fetchScenarioRows(): Promise<XanoWhatIfScenarioRow[]> {
+  const res = await fetch(scenariosUrl(), {
+    method: "GET",
+    headers: xanoAuthHeaderRecord(),
+    cache: "no-store",
+  })
+  if (!res.ok) throw await xanoFailure(res, "list")
+  return unwrapArray(await res.json()).filter(
+    (r): r is XanoWhatIfScenarioRow => Boolean(r) && typeof r === "object"
+  )
+}
+
+async function findScenarioRow(scenarioId: string): Promise<XanoWhatIfScenarioRow | null> {
+  const rows = await fetchScenarioRows()
+  return rows.find((r) => String(r.scenario_id ?? "") === scenarioId) ?? null
+}
+
+/** Saved scenarios, newest first; optionally only those authored against one FY. */
+export async function fetchWhatIfScenariosFromXano(
+  financialYearStartYear?: number
+): Promise<FinanceForecastWhatIfScenario[]> {
+  const scenarios = (await fetchScenarioRows()).flatMap((row) => {
+    const scenario = rowToScenario(row)
+    return scenario ? [scenario] : []
+  })
+  return scenarios
+    .filter((s) => financialYearStartYear === undefined || s.financial_year_start_year === financialYearStartYear)
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+}
+
+/**
+ * Create or replace a scenario by its app id. `created_at` is kept from the stored row;
+ * `updated_at` / `updated_by` are stamped here.
+ */
+export async function upsertWhatIfScenarioInXano(
+  scenario: FinanceForecastWhatIfScenario,
+  updatedBy: string | null
+): Promise<FinanceForecastWhatIfScenario> {
+  const existing = await findScenarioRow(scenario.id)
+  const now = new Date().toISOString()
+  const body = {
+    scenario_id: scenario.id,
+    name: scenario.name.trim(),
+    notes: scenario.notes ?? null,
+    financial_year_start_year: scenario.financial_year_start_year,
+    adjustments: JSON.stringify(scenario.adjustments),
+    created_at: existing ? String(existing.created_at ?? scenario.created_at) : scenario.created_at,
+    updated_at: now,
+    updated_by: updatedBy,
+  }
+
+  const res = await fetch(existing?.id != null ? scenariosUrl(String(existing.id)) : scenariosUrl(), {
+    method: existing?.id != null ? "PATCH" : "POST",
+    headers: xanoPostHeaderRecord(),
+    body: JSON.stringify(body),
+    cache: "no-store",
+  })
+  if (!res.ok) throw await xanoFailure(res, existing ? "update" : "create")
+
+  const saved = rowToScenario({ ...body, ...((await res.json().catch(() => ({}))) as XanoWhatIfScenarioRow) })
+  if (!saved) throw new Error("Xano what-if scenario save returned an unreadable row")
+  return saved
+}
+
+/** Delete a scenario by its app id; false when no stored row has that id. */
+export async function deleteWhatIfScenarioFromXano(scenarioId: string): Promise<boolean> {
+  const existing = await findScenarioRow(scenarioId)
+  if (existing?.id == null) return false
+  const res = await fetch(scenariosUrl(String(existing.id)), {
+    method: "DELETE",
+    headers: xanoAuthHeaderRecord(),
+    cache: "no-store",
+  })
+  if (!res.ok) throw await xanoFailure(res, "delete")
+  return true
+}
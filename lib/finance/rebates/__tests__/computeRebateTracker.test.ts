@@ -0,0 +1,124 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+import { computeRebateTracker, rebateForSpend } from "@/lib/finance/rebates/computeRebateTracker"
+import { describeRebateAgreement, rebateAgreementInputSchema, type RebateAgreement } from "@/lib/finance/rebates/rebateAgreements"
+import {
+  FINANCE_FORECAST_FISCAL_MONTH_ORDER,
+  type FinanceForecastMonthlyAmounts,
+  type FinanceForecastPublisherMedia,
+} from "@/lib/types/financeForecast"
+
+const FY = 2025
+
+function monthly(values: Partial<FinanceForecastMonthlyAmounts>): FinanceForecastMonthlyAmounts {
+  const out = {} as FinanceForecastMonthlyAmounts
+  for (const k of FINANCE_FORECAST_FISCAL_MONTH_ORDER) out[k] = values[k] ?? 0
+  return out
+}
+
+function publisher(
+  id: string | null,
+  name: string,
+  media: Partial<FinanceForecastMonthlyAmounts>,
+  commsPct = 10
+): FinanceForecastPublisherMedia {
+  const m = monthly(media)
+  const c = monthly(Object.fromEntries(Object.entries(media).map(([k, v]) => [k, (v! * commsPct) / 100])))
+  const sum = (x: FinanceForecastMonthlyAmounts) => Object.values(x).reduce((t, v) => t + v, 0)
+  return { publisher_id: id, publisher_name: name, media: m, commission: c, fy_media: sum(m), fy_commission: sum(c) }
+}
+
+const agreement: RebateAgreement = {
+  id: 1,
+  publisher_id: 7,
+  financial_year_start_year: FY,
+  tier_basis: "marginal",
+  tiers: [
+    { threshold: 500_000, rate_pct: 2 },
+    { threshold: 250_000, rate_pct: 1 },
+  ],
+  notes: "",
+}
+
+test("rebateForSpend: marginal bands vs retrospective top tier", () => {
+  assert.deepEqual(rebateForSpend(200_000, agreement), {
+    rebate: 0,
+    tier: null,
+    next: { threshold: 250_000, rate_pct: 1 },
+  })
+  // 1% of 250k..500k + 2% of 500k..600k
+  assert.equal(rebateForSpend(600_000, agreement).rebate, 4_500)
+  assert.deepEqual(rebateForSpend(600_000, agreement).tier, { threshold: 500_000, rate_pct: 2 })
+  assert.equal(rebateForSpend(600_000, agreement).next, null)
+  assert.equal(rebateForSpend(600_000, { ...agreement, tier_basis: "retrospective" }).rebate, 12_000)
+  assert.equal(rebateForSpend(500_000, agreement).tier?.threshold, 250_000)
+})
+
+test("computeRebateTracker: billed months from confirmed, the rest from projection", () => {
+  const result = computeRebateTracker({
+    financialYearStartYear: FY,
+    asOfMonth: "2025-09",
+    actual: [publisher("7", "Seven", { july: 200_000, august: 100_000, september: 999 })],
+    projected: [publisher("7", "Seven", { july: 1, september: 150_000, march: 150_000 }, 12)],
+    agreements: [agreement, { ...agreement, id: 2, financial_year_start_year: FY + 1 }],
+  })
+  const seven = result.publishers[0]!
+  assert.deepEqual(
+    seven.months.slice(0, 3).map((m) => [m.month, m.status, m.media]),
+    [
+      ["2025-07", "actual", 200_000],
+      ["2025-08", "actual", 100_000],
+      ["2025-09", "projected", 150_000],
+    ]
+  )
+  assert.equal(seven.media_to_date, 300_000)
+  assert.equal(seven.commission_to_date, 30_000)
+  assert.equal(seven.rebate_to_date, 500)
+  assert.equal(seven.media_fy_projected, 600_000)
+  assert.equal(seven.commission_fy_projected, 30_000 + 36_000)
+  assert.equal(seven.rebate_fy_projected, 4_500)
+  // Monthly claimable increments add back up to the FY rebate.
+  assert.equal(
+    seven.months.reduce((t, m) => t + m.rebate, 0),
+    seven.rebate_fy_projected
+  )
+  assert.equal(seven.months.find((m) => m.month === "2025-08")!.rebate, 500)
+  assert.equal(result.totals.rebate_fy_projected, 4_500)
+})
+
+test("computeRebateTracker: agreements without spend still list with the full shortfall", () => {
+  const result = computeRebateTracker({
+    financialYearStartYear: FY,
+    asOfMonth: "2026-07",
+    actual: [publisher(null, "Unmatched", { july: 10_000 })],
+    projected: [],
+    agreements: [agreement],
+    publisherNames: { "7": "Seven" },
+  })
+  assert.deepEqual(
+    result.publishers.map((p) => [p.publisher_name, p.next_tier?.shortfall ?? null]),
+    [
+      ["Seven", 250_000],
+      ["Unmatched", null],
+    ]
+  )
+  assert.ok(result.publishers[1]!.months.every((m) => m.status === "actual"))
+})
+
+test("rebateAgreementInputSchema: defaults and unique thresholds", () => {
+  const parsed = rebateAgreementInputSchema.parse({
+    publisher_id: 7,
+    financial_year_start_year: FY,
+    tiers: [{ threshold: 500_000, rate_pct: 2 }],
+  })
+  assert.equal(parsed.tier_basis, "marginal")
+  assert.equal(describeRebateAgreement(parsed), "2% from $500k (marginal)")
+  const dup = rebateAgreementInputSchema.safeParse({
+    ...parsed,
+    tiers: [
+      { threshold: 1, rate_pct: 1 },
+      { threshold: 1, rate_pct: 2 },
+    ],
+  })
+  assert.equal(dup.success, false)
+})
@@ -0,0 +1,221 @@
+/**
+ * Publisher commission + volume-rebate tracker for one financial year.
+ *
+ * Months before `asOfMonth` are earned: their media and commission come from the
+ * confirmed lines of MBA months marked billed. The remaining months come from the
+ * projection scenario, so FY figures are "billed to date + forecast to June".
+ * Pure — the API route supplies forecast rows and agreements.
+ */
+
+import {
+  FINANCE_FORECAST_FISCAL_MONTH_ORDER,
+  type FinanceForecastMonthKey,
+  type FinanceForecastPublisherMedia,
+} from "@/lib/types/financeForecast"
+import { sortedTiers, type RebateAgreement, type RebateTier } from "./rebateAgreements"
+
+export type RebateMonthStatus = "actual" | "projected"
+
+export type RebateTrackerMonth = {
+  month_key: FinanceForecastMonthKey
+  /** Calendar month, YYYY-MM. */
+  month: string
+  status: RebateMonthStatus
+  media: number
+  commission: number
+  cumulative_media: number
+  /** Rebate earned on FY spend to the end of this month. */
+  rebate_cumulative: number
+  /** Increment vs the previous month — the claimable amount for the month. */
+  rebate: number
+}
+
+export type RebateNextTier = RebateTier & {
+  /** Further FY spend needed (vs projection) to reach the tier. */
+  shortfall: number
+}
+
+export type PublisherRebateRow = {
+  publisher_id: string | null
+  publisher_name: string
+  months: RebateTrackerMonth[]
+  media_to_date: number
+  commission_to_date: number
+  rebate_to_date: number
+  media_fy_projected: number
+  commission_fy_projected: number
+  rebate_fy_projected: number
+  agreement: RebateAgreement | null
+  tier_to_date: RebateTier | null
+  tier_projected: RebateTier | null
+  next_tier: RebateNextTier | null
+}
+
+export type RebateTrackerTotals = {
+  commission_to_date: number
+  commission_fy_projected: number
+  rebate_to_date: number
+  rebate_fy_projected: number
+}
+
+export type RebateTrackerResult = {
+  financial_year_start_year: number
+  as_of_month: string
+  publishers: PublisherRebateRow[]
+  totals: RebateTrackerTotals
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+function calendarMonth(fyStartYear: number, fiscalIndex: number): string {
+  const month = ((fiscalIndex + 6) % 12) + 1
+  const year = month >= 7 ? fyStartYear : fyStartYear + 1
+  return `${year}-${String(month).padStart(2, "0")}`
+}
+
+function publisherKey(id: string | number | null | undefined, name: string): string {
+  return id != null && String(id).trim() !== "" ? `id:${id}` : `name:${name.trim().toLowerCase()}`
+}
+
+/** Rebate on FY spend under an agreement, with the tier reached and the next one. */
+export function rebateForSpend(
+  spend: number,
+  agreement: Pick<RebateAgreement, "tiers" | "tier_basis">
+): { rebate: number; tier: RebateTier | null; next: RebateTier | null } {
+  const tiers = sortedTiers(agreement.tiers)
+  const reached = tiers.filter((t) => spend > t.threshold)
+  const tier = reached[reached.length - 1] ?? null
+  const next = tiers.find((t) => spend <= t.threshold) ?? null
+  if (!tier) return { rebate: 0, tier, next }
+
+  if (agreement.tier_basis === "retrospective") {
+    return { rebate: round2((spend * tier.rate_pct) / 100), tier, next }
+  }
+  let rebate = 0
+  tiers.forEach((t, i) => {
+    const upper = tiers[i + 1]?.threshold ?? Number.POSITIVE_INFINITY
+    const band = Math.min(spend, upper) - t.threshold
+    if (band > 0) rebate += (band * t.rate_pct) / 100
+  })
+  return { rebate: round2(rebate), tier, next }
+}
+
+export function computeRebateTracker(args: {
+  financialYearStartYear: number
+  /** YYYY-MM; months before it are actual. */
+  asOfMonth: string
+  /** Confirmed lines of billed MBA months only — supplies the months already billed. */
+  actual: readonly FinanceForecastPublisherMedia[]
+  /** Projection scenario — supplies the months still to come. */
+  projected: readonly FinanceForecastPublisherMedia[]
+  agreements: readonly RebateAgreement[]
+  /** Publisher names by id, for agreements with no spend in the forecast. */
+  publisherNames?: Readonly<Record<string, string>>
+}): RebateTrackerResult {
+  const fy = args.financialYearStartYear
+  const byKey = new Map<
+    string,
+    { publisher_id: string | null; publisher_name: string; actual?: FinanceForecastPublisherMedia; projected?: FinanceForecastPublisherMedia }
+  >()
+  const entry = (id: string | null, name: string) => {
+    const key = publisherKey(id, name)
+    let e = byKey.get(key)
+    if (!e) {
+      e = { publisher_id: id, publisher_name: name }
+      byKey.set(key, e)
+    }
+    return e
+  }
+  for (const row of args.actual) entry(row.publisher_id, row.publisher_name).actual = row
+  for (const row of args.projected) entry(row.publisher_id, row.publisher_name).projected = row
+
+  const agreementByPublisher = new Map<string, RebateAgreement>()
+  for (const a of args.agreements) {
+    if (a.financial_year_start_year === fy) agreementByPublisher.set(String(a.publisher_id), a)
+  }
+  // Agreements with no spend yet still get a row (shows the full shortfall).
+  for (const a of agreementByPublisher.values()) {
+    const id = String(a.publisher_id)
+    if (![...byKey.values()].some((e) => e.publisher_id === id)) {
+      entry(id, args.publisherNames?.[id] ?? `Publisher ${id}`)
+    }
+  }
+
+  const publishers: PublisherRebateRow[] = [...byKey.values()].map((e) => {
+    const agreement = e.publisher_id != null ? agreementByPublisher.get(e.publisher_id) ?? null : null
+    let cumulative = 0
+    let previousRebate = 0
+    let mediaToDate = 0
+    let commissionToDate = 0
+    let commissionFy = 0
+
+    const months = FINANCE_FORECAST_FISCAL_MONTH_ORDER.map((month_key, i): RebateTrackerMonth => {
+      const month = calendarMonth(fy, i)
+      const status: RebateMonthStatus = month < args.asOfMonth ? "actual" : "projected"
+      const source = status === "actual" ? e.actual : e.projected
+      const media = source?.media[month_key] ?? 0
+      const commission = source?.commission[month_key] ?? 0
+      cumulative = round2(cumulative + media)
+      commissionFy += commission
+      if (status === "actual") {
+        mediaToDate += media
+        commissionToDate += commission
+      }
+      const rebateCumulative = agreement ? rebateForSpend(cumulative, agreement).rebate : 0
+      const rebate = round2(rebateCumulative - previousRebate)
+      previousRebate = rebateCumulative
+      return {
+        month_key,
+        month,
+        status,
+        media,
+        commission,
+        cumulative_media: cumulative,
+        rebate_cumulative: rebateCumulative,
+        rebate,
+      }
+    })
+
+    const toDate = agreement ? rebateForSpend(mediaToDate, agreement) : null
+    const fyProjection = agreement ? rebateForSpend(cumulative, agreement) : null
+    return {
+      publisher_id: e.publisher_id,
+      publisher_name: e.publisher_name,
+      months,
+      media_to_date: round2(mediaToDate),
+      commission_to_date: round2(commissionToDate),
+      rebate_to_date: toDate?.rebate ?? 0,
+      media_fy_projected: cumulative,
+      commission_fy_projected: round2(commissionFy),
+      rebate_fy_projected: fyProjection?.rebate ?? 0,
+      agreement,
+      tier_to_date: toDate?.tier ?? null,
+      tier_projected: fyProjection?.tier ?? null,
+      next_tier: fyProjection?.next
+        ? { ...fyProjection.next, shortfall: round2(fyProjection.next.threshold - cumulative) }
+        : null,
+    }
+  })
+
+  publishers.sort(
+    (a, b) =>
+      Number(b.agreement != null) - Number(a.agreement != null) ||
+      b.media_fy_projected - a.media_fy_projected ||
+      a.publisher_name.localeCompare(b.publisher_name)
+  )
+
+  const sum = (pick: (p: PublisherRebateRow) => number) => round2(publishers.reduce((t, p) => t + pick(p), 0))
+  return {
+    financial_year_start_year: fy,
+    as_of_month: args.asOfMonth,
+    publishers,
+    totals: {
+      commission_to_date: sum((p) => p.commission_to_date),
+      commission_fy_projected: sum((p) => p.commission_fy_projected),
+      rebate_to_date: sum((p) => p.rebate_to_date),
+      rebate_fy_projected: sum((p) => p.rebate_fy_projected),
+    },
+  }
+}
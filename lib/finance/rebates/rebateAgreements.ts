@@ -0,0 +1,53 @@
+import * as z from "zod"
+
+/**
+ * Publisher volume-rebate agreements (Xano `publisher_rebate_agreements`), one
+ * per publisher per financial year. Tiers are FY media spend thresholds:
+ *
+ * - `marginal` — each tier's rate applies to the spend inside its band
+ *   ("2% above $500k" pays 2% on the spend past $500k).
+ * - `retrospective` — the highest tier reached applies to the whole FY spend.
+ */
+
+export const REBATE_TIER_BASES = ["marginal", "retrospective"] as const
+export type RebateTierBasis = (typeof REBATE_TIER_BASES)[number]
+
+export const rebateTierSchema = z.object({
+  threshold: z.number().finite().nonnegative("Tier thresholds must be zero or more"),
+  rate_pct: z.number().finite().min(0).max(100, "Tier rates are a percentage (0–100)"),
+})
+
+export type RebateTier = z.infer<typeof rebateTierSchema>
+
+export const rebateAgreementInputSchema = z
+  .object({
+    publisher_id: z.number().int().positive("Publisher is required"),
+    financial_year_start_year: z.number().int().min(1990).max(2100),
+    tier_basis: z.enum(REBATE_TIER_BASES).default("marginal"),
+    tiers: z.array(rebateTierSchema).min(1, "Add at least one tier").max(10),
+    notes: z.string().trim().max(1000).default(""),
+  })
+  .refine((v) => new Set(v.tiers.map((t) => t.threshold)).size === v.tiers.length, {
+    message: "Tier thresholds must be unique",
+  })
+
+export type RebateAgreementInput = z.infer<typeof rebateAgreementInputSchema>
+
+export type RebateAgreement = RebateAgreementInput & {
+  id: number
+  created_at?: number
+}
+
+export function sortedTiers(tiers: readonly RebateTier[]): RebateTier[] {
+  return [...tiers].sort((a, b) => a.threshold - b.threshold)
+}
+
+/** e.g. "1% from $250k · 2% from $500k (marginal)". */
+export function describeRebateAgreement(agreement: Pick<RebateAgreementInput, "tiers" | "tier_basis">): string {
+  const fmt = (n: number) =>
+    n >= 1_000_000 ? `$${+(n / 1_000_000).toFixed(2)}M` : n >= 1000 ? `$${+(n / 1000).toFixed(1)}k` : `$${n}`
+  const tiers = sortedTiers(agreement.tiers)
+    .map((t) => `${t.rate_pct}% from ${fmt(t.threshold)}`)
+    .join(" · ")
+  return `${tiers} (${agreement.tier_basis})`
+}
@@ -0,0 +1,122 @@
+import type ExcelJS from "exceljs"
+import { saveAs } from "file-saver"
+import type { PublisherRebateRow, RebateTrackerResult } from "@/lib/finance/rebates/computeRebateTracker"
+import { describeRebateAgreement } from "@/lib/finance/rebates/rebateAgreements"
+
+const MONEY_FMT = "$#,##0.00"
+
+function sanitizeExcelSheetName(name: string): string {
+  const t = name.replace(/[*?:/\\[\]]/g, " ").trim().slice(0, 31)
+  return t.length > 0 ? t : "Sheet"
+}
+
+function usedSheetNamesTracker(reserved: string[]) {
+  const used = new Map<string, number>(reserved.map((n) => [n, 1]))
+  return (base: string) => {
+    const s = sanitizeExcelSheetName(base)
+    const n = (used.get(s) ?? 0) + 1
+    used.set(s, n)
+    return n === 1 ? s : sanitizeExcelSheetName(`${s.slice(0, 26)} (${n})`)
+  }
+}
+
+function boldHeader(sheet: ExcelJS.Worksheet) {
+  sheet.getRow(1).font = { bold: true }
+  sheet.views = [{ state: "frozen", ySplit: 1 }]
+}
+
+function writeClaimSheet(sheet: ExcelJS.Worksheet, row: PublisherRebateRow) {
+  sheet.columns = [
+    { header: "Month", key: "month", width: 12 },
+    { header: "Status", key: "status", width: 12 },
+    { header: "Media", key: "media", width: 16 },
+    { header: "Commission", key: "commission", width: 16 },
+    { header: "Cumulative media", key: "cumulative", width: 18 },
+    { header: "Rebate accrued (FY to month)", key: "accrued", width: 26 },
+    { header: "Rebate claimable (month)", key: "rebate", width: 24 },
+  ]
+  for (const m of row.months) {
+    sheet.addRow({
+      month: m.month,
+      status: m.status === "actual" ? "Billed" : "Projected",
+      media: m.media,
+      commission: m.commission,
+      cumulative: m.cumulative_media,
+      accrued: m.rebate_cumulative,
+      rebate: m.rebate,
+    })
+  }
+  const total = sheet.addRow({
+    month: "Total",
+    media: row.media_fy_projected,
+    commission: row.commission_fy_projected,
+    rebate: row.rebate_fy_projected,
+  })
+  total.font = { bold: true }
+  for (const col of ["media", "commission", "cumulative", "accrued", "rebate"] as const) {
+    sheet.getColumn(col).numFmt = MONEY_FMT
+  }
+  boldHeader(sheet)
+
+  sheet.addRow([])
+  sheet.addRow(["Agreement", row.agreement ? describeRebateAgreement(row.agreement) : "None"])
+  sheet.addRow(["Claimable to date", row.rebate_to_date]).getCell(2).numFmt = MONEY_FMT
+  if (row.next_tier) {
+    sheet
+      .addRow(["Next tier shortfall", row.next_tier.shortfall, `${row.next_tier.rate_pct}% from next threshold`])
+      .getCell(2).numFmt = MONEY_FMT
+  }
+}
+
+/**
+ * Rebate claim schedule: a summary sheet plus one month-by-month sheet per
+ * publisher. Pass `publisherRows` to export a single publisher's schedule.
+ */
+export async function exportRebateClaimWorkbook(
+  tracker: RebateTrackerResult,
+  filename: string,
+  publisherRows?: PublisherRebateRow[]
+) {
+  const rows = publisherRows ?? tracker.publishers
+  const ExcelJS = (await import("exceljs")).default
+  const workbook = new ExcelJS.Workbook()
+
+  const summary = workbook.addWorksheet("Summary")
+  summary.columns = [
+    { header: "Publisher", key: "publisher", width: 28 },
+    { header: "Agreement", key: "agreement", width: 40 },
+    { header: "Commission to date", key: "commToDate", width: 18 },
+    { header: "Commission FY (projected)", key: "commFy", width: 22 },
+    { header: "Media to date", key: "mediaToDate", width: 16 },
+    { header: "Media FY (projected)", key: "mediaFy", width: 20 },
+    { header: "Rebate to date", key: "rebateToDate", width: 16 },
+    { header: "Rebate FY (projected)", key: "rebateFy", width: 20 },
+    { header: "Next tier shortfall", key: "shortfall", width: 18 },
+  ]
+  for (const r of rows) {
+    summary.addRow({
+      publisher: r.publisher_name,
+      agreement: r.agreement ? describeRebateAgreement(r.agreement) : "",
+      commToDate: r.commission_to_date,
+      commFy: r.commission_fy_projected,
+      mediaToDate: r.media_to_date,
+      mediaFy: r.media_fy_projected,
+      rebateToDate: r.rebate_to_date,
+      rebateFy: r.rebate_fy_projected,
+      shortfall: r.next_tier?.shortfall ?? null,
+    })
+  }
+  for (const col of ["commToDate", "commFy", "mediaToDate", "mediaFy", "rebateToDate", "rebateFy", "shortfall"] as const) {
+    summary.getColumn(col).numFmt = MONEY_FMT
+  }
+  boldHeader(summary)
+
+  const nextName = usedSheetNamesTracker(["Summary"])
+  for (const r of rows) {
+    writeClaimSheet(workbook.addWorksheet(nextName(r.publisher_name)), r)
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer()
+  const blob = new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" })
+  saveAs(blob, filename)
+}
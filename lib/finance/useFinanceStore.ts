@@ -5,6 +5,7 @@ import type {
   BillingRecord,
   FinanceFilters,
 } from "@/lib/types/financeBilling"
+import type { FinanceForecastScenario } from "@/lib/types/financeForecast"
 import { fetchBillingRecords, fetchPayablesRecords, FinanceHttpError } from "@/lib/finance/api"
 import { getCurrentBillingMonth, australianFyStartYearForDate } from "@/lib/finance/months"
 import { expandMonthRange } from "@/lib/finance/monthRange"
@@ -15,6 +16,7 @@ export type FinanceHubTab =
   | "payables"
   | "accrual"
   | "forecast"
+  | "rebates"
   | "report"
   | "queue"
 
@@ -33,6 +35,7 @@ const HUB_TABS: readonly FinanceHubTab[] = [
   "payables",
   "accrual",
   "forecast",
+  "rebates",
   "report",
   "queue",
 ]
@@ -142,6 +145,10 @@ function toHubFetchError(error: unknown, fallback: string): FinanceHubFetchError
 interface FinanceStore {
   filters: FinanceFilters
   activeTab: FinanceHubTab
+  /** Scenario picked on the forecast tab; the hub export uses the same one. */
+  forecastScenario: FinanceForecastScenario
+  /** Projection scenario picked on the rebates tab; the hub export uses the same one. */
+  rebatesScenario: FinanceForecastScenario
   billingRecords: BillingRecord[]
   billingLoading: boolean
   billingError: FinanceHubFetchError | null
@@ -157,6 +164,8 @@ interface FinanceStore {
   setPayablesRecords: (records: BillingRecord[]) => void
   setFilters: (partial: Partial<FinanceFilters>) => void
   setActiveTab: (tab: string) => void
+  setForecastScenario: (scenario: FinanceForecastScenario) => void
+  setRebatesScenario: (scenario: FinanceForecastScenario) => void
   fetchBilling: () => Promise<void>
   fetchPayables: () => Promise<void>
   fetchAll: () => Promise<void>
@@ -183,6 +192,8 @@ const defaultFilters: FinanceFilters = {
 export const useFinanceStore = create<FinanceStore>((set, get) => ({
   filters: defaultFilters,
   activeTab: "overview",
+  forecastScenario: "confirmed",
+  rebatesScenario: "confirmed_plus_probable",
   billingRecords: [],
   billingLoading: false,
   billingError: null,
@@ -200,6 +211,8 @@ export const useFinanceStore = create<FinanceStore>((set, get) => ({
   },
 
   setActiveTab: (tab) => set({ activeTab: normalizeHubTab(tab) }),
+  setForecastScenario: (scenario) => set({ forecastScenario: scenario }),
+  setRebatesScenario: (scenario) => set({ rebatesScenario: scenario }),
 
   refreshPendingDraftCount: async () => {
     try {
@@ -0,0 +1,149 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+
+import type { BillingLineItem, BillingRecord } from "../../../types/financeBilling.js"
+import {
+  billingRecordToXeroInvoice,
+  buildXeroInvoiceDrafts,
+  buildXeroInvoiceImportCsv,
+  buildXeroInvoicesApiPayload,
+  xeroInvoiceNumberForRecord,
+} from "../buildXeroInvoices.js"
+import { parseCsvRows, parseXeroInvoiceExportCsv, reconcileXeroInvoices } from "../reconcileXeroInvoices.js"
+
+function lineItem(p: Partial<BillingLineItem>): BillingLineItem {
+  return {
+    id: p.id ?? 1,
+    finance_billing_records_id: 10,
+    item_code: "G.TV",
+    line_type: "media",
+    media_type: "Television",
+    description: "Seven · Metro",
+    publisher_name: "Seven Network",
+    amount: 1000,
+    client_pays_media: false,
+    sort_order: 0,
+    ...p,
+  }
+}
+
+function record(p: Partial<BillingRecord> = {}): BillingRecord {
+  return {
+    id: 10,
+    billing_type: "media",
+    clients_id: 7,
+    client_name: "Acme Pty Ltd",
+    mba_number: "MBA-100",
+    campaign_name: "Spring",
+    po_number: "PO-9",
+    billing_month: "2026-03",
+    invoice_date: null,
+    payment_days: 14,
+    payment_terms: "EOM",
+    status: "approved",
+    line_items: [
+      lineItem({ id: 1, amount: 1000 }),
+      lineItem({ id: 2, amount: 500, client_pays_media: true }),
+      lineItem({ id: 3, line_type: "fee", media_type: null, description: "Service fee", amount: 100.05, sort_order: 1 }),
+    ],
+    total: 1600.05,
+    has_pending_edits: false,
+    source_billing_schedule_id: null,
+    ...p,
+  }
+}
+
+test("xeroInvoiceNumberForRecord is the record's invoice key", () => {
+  assert.equal(xeroInvoiceNumberForRecord(record()), "media:MBA-100:2026-03")
+  assert.equal(xeroInvoiceNumberForRecord(record({ billing_type: "sow" })), "sow:MBA-100:2026-03")
+  assert.equal(xeroInvoiceNumberForRecord(record({ billing_type: "retainer" })), "retainer:7:2026-03")
+  assert.equal(xeroInvoiceNumberForRecord(record({ mba_number: null })), "BR-10-202603")
+})
+
+test("billingRecordToXeroInvoice skips client-paid media and applies GST per line", () => {
+  const inv = billingRecordToXeroInvoice(record())
+  assert.ok(inv)
+  assert.equal(inv.lines.length, 2)
+  assert.equal(inv.subtotal, 1100.05)
+  assert.equal(inv.total_tax, 110.01)
+  assert.equal(inv.total, 1210.06)
+  assert.equal(inv.invoice_date, "2026-03-31")
+  assert.equal(inv.due_date, "2026-04-14")
+  assert.equal(inv.lines[1]?.account_code, "210")
+  assert.equal(inv.reference, "PO-9 · MBA-100 · Spring")
+})
+
+test("buildXeroInvoiceDrafts only exports ready statuses unless asked", () => {
+  const records = [record(), record({ id: 11, mba_number: "MBA-101", status: "invoiced" })]
+  assert.equal(buildXeroInvoiceDrafts(records).length, 1)
+  assert.equal(buildXeroInvoiceDrafts(records, { includeAllStatuses: true }).length, 2)
+})
+
+test("buildXeroInvoiceDrafts skips records already billed or exported", () => {
+  const records = [
+    record(),
+    record({ id: 11, mba_number: "MBA-101", billed: true }),
+    record({ id: 12, mba_number: "MBA-102", exported_at: Date.UTC(2026, 3, 2) }),
+  ]
+  assert.deepEqual(
+    buildXeroInvoiceDrafts(records).map((d) => d.billing_record_id),
+    [10]
+  )
+  assert.equal(buildXeroInvoiceDrafts(records, { includeAllStatuses: true }).length, 3)
+})
+
+test("import CSV has one row per line in AU date format", () => {
+  const csv = buildXeroInvoiceImportCsv(buildXeroInvoiceDrafts([record()]))
+  const rows = parseCsvRows(csv)
+  assert.equal(rows.length, 3)
+  assert.equal(rows[0]?.[0], "*ContactName")
+  assert.equal(rows[1]?.[4], "31/03/2026")
+  assert.equal(rows[1]?.[12], "OUTPUT")
+})
+
+test("API payload uses exclusive line amounts and draft status", () => {
+  const payload = buildXeroInvoicesApiPayload(buildXeroInvoiceDrafts([record()]))
+  const inv = payload.Invoices[0]
+  assert.ok(inv)
+  assert.equal(inv.Type, "ACCREC")
+  assert.equal(inv.Status, "DRAFT")
+  assert.equal(inv.LineAmountTypes, "Exclusive")
+  assert.deepEqual(inv.LineItems[0]?.Tracking, [{ Name: "Media Type", Option: "Television" }])
+})
+
+test("reconcile flags amount mismatches, missing and unknown invoices", () => {
+  const expected = buildXeroInvoiceDrafts(
+    [record(), record({ id: 11, mba_number: "MBA-101" }), record({ id: 12, mba_number: "MBA-102" })],
+    { includeAllStatuses: true }
+  )
+  const csv = [
+    "ContactName,InvoiceNumber,Reference,InvoiceDate,Total,Status",
+    "Acme Pty Ltd,media:MBA-100:2026-03,PO-9,31/03/2026,1210.06,AUTHORISED",
+    "Acme Pty Ltd,media:MBA-100:2026-03,PO-9,31/03/2026,1210.06,AUTHORISED",
+    '"Acme, Pty Ltd",media:MBA-101:2026-03,,31/03/2026,"1,300.00",PAID',
+    "Other Co,INV-0999,,01/03/2026,50,AUTHORISED",
+    "Other Co,INV-1000,,01/03/2026,50,VOIDED",
+  ].join("\n")
+  const parsed = parseXeroInvoiceExportCsv(csv)
+  assert.equal(parsed.invoices.length, 3)
+  assert.equal(parsed.invoices[0]?.row_count, 2)
+
+  const report = reconcileXeroInvoices(expected, parsed.invoices, { warnings: parsed.warnings })
+  assert.equal(report.counts.matched, 1)
+  assert.equal(report.counts.amount_mismatch, 1)
+  assert.equal(report.counts.missing_in_xero, 1)
+  assert.equal(report.counts.not_in_app, 1)
+  assert.equal(report.rows[0]?.status, "amount_mismatch")
+  assert.equal(report.rows[0]?.delta, 89.94)
+  assert.equal(report.warnings.length, 1)
+})
+
+test("parseXeroInvoiceExportCsv sums lines when there is no Total column", () => {
+  const csv = [
+    "*ContactName,*InvoiceNumber,*Quantity,*UnitAmount,TaxAmount",
+    "Acme,INV-1,1,100,10",
+    "Acme,INV-1,2,50,10",
+  ].join("\r\n")
+  const { invoices } = parseXeroInvoiceExportCsv(csv)
+  assert.equal(invoices[0]?.total, 220)
+})
@@ -0,0 +1,261 @@
+/**
+ * Turn finance billing records into Xero sales invoices (ACCREC).
+ *
+ * Two output shapes from the same normalised draft:
+ * - `buildXeroInvoiceImportCsv` — Xero "Import invoices" CSV (one row per line item).
+ * - `buildXeroInvoicesApiPayload` — body for `POST /api.xro/2.0/Invoices`.
+ *
+ * Amounts on billing records are ex GST; GST is applied per line via `lib/finance/gst.ts`
+ * and lines are sent with `LineAmountTypes: "Exclusive"`. Lines where the client pays the
+ * publisher directly are not invoiced by the agency and are skipped. Internal `item_code`s are
+ * not Xero inventory items, so they are never sent as `ItemCode`.
+ */
+
+import { addDays, endOfMonth, format, isValid, parseISO } from "date-fns"
+
+import { formatLineItemDescription } from "@/lib/finance/lineItemDescription"
+import { gstAmount, round2 } from "@/lib/finance/gst"
+import { composeInvoiceKey } from "@/lib/finance/overlayFinanceStatus"
+import type { BillingLineItem, BillingRecord } from "@/lib/types/financeBilling"
+import type {
+  XeroAccountCodeMap,
+  XeroInvoiceDraft,
+  XeroInvoiceDraftLine,
+  XeroInvoicesApiPayload,
+} from "@/lib/finance/xero/types"
+
+/** Xero tax type for "GST on Income" (10%). */
+export const XERO_TAX_TYPE_GST_ON_INCOME = "OUTPUT"
+
+/** Default revenue account codes per billing line type — override per org via `accountCodes`. */
+export const DEFAULT_XERO_ACCOUNT_CODES: XeroAccountCodeMap = {
+  media: "200",
+  service: "210",
+  fee: "210",
+  retainer: "220",
+}
+
+/**
+ * Statuses that are ready to raise in Xero (approved, not yet invoiced). Records
+ * already marked billed or exported are skipped too — see {@link isXeroExportable}.
+ */
+export const XERO_EXPORTABLE_STATUSES: ReadonlySet<BillingRecord["status"]> = new Set(["approved", "booked"])
+
+export type BuildXeroInvoiceOptions = {
+  accountCodes?: Partial<XeroAccountCodeMap>
+  /** Fallback invoice date when the record has none; defaults to the billing month's last day. */
+  invoiceDate?: Date
+  currency?: string
+}
+
+function compactMonth(billingMonth: string): string {
+  return billingMonth.replace(/[^0-9]/g, "").slice(0, 6)
+}
+
+/**
+ * Xero invoice number for a billing record: its invoice_key (see
+ * `composeInvoiceKey`), so Xero, finance_billing_records and reconciliation share
+ * one identifier. Records that cannot be keyed fall back to `BR-<id>-<YYYYMM>`.
+ */
+export function xeroInvoiceNumberForRecord(
+  record: Pick<BillingRecord, "billing_type" | "mba_number" | "clients_id" | "campaign_name" | "billing_month" | "id">
+): string {
+  return (
+    composeInvoiceKey(
+      record.billing_type,
+      record.clients_id,
+      record.mba_number,
+      record.campaign_name,
+      record.billing_month
+    ) ?? `BR-${record.id}-${compactMonth(record.billing_month)}`
+  )
+}
+
+/** Ready to raise: an exportable status, not yet marked billed and not exported before. */
+export function isXeroExportable(record: Pick<BillingRecord, "status" | "billed" | "exported_at">): boolean {
+  return XERO_EXPORTABLE_STATUSES.has(record.status) && record.billed !== true && record.exported_at == null
+}
+
+function resolveInvoiceDate(record: BillingRecord, fallback?: Date): Date {
+  if (record.invoice_date) {
+    const d = parseISO(record.invoice_date)
+    if (isValid(d)) return d
+  }
+  if (fallback) return fallback
+  const monthStart = parseISO(`${record.billing_month.slice(0, 7)}-01`)
+  return isValid(monthStart) ? endOfMonth(monthStart) : new Date()
+}
+
+function lineDescription(li: BillingLineItem): string {
+  const { primary, channelLabel } = formatLineItemDescription(li)
+  const base = primary || li.description || li.publisher_name || li.item_code || "Media"
+  return channelLabel && !base.startsWith(channelLabel) ? `${channelLabel} · ${base}` : base
+}
+
+function draftLine(li: BillingLineItem, codes: XeroAccountCodeMap): XeroInvoiceDraftLine {
+  const amount = round2(Number(li.amount) || 0)
+  return {
+    source_line_item_id: li.id,
+    description: lineDescription(li),
+    quantity: 1,
+    unit_amount: amount,
+    account_code: codes[li.line_type] ?? codes.media,
+    tax_type: XERO_TAX_TYPE_GST_ON_INCOME,
+    tax_amount: gstAmount(amount),
+    tracking_media_type: li.media_type ?? null,
+  }
+}
+
+/** Normalise one billing record to a Xero invoice draft; `null` when nothing is invoiceable. */
+export function billingRecordToXeroInvoice(
+  record: BillingRecord,
+  options?: BuildXeroInvoiceOptions
+): XeroInvoiceDraft | null {
+  const codes: XeroAccountCodeMap = { ...DEFAULT_XERO_ACCOUNT_CODES, ...options?.accountCodes }
+  const lines = (record.line_items ?? [])
+    .filter((li) => !li.client_pays_media)
+    .filter((li) => Math.abs(Number(li.amount) || 0) > 0.004)
+    .sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0))
+    .map((li) => draftLine(li, codes))
+  if (lines.length === 0) return null
+
+  const invoiceDate = resolveInvoiceDate(record, options?.invoiceDate)
+  const paymentDays = Number.isFinite(record.payment_days) && record.payment_days > 0 ? record.payment_days : 30
+  const subtotal = round2(lines.reduce((t, l) => t + l.unit_amount * l.quantity, 0))
+  // Xero rounds tax per line, so sum line GST rather than taxing the subtotal.
+  const totalTax = round2(lines.reduce((t, l) => t + l.tax_amount, 0))
+  const reference = [record.po_number?.trim(), record.mba_number?.trim(), record.campaign_name?.trim()]
+    .filter(Boolean)
+    .join(" · ")
+
+  return {
+    billing_record_id: record.id,
+    invoice_key: record.invoice_key ?? null,
+    contact_name: record.client_name,
+    invoice_number: xeroInvoiceNumberForRecord(record),
+    reference,
+    invoice_date: format(invoiceDate, "yyyy-MM-dd"),
+    due_date: format(addDays(invoiceDate, paymentDays), "yyyy-MM-dd"),
+    currency: options?.currency ?? "AUD",
+    lines,
+    subtotal,
+    total_tax: totalTax,
+    total: round2(subtotal + totalTax),
+  }
+}
+
+/** Batch helper: only exportable records, skips records with no invoiceable lines. */
+export function buildXeroInvoiceDrafts(
+  records: ReadonlyArray<BillingRecord>,
+  options?: BuildXeroInvoiceOptions & { includeAllStatuses?: boolean }
+): XeroInvoiceDraft[] {
+  const out: XeroInvoiceDraft[] = []
+  for (const record of records) {
+    if (record.billing_type === "payable") continue
+    if (!options?.includeAllStatuses && !isXeroExportable(record)) continue
+    const draft = billingRecordToXeroInvoice(record, options)
+    if (draft) out.push(draft)
+  }
+  return out.sort((a, b) => a.invoice_number.localeCompare(b.invoice_number))
+}
+
+// ---------------------------------------------------------------------------
+// Xero import CSV
+// ---------------------------------------------------------------------------
+
+/** Column order from Xero's sales invoice import template (`*` = required by Xero). */
+export const XERO_INVOICE_IMPORT_COLUMNS = [
+  "*ContactName",
+  "EmailAddress",
+  "*InvoiceNumber",
+  "Reference",
+  "*InvoiceDate",
+  "*DueDate",
+  "InventoryItemCode",
+  "*Description",
+  "*Quantity",
+  "*UnitAmount",
+  "Discount",
+  "*AccountCode",
+  "*TaxType",
+  "TaxAmount",
+  "TrackingName1",
+  "TrackingOption1",
+  "Currency",
+] as const
+
+function csvEscapeCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return ""
+  if (typeof value === "number") return Number.isFinite(value) ? String(value) : ""
+  const s = String(value)
+  if (/[,"\n\r]/.test(s)) return `"${s.replace(/"/g, '""')}"`
+  return s
+}
+
+/** Xero AU orgs import dates as dd/MM/yyyy. */
+function xeroCsvDate(isoDate: string): string {
+  const d = parseISO(isoDate)
+  return isValid(d) ? format(d, "dd/MM/yyyy") : isoDate
+}
+
+export function buildXeroInvoiceImportCsv(invoices: ReadonlyArray<XeroInvoiceDraft>): string {
+  const rows: string[] = [XERO_INVOICE_IMPORT_COLUMNS.join(",")]
+  for (const inv of invoices) {
+    for (const line of inv.lines) {
+      const cells: Array<string | number | null> = [
+        inv.contact_name,
+        null,
+        inv.invoice_number,
+        inv.reference,
+        xeroCsvDate(inv.invoice_date),
+        xeroCsvDate(inv.due_date),
+        null,
+        line.description,
+        line.quantity,
+        line.unit_amount,
+        null,
+        line.account_code,
+        line.tax_type,
+        line.tax_amount,
+        line.tracking_media_type ? "Media Type" : null,
+        line.tracking_media_type,
+        inv.currency,
+      ]
+      rows.push(cells.map(csvEscapeCell).join(","))
+    }
+  }
+  return rows.join("\r\n")
+}
+
+// ---------------------------------------------------------------------------
+// Xero Accounting API payload
+// ---------------------------------------------------------------------------
+
+export function buildXeroInvoicesApiPayload(
+  invoices: ReadonlyArray<XeroInvoiceDraft>,
+  options?: { status?: "DRAFT" | "SUBMITTED" | "AUTHORISED" }
+): XeroInvoicesApiPayload {
+  return {
+    Invoices: invoices.map((inv) => ({
+      Type: "ACCREC",
+      Contact: { Name: inv.contact_name },
+      InvoiceNumber: inv.invoice_number,
+      Reference: inv.reference || undefined,
+      Date: inv.invoice_date,
+      DueDate: inv.due_date,
+      CurrencyCode: inv.currency,
+      Status: options?.status ?? "DRAFT",
+      LineAmountTypes: "Exclusive",
+      LineItems: inv.lines.map((line) => ({
+        Description: line.description,
+        Quantity: line.quantity,
+        UnitAmount: line.unit_amount,
+        AccountCode: line.account_code,
+        TaxType: line.tax_type,
+        ...(line.tracking_media_type
+          ? { Tracking: [{ Name: "Media Type", Option: line.tracking_media_type }] }
+          : {}),
+      })),
+    })),
+  }
+}
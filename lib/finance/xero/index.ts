@@ -0,0 +1,30 @@
+export {
+  billingRecordToXeroInvoice,
+  buildXeroInvoiceDrafts,
+  buildXeroInvoiceImportCsv,
+  buildXeroInvoicesApiPayload,
+  DEFAULT_XERO_ACCOUNT_CODES,
+  isXeroExportable,
+  XERO_EXPORTABLE_STATUSES,
+  XERO_INVOICE_IMPORT_COLUMNS,
+  XERO_TAX_TYPE_GST_ON_INCOME,
+  xeroInvoiceNumberForRecord,
+  type BuildXeroInvoiceOptions,
+} from "./buildXeroInvoices"
+export {
+  parseCsvRows,
+  parseXeroInvoiceExportCsv,
+  reconcileXeroInvoices,
+  XERO_RECONCILE_AMOUNT_EPSILON,
+} from "./reconcileXeroInvoices"
+export type {
+  XeroAccountCodeMap,
+  XeroApiInvoice,
+  XeroExportedInvoice,
+  XeroInvoiceDraft,
+  XeroInvoiceDraftLine,
+  XeroInvoicesApiPayload,
+  XeroReconciliationReport,
+  XeroReconciliationRow,
+  XeroReconciliationStatus,
+} from "./types"
@@ -0,0 +1,260 @@
+/**
+ * Read a Xero sales invoice export back in and match it to what the app expects to bill.
+ * Pure — the caller supplies file text and the expected drafts (`buildXeroInvoiceDrafts`).
+ */
+
+import { isValid, parse, parseISO, format } from "date-fns"
+
+import { round2 } from "@/lib/finance/gst"
+import type {
+  XeroExportedInvoice,
+  XeroInvoiceDraft,
+  XeroReconciliationReport,
+  XeroReconciliationRow,
+  XeroReconciliationStatus,
+} from "@/lib/finance/xero/types"
+
+/** Amount tolerance (AUD) before a total is flagged as a mismatch. */
+export const XERO_RECONCILE_AMOUNT_EPSILON = 0.01
+
+/** Xero statuses that mean the invoice no longer exists for reconciliation purposes. */
+const IGNORED_XERO_STATUSES = new Set(["VOIDED", "DELETED"])
+
+/** Minimal RFC 4180 parser (quoted cells, escaped quotes, CRLF). */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let quoted = false
+  const src = text.replace(/^\uFEFF/, "")
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i]!
+    if (quoted) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          cell += '"'
+          i++
+        } else {
+          quoted = false
+        }
+      } else {
+        cell += ch
+      }
+      continue
+    }
+    if (ch === '"') quoted = true
+    else if (ch === ",") {
+      row.push(cell)
+      cell = ""
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ""
+    } else {
+      cell += ch
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""))
+}
+
+function headerKey(h: string): string {
+  return h.replace(/^\*/, "").replace(/[\s_]/g, "").toLowerCase()
+}
+
+function money(raw: string | undefined): number | null {
+  if (raw == null) return null
+  const cleaned = raw.replace(/[$,\s]/g, "").replace(/^\((.*)\)$/, "-$1")
+  if (!cleaned) return null
+  const n = Number(cleaned)
+  return Number.isFinite(n) ? n : null
+}
+
+function isoDate(raw: string | undefined): string | null {
+  const t = raw?.trim()
+  if (!t) return null
+  for (const pattern of ["dd/MM/yyyy", "d/M/yyyy", "yyyy-MM-dd", "d MMM yyyy"]) {
+    const d = parse(t, pattern, new Date())
+    if (isValid(d)) return format(d, "yyyy-MM-dd")
+  }
+  const d = parseISO(t)
+  return isValid(d) ? format(d, "yyyy-MM-dd") : null
+}
+
+/**
+ * Collapse a Xero invoice export (one row per line) into one record per invoice number.
+ * Uses the invoice-level `Total` column when present; otherwise sums line amounts + tax.
+ */
+export function parseXeroInvoiceExportCsv(text: string): {
+  invoices: XeroExportedInvoice[]
+  warnings: string[]
+} {
+  const warnings: string[] = []
+  const rows = parseCsvRows(text)
+  const header = rows[0]
+  if (!header) return { invoices: [], warnings: ["File is empty."] }
+
+  const idx = new Map<string, number>()
+  header.forEach((h, i) => idx.set(headerKey(h), i))
+  const col = (r: string[], key: string) => {
+    const i = idx.get(key)
+    return i === undefined ? undefined : r[i]
+  }
+  if (!idx.has("invoicenumber")) {
+    return { invoices: [], warnings: ["No InvoiceNumber column — is this a Xero invoice export?"] }
+  }
+  const hasTotal = idx.has("total")
+
+  const byNumber = new Map<string, XeroExportedInvoice & { line_sum: number }>()
+  let blank = 0
+  let ignored = 0
+  for (const r of rows.slice(1)) {
+    const invoiceNumber = (col(r, "invoicenumber") ?? "").trim()
+    if (!invoiceNumber) {
+      blank++
+      continue
+    }
+    const status = (col(r, "status") ?? "").trim().toUpperCase() || null
+    if (status && IGNORED_XERO_STATUSES.has(status)) {
+      ignored++
+      continue
+    }
+
+    const lineAmount =
+      money(col(r, "lineamount")) ?? (money(col(r, "unitamount")) ?? 0) * (money(col(r, "quantity")) ?? 1)
+    const lineTotal = lineAmount + (money(col(r, "taxamount")) ?? 0)
+
+    const existing = byNumber.get(invoiceNumber)
+    if (existing) {
+      existing.row_count++
+      existing.line_sum += lineTotal
+      continue
+    }
+    byNumber.set(invoiceNumber, {
+      invoice_number: invoiceNumber,
+      contact_name: (col(r, "contactname") ?? "").trim(),
+      reference: (col(r, "reference") ?? "").trim() || null,
+      invoice_date: isoDate(col(r, "invoicedate")),
+      status,
+      total: hasTotal ? money(col(r, "total")) ?? 0 : 0,
+      row_count: 1,
+      line_sum: lineTotal,
+    })
+  }
+
+  if (blank) warnings.push(`${blank} row(s) without an invoice number were skipped.`)
+  if (ignored) warnings.push(`${ignored} row(s) on voided or deleted invoices were skipped.`)
+
+  const invoices = [...byNumber.values()].map(({ line_sum, ...inv }) => ({
+    ...inv,
+    total: round2(hasTotal ? inv.total : line_sum),
+  }))
+  return { invoices, warnings }
+}
+
+function normaliseInvoiceNumber(n: string): string {
+  return n.trim().toUpperCase()
+}
+
+function normaliseName(n: string | null | undefined): string {
+  return String(n ?? "")
+    .toLowerCase()
+    .replace(/\b(pty|ltd|limited|inc)\b/g, "")
+    .replace(/[^a-z0-9]/g, "")
+}
+
+/**
+ * Match expected invoices to Xero by invoice number. Amounts compare inc GST.
+ * Order: problems first (mismatch → missing → not in app), then matched.
+ */
+export function reconcileXeroInvoices(
+  expected: ReadonlyArray<XeroInvoiceDraft>,
+  xero: ReadonlyArray<XeroExportedInvoice>,
+  options?: { amountEpsilon?: number; warnings?: string[] }
+): XeroReconciliationReport {
+  const eps = options?.amountEpsilon ?? XERO_RECONCILE_AMOUNT_EPSILON
+  const xeroByNumber = new Map<string, XeroExportedInvoice>()
+  for (const inv of xero) xeroByNumber.set(normaliseInvoiceNumber(inv.invoice_number), inv)
+
+  const rows: XeroReconciliationRow[] = []
+  const seen = new Set<string>()
+
+  for (const draft of expected) {
+    const key = normaliseInvoiceNumber(draft.invoice_number)
+    seen.add(key)
+    const hit = xeroByNumber.get(key)
+    if (!hit) {
+      rows.push({
+        status: "missing_in_xero",
+        invoice_number: draft.invoice_number,
+        billing_record_id: draft.billing_record_id,
+        client_name: draft.contact_name,
+        xero_contact_name: null,
+        expected_total: draft.total,
+        xero_total: null,
+        delta: null,
+        xero_status: null,
+      })
+      continue
+    }
+    const delta = round2(hit.total - draft.total)
+    const status: XeroReconciliationStatus =
+      Math.abs(delta) > eps
+        ? "amount_mismatch"
+        : normaliseName(hit.contact_name) !== normaliseName(draft.contact_name)
+          ? "contact_mismatch"
+          : "matched"
+    rows.push({
+      status,
+      invoice_number: draft.invoice_number,
+      billing_record_id: draft.billing_record_id,
+      client_name: draft.contact_name,
+      xero_contact_name: hit.contact_name,
+      expected_total: draft.total,
+      xero_total: hit.total,
+      delta,
+      xero_status: hit.status,
+    })
+  }
+
+  for (const inv of xero) {
+    if (seen.has(normaliseInvoiceNumber(inv.invoice_number))) continue
+    rows.push({
+      status: "not_in_app",
+      invoice_number: inv.invoice_number,
+      billing_record_id: null,
+      client_name: null,
+      xero_contact_name: inv.contact_name,
+      expected_total: null,
+      xero_total: inv.total,
+      delta: null,
+      xero_status: inv.status,
+    })
+  }
+
+  const rank: Record<XeroReconciliationStatus, number> = {
+    amount_mismatch: 0,
+    contact_mismatch: 1,
+    missing_in_xero: 2,
+    not_in_app: 3,
+    matched: 4,
+  }
+  rows.sort((a, b) => rank[a.status] - rank[b.status] || a.invoice_number.localeCompare(b.invoice_number))
+
+  const counts: Record<XeroReconciliationStatus, number> = {
+    matched: 0,
+    amount_mismatch: 0,
+    contact_mismatch: 0,
+    missing_in_xero: 0,
+    not_in_app: 0,
+  }
+  for (const r of rows) counts[r.status]++
+
+  return { rows, counts, warnings: options?.warnings ?? [] }
+}
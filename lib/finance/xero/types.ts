@@ -0,0 +1,106 @@
+import type { BillingLineItem } from "@/lib/types/financeBilling"
+
+/** Revenue account code per billing line type. */
+export type XeroAccountCodeMap = Record<BillingLineItem["line_type"], string>
+
+export interface XeroInvoiceDraftLine {
+  source_line_item_id: number
+  description: string
+  quantity: number
+  /** Ex GST. */
+  unit_amount: number
+  account_code: string
+  tax_type: string
+  tax_amount: number
+  /** Optional tracking category option ("Media Type"). */
+  tracking_media_type: string | null
+}
+
+/** Normalised invoice before it is rendered to CSV or the API payload. */
+export interface XeroInvoiceDraft {
+  billing_record_id: number
+  invoice_key: string | null
+  contact_name: string
+  invoice_number: string
+  reference: string
+  /** ISO `yyyy-MM-dd`. */
+  invoice_date: string
+  /** ISO `yyyy-MM-dd`. */
+  due_date: string
+  currency: string
+  lines: XeroInvoiceDraftLine[]
+  subtotal: number
+  total_tax: number
+  /** Inc GST. */
+  total: number
+}
+
+/** Subset of Xero Accounting API `Invoice` used for bulk create. */
+export interface XeroApiInvoice {
+  Type: "ACCREC"
+  Contact: { Name: string }
+  InvoiceNumber: string
+  Reference?: string
+  Date: string
+  DueDate: string
+  CurrencyCode: string
+  Status: "DRAFT" | "SUBMITTED" | "AUTHORISED"
+  LineAmountTypes: "Exclusive"
+  LineItems: Array<{
+    Description: string
+    Quantity: number
+    UnitAmount: number
+    AccountCode: string
+    TaxType: string
+    Tracking?: Array<{ Name: string; Option: string }>
+  }>
+}
+
+export interface XeroInvoicesApiPayload {
+  Invoices: XeroApiInvoice[]
+}
+
+// ---------------------------------------------------------------------------
+// Reconciliation
+// ---------------------------------------------------------------------------
+
+/** One invoice as read back from a Xero export (lines already collapsed). */
+export interface XeroExportedInvoice {
+  invoice_number: string
+  contact_name: string
+  reference: string | null
+  invoice_date: string | null
+  status: string | null
+  /** Inc GST. */
+  total: number
+  /** How many rows in the file carried this invoice number. */
+  row_count: number
+}
+
+export type XeroReconciliationStatus =
+  | "matched"
+  | "amount_mismatch"
+  | "contact_mismatch"
+  | "missing_in_xero"
+  | "not_in_app"
+
+export interface XeroReconciliationRow {
+  status: XeroReconciliationStatus
+  invoice_number: string
+  billing_record_id: number | null
+  client_name: string | null
+  xero_contact_name: string | null
+  /** Inc GST as the app would raise it. */
+  expected_total: number | null
+  xero_total: number | null
+  /** `xero_total - expected_total` when both present. */
+  delta: number | null
+  xero_status: string | null
+}
+
+export interface XeroReconciliationReport {
+  rows: XeroReconciliationRow[]
+  counts: Record<XeroReconciliationStatus, number>
+  /** Non-fatal parse problems (unknown columns, blank invoice numbers…). */
+  warnings: string[]
+}
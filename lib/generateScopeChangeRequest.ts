@@ -0,0 +1,183 @@
+// /lib/generateScopeChangeRequest.ts
+
+import { jsPDF } from "jspdf";
+import { formatAUD } from "./format/money";
+import { getImageBase64 } from "./generateScopeOfWork";
+import { changeRequestTotal, type ScopeChangeRequest } from "./scopes/changeRequests";
+import type { ScopeBurnDown } from "./scopes/timeTracking";
+
+export interface ScopeChangeRequestDocumentData {
+  client_name: string;
+  project_name: string;
+  scope_id: string;
+  scope_version: number | string;
+  changeRequest: ScopeChangeRequest;
+  burn: ScopeBurnDown;
+}
+
+/**
+ * Change-request PDF: why the scope needs re-quoting, where the time has gone
+ * against the original quote, and the additional cost for client approval.
+ */
+export async function generateScopeChangeRequest(data: ScopeChangeRequestDocumentData): Promise<Blob> {
+  const logoBase64 = await getImageBase64('/assembled-logo.png');
+
+  const doc = new jsPDF({
+    orientation: 'p',
+    unit: 'mm',
+    format: 'a4',
+  });
+
+  const margin = {
+    top: 25,
+    left: 20,
+    right: 20,
+    bottom: 20,
+  };
+  const pageW = doc.internal.pageSize.getWidth() - margin.left - margin.right;
+  let y = margin.top;
+  const lineHeight = 5;
+
+  const addLogo = () => {
+    if (!logoBase64) return;
+    const logoWidth = 45;
+    const logoHeight = 9;
+    const logoX = doc.internal.pageSize.getWidth() - margin.right - logoWidth;
+    doc.addImage(logoBase64, 'PNG', logoX, margin.top - 15, logoWidth, logoHeight);
+  };
+
+  const checkNewPage = () => {
+    if (y > doc.internal.pageSize.getHeight() - margin.bottom - 20) {
+      doc.addPage();
+      y = margin.top;
+      addLogo();
+    }
+  };
+
+  const heading = (text: string) => {
+    checkNewPage();
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(10);
+    doc.text(text, margin.left, y);
+    y += lineHeight * 1.5;
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+  };
+
+  const rule = () => {
+    y += 2;
+    doc.setDrawColor(0);
+    doc.line(margin.left, y, margin.left + pageW, y);
+    y += lineHeight;
+  };
+
+  addLogo();
+
+  const { changeRequest, burn } = data;
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(11);
+  doc.text("SCOPE CHANGE REQUEST", margin.left, y);
+  y += lineHeight * 1.5;
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  doc.text(`Change request: ${changeRequest.number}`, margin.left, y);
+  y += lineHeight;
+  doc.text(`Date: ${changeRequest.created_at}`, margin.left, y);
+  y += lineHeight;
+  doc.text(`Client: ${data.client_name}`, margin.left, y);
+  y += lineHeight;
+  doc.text(`Project: ${data.project_name} (scope ${data.scope_id}, version ${data.scope_version})`, margin.left, y);
+  y += lineHeight * 2;
+
+  heading("Reason for Change");
+  splitLines(doc, changeRequest.reason, pageW).forEach((line) => {
+    checkNewPage();
+    doc.text(line, margin.left, y);
+    y += lineHeight;
+  });
+  y += lineHeight;
+
+  // Burn-down against the original quote
+  heading("Consumption to Date");
+  doc.setFont("helvetica", "bold");
+  doc.text("Expense Category", margin.left, y);
+  doc.text("Hours", margin.left + pageW - 75, y, { align: 'right' });
+  doc.text("Quoted", margin.left + pageW - 50, y, { align: 'right' });
+  doc.text("Consumed", margin.left + pageW - 20, y, { align: 'right' });
+  doc.text("Used", margin.left + pageW, y, { align: 'right' });
+  rule();
+
+  doc.setFont("helvetica", "normal");
+  [...burn.categories, burn.total].forEach((row, idx, rows) => {
+    checkNewPage();
+    if (idx === rows.length - 1) doc.setFont("helvetica", "bold");
+    doc.text(splitLines(doc, row.category, pageW - 95)[0] ?? "", margin.left, y);
+    doc.text(`${row.hours} / ${row.quotedHours}`, margin.left + pageW - 75, y, { align: 'right' });
+    doc.text(formatAUD(row.quoted), margin.left + pageW - 50, y, { align: 'right' });
+    doc.text(formatAUD(row.consumed), margin.left + pageW - 20, y, { align: 'right' });
+    doc.text(Number.isFinite(row.consumedPct) ? `${Math.round(row.consumedPct)}%` : "Unquoted", margin.left + pageW, y, { align: 'right' });
+    y += lineHeight;
+  });
+  doc.setFont("helvetica", "normal");
+  y += lineHeight;
+
+  // Requested additions
+  heading("Requested Additional Cost");
+  doc.setFont("helvetica", "bold");
+  doc.text("Expense Category", margin.left, y);
+  doc.text("Description", margin.left + 50, y);
+  doc.text("Cost", margin.left + pageW, y, { align: 'right' });
+  rule();
+
+  doc.setFont("helvetica", "normal");
+  changeRequest.lines.forEach((line) => {
+    checkNewPage();
+    const categoryLines = splitLines(doc, line.expense_category, 45);
+    const descLines = splitLines(doc, line.description, 80);
+    const maxLines = Math.max(categoryLines.length, descLines.length, 1);
+    for (let i = 0; i < maxLines; i++) {
+      if (i > 0) checkNewPage();
+      doc.text(categoryLines[i] || "", margin.left, y);
+      doc.text(descLines[i] || "", margin.left + 50, y);
+      if (i === 0) doc.text(formatAUD(line.amount), margin.left + pageW, y, { align: 'right' });
+      y += lineHeight;
+    }
+  });
+
+  y += lineHeight;
+  checkNewPage();
+  const additional = changeRequestTotal(changeRequest);
+  doc.line(margin.left, y, margin.left + pageW, y);
+  y += lineHeight;
+  doc.setFont("helvetica", "bold");
+  doc.text("ADDITIONAL (EX GST):", margin.left + (pageW / 2), y, { align: 'right' });
+  doc.text(formatAUD(additional), margin.left + pageW, y, { align: 'right' });
+  y += lineHeight;
+  doc.text("REVISED SCOPE TOTAL (EX GST):", margin.left + (pageW / 2), y, { align: 'right' });
+  doc.text(formatAUD(burn.total.quoted + additional), margin.left + pageW, y, { align: 'right' });
+  y += lineHeight * 2;
+
+  if (changeRequest.billing_month) {
+    doc.setFont("helvetica", "normal");
+    const [year, month] = changeRequest.billing_month.split('-').map(Number);
+    const monthName = new Date(year, month - 1, 1).toLocaleString('en-US', { month: 'long' });
+    doc.text(`To be invoiced: ${monthName} ${year}`, margin.left, y);
+    y += lineHeight * 2;
+  }
+
+  heading("Client Approval");
+  ['Name:', 'Position:', 'Signature:', 'Date:'].forEach(label => {
+    checkNewPage();
+    doc.text(label, margin.left, y);
+    doc.line(margin.left + 25, y, margin.left + pageW, y);
+    y += lineHeight * 2;
+  });
+
+  return doc.output('blob');
+}
+
+function splitLines(doc: jsPDF, text: string, maxWidth: number): string[] {
+  return doc.splitTextToSize(text || "", maxWidth);
+}
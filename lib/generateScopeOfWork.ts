@@ -35,7 +35,7 @@ export interface ScopeOfWorkData {
 
 // Helper to fetch the logo and convert it to a format jspdf can use
 // Works in both browser and Node.js environments
-const getImageBase64 = async (url: string) => {
+export const getImageBase64 = async (url: string) => {
     try {
         // Check if we're in a browser environment
         if (typeof window !== 'undefined') {
@@ -0,0 +1,192 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+import type { CodexTask } from "@/lib/codex/types"
+import {
+  financialYearsForMonths,
+  fiscalSlot,
+  monthsInRange,
+  rankTopRiskCampaigns,
+  summariseChannelMedia,
+  summariseForecastRevenue,
+  summariseTaskWorkload,
+} from "@/lib/management/managementOverview"
+import type { OverviewAttentionItem } from "@/lib/pacing/overview/types"
+import {
+  FINANCE_FORECAST_FISCAL_MONTH_ORDER,
+  type FinanceForecastDataset,
+  type FinanceForecastLineKey,
+  type FinanceForecastMonthlyAmounts,
+} from "@/lib/types/financeForecast"
+
+function monthly(values: Partial<FinanceForecastMonthlyAmounts>): FinanceForecastMonthlyAmounts {
+  const out = Object.fromEntries(FINANCE_FORECAST_FISCAL_MONTH_ORDER.map((k) => [k, 0])) as FinanceForecastMonthlyAmounts
+  return { ...out, ...values }
+}
+
+function dataset(
+  fy: number,
+  clients: Array<{
+    id: string
+    name: string
+    lines: Array<[FinanceForecastLineKey, Partial<FinanceForecastMonthlyAmounts>, string?]>
+  }>
+): FinanceForecastDataset {
+  return {
+    meta: { financial_year_start_year: fy, scenario: "confirmed" },
+    client_blocks: clients.map((c) => ({
+      client_id: c.id,
+      client_name: c.name,
+      groups: [
+        {
+          group_key: "revenue_client_publisher_fees_commission",
+          lines: c.lines.map(([line_key, values, mba_number]) => ({
+            client_id: c.id,
+            client_name: c.name,
+            mba_number: mba_number ?? null,
+            media_plan_version_id: null,
+            version_number: null,
+            scenario: "confirmed",
+            group_key: "revenue_client_publisher_fees_commission",
+            line_key,
+            monthly: monthly(values),
+            fy_total: 0,
+            source: { kind: "test" },
+          })),
+        },
+      ],
+    })),
+  }
+}
+
+test("monthsInRange / fiscalSlot span financial years", () => {
+  const months = monthsInRange("2025-05-20", "2025-08-01")
+  assert.deepEqual(months, ["2025-05", "2025-06", "2025-07", "2025-08"])
+  assert.deepEqual(fiscalSlot("2025-06"), { fyStartYear: 2024, monthKey: "june" })
+  assert.deepEqual(fiscalSlot("2025-07"), { fyStartYear: 2025, monthKey: "july" })
+  assert.deepEqual(financialYearsForMonths(months), [2024, 2025])
+})
+
+test("summariseForecastRevenue: past months read confirmed, later months the projection", () => {
+  const confirmed = dataset(2025, [
+    { id: "c1", name: "Acme", lines: [["total_revenue", { july: 100, august: 200 }], ["commission", { july: 40, august: 50 }]] },
+  ])
+  const projected = dataset(2025, [
+    { id: "c1", name: "Acme", lines: [["total_revenue", { july: 120, august: 260 }], ["commission", { july: 40, august: 60 }]] },
+    { id: "c2", name: "Beta", lines: [["total_revenue", { august: 500 }]] },
+  ])
+  const result = summariseForecastRevenue({
+    months: ["2025-07", "2025-08"],
+    asOfMonth: "2025-08",
+    datasets: { confirmed: new Map([[2025, confirmed]]), projected: new Map([[2025, projected]]) },
+    billingRecords: [],
+  })
+  assert.deepEqual(result.revenue_by_month, [
+    { month: "2025-07", status: "actual", billed: 0, forecast: 120 },
+    { month: "2025-08", status: "projected", billed: 0, forecast: 760 },
+  ])
+  // Acme: July confirmed (100 − 40) + August projected (260 − 60).
+  assert.deepEqual(
+    result.fee_income_by_client.map((c) => [c.client_name, c.fees, c.commission, c.revenue]),
+    [
+      ["Beta", 500, 0, 500],
+      ["Acme", 260, 100, 360],
+    ]
+  )
+})
+
+test("summariseForecastRevenue: billed revenue reads billed MBA months and SOW / retainer invoices", () => {
+  const confirmed = dataset(2025, [
+    {
+      id: "c1",
+      name: "Acme",
+      lines: [
+        ["commission", { july: 40, august: 50 }, "MBA-1"],
+        ["service_fee_digital", { july: 60, august: 150 }, "MBA-2"],
+        ["retainer", { july: 1_000, august: 1_000 }],
+        ["total_revenue", { july: 1_100, august: 1_200 }],
+      ],
+    },
+  ])
+  const result = summariseForecastRevenue({
+    months: ["2025-07", "2025-08", "2025-09"],
+    asOfMonth: "2025-08",
+    datasets: { confirmed: new Map([[2025, confirmed]]), projected: new Map([[2025, confirmed]]) },
+    billingRecords: [
+      { billing_type: "media", mba_number: "MBA-1", billing_month: "2025-07", billed: true, total: 9_999 },
+      { billing_type: "media", mba_number: "MBA-2", billing_month: "2025-07", billed: false, total: 9_999 },
+      { billing_type: "media", mba_number: "MBA-2", billing_month: "2025-08", billed: true, total: 9_999 },
+      { billing_type: "retainer", billing_month: "2025-07", billed: true, total: 1_000, billed_amount: 900 },
+      { billing_type: "sow", billing_month: "2025-08", billed: false, total: 500 },
+      { billing_type: "sow", billing_month: "2025-09", billed: true, total: 500 },
+    ],
+  })
+  // July: MBA-1 commission + retainer invoice as billed; August: MBA-2 fees only; September is ahead of as-of.
+  assert.deepEqual(
+    result.revenue_by_month.map((m) => [m.month, m.billed]),
+    [
+      ["2025-07", 940],
+      ["2025-08", 150],
+      ["2025-09", null],
+    ]
+  )
+})
+
+test("summariseChannelMedia totals each channel over the range", () => {
+  const tv = { media_type: "television", label: "Television", media: monthly({ july: 1_000, august: 500 }), fy_media: 1_500 }
+  const radio = { media_type: "radio", label: "Radio", media: monthly({ august: 2_000 }), fy_media: 2_000 }
+  const rows = summariseChannelMedia({
+    months: ["2025-07", "2025-08"],
+    asOfMonth: "2025-07",
+    channels: { confirmed: new Map([[2025, [tv]]]), projected: new Map([[2025, [tv, radio]]]) },
+  })
+  assert.deepEqual(rows, [
+    { media_type: "radio", label: "Radio", media: 2_000 },
+    { media_type: "television", label: "Television", media: 1_500 },
+  ])
+})
+
+test("rankTopRiskCampaigns merges pages and keeps room for over-pacing", () => {
+  const item = (id: string, status: OverviewAttentionItem["status"], budget: number, spend: number) =>
+    ({
+      id,
+      channel: "search",
+      clientName: "Acme",
+      campaignName: id,
+      mbaNumber: id,
+      lineItemLabel: id,
+      status,
+      budget,
+      spendToDate: spend,
+      href: "/pacing/search",
+    }) satisfies OverviewAttentionItem
+  const pages = [
+    { underperforming: [item("b1", "behind", 1_000, 900), item("b2", "behind", 1_000, 100)], overPacing: [] },
+    { underperforming: [item("b3", "behind", 1_000, 500)], overPacing: [item("o1", "over-pacing", 1_000, 1_500)] },
+  ]
+  const top = rankTopRiskCampaigns(pages, 2)
+  assert.deepEqual(
+    top.map((t) => [t.id, t.risk]),
+    [
+      ["b2", "behind"],
+      ["o1", "over-pacing"],
+    ]
+  )
+  assert.equal(rankTopRiskCampaigns(pages, 10).length, 4)
+})
+
+test("summariseTaskWorkload counts open, overdue, in-range and high-priority tasks", () => {
+  const task = (over: Partial<CodexTask>): CodexTask => ({ id: Math.random(), title: "t", client_id: 1, status: "todo", ...over })
+  const rows = summariseTaskWorkload(
+    [
+      task({ assignee_email: "sam@example.com", assignee_name: "Sam", due_date: "2025-08-01", priority: "high" }),
+      task({ assignee_email: "SAM@example.com", due_date: "2025-08-20" }),
+      task({ assignee_email: "sam@example.com", status: "done", due_date: "2025-07-01" }),
+      task({ due_date: "2025-09-30" }),
+    ],
+    { from: "2025-08-01", to: "2025-08-31", today: "2025-08-10" }
+  )
+  assert.deepEqual(rows, [
+    { assignee: "Sam", assignee_email: "sam@example.com", open: 2, overdue: 1, due_in_range: 2, high_priority: 1 },
+    { assignee: "Unassigned", assignee_email: null, open: 1, overdue: 0, due_in_range: 0, high_priority: 0 },
+  ])
+})
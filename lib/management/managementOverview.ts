@@ -0,0 +1,327 @@
+/**
+ * Management dashboard aggregates. Pure — the API route loads the finance
+ * forecast, pacing overview and codex tasks and hands them in here.
+ *
+ * Months before `asOfMonth` read the confirmed forecast (booked, approved and
+ * completed plans); the rest read the projection scenario (confirmed +
+ * probable). Billed revenue comes from finance_billing_records, read the same
+ * way as the rebates report: an MBA month counts once it is marked billed.
+ */
+
+import type { CodexTask } from "@/lib/codex/types"
+import { billedMbaMonthKey, collectBilledMbaMonths, FORECAST_REVENUE_BODY_LINE_ORDER } from "@/lib/finance/forecast"
+import { overBurnRatio, spendGap } from "@/lib/pacing/overview/mapOverviewItems"
+import type { OverviewAttentionItem, OverviewPayload, OverviewStatusCounts } from "@/lib/pacing/overview/types"
+import {
+  FINANCE_FORECAST_FISCAL_MONTH_ORDER,
+  FINANCE_FORECAST_LINE_KEYS,
+  type FinanceForecastChannelMedia,
+  type FinanceForecastDataset,
+  type FinanceForecastMonthKey,
+} from "@/lib/types/financeForecast"
+
+export type ManagementSource = "forecast" | "pacing" | "tasks"
+
+export type ManagementRevenueMonth = {
+  /** YYYY-MM */
+  month: string
+  status: "actual" | "projected"
+  /**
+   * Revenue billed in finance_billing_records up to the current month; null
+   * for later months.
+   */
+  billed: number | null
+  /** Confirmed + probable revenue. */
+  forecast: number
+}
+
+export type ManagementClientFees = {
+  client_id: string
+  client_name: string
+  /** Revenue other than publisher commission (service, retainer, scope, platform fees). */
+  fees: number
+  commission: number
+  revenue: number
+}
+
+export type ManagementChannelMedia = {
+  media_type: string
+  label: string
+  media: number
+}
+
+export type ManagementRiskItem = OverviewAttentionItem & {
+  risk: "behind" | "over-pacing"
+}
+
+export type ManagementPacingHealth = {
+  as_of_date: string
+  counts: OverviewStatusCounts
+  top_risk: ManagementRiskItem[]
+  unavailable_channels: string[]
+}
+
+export type ManagementWorkload = {
+  assignee: string
+  assignee_email: string | null
+  open: number
+  overdue: number
+  /** Open tasks due inside the selected range. */
+  due_in_range: number
+  high_priority: number
+}
+
+export type ManagementOverview = {
+  range: { from: string; to: string }
+  as_of_month: string
+  revenue_by_month: ManagementRevenueMonth[]
+  fee_income_by_client: ManagementClientFees[]
+  media_by_channel: ManagementChannelMedia[]
+  pacing: ManagementPacingHealth | null
+  workload: ManagementWorkload[] | null
+  /** Sources that failed to load; their sections render empty. */
+  unavailable: ManagementSource[]
+}
+
+/** The finance_billing_records fields read for billed revenue. */
+export type ManagementBillingRecord = {
+  billing_type?: string | null
+  mba_number?: string | null
+  billing_month?: string | null
+  billed?: boolean | null
+  billed_amount?: number | null
+  total?: number | null
+}
+
+/** Forecast inputs keyed by FY start year, one per scenario. */
+export type ManagementForecastInputs<T> = {
+  confirmed: ReadonlyMap<number, T>
+  projected: ReadonlyMap<number, T>
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+/** Calendar months (YYYY-MM) from `from` to `to` inclusive; both YYYY-MM or YYYY-MM-DD. */
+export function monthsInRange(from: string, to: string): string[] {
+  let [y, m] = from.slice(0, 7).split("-").map(Number) as [number, number]
+  const end = to.slice(0, 7)
+  const out: string[] = []
+  for (let guard = 0; guard < 120; guard++) {
+    const month = `${y}-${String(m).padStart(2, "0")}`
+    if (month > end) break
+    out.push(month)
+    m++
+    if (m > 12) {
+      m = 1
+      y++
+    }
+  }
+  return out
+}
+
+/** FY start year and fiscal month key for a calendar YYYY-MM (July = month 1). */
+export function fiscalSlot(month: string): { fyStartYear: number; monthKey: FinanceForecastMonthKey } {
+  const [y, m] = month.split("-").map(Number) as [number, number]
+  const fyStartYear = m >= 7 ? y : y - 1
+  return { fyStartYear, monthKey: FINANCE_FORECAST_FISCAL_MONTH_ORDER[(m + 5) % 12]! }
+}
+
+/** Distinct FY start years touched by a list of months. */
+export function financialYearsForMonths(months: readonly string[]): number[] {
+  return [...new Set(months.map((m) => fiscalSlot(m).fyStartYear))].sort((a, b) => a - b)
+}
+
+function sourceFor<T>(inputs: ManagementForecastInputs<T>, month: string, asOfMonth: string): T | undefined {
+  const { fyStartYear } = fiscalSlot(month)
+  return (month < asOfMonth ? inputs.confirmed : inputs.projected).get(fyStartYear)
+}
+
+function datasetRevenue(dataset: FinanceForecastDataset | undefined, monthKey: FinanceForecastMonthKey): number {
+  let total = 0
+  for (const block of dataset?.client_blocks ?? []) {
+    for (const group of block.groups) {
+      for (const line of group.lines) {
+        if (line.line_key === FINANCE_FORECAST_LINE_KEYS.totalRevenue) total += line.monthly[monthKey] ?? 0
+      }
+    }
+  }
+  return total
+}
+
+/** Invoiced SOW and retainer amounts marked billed, by billing month. */
+function billedFeeInvoices(records: readonly ManagementBillingRecord[]): Map<string, number> {
+  const out = new Map<string, number>()
+  for (const row of records) {
+    if (row.billed !== true || (row.billing_type !== "sow" && row.billing_type !== "retainer")) continue
+    const month = String(row.billing_month ?? "").trim()
+    if (!month) continue
+    out.set(month, (out.get(month) ?? 0) + (Number(row.billed_amount ?? row.total) || 0))
+  }
+  return out
+}
+
+/** Confirmed-plan revenue of the MBAs whose month is marked billed (per-MBA lines only). */
+function billedMediaRevenue(
+  dataset: FinanceForecastDataset | undefined,
+  month: string,
+  monthKey: FinanceForecastMonthKey,
+  billedMbaMonths: ReadonlySet<string>
+): number {
+  let total = 0
+  for (const block of dataset?.client_blocks ?? []) {
+    for (const group of block.groups) {
+      for (const line of group.lines) {
+        const mba = line.mba_number?.trim()
+        if (!mba || !FORECAST_REVENUE_BODY_LINE_ORDER.includes(line.line_key)) continue
+        if (billedMbaMonths.has(billedMbaMonthKey(mba, month))) total += line.monthly[monthKey] ?? 0
+      }
+    }
+  }
+  return total
+}
+
+/**
+ * Billed vs forecast revenue per month, and fee income per client over the range.
+ *
+ * Billed revenue for a month is the confirmed-plan revenue of each MBA billed
+ * that month plus the SOW and retainer invoices billed that month (those are
+ * all fee revenue, and the forecast carries them on client-level lines).
+ */
+export function summariseForecastRevenue(args: {
+  months: readonly string[]
+  asOfMonth: string
+  datasets: ManagementForecastInputs<FinanceForecastDataset>
+  billingRecords: readonly ManagementBillingRecord[]
+}): { revenue_by_month: ManagementRevenueMonth[]; fee_income_by_client: ManagementClientFees[] } {
+  const billedMbaMonths = collectBilledMbaMonths(args.billingRecords)
+  const feeInvoices = billedFeeInvoices(args.billingRecords)
+  const revenue_by_month = args.months.map((month): ManagementRevenueMonth => {
+    const { fyStartYear, monthKey } = fiscalSlot(month)
+    return {
+      month,
+      status: month < args.asOfMonth ? "actual" : "projected",
+      billed:
+        month <= args.asOfMonth
+          ? round2(
+              billedMediaRevenue(args.datasets.confirmed.get(fyStartYear), month, monthKey, billedMbaMonths) +
+                (feeInvoices.get(month) ?? 0)
+            )
+          : null,
+      forecast: round2(datasetRevenue(args.datasets.projected.get(fyStartYear), monthKey)),
+    }
+  })
+
+  const byClient = new Map<string, ManagementClientFees>()
+  for (const month of args.months) {
+    const { monthKey } = fiscalSlot(month)
+    for (const block of sourceFor(args.datasets, month, args.asOfMonth)?.client_blocks ?? []) {
+      let entry = byClient.get(block.client_id)
+      if (!entry) {
+        entry = { client_id: block.client_id, client_name: block.client_name, fees: 0, commission: 0, revenue: 0 }
+        byClient.set(block.client_id, entry)
+      }
+      for (const group of block.groups) {
+        for (const line of group.lines) {
+          const amount = line.monthly[monthKey] ?? 0
+          if (line.line_key === FINANCE_FORECAST_LINE_KEYS.totalRevenue) entry.revenue += amount
+          else if (line.line_key === FINANCE_FORECAST_LINE_KEYS.commission) entry.commission += amount
+        }
+      }
+    }
+  }
+  const fee_income_by_client = [...byClient.values()]
+    .map((c) => ({
+      ...c,
+      fees: round2(c.revenue - c.commission),
+      commission: round2(c.commission),
+      revenue: round2(c.revenue),
+    }))
+    .filter((c) => c.revenue !== 0 || c.commission !== 0)
+    .sort((a, b) => b.fees - a.fees || a.client_name.localeCompare(b.client_name))
+
+  return { revenue_by_month, fee_income_by_client }
+}
+
+/** Media under management per channel over the range (confirmed past months + projection). */
+export function summariseChannelMedia(args: {
+  months: readonly string[]
+  asOfMonth: string
+  channels: ManagementForecastInputs<readonly FinanceForecastChannelMedia[]>
+}): ManagementChannelMedia[] {
+  const byType = new Map<string, ManagementChannelMedia>()
+  for (const month of args.months) {
+    const { monthKey } = fiscalSlot(month)
+    for (const row of sourceFor(args.channels, month, args.asOfMonth) ?? []) {
+      const amount = row.media[monthKey] ?? 0
+      if (!amount) continue
+      const entry = byType.get(row.media_type) ?? { media_type: row.media_type, label: row.label, media: 0 }
+      entry.media += amount
+      byType.set(row.media_type, entry)
+    }
+  }
+  return [...byType.values()]
+    .map((c) => ({ ...c, media: round2(c.media) }))
+    .sort((a, b) => b.media - a.media || a.label.localeCompare(b.label))
+}
+
+/**
+ * Campaigns most at risk across every overview page: the biggest under-spends
+ * and the fastest over-burns, half the list each (the other side fills any
+ * slack), worst first within each side.
+ */
+export function rankTopRiskCampaigns(
+  pages: ReadonlyArray<Pick<OverviewPayload, "underperforming" | "overPacing">>,
+  limit = 10
+): ManagementRiskItem[] {
+  const behind = pages
+    .flatMap((p) => p.underperforming)
+    .sort((a, b) => spendGap(b) - spendGap(a))
+    .map((item) => ({ ...item, risk: "behind" as const }))
+  const over = pages
+    .flatMap((p) => p.overPacing)
+    .sort((a, b) => overBurnRatio(b) - overBurnRatio(a))
+    .map((item) => ({ ...item, risk: "over-pacing" as const }))
+  const overTake = Math.min(over.length, Math.max(Math.floor(limit / 2), limit - behind.length))
+  return [...behind.slice(0, limit - overTake), ...over.slice(0, overTake)]
+}
+
+function taskDay(value: string | null | undefined): string | null {
+  if (!value) return null
+  const day = value.slice(0, 10)
+  return /^\d{4}-\d{2}-\d{2}$/.test(day) ? day : null
+}
+
+/** Open codex tasks per assignee, busiest first. Done tasks are ignored. */
+export function summariseTaskWorkload(
+  tasks: readonly CodexTask[],
+  opts: { from: string; to: string; today: string }
+): ManagementWorkload[] {
+  const byAssignee = new Map<string, ManagementWorkload>()
+  for (const task of tasks) {
+    if (task.status === "done") continue
+    const email = task.assignee_email?.trim() || null
+    const key = email?.toLowerCase() ?? "__unassigned__"
+    let entry = byAssignee.get(key)
+    if (!entry) {
+      entry = {
+        assignee: task.assignee_name?.trim() || email || "Unassigned",
+        assignee_email: email,
+        open: 0,
+        overdue: 0,
+        due_in_range: 0,
+        high_priority: 0,
+      }
+      byAssignee.set(key, entry)
+    }
+    entry.open++
+    const due = taskDay(task.due_date)
+    if (due && due < opts.today) entry.overdue++
+    if (due && due >= opts.from && due <= opts.to) entry.due_in_range++
+    if (task.priority === "high") entry.high_priority++
+  }
+  return [...byAssignee.values()].sort(
+    (a, b) => b.open - a.open || b.overdue - a.overdue || a.assignee.localeCompare(b.assignee)
+  )
+}
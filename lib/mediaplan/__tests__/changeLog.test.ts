@@ -0,0 +1,181 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+
+import {
+  changeLogEntriesFromDiff,
+  filterChangeLog,
+  groupChangeLogBySave,
+  type MediaPlanChangeLogEntry,
+} from "@/lib/mediaplan/changeLog"
+import { diffMediaPlanVersions } from "@/lib/mediaplan/versionDiff"
+
+function searchLine(id: string, bursts: unknown[], overrides: Record<string, unknown> = {}) {
+  return {
+    line_item_id: id,
+    platform: "Google Ads",
+    budget_includes_fees: false,
+    bursts_json: JSON.stringify(bursts),
+    ...overrides,
+  }
+}
+
+const MARCH = { startDate: "2026-03-01", endDate: "2026-03-31", budget: "1000", feeAmount: 100 }
+
+const context = {
+  mbaNumber: "MBA1",
+  changedBy: "planner@example.com",
+  changedByName: "Planner",
+  changedAt: Date.UTC(2026, 2, 10, 1, 0, 0),
+}
+
+test("changeLogEntriesFromDiff writes one row per changed field and burst", () => {
+  const diff = diffMediaPlanVersions(
+    {
+      versionNumber: 3,
+      lineItems: { search: [searchLine("MBA1SE1", [MARCH]), searchLine("MBA1SE2", [MARCH])] },
+      billingSchedule: [],
+    },
+    {
+      versionNumber: 4,
+      lineItems: {
+        search: [
+          searchLine(
+            "MBA1SE1",
+            [
+              { ...MARCH, endDate: "2026-03-20", budget: "1500" },
+              { startDate: "2026-04-01", endDate: "2026-04-30", budget: "500", feeAmount: 0 },
+            ],
+            { platform: "Microsoft Ads", budget_includes_fees: true },
+          ),
+          searchLine("MBA1SE3", [MARCH]),
+        ],
+      },
+      billingSchedule: [],
+    },
+  )
+  const rows = changeLogEntriesFromDiff(diff, context)
+
+  const se1 = rows.filter((r) => r.line_item_id === "MBA1SE1")
+  assert.deepEqual(
+    se1.map((r) => [r.change_type, r.burst_index, r.field, r.old_value, r.new_value]),
+    [
+      ["field_change", null, "publisher", "Google Ads", "Microsoft Ads"],
+      ["burst_change", 0, "dates", "2026-03-01 – 2026-03-31", "2026-03-01 – 2026-03-20"],
+      ["burst_change", 0, "budget", "1000", "1500"],
+      ["burst_added", 1, "dates", "", "2026-04-01 – 2026-04-30"],
+      ["burst_added", 1, "budget", "", "500"],
+      ["fee_change", null, "budget_includes_fees", "no", "yes"],
+    ],
+  )
+  assert.deepEqual(
+    rows.filter((r) => r.line_item_id !== "MBA1SE1").map((r) => [r.line_item_id, r.change_type, r.old_value, r.new_value]),
+    [
+      ["MBA1SE3", "line_added", "", "1000"],
+      ["MBA1SE2", "line_removed", "1000", ""],
+    ],
+  )
+  for (const row of rows) {
+    assert.equal(row.mba_number, "MBA1")
+    assert.equal(row.version_number, 4)
+    assert.equal(row.from_version, 3)
+    assert.equal(row.media_type_label, "Search")
+    assert.equal(row.changed_by, "planner@example.com")
+  }
+})
+
+test("changeLogEntriesFromDiff records rate and deliverables and matches bursts by date", () => {
+  const april = { startDate: "2026-04-01", endDate: "2026-04-30", budget: "1000", feeAmount: 0 }
+  const diff = diffMediaPlanVersions(
+    {
+      versionNumber: 4,
+      lineItems: {
+        search: [searchLine("MBA1SE1", [{ ...MARCH, buyAmount: 2.5, calculatedValue: 400 }, { ...april, buyAmount: 2.5 }])],
+      },
+      billingSchedule: [],
+    },
+    {
+      versionNumber: 5,
+      lineItems: {
+        search: [
+          searchLine("MBA1SE1", [
+            { startDate: "2026-02-01", endDate: "2026-02-28", budget: "800", feeAmount: 0, buyAmount: 2.5 },
+            { ...MARCH, buyAmount: 3, calculatedValue: 333 },
+            { ...april, buyAmount: 2.5 },
+          ]),
+        ],
+      },
+      billingSchedule: [],
+    },
+  )
+
+  assert.deepEqual(
+    changeLogEntriesFromDiff(diff, context).map((r) => [r.change_type, r.burst_index, r.field, r.old_value, r.new_value]),
+    [
+      ["burst_added", 0, "dates", "", "2026-02-01 – 2026-02-28"],
+      ["burst_added", 0, "budget", "", "800"],
+      ["burst_change", 1, "rate", "2.5", "3"],
+      ["burst_change", 1, "deliverables", "400", "333"],
+    ],
+  )
+})
+
+test("changeLogEntriesFromDiff is empty when nothing moved", () => {
+  const lineItems = { search: [searchLine("MBA1SE1", [MARCH])] }
+  const diff = diffMediaPlanVersions(
+    { versionNumber: 2, lineItems, billingSchedule: [] },
+    { versionNumber: 2, lineItems, billingSchedule: [] },
+  )
+  assert.deepEqual(changeLogEntriesFromDiff(diff, context), [])
+})
+
+function entry(id: number, overrides: Partial<MediaPlanChangeLogEntry>): MediaPlanChangeLogEntry {
+  return {
+    id,
+    mba_number: "MBA1",
+    version_number: 4,
+    from_version: 3,
+    media_type: "search",
+    media_type_label: "Search",
+    line_item_id: "MBA1SE1",
+    line_item_label: "Google Ads",
+    burst_index: null,
+    change_type: "field_change",
+    field: "market",
+    old_value: "VIC",
+    new_value: "NSW",
+    changed_by: "planner@example.com",
+    changed_by_name: "Planner",
+    changed_at: context.changedAt,
+    ...overrides,
+  }
+}
+
+test("filterChangeLog matches user, channel and Melbourne-day bounds", () => {
+  const entries = [
+    entry(1, {}),
+    entry(2, { media_type: "television", media_type_label: "Television" }),
+    // 23:30 UTC on 10 March is 11 March in Melbourne.
+    entry(3, { changed_by: "lead@example.com", changed_at: Date.UTC(2026, 2, 10, 23, 30) }),
+  ]
+  assert.deepEqual(filterChangeLog(entries, { user: "lead@example.com" }).map((e) => e.id), [3])
+  assert.deepEqual(filterChangeLog(entries, { mediaType: "television" }).map((e) => e.id), [2])
+  assert.deepEqual(filterChangeLog(entries, { from: "2026-03-11" }).map((e) => e.id), [3])
+  assert.deepEqual(filterChangeLog(entries, { to: "2026-03-10" }).map((e) => e.id), [1, 2])
+})
+
+test("groupChangeLogBySave puts the newest save first and keeps rows in line order", () => {
+  const later = context.changedAt + 60_000
+  const saves = groupChangeLogBySave([
+    entry(1, { line_item_id: "MBA1SE2" }),
+    entry(2, { line_item_id: "MBA1SE1", burst_index: 1 }),
+    entry(3, { line_item_id: "MBA1SE1", burst_index: null }),
+    entry(4, { version_number: 5, from_version: 4, changed_at: later }),
+  ])
+  assert.deepEqual(
+    saves.map((s) => [s.versionNumber, s.entries.map((e) => e.id)]),
+    [
+      [5, [4]],
+      [4, [3, 2, 1]],
+    ],
+  )
+})
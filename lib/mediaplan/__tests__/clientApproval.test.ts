@@ -0,0 +1,127 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+
+import {
+  approvalPatchLines,
+  approvalRecipientEmails,
+  buildApprovalLines,
+  buildApprovalResponseEmail,
+  resolveApprovalRequestFromPlan,
+  validateApprovalDecisions,
+  type ApprovalDecisionInput,
+} from "@/lib/mediaplan/clientApproval"
+
+const lineItems = {
+  search: [
+    {
+      line_item_id: "MBA1SE1",
+      platform: "Google Ads",
+      bursts_json: JSON.stringify([
+        { startDate: "2026-03-01", endDate: "2026-03-31", budget: "$1,000.00" },
+        { startDate: "2026-04-01", endDate: "2026-04-30", budget: 500 },
+      ]),
+    },
+  ],
+  digitalDisplay: [{ publisher: "News Corp", market: "National", bursts: [] }],
+}
+
+test("buildApprovalLines: billing keys, stable ids, labels and burst budgets", () => {
+  assert.deepEqual(buildApprovalLines(lineItems), [
+    { media_type: "search", line_item_id: "billing-search::MBA1SE1", label: "Google Ads", budget: 1500 },
+    {
+      media_type: "digiDisplay",
+      line_item_id: "billing-digiDisplay::new-0",
+      label: "News Corp · National",
+      budget: 0,
+    },
+  ])
+})
+
+test("resolveApprovalRequestFromPlan: takes client and lines from the stored version", () => {
+  const plan = { mp_client_name: "Legal Super", lineItems }
+  const lines = buildApprovalLines(lineItems)
+
+  assert.deepEqual(resolveApprovalRequestFromPlan({ client_slug: "legal_super", lines }, plan), {
+    ok: true,
+    client_slug: "legal_super",
+    lines,
+  })
+  assert.deepEqual(resolveApprovalRequestFromPlan({ client_slug: "acme", lines }, plan), {
+    ok: false,
+    error: "client_slug does not match the media plan's client",
+  })
+  const edited = lines.map((l, i) => (i === 0 ? { ...l, budget: 1 } : l))
+  assert.equal(resolveApprovalRequestFromPlan({ client_slug: "legal_super", lines: edited }, plan).ok, false)
+  assert.equal(resolveApprovalRequestFromPlan({ client_slug: "legal_super", lines: lines.slice(1) }, plan).ok, false)
+})
+
+test("validateApprovalDecisions: requires one decision per line and a comment on rejections", () => {
+  const lines = buildApprovalLines(lineItems)
+  const decide = (overrides: Partial<ApprovalDecisionInput>[] = []): ApprovalDecisionInput[] =>
+    lines.map((l, i) => ({
+      media_type: l.media_type,
+      line_item_id: l.line_item_id,
+      decision: "approved",
+      comment: "",
+      ...overrides[i],
+    }))
+
+  assert.equal(validateApprovalDecisions(lines, decide()), null)
+  assert.equal(
+    validateApprovalDecisions(lines, decide([{}, { decision: "rejected" }])),
+    "A comment is required to reject billing-digiDisplay::new-0"
+  )
+  assert.equal(validateApprovalDecisions(lines, decide([{}, { decision: "rejected", comment: "Drop it" }])), null)
+  assert.equal(validateApprovalDecisions(lines, decide().slice(0, 1)), "Every line needs a decision")
+  assert.equal(
+    validateApprovalDecisions(lines, [...decide(), decide()[0]!]),
+    "Duplicate decision for billing-search::MBA1SE1"
+  )
+  assert.equal(
+    validateApprovalDecisions(lines, decide([{ line_item_id: "billing-search::OTHER" }])),
+    "Unknown line billing-search::OTHER"
+  )
+})
+
+test("approvalPatchLines / response email: rejections become exclusions and are listed with comments", () => {
+  const lines = buildApprovalLines(lineItems)
+  const decisions: ApprovalDecisionInput[] = [
+    { media_type: "search", line_item_id: "billing-search::MBA1SE1", decision: "approved", comment: "" },
+    { media_type: "digiDisplay", line_item_id: "billing-digiDisplay::new-0", decision: "rejected", comment: "Too <broad>" },
+  ]
+
+  assert.deepEqual(
+    approvalPatchLines(decisions).map((l) => [l.line_item_id, l.approved]),
+    [
+      ["billing-search::MBA1SE1", true],
+      ["billing-digiDisplay::new-0", false],
+    ]
+  )
+
+  const email = buildApprovalResponseEmail({
+    request: { mba_number: "MBA1", media_plan_version: 3, campaign_name: "Spring", lines },
+    decisions,
+    responderEmail: "client@example.com",
+    link: "https://app.example.com/dashboard/acme/MBA1?version=3",
+  })
+  assert.equal(email.subject, "Changes requested: Spring (MBA1 v3)")
+  assert.match(email.html, /1 approved, 1 rejected/)
+  assert.match(email.html, /News Corp · National/)
+  assert.match(email.html, /Too &lt;broad&gt;/)
+})
+
+test("approvalRecipientEmails: honours per-user MBA allow-lists and dedupes", () => {
+  assert.deepEqual(
+    approvalRecipientEmails(
+      [
+        { email: "All@Client.com", app_metadata: { client_slug: "acme" } },
+        { email: "all@client.com" },
+        { email: "scoped@client.com", app_metadata: { mba_numbers: ["mba1"] } },
+        { email: "other@client.com", app_metadata: { mba_numbers: ["MBA2"] } },
+        { app_metadata: {} },
+      ],
+      "MBA1"
+    ),
+    ["all@client.com", "scoped@client.com"]
+  )
+})
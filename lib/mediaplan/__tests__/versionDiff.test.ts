@@ -0,0 +1,179 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+
+import {
+  diffBillingScheduleMonths,
+  diffMediaPlanVersions,
+  type MediaPlanVersionSnapshot,
+} from "@/lib/mediaplan/versionDiff"
+
+function searchLine(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    line_item_id: id,
+    platform: "Google Ads",
+    bid_strategy: "Max conversions",
+    budget_includes_fees: false,
+    bursts_json: JSON.stringify([
+      { startDate: "2026-03-01", endDate: "2026-03-31", budget: "1000", feeAmount: 100 },
+    ]),
+    ...overrides,
+  }
+}
+
+function schedule(months: Record<string, Record<string, string>>) {
+  return Object.entries(months).map(([monthYear, lines]) => ({
+    monthYear,
+    mediaTypes: [
+      {
+        mediaType: "Search",
+        lineItems: Object.entries(lines).map(([lineItemId, amount]) => ({ lineItemId, amount })),
+      },
+    ],
+    production: "$0.00",
+    feeTotal: "$0.00",
+  }))
+}
+
+function snapshot(versionNumber: number, search: unknown[], billing: unknown = []): MediaPlanVersionSnapshot {
+  return { versionNumber, lineItems: { search, television: [] }, billingSchedule: billing }
+}
+
+test("diffMediaPlanVersions: flags added, removed and unchanged lines per container", () => {
+  const diff = diffMediaPlanVersions(
+    snapshot(3, [searchLine("MBA1SE1"), searchLine("MBA1SE2")]),
+    snapshot(4, [searchLine("mba1se1"), searchLine("MBA1SE3")]),
+  )
+
+  assert.deepEqual(
+    diff.lineItems.map((l) => [l.lineItemId, l.status]),
+    [
+      ["MBA1SE3", "added"],
+      ["MBA1SE2", "removed"],
+      ["mba1se1", "unchanged"],
+    ],
+  )
+  assert.equal(diff.lineItems[0]?.mediaTypeLabel, "Search")
+  assert.deepEqual(diff.summary, {
+    added: 1,
+    removed: 1,
+    changed: 0,
+    unchanged: 1,
+    budgetDelta: 0,
+    billingDelta: 0,
+  })
+})
+
+test("diffMediaPlanVersions: reports burst date / budget, field and fee changes", () => {
+  const diff = diffMediaPlanVersions(
+    snapshot(1, [searchLine("MBA1SE1")]),
+    snapshot(2, [
+      searchLine("MBA1SE1", {
+        bid_strategy: "Target CPA",
+        budget_includes_fees: true,
+        bursts_json: JSON.stringify([
+          { startDate: "2026-03-08", endDate: "2026-03-31", budget: "$1,500.00", feeAmount: 150 },
+          { startDate: "2026-04-01", endDate: "2026-04-30", budget: 500, feeAmount: 50 },
+        ]),
+      }),
+    ]),
+  )
+
+  const [line] = diff.lineItems
+  assert.equal(line?.status, "changed")
+  assert.deepEqual(line?.fields, [{ field: "bid_strategy", previous: "Max conversions", next: "Target CPA" }])
+  assert.deepEqual(
+    line?.bursts.map((b) => [b.kind, b.index, b.kind === "changed" ? [b.datesChanged, b.budgetDelta] : null]),
+    [
+      ["changed", 0, [true, 500]],
+      ["added", 1, null],
+    ],
+  )
+  assert.deepEqual(line?.fees, {
+    previousFeeTotal: 100,
+    nextFeeTotal: 200,
+    flagChanges: [{ field: "budget_includes_fees", previous: "no", next: "yes" }],
+  })
+  assert.equal(diff.summary.budgetDelta, 1000)
+})
+
+test("diffMediaPlanVersions: inserting a burst doesn't report the later bursts as changed", () => {
+  const bursts = (rows: Array<[string, string, number]>) =>
+    JSON.stringify(rows.map(([startDate, endDate, budget]) => ({ startDate, endDate, budget, feeAmount: 0 })))
+  const diff = diffMediaPlanVersions(
+    snapshot(1, [
+      searchLine("MBA1SE1", {
+        bursts_json: bursts([
+          ["2026-03-01", "2026-03-31", 1000],
+          ["2026-05-01", "2026-05-31", 1000],
+          ["2026-06-01", "2026-06-30", 1000],
+        ]),
+      }),
+    ]),
+    snapshot(2, [
+      searchLine("MBA1SE1", {
+        bursts_json: bursts([
+          ["2026-03-01", "2026-03-31", 1000],
+          ["2026-04-01", "2026-04-30", 800],
+          ["2026-05-01", "2026-05-31", 1000],
+          ["2026-06-01", "2026-06-20", 1000],
+        ]),
+      }),
+    ]),
+  )
+
+  assert.deepEqual(
+    diff.lineItems[0]?.bursts.map((b) => [b.kind, b.index, b.kind === "changed" ? [b.datesChanged, b.budgetDelta] : null]),
+    [
+      ["added", 1, null],
+      ["changed", 3, [true, 0]],
+    ],
+  )
+})
+
+test("diffMediaPlanVersions: deleting a burst reports only that burst", () => {
+  const bursts = (rows: Array<[string, string]>) =>
+    JSON.stringify(rows.map(([startDate, endDate]) => ({ startDate, endDate, budget: 500, feeAmount: 0 })))
+  const diff = diffMediaPlanVersions(
+    snapshot(1, [
+      searchLine("MBA1SE1", {
+        bursts_json: bursts([
+          ["2026-03-01", "2026-03-31"],
+          ["2026-04-01", "2026-04-30"],
+          ["2026-05-01", "2026-05-31"],
+        ]),
+      }),
+    ]),
+    snapshot(2, [
+      searchLine("MBA1SE1", {
+        bursts_json: bursts([
+          ["2026-03-01", "2026-03-31"],
+          ["2026-05-01", "2026-05-31"],
+        ]),
+      }),
+    ]),
+  )
+
+  assert.deepEqual(
+    diff.lineItems[0]?.bursts.map((b) => [b.kind, b.index]),
+    [["removed", 1]],
+  )
+})
+
+test("diffBillingScheduleMonths: keeps per-month line movements and month totals", () => {
+  const months = diffBillingScheduleMonths(
+    schedule({ "March 2026": { MBA1SE1: "$1,000.00" }, "April 2026": { MBA1SE1: "$500.00" } }),
+    schedule({
+      "March 2026": { MBA1SE1: "$1,000.00" },
+      "April 2026": { MBA1SE1: "$750.00", MBA1SE2: "$250.00" },
+      "May 2026": { MBA1SE2: "$100.00" },
+    }),
+  )
+
+  assert.deepEqual(
+    months.map((m) => [m.monthYear, m.previousTotal, m.nextTotal, m.changes.map((c) => `${c.kind}:${c.lineItemId}`)]),
+    [
+      ["April 2026", 500, 1000, ["amount_change:MBA1SE1", "line_add:MBA1SE2"]],
+      ["May 2026", 0, 100, ["line_add:MBA1SE2"]],
+    ],
+  )
+})
@@ -0,0 +1,265 @@
+import { getMelbourneTodayISO } from "@/lib/dates/melbourne"
+import type { BurstDiff, LineItemDiff, MediaPlanVersionDiff } from "./versionDiff"
+
+/**
+ * Media plan change log: one row per field that moved on a line item or burst
+ * in a save, flattened from {@link MediaPlanVersionDiff}. Pure — the MBA save
+ * endpoints build and store the rows (writeMediaPlanChangeLog), the history
+ * page groups and filters them.
+ */
+
+export type MediaPlanChangeType =
+  | "line_added"
+  | "line_removed"
+  | "field_change"
+  | "burst_added"
+  | "burst_removed"
+  | "burst_change"
+  | "fee_change"
+
+/** Xano `media_plan_change_log` row. */
+export type MediaPlanChangeLogEntry = {
+  id: number
+  created_at?: number
+  mba_number: string
+  /** Version the save produced (unchanged when a draft is overwritten in place). */
+  version_number: number
+  /** Version the save started from. */
+  from_version: number
+  /** Container key from the MBA payload (`search`, `digitalDisplay`, …). */
+  media_type: string
+  media_type_label: string
+  line_item_id: string
+  line_item_label: string
+  /** Zero-based burst position, or null for line-level changes. */
+  burst_index: number | null
+  change_type: MediaPlanChangeType
+  /**
+   * `budget`, `dates`, `rate`, `deliverables`, `fee_total`, a fee flag or a
+   * descriptive column (`publisher`, `market`, …).
+   */
+  field: string
+  old_value: string
+  new_value: string
+  /** Editor email (falls back to name / sub). */
+  changed_by: string
+  changed_by_name: string
+  changed_at: number
+}
+
+export type MediaPlanChangeLogInput = Omit<MediaPlanChangeLogEntry, "id" | "created_at">
+
+export type ChangeLogContext = {
+  mbaNumber: string
+  changedBy: string
+  changedByName: string
+  changedAt: number
+}
+
+/** Fields whose values are dollar amounts (stored as plain numbers). */
+export const MONEY_CHANGE_FIELDS = new Set(["budget", "rate", "fee_total"])
+
+function money(n: number): string {
+  return String(Math.round(n * 100) / 100)
+}
+
+function dates(startDate: string, endDate: string): string {
+  return `${startDate} – ${endDate}`
+}
+
+type ChangeRow = Pick<MediaPlanChangeLogInput, "burst_index" | "change_type" | "field" | "old_value" | "new_value">
+
+function burstRows(burst: BurstDiff): ChangeRow[] {
+  const burst_index = burst.index
+  if (burst.kind === "added") {
+    const change_type = "burst_added"
+    return [
+      { burst_index, change_type, field: "dates", old_value: "", new_value: dates(burst.next.startDate, burst.next.endDate) },
+      { burst_index, change_type, field: "budget", old_value: "", new_value: money(burst.next.budget) },
+    ]
+  }
+  if (burst.kind === "removed") {
+    const change_type = "burst_removed"
+    return [
+      {
+        burst_index,
+        change_type,
+        field: "dates",
+        old_value: dates(burst.previous.startDate, burst.previous.endDate),
+        new_value: "",
+      },
+      { burst_index, change_type, field: "budget", old_value: money(burst.previous.budget), new_value: "" },
+    ]
+  }
+  const rows: ChangeRow[] = []
+  if (burst.datesChanged) {
+    rows.push({
+      burst_index,
+      change_type: "burst_change",
+      field: "dates",
+      old_value: dates(burst.previous.startDate, burst.previous.endDate),
+      new_value: dates(burst.next.startDate, burst.next.endDate),
+    })
+  }
+  if (burst.budgetDelta !== 0) {
+    rows.push({
+      burst_index,
+      change_type: "burst_change",
+      field: "budget",
+      old_value: money(burst.previous.budget),
+      new_value: money(burst.next.budget),
+    })
+  }
+  if (burst.rateDelta !== 0) {
+    rows.push({
+      burst_index,
+      change_type: "burst_change",
+      field: "rate",
+      old_value: money(burst.previous.buyAmount),
+      new_value: money(burst.next.buyAmount),
+    })
+  }
+  if (burst.deliverablesDelta !== 0) {
+    rows.push({
+      burst_index,
+      change_type: "burst_change",
+      field: "deliverables",
+      old_value: money(burst.previous.deliverables),
+      new_value: money(burst.next.deliverables),
+    })
+  }
+  return rows
+}
+
+function lineRows(line: LineItemDiff): ChangeRow[] {
+  if (line.status === "added") {
+    const new_value = money(line.nextBudget)
+    return [{ burst_index: null, change_type: "line_added", field: "budget", old_value: "", new_value }]
+  }
+  if (line.status === "removed") {
+    const old_value = money(line.previousBudget)
+    return [{ burst_index: null, change_type: "line_removed", field: "budget", old_value, new_value: "" }]
+  }
+  const rows: ChangeRow[] = line.fields.map((f) => ({
+    burst_index: null,
+    change_type: "field_change",
+    field: f.field,
+    old_value: f.previous,
+    new_value: f.next,
+  }))
+  rows.push(...line.bursts.flatMap(burstRows))
+  if (line.fees) {
+    if (line.fees.previousFeeTotal !== line.fees.nextFeeTotal) {
+      rows.push({
+        burst_index: null,
+        change_type: "fee_change",
+        field: "fee_total",
+        old_value: money(line.fees.previousFeeTotal),
+        new_value: money(line.fees.nextFeeTotal),
+      })
+    }
+    rows.push(
+      ...line.fees.flagChanges.map((f) => ({
+        burst_index: null,
+        change_type: "fee_change" as const,
+        field: f.field,
+        old_value: f.previous,
+        new_value: f.next,
+      })),
+    )
+  }
+  return rows
+}
+
+/** Change-log rows for one save; unchanged lines produce none. */
+export function changeLogEntriesFromDiff(
+  diff: MediaPlanVersionDiff,
+  context: ChangeLogContext,
+): MediaPlanChangeLogInput[] {
+  return diff.lineItems.flatMap((line) =>
+    lineRows(line).map((row) => ({
+      mba_number: context.mbaNumber,
+      version_number: diff.toVersion,
+      from_version: diff.fromVersion,
+      media_type: line.mediaType,
+      media_type_label: line.mediaTypeLabel,
+      line_item_id: line.lineItemId,
+      line_item_label: line.label,
+      ...row,
+      changed_by: context.changedBy,
+      changed_by_name: context.changedByName,
+      changed_at: context.changedAt,
+    })),
+  )
+}
+
+export type ChangeLogFilter = {
+  /** Matches `changed_by`. */
+  user?: string | null
+  /** Matches `media_type`. */
+  mediaType?: string | null
+  /** Inclusive Melbourne YYYY-MM-DD bounds on `changed_at`. */
+  from?: string | null
+  to?: string | null
+}
+
+export function changeLogDate(entry: Pick<MediaPlanChangeLogEntry, "changed_at">): string {
+  return getMelbourneTodayISO(new Date(entry.changed_at))
+}
+
+export function filterChangeLog<T extends MediaPlanChangeLogInput>(entries: readonly T[], filter: ChangeLogFilter): T[] {
+  return entries.filter((entry) => {
+    if (filter.user && entry.changed_by !== filter.user) return false
+    if (filter.mediaType && entry.media_type !== filter.mediaType) return false
+    if (filter.from || filter.to) {
+      const day = changeLogDate(entry)
+      if (filter.from && day < filter.from) return false
+      if (filter.to && day > filter.to) return false
+    }
+    return true
+  })
+}
+
+/** One save on the timeline: every row written with the same version, editor and timestamp. */
+export type ChangeLogSave<T extends MediaPlanChangeLogInput = MediaPlanChangeLogEntry> = {
+  key: string
+  versionNumber: number
+  fromVersion: number
+  changedAt: number
+  changedBy: string
+  changedByName: string
+  entries: T[]
+}
+
+/** Saves newest first; rows within a save keep media type, line item and burst order. */
+export function groupChangeLogBySave<T extends MediaPlanChangeLogInput>(entries: readonly T[]): ChangeLogSave<T>[] {
+  const saves = new Map<string, ChangeLogSave<T>>()
+  for (const entry of entries) {
+    const key = `${entry.version_number}|${entry.changed_at}|${entry.changed_by}`
+    let save = saves.get(key)
+    if (!save) {
+      save = {
+        key,
+        versionNumber: entry.version_number,
+        fromVersion: entry.from_version,
+        changedAt: entry.changed_at,
+        changedBy: entry.changed_by,
+        changedByName: entry.changed_by_name,
+        entries: [],
+      }
+      saves.set(key, save)
+    }
+    save.entries.push(entry)
+  }
+  return [...saves.values()]
+    .map((save) => ({
+      ...save,
+      entries: [...save.entries].sort(
+        (a, b) =>
+          a.media_type_label.localeCompare(b.media_type_label) ||
+          a.line_item_id.localeCompare(b.line_item_id) ||
+          (a.burst_index ?? -1) - (b.burst_index ?? -1),
+      ),
+    }))
+    .sort((a, b) => b.changedAt - a.changedAt)
+}
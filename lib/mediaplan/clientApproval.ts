@@ -0,0 +1,325 @@
+import * as z from "zod"
+import { getClientDisplayName } from "@/lib/clients/slug"
+import { dashboardSlugKeyFromSegment } from "@/lib/clients/xanoClientSlugMatch"
+import { editorBillingStableLineItemId } from "@/lib/finance/buildEditorLineItemInputs"
+import type { MbaLineApprovalPatchLine } from "@/lib/finance/mbaLineApprovalsClient"
+import { formatAUD } from "@/lib/format/money"
+import { MEDIA_TYPE_LABELS } from "@/lib/media/mediaTypes"
+import { resolveLineItemBursts } from "./deriveBursts"
+import { parseBurstMoney } from "./formatBurstsForPersist"
+import { firstNonEmpty } from "./normalizeLineItem"
+import { mediaTypeKeyForContainer } from "./versionDiff"
+
+/**
+ * Client sign-off of a media plan version. A manager sends a version from the
+ * campaign dashboard; the client approves / rejects each line with comments.
+ * Line ids use the editor billing shape so the result maps straight onto
+ * `mba_line_approvals` (see `lib/finance/mbaLineApprovalsClient.ts`).
+ */
+
+export const approvalDecisionSchema = z.enum(["approved", "rejected"])
+export type ApprovalDecision = z.infer<typeof approvalDecisionSchema>
+
+export type ApprovalRequestStatus = "sent" | "responded" | "withdrawn"
+
+export const approvalLineSchema = z.object({
+  /** Billing key (`search`, `digiDisplay`, …) — the `media_type` on mba_line_approvals. */
+  media_type: z.string().trim().min(1),
+  /** Stable billing id, e.g. `billing-search::MBA1SE1`. */
+  line_item_id: z.string().trim().min(1),
+  label: z.string().trim().max(200),
+  budget: z.number().finite(),
+})
+export type ApprovalLine = z.infer<typeof approvalLineSchema>
+
+export const approvalDecisionInputSchema = z.object({
+  media_type: z.string().trim().min(1),
+  line_item_id: z.string().trim().min(1),
+  decision: approvalDecisionSchema,
+  comment: z.string().trim().max(1000).default(""),
+})
+export type ApprovalDecisionInput = z.infer<typeof approvalDecisionInputSchema>
+
+export const approvalRequestInputSchema = z.object({
+  mba_number: z.string().trim().min(1),
+  media_plan_version: z.number().int().positive(),
+  client_slug: z.string().trim().min(1),
+  campaign_name: z.string().trim().min(1).max(200),
+  message: z.string().trim().max(2000).default(""),
+  lines: z.array(approvalLineSchema).min(1, "The version has no line items to approve").max(500),
+})
+export type ApprovalRequestInput = z.infer<typeof approvalRequestInputSchema>
+
+export const approvalResponseInputSchema = z.object({
+  decisions: z.array(approvalDecisionInputSchema).min(1).max(500),
+})
+
+export type MbaApprovalRequest = {
+  id: number
+  created_at?: number
+  mba_number: string
+  media_plan_version: number
+  client_slug: string
+  campaign_name: string
+  status: ApprovalRequestStatus
+  message: string
+  /** Line snapshot taken at send time; responses are validated against it. */
+  lines: ApprovalLine[]
+  sent_by_email: string
+  responded_by_email: string | null
+  responded_at: number | null
+}
+
+/** Audit trail row: one per line per response. */
+export type MbaApprovalDecisionRow = {
+  id: number
+  created_at?: number
+  request_id: number
+  mba_number: string
+  media_plan_version: number
+  line_item_id: string
+  media_type: string
+  decision: ApprovalDecision
+  comment: string
+  actor_email: string
+}
+
+const LABEL_ALIASES = ["publisher", "platform", "network", "station", "site"]
+const DETAIL_ALIASES = ["market", "title", "placement", "format", "creative_targeting", "targeting"]
+
+const lineKey = (mediaType: string, lineItemId: string) => `${mediaType}::${lineItemId}`
+
+export function approvalMediaTypeLabel(mediaType: string): string {
+  return MEDIA_TYPE_LABELS[mediaType] ?? mediaType
+}
+
+/** Lines for one version from the dashboard `lineItems` map (MBA payload container keys). */
+export function buildApprovalLines(lineItemsMap: Record<string, unknown[]>): ApprovalLine[] {
+  const out: ApprovalLine[] = []
+  for (const [container, items] of Object.entries(lineItemsMap ?? {})) {
+    if (!Array.isArray(items)) continue
+    const mediaType = mediaTypeKeyForContainer(container)
+    items.forEach((item: any, index) => {
+      const name = String(firstNonEmpty(...LABEL_ALIASES.map((a) => item?.[a])) || "").trim()
+      const detail = String(firstNonEmpty(...DETAIL_ALIASES.map((a) => item?.[a])) || "").trim()
+      const budget = resolveLineItemBursts(item).reduce(
+        (total: number, b: any) => total + parseBurstMoney(b?.budget),
+        0
+      )
+      out.push({
+        media_type: mediaType,
+        line_item_id: editorBillingStableLineItemId(mediaType, item, index),
+        label: [name, detail].filter(Boolean).join(" · ") || `${approvalMediaTypeLabel(mediaType)} ${index + 1}`,
+        budget: Math.round(budget * 100) / 100,
+      })
+    })
+  }
+  return out
+}
+
+/**
+ * Client slug and line snapshot for a new request, derived from the stored
+ * version (the MBA GET payload) rather than the caller. The caller's
+ * `client_slug` and `lines` must match what is stored — a different client, or
+ * lines edited since the dashboard loaded, is an error for the 409 response.
+ */
+export function resolveApprovalRequestFromPlan(
+  input: Pick<ApprovalRequestInput, "client_slug" | "lines">,
+  plan: Record<string, unknown>
+): { ok: true; client_slug: string; lines: ApprovalLine[] } | { ok: false; error: string } {
+  const client = plan.client && typeof plan.client === "object" ? (plan.client as Record<string, unknown>) : {}
+  const clientSlug = dashboardSlugKeyFromSegment(getClientDisplayName(plan) || getClientDisplayName(client))
+  if (!clientSlug) return { ok: false, error: "The media plan has no client" }
+  if (dashboardSlugKeyFromSegment(input.client_slug) !== clientSlug) {
+    return { ok: false, error: "client_slug does not match the media plan's client" }
+  }
+
+  const lineItems =
+    plan.lineItems && typeof plan.lineItems === "object" ? (plan.lineItems as Record<string, unknown[]>) : {}
+  const lines = buildApprovalLines(lineItems)
+  const sent = new Map(input.lines.map((l) => [lineKey(l.media_type, l.line_item_id), l]))
+  const matches =
+    sent.size === lines.length &&
+    lines.every((l) => {
+      const other = sent.get(lineKey(l.media_type, l.line_item_id))
+      return other != null && Math.abs(other.budget - l.budget) < 0.005
+    })
+  if (!matches) {
+    return { ok: false, error: "Line items do not match the saved version; reload the plan and send again" }
+  }
+  return { ok: true, client_slug: clientSlug, lines }
+}
+
+/**
+ * Null when every snapshot line has exactly one decision and each rejection
+ * carries a comment; otherwise a message for the 400 response.
+ */
+export function validateApprovalDecisions(
+  lines: ApprovalLine[],
+  decisions: ApprovalDecisionInput[]
+): string | null {
+  const expected = new Set(lines.map((l) => lineKey(l.media_type, l.line_item_id)))
+  const seen = new Set<string>()
+  for (const d of decisions) {
+    const key = lineKey(d.media_type, d.line_item_id)
+    if (!expected.has(key)) return `Unknown line ${d.line_item_id}`
+    if (seen.has(key)) return `Duplicate decision for ${d.line_item_id}`
+    if (d.decision === "rejected" && !d.comment.trim()) {
+      return `A comment is required to reject ${d.line_item_id}`
+    }
+    seen.add(key)
+  }
+  if (seen.size !== expected.size) return "Every line needs a decision"
+  return null
+}
+
+/** `mba_line_approvals` PATCH body lines — rejected lines become exclusions. */
+export function approvalPatchLines(decisions: ApprovalDecisionInput[]): MbaLineApprovalPatchLine[] {
+  return decisions.map((d) => ({
+    line_item_id: d.line_item_id,
+    media_type: d.media_type,
+    approved: d.decision === "approved",
+  }))
+}
+
+export function summariseApprovalDecisions(decisions: Pick<ApprovalDecisionInput, "decision">[]) {
+  const approved = decisions.filter((d) => d.decision === "approved").length
+  return { approved, rejected: decisions.length - approved }
+}
+
+/**
+ * Client users to notify for an MBA: everyone on the client slug, except
+ * users whose `app_metadata.mba_numbers` allow-list excludes this MBA
+ * (same rule as `checkClientMbaAccess`).
+ */
+export function approvalRecipientEmails(
+  users: { email?: string; app_metadata?: Record<string, unknown> }[],
+  mbaNumber: string
+): string[] {
+  const mba = mbaNumber.trim().toLowerCase()
+  const out = new Set<string>()
+  for (const user of users) {
+    const email = user.email?.trim().toLowerCase()
+    if (!email) continue
+    const allowed = user.app_metadata?.mba_numbers
+    if (Array.isArray(allowed) && allowed.length > 0) {
+      if (!allowed.some((m) => String(m).trim().toLowerCase() === mba)) continue
+    }
+    out.add(email)
+  }
+  return [...out]
+}
+
+export function campaignDashboardLink(
+  baseUrl: string,
+  clientSlug: string,
+  mbaNumber: string,
+  version: number
+): string {
+  const base = baseUrl.replace(/\/$/, "")
+  return `${base}/dashboard/${encodeURIComponent(clientSlug)}/${encodeURIComponent(mbaNumber)}?version=${version}`
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+function emailShell(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"></head>
+<body style="margin:0;padding:0;background:#f6f8fa;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f6f8fa;padding:24px 12px;">
+    <tr><td align="center">
+      <table role="presentation" width="640" cellpadding="0" cellspacing="0" style="max-width:640px;width:100%;background:#ffffff;border:1px solid #d0d7de;border-radius:8px;">
+        <tr><td style="padding:20px 24px 8px;font-family:Arial,Helvetica,sans-serif;">
+          <div style="font-size:20px;font-weight:700;color:#24292f;">${escapeHtml(title)}</div>
+        </td></tr>
+        ${body}
+      </table>
+    </td></tr>
+  </table>
+</body>
+</html>`
+}
+
+function paragraph(html: string): string {
+  return `<tr><td style="padding:8px 24px;font-family:Arial,Helvetica,sans-serif;font-size:14px;color:#24292f;">${html}</td></tr>`
+}
+
+function button(href: string, label: string): string {
+  return `<tr><td style="padding:12px 24px 20px;font-family:Arial,Helvetica,sans-serif;">
+    <a href="${escapeHtml(href)}" style="display:inline-block;padding:10px 16px;background:#0969da;color:#ffffff;border-radius:6px;font-size:14px;font-weight:700;text-decoration:none;">${escapeHtml(label)}</a>
+  </td></tr>`
+}
+
+export function buildApprovalRequestEmail(params: {
+  request: Pick<MbaApprovalRequest, "mba_number" | "media_plan_version" | "campaign_name" | "message" | "lines">
+  senderEmail: string
+  link: string
+}): { subject: string; html: string } {
+  const { request, senderEmail, link } = params
+  const total = request.lines.reduce((t, l) => t + l.budget, 0)
+  const message = request.message.trim()
+    ? paragraph(`<div style="padding:10px 12px;background:#f6f8fa;border-radius:6px;white-space:pre-wrap;">${escapeHtml(request.message)}</div>`)
+    : ""
+  return {
+    subject: `Approval requested: ${request.campaign_name} (${request.mba_number} v${request.media_plan_version})`,
+    html: emailShell(
+      "Media plan ready for your approval",
+      [
+        paragraph(
+          `${escapeHtml(senderEmail)} has sent version ${request.media_plan_version} of <strong>${escapeHtml(request.campaign_name)}</strong> (${escapeHtml(request.mba_number)}) for approval — ${request.lines.length} line items, ${escapeHtml(formatAUD(total))} planned.`
+        ),
+        message,
+        button(link, "Review and approve"),
+      ].join("")
+    ),
+  }
+}
+
+export function buildApprovalResponseEmail(params: {
+  request: Pick<MbaApprovalRequest, "mba_number" | "media_plan_version" | "campaign_name" | "lines">
+  decisions: ApprovalDecisionInput[]
+  responderEmail: string
+  link: string
+}): { subject: string; html: string } {
+  const { request, decisions, responderEmail, link } = params
+  const { approved, rejected } = summariseApprovalDecisions(decisions)
+  const labels = new Map(request.lines.map((l) => [lineKey(l.media_type, l.line_item_id), l.label]))
+  const rejectedRows = decisions
+    .filter((d) => d.decision === "rejected")
+    .map(
+      (d) => `<tr>
+        <td style="padding:8px 10px;border-bottom:1px solid #d0d7de;font-family:Arial,Helvetica,sans-serif;font-size:13px;color:#24292f;">${escapeHtml(labels.get(lineKey(d.media_type, d.line_item_id)) ?? d.line_item_id)} <span style="color:#8c959f;">(${escapeHtml(approvalMediaTypeLabel(d.media_type))})</span></td>
+        <td style="padding:8px 10px;border-bottom:1px solid #d0d7de;font-family:Arial,Helvetica,sans-serif;font-size:13px;color:#24292f;">${escapeHtml(d.comment)}</td>
+      </tr>`
+    )
+    .join("")
+  const rejectedTable = rejectedRows
+    ? `<tr><td style="padding:4px 24px 12px;"><table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse;border:1px solid #d0d7de;">
+    <tr style="background:#f6f8fa;">
+      <th align="left" style="padding:8px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#57606a;border-bottom:1px solid #d0d7de;">Rejected line</th>
+      <th align="left" style="padding:8px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#57606a;border-bottom:1px solid #d0d7de;">Comment</th>
+    </tr>
+    ${rejectedRows}
+  </table></td></tr>`
+    : ""
+  return {
+    subject: `${rejected > 0 ? "Changes requested" : "Approved"}: ${request.campaign_name} (${request.mba_number} v${request.media_plan_version})`,
+    html: emailShell(
+      rejected > 0 ? "Client requested changes" : "Client approved the media plan",
+      [
+        paragraph(
+          `${escapeHtml(responderEmail)} responded to version ${request.media_plan_version} of <strong>${escapeHtml(request.campaign_name)}</strong> (${escapeHtml(request.mba_number)}): ${approved} approved, ${rejected} rejected.`
+        ),
+        rejectedTable,
+        button(link, "Open campaign"),
+      ].join("")
+    ),
+  }
+}
@@ -0,0 +1,374 @@
+import { diffBillingSchedules, type ScheduleDiffChange } from "@/lib/finance/scheduleDiff"
+import { MEDIA_TYPE_LABELS } from "@/lib/media/mediaTypes"
+import { getBooleanField } from "@/lib/util/getBooleanField"
+import { formatBurstDateLocal } from "./burstDate"
+import { resolveLineItemBursts } from "./deriveBursts"
+import { parseBurstMoney } from "./formatBurstsForPersist"
+import { firstNonEmpty } from "./normalizeLineItem"
+
+/**
+ * Line-item diff between two versions of one MBA, as returned by
+ * `GET /api/mediaplans/mba/[mba_number]?version=N&billingScheduleFull=1`.
+ * Pure — the diff page fetches both versions and the Excel export reuses the result.
+ */
+
+/** The parts of the MBA GET payload the diff reads. */
+export type MediaPlanVersionSnapshot = {
+  versionNumber: number
+  lineItems: Record<string, unknown[]>
+  billingSchedule: unknown
+}
+
+export type VersionDiffBurst = {
+  startDate: string
+  endDate: string
+  budget: number
+  /** Buy rate (`buyAmount`) — CPM, CPC, spot rate etc. depending on buy type. */
+  buyAmount: number
+  /** Deliverables (`calculatedValue`) — impressions, clicks, spots… */
+  deliverables: number
+  feeAmount: number
+}
+
+export type BurstDiff =
+  | { kind: "added"; index: number; next: VersionDiffBurst }
+  | { kind: "removed"; index: number; previous: VersionDiffBurst }
+  | {
+      kind: "changed"
+      index: number
+      previous: VersionDiffBurst
+      next: VersionDiffBurst
+      datesChanged: boolean
+      budgetDelta: number
+      rateDelta: number
+      deliverablesDelta: number
+    }
+
+export type FieldDiff = { field: string; previous: string; next: string }
+
+export type FeeDiff = {
+  previousFeeTotal: number
+  nextFeeTotal: number
+  /** Flags that moved, e.g. "budget_includes_fees: no → yes". */
+  flagChanges: FieldDiff[]
+}
+
+export type LineItemDiffStatus = "added" | "removed" | "changed" | "unchanged"
+
+export type LineItemDiff = {
+  /** Container key from the MBA payload (`search`, `digitalDisplay`, …). */
+  mediaType: string
+  mediaTypeLabel: string
+  lineItemId: string
+  label: string
+  status: LineItemDiffStatus
+  previousBudget: number
+  nextBudget: number
+  fields: FieldDiff[]
+  bursts: BurstDiff[]
+  fees: FeeDiff | null
+}
+
+export type BillingMonthDelta = {
+  monthYear: string
+  previousTotal: number
+  nextTotal: number
+  /** Per-line movements in the month, from {@link diffBillingSchedules}. */
+  changes: ScheduleDiffChange[]
+}
+
+export type MediaPlanVersionDiff = {
+  fromVersion: number
+  toVersion: number
+  lineItems: LineItemDiff[]
+  billingMonths: BillingMonthDelta[]
+  summary: {
+    added: number
+    removed: number
+    changed: number
+    unchanged: number
+    budgetDelta: number
+    billingDelta: number
+  }
+}
+
+/** MBA payload container keys that differ from the {@link MEDIA_TYPE_LABELS} keys. */
+const CONTAINER_LABEL_KEYS: Record<string, string> = {
+  digitalDisplay: "digiDisplay",
+  digitalAudio: "digiAudio",
+  digitalVideo: "digiVideo",
+}
+
+/** Descriptive columns compared per line; first non-empty alias wins. */
+const COMPARED_FIELDS: { field: string; aliases: string[] }[] = [
+  { field: "publisher", aliases: ["publisher", "platform", "network", "station", "site"] },
+  { field: "market", aliases: ["market"] },
+  { field: "title", aliases: ["title", "placement", "format"] },
+  { field: "targeting", aliases: ["creative_targeting", "creativeTargeting", "targeting"] },
+  { field: "creative", aliases: ["creative"] },
+  { field: "buy_type", aliases: ["buy_type", "buyType"] },
+  { field: "bid_strategy", aliases: ["bid_strategy", "bidStrategy"] },
+  { field: "buying_demo", aliases: ["buying_demo", "buyingDemo"] },
+]
+
+const FEE_FLAGS: { field: string; snake: string; camel: string }[] = [
+  { field: "budget_includes_fees", snake: "budget_includes_fees", camel: "budgetIncludesFees" },
+  { field: "client_pays_for_media", snake: "client_pays_for_media", camel: "clientPaysForMedia" },
+]
+
+type IndexedLine = {
+  mediaType: string
+  lineItemId: string
+  label: string
+  fields: Record<string, string>
+  flags: Record<string, boolean>
+  bursts: VersionDiffBurst[]
+  budget: number
+  feeTotal: number
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+/** Billing / {@link MEDIA_TYPE_LABELS} key for an MBA payload container key. */
+export function mediaTypeKeyForContainer(container: string): string {
+  return CONTAINER_LABEL_KEYS[container] ?? container
+}
+
+function mediaTypeLabel(mediaType: string): string {
+  return MEDIA_TYPE_LABELS[mediaTypeKeyForContainer(mediaType)] ?? mediaType
+}
+
+function readBursts(item: any): VersionDiffBurst[] {
+  return resolveLineItemBursts(item).map((b: any) => ({
+    startDate: formatBurstDateLocal(b?.startDate ?? b?.start_date ?? ""),
+    endDate: formatBurstDateLocal(b?.endDate ?? b?.end_date ?? ""),
+    budget: parseBurstMoney(b?.budget),
+    buyAmount: parseBurstMoney(b?.buyAmount ?? b?.buy_amount),
+    deliverables: parseBurstMoney(b?.calculatedValue ?? b?.calculated_value ?? b?.deliverables),
+    feeAmount: parseBurstMoney(b?.feeAmount ?? b?.fee_amount),
+  }))
+}
+
+function indexLines(lineItems: Record<string, unknown[]>): Map<string, IndexedLine> {
+  const out = new Map<string, IndexedLine>()
+  for (const [mediaType, items] of Object.entries(lineItems ?? {})) {
+    if (!Array.isArray(items)) continue
+    items.forEach((item: any, i) => {
+      const rawId = String(firstNonEmpty(item?.line_item_id, item?.lineItemId) || "").trim()
+      const lineItemId = rawId || `${mediaType}#${i + 1}`
+      const fields: Record<string, string> = {}
+      for (const { field, aliases } of COMPARED_FIELDS) {
+        fields[field] = String(firstNonEmpty(...aliases.map((a) => item?.[a])) || "").trim()
+      }
+      const flags: Record<string, boolean> = {}
+      for (const { field, snake, camel } of FEE_FLAGS) {
+        flags[field] = getBooleanField(item ?? {}, snake, camel, false) === true
+      }
+      const bursts = readBursts(item)
+      out.set(`${mediaType}::${lineItemId.toLowerCase()}`, {
+        mediaType,
+        lineItemId,
+        label: fields.publisher || lineItemId,
+        fields,
+        flags,
+        bursts,
+        budget: round2(bursts.reduce((t, b) => t + b.budget, 0)),
+        feeTotal: round2(bursts.reduce((t, b) => t + b.feeAmount, 0)),
+      })
+    })
+  }
+  return out
+}
+
+type BurstDates = Pick<VersionDiffBurst, "startDate" | "endDate">
+
+type BurstPair = { previousIndex: number | null; nextIndex: number | null }
+
+/**
+ * Pair bursts by identity rather than position, so inserting or deleting one
+ * burst doesn't shift every later one: exact date range first, then a shared
+ * start date, then a shared end date, then whatever is left in order (both
+ * dates moved). Pairs come back in next-version order, removals at the
+ * position they held.
+ */
+function pairBursts(previous: readonly BurstDates[], next: readonly BurstDates[]): BurstPair[] {
+  const previousFor = new Map<number, number>()
+  const taken = new Set<number>()
+  const match = (same: (a: BurstDates, b: BurstDates) => boolean) => {
+    next.forEach((b, j) => {
+      if (previousFor.has(j)) return
+      const i = previous.findIndex((a, i) => !taken.has(i) && same(a, b))
+      if (i < 0) return
+      previousFor.set(j, i)
+      taken.add(i)
+    })
+  }
+  match((a, b) => a.startDate === b.startDate && a.endDate === b.endDate)
+  match((a, b) => a.startDate === b.startDate)
+  match((a, b) => a.endDate === b.endDate)
+  const leftover = previous.map((_, i) => i).filter((i) => !taken.has(i))
+  next.forEach((_, j) => {
+    if (previousFor.has(j) || leftover.length === 0) return
+    const i = leftover.shift()!
+    previousFor.set(j, i)
+    taken.add(i)
+  })
+
+  const pairs: BurstPair[] = next.map((_, j) => ({ previousIndex: previousFor.get(j) ?? null, nextIndex: j }))
+  previous.forEach((_, i) => {
+    if (taken.has(i)) return
+    const at = pairs.findIndex((p) => p.nextIndex !== null && p.nextIndex >= i)
+    pairs.splice(at < 0 ? pairs.length : at, 0, { previousIndex: i, nextIndex: null })
+  })
+  return pairs
+}
+
+function diffBursts(previous: VersionDiffBurst[], next: VersionDiffBurst[]): BurstDiff[] {
+  const out: BurstDiff[] = []
+  for (const { previousIndex, nextIndex } of pairBursts(previous, next)) {
+    const a = previousIndex === null ? undefined : previous[previousIndex]
+    const b = nextIndex === null ? undefined : next[nextIndex]
+    if (!a && b) out.push({ kind: "added", index: nextIndex!, next: b })
+    else if (a && !b) out.push({ kind: "removed", index: previousIndex!, previous: a })
+    else if (a && b) {
+      const datesChanged = a.startDate !== b.startDate || a.endDate !== b.endDate
+      const budgetDelta = round2(b.budget - a.budget)
+      const rateDelta = round2(b.buyAmount - a.buyAmount)
+      const deliverablesDelta = round2(b.deliverables - a.deliverables)
+      if (datesChanged || budgetDelta !== 0 || rateDelta !== 0 || deliverablesDelta !== 0) {
+        out.push({
+          kind: "changed",
+          index: nextIndex!,
+          previous: a,
+          next: b,
+          datesChanged,
+          budgetDelta,
+          rateDelta,
+          deliverablesDelta,
+        })
+      }
+    }
+  }
+  return out
+}
+
+function diffFees(previous: IndexedLine, next: IndexedLine): FeeDiff | null {
+  const flagChanges: FieldDiff[] = FEE_FLAGS.filter(({ field }) => previous.flags[field] !== next.flags[field]).map(
+    ({ field }) => ({
+      field,
+      previous: previous.flags[field] ? "yes" : "no",
+      next: next.flags[field] ? "yes" : "no",
+    })
+  )
+  if (previous.feeTotal === next.feeTotal && flagChanges.length === 0) return null
+  return { previousFeeTotal: previous.feeTotal, nextFeeTotal: next.feeTotal, flagChanges }
+}
+
+function diffLine(previous: IndexedLine | undefined, next: IndexedLine | undefined): LineItemDiff {
+  const base = (next ?? previous)!
+  const common = {
+    mediaType: base.mediaType,
+    mediaTypeLabel: mediaTypeLabel(base.mediaType),
+    lineItemId: base.lineItemId,
+    label: base.label,
+    previousBudget: previous?.budget ?? 0,
+    nextBudget: next?.budget ?? 0,
+  }
+  if (!previous) {
+    return { ...common, status: "added", fields: [], bursts: diffBursts([], next!.bursts), fees: null }
+  }
+  if (!next) {
+    return { ...common, status: "removed", fields: [], bursts: diffBursts(previous.bursts, []), fees: null }
+  }
+
+  const fields = COMPARED_FIELDS.filter(({ field }) => previous.fields[field] !== next.fields[field]).map(
+    ({ field }) => ({ field, previous: previous.fields[field]!, next: next.fields[field]! })
+  )
+  const bursts = diffBursts(previous.bursts, next.bursts)
+  const fees = diffFees(previous, next)
+  const changed = fields.length > 0 || bursts.length > 0 || fees !== null
+  return { ...common, status: changed ? "changed" : "unchanged", fields, bursts, fees }
+}
+
+/** Billing schedule months keyed by monthYear, in schedule order. */
+function scheduleMonths(schedule: unknown): Map<string, Record<string, unknown>> {
+  const out = new Map<string, Record<string, unknown>>()
+  if (!Array.isArray(schedule)) return out
+  for (const entry of schedule) {
+    if (!entry || typeof entry !== "object") continue
+    const monthYear = String((entry as Record<string, unknown>).monthYear ?? "")
+    if (monthYear) out.set(monthYear, entry as Record<string, unknown>)
+  }
+  return out
+}
+
+function monthMediaTotal(entry: Record<string, unknown> | undefined): number {
+  const mediaTypes = entry?.mediaTypes
+  if (!Array.isArray(mediaTypes)) return 0
+  let total = 0
+  for (const mt of mediaTypes) {
+    const lineItems = (mt as Record<string, unknown> | null)?.lineItems
+    if (!Array.isArray(lineItems)) continue
+    for (const li of lineItems) total += parseBurstMoney((li as Record<string, unknown> | null)?.amount)
+  }
+  return round2(total)
+}
+
+/**
+ * Month-by-month billing deltas. {@link diffBillingSchedules} is stable on
+ * lineItemId only, so it runs once per month to keep each month's movements.
+ */
+export function diffBillingScheduleMonths(previous: unknown, next: unknown): BillingMonthDelta[] {
+  const prevMonths = scheduleMonths(previous)
+  const nextMonths = scheduleMonths(next)
+  const monthYears = [...new Set([...prevMonths.keys(), ...nextMonths.keys()])]
+
+  const out: BillingMonthDelta[] = []
+  for (const monthYear of monthYears) {
+    const a = prevMonths.get(monthYear)
+    const b = nextMonths.get(monthYear)
+    const changes = diffBillingSchedules(a ? [a] : [], b ? [b] : [])
+    const previousTotal = monthMediaTotal(a)
+    const nextTotal = monthMediaTotal(b)
+    if (changes.length === 0 && previousTotal === nextTotal) continue
+    out.push({ monthYear, previousTotal, nextTotal, changes })
+  }
+  return out
+}
+
+const STATUS_ORDER: Record<LineItemDiffStatus, number> = { changed: 0, added: 1, removed: 2, unchanged: 3 }
+
+export function diffMediaPlanVersions(
+  from: MediaPlanVersionSnapshot,
+  to: MediaPlanVersionSnapshot
+): MediaPlanVersionDiff {
+  const previous = indexLines(from.lineItems)
+  const next = indexLines(to.lineItems)
+  const keys = [...new Set([...previous.keys(), ...next.keys()])]
+
+  const lineItems = keys
+    .map((key) => diffLine(previous.get(key), next.get(key)))
+    .sort(
+      (a, b) =>
+        a.mediaTypeLabel.localeCompare(b.mediaTypeLabel) ||
+        STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+        a.lineItemId.localeCompare(b.lineItemId)
+    )
+  const billingMonths = diffBillingScheduleMonths(from.billingSchedule, to.billingSchedule)
+
+  const count = (status: LineItemDiffStatus) => lineItems.filter((l) => l.status === status).length
+  return {
+    fromVersion: from.versionNumber,
+    toVersion: to.versionNumber,
+    lineItems,
+    billingMonths,
+    summary: {
+      added: count("added"),
+      removed: count("removed"),
+      changed: count("changed"),
+      unchanged: count("unchanged"),
+      budgetDelta: round2(lineItems.reduce((t, l) => t + l.nextBudget - l.previousBudget, 0)),
+      billingDelta: round2(billingMonths.reduce((t, m) => t + m.nextTotal - m.previousTotal, 0)),
+    },
+  }
+}
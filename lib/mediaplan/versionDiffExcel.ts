@@ -0,0 +1,132 @@
+import type ExcelJS from "exceljs"
+import { saveAs } from "file-saver"
+import { parseBurstMoney } from "@/lib/mediaplan/formatBurstsForPersist"
+import type { BurstDiff, MediaPlanVersionDiff } from "@/lib/mediaplan/versionDiff"
+
+const MONEY_FMT = "$#,##0.00"
+
+const HEADER_FILL: ExcelJS.Fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFF1F5F9" } }
+
+const STATUS_FILL: Record<string, string> = {
+  added: "FFE8F5E9",
+  removed: "FFFFEBEE",
+  changed: "FFFFF8E1",
+}
+
+function styleHeader(sheet: ExcelJS.Worksheet) {
+  const header = sheet.getRow(1)
+  header.font = { bold: true }
+  header.fill = HEADER_FILL
+  sheet.views = [{ state: "frozen", ySplit: 1 }]
+}
+
+function describeBurst(b: BurstDiff): string {
+  const n = b.index + 1
+  if (b.kind === "added") return `Burst ${n} added: ${b.next.startDate} – ${b.next.endDate}`
+  if (b.kind === "removed") return `Burst ${n} removed: ${b.previous.startDate} – ${b.previous.endDate}`
+  const parts: string[] = []
+  if (b.datesChanged) {
+    parts.push(`${b.previous.startDate} – ${b.previous.endDate} → ${b.next.startDate} – ${b.next.endDate}`)
+  }
+  if (b.budgetDelta !== 0) parts.push(`budget ${b.previous.budget} → ${b.next.budget}`)
+  if (b.rateDelta !== 0) parts.push(`rate ${b.previous.buyAmount} → ${b.next.buyAmount}`)
+  if (b.deliverablesDelta !== 0) parts.push(`deliverables ${b.previous.deliverables} → ${b.next.deliverables}`)
+  return `Burst ${n}: ${parts.join("; ")}`
+}
+
+/** Three sheets: per-line summary, burst/field/fee detail, billing month deltas. */
+export async function exportVersionDiffWorkbook(diff: MediaPlanVersionDiff, mbaNumber: string) {
+  const ExcelJS = (await import("exceljs")).default
+  const workbook = new ExcelJS.Workbook()
+
+  const lines = workbook.addWorksheet("Line items")
+  lines.columns = [
+    { header: "Media type", key: "mediaType", width: 22 },
+    { header: "Line item ID", key: "lineItemId", width: 22 },
+    { header: "Publisher", key: "label", width: 28 },
+    { header: "Status", key: "status", width: 12 },
+    { header: `v${diff.fromVersion} budget`, key: "previous", width: 16 },
+    { header: `v${diff.toVersion} budget`, key: "next", width: 16 },
+    { header: "Delta", key: "delta", width: 16 },
+  ]
+  for (const l of diff.lineItems) {
+    const row = lines.addRow({
+      mediaType: l.mediaTypeLabel,
+      lineItemId: l.lineItemId,
+      label: l.label,
+      status: l.status,
+      previous: l.previousBudget,
+      next: l.nextBudget,
+      delta: l.nextBudget - l.previousBudget,
+    })
+    const fill = STATUS_FILL[l.status]
+    if (fill) row.getCell("status").fill = { type: "pattern", pattern: "solid", fgColor: { argb: fill } }
+  }
+  for (const key of ["previous", "next", "delta"]) lines.getColumn(key).numFmt = MONEY_FMT
+  styleHeader(lines)
+
+  const detail = workbook.addWorksheet("Changes")
+  detail.columns = [
+    { header: "Media type", key: "mediaType", width: 22 },
+    { header: "Line item ID", key: "lineItemId", width: 22 },
+    { header: "Area", key: "area", width: 12 },
+    { header: "Change", key: "change", width: 80 },
+  ]
+  for (const l of diff.lineItems) {
+    const base = { mediaType: l.mediaTypeLabel, lineItemId: l.lineItemId }
+    for (const f of l.fields) {
+      detail.addRow({ ...base, area: "Field", change: `${f.field}: "${f.previous}" → "${f.next}"` })
+    }
+    for (const b of l.bursts) detail.addRow({ ...base, area: "Burst", change: describeBurst(b) })
+    if (l.fees) {
+      if (l.fees.previousFeeTotal !== l.fees.nextFeeTotal) {
+        detail.addRow({
+          ...base,
+          area: "Fees",
+          change: `Fee total ${l.fees.previousFeeTotal} → ${l.fees.nextFeeTotal}`,
+        })
+      }
+      for (const f of l.fees.flagChanges) {
+        detail.addRow({ ...base, area: "Fees", change: `${f.field}: ${f.previous} → ${f.next}` })
+      }
+    }
+  }
+  styleHeader(detail)
+
+  const billing = workbook.addWorksheet("Billing months")
+  billing.columns = [
+    { header: "Month", key: "month", width: 14 },
+    { header: "Line item ID", key: "lineItemId", width: 22 },
+    { header: "Media type", key: "mediaType", width: 22 },
+    { header: "Change", key: "kind", width: 14 },
+    { header: `v${diff.fromVersion}`, key: "previous", width: 16 },
+    { header: `v${diff.toVersion}`, key: "next", width: 16 },
+  ]
+  for (const m of diff.billingMonths) {
+    const total = billing.addRow({
+      month: m.monthYear,
+      lineItemId: "Month total",
+      previous: m.previousTotal,
+      next: m.nextTotal,
+    })
+    total.font = { bold: true }
+    for (const c of m.changes) {
+      billing.addRow({
+        month: m.monthYear,
+        lineItemId: c.lineItemId,
+        mediaType: c.mediaType ?? "",
+        kind: c.kind.replace("_", " "),
+        previous: c.kind === "line_add" ? null : parseBurstMoney(c.old_value),
+        next: c.kind === "line_remove" ? null : parseBurstMoney(c.new_value),
+      })
+    }
+  }
+  for (const key of ["previous", "next"]) billing.getColumn(key).numFmt = MONEY_FMT
+  styleHeader(billing)
+
+  const buffer = await workbook.xlsx.writeBuffer()
+  saveAs(
+    new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }),
+    `${mbaNumber}_v${diff.fromVersion}_vs_v${diff.toVersion}.xlsx`
+  )
+}
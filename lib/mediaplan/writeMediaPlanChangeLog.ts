@@ -0,0 +1,188 @@
+import "server-only"
+
+import axios from "axios"
+import type { NextRequest } from "next/server"
+
+import { internalMediaPlanByMbaUrl } from "@/lib/api/internalBaseUrl"
+import { parseXanoListPayload, xanoAuthHeaderRecord, xanoPostHeaderRecord, xanoUrl } from "@/lib/api/xano"
+import { getCurrentUser } from "@/lib/auth/getCurrentUser"
+import { changeLogEntriesFromDiff } from "@/lib/mediaplan/changeLog"
+import { diffMediaPlanVersions, type MediaPlanVersionSnapshot } from "@/lib/mediaplan/versionDiff"
+import { createMediaPlanChangeLogEntries, listMediaPlanChangeLog } from "@/lib/xano/mediaPlanChangeLog"
+
+/**
+ * Media plan change log, written by the MBA save endpoints themselves so every
+ * save path (edit page, create page, Ava-applied plans) is logged. Before and
+ * after values always come from stored versions, never from the caller:
+ * - a new version is diffed against the version it replaces when it is published;
+ * - a draft overwritten in place is diffed against the line items the version
+ *   held when the PUT overwrote it, kept on the version row as
+ *   `change_log_baseline` until the change-log POST records the save once its
+ *   channel writes are done.
+ *
+ * Failures never fail the save — the plan is already stored — but are
+ * returned as `error` so the in-place save can tell the user.
+ */
+
+type LineItems = MediaPlanVersionSnapshot["lineItems"]
+
+const MEDIA_PLANS_KEYS = ["XANO_MEDIA_PLANS_BASE_URL", "XANO_MEDIAPLANS_BASE_URL"]
+
+/** One stored version's line items via the MBA GET (the payload the diff page reads). */
+async function loadVersionLineItems(request: NextRequest, mbaNumber: string, version: number): Promise<LineItems> {
+  const response = await fetch(`${internalMediaPlanByMbaUrl(mbaNumber)}?version=${version}`, {
+    cache: "no-store",
+    headers: { cookie: request.headers.get("cookie") ?? "" },
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to load version ${version}: ${response.status}`)
+  }
+  const plan = (await response.json()) as Record<string, unknown>
+  return plan.lineItems && typeof plan.lineItems === "object" ? (plan.lineItems as LineItems) : {}
+}
+
+function parseBaseline(raw: unknown): LineItems | null {
+  let value = raw
+  if (typeof value === "string") {
+    if (!value.trim()) return null
+    try {
+      value = JSON.parse(value)
+    } catch {
+      return null
+    }
+  }
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as LineItems) : null
+}
+
+/**
+ * Baseline to store on a draft version row before a PUT overwrites it, or
+ * undefined to leave the row's field alone. A baseline already pending (a
+ * follow-up PUT within the same save) is kept, so it still holds the values
+ * from before the save started.
+ */
+export async function captureChangeLogBaseline(
+  request: NextRequest,
+  mbaNumber: string,
+  versionRow: { version_number?: unknown; change_log_baseline?: unknown } | null | undefined
+): Promise<string | undefined> {
+  if (!versionRow || parseBaseline(versionRow.change_log_baseline)) return undefined
+  const version = Number(versionRow.version_number)
+  if (!Number.isFinite(version) || version <= 0) return undefined
+  try {
+    return JSON.stringify(await loadVersionLineItems(request, mbaNumber, version))
+  } catch (error) {
+    console.error("[media-plan-change-log] failed to capture baseline", {
+      mbaNumber,
+      version,
+      message: error instanceof Error ? error.message : String(error),
+    })
+    return undefined
+  }
+}
+
+export type PublishedSave = {
+  mbaNumber: string
+  /** master.version_number before the publish. */
+  publishedVersion: number
+  /** Version being published; equal to publishedVersion for an in-place draft save. */
+  toVersion: number
+  /** Stored version row being published (carries `change_log_baseline` for in-place saves). */
+  versionRow: { id?: unknown; change_log_baseline?: unknown } | null
+}
+
+export type ChangeLogWriteResult = { attempted: number; succeeded: number; error?: string }
+
+/**
+ * Diff a published save against its stored predecessor and write one row per
+ * changed field. A retried publish of a new version is not logged twice; an
+ * in-place save without a pending baseline has nothing to compare and is skipped.
+ */
+export async function writeMediaPlanChangeLog(
+  request: NextRequest,
+  save: PublishedSave
+): Promise<ChangeLogWriteResult> {
+  const none = { attempted: 0, succeeded: 0 }
+  const { mbaNumber, publishedVersion, toVersion, versionRow } = save
+  const inPlace = toVersion === publishedVersion
+  if (toVersion <= 0 || toVersion < publishedVersion) return none
+
+  try {
+    const user = await getCurrentUser(request)
+    if (!user) {
+      console.error("[media-plan-change-log] no user resolved; skipping change log")
+      return none
+    }
+
+    let before: LineItems | null
+    if (inPlace) {
+      before = parseBaseline(versionRow?.change_log_baseline)
+      if (!before) return none
+    } else {
+      const existing = await listMediaPlanChangeLog(mbaNumber)
+      if (existing.some((e) => e.version_number === toVersion && e.from_version === publishedVersion)) return none
+      before = publishedVersion > 0 ? await loadVersionLineItems(request, mbaNumber, publishedVersion) : {}
+    }
+    const after = await loadVersionLineItems(request, mbaNumber, toVersion)
+
+    const diff = diffMediaPlanVersions(
+      { versionNumber: publishedVersion, lineItems: before, billingSchedule: null },
+      { versionNumber: toVersion, lineItems: after, billingSchedule: null }
+    )
+    const written = await createMediaPlanChangeLogEntries(
+      changeLogEntriesFromDiff(diff, {
+        mbaNumber,
+        changedBy: user.email ?? user.name ?? String(user.id),
+        changedByName: user.name ?? user.email ?? String(user.id),
+        changedAt: Date.now(),
+      })
+    )
+    if (written.succeeded < written.attempted) {
+      console.warn("[media-plan-change-log] partial write", { mbaNumber, toVersion, ...written })
+      return { ...written, error: `${written.attempted - written.succeeded} of ${written.attempted} changes not recorded` }
+    }
+
+    if (inPlace && versionRow?.id != null) {
+      await axios.patch(
+        xanoUrl(`media_plan_versions/${versionRow.id}`, MEDIA_PLANS_KEYS),
+        { change_log_baseline: null },
+        { headers: xanoPostHeaderRecord() }
+      )
+    }
+    return written
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    console.error("[media-plan-change-log] failed to record save", { mbaNumber, toVersion, message })
+    return { ...none, error: message }
+  }
+}
+
+/** Record a draft overwritten in place, against the baseline its PUT kept on the version row. */
+export async function writeInPlaceSaveChangeLog(
+  request: NextRequest,
+  mbaNumber: string,
+  versionNumber: number
+): Promise<ChangeLogWriteResult> {
+  let versionRow: Record<string, unknown> | null
+  try {
+    const response = await axios.get(xanoUrl("media_plan_versions", MEDIA_PLANS_KEYS), {
+      headers: xanoAuthHeaderRecord(),
+      params: { mba_number: mbaNumber, version_number: versionNumber, page: 1, per_page: 50 },
+    })
+    versionRow =
+      parseXanoListPayload(response.data).find(
+        (row) =>
+          String(row?.mba_number ?? "").trim().toLowerCase() === mbaNumber.toLowerCase() &&
+          Number(row?.version_number) === versionNumber
+      ) ?? null
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    console.error("[media-plan-change-log] failed to load version row", { mbaNumber, versionNumber, message })
+    return { attempted: 0, succeeded: 0, error: message }
+  }
+  return writeMediaPlanChangeLog(request, {
+    mbaNumber,
+    publishedVersion: versionNumber,
+    toVersion: versionNumber,
+    versionRow,
+  })
+}
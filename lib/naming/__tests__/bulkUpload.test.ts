@@ -0,0 +1,206 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+
+import {
+  buildBulkUploadExports,
+  bulkUploadErrorCount,
+  lineItemFlights,
+} from "../bulkUpload.js"
+import type { TraffickingExportPlatform } from "../exportTraffickingWorkbook.js"
+import type { PlanGlobals } from "../fromPlan.js"
+import { getTemplate } from "../templates.js"
+import type { NamingTemplate } from "../types.js"
+
+const GLOBALS: PlanGlobals = {
+  brand: "jayco",
+  client: "jayco",
+  campaign: "summer",
+  mba: "JAYCO001",
+  month_start: "jan26",
+  campaign_start_date: "2026-01-05",
+}
+
+function mustGet(platform: string, level: string): NamingTemplate {
+  const t = getTemplate(platform, level)
+  assert.ok(t, `missing template ${platform}/${level}`)
+  return t
+}
+
+const LINE_ITEMS: Record<string, unknown[]> = {
+  progDisplay: [
+    {
+      line_item_id: "jayco001pd1",
+      bursts_json: JSON.stringify([
+        { startDate: "2026-02-01", endDate: "2026-02-28", budget: "$2,000" },
+        { startDate: "2026-01-05", endDate: "2026-01-31", budget: 1000 },
+      ]),
+    },
+    {
+      line_item_id: "jayco001pd2",
+      bursts: [{ start_date: "2026-01-05", end_date: "2026-01-31", budget: 500 }],
+    },
+  ],
+  socialMedia: [
+    { line_item_id: "jayco001sm1", bursts_json: [{ startDate: "2026-01-05", endDate: "2026-01-14", budget: 1000 }] },
+    { line_item_id: "jayco001sm2", bursts_json: [] },
+  ],
+}
+
+const DV360_CAMPAIGN = "jayco-summer-jayco001-jan26-programmatic"
+const DV360_IO = "jayco-summer-display"
+
+function dv360Platform(): TraffickingExportPlatform {
+  const campaignValues = {
+    brand: "jayco",
+    campaign: "summer",
+    mba: "jayco001",
+    month_start: "jan26",
+    programmatic: "programmatic",
+  }
+  const lineValues = (id: string, targeting: string) => ({
+    brand: "jayco",
+    campaign: "summer",
+    media_type: "display",
+    targeting,
+    line_item_id: id,
+    campaign_name: DV360_CAMPAIGN,
+    io_name: DV360_IO,
+  })
+  return {
+    platform: "dv360",
+    levels: [
+      { template: mustGet("dv360", "campaign"), rows: [{ values: campaignValues }] },
+      {
+        template: mustGet("dv360", "insertion_order"),
+        rows: [{ values: { brand: "jayco", campaign: "summer", media_type: "display" } }],
+      },
+      {
+        template: mustGet("dv360", "line_item"),
+        rows: [
+          { values: lineValues("jayco001pd1", "retargeting") },
+          { values: lineValues("jayco001pd2", "contextual") },
+          { values: lineValues("jayco001pd3", "contextual"), excluded: true },
+        ],
+      },
+      // Ads are not part of the upload; an unfinished ad row must not block it.
+      { template: mustGet("dv360", "ad"), rows: [{ values: {} }] },
+    ],
+  }
+}
+
+test("lineItemFlights rolls bursts up to first start, last end and summed budget", () => {
+  const flights = lineItemFlights(LINE_ITEMS)
+  const pd1 = flights.get("jayco001pd1")!
+  assert.equal(pd1.startDate, "2026-01-05")
+  assert.equal(pd1.endDate, "2026-02-28")
+  assert.equal(pd1.budget, 3000)
+  assert.equal(pd1.bursts.length, 2)
+  assert.equal(flights.get("jayco001pd2")?.budget, 500)
+  assert.equal(flights.has("jayco001sm2"), false)
+})
+
+test("lineItemFlights budgets net media when the budget includes fees", () => {
+  const flights = lineItemFlights({
+    socialMedia: [
+      {
+        line_item_id: "jayco001sm1",
+        budget_includes_fees: true,
+        bursts_json: [
+          { startDate: "2026-01-05", endDate: "2026-01-14", budget: 1100, mediaAmount: 1000, feeAmount: 100 },
+          { startDate: "2026-01-15", endDate: "2026-01-31", budget: 550, feeAmount: 50 },
+        ],
+      },
+      {
+        line_item_id: "jayco001sm2",
+        budget_includes_fees: false,
+        bursts_json: [{ startDate: "2026-01-05", endDate: "2026-01-31", budget: 800, feeAmount: 80 }],
+      },
+    ],
+  })
+  const sm1 = flights.get("jayco001sm1")
+  assert.ok(sm1)
+  assert.equal(sm1.budget, 1500)
+  assert.deepEqual(sm1.bursts.map((b) => b.budget), [1000, 500])
+  assert.equal(flights.get("jayco001sm2")?.budget, 800)
+})
+
+test("DV360 SDF: campaign, insertion order with budget segments, and line items from bursts", () => {
+  const [sdf] = buildBulkUploadExports({ globals: GLOBALS, platforms: [dv360Platform()], lineItems: LINE_ITEMS })
+  assert.equal(sdf.format, "dv360_sdf")
+  assert.equal(bulkUploadErrorCount(sdf), 0)
+  assert.equal(sdf.filename, "jayco001-dv360-sdf.zip")
+  assert.deepEqual(
+    sdf.files.map((f) => [f.filename, f.rows]),
+    [
+      ["jayco001-dv360-sdf-campaigns.csv", 1],
+      ["jayco001-dv360-sdf-insertion-orders.csv", 1],
+      ["jayco001-dv360-sdf-line-items.csv", 2],
+    ],
+  )
+
+  const [campaigns, ios, lines] = sdf.files.map((f) => f.content.split("\r\n"))
+  assert.equal(campaigns[1], `,,${DV360_CAMPAIGN},Paused,3500.00,01/05/2026,02/28/2026`)
+  assert.equal(
+    ios[1],
+    `,,${DV360_IO},Draft,Standard,Amount,(1500.00; 01/05/2026; 01/31/2026; ; ;); (2000.00; 02/01/2026; 02/28/2026; ; ;);,Flight,Even,Campaign: ${DV360_CAMPAIGN}`,
+  )
+  assert.equal(
+    lines[1],
+    `,,Display,jayco-summer-display-retargeting-jayco001pd1,Draft,01/05/2026 00:00,02/28/2026 23:59,Amount,3000.00,Flight,Even,Insertion order: ${DV360_IO}`,
+  )
+})
+
+test("validation preview flags missing bursts, unknown parents and splits shared line budgets", () => {
+  const campaignName = "fbig-jayco-summer-fy26q3-traffic"
+  const adSet = (id: string, geo: string, campaign = campaignName) => ({
+    values: { campaign_name: campaign, geo, targeting: "prospecting", line_item_id: id },
+  })
+  const meta: TraffickingExportPlatform = {
+    platform: "meta",
+    levels: [
+      {
+        template: mustGet("meta", "campaign"),
+        rows: [
+          {
+            values: {
+              platform_code: "fbig",
+              client: "jayco",
+              campaign: "summer",
+              timing: "fy26q3",
+              objective: "traffic",
+            },
+          },
+        ],
+      },
+      {
+        template: mustGet("meta", "ad_set"),
+        rows: [
+          adSet("jayco001sm1", "vic"),
+          adSet("jayco001sm1", "nsw"),
+          adSet("jayco001sm2", "vic"),
+          adSet("jayco001sm1", "qld", "fbig-jayco-other-fy26q3-traffic"),
+        ],
+      },
+    ],
+  }
+
+  const [upload] = buildBulkUploadExports({ globals: GLOBALS, platforms: [meta], lineItems: LINE_ITEMS })
+  const messages = upload.issues.map((issue) => `${issue.severity}: ${issue.message}`)
+  assert.ok(messages.includes("error: Line item jayco001sm2 has no bursts — flight dates and budget are unknown"))
+  assert.ok(messages.includes("error: fbig-jayco-other-fy26q3-traffic is not a valid, included campaign row"))
+  assert.ok(messages.includes("warning: 2 rows share line item jayco001sm1; its budget is split evenly between them"))
+  assert.equal(bulkUploadErrorCount(upload), 2)
+
+  assert.deepEqual(upload.lines.map((line) => line.flight.budget), [500, 500])
+  const rows = upload.files[0].content.split("\r\n")
+  assert.equal(rows.length, 3)
+  assert.equal(
+    rows[1],
+    `${campaignName},PAUSED,Outcome Traffic,AUCTION,${campaignName}-vic-prospecting-jayco001sm1,PAUSED,500.00,01/05/2026 00:00,01/14/2026 23:59`,
+  )
+})
+
+test("platforms without a bulk format are skipped", () => {
+  const native: TraffickingExportPlatform = { platform: "native", levels: [] }
+  assert.deepEqual(buildBulkUploadExports({ globals: GLOBALS, platforms: [native], lineItems: {} }), [])
+})
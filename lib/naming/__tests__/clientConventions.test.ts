@@ -0,0 +1,107 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+
+import {
+  HOUSE_NAMING_CONVENTIONS,
+  mergeNamingConventions,
+  resolveClientNamingConventions,
+  validateNamingConventionOverride,
+  type NamingConventionOverride,
+} from "../clientConventions.js"
+import { composeFormula, evaluateNamingFormula } from "../formula.js"
+import { tryComposeName } from "../exportTraffickingWorkbook.js"
+import { getTemplate } from "../templates.js"
+
+/** Client taxonomy: pipe-separated placements, geo before size, own size list. */
+const OVERRIDE: NamingConventionOverride = {
+  templates: [
+    {
+      platform: "cm360",
+      level: "placement",
+      separator: "|",
+      case: "lower",
+      elements: [
+        { key: "client", source: "plan" },
+        { key: "campaign", source: "plan" },
+        { key: "geo", source: "picklist", picklist: "geo" },
+        { key: "size", source: "picklist", picklist: "client_sizes" },
+        { key: "line_item_id", source: "plan", isLineItemId: true },
+      ],
+    },
+  ],
+  picklists: { client_sizes: ["300x250", "320x50"] },
+}
+
+test("mergeNamingConventions replaces the overridden level and keeps house pacing grain", () => {
+  const merged = mergeNamingConventions(OVERRIDE)
+  const placement = getTemplate("cm360", "placement", merged.templates)!
+  assert.equal(placement.separator, "|")
+  assert.equal(placement.isPacingGrain, true)
+  assert.deepEqual(
+    placement.elements.map((el) => el.key),
+    ["client", "campaign", "geo", "size", "line_item_id"],
+  )
+  assert.equal(getTemplate("cm360", "ad", merged.templates), getTemplate("cm360", "ad"))
+  assert.deepEqual(merged.picklists.client_sizes, ["300x250", "320x50"])
+  assert.deepEqual(merged.picklists.geo, HOUSE_NAMING_CONVENTIONS.picklists.geo)
+  assert.deepEqual(validateNamingConventionOverride(OVERRIDE), [])
+})
+
+test("validateNamingConventionOverride reports structural and picklist problems", () => {
+  const [placement] = OVERRIDE.templates
+  const issues = validateNamingConventionOverride({
+    templates: [
+      {
+        ...placement,
+        elements: [
+          { key: "line_item_id", source: "plan", isLineItemId: true },
+          { key: "region", source: "plan" },
+          { key: "size", source: "picklist", picklist: "missing_sizes" },
+        ],
+      },
+      { ...placement, level: "banner" },
+    ],
+    picklists: { client_sizes: ["300x250", "Big Box"] },
+  }).map((issue) => issue.message)
+
+  assert.ok(issues.includes('Unknown plan field "region"'))
+  assert.ok(issues.includes('Unknown picklist "missing_sizes" on element size'))
+  assert.ok(issues.some((m) => m.startsWith("isLineItemId must be terminal")))
+  assert.ok(issues.includes("No house template to override for cm360/banner"))
+  assert.ok(issues.some((m) => m.startsWith('Picklist client_sizes: "Big Box" is not a slug')))
+})
+
+test("resolveClientNamingConventions falls back to the house set when the override is invalid", () => {
+  assert.equal(resolveClientNamingConventions(null).source, "house")
+  assert.equal(resolveClientNamingConventions(OVERRIDE).source, "client")
+
+  const broken = resolveClientNamingConventions({ ...OVERRIDE, picklists: {} })
+  assert.equal(broken.source, "house")
+  assert.equal(broken.conventions, HOUSE_NAMING_CONVENTIONS)
+  assert.ok(broken.issues.length > 0)
+})
+
+test("client separator and picklists flow through compose and the workbook formula", () => {
+  const { templates, picklists } = mergeNamingConventions(OVERRIDE)
+  const placement = getTemplate("cm360", "placement", templates)!
+  const values = {
+    client: "jayco",
+    campaign: "summer",
+    geo: "vic",
+    size: "320x50",
+    line_item_id: "jayco001dd1",
+  }
+
+  assert.deepEqual(tryComposeName(placement, values, picklists), {
+    ok: true,
+    name: "jayco|summer|vic|320x50|jayco001dd1",
+  })
+  // 728x90 is a house size but not on this client's list.
+  assert.equal(tryComposeName(placement, { ...values, size: "728x90" }, picklists).ok, false)
+
+  const refs = Object.fromEntries(Object.keys(values).map((key) => [key, `$${key}`]))
+  const formula = composeFormula(placement, refs)
+  assert.equal(formula, '=LOWER($client&"|"&$campaign&"|"&$geo&"|"&$size&"|"&$line_item_id)')
+  const cells = Object.fromEntries(Object.entries(values).map(([key, value]) => [`$${key}`, value]))
+  assert.equal(evaluateNamingFormula(formula, cells), "jayco|summer|vic|320x50|jayco001dd1")
+})
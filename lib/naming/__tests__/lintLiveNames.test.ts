@@ -0,0 +1,168 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+
+import {
+  findClosestLineItem,
+  lintLiveNames,
+  namingTargetsFor,
+  type ObservedLiveName,
+  type PlanLineItemRef,
+} from "../lintLiveNames.js"
+import { mergeNamingConventions } from "../clientConventions.js"
+import { diagnoseName } from "../parse.js"
+import { getTemplate } from "../templates.js"
+
+const META_CAMPAIGN = "fbig-jayco-jayco001-fy26q1-traffic"
+
+function observed(overrides: Partial<ObservedLiveName>): ObservedLiveName {
+  return {
+    source: "social",
+    channel: "Social - Meta",
+    kind: "entity",
+    name: `${META_CAMPAIGN}-nsw-lookalike-jayco001sm1`,
+    campaignName: META_CAMPAIGN,
+    factLineItemId: null,
+    spend: 100,
+    lastSeenDate: "2026-07-10",
+    ...overrides,
+  }
+}
+
+const LINE_ITEMS: PlanLineItemRef[] = [
+  { lineItemId: "jayco001sm1", mbaNumber: "MBA123", clientName: "Jayco", campaignName: "Summer" },
+  { lineItemId: "jayco001se1", mbaNumber: "MBA123", clientName: "Jayco", campaignName: "Summer" },
+]
+
+test("diagnoseName: names the failing element on flat templates", () => {
+  const campaign = getTemplate("meta", "campaign")!
+  assert.deepEqual(diagnoseName(campaign, META_CAMPAIGN), {
+    ok: true,
+    values: {
+      platform_code: "fbig",
+      client: "jayco",
+      campaign: "jayco001",
+      timing: "fy26q1",
+      objective: "traffic",
+    },
+  })
+
+  const badObjective = diagnoseName(campaign, "fbig-jayco-jayco001-fy26q1-reach")
+  assert.equal(badObjective.ok, false)
+  assert.equal(!badObjective.ok && badObjective.element, "objective")
+
+  const short = diagnoseName(campaign, "fbig-jayco-jayco001")
+  assert.equal(!short.ok && short.element, "timing")
+  assert.match(!short.ok ? short.message : "", /Expected 5–6 parts, found 3/)
+
+  const upper = diagnoseName(campaign, "FBIG-jayco-jayco001-fy26q1-traffic")
+  assert.equal(!upper.ok && upper.message, "Name is not lower case")
+
+  const literal = diagnoseName(getTemplate("dv360", "campaign")!, "jayco-jayco001-mba123-jan26-display")
+  assert.equal(!literal.ok && literal.element, "programmatic")
+})
+
+test("diagnoseName: blames the parent name inside composite templates", () => {
+  const adSet = getTemplate("meta", "ad_set")!
+  assert.equal(diagnoseName(adSet, `${META_CAMPAIGN}-nsw-lookalike-jayco001sm1`).ok, true)
+
+  const badParent = diagnoseName(adSet, "fbig-jayco-jayco001-q1-traffic-nsw-lookalike-jayco001sm1")
+  assert.equal(badParent.ok, false)
+  assert.equal(!badParent.ok && badParent.element, "campaign_name.timing")
+
+  const search = getTemplate("search", "ad_group")!
+  const noTheme = diagnoseName(search, "jayco-jayco001-search-brand-jayco001se1")
+  assert.equal(noTheme.ok, false)
+})
+
+test("namingTargetsFor routes fact rows to templates", () => {
+  assert.deepEqual(namingTargetsFor(observed({})), { platform: "meta", levels: ["ad_set"] })
+  assert.equal(namingTargetsFor(observed({ channel: "Social - TikTok" })), null)
+  assert.deepEqual(
+    namingTargetsFor({ source: "programmatic", channel: "Programmatic - Video", kind: "entity", campaignName: "jayco youtube" }),
+    { platform: "youtube", levels: ["line_item"] },
+  )
+  assert.deepEqual(
+    namingTargetsFor({ source: "programmatic", channel: "Ad Serving", kind: "campaign", campaignName: "x" }),
+    { platform: "cm360", levels: ["campaign"] },
+  )
+})
+
+test("findClosestLineItem prefers the fact id, then a name token, then a near miss", () => {
+  const byId = new Map(LINE_ITEMS.map((li) => [li.lineItemId, li]))
+  assert.equal(findClosestLineItem({ name: "anything", factLineItemId: "JAYCO001SE1" }, byId)?.via, "fact")
+  const token = findClosestLineItem({ name: "Jayco Brand | jayco001sm1", factLineItemId: null }, byId)
+  assert.equal(token?.lineItemId, "jayco001sm1")
+  assert.equal(token?.via, "name_token")
+  const fuzzy = findClosestLineItem({ name: "x-y-jayco01sm1", factLineItemId: "gone" }, byId)
+  assert.equal(fuzzy?.lineItemId, "jayco001sm1")
+  assert.equal(fuzzy?.via, "fuzzy")
+  assert.equal(findClosestLineItem({ name: "x-y-z", factLineItemId: null }, byId), null)
+})
+
+test("lintLiveNames reports non-conforming names by spend and skips untemplated platforms", () => {
+  const report = lintLiveNames(
+    [
+      observed({ kind: "campaign", name: META_CAMPAIGN, spend: 500 }),
+      observed({}),
+      observed({ name: "Jayco Summer Lookalike NSW jayco001sm1", spend: 50 }),
+      observed({ name: "jayco-sm1-broad", spend: 900 }),
+      observed({ channel: "Social - TikTok", name: "whatever" }),
+    ],
+    LINE_ITEMS,
+  )
+
+  assert.equal(report.checked, 4)
+  assert.equal(report.conforming, 2)
+  assert.equal(report.skipped, 1)
+  assert.deepEqual(
+    report.issues.map((i) => [i.name, i.level, i.closestLineItem?.lineItemId ?? null]),
+    [
+      ["jayco-sm1-broad", "ad_set", null],
+      ["Jayco Summer Lookalike NSW jayco001sm1", "ad_set", "jayco001sm1"],
+    ],
+  )
+})
+
+test("lintLiveNames reads each name against its client's conventions", () => {
+  const jayco = mergeNamingConventions({
+    templates: [
+      {
+        platform: "meta",
+        level: "campaign",
+        elements: [
+          { key: "client", source: "plan" },
+          { key: "campaign", source: "plan" },
+          { key: "objective", source: "picklist", picklist: "meta_objectives" },
+        ],
+        separator: "|",
+        case: "lower",
+      },
+    ],
+    picklists: { meta_objectives: ["reach"] },
+  })
+  const campaign = (name: string, factLineItemId: string | null) =>
+    observed({ kind: "campaign", name, campaignName: name, factLineItemId })
+
+  const jaycoCampaign = getTemplate("meta", "campaign", jayco.templates)!
+  assert.equal(diagnoseName(jaycoCampaign, "jayco|jayco001|reach", jayco).ok, true)
+  const badObjective = diagnoseName(jaycoCampaign, "jayco|jayco001|traffic", jayco)
+  assert.equal(!badObjective.ok && badObjective.element, "objective")
+
+  const report = lintLiveNames(
+    [
+      campaign("jayco|jayco001|reach", "jayco001sm1"),
+      campaign(META_CAMPAIGN, "jayco001sm1"),
+      campaign("acme|acme001|reach", "acme001sm1"),
+      campaign("fbig-acme-acme001-fy26q1-traffic", "acme001sm1"),
+    ],
+    [...LINE_ITEMS, { lineItemId: "acme001sm1", mbaNumber: "MBA9", clientName: "Acme", campaignName: "Launch" }],
+    { conventionsByClient: new Map([["jayco", jayco]]) },
+  )
+
+  assert.equal(report.checked, 4)
+  assert.equal(report.conforming, 2)
+  assert.deepEqual(report.issues.map((i) => [i.name, i.closestLineItem?.clientName]).sort(), [
+    ["acme|acme001|reach", "Acme"],
+    [META_CAMPAIGN, "Jayco"],
+  ])
+})
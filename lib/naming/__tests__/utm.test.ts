@@ -0,0 +1,147 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+
+import { resolveClientNamingConventions, validateNamingConventionOverride } from "../clientConventions.js"
+import { buildTraffickingWorkbook } from "../exportTraffickingWorkbook.js"
+import type { BaseLineRow, PlanGlobals } from "../fromPlan.js"
+import {
+  HOUSE_UTM_TAXONOMY,
+  UTM_PUBLISHER_TOKEN,
+  buildBulkUtm,
+  bulkUtmCsv,
+  seedBulkUtmRows,
+  type UtmTaxonomy,
+} from "../utm.js"
+
+const GLOBALS: PlanGlobals = {
+  brand: "jayco",
+  client: "jayco",
+  campaign: "summer_sale",
+  mba: "jayco001",
+  month_start: "jan26",
+  campaign_start_date: "2026-01-05",
+}
+
+function line(line_item_id: string, publisher: string, media_type: string): BaseLineRow {
+  return {
+    channelKey: "digitalDisplay",
+    channelLabel: "Digital Display",
+    publisher,
+    media_type,
+    line_item_id,
+    buy_type: "cpm",
+    targeting: "",
+  }
+}
+
+const CLIENT_TAXONOMY: UtmTaxonomy = {
+  sources: ["news_corp", "nine", "meta"],
+  mediums: ["display", "paid_social"],
+  defaults: {
+    cm360: { source: UTM_PUBLISHER_TOKEN, medium: "display" },
+    meta: { source: "meta", medium: "paid_social" },
+  },
+}
+
+test("seedBulkUtmRows tags each line item once with its platform defaults", () => {
+  const rows = seedBulkUtmRows(
+    [
+      { platform: "cm360", lines: [line("JAYCO001DD1", "News Corp", "display"), line("JAYCO001DD2", "Nine", "display")] },
+      { platform: "meta", lines: [line("JAYCO001SM1", "Meta", "social")] },
+      { platform: "youtube", lines: [line("JAYCO001DD2", "Nine", "display")] },
+    ],
+    CLIENT_TAXONOMY,
+  )
+  assert.deepEqual(
+    rows.map((r) => [r.lineItemId, r.platform, r.source, r.medium]),
+    [
+      ["JAYCO001DD1", "cm360", "news_corp", "display"],
+      ["JAYCO001DD2", "cm360", "nine", "display"],
+      ["JAYCO001SM1", "meta", "meta", "paid_social"],
+    ],
+  )
+})
+
+test("buildBulkUtm joins naming tokens onto the landing page", () => {
+  const [row] = seedBulkUtmRows(
+    [{ platform: "cm360", lines: [line("JAYCO001DD1", "News Corp", "display")] }],
+    CLIENT_TAXONOMY,
+  )
+  const result = buildBulkUtm(row, {
+    globals: GLOBALS,
+    landingUrl: "https://jayco.com.au/summer?ref=nav#range",
+    taxonomy: CLIENT_TAXONOMY,
+  })
+  assert.deepEqual(result.errors, [])
+  assert.equal(
+    result.url,
+    "https://jayco.com.au/summer?ref=nav&utm_source=news_corp&utm_medium=display&utm_campaign=summer_sale&utm_id=jayco001dd1&utm_content=news_corp_display#range",
+  )
+
+  const override = buildBulkUtm(
+    { ...row, landingUrl: "https://jayco.com.au/caravans" },
+    { globals: GLOBALS, landingUrl: "https://jayco.com.au", taxonomy: CLIENT_TAXONOMY },
+  )
+  assert.ok(override.url.startsWith("https://jayco.com.au/caravans?utm_source=news_corp"))
+  assert.equal(
+    bulkUtmCsv([override]).split("\r\n")[1],
+    `JAYCO001DD1,cm360,https://jayco.com.au/caravans,news_corp,display,summer_sale,news_corp_display,jayco001dd1,${override.url}`,
+  )
+})
+
+test("buildBulkUtm enforces the taxonomy instead of normalising", () => {
+  const [row] = seedBulkUtmRows(
+    [{ platform: "cm360", lines: [line("JAYCO001DD1", "Seven West", "display")] }],
+    CLIENT_TAXONOMY,
+  )
+  const result = buildBulkUtm(
+    { ...row, medium: "Paid Social" },
+    { globals: GLOBALS, landingUrl: "jayco.com.au", taxonomy: CLIENT_TAXONOMY },
+  )
+  assert.equal(result.url, "")
+  assert.deepEqual(result.errors, [
+    "Landing page must be an http(s) URL",
+    'utm_source "seven_west" is not in the UTM taxonomy',
+    'utm_medium "Paid Social" must be lowercase with no spaces',
+  ])
+  assert.match(bulkUtmCsv([result]).split("\r\n")[1], /,"INVALID: Landing page/)
+
+  // The house taxonomy leaves sources open.
+  const house = buildBulkUtm(row, { globals: GLOBALS, landingUrl: "https://jayco.com.au", taxonomy: HOUSE_UTM_TAXONOMY })
+  assert.deepEqual(house.errors, [])
+})
+
+test("client UTM taxonomies are validated with the naming override", () => {
+  assert.deepEqual(validateNamingConventionOverride({ templates: [], picklists: {}, utm: CLIENT_TAXONOMY }), [])
+  assert.equal(resolveClientNamingConventions({ templates: [], picklists: {}, utm: CLIENT_TAXONOMY }).conventions.utm, CLIENT_TAXONOMY)
+  assert.equal(resolveClientNamingConventions(null).conventions.utm, HOUSE_UTM_TAXONOMY)
+
+  const issues = validateNamingConventionOverride({
+    templates: [],
+    picklists: {},
+    utm: {
+      sources: ["Google Ads", "meta", "meta"],
+      mediums: ["cpc"],
+      defaults: { search: { source: "bing", medium: "cpc" } },
+    },
+  })
+  assert.deepEqual(
+    issues.map((issue) => issue.message),
+    [
+      'UTM sources: "Google Ads" must be lowercase with no spaces',
+      'UTM sources: duplicate value "meta"',
+      'UTM default utm_source "bing" is not in the UTM taxonomy',
+    ],
+  )
+})
+
+test("trafficking workbook gets a UTMs sheet when rows are supplied", async () => {
+  const [row] = seedBulkUtmRows([{ platform: "meta", lines: [line("JAYCO001SM1", "Meta", "social")] }], CLIENT_TAXONOMY)
+  const utm = buildBulkUtm(row, { globals: GLOBALS, landingUrl: "https://jayco.com.au", taxonomy: CLIENT_TAXONOMY })
+  const workbook = await buildTraffickingWorkbook({ globals: GLOBALS, inputRows: [], platforms: [], utms: [utm] })
+  const sheet = workbook.getWorksheet("UTMs")
+  assert.ok(sheet)
+  assert.equal(sheet.getCell(1, 8).value, "utm_id")
+  assert.equal(sheet.getCell(2, 8).value, "jayco001sm1")
+  assert.equal(sheet.getCell(2, 9).value, utm.url)
+})
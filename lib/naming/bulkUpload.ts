@@ -0,0 +1,646 @@
+import { parseBurstsToNormalised } from "@/lib/pacing/burst/parseBursts"
+import type { NormalisedBurst } from "@/lib/pacing/campaigns/types"
+
+import { HOUSE_NAMING_CONVENTIONS } from "./clientConventions"
+import {
+  tryComposeName,
+  type TraffickingExportInput,
+  type TraffickingExportLevel,
+  type TraffickingExportPlatform,
+} from "./exportTraffickingWorkbook"
+import { resolveLineItemId, type NamingPlatform } from "./fromPlan"
+import type { NamingPicklists } from "./types"
+
+/**
+ * Platform bulk-upload files built from the trafficking builder's composed
+ * names. One row per pacing-grain name (line item / ad set / ad group /
+ * placement); parents come from the row's `campaign_name` / `io_name`
+ * composites and must also be valid names on their own level. Flight dates
+ * and net media budgets come from the plan line item's bursts. Everything is created
+ * paused / draft so nothing spends before a trafficker reviews it in-platform.
+ */
+
+export type BulkUploadFormat = "dv360_sdf" | "meta_bulk" | "google_ads_editor" | "cm360_placements"
+
+/** Naming platform → bulk format. Native (Taboola) has no bulk import. */
+export const BULK_UPLOAD_FORMATS: Partial<Record<NamingPlatform, BulkUploadFormat>> = {
+  dv360: "dv360_sdf",
+  youtube: "dv360_sdf",
+  meta: "meta_bulk",
+  search: "google_ads_editor",
+  cm360: "cm360_placements",
+}
+
+export const BULK_UPLOAD_FORMAT_LABELS: Record<BulkUploadFormat, string> = {
+  dv360_sdf: "DV360 Structured Data Files",
+  meta_bulk: "Meta Ads Manager bulk import",
+  google_ads_editor: "Google Ads Editor CSV",
+  cm360_placements: "CM360 bulk placements",
+}
+
+export type BulkFlight = {
+  startDate: string // YYYY-MM-DD
+  endDate: string // YYYY-MM-DD
+  /** Net media — what the platform spends, excluding agency fees. */
+  budget: number
+  /** Bursts with `budget` set to each burst's net media. */
+  bursts: NormalisedBurst[]
+}
+
+export type BulkUploadIssue = {
+  severity: "error" | "warning"
+  level: string
+  /** Composed name, or the line item id when no name could be composed. */
+  name: string
+  message: string
+}
+
+export type BulkUploadLine = {
+  lineItemId: string
+  name: string
+  campaignName: string
+  /** Insertion order (DV360 / YouTube) or placement group (CM360). */
+  groupName: string
+  values: Record<string, string>
+  flight: BulkFlight
+}
+
+export type BulkUploadFile = {
+  filename: string
+  content: string
+  rows: number
+}
+
+export type BulkUploadExport = {
+  platform: NamingPlatform
+  format: BulkUploadFormat
+  label: string
+  /** Download name: the CSV itself, or the zip for multi-file formats. */
+  filename: string
+  lines: BulkUploadLine[]
+  files: BulkUploadFile[]
+  issues: BulkUploadIssue[]
+  /** Things the trafficker has to do in-platform that the file cannot. */
+  notes: string[]
+}
+
+export type BulkUploadInput = Pick<TraffickingExportInput, "globals" | "platforms" | "conventions"> & {
+  /** Plan `lineItems` by channel key; bursts are read from each item. */
+  lineItems: Record<string, unknown[]>
+}
+
+// ---------------------------------------------------------------------------
+// Flights
+
+/** Flight per plan line item id: first burst start → last burst end, summed net media. */
+export function lineItemFlights(
+  lineItems: Record<string, unknown[]> | null | undefined,
+): Map<string, BulkFlight> {
+  const out = new Map<string, BulkFlight>()
+  for (const items of Object.values(lineItems ?? {})) {
+    if (!Array.isArray(items)) continue
+    for (const raw of items) {
+      if (!raw || typeof raw !== "object") continue
+      const item = raw as Record<string, unknown>
+      const id = resolveLineItemId(item)
+      if (!id || out.has(id)) continue
+      const bursts = parseBurstsToNormalised(item.bursts_json ?? item.bursts)
+      if (bursts.length === 0) continue
+      const includesFees = [item.budget_includes_fees, item.budgetIncludesFees].some((v) => v === true || v === "true")
+      out.set(id, rollupBursts(bursts.map((b) => ({ ...b, budget: burstNetMedia(b, includesFees) }))))
+    }
+  }
+  return out
+}
+
+/**
+ * Net media for a burst, as pacing measures spend: the saved `mediaAmount`,
+ * else the budget less the burst fee when the line item's budget includes fees.
+ */
+function burstNetMedia(burst: NormalisedBurst, budgetIncludesFees: boolean): number {
+  if (burst.mediaAmount != null) return burst.mediaAmount
+  if (budgetIncludesFees && burst.feeAmount) return Math.max(0, burst.budget - burst.feeAmount)
+  return burst.budget
+}
+
+function rollupBursts(bursts: NormalisedBurst[]): BulkFlight {
+  let startDate = bursts[0].startDate
+  let endDate = bursts[0].endDate
+  let budget = 0
+  for (const b of bursts) {
+    if (b.startDate < startDate) startDate = b.startDate
+    if (b.endDate > endDate) endDate = b.endDate
+    budget += b.budget
+  }
+  return { startDate, endDate, budget, bursts }
+}
+
+function scaleFlight(flight: BulkFlight, share: number): BulkFlight {
+  if (share === 1) return flight
+  return {
+    ...flight,
+    budget: flight.budget * share,
+    bursts: flight.bursts.map((b) => ({ ...b, budget: b.budget * share })),
+  }
+}
+
+function rollupLines(lines: BulkUploadLine[]): BulkFlight {
+  return rollupBursts(lines.flatMap((line) => line.flight.bursts))
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+
+function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return ""
+  const s = String(value)
+  if (/[,"\n\r]/.test(s)) return `"${s.replace(/"/g, '""')}"`
+  return s
+}
+
+function toCsv(header: readonly string[], rows: ReadonlyArray<ReadonlyArray<string | number>>): string {
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n")
+}
+
+function money(amount: number): string {
+  return (Math.round(amount * 100) / 100).toFixed(2)
+}
+
+/** YYYY-MM-DD → MM/DD/YYYY (DV360, Meta and CM360 imports). */
+function usDate(ymd: string): string {
+  const [y, m, d] = ymd.split("-")
+  return `${m}/${d}/${y}`
+}
+
+function flightDays(flight: BulkFlight): number {
+  const start = Date.parse(`${flight.startDate}T00:00:00Z`)
+  const end = Date.parse(`${flight.endDate}T00:00:00Z`)
+  return Math.max(1, Math.round((end - start) / 86_400_000) + 1)
+}
+
+function fileStem(mba: string): string {
+  const stem = String(mba || "mba")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, "")
+  return stem || "mba"
+}
+
+/** Lines grouped by a parent name, in first-seen order. */
+function groupBy(lines: BulkUploadLine[], key: (line: BulkUploadLine) => string): Map<string, BulkUploadLine[]> {
+  const out = new Map<string, BulkUploadLine[]>()
+  for (const line of lines) {
+    const k = key(line)
+    const bucket = out.get(k)
+    if (bucket) bucket.push(line)
+    else out.set(k, [line])
+  }
+  return out
+}
+
+// ---------------------------------------------------------------------------
+// Collect lines + validate
+
+type ComposedLevel = Map<string, Record<string, string>>
+
+type PlatformLines = {
+  lines: BulkUploadLine[]
+  campaigns: ComposedLevel
+  issues: BulkUploadIssue[]
+}
+
+function composeLevel(
+  level: TraffickingExportLevel | undefined,
+  picklists: NamingPicklists,
+  issues: BulkUploadIssue[],
+): ComposedLevel | null {
+  if (!level) return null
+  const out: ComposedLevel = new Map()
+  for (const row of level.rows) {
+    if (row.excluded) continue
+    const attempt = tryComposeName(level.template, row.values, picklists)
+    if (!attempt.ok) {
+      issues.push({
+        severity: "error",
+        level: level.template.level,
+        name: row.values.line_item_id ?? "",
+        message: attempt.error,
+      })
+      continue
+    }
+    if (!out.has(attempt.name)) out.set(attempt.name, row.values)
+  }
+  return out
+}
+
+function checkParent(
+  parentLevel: string,
+  parents: ComposedLevel | null,
+  parentName: string | undefined,
+  at: { level: string; name: string },
+  issues: BulkUploadIssue[],
+): boolean {
+  if (!parents) return true
+  if (!parentName) {
+    issues.push({ severity: "error", ...at, message: `Could not compose its ${parentLevel} name` })
+    return false
+  }
+  if (!parents.has(parentName)) {
+    issues.push({
+      severity: "error",
+      ...at,
+      message: `${parentName} is not a valid, included ${parentLevel} row`,
+    })
+    return false
+  }
+  return true
+}
+
+function collectLines(
+  platform: TraffickingExportPlatform,
+  picklists: NamingPicklists,
+  flights: Map<string, BulkFlight>,
+): PlatformLines {
+  const issues: BulkUploadIssue[] = []
+  const grain = platform.levels.find((l) => l.template.isPacingGrain)
+  const campaignLevel = platform.levels.find((l) => l.template.level === "campaign")
+  const groupLevel =
+    platform.levels.find((l) => l.template.level === "insertion_order") ??
+    platform.levels.find((l) => l.template.level === "package")
+
+  const campaigns = composeLevel(campaignLevel === grain ? undefined : campaignLevel, picklists, issues)
+  const groups = composeLevel(groupLevel, picklists, issues)
+  if (!grain || grain === campaignLevel) {
+    return { lines: [], campaigns: campaigns ?? new Map(), issues }
+  }
+
+  const lines: BulkUploadLine[] = []
+  const level = grain.template.level
+  for (const row of grain.rows) {
+    if (row.excluded) continue
+    const lineItemId = String(row.values.line_item_id ?? "").trim()
+    const attempt = tryComposeName(grain.template, row.values, picklists)
+    if (!attempt.ok) {
+      issues.push({ severity: "error", level, name: lineItemId, message: attempt.error })
+      continue
+    }
+    const at = { level, name: attempt.name }
+    const campaignOk = checkParent("campaign", campaigns, row.values.campaign_name, at, issues)
+    const groupOk = checkParent(groupLevel?.template.level ?? "", groups, row.values.io_name, at, issues)
+    const flight = flights.get(lineItemId)
+    if (!flight) {
+      issues.push({
+        severity: "error",
+        ...at,
+        message: `Line item ${lineItemId} has no bursts — flight dates and budget are unknown`,
+      })
+      continue
+    }
+    if (!campaignOk || !groupOk) continue
+    if (flight.endDate < flight.startDate) {
+      issues.push({ severity: "error", ...at, message: "Flight ends before it starts" })
+      continue
+    }
+    if (flight.budget <= 0) {
+      issues.push({ severity: "warning", ...at, message: "Budget is zero" })
+    }
+    lines.push({
+      lineItemId,
+      name: attempt.name,
+      campaignName: row.values.campaign_name ?? "",
+      groupName: row.values.io_name ?? "",
+      values: row.values,
+      flight,
+    })
+  }
+
+  // Size-expanded rows share one plan line item; split its budget so the
+  // upload does not multiply spend.
+  const byLineItem = groupBy(lines, (line) => line.lineItemId)
+  for (const [lineItemId, shared] of byLineItem) {
+    if (shared.length < 2) continue
+    for (const line of shared) line.flight = scaleFlight(line.flight, 1 / shared.length)
+    issues.push({
+      severity: "warning",
+      level,
+      name: lineItemId,
+      message: `${shared.length} rows share line item ${lineItemId}; its budget is split evenly between them`,
+    })
+  }
+
+  const seen = new Set<string>()
+  for (const line of lines) {
+    if (seen.has(line.name)) {
+      issues.push({ severity: "warning", level, name: line.name, message: "Duplicate name" })
+    }
+    seen.add(line.name)
+  }
+
+  return { lines, campaigns: campaigns ?? new Map(), issues }
+}
+
+// ---------------------------------------------------------------------------
+// Adapters
+
+type AdapterContext = PlatformLines & {
+  platform: NamingPlatform
+  stem: string
+}
+
+type AdapterOutput = {
+  filename: string
+  files: BulkUploadFile[]
+  notes: string[]
+  issues?: BulkUploadIssue[]
+}
+
+const SDF_CAMPAIGN_COLUMNS = [
+  "Campaign Id",
+  "Advertiser Id",
+  "Name",
+  "Status",
+  "Campaign Budget",
+  "Campaign Start Date",
+  "Campaign End Date",
+] as const
+
+const SDF_INSERTION_ORDER_COLUMNS = [
+  "Io Id",
+  "Campaign Id",
+  "Name",
+  "Status",
+  "Io Type",
+  "Budget Type",
+  "Budget Segments",
+  "Pacing",
+  "Pacing Rate",
+  "Details",
+] as const
+
+const SDF_LINE_ITEM_COLUMNS = [
+  "Line Item Id",
+  "Io Id",
+  "Type",
+  "Name",
+  "Status",
+  "Start Date",
+  "End Date",
+  "Budget Type",
+  "Budget Amount",
+  "Pacing",
+  "Pacing Rate",
+  "Details",
+] as const
+
+function sdfLineItemType(platform: NamingPlatform, mediaType: string | undefined): string {
+  if (platform === "youtube") return "YouTube & Partners Video"
+  switch (mediaType) {
+    case "video":
+    case "bvod":
+      return "Video"
+    case "audio":
+      return "Audio"
+    default:
+      return "Display"
+  }
+}
+
+/** IO budget segments: one per distinct burst window across its line items. */
+function sdfBudgetSegments(lines: BulkUploadLine[]): string {
+  const windows = new Map<string, { startDate: string; endDate: string; budget: number }>()
+  for (const burst of lines.flatMap((line) => line.flight.bursts)) {
+    const key = `${burst.startDate}|${burst.endDate}`
+    const current = windows.get(key)
+    if (current) current.budget += burst.budget
+    else windows.set(key, { startDate: burst.startDate, endDate: burst.endDate, budget: burst.budget })
+  }
+  return [...windows.values()]
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
+    .map((w) => `(${money(w.budget)}; ${usDate(w.startDate)}; ${usDate(w.endDate)}; ; ;);`)
+    .join(" ")
+}
+
+function dv360Sdf(ctx: AdapterContext): AdapterOutput {
+  const campaignRows = [...groupBy(ctx.lines, (line) => line.campaignName)].map(([name, lines]) => {
+    const flight = rollupLines(lines)
+    return ["", "", name, "Paused", money(flight.budget), usDate(flight.startDate), usDate(flight.endDate)]
+  })
+  const ioRows = [...groupBy(ctx.lines, (line) => line.groupName)].map(([name, lines]) => [
+    "",
+    "",
+    name,
+    "Draft",
+    "Standard",
+    "Amount",
+    sdfBudgetSegments(lines),
+    "Flight",
+    "Even",
+    `Campaign: ${lines[0].campaignName}`,
+  ])
+  const lineRows = ctx.lines.map((line) => [
+    "",
+    "",
+    sdfLineItemType(ctx.platform, line.values.media_type),
+    line.name,
+    "Draft",
+    `${usDate(line.flight.startDate)} 00:00`,
+    `${usDate(line.flight.endDate)} 23:59`,
+    "Amount",
+    money(line.flight.budget),
+    "Flight",
+    "Even",
+    `Insertion order: ${line.groupName}`,
+  ])
+  const prefix = `${ctx.stem}-${ctx.platform}-sdf`
+  return {
+    filename: `${prefix}.zip`,
+    files: [
+      { filename: `${prefix}-campaigns.csv`, content: toCsv(SDF_CAMPAIGN_COLUMNS, campaignRows), rows: campaignRows.length },
+      { filename: `${prefix}-insertion-orders.csv`, content: toCsv(SDF_INSERTION_ORDER_COLUMNS, ioRows), rows: ioRows.length },
+      { filename: `${prefix}-line-items.csv`, content: toCsv(SDF_LINE_ITEM_COLUMNS, lineRows), rows: lineRows.length },
+    ],
+    notes: [
+      "DV360 assigns ids on upload: upload campaigns first, then fill Campaign Id on the insertion orders and Io Id on the line items (the Details column names each parent).",
+      "Advertiser Id is blank — set it to the client's DV360 advertiser before uploading.",
+    ],
+  }
+}
+
+const META_COLUMNS = [
+  "Campaign Name",
+  "Campaign Status",
+  "Campaign Objective",
+  "Buying Type",
+  "Ad Set Name",
+  "Ad Set Run Status",
+  "Ad Set Lifetime Budget",
+  "Ad Set Time Start",
+  "Ad Set Time Stop",
+] as const
+
+/** `meta_objectives` picklist → Ads Manager outcome objective. */
+const META_OBJECTIVES: Record<string, string> = {
+  awareness: "Outcome Awareness",
+  traffic: "Outcome Traffic",
+  engagement: "Outcome Engagement",
+  leads: "Outcome Leads",
+  conversions: "Outcome Sales",
+  sales: "Outcome Sales",
+  app_promotion: "Outcome App Promotion",
+}
+
+function metaBulk(ctx: AdapterContext): AdapterOutput {
+  const issues: BulkUploadIssue[] = []
+  const objectiveFor = (campaignName: string): string => {
+    const objective = ctx.campaigns.get(campaignName)?.objective ?? ""
+    return META_OBJECTIVES[objective] ?? ""
+  }
+  for (const name of new Set(ctx.lines.map((line) => line.campaignName))) {
+    if (!objectiveFor(name)) {
+      issues.push({
+        severity: "warning",
+        level: "campaign",
+        name,
+        message: "No Ads Manager objective for this campaign — set it after import",
+      })
+    }
+  }
+  const rows = ctx.lines.map((line) => [
+    line.campaignName,
+    "PAUSED",
+    objectiveFor(line.campaignName),
+    "AUCTION",
+    line.name,
+    "PAUSED",
+    money(line.flight.budget),
+    `${usDate(line.flight.startDate)} 00:00`,
+    `${usDate(line.flight.endDate)} 23:59`,
+  ])
+  return {
+    filename: `${ctx.stem}-meta-bulk-import.csv`,
+    files: [{ filename: `${ctx.stem}-meta-bulk-import.csv`, content: toCsv(META_COLUMNS, rows), rows: rows.length }],
+    notes: ["Ads are not included — add creative in Ads Manager after the import."],
+    issues,
+  }
+}
+
+const GOOGLE_ADS_EDITOR_COLUMNS = [
+  "Campaign",
+  "Campaign Type",
+  "Campaign Status",
+  "Budget",
+  "Budget type",
+  "Start Date",
+  "End Date",
+  "Ad Group",
+  "Ad Group Status",
+] as const
+
+function googleAdsEditor(ctx: AdapterContext): AdapterOutput {
+  const rows: string[][] = []
+  for (const [name, lines] of groupBy(ctx.lines, (line) => line.campaignName)) {
+    const flight = rollupLines(lines)
+    // Editor budgets are daily; spread the flight budget evenly.
+    rows.push([name, "Search", "Paused", money(flight.budget / flightDays(flight)), "Daily", flight.startDate, flight.endDate, "", ""])
+    for (const line of lines) {
+      rows.push([name, "", "", "", "", "", "", line.name, "Paused"])
+    }
+  }
+  return {
+    filename: `${ctx.stem}-google-ads-editor.csv`,
+    files: [
+      { filename: `${ctx.stem}-google-ads-editor.csv`, content: toCsv(GOOGLE_ADS_EDITOR_COLUMNS, rows), rows: rows.length },
+    ],
+    notes: ["Campaign budgets are daily (flight budget ÷ flight days); keywords and ads are added in Editor."],
+  }
+}
+
+const CM360_PLACEMENT_COLUMNS = [
+  "Campaign name",
+  "Site name",
+  "Placement group name",
+  "Placement name",
+  "Dimensions",
+  "Start date",
+  "End date",
+  "Planned cost",
+] as const
+
+function cm360Placements(ctx: AdapterContext): AdapterOutput {
+  const rows = ctx.lines.map((line) => [
+    line.campaignName,
+    line.values.publisher ?? "",
+    line.groupName,
+    line.name,
+    line.values.size ?? "",
+    usDate(line.flight.startDate),
+    usDate(line.flight.endDate),
+    money(line.flight.budget),
+  ])
+  return {
+    filename: `${ctx.stem}-cm360-placements.csv`,
+    files: [
+      { filename: `${ctx.stem}-cm360-placements.csv`, content: toCsv(CM360_PLACEMENT_COLUMNS, rows), rows: rows.length },
+    ],
+    notes: ["Site names must match CM360 sites on the advertiser; placements import without creative assignments."],
+  }
+}
+
+const ADAPTERS: Record<BulkUploadFormat, (ctx: AdapterContext) => AdapterOutput> = {
+  dv360_sdf: dv360Sdf,
+  meta_bulk: metaBulk,
+  google_ads_editor: googleAdsEditor,
+  cm360_placements: cm360Placements,
+}
+
+/**
+ * Bulk-upload files plus the validation preview for every builder tab that
+ * has a bulk format. Rows with errors are left out of the files.
+ */
+export function buildBulkUploadExports(input: BulkUploadInput): BulkUploadExport[] {
+  const { picklists } = input.conventions ?? HOUSE_NAMING_CONVENTIONS
+  const flights = lineItemFlights(input.lineItems)
+  const stem = fileStem(input.globals.mba)
+  const out: BulkUploadExport[] = []
+
+  for (const platform of input.platforms) {
+    const format = BULK_UPLOAD_FORMATS[platform.platform]
+    if (!format) continue
+    const collected = collectLines(platform, picklists, flights)
+    const adapted = ADAPTERS[format]({ ...collected, platform: platform.platform, stem })
+    const issues = [...collected.issues, ...(adapted.issues ?? [])]
+    if (collected.lines.length === 0) {
+      issues.push({ severity: "error", level: "", name: "", message: "Nothing to upload — no valid rows with flights" })
+    }
+    out.push({
+      platform: platform.platform,
+      format,
+      label: BULK_UPLOAD_FORMAT_LABELS[format],
+      filename: adapted.filename,
+      lines: collected.lines,
+      files: adapted.files,
+      issues,
+      notes: adapted.notes,
+    })
+  }
+  return out
+}
+
+export function bulkUploadErrorCount(upload: BulkUploadExport): number {
+  return upload.issues.filter((issue) => issue.severity === "error").length
+}
+
+/** Single-file formats download as CSV; DV360 SDF files are zipped together. */
+export async function downloadBulkUpload(upload: BulkUploadExport): Promise<string> {
+  const { saveAs } = await import("file-saver")
+  if (upload.files.length === 1) {
+    const [file] = upload.files
+    saveAs(new Blob([file.content], { type: "text/csv;charset=utf-8" }), file.filename)
+    return file.filename
+  }
+  const JSZip = (await import("jszip")).default
+  const zip = new JSZip()
+  for (const file of upload.files) zip.file(file.filename, file.content)
+  saveAs(await zip.generateAsync({ type: "blob" }), upload.filename)
+  return upload.filename
+}
@@ -0,0 +1,192 @@
+import * as z from "zod"
+
+import { slugify } from "./compose"
+import { PICKLISTS, TEMPLATES } from "./templates"
+import type { NamingPicklists, NamingSeparator, NamingTemplate } from "./types"
+import { HOUSE_UTM_TAXONOMY, utmTaxonomySchema, validateUtmTaxonomy, type UtmTaxonomy } from "./utm"
+import { validateTemplates, type ValidationIssue } from "./validate"
+
+/**
+ * Per-client naming conventions. A client override replaces whole templates
+ * (matched on platform + level) and whole picklists (matched on key); anything
+ * it does not mention falls through to the house TEMPLATES / PICKLISTS.
+ * Which level is the pacing grain stays with the house template — pacing
+ * reads it — so an override only controls element order, picklists,
+ * separator and case. The client's UTM taxonomy rides along on the same
+ * override and replaces the house taxonomy wholesale.
+ */
+
+export const NAMING_SEPARATORS = ["-", "|", "."] as const satisfies readonly NamingSeparator[]
+
+export type NamingConventions = {
+  templates: NamingTemplate[]
+  picklists: NamingPicklists
+  utm: UtmTaxonomy
+}
+
+export const HOUSE_NAMING_CONVENTIONS: NamingConventions = {
+  templates: TEMPLATES,
+  picklists: PICKLISTS,
+  utm: HOUSE_UTM_TAXONOMY,
+}
+
+export type NamingTemplateOverride = Omit<NamingTemplate, "isPacingGrain" | "scope">
+
+export type NamingConventionOverride = {
+  templates: NamingTemplateOverride[]
+  picklists: Record<string, string[]>
+  utm?: UtmTaxonomy
+}
+
+/** Xano `naming_convention_overrides` row (one per client). */
+export type ClientNamingConventions = NamingConventionOverride & {
+  id: number
+  created_at?: number
+  client_slug: string
+  updated_by: string
+  updated_at: number
+}
+
+const KEY_RE = /^[a-z][a-z0-9_]*$/
+
+const templateElementSchema = z.object({
+  key: z.string().regex(KEY_RE, "Element keys must be lower-case slugs"),
+  source: z.enum(["plan", "picklist", "free", "literal"]),
+  literal: z.string().trim().max(40).optional(),
+  picklist: z.string().optional(),
+  optional: z.boolean().optional(),
+  isLineItemId: z.boolean().optional(),
+})
+
+const templateOverrideSchema = z.object({
+  platform: z.string().min(1),
+  level: z.string().min(1),
+  elements: z.array(templateElementSchema).min(1).max(20),
+  separator: z.enum(NAMING_SEPARATORS),
+  case: z.enum(["lower", "preserve"]),
+})
+
+export const namingConventionOverrideSchema = z.object({
+  templates: z.array(templateOverrideSchema).max(TEMPLATES.length),
+  picklists: z.record(
+    z.string().regex(KEY_RE, "Picklist keys must be lower-case slugs"),
+    z.array(z.string().trim()).max(200),
+  ),
+  utm: utmTaxonomySchema.optional(),
+})
+
+/** Plan fields the builders know how to fill (every plan-sourced key in the house set). */
+const PLAN_KEYS = new Set(
+  TEMPLATES.flatMap((t) => t.elements.filter((el) => el.source === "plan").map((el) => el.key)),
+)
+
+function houseTemplate(platform: string, level: string): NamingTemplate | undefined {
+  return TEMPLATES.find((t) => t.platform === platform && t.level === level)
+}
+
+/** House conventions with the override laid over them; no validation. */
+export function mergeNamingConventions(
+  override: NamingConventionOverride | null | undefined,
+): NamingConventions {
+  if (!override) return HOUSE_NAMING_CONVENTIONS
+  const byLevel = new Map(override.templates.map((t) => [`${t.platform}|${t.level}`, t]))
+  return {
+    templates: TEMPLATES.map((house) => {
+      const replacement = byLevel.get(`${house.platform}|${house.level}`)
+      return replacement
+        ? {
+            ...replacement,
+            scope: house.scope,
+            isPacingGrain: house.isPacingGrain,
+            elements: replacement.elements.map((el) => ({ ...el })),
+          }
+        : house
+    }),
+    picklists: { ...PICKLISTS, ...override.picklists },
+    utm: override.utm ?? HOUSE_UTM_TAXONOMY,
+  }
+}
+
+/**
+ * Everything wrong with an override: unknown levels, unknown plan fields,
+ * picklist values that would not survive `slugify`, UTM taxonomy values,
+ * then the merged set through {@link validateTemplates}.
+ */
+export function validateNamingConventionOverride(
+  override: NamingConventionOverride,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const seen = new Set<string>()
+
+  for (const t of override.templates) {
+    const at = { platform: t.platform, level: t.level }
+    if (!houseTemplate(t.platform, t.level)) {
+      issues.push({ ...at, message: `No house template to override for ${t.platform}/${t.level}` })
+    }
+    const levelKey = `${t.platform}|${t.level}`
+    if (seen.has(levelKey)) {
+      issues.push({ ...at, message: `Duplicate override for ${t.platform}/${t.level}` })
+    }
+    seen.add(levelKey)
+
+    const keys = new Set<string>()
+    for (const el of t.elements) {
+      if (keys.has(el.key)) {
+        issues.push({ ...at, message: `Duplicate element key ${el.key}` })
+      }
+      keys.add(el.key)
+      if (el.source === "plan" && !PLAN_KEYS.has(el.key)) {
+        issues.push({ ...at, message: `Unknown plan field "${el.key}"` })
+      }
+    }
+  }
+
+  for (const [key, values] of Object.entries(override.picklists)) {
+    if (values.length === 0) {
+      issues.push({ message: `Picklist ${key} is empty` })
+    }
+    const unique = new Set<string>()
+    for (const value of values) {
+      if (!value || slugify(value) !== value) {
+        issues.push({ message: `Picklist ${key}: "${value}" is not a slug (use ${slugify(value) || "a-z, 0-9, _"})` })
+      }
+      if (unique.has(value)) {
+        issues.push({ message: `Picklist ${key}: duplicate value "${value}"` })
+      }
+      unique.add(value)
+    }
+  }
+
+  if (override.utm) issues.push(...validateUtmTaxonomy(override.utm))
+
+  const merged = mergeNamingConventions(override)
+  issues.push(...validateTemplates(merged.templates, merged.picklists))
+  return issues
+}
+
+export type ResolvedNamingConventions = {
+  conventions: NamingConventions
+  source: "client" | "house"
+  issues: ValidationIssue[]
+}
+
+/**
+ * Conventions the builders should use for a client. A stored override that no
+ * longer validates (e.g. a house level it relied on changed) falls back to the
+ * house set rather than composing names from a broken template.
+ */
+export function resolveClientNamingConventions(
+  override: NamingConventionOverride | null | undefined,
+): ResolvedNamingConventions {
+  if (
+    !override ||
+    (override.templates.length === 0 && Object.keys(override.picklists).length === 0 && !override.utm)
+  ) {
+    return { conventions: HOUSE_NAMING_CONVENTIONS, source: "house", issues: [] }
+  }
+  const issues = validateNamingConventionOverride(override)
+  if (issues.length > 0) {
+    return { conventions: HOUSE_NAMING_CONVENTIONS, source: "house", issues }
+  }
+  return { conventions: mergeNamingConventions(override), source: "client", issues: [] }
+}
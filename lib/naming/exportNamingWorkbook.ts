@@ -3,6 +3,7 @@ import type ExcelJS from "exceljs"
 import type { MediaContainerBestPractice, Publisher } from "@/lib/types/publisher"
 
 import { chosenPublishersFor, renderBestPracticeBlock } from "./bestPractice"
+import { HOUSE_NAMING_CONVENTIONS, type NamingConventions } from "./clientConventions"
 import {
   channelRows,
   collectSkippedLineItems,
@@ -20,8 +21,7 @@ import {
 import type { PlanGlobals } from "./fromPlan"
 import { levelNeedsLineItemSeed, templatesForPlatform } from "./fromPlan"
 import { composeFormula, evaluateNamingFormula, type FormulaRefs } from "./formula"
-import { PICKLISTS, TEMPLATES } from "./templates"
-import type { NamingTemplate } from "./types"
+import type { NamingPicklists, NamingTemplate } from "./types"
 
 export { INVALID_NAME_CELL, NEEDS_INPUT_CELL, emptyRequiredFreeKeysOnly }
 
@@ -64,7 +64,7 @@ const GLOBAL_RULES = [
   "← add <field> in AV on a value cell means a required free field is blank (buyer input) — not INVALID. Fill the field in AssembledView (or type into the element column) and the formula completes without a trailing -.",
   "INVALID: fix in AV means a hard validation failure (separator in a value, bad month_start, missing required plan field, etc.).",
   "line_item_id is ALWAYS the last element at each platform's pacing-grain level.",
-  "Element values use _ internally; - is the separator; slug charset [a-z0-9_+x].",
+  "Element values use _ internally; each template's separator is shown in element_order; slug charset [a-z0-9_+x].",
   "Rows without line_item_id cannot sync — see Skipped rows on the Input sheet.",
 ]
 
@@ -75,6 +75,8 @@ export type NamingWorkbookInput = {
   publishers?: Publisher[]
   containerBestPractice?: MediaContainerBestPractice[]
   tokenOverrides?: TokenOverrides
+  /** The client's naming conventions; defaults to the house templates and picklists. */
+  conventions?: NamingConventions
 }
 
 function colLetter(col1Based: number): string {
@@ -102,9 +104,12 @@ function inputColIndex(key: InputColumn): number {
   return idx + 1
 }
 
-function defaultPicklistValue(picklistKey: string | undefined): string {
+function defaultPicklistValue(
+  picklistKey: string | undefined,
+  picklists: NamingPicklists,
+): string {
   if (!picklistKey) return ""
-  const list = PICKLISTS[picklistKey]
+  const list = picklists[picklistKey]
   return list?.[0] ?? ""
 }
 
@@ -255,6 +260,7 @@ function seedElementValues(
   template: NamingTemplate,
   globals: PlanGlobals,
   line: ChannelDetailRow | null,
+  picklists: NamingPicklists,
   sizeOverride?: string,
   composites?: { campaign_name?: string; io_name?: string },
 ): Record<string, string> {
@@ -270,7 +276,7 @@ function seedElementValues(
       } else if (el.key === "geo" && line?.geo_token) {
         values[el.key] = line.geo_token
       } else {
-        values[el.key] = defaultPicklistValue(el.picklist)
+        values[el.key] = defaultPicklistValue(el.picklist, picklists)
       }
       continue
     }
@@ -442,10 +448,12 @@ function writeChannelSheet(
   rowByLineItemId: Map<string, number>,
   publishers: Publisher[],
   containerBestPractice: MediaContainerBestPractice[],
+  conventions: NamingConventions,
   tokenOverrides?: TokenOverrides,
 ): void {
   const sheet = workbook.addWorksheet(tab.label)
-  const templates = templatesForPlatform(tab.family)
+  const { picklists } = conventions
+  const templates = templatesForPlatform(tab.family, conventions.templates)
   const { rows: detailRows } = channelRows(tab, lineItems, tokenOverrides)
 
   let rowIndex = 1
@@ -511,7 +519,7 @@ function writeChannelSheet(
       : [null]
 
     const expandSizes = templateHasIabSize(template)
-    const sizes = expandSizes ? [...PICKLISTS.iab_sizes] : [undefined]
+    const sizes = expandSizes ? [...(picklists.iab_sizes ?? [])] : [undefined]
 
     for (const line of baseLines) {
       for (const size of sizes) {
@@ -523,12 +531,13 @@ function writeChannelSheet(
           template,
           globals,
           line,
+          picklists,
           size,
           composites,
         )
-        const attempt = tryComposeName(template, values)
+        const attempt = tryComposeName(template, values, picklists)
         const needsInputKeys = !attempt.ok
-          ? emptyRequiredFreeKeysOnly(template, values)
+          ? emptyRequiredFreeKeysOnly(template, values, picklists)
           : null
         const composed = attempt.ok
           ? attempt.name
@@ -630,7 +639,10 @@ function writeChannelSheet(
   }
 }
 
-function writeRulesSheet(workbook: ExcelJS.Workbook): void {
+function writeRulesSheet(
+  workbook: ExcelJS.Workbook,
+  templates: readonly NamingTemplate[],
+): void {
   const sheet = workbook.addWorksheet("Rules")
   sheet.getColumn(1).width = 14
   sheet.getColumn(2).width = 18
@@ -645,10 +657,12 @@ function writeRulesSheet(workbook: ExcelJS.Workbook): void {
   })
 
   let rowIndex = 2
-  for (const template of TEMPLATES) {
+  for (const template of templates) {
     sheet.getCell(rowIndex, 1).value = template.platform
     sheet.getCell(rowIndex, 2).value = template.level
-    sheet.getCell(rowIndex, 3).value = template.elements.map((el) => el.key).join(" - ")
+    sheet.getCell(rowIndex, 3).value = template.elements
+      .map((el) => el.key)
+      .join(` ${template.separator} `)
     sheet.getCell(rowIndex, 4).value = template.isPacingGrain ? "yes" : "no"
     rowIndex++
   }
@@ -676,6 +690,7 @@ export async function buildNamingWorkbook(
   workbook.creator = "AssembledView"
   workbook.created = new Date()
 
+  const conventions = input.conventions ?? HOUSE_NAMING_CONVENTIONS
   const tabs = deriveChannelTabs(input.lineItems)
   const inputRows = gatherInputRows(
     tabs,
@@ -698,10 +713,11 @@ export async function buildNamingWorkbook(
       rowByLineItemId,
       input.publishers ?? [],
       input.containerBestPractice ?? [],
+      conventions,
       input.tokenOverrides,
     )
   }
 
-  writeRulesSheet(workbook)
+  writeRulesSheet(workbook, conventions.templates)
   return workbook
 }
@@ -1,9 +1,11 @@
 import type ExcelJS from "exceljs"
 
+import { HOUSE_NAMING_CONVENTIONS, type NamingConventions } from "./clientConventions"
 import { composeName } from "./compose"
 import type { BaseLineRow, NamingPlatform, PlanGlobals } from "./fromPlan"
-import { TEMPLATES } from "./templates"
-import type { NamingTemplate } from "./types"
+import { PICKLISTS } from "./templates"
+import type { NamingPicklists, NamingTemplate } from "./types"
+import { BULK_UTM_COLUMNS, bulkUtmCells, type BulkUtmResult } from "./utm"
 import { validateValue } from "./validate"
 
 export const INVALID_NAME_CELL = "INVALID: fix in AV"
@@ -23,6 +25,7 @@ export function NEEDS_INPUT_CELL(keys: string[]): string {
 export function emptyRequiredFreeKeysOnly(
   template: NamingTemplate,
   values: Record<string, string>,
+  picklists: NamingPicklists = PICKLISTS,
 ): string[] | null {
   const missingFree: string[] = []
   let hardFailure = false
@@ -39,7 +42,7 @@ export function emptyRequiredFreeKeysOnly(
       hardFailure = true
       continue
     }
-    const check = validateValue(el, raw)
+    const check = validateValue(el, raw, { picklists, separator: template.separator })
     if (!check.ok) hardFailure = true
   }
 
@@ -79,6 +82,10 @@ export type TraffickingExportInput = {
   inputRows: BaseLineRow[]
   /** Active platform tabs only, in UI order. */
   platforms: TraffickingExportPlatform[]
+  /** The client's naming conventions; defaults to the house templates and picklists. */
+  conventions?: NamingConventions
+  /** Bulk UTM rows; written to a "UTMs" sheet when present. */
+  utms?: BulkUtmResult[]
 }
 
 export type ComposeAttempt =
@@ -89,6 +96,7 @@ export type ComposeAttempt =
 export function tryComposeName(
   template: NamingTemplate,
   values: Record<string, string>,
+  picklists: NamingPicklists = PICKLISTS,
 ): ComposeAttempt {
   for (const el of template.elements) {
     if (el.source === "literal") continue
@@ -97,7 +105,7 @@ export function tryComposeName(
       if (el.optional) continue
       return { ok: false, error: `Missing ${el.key}` }
     }
-    const check = validateValue(el, raw)
+    const check = validateValue(el, raw, { picklists, separator: template.separator })
     if (!check.ok) return { ok: false, error: check.message ?? `Invalid ${el.key}` }
   }
   try {
@@ -143,7 +151,7 @@ const GLOBAL_RULES = [
   "DV360 templates cover ALL programmatic channels.",
   "CM360 (Campaign Manager) covers other digital channels.",
   "line_item_id is ALWAYS the last element at each platform's pacing-grain level.",
-  "Element values use _ internally; - is the separator; slug charset [a-z0-9_+x].",
+  "Element values use _ internally; each template's separator is shown in element_order; slug charset [a-z0-9_+x].",
   "Names in this workbook are values only — AssembledView is the formula engine (no Excel formulas).",
 ]
 
@@ -191,6 +199,7 @@ function writeInputSheet(
 function writePlatformSheet(
   workbook: ExcelJS.Workbook,
   platform: TraffickingExportPlatform,
+  picklists: NamingPicklists,
 ): void {
   const sheetName = PLATFORM_SHEET_NAMES[platform.platform]
   const sheet = workbook.addWorksheet(sheetName)
@@ -215,7 +224,7 @@ function writePlatformSheet(
       const attempt =
         row.excluded === true
           ? ({ ok: false, error: "Excluded" } as const)
-          : tryComposeName(template, row.values)
+          : tryComposeName(template, row.values, picklists)
       const composed = attempt.ok ? attempt.name : INVALID_NAME_CELL
 
       keys.forEach((key, i) => {
@@ -238,7 +247,25 @@ function writePlatformSheet(
   }
 }
 
-function writeRulesSheet(workbook: ExcelJS.Workbook): void {
+function writeUtmSheet(workbook: ExcelJS.Workbook, utms: BulkUtmResult[]): void {
+  const sheet = workbook.addWorksheet("UTMs")
+  BULK_UTM_COLUMNS.forEach((h, i) => {
+    const cell = sheet.getCell(1, i + 1)
+    cell.value = h
+    cell.font = { bold: true }
+    sheet.getColumn(i + 1).width = h === "tagged_url" || h === "landing_url" ? 60 : 18
+  })
+  utms.forEach((utm, idx) => {
+    bulkUtmCells(utm).forEach((value, i) => {
+      sheet.getCell(idx + 2, i + 1).value = value
+    })
+  })
+}
+
+function writeRulesSheet(
+  workbook: ExcelJS.Workbook,
+  templates: readonly NamingTemplate[],
+): void {
   const sheet = workbook.addWorksheet("Rules")
   sheet.getColumn(1).width = 14
   sheet.getColumn(2).width = 18
@@ -253,10 +280,12 @@ function writeRulesSheet(workbook: ExcelJS.Workbook): void {
   })
 
   let rowIndex = 2
-  for (const template of TEMPLATES) {
+  for (const template of templates) {
     sheet.getCell(rowIndex, 1).value = template.platform
     sheet.getCell(rowIndex, 2).value = template.level
-    sheet.getCell(rowIndex, 3).value = template.elements.map((el) => el.key).join(" - ")
+    sheet.getCell(rowIndex, 3).value = template.elements
+      .map((el) => el.key)
+      .join(` ${template.separator} `)
     sheet.getCell(rowIndex, 4).value = template.isPacingGrain ? "yes" : "no"
     rowIndex++
   }
@@ -284,11 +313,13 @@ export async function buildTraffickingWorkbook(
   workbook.creator = "AssembledView"
   workbook.created = new Date()
 
+  const conventions = input.conventions ?? HOUSE_NAMING_CONVENTIONS
   writeInputSheet(workbook, input.globals, input.inputRows)
   for (const platform of input.platforms) {
-    writePlatformSheet(workbook, platform)
+    writePlatformSheet(workbook, platform, conventions.picklists)
   }
-  writeRulesSheet(workbook)
+  if (input.utms && input.utms.length > 0) writeUtmSheet(workbook, input.utms)
+  writeRulesSheet(workbook, conventions.templates)
 
   return workbook
 }
@@ -10,6 +10,8 @@ export type FetchNamingWorkbookBody = {
   containerBestPractice?: unknown[]
   options?: { useAva?: boolean; version?: string | number }
   version?: string | number
+  /** Raw client name — selects that client's naming conventions server-side. */
+  clientName?: string
 }
 
 export type FetchNamingWorkbookResult = {
@@ -14,7 +14,7 @@ export type FormulaRefs = Record<string, string>
 
 type FormulaToken =
   | { kind: "atom"; expr: string }
-  | { kind: "optional"; expr: string }
+  | { kind: "optional"; ref: string }
 
 function resolveToken(
   element: TemplateElement,
@@ -40,11 +40,7 @@ function resolveToken(
   // Optional elements AND required free fields use IF so a blank cell does not
   // leave a dangling separator (value column shows ← add … in AV for required free).
   if (element.optional || element.source === "free") {
-    // Master pattern: IF(E17<>"","-"&E17,"") — leading separator lives inside the IF
-    return {
-      kind: "optional",
-      expr: `IF(${trimmed}<>"","-"&${trimmed},"")`,
-    }
+    return { kind: "optional", ref: trimmed }
   }
 
   return { kind: "atom", expr: trimmed }
@@ -52,7 +48,8 @@ function resolveToken(
 
 /**
  * Walk `template.elements` in order and build
- * `=LOWER(part1&"-"&part2&…)` mirroring the master naming workbook.
+ * `=LOWER(part1&"-"&part2&…)` mirroring the master naming workbook, joined
+ * with `template.separator`. Templates with `case: "preserve"` drop the LOWER.
  *
  * Optional elements and required free elements with a ref become
  * `IF(ref<>"","-"&ref,"")` so blanks do not leave dangling separators.
@@ -77,30 +74,27 @@ export function composeFormula(
     )
   }
 
+  const sep = `"${template.separator}"`
   let body = ""
   for (let i = 0; i < tokens.length; i++) {
     const token = tokens[i]
     if (i === 0) {
-      if (token.kind === "optional") {
-        // Leading optional: no prior segment to dash onto — emit bare IF without leading "-"
-        const inner = token.expr.replace(
-          /^IF\((.+)<>\"\",\"-\"&\1,\"\"\)$/,
-          'IF($1<>"",$1,"")',
-        )
-        body = inner
-      } else {
-        body = token.expr
-      }
+      // Leading optional: no prior segment to join onto — emit bare IF without a separator
+      body =
+        token.kind === "optional"
+          ? `IF(${token.ref}<>"",${token.ref},"")`
+          : token.expr
       continue
     }
     if (token.kind === "optional") {
-      body += `&${token.expr}`
+      // Master pattern: IF(E17<>"","-"&E17,"") — leading separator lives inside the IF
+      body += `&IF(${token.ref}<>"",${sep}&${token.ref},"")`
     } else {
-      body += `&"-"&${token.expr}`
+      body += `&${sep}&${token.expr}`
     }
   }
 
-  return `=LOWER(${body})`
+  return template.case === "lower" ? `=LOWER(${body})` : `=${body}`
 }
 
 /**
@@ -112,11 +106,11 @@ export function evaluateNamingFormula(
   cells: Record<string, string>,
 ): string {
   const match = formula.match(/^=LOWER\(([\s\S]*)\)$/)
-  if (!match) {
-    throw new Error(`evaluateNamingFormula: expected =LOWER(...), got ${formula}`)
+  if (match) return evalConcat(match[1], cells).toLowerCase()
+  if (!formula.startsWith("=")) {
+    throw new Error(`evaluateNamingFormula: expected =LOWER(...) or =..., got ${formula}`)
   }
-  const joined = evalConcat(match[1], cells)
-  return joined.toLowerCase()
+  return evalConcat(formula.slice(1), cells)
 }
 
 /** Split on top-level `&` (not inside quotes or IF(...)). */
@@ -157,13 +151,13 @@ function evalConcat(expr: string, cells: Record<string, string>): string {
 function evalAtom(atom: string, cells: Record<string, string>): string {
   if (atom.startsWith("IF(") && atom.endsWith(")")) {
     // IF(ref<>"","-"&ref,"")  or  IF(ref<>"",ref,"")
-    const withDash = atom.match(
-      /^IF\((.+)<>\"\",\"-\"&(.+),\"\"\)$/,
+    const withSeparator = atom.match(
+      /^IF\((.+)<>\"\",\"([^"]+)\"&(.+),\"\"\)$/,
     )
-    if (withDash) {
-      const ref = withDash[1]
+    if (withSeparator) {
+      const ref = withSeparator[1]
       const value = lookupCell(ref, cells)
-      return value ? `-${value}` : ""
+      return value ? `${withSeparator[2]}${value}` : ""
     }
     const bare = atom.match(/^IF\((.+)<>\"\",(.+),\"\"\)$/)
     if (bare) {
@@ -151,7 +151,7 @@ export function monthStartFromDate(raw: string | null | undefined): string {
   return `${MONTHS[d.getUTCMonth()]}${String(d.getUTCFullYear()).slice(2)}`
 }
 
-function resolveLineItemId(item: Record<string, unknown>): string {
+export function resolveLineItemId(item: Record<string, unknown>): string {
   for (const key of ["line_item_id", "lineItemId", "LINE_ITEM_ID", "id"]) {
     const v = item[key]
     if (v === undefined || v === null) continue
@@ -411,8 +411,11 @@ export function extractPlanGlobals(
   })
 }
 
-export function templatesForPlatform(platform: string): NamingTemplate[] {
-  return TEMPLATES.filter((t) => t.platform === platform)
+export function templatesForPlatform(
+  platform: string,
+  templates: readonly NamingTemplate[] = TEMPLATES,
+): NamingTemplate[] {
+  return templates.filter((t) => t.platform === platform)
 }
 
 /** Levels that are seeded one-row-per-line-item (have publisher or line_item_id). */
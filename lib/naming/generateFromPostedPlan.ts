@@ -1,5 +1,11 @@
+import { slugifyClientNameForUrl } from "@/lib/clients/slug"
 import type { MediaContainerBestPractice, Publisher } from "@/lib/types/publisher"
 
+import {
+  HOUSE_NAMING_CONVENTIONS,
+  resolveClientNamingConventions,
+  type NamingConventions,
+} from "./clientConventions"
 import { slugifyPlanGlobals, type PlanGlobals } from "./fromPlan"
 
 export type NamingGenerateOptions = {
@@ -18,6 +24,8 @@ export type NamingGenerateBody = {
   options?: NamingGenerateOptions
   /** Alternate to options.version (client may send either). */
   version?: string | number
+  /** Client slug whose naming conventions apply; from `clientName`, else globals.client. */
+  clientSlug?: string
 }
 
 export type NamingReferenceOverride = {
@@ -216,6 +224,10 @@ export function parseNamingGenerateBody(raw: unknown): NamingGenerateBody {
       ? (body.version as string | number)
       : options.version
 
+  const clientSlug = slugifyClientNameForUrl(
+    asTrimmedString(body.clientName) || asTrimmedString(g.client),
+  )
+
   return {
     globals,
     lineItems: normalizeNamingLineItems(asLineItemBag(body.lineItems)),
@@ -223,6 +235,7 @@ export function parseNamingGenerateBody(raw: unknown): NamingGenerateBody {
     containerBestPractice: asBestPracticeList(body.containerBestPractice),
     options,
     version,
+    clientSlug: clientSlug || undefined,
   }
 }
 
@@ -231,12 +244,43 @@ export type GenerateFromPostedPlanDeps = {
   suggest?: (sources: unknown[]) => Promise<unknown>
   /** Override reference-data resolution (tests). */
   resolveReferences?: typeof resolveNamingReferenceData
+  /** Override the client naming-convention lookup (tests). */
+  resolveConventions?: (clientSlug: string) => Promise<NamingConventions>
+}
+
+/**
+ * The client's stored naming conventions. Lookup failures and overrides that
+ * no longer validate fall back to the house set so the workbook still builds.
+ */
+export async function resolveNamingConventionsForClient(
+  clientSlug: string,
+): Promise<NamingConventions> {
+  try {
+    const { getClientNamingConventions } = await import("@/lib/xano/namingConventions")
+    const resolved = resolveClientNamingConventions(
+      await getClientNamingConventions(clientSlug),
+    )
+    if (resolved.issues.length > 0) {
+      console.warn("[naming] stored conventions invalid; using house templates", {
+        clientSlug,
+        issues: resolved.issues.map((issue) => issue.message),
+      })
+    }
+    return resolved.conventions
+  } catch (error) {
+    console.warn("[naming] conventions lookup failed; using house templates", {
+      clientSlug,
+      message: error instanceof Error ? error.message : String(error),
+    })
+    return HOUSE_NAMING_CONVENTIONS
+  }
 }
 
 /**
  * Build naming workbook bytes from posted (unsaved) plan state.
  * Never persists. AVA failures/timeouts → empty overrides (slug path).
- * Publishers + container best-practice are fetched server-side by default.
+ * Publishers + container best-practice are fetched server-side by default,
+ * as are the client's naming conventions when the body names a client.
  *
  * Workbook / summariser modules load lazily so globals slugify + parse stay
  * testable when those companions are not yet on the branch.
@@ -246,10 +290,16 @@ export async function generateNamingWorkbookFromPostedPlan(
   deps?: GenerateFromPostedPlanDeps,
 ): Promise<NamingGenerateResult> {
   const resolveReferences = deps?.resolveReferences ?? resolveNamingReferenceData
-  const references = await resolveReferences({
-    publishers: body.publishers,
-    containerBestPractice: body.containerBestPractice,
-  })
+  const resolveConventions = deps?.resolveConventions ?? resolveNamingConventionsForClient
+  const [references, conventions] = await Promise.all([
+    resolveReferences({
+      publishers: body.publishers,
+      containerBestPractice: body.containerBestPractice,
+    }),
+    body.clientSlug
+      ? resolveConventions(body.clientSlug)
+      : Promise.resolve(HOUSE_NAMING_CONVENTIONS),
+  ])
 
   const [{ buildNamingWorkbook, namingWorkbookFilename }, summariser, suggestMod] =
     await Promise.all([
@@ -298,6 +348,7 @@ export async function generateNamingWorkbookFromPostedPlan(
     publishers: references.publishers,
     containerBestPractice: references.containerBestPractice,
     tokenOverrides,
+    conventions,
   })
 
   const written = await workbook.xlsx.writeBuffer()
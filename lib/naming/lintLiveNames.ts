@@ -0,0 +1,226 @@
+import { slugifyClientNameForUrl } from "@/lib/clients/slug"
+
+import { diagnoseName, type NamingParseConventions } from "./parse"
+import { getTemplate, PICKLISTS, TEMPLATES } from "./templates"
+
+/**
+ * Naming lint for what is actually trafficked: distinct campaign / ad-set /
+ * line names read from the Snowflake pacing facts, checked against the
+ * NamingTemplate for the platform they were delivered on — the client's own
+ * conventions when the name resolves to a client's line item, else the house set.
+ */
+
+export type LiveNameSource = "search" | "social" | "programmatic"
+
+/** Campaign name or the pacing-grain entity under it (ad group / ad set / line item / placement). */
+export type LiveNameKind = "campaign" | "entity"
+
+/** One distinct name observed in a pacing fact table over the lint window. */
+export type ObservedLiveName = {
+  source: LiveNameSource
+  channel: string
+  kind: LiveNameKind
+  name: string
+  campaignName: string
+  /** LINE_ITEM_ID on the fact row(s); null when the pipeline could not resolve one. */
+  factLineItemId: string | null
+  spend: number
+  lastSeenDate: string
+}
+
+export type PlanLineItemRef = {
+  lineItemId: string
+  mbaNumber: string
+  clientName: string
+  campaignName: string
+}
+
+export type ClosestLineItemMatch = PlanLineItemRef & {
+  /** fact = LINE_ITEM_ID already resolves; name_token = a token of the name is a live id; fuzzy = near-miss id. */
+  via: "fact" | "name_token" | "fuzzy"
+}
+
+export type NamingLintIssue = {
+  source: LiveNameSource
+  channel: string
+  platform: string
+  level: string
+  kind: LiveNameKind
+  name: string
+  campaignName: string
+  /** Failing template element; null for structural failures (part count, case). */
+  element: string | null
+  message: string
+  factLineItemId: string | null
+  spend: number
+  lastSeenDate: string
+  closestLineItem: ClosestLineItemMatch | null
+}
+
+export type NamingLintReport = {
+  checked: number
+  conforming: number
+  /** Names on platforms without a template (e.g. TikTok) — counted, not linted. */
+  skipped: number
+  issues: NamingLintIssue[]
+}
+
+/** Edit-distance ceiling for a fuzzy line-item id suggestion. */
+export const NAMING_LINT_MAX_ID_DISTANCE = 2
+
+/**
+ * Naming platform + template levels for a fact row. Programmatic rows share
+ * PACING_FACT, so the platform is sniffed from channel and campaign name the
+ * same way the programmatic pacing tab labels DV360 / Taboola.
+ */
+export function namingTargetsFor(
+  name: Pick<ObservedLiveName, "source" | "channel" | "kind" | "campaignName">,
+): { platform: string; levels: string[] } | null {
+  const channel = name.channel.trim().toLowerCase()
+  const entity = name.kind === "entity"
+
+  if (name.source === "search") {
+    return { platform: "search", levels: [entity ? "ad_group" : "campaign"] }
+  }
+  if (name.source === "social") {
+    if (!channel.includes("meta")) return null
+    return { platform: "meta", levels: [entity ? "ad_set" : "campaign"] }
+  }
+
+  if (channel.includes("ad serving")) {
+    return { platform: "cm360", levels: [entity ? "placement" : "campaign"] }
+  }
+  const hay = `${channel} ${name.campaignName.toLowerCase()}`
+  if (/\btaboola\b|\bnative\b/.test(hay)) {
+    // Native names the campaign down to the line item; entity names are Taboola's own.
+    return entity ? null : { platform: "native", levels: ["campaign"] }
+  }
+  const platform = /\byoutube\b/.test(hay) ? "youtube" : "dv360"
+  // PACING_FACT.CAMPAIGN_NAME carries the DV360 campaign or IO name depending on the feed.
+  return { platform, levels: entity ? ["line_item"] : ["campaign", "insertion_order"] }
+}
+
+/** Levenshtein distance, short-circuiting to max + 1 once it cannot come back under max. */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      row[j] = Math.min(prev[j]! + 1, row[j - 1]! + 1, prev[j - 1]! + cost)
+      rowMin = Math.min(rowMin, row[j]!)
+    }
+    if (rowMin > max) return max + 1
+    prev = row
+  }
+  return prev[b.length]!
+}
+
+/**
+ * Closest live plan line item for a name: the fact's own LINE_ITEM_ID when it
+ * resolves, else any name token that is a live id, else the live id nearest to
+ * the terminal token (within NAMING_LINT_MAX_ID_DISTANCE edits).
+ */
+export function findClosestLineItem(
+  name: Pick<ObservedLiveName, "name" | "factLineItemId">,
+  lineItems: Map<string, PlanLineItemRef>,
+): ClosestLineItemMatch | null {
+  const factId = name.factLineItemId?.trim().toLowerCase()
+  if (factId) {
+    const hit = lineItems.get(factId)
+    if (hit) return { ...hit, via: "fact" }
+  }
+
+  const tokens = name.name
+    .toLowerCase()
+    .split(/[-_\s|]+/)
+    .filter(Boolean)
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const hit = lineItems.get(tokens[i]!)
+    if (hit) return { ...hit, via: "name_token" }
+  }
+
+  const terminal = tokens[tokens.length - 1]
+  if (!terminal) return null
+  let best: PlanLineItemRef | null = null
+  let bestDistance = NAMING_LINT_MAX_ID_DISTANCE + 1
+  for (const [id, ref] of lineItems) {
+    const d = editDistance(terminal, id, NAMING_LINT_MAX_ID_DISTANCE)
+    if (d < bestDistance || (d === bestDistance && best && id < best.lineItemId)) {
+      best = ref
+      bestDistance = d
+    }
+  }
+  return best && bestDistance <= NAMING_LINT_MAX_ID_DISTANCE ? { ...best, via: "fuzzy" } : null
+}
+
+export type LintLiveNamesOptions = {
+  /** Resolved conventions keyed by client slug (slugifyClientNameForUrl); missing clients use the house set. */
+  conventionsByClient?: ReadonlyMap<string, NamingParseConventions>
+}
+
+const HOUSE_CONVENTIONS: NamingParseConventions = { templates: TEMPLATES, picklists: PICKLISTS }
+
+/**
+ * Lint observed names. Each name is read against the conventions of the
+ * client its closest line item belongs to. A name conforms when it parses
+ * under any of its candidate levels; otherwise the diagnosis from the first
+ * level is reported. Issues are ordered by spend so the expensive misnames
+ * surface first.
+ */
+export function lintLiveNames(
+  names: ObservedLiveName[],
+  lineItems: PlanLineItemRef[],
+  options: LintLiveNamesOptions = {},
+): NamingLintReport {
+  const byId = new Map(lineItems.map((li) => [li.lineItemId.trim().toLowerCase(), li]))
+  const byClient = options.conventionsByClient
+  const issues: NamingLintIssue[] = []
+  let checked = 0
+  let conforming = 0
+  let skipped = 0
+
+  for (const observed of names) {
+    const targets = namingTargetsFor(observed)
+    const closest = byClient?.size ? findClosestLineItem(observed, byId) : undefined
+    const conventions =
+      (closest && byClient?.get(slugifyClientNameForUrl(closest.clientName))) || HOUSE_CONVENTIONS
+    const templates = (targets?.levels ?? [])
+      .map((level) => getTemplate(targets!.platform, level, conventions.templates))
+      .filter((t) => t !== undefined)
+    if (!targets || templates.length === 0) {
+      skipped += 1
+      continue
+    }
+
+    checked += 1
+    const diagnoses = templates.map((t) => diagnoseName(t, observed.name, conventions))
+    if (diagnoses.some((d) => d.ok)) {
+      conforming += 1
+      continue
+    }
+
+    const first = diagnoses[0]!
+    if (first.ok) continue
+    issues.push({
+      source: observed.source,
+      channel: observed.channel,
+      platform: targets.platform,
+      level: templates[0]!.level,
+      kind: observed.kind,
+      name: observed.name,
+      campaignName: observed.campaignName,
+      element: first.element,
+      message: first.message,
+      factLineItemId: observed.factLineItemId,
+      spend: observed.spend,
+      lastSeenDate: observed.lastSeenDate,
+      closestLineItem: closest === undefined ? findClosestLineItem(observed, byId) : closest,
+    })
+  }
+
+  issues.sort((a, b) => b.spend - a.spend || a.name.localeCompare(b.name))
+  return { checked, conforming, skipped, issues }
+}
@@ -1,8 +1,32 @@
 import { isCompositeElement, slugify } from "./compose"
-import { getTemplate } from "./templates"
-import type { NamingTemplate, TemplateElement } from "./types"
+import { getTemplate, PICKLISTS, TEMPLATES } from "./templates"
+import type { NamingPicklists, NamingTemplate, TemplateElement } from "./types"
 import { validateValue } from "./validate"
 
+/**
+ * Templates and picklists a name is read against — a client's merged
+ * NamingConventions, or the house set by default. Composite parents are
+ * looked up in the same templates.
+ */
+export type NamingParseConventions = {
+  templates: readonly NamingTemplate[]
+  picklists: NamingPicklists
+}
+
+const HOUSE_PARSE_CONVENTIONS: NamingParseConventions = { templates: TEMPLATES, picklists: PICKLISTS }
+
+function valueOk(
+  template: NamingTemplate,
+  element: TemplateElement,
+  value: string,
+  conventions: NamingParseConventions,
+) {
+  return validateValue(element, value, {
+    picklists: conventions.picklists,
+    separator: template.separator,
+  })
+}
+
 /**
  * Parse a composed name back into element values.
  * Returns null on mismatch (never throws).
@@ -16,6 +40,7 @@ import { validateValue } from "./validate"
 export function parseName(
   template: NamingTemplate,
   name: string,
+  conventions: NamingParseConventions = HOUSE_PARSE_CONVENTIONS,
 ): Record<string, string> | null {
   if (!name || typeof name !== "string") return null
 
@@ -28,7 +53,7 @@ export function parseName(
   let result: Record<string, string> | null
 
   if (compositeIdx === 0) {
-    result = parseCompositePrefix(template, parts)
+    result = parseCompositePrefix(template, parts, conventions)
   } else if (compositeIdx > 0) {
     return null // composite must be leading when present
   } else {
@@ -54,7 +79,7 @@ export function parseName(
       // Composite is a joined name; do not run single-token slug validation
       continue
     }
-    const check = validateValue(element, value)
+    const check = valueOk(template, element, value, conventions)
     if (!check.ok) return null
   }
 
@@ -102,8 +127,10 @@ function parseFlat(
 }
 
 function trailingValuesOk(
+  template: NamingTemplate,
   trailing: TemplateElement[],
   values: Record<string, string>,
+  conventions: NamingParseConventions,
 ): boolean {
   for (const el of trailing) {
     if (el.source === "literal") continue
@@ -112,7 +139,7 @@ function trailingValuesOk(
       if (el.optional) continue
       return false
     }
-    if (!validateValue(el, v).ok) return false
+    if (!valueOk(template, el, v, conventions).ok) return false
   }
   return true
 }
@@ -120,12 +147,13 @@ function trailingValuesOk(
 function parentTemplateForComposite(
   platform: string,
   compositeKey: string,
+  templates: readonly NamingTemplate[],
 ): NamingTemplate | undefined {
   if (compositeKey === "campaign_name") {
-    return getTemplate(platform, "campaign")
+    return getTemplate(platform, "campaign", templates)
   }
   if (compositeKey === "io_name") {
-    return getTemplate(platform, "insertion_order")
+    return getTemplate(platform, "insertion_order", templates)
   }
   return undefined
 }
@@ -140,15 +168,17 @@ function compositeParentParses(
   platform: string,
   compositeKey: string,
   compositeName: string,
+  conventions: NamingParseConventions,
 ): boolean {
-  const parent = parentTemplateForComposite(platform, compositeKey)
+  const parent = parentTemplateForComposite(platform, compositeKey, conventions.templates)
   if (!parent) return true
-  return parseName(parent, compositeName) !== null
+  return parseName(parent, compositeName, conventions) !== null
 }
 
 function parseCompositePrefix(
   template: NamingTemplate,
   parts: string[],
+  conventions: NamingParseConventions,
 ): Record<string, string> | null {
   const elements = template.elements
   const separator = template.separator
@@ -171,11 +201,11 @@ function parseCompositePrefix(
 
     const trailingResult = parseFlat(trailing, trailingParts)
     if (!trailingResult) continue
-    if (!trailingValuesOk(trailing, trailingResult)) continue
+    if (!trailingValuesOk(template, trailing, trailingResult, conventions)) continue
 
     const compositeName = compositeParts.join(separator)
     if (
-      !compositeParentParses(template.platform, composite.key, compositeName)
+      !compositeParentParses(template.platform, composite.key, compositeName, conventions)
     ) {
       continue
     }
@@ -188,3 +218,156 @@ function parseCompositePrefix(
 
   return null
 }
+
+export type NameDiagnosis =
+  | { ok: true; values: Record<string, string> }
+  | {
+      ok: false
+      /** Template element that failed (composite children as "campaign_name.objective"); null for structural failures. */
+      element: string | null
+      message: string
+    }
+
+/**
+ * Explain why a name does not parse under a template. Same anchoring rules as
+ * parseName; reports the first element that fails, reading left to right.
+ * Stricter than parseName on case: lower-case templates reject upper case.
+ */
+export function diagnoseName(
+  template: NamingTemplate,
+  name: string,
+  conventions: NamingParseConventions = HOUSE_PARSE_CONVENTIONS,
+): NameDiagnosis {
+  if (!name || typeof name !== "string" || !name.trim()) {
+    return { ok: false, element: null, message: "Empty name" }
+  }
+  // parseName tolerates case (values slugify); composed names never have upper case.
+  if (template.case === "lower" && name !== name.toLowerCase()) {
+    if (parseName(template, name.toLowerCase(), conventions)) {
+      return { ok: false, element: null, message: "Name is not lower case" }
+    }
+  } else {
+    const values = parseName(template, name, conventions)
+    if (values) return { ok: true, values }
+  }
+
+  const parts = name.split(template.separator)
+  if (parts.some((p) => p.length === 0)) {
+    return {
+      ok: false,
+      element: null,
+      message: `Empty segment (doubled or trailing "${template.separator}")`,
+    }
+  }
+
+  const compositeIdx = template.elements.findIndex(isCompositeElement)
+  if (compositeIdx > 0) {
+    return { ok: false, element: null, message: "Template composite is not leading" }
+  }
+  if (compositeIdx === 0) return diagnoseCompositePrefix(template, parts, conventions)
+  return diagnoseFlat(template, template.elements, parts, conventions)
+}
+
+function diagnoseFlat(
+  template: NamingTemplate,
+  elements: TemplateElement[],
+  parts: string[],
+  conventions: NamingParseConventions,
+): NameDiagnosis {
+  const required = elements.filter((e) => !e.optional)
+  const optionals = elements.filter((e) => e.optional)
+  const nReq = required.length
+  const nMax = nReq + optionals.length
+
+  if (parts.length < nReq) {
+    const expected = nMax === nReq ? `${nReq}` : `${nReq}–${nMax}`
+    return {
+      ok: false,
+      element: required[parts.length]?.key ?? null,
+      message: `Expected ${expected} parts, found ${parts.length}`,
+    }
+  }
+  if (parts.length > nMax) {
+    return {
+      ok: false,
+      element: null,
+      message: `Expected at most ${nMax} parts, found ${parts.length}`,
+    }
+  }
+
+  const presentOptionals = new Set(
+    optionals.slice(0, parts.length - nReq).map((e) => e.key),
+  )
+  let pi = 0
+  for (const element of elements) {
+    if (element.optional && !presentOptionals.has(element.key)) continue
+    const token = parts[pi++]
+    if (element.source === "literal") {
+      const expected = slugify(element.literal ?? "")
+      if (token !== expected) {
+        return {
+          ok: false,
+          element: element.key,
+          message: `Expected "${expected}", found "${token}"`,
+        }
+      }
+      continue
+    }
+    if (isCompositeElement(element)) continue
+    const check = valueOk(template, element, token, conventions)
+    if (!check.ok) {
+      return {
+        ok: false,
+        element: element.key,
+        message: check.message ?? `Invalid ${element.key}`,
+      }
+    }
+  }
+
+  return { ok: false, element: null, message: "Name does not match template" }
+}
+
+function diagnoseCompositePrefix(
+  template: NamingTemplate,
+  parts: string[],
+  conventions: NamingParseConventions,
+): NameDiagnosis {
+  const composite = template.elements[0]
+  const trailing = template.elements.slice(1)
+  const minTrailing = trailing.filter((e) => !e.optional).length
+
+  if (parts.length < minTrailing + 1) {
+    return {
+      ok: false,
+      element: null,
+      message: `Expected at least ${minTrailing + 1} parts, found ${parts.length}`,
+    }
+  }
+
+  // Find the longest prefix that is itself a valid parent name; the failure is
+  // then in the trailing elements.
+  const parent = parentTemplateForComposite(template.platform, composite.key, conventions.templates)
+  if (parent) {
+    for (let prefixLen = parts.length - minTrailing; prefixLen >= 1; prefixLen--) {
+      const prefix = parts.slice(0, prefixLen).join(template.separator)
+      if (parseName(parent, prefix, conventions) === null) continue
+      const rest = diagnoseFlat(template, trailing, parts.slice(prefixLen), conventions)
+      if (rest.ok) break
+      return rest
+    }
+
+    // No valid parent prefix: blame the parent name, assuming the trailing
+    // required elements are present.
+    const prefix = parts.slice(0, parts.length - minTrailing).join(template.separator)
+    const inner = diagnoseName(parent, prefix, conventions)
+    if (!inner.ok) {
+      return {
+        ok: false,
+        element: inner.element ? `${composite.key}.${inner.element}` : composite.key,
+        message: inner.message,
+      }
+    }
+  }
+
+  return diagnoseFlat(template, trailing, parts.slice(parts.length - minTrailing), conventions)
+}
@@ -1,4 +1,4 @@
-import type { NamingTemplate, TemplateElement } from "./types"
+import type { NamingPicklists, NamingTemplate, TemplateElement } from "./types"
 
 function el(
   key: string,
@@ -51,7 +51,7 @@ for (const yy of [26, 27]) {
   }
 }
 
-export const PICKLISTS: Record<string, readonly string[]> = {
+export const PICKLISTS: NamingPicklists = {
   iab_sizes: [
     "300x250",
     "728x90",
@@ -284,6 +284,7 @@ export const TEMPLATES: NamingTemplate[] = [
 export function getTemplate(
   platform: string,
   level: string,
+  templates: readonly NamingTemplate[] = TEMPLATES,
 ): NamingTemplate | undefined {
-  return TEMPLATES.find((t) => t.platform === platform && t.level === level)
+  return templates.find((t) => t.platform === platform && t.level === level)
 }
@@ -1,5 +1,8 @@
 export type ElementSource = "plan" | "picklist" | "free" | "literal"
 
+/** Separators a client taxonomy may use; none survive `slugify`, so values can never contain one. */
+export type NamingSeparator = "-" | "|" | "."
+
 export interface TemplateElement {
   key: string
   source: ElementSource
@@ -15,6 +18,9 @@ export interface NamingTemplate {
   level: string // platform's own level name
   isPacingGrain?: boolean // exactly one level per platform
   elements: TemplateElement[]
-  separator: "-"
+  separator: NamingSeparator
   case: "lower" | "preserve"
 }
+
+/** Picklist key → allowed slug values. */
+export type NamingPicklists = Record<string, readonly string[]>
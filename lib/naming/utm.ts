@@ -0,0 +1,233 @@
+import * as z from "zod"
+
+import { buildUtmUrl, looksLikeUrl, type UtmParams } from "@/src/lib/learning/utm"
+
+import { slugify } from "./compose"
+import type { BaseLineRow, NamingPlatform, PlanGlobals } from "./fromPlan"
+import type { ValidationIssue } from "./validate"
+
+/**
+ * Bulk UTM tagging for a plan's digital line items. Unlike the free-form
+ * Knowledge Hub builder, values here are enforced against the client's UTM
+ * taxonomy so analytics can join sessions back to line items on `utm_id`.
+ * Tokens are slugified exactly as they are for names, so `utm_id` matches the
+ * line_item_id element of the pacing-grain name.
+ */
+
+/** Source default that tags each line with its own publisher. */
+export const UTM_PUBLISHER_TOKEN = "{publisher}"
+
+export type UtmPlatformDefault = { source: string; medium: string }
+
+export type UtmTaxonomy = {
+  /** Allowed utm_source values; empty allows any lowercase value. */
+  sources: string[]
+  /** Allowed utm_medium values; empty allows any lowercase value. */
+  mediums: string[]
+  /** Source / medium each naming platform's lines start with. */
+  defaults: Partial<Record<NamingPlatform, UtmPlatformDefault>>
+}
+
+export const UTM_PLATFORMS = [
+  "cm360",
+  "dv360",
+  "youtube",
+  "meta",
+  "search",
+  "native",
+] as const satisfies readonly NamingPlatform[]
+
+/** House taxonomy: sources stay open (direct buys tag the publisher), mediums are fixed. */
+export const HOUSE_UTM_TAXONOMY: UtmTaxonomy = {
+  sources: [],
+  mediums: ["display", "programmatic", "video", "audio", "paid_social", "cpc", "native"],
+  defaults: {
+    cm360: { source: UTM_PUBLISHER_TOKEN, medium: "display" },
+    dv360: { source: "dv360", medium: "programmatic" },
+    youtube: { source: "youtube", medium: "video" },
+    meta: { source: "meta", medium: "paid_social" },
+    search: { source: "google", medium: "cpc" },
+    native: { source: "taboola", medium: "native" },
+  },
+}
+
+const UTM_VALUE_RE = /^[a-z0-9][a-z0-9_.+-]*$/
+
+export const utmTaxonomySchema = z.object({
+  sources: z.array(z.string().trim()).max(200),
+  mediums: z.array(z.string().trim()).max(200),
+  defaults: z.partialRecord(
+    z.enum(UTM_PLATFORMS),
+    z.object({ source: z.string().trim(), medium: z.string().trim() }),
+  ),
+})
+
+type UtmKind = "source" | "medium"
+
+/** Why a utm_source / utm_medium value is not allowed, or null when it is. */
+export function checkUtmValue(kind: UtmKind, value: string, taxonomy: UtmTaxonomy): string | null {
+  const param = `utm_${kind}`
+  if (!value) return `${param} is required`
+  if (!UTM_VALUE_RE.test(value)) return `${param} "${value}" must be lowercase with no spaces`
+  const allowed = kind === "source" ? taxonomy.sources : taxonomy.mediums
+  if (allowed.length > 0 && !allowed.includes(value)) {
+    return `${param} "${value}" is not in the UTM taxonomy`
+  }
+  return null
+}
+
+export function validateUtmTaxonomy(taxonomy: UtmTaxonomy): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  for (const [label, values] of [
+    ["sources", taxonomy.sources],
+    ["mediums", taxonomy.mediums],
+  ] as const) {
+    const seen = new Set<string>()
+    for (const value of values) {
+      if (!UTM_VALUE_RE.test(value)) {
+        issues.push({ message: `UTM ${label}: "${value}" must be lowercase with no spaces` })
+      }
+      if (seen.has(value)) {
+        issues.push({ message: `UTM ${label}: duplicate value "${value}"` })
+      }
+      seen.add(value)
+    }
+  }
+  for (const [platform, defaults] of Object.entries(taxonomy.defaults)) {
+    if (!defaults) continue
+    if (defaults.source !== UTM_PUBLISHER_TOKEN) {
+      const problem = checkUtmValue("source", defaults.source, taxonomy)
+      if (problem) issues.push({ platform, message: `UTM default ${problem}` })
+    }
+    const problem = checkUtmValue("medium", defaults.medium, taxonomy)
+    if (problem) issues.push({ platform, message: `UTM default ${problem}` })
+  }
+  return issues
+}
+
+export type BulkUtmRow = {
+  lineItemId: string
+  platform: NamingPlatform
+  publisher: string
+  format: string
+  /** Line-specific landing page; blank uses the campaign landing page. */
+  landingUrl: string
+  source: string
+  medium: string
+}
+
+export type BulkUtmResult = BulkUtmRow & {
+  /** The landing page actually tagged (line override or campaign default). */
+  baseUrl: string
+  campaign: string
+  content: string
+  id: string
+  /** Tagged URL, or "" while the row has errors. */
+  url: string
+  errors: string[]
+}
+
+/**
+ * One row per digital line item, in tab order. A line item that appears on
+ * several platform tabs is tagged once, under the first.
+ */
+export function seedBulkUtmRows(
+  platforms: Array<{ platform: NamingPlatform; lines: BaseLineRow[] }>,
+  taxonomy: UtmTaxonomy,
+): BulkUtmRow[] {
+  const seen = new Set<string>()
+  const rows: BulkUtmRow[] = []
+  for (const { platform, lines } of platforms) {
+    const defaults = taxonomy.defaults[platform]
+    for (const line of lines) {
+      if (seen.has(line.line_item_id)) continue
+      seen.add(line.line_item_id)
+      const publisher = slugify(line.publisher)
+      rows.push({
+        lineItemId: line.line_item_id,
+        platform,
+        publisher,
+        format: slugify(line.media_type),
+        landingUrl: "",
+        source: defaults?.source === UTM_PUBLISHER_TOKEN ? publisher : (defaults?.source ?? ""),
+        medium: defaults?.medium ?? "",
+      })
+    }
+  }
+  return rows
+}
+
+/** Tag one row: campaign token → utm_campaign, publisher + format → utm_content, line item → utm_id. */
+export function buildBulkUtm(
+  row: BulkUtmRow,
+  context: { globals: PlanGlobals; landingUrl: string; taxonomy: UtmTaxonomy },
+): BulkUtmResult {
+  const errors: string[] = []
+  const base = row.landingUrl.trim() || context.landingUrl.trim()
+  if (!looksLikeUrl(base)) errors.push("Landing page must be an http(s) URL")
+  for (const kind of ["source", "medium"] as const) {
+    const problem = checkUtmValue(kind, row[kind], context.taxonomy)
+    if (problem) errors.push(problem)
+  }
+  const params: Required<Pick<UtmParams, "campaign" | "content" | "id">> = {
+    campaign: slugify(context.globals.campaign),
+    content: [row.publisher, row.format].filter(Boolean).join("_"),
+    id: slugify(row.lineItemId),
+  }
+  if (!params.campaign) errors.push("utm_campaign is empty — the plan has no campaign name")
+  if (!params.id) errors.push("utm_id is empty — the line item has no id")
+
+  const url =
+    errors.length === 0
+      ? buildUtmUrl(base, { source: row.source, medium: row.medium, ...params }, { lowercase: false, dashes: false })
+      : ""
+  return { ...row, ...params, baseUrl: base, url, errors }
+}
+
+export const BULK_UTM_COLUMNS = [
+  "line_item_id",
+  "platform",
+  "landing_url",
+  "utm_source",
+  "utm_medium",
+  "utm_campaign",
+  "utm_content",
+  "utm_id",
+  "tagged_url",
+] as const
+
+/** Row cells in BULK_UTM_COLUMNS order (CSV and the trafficking workbook's UTMs sheet). */
+export function bulkUtmCells(result: BulkUtmResult): string[] {
+  return [
+    result.lineItemId,
+    result.platform,
+    result.baseUrl,
+    result.source,
+    result.medium,
+    result.campaign,
+    result.content,
+    result.id,
+    result.url || `INVALID: ${result.errors.join("; ")}`,
+  ]
+}
+
+function csvCell(value: string): string {
+  return /[,"\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export function bulkUtmCsv(results: BulkUtmResult[]): string {
+  return [[...BULK_UTM_COLUMNS], ...results.map(bulkUtmCells)]
+    .map((cells) => cells.map(csvCell).join(","))
+    .join("\r\n")
+}
+
+export async function downloadBulkUtmCsv(results: BulkUtmResult[], mba: string): Promise<string> {
+  const { saveAs } = await import("file-saver")
+  const stem = String(mba || "mba")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, "")
+  const name = `utm-${stem || "mba"}.csv`
+  saveAs(new Blob([bulkUtmCsv(results)], { type: "text/csv;charset=utf-8" }), name)
+  return name
+}
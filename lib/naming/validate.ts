@@ -1,6 +1,6 @@
 import { MONTH_START_RE, slugify } from "./compose"
 import { PICKLISTS, TEMPLATES } from "./templates"
-import type { NamingTemplate, TemplateElement } from "./types"
+import type { NamingPicklists, NamingSeparator, NamingTemplate, TemplateElement } from "./types"
 
 export interface ValidationIssue {
   platform?: string
@@ -13,16 +13,23 @@ export interface ValueValidation {
   message?: string
 }
 
+/** Client conventions for {@link validateValue}; defaults are the house picklists and `-`. */
+export interface ValueValidationOptions {
+  picklists?: NamingPicklists
+  separator?: NamingSeparator
+}
+
 /**
  * Structural validation of all registered templates.
  * - Every platform exactly one pacing grain
  * - line_item_id terminal + present on that grain
  * - No two adjacent optional elements
  * - Literals non-empty
- * - Picklist refs exist
+ * - Picklist refs exist (in `picklists`, so client overrides can add lists)
  */
 export function validateTemplates(
-  templates: NamingTemplate[] = TEMPLATES,
+  templates: readonly NamingTemplate[] = TEMPLATES,
+  picklists: NamingPicklists = PICKLISTS,
 ): ValidationIssue[] {
   const issues: ValidationIssue[] = []
   const byPlatform = new Map<string, NamingTemplate[]>()
@@ -54,7 +61,7 @@ export function validateTemplates(
         }
       }
       if (el.source === "picklist") {
-        if (!el.picklist || !(el.picklist in PICKLISTS)) {
+        if (!el.picklist || !(el.picklist in picklists)) {
           issues.push({
             platform: t.platform,
             level: t.level,
@@ -118,7 +125,10 @@ export function validateTemplates(
 export function validateValue(
   element: TemplateElement,
   value: string,
+  options: ValueValidationOptions = {},
 ): ValueValidation {
+  const separator = options.separator ?? "-"
+
   if (value === undefined || value === null || String(value).trim() === "") {
     if (element.optional) return { ok: true }
     return { ok: false, message: `Empty value for ${element.key}` }
@@ -154,7 +164,7 @@ export function validateValue(
   if (!slug) {
     return { ok: false, message: `Value for ${element.key} slugifies to empty` }
   }
-  if (slug.includes("-")) {
+  if (slug.includes(separator)) {
     return {
       ok: false,
       message: `Value for ${element.key} contains separator`,
@@ -163,7 +173,7 @@ export function validateValue(
 
   // Reject if slugification changed meaning too much? Spec: slug rules —
   // value after slug should be usable. Also reject raw containing separator.
-  if (raw.includes("-") && element.key !== "campaign_name" && element.key !== "io_name") {
+  if (raw.includes(separator) && element.key !== "campaign_name" && element.key !== "io_name") {
     return {
       ok: false,
       message: `Value for ${element.key} contains separator`,
@@ -171,7 +181,8 @@ export function validateValue(
   }
 
   if (element.source === "picklist") {
-    const list = element.picklist ? PICKLISTS[element.picklist] : undefined
+    const picklists = options.picklists ?? PICKLISTS
+    const list = element.picklist ? picklists[element.picklist] : undefined
     if (!list) {
       return { ok: false, message: `Unknown picklist ${element.picklist}` }
     }
@@ -0,0 +1,170 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+
+import type { PacingSeriesPoint } from "@/lib/pacing/calcPacing"
+import { projectPacing } from "@/lib/pacing/projection/projectPacing"
+
+import {
+  describePacingAlertRule,
+  evaluatePacingAlertRules,
+  groupPacingAlertMatchesByUser,
+  pacingAlertRuleInputSchema,
+  pacingAlertRulePatchSchema,
+  type PacingAlertRule,
+} from "../alertRules"
+import type { DigestSourceRow } from "../banding"
+import { buildPacingAlertEmailHtml, buildPacingAlertSubject } from "../email"
+
+// 2026-07-01 → 07-20 is 20 days; as of 07-11 that is day 11 (55% elapsed).
+const AS_OF = "2026-07-11"
+
+function sourceRow(overrides: Partial<DigestSourceRow> = {}): DigestSourceRow {
+  return {
+    channel: "social",
+    platform: "meta",
+    mbaNumber: "MBA001",
+    clientName: "Acme",
+    campaignName: "Winter",
+    campaignStatus: "live",
+    lineItemId: "acme001SO1",
+    lineItemStatus: "on-track",
+    totalLineItemBudget: 1000,
+    spendToDateLineTotal: 550,
+    spendToDateCurrentBurst: 550,
+    burstDaysRemaining: 9,
+    lineItemStartDate: "2026-07-01",
+    lineItemEndDate: "2026-07-20",
+    currentBurst: { startDate: "2026-07-01", endDate: "2026-07-20", budget: 1000 },
+    ...overrides,
+  }
+}
+
+function rule(overrides: Partial<PacingAlertRule> = {}): PacingAlertRule {
+  return {
+    id: 1,
+    user_email: "am@example.com",
+    name: "Meta behind",
+    enabled: true,
+    scope: { client_names: [], mba_numbers: [], channels: [], platforms: ["Meta"] },
+    condition: { kind: "behind", threshold_pct: 15, min_days_elapsed: 5 },
+    ...overrides,
+  }
+}
+
+function flatSeries(start: string, days: number, spend: number): PacingSeriesPoint[] {
+  const ms = Date.parse(`${start}T00:00:00Z`)
+  return Array.from({ length: days }, (_, i) => ({
+    date: new Date(ms + i * 86_400_000).toISOString().slice(0, 10),
+    expectedSpend: 0,
+    actualSpend: spend,
+    expectedDeliverable: 0,
+    actualDeliverable: 0,
+  }))
+}
+
+test("behind rule fires past the threshold, after the minimum day, in scope only", () => {
+  const sources = [
+    // 40% delivered vs 55% elapsed → 27% behind.
+    sourceRow({ lineItemId: "late", spendToDateCurrentBurst: 400 }),
+    // 50% vs 55% → 9% behind: under threshold.
+    sourceRow({ lineItemId: "close", spendToDateCurrentBurst: 500 }),
+    // Same shortfall but TikTok: out of scope.
+    sourceRow({ lineItemId: "tiktok", platform: "tiktok", spendToDateCurrentBurst: 400 }),
+  ]
+
+  const matches = evaluatePacingAlertRules([rule()], sources, AS_OF)
+  assert.deepEqual(
+    matches.map((m) => m.lineItemId),
+    ["late"],
+  )
+  assert.equal(matches[0]!.daysElapsed, 11)
+  assert.match(matches[0]!.detail, /27% behind pace on day 11/)
+
+  // Day 11 is not after day 11.
+  const tooEarly = evaluatePacingAlertRules(
+    [rule({ condition: { kind: "behind", threshold_pct: 15, min_days_elapsed: 11 } })],
+    sources,
+    AS_OF,
+  )
+  assert.equal(tooEarly.length, 0)
+})
+
+test("disabled rules and rules scoped to other MBAs do not match", () => {
+  const sources = [sourceRow({ spendToDateCurrentBurst: 100 })]
+  assert.equal(evaluatePacingAlertRules([rule({ enabled: false })], sources, AS_OF).length, 0)
+  assert.equal(
+    evaluatePacingAlertRules(
+      [rule({ scope: { client_names: [], mba_numbers: ["MBA999"], channels: [], platforms: [] } })],
+      sources,
+      AS_OF,
+    ).length,
+    0,
+  )
+})
+
+test("exhausts-early and under-delivery rules read the forecast", () => {
+  const window = { startDate: "2026-07-01", endDate: "2026-07-20", asOfDate: AS_OF, budget: 1000 }
+  const sources = [
+    sourceRow({ lineItemId: "fast", projection: projectPacing({ ...window, series: flatSeries("2026-07-01", 10, 80) }) }),
+    sourceRow({ lineItemId: "slow", projection: projectPacing({ ...window, series: flatSeries("2026-07-01", 10, 20) }) }),
+    sourceRow({ lineItemId: "none", projection: null }),
+  ]
+  const all = { client_names: [], mba_numbers: [], channels: [], platforms: [] }
+
+  const matches = evaluatePacingAlertRules(
+    [
+      rule({ id: 1, name: "Exhausts", scope: all, condition: { kind: "exhausts_early" } }),
+      rule({ id: 2, name: "Short", scope: all, condition: { kind: "under_delivers", threshold_pct: 50 } }),
+      rule({ id: 3, name: "Very short", scope: all, condition: { kind: "under_delivers", threshold_pct: 70 } }),
+    ],
+    sources,
+    AS_OF,
+  )
+  assert.deepEqual(
+    matches.map((m) => [m.lineItemId, m.ruleName]),
+    [
+      ["fast", "Exhausts"],
+      ["slow", "Short"],
+    ],
+  )
+  assert.match(matches[0]!.detail, /exhaust 2026-07-13/)
+})
+
+test("matches group by recipient and render one section per rule", () => {
+  const sources = [sourceRow({ spendToDateCurrentBurst: 400 })]
+  const matches = evaluatePacingAlertRules(
+    [
+      rule({ id: 1, user_email: "b@example.com" }),
+      rule({ id: 2, user_email: "A@example.com", name: "Anything behind", scope: { client_names: ["acme"], mba_numbers: [], channels: [], platforms: [] } }),
+    ],
+    sources,
+    AS_OF,
+  )
+  const byUser = groupPacingAlertMatchesByUser(matches)
+  assert.deepEqual([...byUser.keys()], ["a@example.com", "b@example.com"])
+
+  const mine = byUser.get("a@example.com")!
+  assert.equal(buildPacingAlertSubject(mine), "Pacing alerts — 1 line item match your rules")
+  const html = buildPacingAlertEmailHtml(mine, AS_OF)
+  assert.match(html, /Anything behind · 1/)
+  assert.match(html, /27% behind pace/)
+})
+
+test("schemas default scope on create but leave patches sparse", () => {
+  const created = pacingAlertRuleInputSchema.parse({
+    name: "Exhausts",
+    condition: { kind: "exhausts_early" },
+  })
+  assert.equal(created.enabled, true)
+  assert.deepEqual(created.scope, { client_names: [], mba_numbers: [], channels: [], platforms: [] })
+  assert.deepEqual(pacingAlertRulePatchSchema.parse({ enabled: false }), { enabled: false })
+  assert.equal(
+    pacingAlertRuleInputSchema.safeParse({ name: "x", condition: { kind: "behind", threshold_pct: 150 } }).success,
+    false,
+  )
+  assert.equal(describePacingAlertRule(rule()), "Meta · > 15% behind after day 5")
+  assert.equal(
+    describePacingAlertRule({ scope: created.scope, condition: created.condition }),
+    "All live lines · budget exhausts before end date",
+  )
+})
@@ -4,10 +4,14 @@ import { test } from "node:test"
 import type { AdServingPacingCampaignRow } from "@/lib/pacing/ad-serving/types"
 import type { DirectCampaignGroup } from "@/lib/pacing/direct/types"
 
+import type { PacingSeriesPoint } from "@/lib/pacing/calcPacing"
+import { projectPacing } from "@/lib/pacing/projection/projectPacing"
+
 import {
   adServingStatusToDigestBand,
   buildAdServingDigestCampaignRows,
   buildDigestCampaignRows,
+  buildDigestForecastAlerts,
   buildDirectDigestCampaignRows,
   directStatusToDigestBand,
   metricsForSourceRow,
@@ -19,6 +23,7 @@ import { buildPacingDigestEmailHtml, buildPacingDigestSubject } from "../email"
 function baseRow(overrides: Partial<DigestSourceRow> = {}): DigestSourceRow {
   return {
     channel: "search",
+    platform: "google",
     mbaNumber: "MBA001",
     clientName: "Acme",
     campaignName: "Brand Always On",
@@ -87,6 +92,8 @@ test("digest subject includes at-risk count", () => {
     rows: [],
     atRisk: [],
     groups: { "at-risk": [], behind: [], on: [], ahead: [], "no-data": [] },
+    forecastAlerts: [],
+    lineItems: [],
     counts: { atRisk: 3, behind: 0, on: 5, ahead: 2, noData: 1, total: 11 },
   })
   assert.equal(subject, "Pacing digest — 3 at risk, 5 on track, 2 ahead (11 live)")
@@ -272,6 +279,7 @@ test("email HTML includes ad-serving deliverable-progress footnote", () => {
           deliveredPct: 0.5,
           timeElapsedPct: 1,
           daysLeft: 0,
+          projectedSpendPct: null,
           lineItemCount: 1,
         },
       ],
@@ -286,12 +294,15 @@ test("email HTML includes ad-serving deliverable-progress footnote", () => {
           deliveredPct: 0.4,
           timeElapsedPct: 0.5,
           daysLeft: 10,
+          projectedSpendPct: null,
           lineItemCount: 2,
         },
       ],
       ahead: [],
       "no-data": [],
     },
+    forecastAlerts: [],
+    lineItems: [],
     counts: { atRisk: 1, behind: 0, on: 1, ahead: 0, noData: 0, total: 2 },
   })
   assert.match(
@@ -301,3 +312,53 @@ test("email HTML includes ad-serving deliverable-progress footnote", () => {
   assert.match(html, /\(direct\)/)
   assert.match(html, /\(ad-serving\)/)
 })
+
+function flatSeries(start: string, days: number, spend: number): PacingSeriesPoint[] {
+  const ms = Date.parse(`${start}T00:00:00Z`)
+  return Array.from({ length: days }, (_, i) => ({
+    date: new Date(ms + i * 86_400_000).toISOString().slice(0, 10),
+    expectedSpend: 0,
+    actualSpend: spend,
+    expectedDeliverable: 0,
+    actualDeliverable: 0,
+  }))
+}
+
+test("forecast alerts list early exhausts before under-delivery and roll up projected spend", () => {
+  const window = { startDate: "2026-07-01", endDate: "2026-07-20", asOfDate: "2026-07-11", budget: 1000 }
+  const fast = projectPacing({ ...window, series: flatSeries("2026-07-01", 10, 80) })
+  const slow = projectPacing({ ...window, series: flatSeries("2026-07-01", 10, 20) })
+  const steady = projectPacing({ ...window, series: flatSeries("2026-07-01", 10, 50) })
+  const sources = [
+    baseRow({ lineItemId: "slow", projection: slow }),
+    baseRow({ lineItemId: "fast", projection: fast }),
+    baseRow({ lineItemId: "steady", projection: steady }),
+  ]
+
+  const alerts = buildDigestForecastAlerts(sources)
+  assert.deepEqual(
+    alerts.map((a) => [a.lineItemId, a.projection.outcome]),
+    [
+      ["fast", "exhaust_early"],
+      ["slow", "under_deliver"],
+    ],
+  )
+
+  const [row] = buildDigestCampaignRows(sources, "2026-07-11")
+  assert.equal(Number(row!.projectedSpendPct!.toFixed(2)), 1.0)
+
+  const html = buildPacingDigestEmailHtml({
+    asOfDate: "2026-07-11",
+    builtAt: "2026-07-11T00:00:00.000Z",
+    cacheNote: "",
+    rows: [],
+    atRisk: [],
+    groups: { "at-risk": [], behind: [], on: [], ahead: [], "no-data": [] },
+    forecastAlerts: alerts,
+    lineItems: [],
+    counts: { atRisk: 0, behind: 0, on: 0, ahead: 0, noData: 0, total: 0 },
+  })
+  assert.match(html, /Forecast to completion · 2/)
+  assert.match(html, /Exhausts 2026-07-13/)
+  assert.match(html, /Short by 60%/)
+})
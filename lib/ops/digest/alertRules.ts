@@ -0,0 +1,284 @@
+import * as z from "zod"
+
+import { computeDaysPassed, getAsOfDate } from "@/lib/pacing/maths"
+import type { LineItemProjection } from "@/lib/pacing/projection/projectPacing"
+import { metricsForSourceRow, type DigestSourceRow } from "./banding"
+
+/**
+ * Per-user pacing alert rules, evaluated by the pacing-digest cron on the same
+ * line-item source rows as the shared digest.
+ *
+ * Thresholds are relative to linear pacing: "15% behind" means delivered ÷
+ * elapsed < 0.85 on the current burst (line dates when there is no burst).
+ */
+export type PacingAlertConditionKind =
+  | "behind"
+  | "ahead"
+  | "exhausts_early"
+  | "under_delivers"
+  | "anomaly"
+
+export type PacingAlertCondition =
+  | { kind: "behind"; threshold_pct: number; min_days_elapsed: number }
+  | { kind: "ahead"; threshold_pct: number; min_days_elapsed: number }
+  | { kind: "exhausts_early" }
+  | { kind: "under_delivers"; threshold_pct: number }
+  | { kind: "anomaly" }
+
+/** Empty lists match everything; values compare case-insensitively. */
+export type PacingAlertScope = {
+  client_names: string[]
+  mba_numbers: string[]
+  channels: string[]
+  platforms: string[]
+}
+
+/** Xano `pacing_alert_rules` row. */
+export type PacingAlertRule = {
+  id: number
+  created_at?: number
+  user_email: string
+  name: string
+  enabled: boolean
+  scope: PacingAlertScope
+  condition: PacingAlertCondition
+}
+
+export type PacingAlertRuleInput = Omit<PacingAlertRule, "id" | "created_at" | "user_email">
+
+export const PACING_ALERT_CHANNELS = ["search", "social", "programmatic"] as const
+
+export const PACING_ALERT_CONDITION_LABEL: Record<PacingAlertConditionKind, string> = {
+  behind: "Behind pace",
+  ahead: "Ahead of pace",
+  exhausts_early: "Budget exhausts before end date",
+  under_delivers: "Forecast under-delivers",
+  anomaly: "Delivery anomaly",
+}
+
+const stringList = z
+  .array(z.string().trim())
+  .default([])
+  .transform((list) => list.filter(Boolean))
+
+const thresholdPct = z.coerce
+  .number()
+  .min(0, "threshold_pct must be ≥ 0")
+  .max(100, "threshold_pct must be ≤ 100")
+
+const minDaysElapsed = z.coerce.number().int().min(0, "min_days_elapsed must be ≥ 0").default(0)
+
+export const pacingAlertConditionSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("behind"), threshold_pct: thresholdPct, min_days_elapsed: minDaysElapsed }),
+  z.object({ kind: z.literal("ahead"), threshold_pct: thresholdPct, min_days_elapsed: minDaysElapsed }),
+  z.object({ kind: z.literal("exhausts_early") }),
+  z.object({ kind: z.literal("under_delivers"), threshold_pct: thresholdPct.default(0) }),
+  z.object({ kind: z.literal("anomaly") }),
+])
+
+export const pacingAlertScopeSchema = z.object({
+  client_names: stringList,
+  mba_numbers: stringList,
+  channels: stringList,
+  platforms: stringList,
+})
+
+export const pacingAlertRuleInputSchema = z.object({
+  name: z.string().trim().min(1, "name is required"),
+  enabled: z.boolean().default(true),
+  scope: pacingAlertScopeSchema.default({ client_names: [], mba_numbers: [], channels: [], platforms: [] }),
+  condition: pacingAlertConditionSchema,
+})
+
+/** No defaults here — zod would otherwise fill omitted fields and overwrite the stored rule. */
+export const pacingAlertRulePatchSchema = z.object({
+  name: z.string().trim().min(1, "name is required").optional(),
+  enabled: z.boolean().optional(),
+  scope: pacingAlertScopeSchema.optional(),
+  condition: pacingAlertConditionSchema.optional(),
+})
+
+/** One line item that tripped one rule. */
+export type PacingAlertMatch = {
+  ruleId: number
+  ruleName: string
+  userEmail: string
+  clientName: string
+  mbaNumber: string
+  campaignName: string
+  channel: string
+  platform: string | null
+  lineItemId: string
+  deliveredPct: number | null
+  timeElapsedPct: number | null
+  daysElapsed: number | null
+  projection: LineItemProjection | null
+  /** Human-readable reason, e.g. "22% behind pace on day 6". */
+  detail: string
+}
+
+function norm(value: string | null | undefined): string {
+  return String(value ?? "").trim().toLowerCase()
+}
+
+function inList(list: string[], value: string | null | undefined): boolean {
+  if (list.length === 0) return true
+  const needle = norm(value)
+  return list.some((entry) => norm(entry) === needle)
+}
+
+export function ruleScopeMatches(scope: PacingAlertScope, row: DigestSourceRow): boolean {
+  return (
+    inList(scope.client_names, row.clientName) &&
+    inList(scope.mba_numbers, row.mbaNumber) &&
+    inList(scope.channels, row.channel) &&
+    inList(scope.platforms, row.platform)
+  )
+}
+
+function pct(value: number): string {
+  return `${Math.round(value * 100)}%`
+}
+
+function daysElapsedFor(row: DigestSourceRow, asOfDate: string): number | null {
+  const start = row.currentBurst?.startDate ?? row.lineItemStartDate
+  const end = row.currentBurst?.endDate ?? row.lineItemEndDate
+  if (!start || !end) return null
+  return computeDaysPassed(start, end, asOfDate)
+}
+
+/** Returns the match detail when the row trips the condition, otherwise null. */
+export function evaluatePacingAlertCondition(
+  condition: PacingAlertCondition,
+  row: DigestSourceRow,
+  asOfDate: string,
+): string | null {
+  switch (condition.kind) {
+    case "behind":
+    case "ahead": {
+      const { deliveredPct, timeElapsedPct } = metricsForSourceRow(row, asOfDate)
+      const daysElapsed = daysElapsedFor(row, asOfDate)
+      if (deliveredPct == null || timeElapsedPct == null || !(timeElapsedPct > 0)) return null
+      if (daysElapsed == null || daysElapsed <= condition.min_days_elapsed) return null
+      const pacing = deliveredPct / timeElapsedPct
+      const deviation = condition.kind === "behind" ? 1 - pacing : pacing - 1
+      if (deviation * 100 <= condition.threshold_pct) return null
+      return `${pct(deviation)} ${condition.kind} pace on day ${daysElapsed} (${pct(deliveredPct)} delivered, ${pct(timeElapsedPct)} elapsed)`
+    }
+    case "exhausts_early": {
+      const projection = row.projection
+      if (projection?.outcome !== "exhaust_early") return null
+      return `Budget forecast to exhaust ${projection.outcomeDate} (ends ${projection.endDate})`
+    }
+    case "under_delivers": {
+      const projection = row.projection
+      if (projection?.outcome !== "under_deliver") return null
+      const metric = projection.deliverable ?? projection.spend
+      const shortfall = 1 - metric.projectedPct
+      if (shortfall * 100 <= condition.threshold_pct) return null
+      return `Forecast ${pct(shortfall)} short of ${projection.deliverable ? "deliverable" : "budget"} by ${projection.endDate}`
+    }
+    case "anomaly": {
+      const anomalies = row.projection?.anomalies ?? []
+      if (anomalies.length === 0) return null
+      const latest = anomalies[anomalies.length - 1]!
+      return `${latest.metric} ${latest.kind} on ${latest.date}`
+    }
+  }
+}
+
+/**
+ * Evaluate every enabled rule against the digest source rows. Sorted by user,
+ * then client / MBA / line item so each user's email reads in a stable order.
+ */
+export function evaluatePacingAlertRules(
+  rules: PacingAlertRule[],
+  sources: DigestSourceRow[],
+  asOfDate: string = getAsOfDate(),
+): PacingAlertMatch[] {
+  const matches: PacingAlertMatch[] = []
+
+  for (const rule of rules) {
+    if (!rule.enabled || !rule.user_email) continue
+    for (const row of sources) {
+      if (!ruleScopeMatches(rule.scope, row)) continue
+      const detail = evaluatePacingAlertCondition(rule.condition, row, asOfDate)
+      if (!detail) continue
+      const metrics = metricsForSourceRow(row, asOfDate)
+      matches.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        userEmail: rule.user_email,
+        clientName: row.clientName,
+        mbaNumber: row.mbaNumber,
+        campaignName: row.campaignName,
+        channel: row.channel,
+        platform: row.platform ?? null,
+        lineItemId: row.lineItemId,
+        deliveredPct: metrics.deliveredPct,
+        timeElapsedPct: metrics.timeElapsedPct,
+        daysElapsed: daysElapsedFor(row, asOfDate),
+        projection: row.projection ?? null,
+        detail,
+      })
+    }
+  }
+
+  return matches.sort(
+    (a, b) =>
+      a.userEmail.localeCompare(b.userEmail) ||
+      a.clientName.localeCompare(b.clientName) ||
+      a.mbaNumber.localeCompare(b.mbaNumber) ||
+      a.lineItemId.localeCompare(b.lineItemId) ||
+      a.ruleId - b.ruleId,
+  )
+}
+
+/** Lower-cased recipient → that user's matches (input order preserved). */
+export function groupPacingAlertMatchesByUser(
+  matches: PacingAlertMatch[],
+): Map<string, PacingAlertMatch[]> {
+  const byUser = new Map<string, PacingAlertMatch[]>()
+  for (const match of matches) {
+    const key = norm(match.userEmail)
+    const list = byUser.get(key)
+    if (list) list.push(match)
+    else byUser.set(key, [match])
+  }
+  return byUser
+}
+
+/** One-line summary for the settings list, e.g. "Meta · > 15% behind after day 5". */
+export function describePacingAlertRule(rule: Pick<PacingAlertRule, "scope" | "condition">): string {
+  const { scope, condition } = rule
+  const parts = [
+    ...scope.client_names,
+    ...scope.mba_numbers,
+    ...scope.channels,
+    ...scope.platforms,
+  ]
+  // An empty scope matches every live line in the digest, not only the owner's.
+  const where = parts.length > 0 ? parts.join(", ") : "All live lines"
+  let what: string
+  switch (condition.kind) {
+    case "behind":
+    case "ahead":
+      what =
+        `> ${condition.threshold_pct}% ${condition.kind}` +
+        (condition.min_days_elapsed > 0 ? ` after day ${condition.min_days_elapsed}` : "")
+      break
+    case "under_delivers":
+      what =
+        condition.threshold_pct > 0
+          ? `forecast > ${condition.threshold_pct}% short`
+          : "forecast under-delivers"
+      break
+    case "exhausts_early":
+      what = "budget exhausts before end date"
+      break
+    case "anomaly":
+      what = "delivery anomaly"
+      break
+  }
+  return `${where} · ${what}`
+}
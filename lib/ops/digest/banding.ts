@@ -10,6 +10,7 @@ import {
   computeExpectedPct,
   getAsOfDate,
 } from "@/lib/pacing/maths"
+import type { LineItemProjection } from "@/lib/pacing/projection/projectPacing"
 
 /**
  * Existing app banding (from computeStatus → lineItemStatus pills).
@@ -26,6 +27,8 @@ export type DigestBand = "ahead" | "on" | "behind" | "at-risk" | "no-data"
 
 export type DigestSourceRow = {
   channel: string
+  /** Delivery platform within the channel (search platform, "meta" / "tiktok", DV360…). */
+  platform: string | null
   mbaNumber: string
   clientName: string
   campaignName: string
@@ -39,6 +42,8 @@ export type DigestSourceRow = {
   lineItemStartDate: string | null
   lineItemEndDate: string | null
   currentBurst: { startDate: string; endDate: string; budget: number } | null
+  /** Current-burst forecast from the pacing fetchers; absent for channels without daily facts. */
+  projection?: LineItemProjection | null
 }
 
 export type DigestCampaignRow = {
@@ -50,9 +55,21 @@ export type DigestCampaignRow = {
   deliveredPct: number | null
   timeElapsedPct: number | null
   daysLeft: number | null
+  /** Σ projected burst spend ÷ Σ burst budget over lines with a forecast; null when none. */
+  projectedSpendPct: number | null
   lineItemCount: number
 }
 
+/** Line item the forecast says will finish badly, or whose latest days look anomalous. */
+export type DigestForecastAlert = {
+  clientName: string
+  mbaNumber: string
+  campaignName: string
+  channel: string
+  lineItemId: string
+  projection: LineItemProjection
+}
+
 /** Map fetcher pill → digest band. `behind` surfaces as at-risk in the top section. */
 export function pillToDigestBand(
   status: DigestSourceRow["lineItemStatus"],
@@ -210,6 +227,7 @@ export function buildDirectDigestCampaignRows(
       timeElapsedPct:
         timeElapsedN > 0 ? timeElapsedSum / timeElapsedN : null,
       daysLeft: daysLeftMin,
+      projectedSpendPct: null,
       lineItemCount: group.lineItems.length,
     })
   }
@@ -295,6 +313,7 @@ export function buildAdServingDigestCampaignRows(
       timeElapsedPct:
         acc.timeElapsedN > 0 ? acc.timeElapsedSum / acc.timeElapsedN : null,
       daysLeft: acc.daysLeftMin,
+      projectedSpendPct: null,
       lineItemCount: acc.lineItemCount,
     })
   }
@@ -353,6 +372,8 @@ export function buildDigestCampaignRows(
     timeElapsedSum: number
     timeElapsedN: number
     daysLeftMin: number | null
+    projectedSpend: number
+    projectedBudget: number
     lineItemCount: number
   }
 
@@ -371,6 +392,7 @@ export function buildDigestCampaignRows(
     const key = `${row.mbaNumber}::${row.campaignName}::${row.channel}`.toLowerCase()
     const budget = row.currentBurst?.budget ?? row.totalLineItemBudget
     const spend = row.currentBurst ? row.spendToDateCurrentBurst : row.spendToDateLineTotal
+    const projected = row.projection && row.projection.spend.goalTotal > 0 ? row.projection.spend : null
 
     const existing = map.get(key)
     if (!existing) {
@@ -385,6 +407,8 @@ export function buildDigestCampaignRows(
         timeElapsedSum: metrics.timeElapsedPct ?? 0,
         timeElapsedN: metrics.timeElapsedPct != null ? 1 : 0,
         daysLeftMin: metrics.daysLeft,
+        projectedSpend: projected?.projectedFinal ?? 0,
+        projectedBudget: projected?.goalTotal ?? 0,
         lineItemCount: 1,
       })
       continue
@@ -392,6 +416,10 @@ export function buildDigestCampaignRows(
 
     existing.band = worstBand(existing.band, band)
     existing.spend += spend
+    if (projected) {
+      existing.projectedSpend += projected.projectedFinal
+      existing.projectedBudget += projected.goalTotal
+    }
     existing.budget += budget
     if (metrics.timeElapsedPct != null) {
       existing.timeElapsedSum += metrics.timeElapsedPct
@@ -418,6 +446,8 @@ export function buildDigestCampaignRows(
       timeElapsedPct:
         acc.timeElapsedN > 0 ? acc.timeElapsedSum / acc.timeElapsedN : null,
       daysLeft: acc.daysLeftMin,
+      projectedSpendPct:
+        acc.projectedBudget > 0 ? acc.projectedSpend / acc.projectedBudget : null,
       lineItemCount: acc.lineItemCount,
     })
   }
@@ -442,3 +472,42 @@ export function groupDigestByBand(rows: DigestCampaignRow[]): Record<DigestBand,
   }
   return groups
 }
+
+const FORECAST_OUTCOME_ORDER: Record<LineItemProjection["outcome"], number> = {
+  exhaust_early: 0,
+  under_deliver: 1,
+  on_target: 2,
+  insufficient_data: 3,
+}
+
+/**
+ * Line items worth a look before they finish: projected to exhaust early or
+ * under-deliver, or with an anomalous recent day. Early exhausts first, then
+ * by the date the outcome lands.
+ */
+export function buildDigestForecastAlerts(sources: DigestSourceRow[]): DigestForecastAlert[] {
+  const alerts: DigestForecastAlert[] = []
+  for (const row of sources) {
+    const projection = row.projection
+    if (!projection) continue
+    const badOutcome =
+      projection.outcome === "exhaust_early" || projection.outcome === "under_deliver"
+    if (!badOutcome && projection.anomalies.length === 0) continue
+    alerts.push({
+      clientName: row.clientName,
+      mbaNumber: row.mbaNumber,
+      campaignName: row.campaignName,
+      channel: row.channel,
+      lineItemId: row.lineItemId,
+      projection,
+    })
+  }
+
+  return alerts.sort(
+    (a, b) =>
+      FORECAST_OUTCOME_ORDER[a.projection.outcome] - FORECAST_OUTCOME_ORDER[b.projection.outcome] ||
+      (a.projection.outcomeDate ?? "").localeCompare(b.projection.outcomeDate ?? "") ||
+      a.clientName.localeCompare(b.clientName) ||
+      a.lineItemId.localeCompare(b.lineItemId),
+  )
+}
@@ -1,6 +1,7 @@
 import "server-only"
 
 import { getAsOfDate } from "@/lib/pacing/maths"
+import type { LineItemProjection } from "@/lib/pacing/projection/projectPacing"
 import {
   getCachedAdServingPacingRows,
   getCachedDirectPacingRows,
@@ -12,14 +13,17 @@ import {
   buildAdServingDigestCampaignRows,
   buildDigestCampaignRows,
   buildDirectDigestCampaignRows,
+  buildDigestForecastAlerts,
   bandSortKey,
   groupDigestByBand,
   type DigestCampaignRow,
+  type DigestForecastAlert,
   type DigestSourceRow,
 } from "./banding"
 
 function asSource(
   channel: string,
+  platform: string | null,
   row: {
     mbaNumber: string
     clientName: string
@@ -34,10 +38,12 @@ function asSource(
     lineItemStartDate: string | null
     lineItemEndDate: string | null
     currentBurst: { startDate: string; endDate: string; budget: number } | null
+    projection: LineItemProjection | null
   },
 ): DigestSourceRow {
   return {
     channel,
+    platform: platform?.trim() || null,
     mbaNumber: row.mbaNumber,
     clientName: row.clientName,
     campaignName: row.campaignName,
@@ -57,6 +63,7 @@ function asSource(
           budget: row.currentBurst.budget,
         }
       : null,
+    projection: row.projection,
   }
 }
 
@@ -68,6 +75,10 @@ export type PacingDigestPayload = {
   rows: DigestCampaignRow[]
   atRisk: DigestCampaignRow[]
   groups: ReturnType<typeof groupDigestByBand>
+  /** Line items forecast to exhaust early / under-deliver, or with anomalous recent delivery. */
+  forecastAlerts: DigestForecastAlert[]
+  /** Search / social / programmatic line items the campaign rows were rolled up from (alert-rule input). */
+  lineItems: DigestSourceRow[]
   counts: { atRisk: number; behind: number; on: number; ahead: number; noData: number; total: number }
 }
 
@@ -91,9 +102,9 @@ export async function buildPacingDigest(now: Date = new Date()): Promise<PacingD
   ])
 
   const sources: DigestSourceRow[] = [
-    ...(search ?? []).map((r) => asSource("search", r)),
-    ...(social ?? []).map((r) => asSource("social", r)),
-    ...(programmatic ?? []).map((r) => asSource("programmatic", r)),
+    ...(search ?? []).map((r) => asSource("search", r.platform, r)),
+    ...(social ?? []).map((r) => asSource("social", r.socialPlatform, r)),
+    ...(programmatic ?? []).map((r) => asSource("programmatic", r.platformLabel, r)),
   ]
 
   const rows = [
@@ -118,6 +129,8 @@ export async function buildPacingDigest(now: Date = new Date()): Promise<PacingD
     rows,
     atRisk,
     groups,
+    forecastAlerts: buildDigestForecastAlerts(sources),
+    lineItems: sources,
     counts: {
       atRisk: atRisk.length,
       behind: groups.behind.length,
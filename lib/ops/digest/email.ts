@@ -1,4 +1,10 @@
-import type { DigestBand, DigestCampaignRow } from "./banding"
+import {
+  describeAnomaly,
+  projectedSpendPctLabel,
+  projectionOutcomeLabel,
+} from "@/lib/pacing/projection/formatProjection"
+import type { PacingAlertMatch } from "./alertRules"
+import type { DigestBand, DigestCampaignRow, DigestForecastAlert } from "./banding"
 import type { PacingDigestPayload } from "./buildPacingDigest"
 
 const BAND_LABEL: Record<DigestBand, string> = {
@@ -43,6 +49,7 @@ function renderTable(rows: DigestCampaignRow[]): string {
         <td style="padding:8px 10px;border-bottom:1px solid #d0d7de;font-family:Arial,Helvetica,sans-serif;font-size:13px;color:#24292f;" align="right">${pctLabel(r.deliveredPct)}</td>
         <td style="padding:8px 10px;border-bottom:1px solid #d0d7de;font-family:Arial,Helvetica,sans-serif;font-size:13px;color:#24292f;" align="right">${pctLabel(r.timeElapsedPct)}</td>
         <td style="padding:8px 10px;border-bottom:1px solid #d0d7de;font-family:Arial,Helvetica,sans-serif;font-size:13px;color:#24292f;" align="right">${r.daysLeft == null ? "—" : String(r.daysLeft)}</td>
+        <td style="padding:8px 10px;border-bottom:1px solid #d0d7de;font-family:Arial,Helvetica,sans-serif;font-size:13px;color:#24292f;" align="right">${pctLabel(r.projectedSpendPct)}</td>
       </tr>`
     })
     .join("")
@@ -55,11 +62,58 @@ function renderTable(rows: DigestCampaignRow[]): string {
       <th align="right" style="padding:8px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#57606a;border-bottom:1px solid #d0d7de;">% delivered</th>
       <th align="right" style="padding:8px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#57606a;border-bottom:1px solid #d0d7de;">% time</th>
       <th align="right" style="padding:8px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#57606a;border-bottom:1px solid #d0d7de;">Days left</th>
+      <th align="right" style="padding:8px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#57606a;border-bottom:1px solid #d0d7de;">Forecast spend</th>
     </tr>
     ${body}
   </table>`
 }
 
+const FORECAST_OUTCOME_COLOUR: Record<DigestForecastAlert["projection"]["outcome"], string> = {
+  exhaust_early: "#9a6700",
+  under_deliver: "#cf222e",
+  on_target: "#0969da",
+  insufficient_data: "#57606a",
+}
+
+function renderForecastTable(alerts: DigestForecastAlert[]): string {
+  if (alerts.length === 0) {
+    return `<p style="font-family:Arial,Helvetica,sans-serif;font-size:13px;color:#57606a;margin:8px 0;">None</p>`
+  }
+  const body = alerts
+    .map((a) => {
+      const anomalies = a.projection.anomalies.map((x) => escapeHtml(describeAnomaly(x))).join("<br>")
+      return `<tr>
+        <td style="padding:8px 10px;border-bottom:1px solid #d0d7de;font-family:Arial,Helvetica,sans-serif;font-size:13px;color:#24292f;">${escapeHtml(a.clientName)}</td>
+        <td style="padding:8px 10px;border-bottom:1px solid #d0d7de;font-family:Arial,Helvetica,sans-serif;font-size:13px;color:#24292f;">${escapeHtml(a.mbaNumber)}</td>
+        <td style="padding:8px 10px;border-bottom:1px solid #d0d7de;font-family:Arial,Helvetica,sans-serif;font-size:13px;color:#24292f;">${escapeHtml(a.lineItemId)} <span style="color:#8c959f;">(${escapeHtml(a.channel)})</span></td>
+        <td style="padding:8px 10px;border-bottom:1px solid #d0d7de;font-family:Arial,Helvetica,sans-serif;font-size:13px;color:#24292f;" align="right">${projectedSpendPctLabel(a.projection)}</td>
+        <td style="padding:8px 10px;border-bottom:1px solid #d0d7de;font-family:Arial,Helvetica,sans-serif;font-size:13px;font-weight:700;color:${FORECAST_OUTCOME_COLOUR[a.projection.outcome]};">${escapeHtml(projectionOutcomeLabel(a.projection))}</td>
+        <td style="padding:8px 10px;border-bottom:1px solid #d0d7de;font-family:Arial,Helvetica,sans-serif;font-size:12px;color:#57606a;">${anomalies || "—"}</td>
+      </tr>`
+    })
+    .join("")
+
+  return `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse;border:1px solid #d0d7de;">
+    <tr style="background:#f6f8fa;">
+      <th align="left" style="padding:8px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#57606a;border-bottom:1px solid #d0d7de;">Client</th>
+      <th align="left" style="padding:8px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#57606a;border-bottom:1px solid #d0d7de;">MBA</th>
+      <th align="left" style="padding:8px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#57606a;border-bottom:1px solid #d0d7de;">Line item</th>
+      <th align="right" style="padding:8px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#57606a;border-bottom:1px solid #d0d7de;">Forecast spend</th>
+      <th align="left" style="padding:8px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#57606a;border-bottom:1px solid #d0d7de;">Outcome</th>
+      <th align="left" style="padding:8px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#57606a;border-bottom:1px solid #d0d7de;">Anomalies</th>
+    </tr>
+    ${body}
+  </table>`
+}
+
+function forecastSection(alerts: DigestForecastAlert[]): string {
+  return `<tr><td style="padding:16px 24px 4px;font-family:Arial,Helvetica,sans-serif;">
+    <div style="font-size:15px;font-weight:700;color:#24292f;">Forecast to completion · ${alerts.length}</div>
+    <div style="font-size:12px;color:#57606a;margin-top:2px;">Current burst projected from the trailing 7-day run-rate (weekday-adjusted once there are two weeks of history).</div>
+  </td></tr>
+  <tr><td style="padding:4px 24px 12px;">${renderForecastTable(alerts)}</td></tr>`
+}
+
 function section(band: DigestBand, rows: DigestCampaignRow[]): string {
   const colour = BAND_COLOUR[band]
   return `<tr><td style="padding:16px 24px 4px;font-family:Arial,Helvetica,sans-serif;">
@@ -78,7 +132,7 @@ export function buildPacingDigestSubject(payload: PacingDigestPayload): string {
  * (header counts → priority list → grouped tables) without requiring a dynamic template.
  */
 export function buildPacingDigestEmailHtml(payload: PacingDigestPayload): string {
-  const { groups, counts, asOfDate, builtAt } = payload
+  const { groups, counts, asOfDate, builtAt, forecastAlerts } = payload
 
   return `<!DOCTYPE html>
 <html>
@@ -98,6 +152,7 @@ export function buildPacingDigestEmailHtml(payload: PacingDigestPayload): string
           </div>
         </td></tr>
         ${section("at-risk", groups["at-risk"])}
+        ${forecastSection(forecastAlerts)}
         ${section("on", groups.on)}
         ${section("ahead", groups.ahead)}
         ${section("no-data", groups["no-data"])}
@@ -113,3 +168,78 @@ export function buildPacingDigestEmailHtml(payload: PacingDigestPayload): string
 </body>
 </html>`
 }
+
+function renderAlertMatchTable(matches: PacingAlertMatch[]): string {
+  const body = matches
+    .map((m) => {
+      return `<tr>
+        <td style="padding:8px 10px;border-bottom:1px solid #d0d7de;font-family:Arial,Helvetica,sans-serif;font-size:13px;color:#24292f;">${escapeHtml(m.clientName)}</td>
+        <td style="padding:8px 10px;border-bottom:1px solid #d0d7de;font-family:Arial,Helvetica,sans-serif;font-size:13px;color:#24292f;">${escapeHtml(m.mbaNumber)}</td>
+        <td style="padding:8px 10px;border-bottom:1px solid #d0d7de;font-family:Arial,Helvetica,sans-serif;font-size:13px;color:#24292f;">${escapeHtml(m.lineItemId)} <span style="color:#8c959f;">(${escapeHtml(m.platform ?? m.channel)})</span></td>
+        <td style="padding:8px 10px;border-bottom:1px solid #d0d7de;font-family:Arial,Helvetica,sans-serif;font-size:13px;color:#24292f;" align="right">${pctLabel(m.deliveredPct)}</td>
+        <td style="padding:8px 10px;border-bottom:1px solid #d0d7de;font-family:Arial,Helvetica,sans-serif;font-size:13px;color:#24292f;" align="right">${pctLabel(m.timeElapsedPct)}</td>
+        <td style="padding:8px 10px;border-bottom:1px solid #d0d7de;font-family:Arial,Helvetica,sans-serif;font-size:13px;color:#24292f;">${escapeHtml(m.detail)}</td>
+      </tr>`
+    })
+    .join("")
+
+  return `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse;border:1px solid #d0d7de;">
+    <tr style="background:#f6f8fa;">
+      <th align="left" style="padding:8px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#57606a;border-bottom:1px solid #d0d7de;">Client</th>
+      <th align="left" style="padding:8px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#57606a;border-bottom:1px solid #d0d7de;">MBA</th>
+      <th align="left" style="padding:8px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#57606a;border-bottom:1px solid #d0d7de;">Line item</th>
+      <th align="right" style="padding:8px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#57606a;border-bottom:1px solid #d0d7de;">% delivered</th>
+      <th align="right" style="padding:8px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#57606a;border-bottom:1px solid #d0d7de;">% time</th>
+      <th align="left" style="padding:8px 10px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#57606a;border-bottom:1px solid #d0d7de;">Why</th>
+    </tr>
+    ${body}
+  </table>`
+}
+
+export function buildPacingAlertSubject(matches: PacingAlertMatch[]): string {
+  const lineItems = new Set(matches.map((m) => `${m.mbaNumber}::${m.lineItemId}`)).size
+  return `Pacing alerts — ${lineItems} line item${lineItems === 1 ? "" : "s"} match your rules`
+}
+
+/**
+ * Personal alert email for one subscriber: one section per rule that matched,
+ * in the order the rules were evaluated.
+ */
+export function buildPacingAlertEmailHtml(matches: PacingAlertMatch[], asOfDate: string): string {
+  const byRule = new Map<number, PacingAlertMatch[]>()
+  for (const match of matches) {
+    const list = byRule.get(match.ruleId)
+    if (list) list.push(match)
+    else byRule.set(match.ruleId, [match])
+  }
+
+  const sections = [...byRule.values()]
+    .map(
+      (ruleMatches) => `<tr><td style="padding:16px 24px 4px;font-family:Arial,Helvetica,sans-serif;">
+    <div style="font-size:15px;font-weight:700;color:#24292f;">${escapeHtml(ruleMatches[0]!.ruleName)} · ${ruleMatches.length}</div>
+  </td></tr>
+  <tr><td style="padding:4px 24px 12px;">${renderAlertMatchTable(ruleMatches)}</td></tr>`,
+    )
+    .join("")
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"></head>
+<body style="margin:0;padding:0;background:#f6f8fa;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f6f8fa;padding:24px 12px;">
+    <tr><td align="center">
+      <table role="presentation" width="720" cellpadding="0" cellspacing="0" style="max-width:720px;width:100%;background:#ffffff;border:1px solid #d0d7de;border-radius:8px;">
+        <tr><td style="padding:20px 24px 8px;font-family:Arial,Helvetica,sans-serif;">
+          <div style="font-size:20px;font-weight:700;color:#24292f;">Your pacing alerts</div>
+          <div style="font-size:13px;color:#57606a;margin-top:4px;">As of ${escapeHtml(asOfDate)} (Melbourne)</div>
+        </td></tr>
+        ${sections}
+        <tr><td style="padding:0 24px 20px;font-family:Arial,Helvetica,sans-serif;font-size:11px;color:#8c959f;">
+          Manage these alerts under Account → Notifications · AssembledView cron
+        </td></tr>
+      </table>
+    </td></tr>
+  </table>
+</body>
+</html>`
+}
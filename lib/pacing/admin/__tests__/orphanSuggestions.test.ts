@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { LiveSearchLineItemRecord } from "@/lib/pacing/campaigns/liveSearchLineItems";
+import {
+  isAutoAcceptable,
+  ORPHAN_AUTO_ACCEPT_CONFIDENCE,
+  suggestOrphanMatches,
+  type OrphanMatchSuggestion,
+} from "@/lib/pacing/admin/orphanSuggestions";
+
+const ORPHAN = {
+  channel: "Search - Google Ads",
+  campaignName: "jayco-jayco001-search-brand",
+  adGroupName: "jayco-jayco001-search-brand-caravans-jayco001se1",
+  spendLast30d: 900,
+  firstSeenDate: "2026-07-01",
+  lastSeenDate: "2026-07-10",
+};
+
+function lineItem(overrides: Partial<LiveSearchLineItemRecord>): LiveSearchLineItemRecord {
+  return {
+    lineItemId: "jayco001se1",
+    mbaNumber: "MBA123",
+    campaignName: "Summer Caravans",
+    clientName: "Jayco",
+    totalLineItemBudget: 3100,
+    platform: "Google Ads",
+    bursts: [{ startDate: "2026-07-01", endDate: "2026-07-31", budget: 3100 }],
+    ...overrides,
+  };
+}
+
+test("suggestOrphanMatches ranks the id named in the ad group first with every signal", () => {
+  const [top, ...rest] = suggestOrphanMatches(ORPHAN, [
+    lineItem({ lineItemId: "jayco001se2" }),
+    lineItem({}),
+    lineItem({ lineItemId: "other001se1", clientName: "Other", campaignName: "Winter", platform: "Bing" }),
+  ]);
+
+  assert.equal(top?.lineItemId, "jayco001se1");
+  assert.deepEqual(top?.signals, { naming: 1, dates: 1, publisher: 1, spend: 0.9 });
+  assert.equal(top?.confidence, 0.985);
+  assert.ok(top!.reasons.includes("Bursts cover every day seen"));
+  assert.deepEqual(
+    rest.map((s) => s.lineItemId),
+    ["jayco001se2"],
+    "a near-miss id ranks second; the unrelated line item has no naming evidence"
+  );
+});
+
+test("suggestOrphanMatches falls back to campaign code, then shared words", () => {
+  const orphan = { ...ORPHAN, adGroupName: "jayco001 caravans broad" };
+  const [code] = suggestOrphanMatches(orphan, [lineItem({ bursts: [] })]);
+  assert.equal(code?.signals.naming, 0.6);
+  assert.equal(code?.signals.dates, 0);
+
+  const words = suggestOrphanMatches(
+    { ...ORPHAN, campaignName: "Jayco Brand", adGroupName: "Caravans" },
+    [lineItem({})]
+  );
+  assert.equal(words[0]?.signals.naming, 0.5 * (2 / 3));
+});
+
+test("suggestOrphanMatches scores partial burst overlap and off-platform lines", () => {
+  const [s] = suggestOrphanMatches(ORPHAN, [
+    lineItem({
+      platform: "Microsoft Advertising",
+      bursts: [{ startDate: "2026-07-06", endDate: "2026-07-15", budget: 1000 }],
+    }),
+  ]);
+  assert.equal(s?.signals.dates, 0.5);
+  assert.equal(s?.signals.publisher, 0);
+  assert.equal(s?.signals.spend, 500 / 900);
+});
+
+test("isAutoAcceptable needs a confident top suggestion with a clear margin", () => {
+  const s = (confidence: number) => ({ confidence }) as OrphanMatchSuggestion;
+  assert.equal(isAutoAcceptable([]), false);
+  assert.equal(isAutoAcceptable([s(ORPHAN_AUTO_ACCEPT_CONFIDENCE - 0.01)]), false);
+  assert.equal(isAutoAcceptable([s(0.9)]), true);
+  assert.equal(isAutoAcceptable([s(0.9), s(0.85)]), false);
+  assert.equal(isAutoAcceptable([s(0.9), s(0.6)]), true);
+});
@@ -19,6 +19,8 @@ export type AssignOrphanLineItemArgs = {
   note?: string | null;
   adGroupName?: string | null;
   campaignName?: string | null;
+  /** Prefetched live ids; bulk assignment fetches them once for the batch. */
+  liveLineItemIds?: Set<string>;
 };
 
 export type AssignOrphanLineItemResult = {
@@ -59,10 +61,10 @@ export async function assignOrphanLineItem(
     throw new OrphanAssignValidationError("empty_line_item_id", "newLineItemId is required.");
   }
 
-  const liveIds = await getLiveSearchLineItemIds({
+  const liveIds = args.liveLineItemIds ?? (await getLiveSearchLineItemIds({
     asOfDate: new Date().toISOString().slice(0, 10),
     allowedClientSlugs: null,
-  });
+  }));
   if (!liveIds.has(normalizedNew)) {
     throw new OrphanAssignValidationError(
       "line_item_not_live",
@@ -148,3 +150,46 @@ export async function assignOrphanLineItem(
     auditId: audit.id,
   };
 }
+
+export type BulkOrphanAssignment = Omit<AssignOrphanLineItemArgs, "adminEmail" | "liveLineItemIds">;
+
+export type BulkOrphanAssignOutcome =
+  | ({ ok: true; channel: string; platformLineItemId: string } & AssignOrphanLineItemResult)
+  | { ok: false; channel: string; platformLineItemId: string; error: string; message: string };
+
+/**
+ * Applies several assignments one at a time (each is its own Snowflake
+ * transaction and audit row). A failing assignment is reported in its
+ * outcome and does not stop the rest of the batch.
+ */
+export async function assignOrphanLineItems(
+  adminEmail: string,
+  assignments: BulkOrphanAssignment[]
+): Promise<BulkOrphanAssignOutcome[]> {
+  const liveLineItemIds = await getLiveSearchLineItemIds({
+    asOfDate: new Date().toISOString().slice(0, 10),
+    allowedClientSlugs: null,
+  });
+
+  const outcomes: BulkOrphanAssignOutcome[] = [];
+  for (const assignment of assignments) {
+    const key = { channel: assignment.channel, platformLineItemId: assignment.platformLineItemId };
+    try {
+      const result = await assignOrphanLineItem({ ...assignment, adminEmail, liveLineItemIds });
+      outcomes.push({ ok: true, ...key, ...result });
+    } catch (err) {
+      if (err instanceof OrphanAssignValidationError) {
+        outcomes.push({ ok: false, ...key, error: err.code, message: err.message });
+        continue;
+      }
+      console.error("[assignOrphanLineItems] assignment failed", key, err);
+      outcomes.push({
+        ok: false,
+        ...key,
+        error: "internal_error",
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return outcomes;
+}
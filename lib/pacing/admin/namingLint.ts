@@ -0,0 +1,181 @@
+import "server-only";
+
+import { slugifyClientNameForUrl } from "@/lib/clients/slug";
+import type { NamingConventions } from "@/lib/naming/clientConventions";
+import { resolveNamingConventionsForClient } from "@/lib/naming/generateFromPostedPlan";
+import {
+  lintLiveNames,
+  type NamingLintReport,
+  type ObservedLiveName,
+  type PlanLineItemRef,
+} from "@/lib/naming/lintLiveNames";
+import {
+  getCachedAdServingPacingRows,
+  getCachedProgrammaticPacingRows,
+  getCachedSearchPacingRows,
+  getCachedSocialPacingRows,
+} from "@/lib/pacing/campaigns/pacingRowsCache";
+import { getSocialChannelSqlCondition, SOCIAL_PACING_TABLE } from "@/lib/pacing/social-channels";
+import { querySnowflake } from "@/lib/snowflake/query";
+
+export type GetNamingLintReportArgs = {
+  asOfDate: string;
+  dateWindowDays: number;
+};
+
+type NameRow = {
+  CHANNEL: string;
+  CAMPAIGN_NAME: string | null;
+  ENTITY_NAME: string | null;
+  LINE_ITEM_ID: string | null;
+  SPEND: number | null;
+  LAST_SEEN_DATE: string;
+};
+
+/**
+ * Distinct campaign + entity name pairs per table over the window ending on
+ * the as-of date. Entity is the pacing grain:
+ * SEARCH_PACING_FACT.LINE_ITEM_NAME (ad group), ENTITY_NAME elsewhere.
+ */
+function distinctNamesSql(table: string, entityColumn: string, channelWhere: string): string {
+  return `
+    SELECT
+      CHANNEL,
+      CAMPAIGN_NAME,
+      ${entityColumn} AS ENTITY_NAME,
+      LOWER(TRIM(CAST(ANY_VALUE(LINE_ITEM_ID) AS VARCHAR))) AS LINE_ITEM_ID,
+      SUM(AMOUNT_SPENT) AS SPEND,
+      MAX(CAST(DATE_DAY AS DATE)) AS LAST_SEEN_DATE
+    FROM ${table}
+    WHERE CAST(DATE_DAY AS DATE) BETWEEN DATEADD(day, -?, TO_DATE(?)) AND TO_DATE(?)
+      AND (${channelWhere})
+    GROUP BY CHANNEL, CAMPAIGN_NAME, ${entityColumn}
+  `;
+}
+
+const PROGRAMMATIC_CHANNEL_WHERE = `
+  (LOWER(CHANNEL) LIKE '%programmatic%' AND LOWER(CHANNEL) LIKE '%display%')
+  OR (LOWER(CHANNEL) LIKE '%programmatic%' AND LOWER(CHANNEL) LIKE '%video%')
+  OR (LOWER(CHANNEL) LIKE '%ad serving%')
+`;
+
+/**
+ * Entity names are linted once per row; campaign names once per distinct
+ * (channel, campaign) with spend summed across their entities.
+ */
+function toObservedNames(source: ObservedLiveName["source"], rows: NameRow[]): ObservedLiveName[] {
+  const names: ObservedLiveName[] = [];
+  const campaigns = new Map<string, ObservedLiveName>();
+
+  for (const r of rows) {
+    const campaignName = String(r.CAMPAIGN_NAME ?? "").trim();
+    const entityName = String(r.ENTITY_NAME ?? "").trim();
+    const spend = Number(r.SPEND) || 0;
+    const lastSeenDate = String(r.LAST_SEEN_DATE ?? "").slice(0, 10);
+    const factLineItemId = r.LINE_ITEM_ID ? String(r.LINE_ITEM_ID) : null;
+
+    if (entityName) {
+      names.push({
+        source,
+        channel: r.CHANNEL,
+        kind: "entity",
+        name: entityName,
+        campaignName,
+        factLineItemId,
+        spend,
+        lastSeenDate,
+      });
+    }
+
+    if (!campaignName) continue;
+    const key = `${r.CHANNEL}::${campaignName}`;
+    const existing = campaigns.get(key);
+    if (existing) {
+      existing.spend += spend;
+      if (lastSeenDate > existing.lastSeenDate) existing.lastSeenDate = lastSeenDate;
+      if (existing.factLineItemId !== factLineItemId) existing.factLineItemId = null;
+    } else {
+      campaigns.set(key, {
+        source,
+        channel: r.CHANNEL,
+        kind: "campaign",
+        name: campaignName,
+        campaignName,
+        factLineItemId,
+        spend,
+        lastSeenDate,
+      });
+    }
+  }
+
+  return [...campaigns.values(), ...names];
+}
+
+/**
+ * Live plan line items (search, social, programmatic, ad serving) from the
+ * same 4h pacingRowsCache the pacing tabs read.
+ */
+async function getLivePlanLineItems(asOfDate: string): Promise<PlanLineItemRef[]> {
+  const [search, social, programmatic, adServing] = await Promise.all([
+    getCachedSearchPacingRows(asOfDate, null),
+    getCachedSocialPacingRows(asOfDate, null),
+    getCachedProgrammaticPacingRows(asOfDate, null),
+    getCachedAdServingPacingRows(asOfDate, null),
+  ]);
+  return [...(search ?? []), ...(social ?? []), ...(programmatic ?? []), ...(adServing ?? [])].map(
+    (r) => ({
+      lineItemId: String(r.lineItemId ?? "").trim().toLowerCase(),
+      mbaNumber: r.mbaNumber,
+      clientName: r.clientName,
+      campaignName: r.campaignName,
+    })
+  );
+}
+
+/**
+ * Each client's naming conventions, keyed by client slug. Clients without an
+ * override (or whose lookup fails) resolve to the house set.
+ */
+async function getConventionsByClient(lineItems: PlanLineItemRef[]): Promise<Map<string, NamingConventions>> {
+  const slugs = [...new Set(lineItems.map((li) => slugifyClientNameForUrl(li.clientName)).filter(Boolean))];
+  const resolved = await Promise.all(slugs.map((slug) => resolveNamingConventionsForClient(slug)));
+  return new Map(slugs.map((slug, i) => [slug, resolved[i]!]));
+}
+
+/**
+ * Pulls distinct campaign / ad-set / line names from SEARCH_PACING_FACT,
+ * SOCIAL_PACING_FACT and PACING_FACT over the window and lints them against
+ * the naming templates of the client each name belongs to.
+ */
+export async function getNamingLintReport(args: GetNamingLintReportArgs): Promise<NamingLintReport> {
+  const binds = [args.dateWindowDays, args.asOfDate, args.asOfDate];
+  const [searchRows, socialRows, programmaticRows, lineItems] = await Promise.all([
+    querySnowflake<NameRow>(
+      distinctNamesSql("ASSEMBLEDVIEW.MART.SEARCH_PACING_FACT", "LINE_ITEM_NAME", "1 = 1"),
+      binds,
+      { label: "naming_lint_search" }
+    ),
+    querySnowflake<NameRow>(
+      distinctNamesSql(SOCIAL_PACING_TABLE, "ENTITY_NAME", getSocialChannelSqlCondition()),
+      binds,
+      { label: "naming_lint_social" }
+    ),
+    querySnowflake<NameRow>(
+      distinctNamesSql("ASSEMBLEDVIEW.MART.PACING_FACT", "ENTITY_NAME", PROGRAMMATIC_CHANNEL_WHERE),
+      binds,
+      { label: "naming_lint_programmatic" }
+    ),
+    getLivePlanLineItems(args.asOfDate),
+  ]);
+  const conventionsByClient = await getConventionsByClient(lineItems);
+
+  return lintLiveNames(
+    [
+      ...toObservedNames("search", searchRows),
+      ...toObservedNames("social", socialRows),
+      ...toObservedNames("programmatic", programmaticRows),
+    ],
+    lineItems,
+    { conventionsByClient }
+  );
+}
@@ -29,6 +29,8 @@ export type GetOrphanAdGroupsArgs = {
   dateWindowDays: number;
   channelFilter?: SearchPacingChannel | null;
   spendThreshold?: number;
+  /** Prefetched live ids, when the caller already loaded the live line items. */
+  liveLineItemIds?: Set<string>;
 };
 
 /**
@@ -36,10 +38,12 @@ export type GetOrphanAdGroupsArgs = {
  * LINE_ITEM_ID is NULL or doesn't match any live Xano line item.
  */
 export async function getOrphanAdGroups(args: GetOrphanAdGroupsArgs): Promise<OrphanAdGroup[]> {
-  const liveIds = await getLiveSearchLineItemIds({
-    asOfDate: args.asOfDate,
-    allowedClientSlugs: null,
-  });
+  const liveIds =
+    args.liveLineItemIds ??
+    (await getLiveSearchLineItemIds({
+      asOfDate: args.asOfDate,
+      allowedClientSlugs: null,
+    }));
 
   const channels: string[] = args.channelFilter
     ? [args.channelFilter]
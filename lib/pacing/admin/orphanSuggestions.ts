@@ -0,0 +1,184 @@
+import { editDistance } from "@/lib/naming/lintLiveNames";
+import { parseName } from "@/lib/naming/parse";
+import { getTemplate } from "@/lib/naming/templates";
+import { computeCampaignDays } from "@/lib/pacing/maths";
+import type { LiveSearchLineItemRecord } from "@/lib/pacing/campaigns/liveSearchLineItems";
+import type { OrphanAdGroup } from "./orphanDetection";
+
+/**
+ * Ranked LINE_ITEM_ID suggestions for orphan ad groups. Each candidate is
+ * scored on four signals in [0, 1] and the confidence is their weighted sum.
+ */
+export const ORPHAN_SUGGESTION_WEIGHTS = {
+  naming: 0.45,
+  dates: 0.25,
+  publisher: 0.15,
+  spend: 0.15,
+} as const;
+
+/** Bulk "accept top suggestion" only takes suggestions at or above this confidence… */
+export const ORPHAN_AUTO_ACCEPT_CONFIDENCE = 0.75;
+/** …and only when the runner-up trails by at least this much. */
+export const ORPHAN_AUTO_ACCEPT_MARGIN = 0.1;
+
+const MIN_SUGGESTION_CONFIDENCE = 0.2;
+const MAX_SUGGESTIONS = 3;
+
+export type OrphanSuggestionSignals = Record<keyof typeof ORPHAN_SUGGESTION_WEIGHTS, number>;
+
+export type OrphanMatchSuggestion = {
+  lineItemId: string;
+  mbaNumber: string;
+  clientName: string;
+  campaignName: string;
+  confidence: number;
+  signals: OrphanSuggestionSignals;
+  /** Short human reasons for the strongest signals, e.g. "ID jayco001se1 in ad group name". */
+  reasons: string[];
+};
+
+type OrphanForMatching = Pick<
+  OrphanAdGroup,
+  "channel" | "campaignName" | "adGroupName" | "spendLast30d" | "firstSeenDate" | "lastSeenDate"
+>;
+
+function tokens(value: string): string[] {
+  return value
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function overlapDays(aStart: string, aEnd: string, bStart: string, bEnd: string): number {
+  const start = aStart > bStart ? aStart : bStart;
+  const end = aEnd < bEnd ? aEnd : bEnd;
+  return start <= end ? computeCampaignDays(start, end) : 0;
+}
+
+/** Campaign code the line item id is built on: "jayco001se1" → "jayco001". */
+function lineItemIdStem(lineItemId: string): string {
+  return lineItemId.replace(/[a-z]+\d+$/, "");
+}
+
+function namingSignal(
+  orphan: OrphanForMatching,
+  candidate: LiveSearchLineItemRecord
+): { score: number; reason: string | null } {
+  const id = candidate.lineItemId;
+  const adGroup = orphan.adGroupName.toLowerCase();
+
+  const parsed = parseName(getTemplate("search", "ad_group")!, adGroup);
+  if (parsed?.line_item_id === id) {
+    return { score: 1, reason: `Ad group name parses to ${id}` };
+  }
+
+  const nameTokens = new Set([...tokens(orphan.campaignName), ...tokens(adGroup)]);
+  if (nameTokens.has(id)) return { score: 1, reason: `ID ${id} in ad group name` };
+
+  const terminal = tokens(adGroup).at(-1) ?? "";
+  if (terminal && editDistance(terminal, id, 2) <= 2) {
+    return { score: 0.8, reason: `Ad group ends "${terminal}" (≈ ${id})` };
+  }
+
+  const stem = lineItemIdStem(id);
+  if (stem.length >= 4 && nameTokens.has(stem)) {
+    return { score: 0.6, reason: `Campaign code ${stem} in names` };
+  }
+
+  const mba = candidate.mbaNumber.toLowerCase();
+  if (mba && nameTokens.has(mba)) return { score: 0.5, reason: `MBA ${candidate.mbaNumber} in names` };
+
+  const words = [...new Set([...tokens(candidate.clientName), ...tokens(candidate.campaignName)])].filter(
+    (w) => w.length >= 3
+  );
+  if (words.length === 0) return { score: 0, reason: null };
+  const hits = words.filter((w) => nameTokens.has(w));
+  const score = 0.5 * (hits.length / words.length);
+  return { score, reason: hits.length > 0 ? `Shares "${hits.join(", ")}"` : null };
+}
+
+function datesSignal(orphan: OrphanForMatching, candidate: LiveSearchLineItemRecord): number {
+  const orphanDays = computeCampaignDays(orphan.firstSeenDate, orphan.lastSeenDate);
+  if (!(orphanDays > 0) || candidate.bursts.length === 0) return 0;
+  const covered = candidate.bursts.reduce(
+    (t, b) => t + overlapDays(orphan.firstSeenDate, orphan.lastSeenDate, b.startDate, b.endDate),
+    0
+  );
+  return Math.min(1, covered / orphanDays);
+}
+
+/** SEARCH_PACING_FACT.CHANNEL "Search - Google Ads" vs the plan line's platform. */
+function publisherSignal(orphan: OrphanForMatching, candidate: LiveSearchLineItemRecord): number {
+  const platform = candidate.platform.trim().toLowerCase();
+  if (!platform) return 0.5;
+  const channel = orphan.channel.toLowerCase();
+  const publisher = channel.includes("google") ? "google" : channel.split(" - ").at(-1)?.trim() ?? "";
+  return publisher && platform.includes(publisher) ? 1 : 0;
+}
+
+/** Orphan spend vs the budget the line item would have paced over the same days. */
+function spendSignal(orphan: OrphanForMatching, candidate: LiveSearchLineItemRecord): number {
+  const expected = candidate.bursts.reduce((t, b) => {
+    const days = overlapDays(orphan.firstSeenDate, orphan.lastSeenDate, b.startDate, b.endDate);
+    const burstDays = computeCampaignDays(b.startDate, b.endDate);
+    return burstDays > 0 ? t + (b.budget * days) / burstDays : t;
+  }, 0);
+  const actual = orphan.spendLast30d;
+  if (!(expected > 0) || !(actual > 0)) return 0;
+  return Math.min(expected, actual) / Math.max(expected, actual);
+}
+
+/**
+ * Top suggestions for one orphan, best first. Candidates need some naming
+ * evidence — dates, publisher and spend only rank those — and are dropped
+ * below MIN_SUGGESTION_CONFIDENCE.
+ */
+export function suggestOrphanMatches(
+  orphan: OrphanForMatching,
+  candidates: LiveSearchLineItemRecord[]
+): OrphanMatchSuggestion[] {
+  const scored: OrphanMatchSuggestion[] = [];
+
+  for (const candidate of candidates) {
+    const naming = namingSignal(orphan, candidate);
+    if (naming.score === 0) continue;
+    const signals: OrphanSuggestionSignals = {
+      naming: naming.score,
+      dates: datesSignal(orphan, candidate),
+      publisher: publisherSignal(orphan, candidate),
+      spend: spendSignal(orphan, candidate),
+    };
+    const confidence = (Object.keys(ORPHAN_SUGGESTION_WEIGHTS) as (keyof OrphanSuggestionSignals)[]).reduce(
+      (t, k) => t + ORPHAN_SUGGESTION_WEIGHTS[k] * signals[k],
+      0
+    );
+    if (confidence < MIN_SUGGESTION_CONFIDENCE) continue;
+
+    const reasons: string[] = [];
+    if (naming.reason) reasons.push(naming.reason);
+    if (signals.dates >= 0.99) reasons.push("Bursts cover every day seen");
+    else if (signals.dates > 0) reasons.push(`Bursts cover ${Math.round(signals.dates * 100)}% of days seen`);
+    if (signals.spend >= 0.5) reasons.push(`Spend ${Math.round(signals.spend * 100)}% in line with budget`);
+
+    scored.push({
+      lineItemId: candidate.lineItemId,
+      mbaNumber: candidate.mbaNumber,
+      clientName: candidate.clientName,
+      campaignName: candidate.campaignName,
+      confidence: Math.round(confidence * 1000) / 1000,
+      signals,
+      reasons,
+    });
+  }
+
+  return scored
+    .sort((a, b) => b.confidence - a.confidence || a.lineItemId.localeCompare(b.lineItemId))
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+/** True when the top suggestion is confident and clearly ahead of the runner-up. */
+export function isAutoAcceptable(suggestions: OrphanMatchSuggestion[]): boolean {
+  const [top, second] = suggestions;
+  if (!top || top.confidence < ORPHAN_AUTO_ACCEPT_CONFIDENCE) return false;
+  return !second || top.confidence - second.confidence >= ORPHAN_AUTO_ACCEPT_MARGIN;
+}
@@ -5,6 +5,7 @@ import { xanoUrl } from "@/lib/api/xano";
 import { aggregateForLineItem } from "@/lib/pacing/campaigns/aggregate";
 import { findCurrentBurstIndex, inclusiveDaysBetween } from "@/lib/pacing/burst/currentBurst";
 import { parseBurstsToNormalised } from "@/lib/pacing/burst/parseBursts";
+import { buildDailyActualSeries, projectPacing } from "@/lib/pacing/projection/projectPacing";
 import type { KpiTargets, SearchPacingCampaignRow } from "@/lib/pacing/campaigns/types";
 import { fetchCampaignKpisForMbas } from "@/lib/xano/campaignKpi";
 import {
@@ -316,6 +317,7 @@ function mapSearchRowToCampaignRow(
     spendPerDayRemaining,
     spendRemainingCurrentBurst,
     spendRemainingLineTotal,
+    projection: null,
 
     platformCampaigns: [],
     spendToDateCurrentBurst: 0,
@@ -447,6 +449,16 @@ export async function fetchSearchPacingCampaignRows(
       });
       row.lineItemStatus = lineItemStatusFromPacing(mathsOutput.status);
     }
+
+    row.projection = row.currentBurst
+      ? projectPacing({
+          startDate: row.currentBurst.startDate,
+          endDate: row.currentBurst.endDate,
+          asOfDate: args.asOfDate,
+          budget: row.currentBurst.budget,
+          series: buildDailyActualSeries(matched, (sr) => sr.AMOUNT_SPENT),
+        })
+      : null;
   }
 
   return rows;
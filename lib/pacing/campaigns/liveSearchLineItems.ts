@@ -1,6 +1,7 @@
 import "server-only";
 
 import { parseBurstsToNormalised } from "@/lib/pacing/burst/parseBursts";
+import type { NormalisedBurst } from "./types";
 import {
   resolveLiveSearchLineItemInputs,
   type GetLiveSearchLineItemsArgs,
@@ -14,6 +15,8 @@ export type LiveSearchLineItemRecord = {
   campaignName: string;
   clientName: string;
   totalLineItemBudget: number;
+  platform: string;
+  bursts: Pick<NormalisedBurst, "startDate" | "endDate" | "budget">[];
 };
 
 /**
@@ -35,6 +38,8 @@ export async function getLiveSearchLineItemRecords(
       campaignName: master.mp_campaignname,
       clientName: master.mp_client_name,
       totalLineItemBudget,
+      platform: String(searchRow.platform ?? "").trim(),
+      bursts: bursts.map(({ startDate, endDate, budget }) => ({ startDate, endDate, budget })),
     };
   });
 }
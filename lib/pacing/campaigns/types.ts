@@ -5,6 +5,8 @@
  * Snowflake-sourced fields populated in Part 2 via composer hydration.
  */
 
+import type { LineItemProjection } from "@/lib/pacing/projection/projectPacing";
+
 /**
  * KPI targets sourced from Xano's campaign_kpi table.
  *
@@ -100,6 +102,8 @@ export type SearchPacingCampaignRow = {
   spendPerDayRemaining: number | null;
   spendRemainingCurrentBurst: number | null; // burstBudget - spendToDateCurrentBurst
   spendRemainingLineTotal: number | null; // totalLineItemBudget - spendToDateLineTotal
+  /** Current-burst forecast to completion (projectPacing); null outside a burst. */
+  projection: LineItemProjection | null;
 
   // --- Snowflake KPIs (line-item aggregated) ---
   spendToDateLineTotal: number;
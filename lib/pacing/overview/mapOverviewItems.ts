@@ -195,13 +195,13 @@ export function mapAdServingRowToOverviewItem(row: AdServingLineInput): Overview
   };
 }
 
-function spendGap(item: OverviewAttentionItem): number {
+export function spendGap(item: OverviewAttentionItem): number {
   if (item.budget == null || item.spendToDate == null) return 0;
   // Positive gap = under-spent relative to budget (worse for behind list).
   return item.budget - item.spendToDate;
 }
 
-function overBurnRatio(item: OverviewAttentionItem): number {
+export function overBurnRatio(item: OverviewAttentionItem): number {
   if (item.budget == null || item.budget <= 0 || item.spendToDate == null) return 0;
   return item.spendToDate / item.budget;
 }
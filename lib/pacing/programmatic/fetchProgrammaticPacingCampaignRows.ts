@@ -21,6 +21,7 @@ import {
   getMelbourneYesterdayISO,
   type PacingStatus,
 } from "@/lib/pacing/maths";
+import { buildDailyActualSeries, projectPacing } from "@/lib/pacing/projection/projectPacing";
 import { queryPacingFact } from "@/lib/snowflake/pacing-fact";
 
 export type FetchProgrammaticPacingCampaignRowsArgs = GetLiveProgrammaticLineItemsArgs;
@@ -221,6 +222,21 @@ export async function fetchProgrammaticPacingCampaignRows(
         });
         row.lineItemStatus = lineItemStatusFromPacing(mathsOutput.status);
       }
+
+      row.projection = row.currentBurst
+        ? projectPacing({
+            startDate: row.currentBurst.startDate,
+            endDate: row.currentBurst.endDate,
+            asOfDate: args.asOfDate,
+            budget: row.currentBurst.budget,
+            deliverableGoal: row.currentBurst.calculatedValue,
+            series: buildDailyActualSeries(
+              matched,
+              (fact) => fact.AMOUNT_SPENT,
+              (fact) => fact[row.deliverableMetric]
+            ),
+          })
+        : null;
     }
   }
 
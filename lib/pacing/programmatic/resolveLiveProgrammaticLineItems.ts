@@ -360,6 +360,7 @@ function mapProgRowToCampaignRow(
     spendPerDayRemaining,
     spendRemainingCurrentBurst,
     spendRemainingLineTotal,
+    projection: null,
 
     spendToDateLineTotal: 0,
     spendToDateCurrentBurst: 0,
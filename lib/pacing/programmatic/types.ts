@@ -5,6 +5,7 @@
 
 import type { KpiTargets, NormalisedBurst } from "@/lib/pacing/campaigns/types";
 import type { DeliverableMetric } from "@/lib/pacing/deliverables/mapDeliverableMetric";
+import type { LineItemProjection } from "@/lib/pacing/projection/projectPacing";
 
 /** Plan-side channel family (Xano container). */
 export type ProgrammaticChannelFamily =
@@ -89,6 +90,8 @@ export type ProgrammaticPacingCampaignRow = {
   spendPerDayRemaining: number | null;
   spendRemainingCurrentBurst: number | null;
   spendRemainingLineTotal: number | null;
+  /** Current-burst forecast to completion (projectPacing); null outside a burst. */
+  projection: LineItemProjection | null;
 
   spendToDateLineTotal: number;
   spendToDateCurrentBurst: number;
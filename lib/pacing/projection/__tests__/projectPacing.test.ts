@@ -0,0 +1,139 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+
+import type { PacingSeriesPoint } from "../../calcPacing.js"
+import {
+  buildDailyActualSeries,
+  computeWeekdayFactors,
+  detectPacingAnomalies,
+  projectPacing,
+} from "../projectPacing.js"
+
+function days(start: string, values: number[], deliverables?: number[]): PacingSeriesPoint[] {
+  const ms = Date.parse(`${start}T00:00:00Z`)
+  return values.map((v, i) => ({
+    date: new Date(ms + i * 86_400_000).toISOString().slice(0, 10),
+    expectedSpend: 0,
+    actualSpend: v,
+    expectedDeliverable: 0,
+    actualDeliverable: deliverables?.[i] ?? 0,
+  }))
+}
+
+test("flat run-rate lands on budget and ignores today's partial day", () => {
+  // 2026-07-01..2026-07-30, $100/day budget $3000; as of 07-11 → 10 complete days.
+  const series = [...days("2026-07-01", Array(10).fill(100)), ...days("2026-07-11", [5])]
+  const p = projectPacing({
+    startDate: "2026-07-01",
+    endDate: "2026-07-30",
+    asOfDate: "2026-07-11",
+    budget: 3000,
+    series,
+  })
+  assert.ok(p)
+  assert.equal(p.observedDays, 10)
+  assert.equal(p.remainingDays, 20)
+  assert.equal(p.spend.actualToDate, 1000)
+  assert.equal(p.spend.runRate, 100)
+  assert.equal(p.spend.projectedFinal, 3000)
+  assert.equal(p.spend.low, 3000)
+  assert.equal(p.outcome, "on_target")
+  assert.equal(p.deliverable, null)
+})
+
+test("over-pacing line reports the exhaust date", () => {
+  const p = projectPacing({
+    startDate: "2026-07-01",
+    endDate: "2026-07-30",
+    asOfDate: "2026-07-11",
+    budget: 2000,
+    series: days("2026-07-01", Array(10).fill(100)),
+  })
+  assert.ok(p)
+  assert.equal(p.outcome, "exhaust_early")
+  assert.equal(p.outcomeDate, "2026-07-20")
+  assert.equal(p.spend.goalReachedDate, "2026-07-20")
+})
+
+test("under-delivery is judged on the deliverable when there is a goal", () => {
+  const p = projectPacing({
+    startDate: "2026-07-01",
+    endDate: "2026-07-30",
+    asOfDate: "2026-07-11",
+    budget: 3000,
+    deliverableGoal: 300_000,
+    series: days("2026-07-01", Array(10).fill(100), Array(10).fill(5_000)),
+  })
+  assert.ok(p)
+  assert.equal(p.deliverable?.projectedFinal, 150_000)
+  assert.equal(p.outcome, "under_deliver")
+  assert.equal(p.outcomeDate, "2026-07-30")
+})
+
+test("weekday seasonality shapes the remaining days", () => {
+  // Weekdays $120, weekends $50 for four weeks starting Monday 2026-06-01.
+  const values = Array.from({ length: 28 }, (_, i) => (i % 7 >= 5 ? 50 : 120))
+  const series = days("2026-06-01", values)
+  const { factors, applied } = computeWeekdayFactors(
+    series.map((p) => ({ date: p.date, value: p.actualSpend })),
+  )
+  assert.equal(applied, true)
+  assert.ok(factors[6]! < factors[1]!)
+
+  const p = projectPacing({
+    startDate: "2026-06-01",
+    endDate: "2026-07-05",
+    asOfDate: "2026-06-29",
+    budget: 3500,
+    series,
+  })
+  assert.ok(p)
+  assert.equal(p.seasonalityApplied, true)
+  // Remaining: Mon 29 → Sun 5 = 5 × 120 + 2 × 50.
+  assert.equal(Math.round(p.spend.projectedFinal), values.reduce((t, v) => t + v, 0) + 700)
+  assert.equal(Math.round(p.spend.high - p.spend.low), 0)
+})
+
+test("too few complete days is insufficient data", () => {
+  const p = projectPacing({
+    startDate: "2026-07-01",
+    endDate: "2026-07-30",
+    asOfDate: "2026-07-02",
+    budget: 3000,
+    series: days("2026-07-01", [100]),
+  })
+  assert.equal(p?.outcome, "insufficient_data")
+  assert.equal(projectPacing({ startDate: "2026-07-01", endDate: "2026-07-30", asOfDate: "2026-07-02", budget: 0, series: [] }), null)
+})
+
+test("anomalies flag stalls and spikes against a noisy baseline", () => {
+  const base = [100, 95, 105, 98, 102, 97, 103, 99, 101, 100]
+  const observed = days("2026-07-01", [...base, 400, 0]).map((p) => ({ date: p.date, value: p.actualSpend }))
+  const anomalies = detectPacingAnomalies(observed, [1, 1, 1, 1, 1, 1, 1], "spend")
+  assert.deepEqual(
+    anomalies.map((a) => [a.date, a.kind]),
+    [
+      ["2026-07-11", "spike"],
+      ["2026-07-12", "stall"],
+    ],
+  )
+})
+
+test("buildDailyActualSeries sums rows per day", () => {
+  const series = buildDailyActualSeries(
+    [
+      { DATE_DAY: "2026-07-02", spend: 10, imps: 100 },
+      { DATE_DAY: "2026-07-01", spend: 5, imps: 50 },
+      { DATE_DAY: "2026-07-02", spend: 2, imps: 20 },
+    ],
+    (r) => r.spend,
+    (r) => r.imps,
+  )
+  assert.deepEqual(
+    series.map((p) => [p.date, p.actualSpend, p.actualDeliverable]),
+    [
+      ["2026-07-01", 5, 50],
+      ["2026-07-02", 12, 120],
+    ],
+  )
+})
@@ -0,0 +1,35 @@
+import type { LineItemProjection, PacingAnomaly } from "./projectPacing"
+
+const ANOMALY_KIND_LABEL: Record<PacingAnomaly["kind"], string> = {
+  spike: "spike",
+  drop: "drop",
+  stall: "no delivery",
+}
+
+/** Short outcome label shared by the pacing tables and the digest email. */
+export function projectionOutcomeLabel(projection: LineItemProjection): string {
+  switch (projection.outcome) {
+    case "exhaust_early":
+      return `Exhausts ${projection.outcomeDate}`
+    case "under_deliver": {
+      const metric = projection.deliverable ?? projection.spend
+      return `Short by ${Math.round((1 - metric.projectedPct) * 100)}%`
+    }
+    case "on_target":
+      return "On target"
+    case "insufficient_data":
+      return "Too early"
+  }
+}
+
+/** Projected final spend as a % of budget ("104%"), or "—" without a budget. */
+export function projectedSpendPctLabel(projection: LineItemProjection): string {
+  if (projection.spend.goalTotal <= 0) return "—"
+  return `${Math.round(projection.spend.projectedPct * 100)}%`
+}
+
+/** "2026-07-11 spend spike (400 vs ~100 expected)" */
+export function describeAnomaly(anomaly: PacingAnomaly): string {
+  const fmt = (n: number) => new Intl.NumberFormat("en-AU", { maximumFractionDigits: 0 }).format(n)
+  return `${anomaly.date} ${anomaly.metric} ${ANOMALY_KIND_LABEL[anomaly.kind]} (${fmt(anomaly.actual)} vs ~${fmt(anomaly.expected)} expected)`
+}
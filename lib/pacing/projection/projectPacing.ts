@@ -0,0 +1,348 @@
+import type { PacingSeriesPoint } from "@/lib/pacing/calcPacing"
+import { div0 } from "@/lib/pacing/maths/div0"
+
+/**
+ * Forecast-to-completion for one pacing window (usually the current burst).
+ *
+ * Inputs are daily actuals in `PacingResult.series` shape (one point per day;
+ * `actualSpend` / `actualDeliverable` are that day's values, expected fields unused).
+ * Only complete days are modelled: anything dated on or after `asOfDate` is
+ * partial Melbourne-day data and is ignored for both actuals and run-rate.
+ *
+ * Model: de-seasonalised trailing run-rate × weekday factor for each remaining
+ * day. Confidence range is ±z·σ·√(remaining days) from the trailing residuals.
+ */
+
+/** Days of trailing history used for the run-rate. */
+export const PROJECTION_TRAILING_DAYS = 7
+/** Days of trailing history used for the residual spread (confidence range). */
+export const PROJECTION_SPREAD_DAYS = 14
+/** Weekday factors need two full weeks before they mean anything. */
+export const PROJECTION_MIN_SEASONALITY_DAYS = 14
+/** Fewer complete days than this → outcome `insufficient_data`. */
+export const PROJECTION_MIN_OBSERVED_DAYS = 3
+/** Same ±5% band computeStatus treats as on_track. */
+export const PROJECTION_TOLERANCE_PCT = 0.05
+/** z for an 80% two-sided range. */
+export const PROJECTION_CONFIDENCE_Z = 1.2816
+
+/** Anomaly detection: how many of the latest complete days are checked. */
+export const ANOMALY_LOOKBACK_DAYS = 3
+/** Anomaly detection: baseline days needed before a day can be judged. */
+export const ANOMALY_MIN_BASELINE_DAYS = 7
+/** Robust z-score (median / MAD) a day must exceed to be flagged. */
+export const ANOMALY_Z_THRESHOLD = 3
+/** …and it must also be at least this far off expected, relatively. */
+export const ANOMALY_MIN_RELATIVE_DEVIATION = 0.5
+
+export type ProjectionOutcome = "exhaust_early" | "under_deliver" | "on_target" | "insufficient_data"
+
+export type PacingAnomalyKind = "spike" | "drop" | "stall"
+
+export type PacingAnomaly = {
+  date: string
+  metric: "spend" | "deliverable"
+  kind: PacingAnomalyKind
+  actual: number
+  expected: number
+}
+
+export type MetricProjection = {
+  goalTotal: number
+  /** Complete days only (see module note). */
+  actualToDate: number
+  /** De-seasonalised trailing daily average. */
+  runRate: number
+  projectedFinal: number
+  low: number
+  high: number
+  /** projectedFinal ÷ goalTotal; 0 when there is no goal. */
+  projectedPct: number
+  /** First day cumulative delivery reaches the goal within the window; null if it does not. */
+  goalReachedDate: string | null
+}
+
+export type LineItemProjection = {
+  startDate: string
+  endDate: string
+  asOfDate: string
+  observedDays: number
+  remainingDays: number
+  seasonalityApplied: boolean
+  spend: MetricProjection
+  deliverable: MetricProjection | null
+  outcome: ProjectionOutcome
+  /** Exhaust date for `exhaust_early`; window end for `under_deliver`; otherwise null. */
+  outcomeDate: string | null
+  anomalies: PacingAnomaly[]
+}
+
+export type ProjectPacingInput = {
+  startDate: string
+  endDate: string
+  asOfDate: string
+  budget: number
+  /** Omit / null / 0 for spend-only channels (e.g. search). */
+  deliverableGoal?: number | null
+  series: PacingSeriesPoint[]
+}
+
+function parseYmdUtc(ymd: string): number {
+  const [y, m, d] = ymd.split("-").map((x) => Number(x))
+  return Date.UTC(y, m - 1, d)
+}
+
+function formatYmdUtc(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10)
+}
+
+function addDaysYmd(ymd: string, days: number): string {
+  return formatYmdUtc(parseYmdUtc(ymd) + days * 86_400_000)
+}
+
+/** Inclusive list of YYYY-MM-DD between two dates; empty when end < start. */
+function dateRange(startYmd: string, endYmd: string): string[] {
+  const out: string[] = []
+  for (let ms = parseYmdUtc(startYmd), end = parseYmdUtc(endYmd); ms <= end; ms += 86_400_000) {
+    out.push(formatYmdUtc(ms))
+  }
+  return out
+}
+
+function weekday(ymd: string): number {
+  return new Date(parseYmdUtc(ymd)).getUTCDay()
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((t, v) => t + v, 0) / values.length
+}
+
+function stdDev(values: number[]): number {
+  if (values.length < 2) return 0
+  const m = mean(values)
+  return Math.sqrt(values.reduce((t, v) => t + (v - m) ** 2, 0) / (values.length - 1))
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = values.toSorted((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1]! + sorted[mid]!) / 2 : sorted[mid]!
+}
+
+/**
+ * Weekday multipliers (Sun = 0) normalised to average 1 across the week.
+ * All 1s until there are enough observed days to trust them.
+ */
+export function computeWeekdayFactors(
+  days: Array<{ date: string; value: number }>,
+): { factors: number[]; applied: boolean } {
+  const flat = { factors: [1, 1, 1, 1, 1, 1, 1], applied: false }
+  if (days.length < PROJECTION_MIN_SEASONALITY_DAYS) return flat
+
+  const buckets: number[][] = [[], [], [], [], [], [], []]
+  for (const d of days) buckets[weekday(d.date)]!.push(d.value)
+  const weekdayMeans = buckets.map(mean)
+  const weekMean = mean(weekdayMeans)
+  if (weekMean <= 0) return flat
+
+  return { factors: weekdayMeans.map((m) => m / weekMean), applied: true }
+}
+
+function deseasonalise(
+  days: Array<{ date: string; value: number }>,
+  factors: number[],
+): number[] {
+  const out: number[] = []
+  for (const d of days) {
+    const f = factors[weekday(d.date)]!
+    // A weekday that never delivers tells us nothing about the underlying rate.
+    if (f > 0) out.push(d.value / f)
+  }
+  return out
+}
+
+function projectMetric(
+  observed: Array<{ date: string; value: number }>,
+  remainingDates: string[],
+  factors: number[],
+  goalTotal: number,
+): MetricProjection {
+  const actualToDate = observed.reduce((t, d) => t + d.value, 0)
+  const trailing = observed.slice(-PROJECTION_TRAILING_DAYS)
+  const trailingAdjusted = deseasonalise(trailing, factors)
+  const runRate = trailingAdjusted.length > 0 ? mean(trailingAdjusted) : mean(trailing.map((d) => d.value))
+  const sigma = stdDev(deseasonalise(observed.slice(-PROJECTION_SPREAD_DAYS), factors))
+
+  let cumulative = 0
+  let goalReachedDate: string | null = null
+  for (const d of observed) {
+    cumulative += d.value
+    if (goalReachedDate === null && goalTotal > 0 && cumulative >= goalTotal) goalReachedDate = d.date
+  }
+  for (const date of remainingDates) {
+    cumulative += runRate * factors[weekday(date)]!
+    if (goalReachedDate === null && goalTotal > 0 && cumulative >= goalTotal) goalReachedDate = date
+  }
+
+  const projectedFinal = cumulative
+  const halfWidth = PROJECTION_CONFIDENCE_Z * sigma * Math.sqrt(remainingDates.length)
+  return {
+    goalTotal,
+    actualToDate,
+    runRate,
+    projectedFinal,
+    low: Math.max(actualToDate, projectedFinal - halfWidth),
+    high: projectedFinal + halfWidth,
+    projectedPct: div0(projectedFinal, goalTotal),
+    goalReachedDate,
+  }
+}
+
+/**
+ * Flags the latest complete days whose value is far from the seasonal baseline.
+ * Baseline = median of the preceding days (de-seasonalised), scale = MAD.
+ */
+export function detectPacingAnomalies(
+  observed: Array<{ date: string; value: number }>,
+  factors: number[],
+  metric: PacingAnomaly["metric"],
+): PacingAnomaly[] {
+  const anomalies: PacingAnomaly[] = []
+  const firstChecked = Math.max(ANOMALY_MIN_BASELINE_DAYS, observed.length - ANOMALY_LOOKBACK_DAYS)
+
+  for (let i = firstChecked; i < observed.length; i++) {
+    const day = observed[i]!
+    const baseline = deseasonalise(observed.slice(Math.max(0, i - PROJECTION_SPREAD_DAYS), i), factors)
+    if (baseline.length < ANOMALY_MIN_BASELINE_DAYS) continue
+
+    const centre = median(baseline)
+    const expected = centre * factors[weekday(day.date)]!
+    if (expected <= 0) continue
+
+    if (day.value === 0) {
+      anomalies.push({ date: day.date, metric, kind: "stall", actual: 0, expected })
+      continue
+    }
+
+    const mad = median(baseline.map((v) => Math.abs(v - centre))) * 1.4826
+    const deviation = day.value - expected
+    const robustZ = mad > 0 ? Math.abs(deviation) / mad : Number.POSITIVE_INFINITY
+    if (robustZ < ANOMALY_Z_THRESHOLD) continue
+    if (Math.abs(deviation) < expected * ANOMALY_MIN_RELATIVE_DEVIATION) continue
+
+    anomalies.push({
+      date: day.date,
+      metric,
+      kind: deviation > 0 ? "spike" : "drop",
+      actual: day.value,
+      expected,
+    })
+  }
+
+  return anomalies
+}
+
+function resolveOutcome(
+  spend: MetricProjection,
+  deliverable: MetricProjection | null,
+  endDate: string,
+): { outcome: ProjectionOutcome; outcomeDate: string | null } {
+  if (
+    spend.goalTotal > 0 &&
+    spend.projectedPct > 1 + PROJECTION_TOLERANCE_PCT &&
+    spend.goalReachedDate !== null &&
+    spend.goalReachedDate < endDate
+  ) {
+    return { outcome: "exhaust_early", outcomeDate: spend.goalReachedDate }
+  }
+  const primary = deliverable && deliverable.goalTotal > 0 ? deliverable : spend
+  if (primary.goalTotal > 0 && primary.projectedPct < 1 - PROJECTION_TOLERANCE_PCT) {
+    return { outcome: "under_deliver", outcomeDate: endDate }
+  }
+  return { outcome: "on_target", outcomeDate: null }
+}
+
+/**
+ * Project a pacing window to completion. Returns null when the window is
+ * malformed or has no goal to project against.
+ */
+export function projectPacing(input: ProjectPacingInput): LineItemProjection | null {
+  const { startDate, endDate, asOfDate } = input
+  const budget = Number.isFinite(input.budget) ? input.budget : 0
+  const deliverableGoal = Number.isFinite(input.deliverableGoal) ? Number(input.deliverableGoal) : 0
+  if (!startDate || !endDate || endDate < startDate) return null
+  if (budget <= 0 && deliverableGoal <= 0) return null
+
+  const yesterday = addDaysYmd(asOfDate, -1)
+  const lastComplete = yesterday < endDate ? yesterday : endDate
+  const observedDates = dateRange(startDate, lastComplete)
+  const remainingDates =
+    lastComplete < startDate ? dateRange(startDate, endDate) : dateRange(addDaysYmd(lastComplete, 1), endDate)
+
+  const byDate = new Map<string, { spend: number; deliverable: number }>()
+  for (const p of input.series) {
+    const acc = byDate.get(p.date) ?? { spend: 0, deliverable: 0 }
+    acc.spend += Number(p.actualSpend) || 0
+    acc.deliverable += Number(p.actualDeliverable) || 0
+    byDate.set(p.date, acc)
+  }
+  // Missing days inside the window are genuine zero-delivery days.
+  const spendDays = observedDates.map((date) => ({ date, value: byDate.get(date)?.spend ?? 0 }))
+  const deliverableDays = observedDates.map((date) => ({ date, value: byDate.get(date)?.deliverable ?? 0 }))
+
+  const spendSeasonality = computeWeekdayFactors(spendDays)
+  const spend = projectMetric(spendDays, remainingDates, spendSeasonality.factors, budget)
+
+  let deliverable: MetricProjection | null = null
+  let deliverableFactors: number[] | null = null
+  if (deliverableGoal > 0) {
+    deliverableFactors = computeWeekdayFactors(deliverableDays).factors
+    deliverable = projectMetric(deliverableDays, remainingDates, deliverableFactors, deliverableGoal)
+  }
+
+  const anomalies = [
+    ...detectPacingAnomalies(spendDays, spendSeasonality.factors, "spend"),
+    ...(deliverableFactors ? detectPacingAnomalies(deliverableDays, deliverableFactors, "deliverable") : []),
+  ]
+
+  const base = {
+    startDate,
+    endDate,
+    asOfDate,
+    observedDays: observedDates.length,
+    remainingDays: remainingDates.length,
+    seasonalityApplied: spendSeasonality.applied,
+    spend,
+    deliverable,
+    anomalies,
+  }
+  if (observedDates.length < PROJECTION_MIN_OBSERVED_DAYS) {
+    return { ...base, outcome: "insufficient_data", outcomeDate: null }
+  }
+  return { ...base, ...resolveOutcome(spend, deliverable, endDate) }
+}
+
+/**
+ * Collapse fact rows (any grain below line item × day) into daily points for
+ * `projectPacing`. Expected fields are left at 0, as in the delivery containers.
+ */
+export function buildDailyActualSeries<T extends { DATE_DAY: string }>(
+  rows: T[],
+  spendOf: (row: T) => number | null | undefined,
+  deliverableOf?: (row: T) => number | null | undefined,
+): PacingSeriesPoint[] {
+  const byDate = new Map<string, PacingSeriesPoint>()
+  for (const row of rows) {
+    const date = String(row.DATE_DAY ?? "").slice(0, 10)
+    if (!date) continue
+    let point = byDate.get(date)
+    if (!point) {
+      point = { date, expectedSpend: 0, actualSpend: 0, expectedDeliverable: 0, actualDeliverable: 0 }
+      byDate.set(date, point)
+    }
+    point.actualSpend += Number(spendOf(row)) || 0
+    if (deliverableOf) point.actualDeliverable += Number(deliverableOf(row)) || 0
+  }
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date))
+}
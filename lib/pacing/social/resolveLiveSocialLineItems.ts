@@ -287,6 +287,7 @@ function mapSocialRowToCampaignRow(
     spendPerDayRemaining,
     spendRemainingCurrentBurst,
     spendRemainingLineTotal,
+    projection: null,
 
     spendToDateLineTotal: 0,
     spendToDateCurrentBurst: 0,
@@ -9,6 +9,7 @@
 
 import type { KpiTargets, NormalisedBurst } from "@/lib/pacing/campaigns/types";
 import type { DeliverableMetric } from "@/lib/pacing/deliverables/mapDeliverableMetric";
+import type { LineItemProjection } from "@/lib/pacing/projection/projectPacing";
 
 export type SocialPlatform = "meta" | "tiktok";
 
@@ -92,6 +93,8 @@ export type SocialPacingCampaignRow = {
   spendPerDayRemaining: number | null;
   spendRemainingCurrentBurst: number | null; // burstBudget - spendToDateCurrentBurst
   spendRemainingLineTotal: number | null; // totalLineItemBudget - spendToDateLineTotal
+  /** Current-burst forecast to completion (projectPacing); null outside a burst. */
+  projection: LineItemProjection | null;
 
   // --- Snowflake spend pacing ---
   spendToDateLineTotal: number;
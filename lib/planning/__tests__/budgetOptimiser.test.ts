@@ -0,0 +1,111 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+import { optimiseBudgetSplit, type OptimiserChannelInput } from "../budgetOptimiser.js"
+import { buildRecommendedSplitV1 } from "../recommendedSplit.js"
+
+const AUDIENCE_WC = 2000
+
+const channels: OptimiserChannelInput[] = [
+  { id: "tv", dfii: 130, reachPct: 0.6, cpm: 38 },
+  { id: "facebook", dfii: 110, reachPct: 0.5, cpm: 11 },
+  { id: "radio", dfii: 90, reachPct: 0.35, cpm: 22 },
+  { id: "search", dfii: 70, reachPct: 0, cpm: 0 },
+]
+
+function pctById(result: NonNullable<ReturnType<typeof optimiseBudgetSplit>>) {
+  return Object.fromEntries(result.channels.map((c) => [c.id, c.pct]))
+}
+
+test("optimiseBudgetSplit: spends the whole budget and beats an even split", () => {
+  const result = optimiseBudgetSplit({ channels, budget: 800_000, audienceWc: AUDIENCE_WC })
+  assert.ok(result)
+  const total = result.channels.reduce((t, c) => t + c.dollars, 0)
+  assert.ok(Math.abs(total - 800_000) < 1e-6)
+  assert.deepEqual(result.warnings, [])
+  // Search has no CPM passed in — the planning bench CPM is used instead.
+  assert.ok(result.channels.some((c) => c.id === "search"))
+
+  const even = optimiseBudgetSplit({
+    channels: channels.map((c) => ({ ...c, bounds: { minPct: 25, maxPct: 25 } })),
+    budget: 800_000,
+    audienceWc: AUDIENCE_WC,
+  })!
+  assert.ok(result.objective >= even.objective)
+  assert.ok(even.channels.every((c) => Math.abs(c.pct - 25) < 1e-6))
+})
+
+test("optimiseBudgetSplit: honours min / max bounds and flags the binding side", () => {
+  const result = optimiseBudgetSplit({
+    channels: channels.map((c) =>
+      c.id === "tv"
+        ? { ...c, bounds: { minPct: null, maxPct: 20 } }
+        : c.id === "search"
+          ? { ...c, bounds: { minPct: 15, maxPct: null } }
+          : c
+    ),
+    budget: 800_000,
+    audienceWc: AUDIENCE_WC,
+  })!
+  const tv = result.channels.find((c) => c.id === "tv")!
+  const search = result.channels.find((c) => c.id === "search")!
+  assert.ok(tv.pct <= 20 + 1e-6)
+  assert.equal(tv.bound, "max")
+  assert.equal(tv.marginal_value_per_thousand, 0)
+  assert.ok(search.pct >= 15 - 1e-6)
+})
+
+test("optimiseBudgetSplit: infeasible bounds are repaired with warnings", () => {
+  const result = optimiseBudgetSplit({
+    channels: [
+      { id: "tv", dfii: 100, reachPct: 0.6, cpm: 38, bounds: { minPct: 80, maxPct: 90 } },
+      { id: "radio", dfii: 100, reachPct: 0.4, cpm: 22, bounds: { minPct: 60, maxPct: 40 } },
+    ],
+    budget: 100_000,
+    audienceWc: AUDIENCE_WC,
+  })!
+  assert.equal(result.warnings.length, 2)
+  const pct = pctById(result)
+  assert.ok(Math.abs(pct.tv! + pct.radio! - 100) < 1e-6)
+
+  const capped = optimiseBudgetSplit({
+    channels: [{ id: "tv", dfii: 100, reachPct: 0.6, cpm: 38, bounds: { minPct: null, maxPct: 50 } }],
+    budget: 100_000,
+    audienceWc: AUDIENCE_WC,
+  })!
+  assert.match(capped.warnings[0]!, /only cover 50%/)
+  assert.ok(Math.abs(capped.channels[0]!.dollars - 50_000) < 1e-6)
+})
+
+test("optimiseBudgetSplit: ±20% sensitivity and null without budget / audience", () => {
+  const result = optimiseBudgetSplit({ channels, budget: 500_000, audienceWc: AUDIENCE_WC })!
+  const [low, high] = result.sensitivity
+  assert.equal(low!.swing_pct, -20)
+  assert.equal(high!.swing_pct, 20)
+  assert.equal(low!.budget, 400_000)
+  assert.ok(Math.abs(high!.budget - 600_000) < 1e-6)
+  assert.ok(low!.objective < result.objective && result.objective < high!.objective)
+  assert.ok(low!.objective_change_pct < 0 && high!.objective_change_pct > 0)
+  const base = pctById(result)
+  for (const c of high!.channels) {
+    assert.ok(Math.abs(c.pct - base[c.id]! - c.pct_change_pts) < 1e-9)
+  }
+
+  assert.equal(optimiseBudgetSplit({ channels, budget: 0, audienceWc: AUDIENCE_WC }), null)
+  assert.equal(optimiseBudgetSplit({ channels, budget: 500_000, audienceWc: 0 }), null)
+})
+
+test("buildRecommendedSplitV1 stores the optimiser run alongside the split", () => {
+  const optimiser = optimiseBudgetSplit({ channels, budget: 500_000, audienceWc: AUDIENCE_WC })!
+  const snap = buildRecommendedSplitV1({
+    allocated: optimiser.channels.map((c) => ({ engineChannelId: c.id, pct: c.pct, dollars: c.dollars })),
+    budget: 500_000,
+    benchVersion: "assembled-seed-v1",
+    optimiser,
+  })
+  assert.equal(snap.optimiser?.params.version, "dfii-reach-greedy-v1")
+  assert.equal(snap.optimiser?.sensitivity.length, 2)
+  assert.equal(
+    buildRecommendedSplitV1({ allocated: [], budget: 0, benchVersion: "x" }).optimiser,
+    undefined
+  )
+})
@@ -0,0 +1,127 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+import {
+  allocate,
+  allocateByReach,
+} from "../../../app/tools/behavioural-planner/lib/bcs-engine.js"
+import type { ScoredChannel } from "../../../app/tools/behavioural-planner/lib/types.js"
+import {
+  allocateByMarginalReach,
+  buildReachCurve,
+  combinedReach,
+  estimatePlanReach,
+  grpsForSpend,
+  reachAtGrps,
+} from "../reachCurve.js"
+
+const AUDIENCE_WC = 2000 // 2M people
+
+const tv = { id: "tv", maxReach: 0.6, cpm: 25 }
+const social = { id: "social", maxReach: 0.4, cpm: 8 }
+
+function close(actual: number, expected: number, eps = 1e-9) {
+  assert.ok(Math.abs(actual - expected) < eps, `${actual} ≉ ${expected}`)
+}
+
+test("grpsForSpend: impressions ÷ audience × 100", () => {
+  // $50k at $25 CPM = 2M impressions over 2M people = 100 GRPs.
+  close(grpsForSpend(50_000, 25, AUDIENCE_WC), 100)
+  assert.equal(grpsForSpend(50_000, 0, AUDIENCE_WC), 0)
+  assert.equal(grpsForSpend(50_000, 25, 0), 0)
+})
+
+test("buildReachCurve: starts at zero, diminishing returns, capped at the RM ceiling", () => {
+  const curve = buildReachCurve(tv, AUDIENCE_WC, 1_000_000, 10)
+  assert.equal(curve.length, 11)
+  assert.deepEqual(curve[0], { spend: 0, grps: 0, reach: 0, frequency: 0 })
+
+  const gains = curve.slice(1).map((p, i) => p.reach - curve[i]!.reach)
+  for (let i = 1; i < gains.length; i++) assert.ok(gains[i]! < gains[i - 1]!, "gains shrink")
+  assert.ok(curve.at(-1)!.reach < tv.maxReach)
+  assert.ok(curve.at(-1)!.frequency > curve[1]!.frequency, "frequency builds with weight")
+
+  // First impressions are almost all unduplicated.
+  close(reachAtGrps(1, 0.6), 0.01, 1e-4)
+})
+
+test("combinedReach / estimatePlanReach: de-duplicates and reports marginal reach per $1k", () => {
+  close(combinedReach([0.5, 0.5]), 0.75)
+  close(combinedReach([]), 0)
+
+  const est = estimatePlanReach(
+    [
+      { ...tv, spend: 200_000 },
+      { ...social, spend: 0 },
+    ],
+    AUDIENCE_WC
+  )
+  const [tvEst, socialEst] = est.channels
+  close(est.combinedReach, tvEst!.reach)
+  assert.ok(socialEst!.marginalReachPerThousand > tvEst!.marginalReachPerThousand, "unspent channel adds more")
+  assert.ok(est.frequency > 1)
+})
+
+test("allocateByMarginalReach: spends the budget, favours cheap unsaturated reach, skips zero ceilings", () => {
+  const spend = allocateByMarginalReach(
+    [tv, social, { id: "search", maxReach: 0, cpm: 5 }],
+    300_000,
+    AUDIENCE_WC
+  )
+  close(spend.tv! + spend.social! + spend.search!, 300_000, 1e-6)
+  assert.equal(spend.search, 0)
+  assert.ok(spend.social! > 0 && spend.tv! > 0)
+
+  const even = estimatePlanReach(
+    [
+      { ...tv, spend: 150_000 },
+      { ...social, spend: 150_000 },
+    ],
+    AUDIENCE_WC
+  ).combinedReach
+  const greedy = estimatePlanReach(
+    [
+      { ...tv, spend: spend.tv! },
+      { ...social, spend: spend.social! },
+    ],
+    AUDIENCE_WC
+  ).combinedReach
+  assert.ok(greedy >= even, `greedy ${greedy} < even ${even}`)
+})
+
+function scored(id: string, bcs: number, reachPct: number, cpm: number): ScoredChannel {
+  return {
+    ch: {
+      id,
+      name: id,
+      attn: 5,
+      B: 50,
+      D: 50,
+      cpm,
+      color: "",
+      aff: {},
+      ageMod: 1,
+      genderMod: 1,
+      reachPct,
+      isRmMeasured: reachPct > 0,
+      ageBase: 14,
+    },
+    A: 50,
+    T: 50,
+    E: 50,
+    C: 50,
+    bcs,
+    affAvg: 100,
+    ageMod: 1,
+    genderMod: 1,
+  }
+}
+
+test("allocateByReach: sums to 100%, sorted by share, falls back to the BCS split without curves", () => {
+  const channels = [scored("tv", 80, 0.6, 25), scored("social", 70, 0.4, 8), scored("search", 60, 0, 5)]
+  const byReach = allocateByReach(channels, 300_000, AUDIENCE_WC)
+  close(byReach.reduce((t, a) => t + a.pct, 0), 100, 1e-6)
+  assert.ok(byReach.every((a, i) => i === 0 || byReach[i - 1]!.pct >= a.pct))
+  assert.ok(!byReach.some((a) => a.ch.id === "search"))
+
+  assert.deepEqual(allocateByReach(channels, 300_000, 0), allocate(channels, 300_000))
+})
@@ -0,0 +1,247 @@
+/**
+ * Constrained budget optimiser for the Stage E recommended split.
+ *
+ * Maximises DFII-weighted reach: Σ (dfiiᵢ / 100) × reachᵢ(spendᵢ), where each
+ * channel's reach follows its curve from reachCurve.ts (RM reach ceiling +
+ * CPM). The objective is separable and concave, so greedy increments to the
+ * best marginal return — after seeding Stage D minimums and stopping at
+ * maximums — are optimal to within one increment.
+ *
+ * Pure module: callers pass scores / ceilings / CPMs; missing CPMs fall back to
+ * PLANNING_CHANNEL_BENCH.
+ */
+
+import { PLANNING_CHANNEL_BENCH } from "@/lib/planning/planningChannelBench"
+import { reachAtSpend, type ReachCurveChannel } from "@/lib/planning/reachCurve"
+
+/** Per-channel share of budget bounds (0–100). null = unconstrained. */
+export type ChannelBounds = {
+  minPct: number | null
+  maxPct: number | null
+}
+
+export type BudgetOptimiserParams = {
+  version: string
+  /** Budget is spent in this many increments. */
+  steps: number
+  /** Reach ceiling assumed for channels without RM reach (e.g. Search). */
+  unmeasured_reach_ceiling: number
+  /** Sensitivity re-runs at budget × (1 ± swing). */
+  sensitivity_swing: number
+  /** Candidate pool: top N by BCS, plus any channel with a minimum. */
+  candidate_top_n: number
+}
+
+export const DEFAULT_BUDGET_OPTIMISER_PARAMS: BudgetOptimiserParams = {
+  version: "dfii-reach-greedy-v1",
+  steps: 400,
+  unmeasured_reach_ceiling: 0.25,
+  sensitivity_swing: 0.2,
+  candidate_top_n: 8,
+}
+
+export type OptimiserChannelInput = {
+  id: string
+  /** DFII vs the included-channel mean; null scores as neutral (100). */
+  dfii: number | null
+  /** RM reach ceiling 0..1; 0 = not RM-measured. */
+  reachPct: number
+  /** AUD CPM; non-positive falls back to the planning bench. */
+  cpm: number
+  bounds?: ChannelBounds
+}
+
+export type OptimisedChannel = {
+  id: string
+  pct: number
+  dollars: number
+  min_pct: number
+  max_pct: number
+  /** Which bound the solution sits on, if any. */
+  bound: "min" | "max" | null
+  /** DFII-weighted reach points from the next $1,000 (0 at the maximum). */
+  marginal_value_per_thousand: number
+}
+
+export type BudgetSensitivityCase = {
+  /** e.g. -20 / +20. */
+  swing_pct: number
+  budget: number
+  objective: number
+  /** Objective change vs the base run, %. */
+  objective_change_pct: number
+  channels: Array<{ id: string; pct: number; dollars: number; pct_change_pts: number }>
+}
+
+export type BudgetOptimiserResult = {
+  params: BudgetOptimiserParams
+  budget: number
+  /** DFII-weighted reach points at the optimum. */
+  objective: number
+  channels: OptimisedChannel[]
+  warnings: string[]
+  sensitivity: BudgetSensitivityCase[]
+}
+
+type Candidate = {
+  id: string
+  weight: number
+  curve: ReachCurveChannel
+  minPct: number
+  maxPct: number
+}
+
+type Run = {
+  objective: number
+  spend: Map<string, number>
+  unallocated: number
+}
+
+const EPS = 1e-9
+
+function clampPct(value: number | null | undefined, fallback: number): number {
+  if (value == null || !Number.isFinite(value)) return fallback
+  return Math.min(100, Math.max(0, value))
+}
+
+function benchCpm(id: string, cpm: number): number {
+  if (cpm > 0) return cpm
+  return PLANNING_CHANNEL_BENCH[id]?.cpm.value ?? 0
+}
+
+function toCandidates(
+  channels: OptimiserChannelInput[],
+  params: BudgetOptimiserParams,
+  warnings: string[]
+): Candidate[] {
+  const topN = Math.max(1, Math.round(params.candidate_top_n))
+  const out: Candidate[] = []
+  channels.forEach((c, i) => {
+    let minPct = clampPct(c.bounds?.minPct, 0)
+    let maxPct = clampPct(c.bounds?.maxPct, 100)
+    if (i >= topN && !(minPct > 0)) return
+    if (maxPct < minPct) {
+      warnings.push(`${c.id}: maximum ${maxPct}% is below minimum ${minPct}% — using ${minPct}% for both`)
+      maxPct = minPct
+    }
+    if (!(maxPct > 0)) return
+    const cpm = benchCpm(c.id, c.cpm)
+    if (!(cpm > 0)) {
+      warnings.push(`${c.id}: no CPM benchmark — left out of the optimiser`)
+      return
+    }
+    minPct = Math.min(minPct, maxPct)
+    out.push({
+      id: c.id,
+      weight: Math.max(0, c.dfii ?? 100) / 100,
+      curve: {
+        id: c.id,
+        maxReach: c.reachPct > 0 ? c.reachPct : params.unmeasured_reach_ceiling,
+        cpm,
+      },
+      minPct,
+      maxPct,
+    })
+  })
+
+  const minTotal = out.reduce((t, c) => t + c.minPct, 0)
+  if (minTotal > 100 + EPS) {
+    warnings.push(`Channel minimums add to ${Math.round(minTotal)}% — scaled down to fit the budget`)
+    for (const c of out) c.minPct = (c.minPct / minTotal) * 100
+  }
+  const maxTotal = out.reduce((t, c) => t + c.maxPct, 0)
+  if (out.length > 0 && maxTotal < 100 - EPS) {
+    warnings.push(`Channel maximums only cover ${Math.round(maxTotal)}% of the budget — the rest is unallocated`)
+  }
+  return out
+}
+
+function value(c: Candidate, spend: number, audienceWc: number): number {
+  return c.weight * reachAtSpend(c.curve, spend, audienceWc) * 100
+}
+
+function solve(candidates: Candidate[], budget: number, audienceWc: number, steps: number): Run {
+  const spend = new Map(candidates.map((c) => [c.id, (c.minPct / 100) * budget]))
+  const cap = new Map(candidates.map((c) => [c.id, (c.maxPct / 100) * budget]))
+  let remaining = budget - [...spend.values()].reduce((a, b) => a + b, 0)
+  const increment = budget / Math.max(1, Math.floor(steps))
+
+  while (remaining > EPS) {
+    const step = Math.min(increment, remaining)
+    let best: { c: Candidate; amount: number; rate: number } | null = null
+    for (const c of candidates) {
+      const current = spend.get(c.id)!
+      const amount = Math.min(step, cap.get(c.id)! - current)
+      if (!(amount > EPS)) continue
+      const rate = (value(c, current + amount, audienceWc) - value(c, current, audienceWc)) / amount
+      if (!best || rate > best.rate) best = { c, amount, rate }
+    }
+    if (!best) break
+    spend.set(best.c.id, spend.get(best.c.id)! + best.amount)
+    remaining -= best.amount
+  }
+
+  const objective = candidates.reduce((t, c) => t + value(c, spend.get(c.id)!, audienceWc), 0)
+  return { objective, spend, unallocated: Math.max(0, remaining) }
+}
+
+function pctOf(spend: number, budget: number): number {
+  return budget > 0 ? (spend / budget) * 100 : 0
+}
+
+/**
+ * Optimal split of `budget` across `channels` (BCS-desc order) within their
+ * min/max shares, with a ± budget sensitivity re-run. Returns null when there
+ * is no budget, audience size or eligible channel to optimise.
+ */
+export function optimiseBudgetSplit(args: {
+  channels: OptimiserChannelInput[]
+  budget: number
+  audienceWc: number
+  params?: Partial<BudgetOptimiserParams>
+}): BudgetOptimiserResult | null {
+  const params = { ...DEFAULT_BUDGET_OPTIMISER_PARAMS, ...args.params }
+  const { budget, audienceWc } = args
+  if (!(budget > 0) || !(audienceWc > 0)) return null
+
+  const warnings: string[] = []
+  const candidates = toCandidates(args.channels, params, warnings)
+  if (candidates.length === 0) return null
+
+  const base = solve(candidates, budget, audienceWc, params.steps)
+  const channels: OptimisedChannel[] = candidates.map((c) => {
+    const dollars = base.spend.get(c.id)!
+    const pct = pctOf(dollars, budget)
+    const atMax = pct >= c.maxPct - 1e-6
+    const next = Math.min(dollars + 1000, (c.maxPct / 100) * budget)
+    return {
+      id: c.id,
+      pct,
+      dollars,
+      min_pct: c.minPct,
+      max_pct: c.maxPct,
+      bound: c.maxPct < 100 && atMax ? "max" : c.minPct > 0 && pct <= c.minPct + 1e-6 ? "min" : null,
+      marginal_value_per_thousand: atMax
+        ? 0
+        : ((value(c, next, audienceWc) - value(c, dollars, audienceWc)) / (next - dollars)) * 1000,
+    }
+  })
+
+  const sensitivity = [-params.sensitivity_swing, params.sensitivity_swing].map((swing) => {
+    const swungBudget = budget * (1 + swing)
+    const run = solve(candidates, swungBudget, audienceWc, params.steps)
+    return {
+      swing_pct: Math.round(swing * 100),
+      budget: swungBudget,
+      objective: run.objective,
+      objective_change_pct: base.objective > 0 ? ((run.objective - base.objective) / base.objective) * 100 : 0,
+      channels: channels.map((c) => {
+        const dollars = run.spend.get(c.id)!
+        const pct = pctOf(dollars, swungBudget)
+        return { id: c.id, pct, dollars, pct_change_pts: pct - c.pct }
+      }),
+    }
+  })
+
+  return { params, budget, objective: base.objective, channels, warnings, sensitivity }
+}
@@ -0,0 +1,173 @@
+/**
+ * Reach / frequency curves for the behavioural planner.
+ *
+ * Per channel, reach follows a negative-exponential curve in GRPs whose
+ * ceiling is the channel's RM consumption reach (`reach_pct` from
+ * computeAudienceResponse): the first impressions land on new people, later
+ * ones increasingly duplicate. Cross-channel reach is de-duplicated assuming
+ * independent exposure (1 − Π(1 − rᵢ)).
+ *
+ * All reach values are fractions 0..1 of the composed audience; audience size
+ * is audience_wc in '000s, matching AudienceResponse.
+ */
+
+export type ReachCurveChannel = {
+  id: string
+  /** Reach ceiling 0..1 — the channel's RM reach for the audience. */
+  maxReach: number
+  /** AUD CPM. */
+  cpm: number
+}
+
+export type ReachCurvePoint = {
+  spend: number
+  grps: number
+  reach: number
+  /** Average frequency among those reached (GRPs ÷ reach points). */
+  frequency: number
+}
+
+export type ChannelReachEstimate = {
+  id: string
+  spend: number
+  grps: number
+  reach: number
+  frequency: number
+  /** De-duplicated plan reach gained from the next $1,000 in this channel (fraction). */
+  marginalReachPerThousand: number
+}
+
+export type PlanReachEstimate = {
+  channels: ChannelReachEstimate[]
+  /** De-duplicated cross-channel reach 0..1. */
+  combinedReach: number
+  grps: number
+  frequency: number
+}
+
+/** Keeps 1 − r strictly positive so de-duplication can be unwound per channel. */
+const MAX_REACH_CEILING = 0.999
+
+export const REACH_CURVE_POINTS = 20
+export const MARGINAL_REACH_STEP = 1000
+/** Greedy allocation slices the budget into this many increments. */
+export const REACH_ALLOCATION_STEPS = 200
+
+function ceiling(channel: ReachCurveChannel): number {
+  const r = Number.isFinite(channel.maxReach) ? channel.maxReach : 0
+  return Math.min(MAX_REACH_CEILING, Math.max(0, r))
+}
+
+/** GRPs bought: impressions ÷ audience × 100 (CPM per 1,000; audience in '000s). */
+export function grpsForSpend(spend: number, cpm: number, audienceWc: number): number {
+  if (!(spend > 0) || !(cpm > 0) || !(audienceWc > 0)) return 0
+  return (spend / cpm / audienceWc) * 100
+}
+
+export function reachAtGrps(grps: number, maxReach: number): number {
+  const r = Math.min(MAX_REACH_CEILING, Math.max(0, maxReach))
+  if (!(grps > 0) || r === 0) return 0
+  return r * (1 - Math.exp(-grps / 100 / r))
+}
+
+export function reachAtSpend(channel: ReachCurveChannel, spend: number, audienceWc: number): number {
+  return reachAtGrps(grpsForSpend(spend, channel.cpm, audienceWc), ceiling(channel))
+}
+
+function frequencyOf(grps: number, reach: number): number {
+  return reach > 0 ? grps / 100 / reach : 0
+}
+
+/** Evenly spaced points from $0 to `maxSpend` (inclusive) for one channel. */
+export function buildReachCurve(
+  channel: ReachCurveChannel,
+  audienceWc: number,
+  maxSpend: number,
+  points = REACH_CURVE_POINTS
+): ReachCurvePoint[] {
+  const n = Math.max(1, Math.floor(points))
+  const out: ReachCurvePoint[] = []
+  for (let i = 0; i <= n; i++) {
+    const spend = (Math.max(0, maxSpend) * i) / n
+    const grps = grpsForSpend(spend, channel.cpm, audienceWc)
+    const reach = reachAtGrps(grps, ceiling(channel))
+    out.push({ spend, grps, reach, frequency: frequencyOf(grps, reach) })
+  }
+  return out
+}
+
+/** Independent-exposure de-duplication: 1 − Π(1 − rᵢ). */
+export function combinedReach(reaches: number[]): number {
+  const miss = reaches.reduce((p, r) => p * (1 - Math.min(MAX_REACH_CEILING, Math.max(0, r))), 1)
+  return 1 - miss
+}
+
+/** Combined reach after one channel moves from `from` to `to`, given the current miss product. */
+function swapReach(miss: number, from: number, to: number): number {
+  return 1 - (miss / (1 - from)) * (1 - to)
+}
+
+export function estimatePlanReach(
+  channels: Array<ReachCurveChannel & { spend: number }>,
+  audienceWc: number
+): PlanReachEstimate {
+  const rows = channels.map((c) => {
+    const grps = grpsForSpend(c.spend, c.cpm, audienceWc)
+    return { c, grps, reach: reachAtGrps(grps, ceiling(c)) }
+  })
+  const combined = combinedReach(rows.map((r) => r.reach))
+  const miss = 1 - combined
+  const grps = rows.reduce((t, r) => t + r.grps, 0)
+
+  return {
+    channels: rows.map(({ c, grps, reach }) => {
+      const next = reachAtSpend(c, c.spend + MARGINAL_REACH_STEP, audienceWc)
+      return {
+        id: c.id,
+        spend: c.spend,
+        grps,
+        reach,
+        frequency: frequencyOf(grps, reach),
+        marginalReachPerThousand: Math.max(0, swapReach(miss, reach, next) - combined),
+      }
+    }),
+    combinedReach: combined,
+    grps,
+    frequency: frequencyOf(grps, combined),
+  }
+}
+
+/**
+ * Greedy marginal-reach allocation: each budget increment goes to the channel
+ * whose next increment adds the most de-duplicated reach. Returns spend per
+ * channel id; channels with no reach ceiling receive nothing.
+ */
+export function allocateByMarginalReach(
+  channels: ReachCurveChannel[],
+  budget: number,
+  audienceWc: number,
+  steps = REACH_ALLOCATION_STEPS
+): Record<string, number> {
+  const spend: Record<string, number> = Object.fromEntries(channels.map((c) => [c.id, 0]))
+  const eligible = channels.filter((c) => ceiling(c) > 0 && c.cpm > 0)
+  if (!(budget > 0) || !(audienceWc > 0) || eligible.length === 0) return spend
+
+  const n = Math.max(1, Math.floor(steps))
+  const increment = budget / n
+  const reach: Record<string, number> = Object.fromEntries(eligible.map((c) => [c.id, 0]))
+  let miss = 1
+
+  for (let i = 0; i < n; i++) {
+    let best: { c: ReachCurveChannel; next: number; gain: number } | null = null
+    for (const c of eligible) {
+      const next = reachAtSpend(c, spend[c.id]! + increment, audienceWc)
+      const gain = swapReach(miss, reach[c.id]!, next) - (1 - miss)
+      if (!best || gain > best.gain) best = { c, next, gain }
+    }
+    if (!best) break
+    miss = (miss / (1 - reach[best.c.id]!)) * (1 - best.next)
+    reach[best.c.id] = best.next
+    spend[best.c.id] = spend[best.c.id]! + increment
+  }
+  return spend
+}
@@ -4,6 +4,7 @@ import {
   type EngineSplitChannel,
 } from "@/lib/planning/mapEngineSplitToCreateTargets"
 import { roundMoney2 } from "@/lib/format/money"
+import type { BudgetOptimiserResult } from "@/lib/planning/budgetOptimiser"
 
 export type RecommendedSplitV1 = {
   version: 1
@@ -14,6 +15,8 @@ export type RecommendedSplitV1 = {
   channels: EngineSplitChannel[]
   create_targets: CreateTargetRow[]
   campaign_budget: number
+  /** Present when the split came from the constrained optimiser (params, bounds, ±budget sensitivity). */
+  optimiser?: BudgetOptimiserResult
 }
 
 export function buildRecommendedSplitV1(args: {
@@ -21,6 +24,7 @@ export function buildRecommendedSplitV1(args: {
   budget: number
   benchVersion: string
   engineParamsVersion?: string
+  optimiser?: BudgetOptimiserResult | null
   now?: Date
 }): RecommendedSplitV1 {
   const channels: EngineSplitChannel[] = args.allocated.map((a) => ({
@@ -48,6 +52,10 @@ export function buildRecommendedSplitV1(args: {
     snap.engine_params_version = args.engineParamsVersion
   }
 
+  if (args.optimiser) {
+    snap.optimiser = args.optimiser
+  }
+
   return snap
 }
 
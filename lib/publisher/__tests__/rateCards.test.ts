@@ -0,0 +1,93 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+import {
+  publisherRateCardInputSchema,
+  rateDeviation,
+  resolveRateCard,
+  type PublisherRateCard,
+  type RateCardQuery,
+} from "@/lib/publisher/rateCards"
+
+function card(id: number, patch: Partial<PublisherRateCard>): PublisherRateCard {
+  return {
+    id,
+    publisher_id: 7,
+    media_type: "television",
+    buy_type: "cpm",
+    format: "",
+    market: "",
+    daypart: "",
+    rate: 40,
+    effective_from: "2026-01-01",
+    effective_to: null,
+    client_name: null,
+    notes: "",
+    ...patch,
+  }
+}
+
+const query: RateCardQuery = {
+  publisherId: 7,
+  mediaType: "television",
+  buyType: "cpm",
+  market: "Sydney",
+  daypart: "Prime",
+  clientName: "Acme",
+  date: "2026-03-02",
+}
+
+test("resolveRateCard: negotiated beats specific beats latest", () => {
+  const cards = [
+    card(1, { rate: 40 }),
+    card(2, { rate: 45, market: "sydney" }),
+    card(3, { rate: 42, effective_from: "2026-02-01" }),
+    card(4, { rate: 35, client_name: "ACME" }),
+  ]
+  assert.deepEqual(resolveRateCard(cards, query), { card: cards[3], negotiated: true })
+  assert.equal(resolveRateCard(cards, { ...query, clientName: "Other" })?.card.id, 2)
+  assert.equal(resolveRateCard(cards.slice(0, 1).concat(cards[2]!), query)?.card.id, 3)
+})
+
+test("resolveRateCard: narrowing fields, dates, publisher and buy type must match", () => {
+  const cards = [
+    card(1, { market: "Melbourne" }),
+    card(2, { effective_to: "2026-02-28" }),
+    card(3, { effective_from: "2026-04-01" }),
+    card(4, { publisher_id: 8 }),
+    card(5, { buy_type: "cpp" }),
+    card(6, { client_name: "Other" }),
+  ]
+  assert.equal(resolveRateCard(cards, query), null)
+  assert.equal(resolveRateCard(cards, { ...query, date: "2026-02-28" })?.card.id, 2)
+  assert.equal(resolveRateCard(cards, { ...query, buyType: "CPP" })?.card.id, 5)
+})
+
+test("rateDeviation: tolerance band and direction", () => {
+  assert.deepEqual(rateDeviation(40.5, 40), { deltaPct: 1.25, status: "on_card" })
+  assert.equal(rateDeviation(44, 40)?.status, "above")
+  assert.equal(rateDeviation(30, 40)?.status, "below")
+  assert.equal(rateDeviation(30, 0), null)
+  assert.equal(rateDeviation(Number.NaN, 40), null)
+})
+
+test("publisherRateCardInputSchema: defaults, blank client and date order", () => {
+  const parsed = publisherRateCardInputSchema.parse({
+    media_type: "radio",
+    buy_type: "spots",
+    rate: 120,
+    effective_from: "2026-01-01",
+    client_name: "  ",
+  })
+  assert.equal(parsed.format, "")
+  assert.equal(parsed.effective_to, null)
+  assert.equal(parsed.client_name, null)
+
+  const backwards = publisherRateCardInputSchema.safeParse({
+    media_type: "radio",
+    buy_type: "spots",
+    rate: 120,
+    effective_from: "2026-02-01",
+    effective_to: "2026-01-01",
+  })
+  assert.equal(backwards.success, false)
+})
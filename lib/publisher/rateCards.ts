@@ -0,0 +1,164 @@
+import * as z from "zod"
+import type { Publisher } from "@/lib/types/publisher"
+
+/**
+ * Publisher rate cards (Xano `publisher_rate_cards`). One row is a rate for a
+ * media type + buy type, optionally narrowed by format / market / daypart and
+ * valid between two dates. Rows with a `client_name` are negotiated overrides
+ * for that client and win over the standard card.
+ *
+ * `media_type` uses the channel container keys (`ExpertGridChannelConfig.mediaTypeKey`)
+ * and `buy_type` the container buy-type values, so `rate` is in that buy type's
+ * unit (CPM, CPP, per spot, per panel …).
+ */
+
+export const RATE_CARD_MEDIA_TYPES: Array<{ value: string; label: string; pubFlag: keyof Publisher }> = [
+  { value: "television", label: "Television", pubFlag: "pub_television" },
+  { value: "radio", label: "Radio", pubFlag: "pub_radio" },
+  { value: "newspaper", label: "Newspaper", pubFlag: "pub_newspaper" },
+  { value: "magazines", label: "Magazines", pubFlag: "pub_magazines" },
+  { value: "ooh", label: "OOH", pubFlag: "pub_ooh" },
+  { value: "cinema", label: "Cinema", pubFlag: "pub_cinema" },
+  { value: "digidisplay", label: "Digital Display", pubFlag: "pub_digidisplay" },
+  { value: "digiaudio", label: "Digital Audio", pubFlag: "pub_digiaudio" },
+  { value: "digivideo", label: "Digital Video", pubFlag: "pub_digivideo" },
+  { value: "bvod", label: "BVOD", pubFlag: "pub_bvod" },
+  { value: "integration", label: "Integration", pubFlag: "pub_integration" },
+  { value: "search", label: "Search", pubFlag: "pub_search" },
+  { value: "socialmedia", label: "Social Media", pubFlag: "pub_socialmedia" },
+  { value: "progdisplay", label: "Prog Display", pubFlag: "pub_progdisplay" },
+  { value: "progvideo", label: "Prog Video", pubFlag: "pub_progvideo" },
+  { value: "progbvod", label: "Prog BVOD", pubFlag: "pub_progbvod" },
+  { value: "progaudio", label: "Prog Audio", pubFlag: "pub_progaudio" },
+  { value: "progooh", label: "Prog OOH", pubFlag: "pub_progooh" },
+  { value: "influencers", label: "Influencers", pubFlag: "pub_influencers" },
+]
+
+/** Planned rates within this % of the card count as on-card. */
+export const RATE_CARD_TOLERANCE_PCT = 2
+
+const ymd = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD")
+const optionalText = z.string().trim().max(120).default("")
+
+export const publisherRateCardInputSchema = z
+  .object({
+    media_type: z.string().trim().min(1, "Media type is required"),
+    format: optionalText,
+    market: optionalText,
+    daypart: optionalText,
+    buy_type: z.string().trim().min(1, "Buy type is required"),
+    rate: z.number().finite().nonnegative("Rate must be zero or more"),
+    effective_from: ymd,
+    effective_to: ymd.nullable().default(null),
+    client_name: z
+      .string()
+      .trim()
+      .max(200)
+      .nullable()
+      .default(null)
+      .transform((v) => (v ? v : null)),
+    notes: z.string().trim().max(1000).default(""),
+  })
+  .refine((v) => v.effective_to == null || v.effective_to >= v.effective_from, {
+    message: "Effective to must be on or after effective from",
+  })
+
+export type PublisherRateCardInput = z.infer<typeof publisherRateCardInputSchema>
+
+export type PublisherRateCard = PublisherRateCardInput & {
+  id: number
+  created_at?: number
+  publisher_id: number
+}
+
+export type RateCardQuery = {
+  publisherId: number
+  mediaType: string
+  buyType: string
+  format?: string | null
+  market?: string | null
+  daypart?: string | null
+  clientName?: string | null
+  /** YYYY-MM-DD the rate must be effective on (first burst start). */
+  date: string
+}
+
+export type ResolvedRateCard = {
+  card: PublisherRateCard
+  /** True when a client-specific override matched. */
+  negotiated: boolean
+}
+
+export type RateDeviation = {
+  deltaPct: number
+  status: "on_card" | "above" | "below"
+}
+
+function norm(value: string | null | undefined): string {
+  return (value ?? "").trim().toLowerCase()
+}
+
+/** Empty card fields are wildcards; filled ones must match the line item. */
+function narrowingMatches(card: PublisherRateCard, query: RateCardQuery): number | null {
+  let specificity = 0
+  for (const key of ["format", "market", "daypart"] as const) {
+    const want = norm(card[key])
+    if (!want) continue
+    if (want !== norm(query[key])) return null
+    specificity++
+  }
+  return specificity
+}
+
+/**
+ * Best card for a line item: client override before standard, then the most
+ * specific (format / market / daypart), then the latest effective_from.
+ */
+export function resolveRateCard(cards: PublisherRateCard[], query: RateCardQuery): ResolvedRateCard | null {
+  const client = norm(query.clientName)
+  let best: { card: PublisherRateCard; negotiated: boolean; specificity: number } | null = null
+
+  for (const card of cards) {
+    if (card.publisher_id !== query.publisherId) continue
+    if (norm(card.media_type) !== norm(query.mediaType)) continue
+    if (norm(card.buy_type) !== norm(query.buyType)) continue
+    if (query.date < card.effective_from) continue
+    if (card.effective_to && query.date > card.effective_to) continue
+    const cardClient = norm(card.client_name)
+    if (cardClient && cardClient !== client) continue
+    const specificity = narrowingMatches(card, query)
+    if (specificity == null) continue
+
+    const negotiated = Boolean(cardClient)
+    const better =
+      !best ||
+      (negotiated !== best.negotiated
+        ? negotiated
+        : specificity !== best.specificity
+          ? specificity > best.specificity
+          : card.effective_from > best.card.effective_from)
+    if (better) best = { card, negotiated, specificity }
+  }
+
+  return best ? { card: best.card, negotiated: best.negotiated } : null
+}
+
+export function rateDeviation(
+  planned: number,
+  cardRate: number,
+  tolerancePct = RATE_CARD_TOLERANCE_PCT
+): RateDeviation | null {
+  if (!Number.isFinite(planned) || !(cardRate > 0)) return null
+  const deltaPct = ((planned - cardRate) / cardRate) * 100
+  if (Math.abs(deltaPct) <= tolerancePct) return { deltaPct, status: "on_card" }
+  return { deltaPct, status: deltaPct > 0 ? "above" : "below" }
+}
+
+export function rateCardMediaTypeLabel(value: string): string {
+  return RATE_CARD_MEDIA_TYPES.find((m) => m.value === value)?.label ?? value
+}
+
+/** Media types this publisher sells (its `pub_*` flags). */
+export function rateCardMediaTypesForPublisher(publisher: Publisher) {
+  return RATE_CARD_MEDIA_TYPES.filter((m) => Boolean(publisher[m.pubFlag]))
+}
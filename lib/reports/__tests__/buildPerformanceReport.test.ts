@@ -1,4 +1,7 @@
 import assert from "node:assert/strict"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
 import test from "node:test"
 import JSZip from "jszip"
 
@@ -57,3 +60,80 @@ test("buildPerformanceReport fills template with no remaining {{ tokens", async
     assert.equal(xml.includes("{{"), false, `unfilled token in ${name}`)
   }
 })
+
+/** A one-slide deck; `slideBody` goes inside the slide's shape tree. */
+async function oneSlideDeck(slideBody: string): Promise<string> {
+  const P =
+    'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"'
+  const zip = new JSZip()
+  zip.file(
+    "[Content_Types].xml",
+    '<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Override PartName="/ppt/slides/slide1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slide+xml"/>' +
+      "</Types>",
+  )
+  zip.file(
+    "ppt/presentation.xml",
+    `<?xml version="1.0" encoding="UTF-8"?><p:presentation ${P}><p:sldIdLst><p:sldId id="256" r:id="rId2"/></p:sldIdLst></p:presentation>`,
+  )
+  zip.file(
+    "ppt/_rels/presentation.xml.rels",
+    '<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/slide" Target="slides/slide1.xml"/>' +
+      "</Relationships>",
+  )
+  zip.file(
+    "ppt/slides/slide1.xml",
+    `<?xml version="1.0" encoding="UTF-8"?><p:sld ${P}><p:cSld><p:spTree>${slideBody}</p:spTree></p:cSld></p:sld>`,
+  )
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "report-template-")), "deck.pptx")
+  fs.writeFileSync(file, await zip.generateAsync({ type: "nodebuffer" }))
+  return file
+}
+
+const tc = (text: string) => `<a:tc><a:txBody><a:bodyPr/><a:p><a:r><a:t>${text}</a:t></a:r></a:p></a:txBody></a:tc>`
+const textBox = (text: string) => `<p:sp><p:txBody><a:bodyPr/><a:p><a:r><a:t>${text}</a:t></a:r></a:p></p:txBody></p:sp>`
+
+function channelNotesDeck(): Promise<string> {
+  return oneSlideDeck(
+    '<p:graphicFrame><a:graphic><a:graphicData><a:tbl>' +
+      `<a:tr h="100">${tc("Channel commentary")}</a:tr><a:tr h="100">${tc("{{rows:channelNotes.text}}")}</a:tr>` +
+      "</a:tbl></a:graphicData></a:graphic></p:graphicFrame>",
+  )
+}
+
+test("buildPerformanceReport repeats the channel commentary row once per channel", async () => {
+  const templatePath = await channelNotesDeck()
+  try {
+    const payload = { ...samplePayload(), channels: ["Search: pacing ahead.", "Social & video: on track."] }
+    const zip = await JSZip.loadAsync(await buildPerformanceReport(payload, { templatePath }))
+    const xml = await zip.file("ppt/slides/slide1.xml")!.async("string")
+
+    assert.equal(xml.match(/<a:tr\b/g)?.length, 3)
+    assert.ok(xml.includes("<a:t>Search: pacing ahead.</a:t>"))
+    assert.ok(xml.includes("<a:t>Social &amp; video: on track.</a:t>"))
+  } finally {
+    fs.rmSync(path.dirname(templatePath), { recursive: true, force: true })
+  }
+})
+
+test("buildPerformanceReport still fills the four CHANNEL_n boxes on decks without the channelNotes table", async () => {
+  const templatePath = await oneSlideDeck([1, 2, 3, 4].map((n) => textBox(`{{CHANNEL_${n}}}`)).join(""))
+  try {
+    const five = { ...samplePayload(), channels: ["Search.", "Social.", "Programmatic.", "BVOD.", "Radio."] }
+    let xml = await (await JSZip.loadAsync(await buildPerformanceReport(five, { templatePath })))
+      .file("ppt/slides/slide1.xml")!
+      .async("string")
+    assert.equal(xml.includes("{{"), false)
+    assert.ok(xml.includes("<a:t>Search.</a:t>"))
+    assert.ok(xml.includes("<a:t>BVOD. Radio.</a:t>"))
+
+    const one = { ...samplePayload(), channels: ["Search."] }
+    xml = await (await JSZip.loadAsync(await buildPerformanceReport(one, { templatePath })))
+      .file("ppt/slides/slide1.xml")!
+      .async("string")
+    assert.equal(xml.match(/No further channels in market this period\./g)?.length, 3)
+  } finally {
+    fs.rmSync(path.dirname(templatePath), { recursive: true, force: true })
+  }
+})
@@ -0,0 +1,206 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+
+import JSZip from "jszip"
+
+import type { DeliveryChannelGroup, DeliveryLineSnapshot } from "../../ava/tools/summaries.js"
+import { buildChartXml, fillTableRows, renderPptxTemplate } from "../pptxTemplate.js"
+import { buildReportSections } from "../reportSections.js"
+
+const P = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"'
+
+function textShape(id: number, text: string): string {
+  return (
+    `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="Text ${id}"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>` +
+    '<p:spPr><a:xfrm><a:off x="100" y="200"/><a:ext cx="3000" cy="2000"/></a:xfrm></p:spPr>' +
+    `<p:txBody><a:bodyPr/><a:p><a:r><a:t>${text}</a:t></a:r></a:p></p:txBody></p:sp>`
+  )
+}
+
+function tableFrame(cells: string[]): string {
+  const tc = (text: string) => `<a:tc><a:txBody><a:bodyPr/><a:p><a:r><a:t>${text}</a:t></a:r></a:p></a:txBody></a:tc>`
+  return (
+    '<p:graphicFrame><a:graphic><a:graphicData><a:tbl>' +
+    `<a:tr h="100">${tc("Line")}${tc("Spend")}</a:tr>` +
+    `<a:tr h="100">${cells.map(tc).join("")}</a:tr>` +
+    "</a:tbl></a:graphicData></a:graphic></p:graphicFrame>"
+  )
+}
+
+function slide(shapes: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><p:sld ${P}><p:cSld><p:spTree>${shapes}</p:spTree></p:cSld></p:sld>`
+}
+
+const SLIDE_RELS =
+  '<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/slideLayout" Target="../slideLayouts/slideLayout1.xml"/>' +
+  "</Relationships>"
+
+async function templateDeck(): Promise<Buffer> {
+  const zip = new JSZip()
+  zip.file(
+    "[Content_Types].xml",
+    '<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Override PartName="/ppt/slides/slide1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slide+xml"/>' +
+      '<Override PartName="/ppt/slides/slide2.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slide+xml"/>' +
+      '<Override PartName="/ppt/slides/slide3.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slide+xml"/>' +
+      "</Types>",
+  )
+  zip.file(
+    "ppt/presentation.xml",
+    `<?xml version="1.0" encoding="UTF-8"?><p:presentation ${P}><p:sldIdLst>` +
+      '<p:sldId id="256" r:id="rId2"/><p:sldId id="257" r:id="rId3"/><p:sldId id="258" r:id="rId4"/>' +
+      "</p:sldIdLst></p:presentation>",
+  )
+  zip.file(
+    "ppt/_rels/presentation.xml.rels",
+    '<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/slideMaster" Target="slideMasters/slideMaster1.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/slide" Target="slides/slide1.xml"/>' +
+      '<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/slide" Target="slides/slide2.xml"/>' +
+      '<Relationship Id="rId4" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/slide" Target="slides/slide3.xml"/>' +
+      "</Relationships>",
+  )
+  zip.file(
+    "ppt/slides/slide1.xml",
+    slide(textShape(2, "{{EXEC_SUMMARY}}") + tableFrame(["{{rows:channels.name}}", "{{rows:channels.spend}}"])),
+  )
+  zip.file(
+    "ppt/slides/slide2.xml",
+    slide(
+      textShape(2, "{{#each channels}}") +
+        textShape(3, "{{item.name}} — {{item.share}} of spend") +
+        tableFrame(["{{rows:item.lines.name}}", "{{rows:item.lines.spend}}"]) +
+        textShape(4, "{{chart:item.spendCurve}}"),
+    ),
+  )
+  zip.file("ppt/slides/slide3.xml", slide(textShape(2, "{{#each empty}}") + textShape(3, "{{item.name}}")))
+  for (const n of [1, 2, 3]) zip.file(`ppt/slides/_rels/slide${n}.xml.rels`, SLIDE_RELS)
+  return zip.generateAsync({ type: "nodebuffer" })
+}
+
+function line(name: string, spendToDate: number, plannedBudget: number): DeliveryLineSnapshot {
+  return {
+    lineItemId: name,
+    name,
+    plannedBudget,
+    plannedUnits: null,
+    startDate: "2026-09-01",
+    endDate: "2026-09-30",
+    spendToDate,
+    impressions: spendToDate * 100,
+    clicks: spendToDate,
+    results: 0,
+    video3sViews: 0,
+    cpm: 10,
+    ctr: 0.01,
+    cpc: 1,
+    noDeliveryRows: false,
+  }
+}
+
+function group(name: string, lines: DeliveryLineSnapshot[]): DeliveryChannelGroup {
+  const spendToDate = lines.reduce((sum, l) => sum + l.spendToDate, 0)
+  return {
+    group: name,
+    lines,
+    totals: {
+      spendToDate,
+      impressions: spendToDate * 100,
+      clicks: spendToDate,
+      results: 0,
+      video3sViews: 0,
+      plannedBudget: lines.reduce((sum, l) => sum + (l.plannedBudget ?? 0), 0),
+      cpm: 10,
+      ctr: 0.01,
+      cpc: 1,
+    },
+  }
+}
+
+test("fillTableRows repeats the marked row and leaves header rows alone", () => {
+  const xml = tableFrame(["{{rows:t.name}}", "{{rows:t.spend}}"])
+  const out = fillTableRows(xml, { t: [{ name: "A & B", spend: "$1" }, { name: "C", spend: "$2" }] })
+  assert.equal(out.match(/<a:tr\b/g)?.length, 3)
+  assert.match(out, /A &amp; B/)
+  assert.equal(fillTableRows(xml, { t: [] }).match(/<a:tr\b/g)?.length, 1)
+})
+
+test("buildChartXml writes one series per line with literal values", () => {
+  const xml = buildChartXml(
+    { kind: "line", title: "Spend", categories: ["1 Sep", "2 Sep"], series: [{ name: "A", values: [1, null] }] },
+    ["112233"],
+  )
+  assert.match(xml, /<c:lineChart>/)
+  assert.match(xml, /<a:srgbClr val="112233"\/>/)
+  assert.equal(xml.match(/<c:ser>/g)?.length, 1)
+  assert.equal(xml.match(/<c:pt idx="\d+"><c:v>\d+<\/c:v><\/c:pt>/g)?.length, 1)
+})
+
+test("renderPptxTemplate repeats channel slides with tables and charts, beyond four channels", async () => {
+  const channels = ["social_meta", "search", "programmatic_display", "programmatic_video", "social_tiktok"].map(
+    (name, i) => group(name, [line(`${name} line a`, 1000 * (i + 1), 5000), line(`${name} line b`, 100, 2000)]),
+  )
+  const daily = channels.flatMap((ch) =>
+    ["2026-09-01", "2026-09-02", "2026-09-03"].map((date) => ({
+      date,
+      group: ch.group,
+      spend: 100,
+      impressions: 10_000,
+      clicks: 10,
+    })),
+  )
+  const sections = buildReportSections({
+    channels,
+    daily,
+    window: { startDate: "2026-09-01", endDate: "2026-09-03" },
+  })
+  const out = await renderPptxTemplate(await templateDeck(), {
+    ...sections,
+    tokens: { EXEC_SUMMARY: "On pace" },
+  })
+
+  const zip = await JSZip.loadAsync(out)
+  const presentation = await zip.file("ppt/presentation.xml")!.async("string")
+  // Summary slide + one slide per channel; the empty collection's slide is dropped.
+  assert.equal(presentation.match(/<p:sldId\b/g)?.length, 6)
+
+  const slides = Object.keys(zip.files).filter((p) => /^ppt\/slides\/slide\d+\.xml$/.test(p))
+  assert.equal(slides.length, 6)
+  for (const path of slides) {
+    assert.doesNotMatch(await zip.file(path)!.async("string"), /\{\{/)
+  }
+
+  const summary = await zip.file("ppt/slides/slide1.xml")!.async("string")
+  assert.match(summary, /On pace/)
+  assert.equal(summary.match(/<a:tr\b/g)?.length, 6)
+
+  // Largest spender first.
+  const first = await zip.file("ppt/slides/slide2.xml")!.async("string")
+  assert.match(first, /TikTok — \d+% of spend/)
+  assert.match(first, /social_tiktok line a/)
+  assert.match(first, /<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="4"/)
+
+  const charts = Object.keys(zip.files).filter((p) => /^ppt\/charts\/chart\d+\.xml$/.test(p))
+  assert.equal(charts.length, 5)
+  const contentTypes = await zip.file("[Content_Types].xml")!.async("string")
+  assert.equal(contentTypes.match(/drawingml\.chart\+xml/g)?.length, 5)
+  assert.equal(contentTypes.match(/presentationml\.slide\+xml/g)?.length, 6)
+  const rels = await zip.file("ppt/slides/_rels/slide4.xml.rels")!.async("string")
+  assert.match(rels, /relationships\/chart" Target="\.\.\/charts\/chart\d+\.xml"/)
+})
+
+test("renderPptxTemplate removes chart placeholders without data and rejects unknown tokens", async () => {
+  const channels = [group("search", [line("Brand", 500, 1000)])]
+  const sections = buildReportSections({ channels, daily: [], window: { startDate: null, endDate: null } })
+  const out = await renderPptxTemplate(await templateDeck(), { ...sections, tokens: { EXEC_SUMMARY: "x" } })
+  const zip = await JSZip.loadAsync(out)
+  const channelSlide = await zip.file("ppt/slides/slide2.xml")!.async("string")
+  assert.doesNotMatch(channelSlide, /graphicFrame><p:nvGraphicFramePr/)
+  assert.equal(Object.keys(zip.files).filter((p) => p.startsWith("ppt/charts/")).length, 0)
+
+  await assert.rejects(
+    renderPptxTemplate(await templateDeck(), sections),
+    /Unfilled report tokens remain in ppt\/slides\/slide1\.xml/,
+  )
+})
@@ -0,0 +1,98 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+
+import type { DeliveryChannelGroup } from "../../ava/tools/summaries.js"
+import {
+  buildPerformanceReportHardNumbers,
+  findInventedMoneyInNarrative,
+} from "../performanceReportHardNumbers.js"
+import {
+  buildScheduledReportPayload,
+  ctrTargetFromKpis,
+  isScheduleDue,
+  lastCompletedPeriod,
+  nextReportDate,
+  periodOverlapsFlight,
+  type PerformanceReportSchedule,
+} from "../scheduledReports.js"
+
+function group(name: string, spendToDate: number, clicks: number, impressions = 100_000): DeliveryChannelGroup {
+  return {
+    group: name,
+    lines: [],
+    totals: {
+      spendToDate,
+      impressions,
+      clicks,
+      results: 0,
+      video3sViews: 0,
+      plannedBudget: null,
+      cpm: null,
+      ctr: impressions > 0 ? clicks / impressions : null,
+      cpc: null,
+    },
+  }
+}
+
+test("lastCompletedPeriod picks the previous ISO week or calendar month", () => {
+  // Monday 19 October 2026.
+  assert.deepEqual(lastCompletedPeriod("weekly", "2026-10-19"), {
+    key: "2026-W42",
+    label: "week to 18 Oct 2026",
+    startDate: "2026-10-12",
+    endDate: "2026-10-18",
+  })
+  assert.equal(lastCompletedPeriod("weekly", "2026-10-18").key, "2026-W41")
+  assert.deepEqual(lastCompletedPeriod("monthly", "2027-01-01"), {
+    key: "2026-12",
+    label: "December 2026",
+    startDate: "2026-12-01",
+    endDate: "2026-12-31",
+  })
+
+  const september = lastCompletedPeriod("monthly", "2026-10-19")
+  assert.equal(nextReportDate("monthly", september), "2026-11-01")
+  assert.equal(nextReportDate("weekly", lastCompletedPeriod("weekly", "2026-10-19")), "2026-10-26")
+  assert.equal(periodOverlapsFlight(september, "2026-09-20", null), true)
+  assert.equal(periodOverlapsFlight(september, "2026-10-01", "2026-12-31"), false)
+
+  const schedule = { enabled: true, last_period_key: "2026-08" } as PerformanceReportSchedule
+  assert.equal(isScheduleDue(schedule, september), true)
+  assert.equal(isScheduleDue({ ...schedule, last_period_key: "2026-09" }, september), false)
+  assert.equal(isScheduleDue({ ...schedule, enabled: false }, september), false)
+})
+
+test("ctrTargetFromKpis averages set targets in ratio form", () => {
+  assert.equal(ctrTargetFromKpis([{ ctr: 1.5 }, { ctr: 0.005 }, { ctr: null }, { ctr: 0 }]), 0.01)
+  assert.equal(ctrTargetFromKpis([{ ctr: null }]), null)
+})
+
+test("scheduled payload fills every slide field within caps and without invented money", () => {
+  const channels = [group("Social", 30_000, 500), group("Search", 60_000, 3_000), group("BVOD", 0, 0, 0)]
+  const totals = { ...group("All", 90_000, 3_500, 200_000).totals, plannedBudget: 200_000 }
+  const hard = buildPerformanceReportHardNumbers({ totals, plannedToDate: 120_000 })
+  const payload = buildScheduledReportPayload({
+    period: lastCompletedPeriod("monthly", "2026-10-19"),
+    cadence: "monthly",
+    channels,
+    totals,
+    hard,
+    ctrTarget: 0.02,
+  })
+
+  assert.equal(payload.execSummary, "September 2026: spend behind pace at 75.0% of plan to date across 2 channels.")
+  assert.deepEqual(payload.channels, [
+    "Search: 67% of spend, CTR 3.00%.",
+    "Social: 33% of spend, CTR 0.50%.",
+  ])
+  assert.match(payload.keyInsight, /1\.75% is below the 2\.00% KPI target/)
+  assert.match(payload.recsInFlight, /under-pacing/)
+  assert.deepEqual(payload.steps[3], { when: "1 Nov 2026", what: "Next scheduled report" })
+  assert.equal(payload.deliverySpend, hard.deliverySpend)
+
+  const { deliverySpend: _spend, kpis: _kpis, ...narrative } = payload
+  assert.equal(findInventedMoneyInNarrative(narrative), null)
+  assert.ok(payload.execSummary.length <= 120 && payload.keyInsight.length <= 240)
+  assert.ok(payload.insights.every((line) => line.length <= 110))
+  assert.ok(payload.steps.every((step) => step.when.length <= 16 && step.what.length <= 40))
+})
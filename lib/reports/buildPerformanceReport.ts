@@ -1,14 +1,14 @@
 import fs from "node:fs"
 import path from "node:path"
-import JSZip from "jszip"
 
-const SLIDE_XML_RE = /^ppt\/slides\/slide\d+\.xml$/
+import { escapeXmlText, renderPptxTemplate, type ReportTemplateData } from "@/lib/reports/pptxTemplate"
 
 export type PerformanceReportPayload = {
   execSummary: string
   deliverySpend: string
   deliveryDeliverables: string
-  channels: [string, string, string, string]
+  /** One commentary line per channel in market (see MAX_CHANNEL_LINES). */
+  channels: string[]
   kpis: [string, string, string, string]
   keyInsight: string
   insights: [string, string, string]
@@ -22,82 +22,84 @@ export type PerformanceReportPayload = {
   ]
 }
 
-/** Escape for PowerPoint slide XML text runs. Ampersand first. */
-export function escapeXmlText(value: string): string {
-  return value
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&apos;")
-}
+export { escapeXmlText }
 
+/**
+ * The house deck. Channel commentary sits in a table whose body row carries
+ * `{{rows:channelNotes.text}}`, so the slide takes as many lines as the campaign
+ * has channels. Decks that still carry the four `{{CHANNEL_n}}` text boxes are
+ * filled too (see legacyChannelTokens) until they are migrated.
+ */
 export function performanceReportTemplatePath(cwd = process.cwd()): string {
   return path.join(cwd, "lib", "reports", "assets", "performance-report-template.pptx")
 }
 
+const LEGACY_CHANNEL_SLOTS = 4
+const LEGACY_CHANNEL_PLACEHOLDER = "No further channels in market this period."
+
+/**
+ * `CHANNEL_1..4` for decks without the `channelNotes` table: channels past the
+ * fourth share the last box and unused boxes get a placeholder line.
+ */
+function legacyChannelTokens(channels: readonly string[]): Record<string, string> {
+  const slots = channels.slice(0, LEGACY_CHANNEL_SLOTS)
+  if (channels.length > LEGACY_CHANNEL_SLOTS) {
+    slots[LEGACY_CHANNEL_SLOTS - 1] = channels.slice(LEGACY_CHANNEL_SLOTS - 1).join(" ")
+  }
+  while (slots.length < LEGACY_CHANNEL_SLOTS) slots.push(LEGACY_CHANNEL_PLACEHOLDER)
+  return Object.fromEntries(slots.map((text, i) => [`CHANNEL_${i + 1}`, text]))
+}
+
 function tokenMap(payload: PerformanceReportPayload): Record<string, string> {
   return {
-    "{{EXEC_SUMMARY}}": payload.execSummary,
-    "{{DELIVERY_SPEND}}": payload.deliverySpend,
-    "{{DELIVERY_DELIVERABLES}}": payload.deliveryDeliverables,
-    "{{CHANNEL_1}}": payload.channels[0],
-    "{{CHANNEL_2}}": payload.channels[1],
-    "{{CHANNEL_3}}": payload.channels[2],
-    "{{CHANNEL_4}}": payload.channels[3],
-    "{{KPI_1}}": payload.kpis[0],
-    "{{KPI_2}}": payload.kpis[1],
-    "{{KPI_3}}": payload.kpis[2],
-    "{{KPI_4}}": payload.kpis[3],
-    "{{KEY_INSIGHT}}": payload.keyInsight,
-    "{{INSIGHT_1}}": payload.insights[0],
-    "{{INSIGHT_2}}": payload.insights[1],
-    "{{INSIGHT_3}}": payload.insights[2],
-    "{{RECS_IN_FLIGHT}}": payload.recsInFlight,
-    "{{RECS_NEXT_PERIOD}}": payload.recsNextPeriod,
-    "{{STEP_1_WHEN}}": payload.steps[0].when,
-    "{{STEP_1_WHAT}}": payload.steps[0].what,
-    "{{STEP_2_WHEN}}": payload.steps[1].when,
-    "{{STEP_2_WHAT}}": payload.steps[1].what,
-    "{{STEP_3_WHEN}}": payload.steps[2].when,
-    "{{STEP_3_WHAT}}": payload.steps[2].what,
-    "{{STEP_4_WHEN}}": payload.steps[3].when,
-    "{{STEP_4_WHAT}}": payload.steps[3].what,
+    ...legacyChannelTokens(payload.channels),
+    EXEC_SUMMARY: payload.execSummary,
+    DELIVERY_SPEND: payload.deliverySpend,
+    DELIVERY_DELIVERABLES: payload.deliveryDeliverables,
+    KPI_1: payload.kpis[0],
+    KPI_2: payload.kpis[1],
+    KPI_3: payload.kpis[2],
+    KPI_4: payload.kpis[3],
+    KEY_INSIGHT: payload.keyInsight,
+    INSIGHT_1: payload.insights[0],
+    INSIGHT_2: payload.insights[1],
+    INSIGHT_3: payload.insights[2],
+    RECS_IN_FLIGHT: payload.recsInFlight,
+    RECS_NEXT_PERIOD: payload.recsNextPeriod,
+    STEP_1_WHEN: payload.steps[0].when,
+    STEP_1_WHAT: payload.steps[0].what,
+    STEP_2_WHEN: payload.steps[1].when,
+    STEP_2_WHAT: payload.steps[1].what,
+    STEP_3_WHEN: payload.steps[2].when,
+    STEP_3_WHAT: payload.steps[2].what,
+    STEP_4_WHEN: payload.steps[3].when,
+    STEP_4_WHAT: payload.steps[3].what,
   }
 }
 
-function replaceTokens(xml: string, tokens: Record<string, string>): string {
-  let out = xml
-  for (const [token, value] of Object.entries(tokens)) {
-    out = out.split(token).join(escapeXmlText(value))
-  }
-  return out
+export type BuildPerformanceReportOptions = {
+  templatePath?: string
+  /** Repeated channel slides, variable tables and charts (see pptxTemplate). */
+  sections?: ReportTemplateData
+  /** Chart colours from a branded template manifest. */
+  palette?: string[]
 }
 
 /**
- * Fill the tokenised performance-report template via string replacement in slide XML.
- * Throws if any `{{` remains after replacement (unfilled or unknown tokens).
+ * Fill the performance-report template. The fixed narrative slots fill the
+ * `{{TOKEN}}` markers and channel commentary fills the `channelNotes` table
+ * rows (or the legacy `CHANNEL_n` boxes); templates with channel/line-item slides, tables or charts draw on
+ * `sections`. Throws if any `{{` remains after filling.
  */
 export async function buildPerformanceReport(
   payload: PerformanceReportPayload,
-  templatePath = performanceReportTemplatePath(),
+  options: BuildPerformanceReportOptions = {},
 ): Promise<Buffer> {
-  const templateBuffer = fs.readFileSync(templatePath)
-  const zip = await JSZip.loadAsync(templateBuffer)
-  const tokens = tokenMap(payload)
-
-  const slideFiles = Object.keys(zip.files).filter((name) => SLIDE_XML_RE.test(name))
-  for (const name of slideFiles) {
-    const file = zip.file(name)
-    if (!file) continue
-    const xml = await file.async("string")
-    const filled = replaceTokens(xml, tokens)
-    if (filled.includes("{{")) {
-      throw new Error(`Unfilled report tokens remain in ${name}`)
-    }
-    zip.file(name, filled)
-  }
-
-  const out = await zip.generateAsync({ type: "nodebuffer" })
-  return Buffer.from(out)
+  const template = fs.readFileSync(options.templatePath ?? performanceReportTemplatePath())
+  return renderPptxTemplate(template, {
+    ...options.sections,
+    tokens: { ...options.sections?.tokens, ...tokenMap(payload) },
+    tables: { ...options.sections?.tables, channelNotes: payload.channels.map((text) => ({ text })) },
+    palette: options.palette,
+  })
 }
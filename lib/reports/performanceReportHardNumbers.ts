@@ -6,6 +6,9 @@ import type { PerformanceReportPayload } from "@/lib/reports/buildPerformanceRep
 export const FREE_TEXT_MONEY_RE =
   /\$\s*\d[\d,]*(?:\.\d+)?(?:\s*[kKmMbB])?|\bAUD\s*\$?\s*\d[\d,]*(?:\.\d+)?/g
 
+/** Most channel commentary lines a report carries; the house deck repeats one table row per line. */
+export const MAX_CHANNEL_LINES = 8
+
 export type DeliverySnapshotTotals = {
   spendToDate: number
   impressions: number
@@ -34,7 +37,8 @@ export type HardNumberFigures = {
   }
 }
 
-function clip(text: string, cap: number): string {
+/** Single-line text clipped to a slide field's character cap. */
+export function clip(text: string, cap: number): string {
   const t = text.replace(/[\r\n]+/g, " ").replace(/\s+/g, " ").trim()
   if (t.length <= cap) return t
   return `${t.slice(0, Math.max(0, cap - 1)).trimEnd()}…`
@@ -0,0 +1,348 @@
+import JSZip from "jszip"
+
+/**
+ * PPTX template engine for client reports. Works on the slide XML with string
+ * replacement (no DOM), so every marker must sit inside a single text run —
+ * type it in one go in PowerPoint rather than editing it piecemeal.
+ *
+ * Markers:
+ * - `{{KEY}}` — text token from `tokens`.
+ * - `{{#each KEY}}` — on its own shape: the slide is repeated once per entry in
+ *   `collections[KEY]` (and dropped when there are none). Inside that slide the
+ *   entry's own tokens/tables/charts are addressed as `item.NAME`.
+ * - `{{rows:KEY.FIELD}}` — in a table row: the row is repeated per entry in
+ *   `tables[KEY]`, each cell taking that entry's FIELD.
+ * - `{{chart:KEY}}` — on a positioned shape: replaced by a native chart of the
+ *   same size from `charts[KEY]`; the shape is removed when there is no data.
+ *
+ * Charts carry their values as literals (no embedded workbook), so they render
+ * everywhere but "Edit data" is not available in PowerPoint.
+ */
+
+export type ReportChartSeries = {
+  name: string
+  values: Array<number | null>
+}
+
+export type ReportChart = {
+  kind: "line" | "bar"
+  title?: string
+  categories: string[]
+  series: ReportChartSeries[]
+  /** Excel number format for the value axis, e.g. `"$#,##0"`. */
+  numberFormat?: string
+}
+
+export type ReportTableRow = Record<string, string>
+
+export type ReportTemplateScope = {
+  tokens?: Record<string, string>
+  tables?: Record<string, ReportTableRow[]>
+  charts?: Record<string, ReportChart | null>
+}
+
+export type ReportTemplateData = ReportTemplateScope & {
+  collections?: Record<string, ReportTemplateScope[]>
+  /** Series colours as RRGGBB; branded templates override the house palette. */
+  palette?: string[]
+}
+
+export const DEFAULT_CHART_PALETTE = ["1F3A5F", "E07A1F", "3C8D5A", "8E44AD", "C0392B", "7F8C8D"]
+
+const SLIDE_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.presentationml.slide+xml"
+const CHART_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.drawingml.chart+xml"
+const SLIDE_REL_TYPE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships/slide"
+const CHART_REL_TYPE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships/chart"
+const NOTES_REL_TYPE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships/notesSlide"
+
+const SHAPE_RE = /<p:sp\b[^>]*>[\s\S]*?<\/p:sp>/g
+const TABLE_ROW_RE = /<a:tr\b[^>]*>[\s\S]*?<\/a:tr>/g
+const EACH_RE = /\{\{#each ([\w.]+)\}\}/
+const ROW_TOKEN_RE = /\{\{rows:([\w.]+)\.(\w+)\}\}/g
+const CHART_TOKEN_RE = /\{\{chart:([\w.]+)\}\}/
+const TEXT_TOKEN_RE = /\{\{([\w.]+)\}\}/g
+
+/** Escape for PowerPoint slide XML text runs. Ampersand first. */
+export function escapeXmlText(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
+
+/** Replace `{{KEY}}` tokens present in `tokens`; unknown tokens are left for the caller to catch. */
+export function fillTextTokens(xml: string, tokens: Record<string, string>): string {
+  return xml.replace(TEXT_TOKEN_RE, (match, key: string) =>
+    Object.hasOwn(tokens, key) ? escapeXmlText(tokens[key]!) : match,
+  )
+}
+
+/** Repeat each table row that carries `{{rows:KEY.FIELD}}` once per entry in `tables[KEY]`. */
+export function fillTableRows(xml: string, tables: Record<string, ReportTableRow[]>): string {
+  return xml.replace(TABLE_ROW_RE, (row) => {
+    const keys = new Set([...row.matchAll(ROW_TOKEN_RE)].map((m) => m[1]!))
+    if (keys.size === 0) return row
+    if (keys.size > 1) {
+      throw new Error(`Table row mixes collections: ${[...keys].join(", ")}`)
+    }
+    const [key] = keys
+    return (tables[key!] ?? [])
+      .map((entry) => row.replace(ROW_TOKEN_RE, (_m, _k, field: string) => escapeXmlText(entry[field] ?? "")))
+      .join("")
+  })
+}
+
+function removeShapes(xml: string, test: (shape: string) => boolean): string {
+  return xml.replace(SHAPE_RE, (shape) => (test(shape) ? "" : shape))
+}
+
+function formatChartNumber(value: number): string {
+  return Number.isFinite(value) ? String(Math.round(value * 10_000) / 10_000) : "0"
+}
+
+function chartTitleXml(title: string | undefined): string {
+  if (!title) return '<c:autoTitleDeleted val="1"/>'
+  return (
+    "<c:title><c:tx><c:rich><a:bodyPr/><a:lstStyle/><a:p><a:pPr><a:defRPr sz=\"1400\" b=\"1\"/></a:pPr>" +
+    `<a:r><a:rPr lang="en-AU" sz="1400" b="1"/><a:t>${escapeXmlText(title)}</a:t></a:r></a:p></c:rich></c:tx>` +
+    '<c:overlay val="0"/></c:title><c:autoTitleDeleted val="0"/>'
+  )
+}
+
+/** A complete `ppt/charts/chartN.xml` part for a line or clustered column chart. */
+export function buildChartXml(chart: ReportChart, palette: readonly string[] = DEFAULT_CHART_PALETTE): string {
+  const categories =
+    `<c:cat><c:strLit><c:ptCount val="${chart.categories.length}"/>` +
+    chart.categories.map((cat, i) => `<c:pt idx="${i}"><c:v>${escapeXmlText(cat)}</c:v></c:pt>`).join("") +
+    "</c:strLit></c:cat>"
+
+  const series = chart.series
+    .map((s, i) => {
+      const colour = palette[i % palette.length] ?? DEFAULT_CHART_PALETTE[0]
+      const fill = `<a:solidFill><a:srgbClr val="${colour}"/></a:solidFill>`
+      const spPr = chart.kind === "line" ? `<c:spPr><a:ln w="28575">${fill}</a:ln></c:spPr>` : `<c:spPr>${fill}</c:spPr>`
+      const points = s.values
+        .map((v, idx) => (v == null ? "" : `<c:pt idx="${idx}"><c:v>${formatChartNumber(v)}</c:v></c:pt>`))
+        .join("")
+      const values =
+        `<c:val><c:numLit><c:formatCode>General</c:formatCode><c:ptCount val="${chart.categories.length}"/>` +
+        `${points}</c:numLit></c:val>`
+      const head = `<c:idx val="${i}"/><c:order val="${i}"/><c:tx><c:v>${escapeXmlText(s.name)}</c:v></c:tx>${spPr}`
+      return chart.kind === "line"
+        ? `<c:ser>${head}<c:marker><c:symbol val="none"/></c:marker>${categories}${values}<c:smooth val="0"/></c:ser>`
+        : `<c:ser>${head}<c:invertIfNegative val="0"/>${categories}${values}</c:ser>`
+    })
+    .join("")
+
+  const axIds = '<c:axId val="500000001"/><c:axId val="500000002"/>'
+  const plot =
+    chart.kind === "line"
+      ? `<c:lineChart><c:grouping val="standard"/><c:varyColors val="0"/>${series}<c:marker val="1"/>${axIds}</c:lineChart>`
+      : `<c:barChart><c:barDir val="col"/><c:grouping val="clustered"/><c:varyColors val="0"/>${series}<c:gapWidth val="80"/>${axIds}</c:barChart>`
+  const numFmt = escapeXmlText(chart.numberFormat ?? "#,##0")
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<c:chartSpace xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" ' +
+    'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<c:roundedCorners val="0"/><c:chart>' +
+    chartTitleXml(chart.title) +
+    `<c:plotArea><c:layout/>${plot}` +
+    '<c:catAx><c:axId val="500000001"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/>' +
+    '<c:axPos val="b"/><c:numFmt formatCode="General" sourceLinked="0"/><c:tickLblPos val="nextTo"/>' +
+    '<c:crossAx val="500000002"/><c:crosses val="autoZero"/><c:auto val="1"/><c:lblAlgn val="ctr"/>' +
+    '<c:lblOffset val="100"/><c:noMultiLvlLbl val="0"/></c:catAx>' +
+    '<c:valAx><c:axId val="500000002"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/>' +
+    `<c:axPos val="l"/><c:majorGridlines/><c:numFmt formatCode="${numFmt}" sourceLinked="0"/>` +
+    '<c:tickLblPos val="nextTo"/><c:crossAx val="500000001"/><c:crosses val="autoZero"/>' +
+    '<c:crossBetween val="between"/></c:valAx></c:plotArea>' +
+    '<c:legend><c:legendPos val="b"/><c:overlay val="0"/></c:legend>' +
+    '<c:plotVisOnly val="1"/><c:dispBlanksAs val="gap"/></c:chart></c:chartSpace>'
+  )
+}
+
+function chartFrameXml(shape: string, relId: string, name: string): string {
+  const off = /<a:off x="(-?\d+)" y="(-?\d+)"\/>/.exec(shape)
+  const ext = /<a:ext cx="(\d+)" cy="(\d+)"\/>/.exec(shape)
+  const id = /<p:cNvPr id="(\d+)"/.exec(shape)?.[1]
+  if (!off || !ext || !id) {
+    throw new Error(`Chart placeholder "${name}" needs an explicit position and size on the slide`)
+  }
+  return (
+    `<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="${id}" name="${escapeXmlText(name)}"/>` +
+    "<p:cNvGraphicFramePr/><p:nvPr/></p:nvGraphicFramePr>" +
+    `<p:xfrm><a:off x="${off[1]}" y="${off[2]}"/><a:ext cx="${ext[1]}" cy="${ext[2]}"/></p:xfrm>` +
+    '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/chart">' +
+    '<c:chart xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" ' +
+    `xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" r:id="${relId}"/>` +
+    "</a:graphicData></a:graphic></p:graphicFrame>"
+  )
+}
+
+function maxNumber(values: Iterable<string>, re: RegExp): number {
+  let max = 0
+  for (const value of values) {
+    for (const m of value.matchAll(re)) max = Math.max(max, Number(m[1]))
+  }
+  return max
+}
+
+function relsPathFor(slidePath: string): string {
+  const slash = slidePath.lastIndexOf("/")
+  return `${slidePath.slice(0, slash)}/_rels/${slidePath.slice(slash + 1)}.rels`
+}
+
+function addRelationship(relsXml: string, id: string, type: string, target: string): string {
+  return relsXml.replace(
+    "</Relationships>",
+    `<Relationship Id="${id}" Type="${type}" Target="${target}"/></Relationships>`,
+  )
+}
+
+function addOverride(contentTypes: string, partName: string, contentType: string): string {
+  return contentTypes.replace("</Types>", `<Override PartName="${partName}" ContentType="${contentType}"/></Types>`)
+}
+
+function prefixScope(scope: ReportTemplateScope, prefix: string): Required<ReportTemplateScope> {
+  const prefixed = <T>(record: Record<string, T> | undefined): Record<string, T> =>
+    Object.fromEntries(Object.entries(record ?? {}).map(([k, v]) => [`${prefix}${k}`, v]))
+  return { tokens: prefixed(scope.tokens), tables: prefixed(scope.tables), charts: prefixed(scope.charts) }
+}
+
+type PlannedSlide = {
+  /** Zip path of the source slide (clones share it until written). */
+  source: string
+  xml: string
+  relsXml: string
+  scope: Required<ReportTemplateScope>
+  /** Existing sldId / presentation rel, or null for a clone. */
+  sldId: string | null
+  presRelId: string | null
+}
+
+/** Fill a PPTX template. Throws when any `{{` marker is left unfilled. */
+export async function renderPptxTemplate(template: Buffer | Uint8Array, data: ReportTemplateData): Promise<Buffer> {
+  const zip = await JSZip.loadAsync(template)
+  const read = async (path: string): Promise<string> => {
+    const file = zip.file(path)
+    if (!file) throw new Error(`Report template is missing ${path}`)
+    return file.async("string")
+  }
+
+  let presentation = await read("ppt/presentation.xml")
+  let presRels = await read("ppt/_rels/presentation.xml.rels")
+  let contentTypes = await read("[Content_Types].xml")
+  const palette = data.palette?.length ? data.palette : DEFAULT_CHART_PALETTE
+  const global: Required<ReportTemplateScope> = {
+    tokens: data.tokens ?? {},
+    tables: data.tables ?? {},
+    charts: data.charts ?? {},
+  }
+
+  const relTargets = new Map(
+    [...presRels.matchAll(/<Relationship\b[^>]*\bId="([^"]+)"[^>]*\bTarget="([^"]+)"/g)].map((m) => [m[1]!, m[2]!]),
+  )
+  const sldIds = [...presentation.matchAll(/<p:sldId\b[^>]*\bid="(\d+)"[^>]*\br:id="([^"]+)"[^>]*\/>/g)]
+
+  // 1. Expand repeated slides, in deck order.
+  const planned: PlannedSlide[] = []
+  const dropped: Array<{ path: string; presRelId: string }> = []
+  for (const [, sldId, presRelId] of sldIds) {
+    const path = `ppt/${relTargets.get(presRelId!)!.replace(/^\//, "").replace(/^ppt\//, "")}`
+    const xml = await read(path)
+    const relsXml = (await zip.file(relsPathFor(path))?.async("string")) ?? ""
+    const each = EACH_RE.exec(xml)
+    if (!each) {
+      planned.push({ source: path, xml, relsXml, scope: global, sldId: sldId!, presRelId: presRelId! })
+      continue
+    }
+    const items = data.collections?.[each[1]!] ?? []
+    if (items.length === 0) {
+      dropped.push({ path, presRelId: presRelId! })
+      continue
+    }
+    const body = removeShapes(xml, (shape) => EACH_RE.test(shape))
+    // Clones keep the layout but not the speaker notes (a notes part points back at one slide).
+    const cloneRels = relsXml.replace(new RegExp(`<Relationship\\b[^>]*Type="${NOTES_REL_TYPE}"[^>]*/>`, "g"), "")
+    items.forEach((item, i) => {
+      const itemScope = prefixScope(item, "item.")
+      planned.push({
+        source: path,
+        xml: body,
+        relsXml: i === 0 ? relsXml : cloneRels,
+        scope: {
+          tokens: { ...global.tokens, ...itemScope.tokens },
+          tables: { ...global.tables, ...itemScope.tables },
+          charts: { ...global.charts, ...itemScope.charts },
+        },
+        sldId: i === 0 ? sldId! : null,
+        presRelId: i === 0 ? presRelId! : null,
+      })
+    })
+  }
+
+  for (const { path, presRelId } of dropped) {
+    zip.remove(path)
+    zip.remove(relsPathFor(path))
+    presRels = presRels.replace(new RegExp(`<Relationship\\b[^>]*\\bId="${presRelId}"[^>]*/>`), "")
+    contentTypes = contentTypes.replace(new RegExp(`<Override PartName="/${path}"[^>]*/>`), "")
+  }
+
+  // 2. Fill each slide and write it (clones get fresh parts and ids).
+  const filePaths = Object.keys(zip.files)
+  let nextSlide = maxNumber(filePaths, /^ppt\/slides\/slide(\d+)\.xml$/g) + 1
+  let nextChart = maxNumber(filePaths, /^ppt\/charts\/chart(\d+)\.xml$/g) + 1
+  let nextSldId = Math.max(255, maxNumber([presentation], /<p:sldId\b[^>]*\bid="(\d+)"/g)) + 1
+  let nextPresRel = maxNumber([presRels], /\bId="rId(\d+)"/g) + 1
+  const sldIdEntries: string[] = []
+
+  for (const slide of planned) {
+    let path = slide.source
+    let { sldId, presRelId } = slide
+    if (!sldId || !presRelId) {
+      path = `ppt/slides/slide${nextSlide++}.xml`
+      sldId = String(nextSldId++)
+      presRelId = `rId${nextPresRel++}`
+      presRels = addRelationship(presRels, presRelId, SLIDE_REL_TYPE, path.replace(/^ppt\//, ""))
+      contentTypes = addOverride(contentTypes, `/${path}`, SLIDE_CONTENT_TYPE)
+    }
+
+    let relsXml = slide.relsXml
+    let nextRel = maxNumber([relsXml], /\bId="rId(\d+)"/g) + 1
+    let xml = fillTableRows(slide.xml, slide.scope.tables)
+    xml = xml.replace(SHAPE_RE, (shape) => {
+      const marker = CHART_TOKEN_RE.exec(shape)
+      if (!marker) return shape
+      const chart = slide.scope.charts[marker[1]!]
+      if (!chart || chart.series.length === 0 || chart.categories.length === 0) return ""
+      const chartPath = `ppt/charts/chart${nextChart++}.xml`
+      const relId = `rId${nextRel++}`
+      zip.file(chartPath, buildChartXml(chart, palette))
+      contentTypes = addOverride(contentTypes, `/${chartPath}`, CHART_CONTENT_TYPE)
+      relsXml = addRelationship(relsXml, relId, CHART_REL_TYPE, `../${chartPath.replace(/^ppt\//, "")}`)
+      return chartFrameXml(shape, relId, chart.title || marker[1]!)
+    })
+    xml = fillTextTokens(xml, slide.scope.tokens)
+    if (xml.includes("{{")) {
+      throw new Error(`Unfilled report tokens remain in ${path}`)
+    }
+
+    zip.file(path, xml)
+    if (relsXml) zip.file(relsPathFor(path), relsXml)
+    sldIdEntries.push(`<p:sldId id="${sldId}" r:id="${presRelId}"/>`)
+  }
+
+  presentation = presentation.replace(
+    /<p:sldIdLst>[\s\S]*?<\/p:sldIdLst>/,
+    `<p:sldIdLst>${sldIdEntries.join("")}</p:sldIdLst>`,
+  )
+  zip.file("ppt/presentation.xml", presentation)
+  zip.file("ppt/_rels/presentation.xml.rels", presRels)
+  zip.file("[Content_Types].xml", contentTypes)
+
+  const out = await zip.generateAsync({ type: "nodebuffer" })
+  return Buffer.from(out)
+}
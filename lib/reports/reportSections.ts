@@ -0,0 +1,229 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns"
+
+import type {
+  DeliveryChannelGroup,
+  DeliveryDailyPoint,
+  DeliveryLineSnapshot,
+} from "@/lib/ava/tools/summaries"
+import { formatAUD } from "@/lib/format/money"
+import type {
+  ReportChart,
+  ReportTableRow,
+  ReportTemplateData,
+  ReportTemplateScope,
+} from "@/lib/reports/pptxTemplate"
+
+export const DELIVERY_GROUP_LABELS: Record<string, string> = {
+  social_meta: "Meta",
+  social_tiktok: "TikTok",
+  programmatic_display: "Programmatic display",
+  programmatic_video: "Programmatic video",
+  ad_serving: "Ad serving",
+  search: "Search",
+}
+
+export function deliveryGroupLabel(group: string): string {
+  return DELIVERY_GROUP_LABELS[group] ?? group
+}
+
+/** Past this many days, chart points are sampled weekly (cumulative series only). */
+const DAILY_POINT_LIMIT = 92
+
+function count(n: number): string {
+  return new Intl.NumberFormat("en-AU", { maximumFractionDigits: 0 }).format(Math.round(n))
+}
+
+function ratio(n: number | null, digits = 2): string {
+  return n == null || !Number.isFinite(n) ? "—" : `${(n * 100).toFixed(digits)}%`
+}
+
+function money(n: number | null): string {
+  return n == null || !Number.isFinite(n) ? "—" : formatAUD(n)
+}
+
+function day(value: string | null | undefined): Date | null {
+  if (!value) return null
+  const d = parseISO(value.slice(0, 10))
+  return Number.isNaN(d.getTime()) ? null : d
+}
+
+/** Chart window: the snapshot window, else the span of the daily data. */
+function chartDays(
+  daily: readonly DeliveryDailyPoint[],
+  window: { startDate: string | null; endDate: string | null },
+): Date[] {
+  const start = day(window.startDate) ?? day(daily[0]?.date)
+  const end = day(window.endDate) ?? day(daily[daily.length - 1]?.date)
+  if (!start || !end || end < start) return []
+  const span = differenceInCalendarDays(end, start)
+  return Array.from({ length: span + 1 }, (_, i) => addDays(start, i))
+}
+
+/** Indices to plot: every day, or weekly plus the final day on long flights. */
+function sampleIndices(length: number): number[] {
+  if (length <= DAILY_POINT_LIMIT) return Array.from({ length }, (_, i) => i)
+  const picks = Array.from({ length: Math.ceil(length / 7) }, (_, i) => i * 7)
+  if (picks[picks.length - 1] !== length - 1) picks.push(length - 1)
+  return picks
+}
+
+/** Straight-line expected spend to each day from every line's budget and flight dates. */
+function expectedSpendCurve(lines: readonly DeliveryLineSnapshot[], days: readonly Date[]): number[] {
+  return days.map((d) =>
+    lines.reduce((sum, line) => {
+      const start = day(line.startDate)
+      const end = day(line.endDate)
+      if (!start || !end || end < start || !line.plannedBudget) return sum
+      const total = differenceInCalendarDays(end, start) + 1
+      const elapsed = Math.min(Math.max(differenceInCalendarDays(d, start) + 1, 0), total)
+      return sum + (line.plannedBudget * elapsed) / total
+    }, 0),
+  )
+}
+
+function cumulative(
+  daily: readonly DeliveryDailyPoint[],
+  days: readonly Date[],
+  pick: (point: DeliveryDailyPoint) => number,
+): number[] {
+  const byDay = new Map<string, number>()
+  for (const point of daily) byDay.set(point.date, (byDay.get(point.date) ?? 0) + pick(point))
+  let running = 0
+  return days.map((d) => {
+    running += byDay.get(format(d, "yyyy-MM-dd")) ?? 0
+    return running
+  })
+}
+
+function sampledChart(
+  base: Omit<ReportChart, "categories" | "series">,
+  days: readonly Date[],
+  series: Array<{ name: string; values: number[] }>,
+): ReportChart | null {
+  if (days.length < 2) return null
+  const picks = sampleIndices(days.length)
+  return {
+    ...base,
+    categories: picks.map((i) => format(days[i]!, "d MMM")),
+    series: series.map((s) => ({ name: s.name, values: picks.map((i) => s.values[i] ?? null) })),
+  }
+}
+
+/** Cumulative delivered spend against the straight-line plan. */
+export function spendVsExpectedChart(
+  lines: readonly DeliveryLineSnapshot[],
+  daily: readonly DeliveryDailyPoint[],
+  window: { startDate: string | null; endDate: string | null },
+  title = "Spend vs expected",
+): ReportChart | null {
+  if (daily.length === 0) return null
+  const days = chartDays(daily, window)
+  return sampledChart({ kind: "line", title, numberFormat: "$#,##0" }, days, [
+    { name: "Delivered spend", values: cumulative(daily, days, (p) => p.spend) },
+    { name: "Expected spend", values: expectedSpendCurve(lines, days) },
+  ])
+}
+
+/** Cumulative impressions delivered, the channel's deliverable curve. */
+export function deliverableCurveChart(
+  daily: readonly DeliveryDailyPoint[],
+  window: { startDate: string | null; endDate: string | null },
+  title = "Impressions delivered",
+): ReportChart | null {
+  if (daily.length === 0) return null
+  const days = chartDays(daily, window)
+  return sampledChart({ kind: "line", title, numberFormat: "#,##0" }, days, [
+    { name: "Impressions", values: cumulative(daily, days, (p) => p.impressions) },
+  ])
+}
+
+function lineRow(line: DeliveryLineSnapshot): ReportTableRow {
+  return {
+    name: line.name,
+    budget: money(line.plannedBudget),
+    spend: line.noDeliveryRows ? "No delivery yet" : money(line.spendToDate),
+    impressions: count(line.impressions),
+    clicks: count(line.clicks),
+    ctr: ratio(line.ctr),
+    cpm: money(line.cpm),
+  }
+}
+
+/**
+ * Template data for the repeating parts of the performance deck:
+ * - `{{#each channels}}` slides with `item.*` tokens, an `item.lines` table
+ *   and `item.spendCurve` / `item.deliverableCurve` charts;
+ * - a deck-level `channels` table and `spendVsExpected` / `channelSpend` charts.
+ * Channels are ordered by delivered spend; every channel gets a slide.
+ */
+export function buildReportSections(args: {
+  channels: readonly DeliveryChannelGroup[]
+  daily: readonly DeliveryDailyPoint[]
+  window: { startDate: string | null; endDate: string | null }
+}): ReportTemplateData {
+  const channels = [...args.channels].sort((a, b) => b.totals.spendToDate - a.totals.spendToDate)
+  const totalSpend = channels.reduce((sum, ch) => sum + ch.totals.spendToDate, 0)
+  const share = (ch: DeliveryChannelGroup) =>
+    totalSpend > 0 ? `${Math.round((ch.totals.spendToDate / totalSpend) * 100)}%` : "—"
+
+  const items = channels.map((ch): ReportTemplateScope => {
+    const name = deliveryGroupLabel(ch.group)
+    const daily = args.daily.filter((p) => p.group === ch.group)
+    return {
+      tokens: {
+        name,
+        spend: money(ch.totals.spendToDate),
+        budget: money(ch.totals.plannedBudget),
+        share: share(ch),
+        impressions: count(ch.totals.impressions),
+        clicks: count(ch.totals.clicks),
+        ctr: ratio(ch.totals.ctr),
+        cpm: money(ch.totals.cpm),
+        lineCount: String(ch.lines.length),
+      },
+      tables: {
+        lines: [...ch.lines].sort((a, b) => b.spendToDate - a.spendToDate).map(lineRow),
+      },
+      charts: {
+        spendCurve: spendVsExpectedChart(ch.lines, daily, args.window, `${name}: spend vs expected`),
+        deliverableCurve: deliverableCurveChart(daily, args.window, `${name}: impressions delivered`),
+      },
+    }
+  })
+
+  const channelSpend: ReportChart | null =
+    channels.length > 0
+      ? {
+          kind: "bar",
+          title: "Spend by channel",
+          numberFormat: "$#,##0",
+          categories: channels.map((ch) => deliveryGroupLabel(ch.group)),
+          series: [
+            { name: "Delivered", values: channels.map((ch) => ch.totals.spendToDate) },
+            { name: "Planned budget", values: channels.map((ch) => ch.totals.plannedBudget) },
+          ],
+        }
+      : null
+
+  return {
+    tables: {
+      channels: channels.map((ch) => ({
+        name: deliveryGroupLabel(ch.group),
+        spend: money(ch.totals.spendToDate),
+        share: share(ch),
+        impressions: count(ch.totals.impressions),
+        clicks: count(ch.totals.clicks),
+        ctr: ratio(ch.totals.ctr),
+      })),
+    },
+    charts: {
+      spendVsExpected: spendVsExpectedChart(
+        channels.flatMap((ch) => ch.lines),
+        args.daily,
+        args.window,
+      ),
+      channelSpend,
+    },
+    collections: { channels: items },
+  }
+}
@@ -0,0 +1,95 @@
+import fs from "node:fs"
+import path from "node:path"
+
+import { slugifyClientNameForUrl } from "@/lib/clients/slug"
+import { performanceReportTemplatePath } from "@/lib/reports/buildPerformanceReport"
+
+/**
+ * Performance report templates. The house deck is always available; branded
+ * decks live at `lib/reports/assets/templates/<client-slug>/<id>.pptx`, each
+ * with an optional `<id>.json` manifest `{ "label": "...", "palette": ["RRGGBB", ...] }`.
+ * Dropping a file in is enough — no code change per client.
+ */
+export type ReportTemplate = {
+  id: string
+  label: string
+  /** Null for the house template. */
+  clientSlug: string | null
+  path: string
+  palette?: string[]
+}
+
+export const HOUSE_TEMPLATE_ID = "house"
+
+const TEMPLATE_ID_RE = /^[a-z0-9][a-z0-9_-]*$/
+const HEX_COLOUR_RE = /^[0-9A-Fa-f]{6}$/
+
+export function reportTemplatesDir(cwd = process.cwd()): string {
+  return path.join(cwd, "lib", "reports", "assets", "templates")
+}
+
+function readManifest(file: string): { label?: string; palette?: string[] } {
+  try {
+    const raw = JSON.parse(fs.readFileSync(file, "utf8")) as { label?: unknown; palette?: unknown }
+    const palette = Array.isArray(raw.palette)
+      ? raw.palette.filter((c): c is string => typeof c === "string" && HEX_COLOUR_RE.test(c))
+      : []
+    return {
+      label: typeof raw.label === "string" && raw.label.trim() ? raw.label.trim() : undefined,
+      palette: palette.length > 0 ? palette : undefined,
+    }
+  } catch {
+    return {}
+  }
+}
+
+/** The client's branded templates (a "default" id first), then the house template. */
+export function listReportTemplates(clientName: string | null, cwd = process.cwd()): ReportTemplate[] {
+  const house: ReportTemplate = {
+    id: HOUSE_TEMPLATE_ID,
+    label: "House template",
+    clientSlug: null,
+    path: performanceReportTemplatePath(cwd),
+  }
+  // The slug becomes a directory name, so only plain slugs are looked up.
+  const slug = slugifyClientNameForUrl(clientName)
+  if (!slug || !TEMPLATE_ID_RE.test(slug)) return [house]
+
+  const dir = path.join(reportTemplatesDir(cwd), slug)
+  let files: string[]
+  try {
+    files = fs.readdirSync(dir)
+  } catch {
+    return [house]
+  }
+
+  const branded = files
+    .filter((file) => file.endsWith(".pptx"))
+    .map((file) => file.slice(0, -".pptx".length))
+    .filter((id) => TEMPLATE_ID_RE.test(id) && id !== HOUSE_TEMPLATE_ID)
+    .sort((a, b) => Number(b === "default") - Number(a === "default") || a.localeCompare(b))
+    .map((id): ReportTemplate => {
+      const manifest = readManifest(path.join(dir, `${id}.json`))
+      return {
+        id,
+        label: manifest.label ?? id.replace(/[-_]+/g, " "),
+        clientSlug: slug,
+        path: path.join(dir, `${id}.pptx`),
+        palette: manifest.palette,
+      }
+    })
+  return [...branded, house]
+}
+
+/**
+ * The requested template when it exists for this client, otherwise the
+ * client's default branded deck, otherwise the house template.
+ */
+export function resolveReportTemplate(
+  clientName: string | null,
+  templateId?: string | null,
+  cwd = process.cwd(),
+): ReportTemplate {
+  const templates = listReportTemplates(clientName, cwd)
+  return templates.find((t) => templateId && t.id === templateId) ?? templates[0]!
+}
@@ -0,0 +1,120 @@
+import "server-only"
+
+import { fetchAllXanoPages } from "@/lib/api/xanoPagination"
+import { xanoMediaPlansUrl } from "@/lib/api/xanoClients"
+import { normalizeDateToMelbourneISO } from "@/lib/dates/normalizeCampaignDateISO"
+import { loadDeliverySnapshot } from "@/lib/delivery/loadDeliverySnapshot"
+import { buildPerformanceReport } from "@/lib/reports/buildPerformanceReport"
+import { buildPerformanceReportHardNumbers } from "@/lib/reports/performanceReportHardNumbers"
+import { buildReportSections } from "@/lib/reports/reportSections"
+import { resolveReportTemplate } from "@/lib/reports/reportTemplates"
+import {
+  buildScheduledReportPayload,
+  ctrTargetFromKpis,
+  periodOverlapsFlight,
+  scheduledReportFileName,
+  type PerformanceReportSchedule,
+  type ReportPeriod,
+  type StoredPerformanceReport,
+} from "@/lib/reports/scheduledReports"
+import { storePerformanceReport } from "@/lib/reports/storePerformanceReport"
+import { expectedSpendToDateFromDeliveryScheduleMonthly } from "@/lib/spend/monthlyPlanCalendar"
+import { fetchCampaignKpisForMbas } from "@/lib/xano/campaignKpi"
+import { createPerformanceReport } from "@/lib/xano/performanceReports"
+
+export type ScheduledReportRun =
+  | { status: "generated"; report: StoredPerformanceReport }
+  | { status: "skipped"; reason: "no_plan_version" | "not_in_flight" }
+
+/** Latest media_plan_versions row for an MBA, schedules included. */
+async function fetchLatestVersion(mbaNumber: string): Promise<Record<string, unknown> | null> {
+  const rows = await fetchAllXanoPages(
+    xanoMediaPlansUrl("media_plan_versions"),
+    { mba_number: mbaNumber },
+    "REPORTS_latest_version",
+    100,
+    20,
+  )
+  let latest: Record<string, unknown> | null = null
+  for (const raw of rows) {
+    const row = raw as Record<string, unknown>
+    if (String(row.mba_number ?? "").trim() !== mbaNumber) continue
+    if (!latest || Number(row.version_number) > Number(latest.version_number)) latest = row
+  }
+  return latest
+}
+
+/**
+ * Build, store and record one scheduled report. Throws on Snowflake, Blob or
+ * Xano failures so the cron can record the error and retry on its next run.
+ */
+export async function runScheduledReport(
+  schedule: PerformanceReportSchedule,
+  period: ReportPeriod,
+): Promise<ScheduledReportRun> {
+  const mbaNumber = schedule.mba_number
+  const version = await fetchLatestVersion(mbaNumber)
+  if (!version) return { status: "skipped", reason: "no_plan_version" }
+
+  const versionNumber = Number(version.version_number) || undefined
+  const flightStart = normalizeDateToMelbourneISO(version.campaign_start_date || version.mp_campaigndates_start)
+  const flightEnd = normalizeDateToMelbourneISO(version.campaign_end_date || version.mp_campaigndates_end)
+  if (!periodOverlapsFlight(period, flightStart, flightEnd)) {
+    return { status: "skipped", reason: "not_in_flight" }
+  }
+  // Report "to date" as at the period end, not the day the cron happens to run.
+  const asAt = flightEnd && flightEnd < period.endDate ? flightEnd : period.endDate
+
+  const [snapshot, kpiRows] = await Promise.all([
+    loadDeliverySnapshot({ mbaNumber, versionNumber, endDate: asAt }),
+    versionNumber
+      ? fetchCampaignKpisForMbas({ mbaVersionPairs: [{ mbaNumber, versionNumber }] })
+      : Promise.resolve([]),
+  ])
+
+  // Capping the campaign end at the period end also caps the as-at date.
+  const plannedToDate = flightStart
+    ? expectedSpendToDateFromDeliveryScheduleMonthly(version.deliverySchedule ?? version.delivery_schedule, {
+        campaignStartISO: flightStart,
+        campaignEndISO: asAt,
+      })
+    : 0
+  const hard = buildPerformanceReportHardNumbers({
+    totals: snapshot.planTotals,
+    plannedToDate: plannedToDate > 0 ? plannedToDate : null,
+  })
+
+  const payload = buildScheduledReportPayload({
+    period,
+    cadence: schedule.cadence,
+    channels: snapshot.channels,
+    totals: snapshot.planTotals,
+    hard,
+    ctrTarget: ctrTargetFromKpis(kpiRows),
+  })
+  const clientName = schedule.client_name || String(version.mp_client_name ?? version.client_name ?? "")
+  const template = resolveReportTemplate(clientName, schedule.template_id)
+  const buffer = await buildPerformanceReport(payload, {
+    templatePath: template.path,
+    palette: template.palette,
+    sections: buildReportSections(snapshot),
+  })
+  const stored = await storePerformanceReport(
+    mbaNumber,
+    scheduledReportFileName(clientName, mbaNumber, period),
+    buffer,
+  )
+
+  const report = await createPerformanceReport({
+    mba_number: mbaNumber,
+    schedule_id: schedule.id,
+    cadence: schedule.cadence,
+    period_key: period.key,
+    period_label: period.label,
+    period_start: period.startDate,
+    period_end: period.endDate,
+    filename: stored.filename,
+    pathname: stored.pathname,
+  })
+  return { status: "generated", report }
+}
@@ -0,0 +1,294 @@
+import * as z from "zod"
+import {
+  addDays,
+  addMonths,
+  endOfMonth,
+  format,
+  getISOWeek,
+  getISOWeekYear,
+  parseISO,
+  startOfISOWeek,
+  startOfMonth,
+  subDays,
+  subMonths,
+} from "date-fns"
+
+import type { DeliveryChannelGroup } from "@/lib/ava/tools/summaries"
+import { normaliseRatioTarget } from "@/lib/kpi/normaliseRatioTarget"
+import type { PerformanceReportPayload } from "@/lib/reports/buildPerformanceReport"
+import { clip, MAX_CHANNEL_LINES, type HardNumberFigures } from "@/lib/reports/performanceReportHardNumbers"
+import { deliveryGroupLabel } from "@/lib/reports/reportSections"
+
+/**
+ * Scheduled client performance reports. The performance-reports cron picks up
+ * each enabled schedule once per completed period and fills the same PPTX
+ * template as the AVA tool — hard numbers from reconciled delivery, narrative
+ * assembled here from the snapshot and KPI targets (never free-text money).
+ */
+export const REPORT_CADENCES = ["weekly", "monthly"] as const
+
+export type ReportCadence = (typeof REPORT_CADENCES)[number]
+
+export const REPORT_CADENCE_LABELS: Record<ReportCadence, string> = {
+  weekly: "Weekly",
+  monthly: "Monthly",
+}
+
+/** Xano `performance_report_schedule` row — at most one per MBA. */
+export type PerformanceReportSchedule = {
+  id: number
+  created_at?: number
+  mba_number: string
+  client_name: string
+  cadence: ReportCadence
+  enabled: boolean
+  /** Branded template id for the client (see reportTemplates); "" uses the client default. */
+  template_id: string
+  /** Period key of the last report generated (or skipped), e.g. "2026-09" / "2026-W41". */
+  last_period_key: string
+  last_run_at: number
+  last_error: string
+}
+
+export type PerformanceReportScheduleInput = Pick<
+  PerformanceReportSchedule,
+  "client_name" | "cadence" | "enabled" | "template_id"
+>
+
+export const performanceReportScheduleInputSchema = z.object({
+  client_name: z.string().trim().default(""),
+  cadence: z.enum(REPORT_CADENCES),
+  enabled: z.boolean().default(true),
+  template_id: z.string().trim().default(""),
+})
+
+/** Xano `performance_report` row: a generated deck stored in Blob. */
+export type StoredPerformanceReport = {
+  id: number
+  created_at?: number
+  mba_number: string
+  schedule_id: number
+  cadence: ReportCadence
+  period_key: string
+  period_label: string
+  period_start: string
+  period_end: string
+  filename: string
+  pathname: string
+}
+
+export type StoredPerformanceReportInput = Omit<StoredPerformanceReport, "id" | "created_at">
+
+export type ReportPeriod = {
+  key: string
+  label: string
+  /** Inclusive YYYY-MM-DD bounds. */
+  startDate: string
+  endDate: string
+}
+
+function ymd(date: Date): string {
+  return format(date, "yyyy-MM-dd")
+}
+
+/**
+ * The most recent fully elapsed period as of `today` (Melbourne YYYY-MM-DD):
+ * the previous Monday–Sunday week, or the previous calendar month.
+ */
+export function lastCompletedPeriod(cadence: ReportCadence, today: string): ReportPeriod {
+  const now = parseISO(today)
+  if (cadence === "weekly") {
+    const start = subDays(startOfISOWeek(now), 7)
+    const end = addDays(start, 6)
+    return {
+      key: `${getISOWeekYear(start)}-W${String(getISOWeek(start)).padStart(2, "0")}`,
+      label: `week to ${format(end, "d MMM yyyy")}`,
+      startDate: ymd(start),
+      endDate: ymd(end),
+    }
+  }
+  const start = startOfMonth(subMonths(now, 1))
+  return {
+    key: format(start, "yyyy-MM"),
+    label: format(start, "MMMM yyyy"),
+    startDate: ymd(start),
+    endDate: ymd(endOfMonth(start)),
+  }
+}
+
+/** First day the following period's report can run. */
+export function nextReportDate(cadence: ReportCadence, period: ReportPeriod): string {
+  const end = parseISO(period.endDate)
+  return ymd(cadence === "weekly" ? addDays(end, 8) : addDays(endOfMonth(addMonths(end, 1)), 1))
+}
+
+export function isScheduleDue(schedule: PerformanceReportSchedule, period: ReportPeriod): boolean {
+  return schedule.enabled && schedule.last_period_key !== period.key
+}
+
+/** False when the flight ends before the period or starts after it. */
+export function periodOverlapsFlight(
+  period: ReportPeriod,
+  flightStart: string | null,
+  flightEnd: string | null,
+): boolean {
+  if (flightStart && flightStart > period.endDate) return false
+  if (flightEnd && flightEnd < period.startDate) return false
+  return true
+}
+
+/**
+ * One blended CTR target for the campaign: the mean of the line-item targets
+ * that set one (ratio form), or null when none do.
+ */
+export function ctrTargetFromKpis(rows: ReadonlyArray<{ ctr: number | null }>): number | null {
+  const targets = rows
+    .map((row) => Number(row.ctr))
+    .filter((ctr) => Number.isFinite(ctr) && ctr > 0)
+    .map(normaliseRatioTarget)
+  if (targets.length === 0) return null
+  return targets.reduce((sum, ctr) => sum + ctr, 0) / targets.length
+}
+
+export type ScheduledReportInput = {
+  period: ReportPeriod
+  cadence: ReportCadence
+  channels: readonly DeliveryChannelGroup[]
+  totals: DeliveryChannelGroup["totals"]
+  hard: HardNumberFigures
+  /** Blended CTR target as a ratio (see ctrTargetFromKpis). */
+  ctrTarget: number | null
+}
+
+/** Pace bands for the narrative; within ±10% of planned to date is on pace. */
+function paceBand(pacePct: number | null): "behind" | "on" | "ahead" | null {
+  if (pacePct == null) return null
+  if (pacePct < 90) return "behind"
+  if (pacePct > 110) return "ahead"
+  return "on"
+}
+
+function pct(ratio: number, digits = 1): string {
+  return `${(ratio * 100).toFixed(digits)}%`
+}
+
+const CHANNEL_PLACEHOLDER = "No channels in market this period."
+
+/**
+ * Assemble the full template payload for a scheduled run. Field caps match the
+ * generate_performance_report tool; all money stays in the injected hard numbers.
+ */
+export function buildScheduledReportPayload(input: ScheduledReportInput): PerformanceReportPayload {
+  const { period, hard, totals, ctrTarget } = input
+  const pace = paceBand(hard.reconciled.pacePct)
+  const spend = totals.spendToDate
+  const active = [...input.channels]
+    .filter((ch) => ch.totals.spendToDate > 0 || ch.totals.impressions > 0)
+    .sort((a, b) => b.totals.spendToDate - a.totals.spendToDate)
+
+  const channelLine = (ch: DeliveryChannelGroup): string => {
+    const share = spend > 0 ? `${pct(ch.totals.spendToDate / spend, 0)} of spend` : "no spend yet"
+    const ctr = ch.totals.ctr != null ? `, CTR ${pct(ch.totals.ctr, 2)}` : ""
+    return clip(`${deliveryGroupLabel(ch.group)}: ${share}${ctr}.`, 90)
+  }
+  const channelLines = active.slice(0, MAX_CHANNEL_LINES).map(channelLine)
+  if (channelLines.length === 0) channelLines.push(CHANNEL_PLACEHOLDER)
+
+  const paceText =
+    pace == null
+      ? "spend pace unavailable"
+      : `spend ${pace === "on" ? "on pace" : `${pace} pace`} at ${hard.reconciled.pacePct!.toFixed(1)}% of plan to date`
+  const execSummary = clip(
+    `${period.label[0]!.toUpperCase()}${period.label.slice(1)}: ${paceText} across ${active.length} channel${active.length === 1 ? "" : "s"}.`,
+    120,
+  )
+
+  const ctr = totals.ctr
+  const belowTarget = ctr != null && ctrTarget != null && ctr < ctrTarget
+  const ctrVsTarget =
+    ctr == null
+      ? "CTR is not yet measurable."
+      : ctrTarget == null
+        ? `Blended CTR is ${pct(ctr, 2)}; no CTR KPI target is set.`
+        : `Blended CTR of ${pct(ctr, 2)} is ${belowTarget ? "below" : "at or above"} the ${pct(ctrTarget, 2)} KPI target.`
+  const top = active[0]
+  const keyInsight = clip(
+    top && spend > 0
+      ? `${ctrVsTarget} ${deliveryGroupLabel(top.group)} carries ${pct(top.totals.spendToDate / spend, 0)} of delivered spend.`
+      : ctrVsTarget,
+    240,
+  )
+
+  const bestCtr = active
+    .filter((ch) => ch.totals.ctr != null && ch.totals.impressions >= 1000)
+    .sort((a, b) => (b.totals.ctr ?? 0) - (a.totals.ctr ?? 0))[0]
+  const idleLines = input.channels.reduce(
+    (n, ch) => n + ch.lines.filter((line) => line.noDeliveryRows).length,
+    0,
+  )
+  const insights: PerformanceReportPayload["insights"] = [
+    clip(
+      pace == null
+        ? "Planned spend to date is unavailable, so pacing cannot be assessed."
+        : pace === "on"
+          ? "Spend is tracking within 10% of plan to date."
+          : `Spend is ${pace === "behind" ? "behind" : "ahead of"} plan to date by more than 10%.`,
+      110,
+    ),
+    clip(
+      bestCtr
+        ? `${deliveryGroupLabel(bestCtr.group)} leads engagement with a ${pct(bestCtr.totals.ctr!, 2)} CTR.`
+        : "Channel CTR comparison needs more delivered impressions.",
+      110,
+    ),
+    clip(
+      idleLines > 0
+        ? `${idleLines} line item${idleLines === 1 ? " shows" : "s show"} no delivery yet; check trafficking.`
+        : "All line items are recording delivery.",
+      110,
+    ),
+  ]
+
+  const recsInFlight = clip(
+    pace === "behind"
+      ? "Lift bids or budgets on under-pacing lines to recover planned delivery."
+      : pace === "ahead"
+        ? "Ease spend on over-pacing lines to hold budget through the flight."
+        : pace === "on"
+          ? "Hold current settings; delivery is tracking to plan."
+          : "Confirm planned spend to date so pacing can be assessed.",
+    140,
+  )
+  const recsNextPeriod = clip(
+    belowTarget
+      ? "Refresh creative and tighten targeting on low-CTR placements to close the KPI gap."
+      : bestCtr
+        ? `Weight budget toward ${deliveryGroupLabel(bestCtr.group)} where inventory allows.`
+        : "Keep the current channel mix while delivery builds.",
+    140,
+  )
+
+  const next = format(parseISO(nextReportDate(input.cadence, period)), "d MMM yyyy")
+  return {
+    execSummary,
+    deliverySpend: hard.deliverySpend,
+    deliveryDeliverables: hard.deliveryDeliverables,
+    channels: channelLines,
+    kpis: hard.kpis,
+    keyInsight,
+    insights,
+    recsInFlight,
+    recsNextPeriod,
+    steps: [
+      { when: "Now", what: "Review this report with the team" },
+      { when: "This week", what: "Apply in-flight optimisations" },
+      { when: "Mid-period", what: "Check pacing and KPI movement" },
+      { when: next, what: "Next scheduled report" },
+    ],
+  }
+}
+
+/** Deck file name, matching the AVA tool's `<client> <mba> performance report <period>`. */
+export function scheduledReportFileName(clientName: string, mbaNumber: string, period: ReportPeriod): string {
+  return `${[clientName.trim(), mbaNumber].filter(Boolean).join(" ")} performance report ${period.label}.pptx`
+}
@@ -0,0 +1,109 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+import {
+  applyChangeRequestUpdate,
+  changeRequestTotal,
+  extractLineItemsFromScopeChangeRequests,
+  nextChangeRequestNumber,
+  parseScopeChangeRequests,
+  proposeChangeRequestLines,
+  type ScopeChangeRequest,
+} from "@/lib/scopes/changeRequests"
+import { buildScopeBurnDown, scopeCostLines } from "@/lib/scopes/timeTracking"
+
+function request(patch: Partial<ScopeChangeRequest>): ScopeChangeRequest {
+  return {
+    number: "SOW-12-CR1",
+    status: "draft",
+    reason: "Extra reporting cadence",
+    billing_month: null,
+    lines: [{ expense_category: "Reporting", description: "Weekly reports", amount: 900 }],
+    created_at: "2026-03-02",
+    created_by: "Sam",
+    ...patch,
+  }
+}
+
+test("parseScopeChangeRequests: reads the JSON column and drops malformed entries", () => {
+  const raw = JSON.stringify([
+    request({ lines: [{ expense_category: "Reporting", description: "", amount: "$1,200.50" as unknown as number }] }),
+    { number: "SOW-12-CR2", reason: "", lines: [] },
+    "nonsense",
+  ])
+  const parsed = parseScopeChangeRequests(raw)
+  assert.equal(parsed.length, 1)
+  assert.equal(parsed[0].lines[0].amount, 1_200.5)
+  assert.deepEqual(parseScopeChangeRequests(undefined), [])
+})
+
+test("nextChangeRequestNumber: continues from the highest existing number", () => {
+  assert.equal(nextChangeRequestNumber("SOW-12", []), "SOW-12-CR1")
+  const existing = [request({ number: "SOW-12-CR1" }), request({ number: "SOW-12-CR3" })]
+  assert.equal(nextChangeRequestNumber("SOW-12", existing), "SOW-12-CR4")
+})
+
+test("applyChangeRequestUpdate: draft → sent → approved/rejected only, and approved is final", () => {
+  const sent = applyChangeRequestUpdate(request({}), { status: "sent", billing_month: "2026-04" })
+  assert.deepEqual(sent.ok && [sent.request.status, sent.request.billing_month], ["sent", "2026-04"])
+
+  assert.equal(applyChangeRequestUpdate(request({}), { status: "approved", billing_month: "2026-04" }).ok, false)
+  assert.equal(applyChangeRequestUpdate(request({ status: "sent" }), { status: "draft" }).ok, false)
+  assert.equal(applyChangeRequestUpdate(request({ status: "sent" }), { status: "approved" }).ok, false)
+  assert.equal(applyChangeRequestUpdate(request({ status: "sent" }), { status: "rejected" }).ok, true)
+
+  const approved = request({ status: "approved", billing_month: "2026-04" })
+  assert.equal(applyChangeRequestUpdate(approved, { status: "approved", billing_month: "2026-05" }).ok, false)
+  assert.equal(applyChangeRequestUpdate(approved, { status: "rejected" }).ok, false)
+  assert.equal(applyChangeRequestUpdate(request({ status: "rejected" }), { status: "sent" }).ok, false)
+})
+
+test("changeRequestTotal: sums lines to the cent", () => {
+  const total = changeRequestTotal(
+    request({
+      lines: [
+        { expense_category: "A", description: "", amount: 0.1 },
+        { expense_category: "B", description: "", amount: 0.2 },
+      ],
+    })
+  )
+  assert.equal(total, 0.3)
+})
+
+test("proposeChangeRequestLines: only categories projected past their quote get a line", () => {
+  const costLines = scopeCostLines([
+    { expense_category: "Strategy", cost: 3_600 },
+    { expense_category: "Reporting", cost: 1_800 },
+  ])
+  const burn = buildScopeBurnDown(costLines, [
+    {
+      id: 1,
+      scope_of_work_id: 12,
+      cost_line_index: 0,
+      expense_category: "Strategy",
+      entry_date: "2026-03-02",
+      hours: 18,
+      hourly_rate: 180,
+      description: "",
+      staff: "",
+      staff_name: "",
+    },
+  ])
+  const lines = proposeChangeRequestLines(burn, { Strategy: 5, Reporting: 4 }, 180)
+  assert.deepEqual(lines, [
+    { expense_category: "Strategy", description: "23 h projected against 20 h quoted", amount: 540 },
+  ])
+})
+
+test("extractLineItemsFromScopeChangeRequests: approved requests for the month only", () => {
+  const requests = [
+    request({ number: "SOW-12-CR1", status: "approved", billing_month: "2026-04" }),
+    request({ number: "SOW-12-CR2", status: "sent", billing_month: "2026-04" }),
+    request({ number: "SOW-12-CR3", status: "approved", billing_month: "2026-05" }),
+  ]
+  const april = extractLineItemsFromScopeChangeRequests(requests, 2026, 4)
+  assert.equal(april.length, 1)
+  assert.equal(april[0].itemCode, "SOW-CR")
+  assert.equal(april[0].description, "SOW-12-CR1: Weekly reports")
+  assert.equal(april[0].amount, 900)
+  assert.equal(extractLineItemsFromScopeChangeRequests(requests, 2026, 6).length, 0)
+})
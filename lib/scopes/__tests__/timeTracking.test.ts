@@ -0,0 +1,146 @@
+import assert from "node:assert/strict"
+import test from "node:test"
+import {
+  DEFAULT_SCOPE_HOURLY_RATE,
+  buildScopeBurnDown,
+  buildScopeBurnDownForScope,
+  scopeBurnAlerts,
+  scopeBurnStatus,
+  scopeCostLines,
+  scopeHourlyRate,
+  scopeTimeEntryInputSchema,
+  type ScopeTimeEntry,
+} from "@/lib/scopes/timeTracking"
+
+const cost = JSON.stringify([
+  { expense_category: "Strategy", description: "Planning workshop", cost: "$3,600.00" },
+  { expense_category: "Reporting", description: "Monthly reports", cost: 1_800 },
+  { expense_category: "strategy ", description: "Channel audit", cost: 1_800 },
+])
+
+let nextId = 1
+function entry(patch: Partial<ScopeTimeEntry>): ScopeTimeEntry {
+  return {
+    id: nextId++,
+    scope_of_work_id: 9,
+    cost_line_index: 0,
+    expense_category: "Strategy",
+    entry_date: "2026-03-02",
+    hours: 1,
+    hourly_rate: 180,
+    description: "",
+    staff: "sam@example.com",
+    staff_name: "Sam",
+    ...patch,
+  }
+}
+
+test("scopeCostLines: parses JSON cost with currency strings and keeps indices", () => {
+  const lines = scopeCostLines(cost)
+  assert.equal(lines.length, 3)
+  assert.equal(lines[0].cost, 3_600)
+  assert.equal(lines[2].index, 2)
+  assert.equal(lines[2].expense_category, "strategy")
+  assert.deepEqual(scopeCostLines(null), [])
+})
+
+test("scopeBurnStatus: warns from 80% and is over once the quote is used up", () => {
+  assert.equal(scopeBurnStatus(79.9), "ok")
+  assert.equal(scopeBurnStatus(80), "warning")
+  assert.equal(scopeBurnStatus(99.9), "warning")
+  assert.equal(scopeBurnStatus(100), "over")
+  assert.equal(scopeBurnStatus(Infinity), "over")
+})
+
+test("buildScopeBurnDown: rolls entries up per category, case-insensitively", () => {
+  const burn = buildScopeBurnDown(scopeCostLines(cost), [
+    entry({ hours: 20 }),
+    entry({ hours: 4, expense_category: "STRATEGY", entry_date: "2026-03-03" }),
+    entry({ hours: 19, cost_line_index: 1, expense_category: "Reporting", entry_date: "2026-03-03" }),
+  ])
+  assert.deepEqual(
+    burn.categories.map((c) => c.category),
+    ["Strategy", "Reporting"]
+  )
+  const strategy = burn.categories[0]
+  assert.equal(strategy.quoted, 5_400)
+  assert.equal(strategy.quotedHours, 30)
+  assert.equal(strategy.hours, 24)
+  assert.equal(strategy.consumed, 4_320)
+  assert.equal(strategy.consumedPct, 80)
+  assert.equal(strategy.status, "warning")
+
+  const reporting = burn.categories[1]
+  assert.equal(reporting.remaining, -1_620)
+  assert.equal(reporting.status, "over")
+
+  assert.equal(burn.total.quoted, 7_200)
+  assert.equal(burn.total.hours, 43)
+})
+
+test("buildScopeBurnDown: series accumulates one point per day", () => {
+  const burn = buildScopeBurnDown(scopeCostLines(cost), [
+    entry({ hours: 2, entry_date: "2026-03-03" }),
+    entry({ hours: 1, entry_date: "2026-03-02" }),
+    entry({ hours: 3, entry_date: "2026-03-03", hourly_rate: 200 }),
+  ])
+  assert.deepEqual(burn.series, [
+    { date: "2026-03-02", hours: 1, consumed: 180, remaining: 7_020 },
+    { date: "2026-03-03", hours: 6, consumed: 1_140, remaining: 6_060 },
+  ])
+})
+
+test("buildScopeBurnDown: time against a category no longer quoted is unquoted and over", () => {
+  const burn = buildScopeBurnDown(scopeCostLines(cost), [entry({ expense_category: "Creative", hours: 2 })])
+  const creative = burn.categories.find((c) => c.category === "Creative")
+  assert.ok(creative)
+  assert.equal(creative.quoted, 0)
+  assert.equal(creative.consumedPct, Infinity)
+  assert.equal(creative.status, "over")
+})
+
+test("buildScopeBurnDownForScope: quoted hours use the scope's hourly rate", () => {
+  const burn = buildScopeBurnDownForScope({ cost, hourly_rate: 240 }, [entry({ hours: 3, hourly_rate: 240 })])
+  assert.equal(burn.total.quotedHours, 30)
+  assert.equal(burn.total.consumed, 720)
+  assert.equal(buildScopeBurnDownForScope({ cost }, []).total.quotedHours, 40)
+})
+
+test("scopeBurnAlerts: one alert per flagged category, worst first", () => {
+  const burn = buildScopeBurnDown(scopeCostLines(cost), [
+    entry({ hours: 24 }),
+    entry({ hours: 11, cost_line_index: 1, expense_category: "Reporting" }),
+    entry({ hours: 1, expense_category: "Creative" }),
+  ])
+  const alerts = scopeBurnAlerts(burn)
+  assert.deepEqual(
+    alerts.map((a) => [a.category, a.status]),
+    [
+      ["Creative", "over"],
+      ["Reporting", "over"],
+      ["Strategy", "warning"],
+    ]
+  )
+  assert.match(alerts[0].message, /unquoted time/)
+  assert.match(alerts[1].message, /is over its .* quote by .*\(110%\)/)
+  assert.match(alerts[2].message, /has used 80% of its/)
+})
+
+test("scopeTimeEntryInputSchema: rejects zero and over-long entries", () => {
+  const base = { cost_line_index: 0, entry_date: "2026-03-02", hourly_rate: 180 }
+  assert.equal(scopeTimeEntryInputSchema.safeParse({ ...base, hours: 0 }).success, false)
+  assert.equal(scopeTimeEntryInputSchema.safeParse({ ...base, hours: 25 }).success, false)
+  assert.equal(scopeTimeEntryInputSchema.safeParse({ ...base, entry_date: "2/3/2026", hours: 1 }).success, false)
+  const ok = scopeTimeEntryInputSchema.safeParse({ ...base, hours: 7.5 })
+  assert.ok(ok.success)
+  assert.equal(ok.data.description, "")
+  assert.equal("hourly_rate" in ok.data, false)
+})
+
+test("scopeHourlyRate: the scope's rate, else the default", () => {
+  assert.equal(scopeHourlyRate({ hourly_rate: 210 }), 210)
+  assert.equal(scopeHourlyRate({ hourly_rate: "195.5" }), 195.5)
+  assert.equal(scopeHourlyRate({ hourly_rate: null }), DEFAULT_SCOPE_HOURLY_RATE)
+  assert.equal(scopeHourlyRate({ hourly_rate: 0 }), DEFAULT_SCOPE_HOURLY_RATE)
+  assert.equal(scopeHourlyRate(null), DEFAULT_SCOPE_HOURLY_RATE)
+})
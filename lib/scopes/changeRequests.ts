@@ -0,0 +1,178 @@
+import * as z from "zod"
+
+import { parseScopeJSON } from "@/lib/finance/scopeScheduleExtract"
+import { parseBillingScheduleAmount, type FinanceLineItem } from "@/lib/finance/utils"
+
+import type { ScopeBurnDown } from "./timeTracking"
+
+/**
+ * Change requests re-quote a scope of work once its time burn outruns the
+ * original quote. They live on the scope row (`change_requests`, a JSON
+ * column like `billing_schedule`) so billing can read them without another
+ * table: an approved request with a billing month adds its lines to that
+ * month's SOW receivable.
+ */
+
+export const SCOPE_CHANGE_REQUEST_STATUSES = ["draft", "sent", "approved", "rejected"] as const
+
+export type ScopeChangeRequestStatus = (typeof SCOPE_CHANGE_REQUEST_STATUSES)[number]
+
+export const SCOPE_CHANGE_REQUEST_ITEM_CODE = "SOW-CR"
+
+const ym = z.string().regex(/^\d{4}-\d{2}$/, "Billing month must be YYYY-MM")
+
+export const scopeChangeRequestLineSchema = z.object({
+  expense_category: z.string().trim().min(1, "Expense category is required").max(120),
+  description: z.string().trim().max(500).default(""),
+  amount: z.number().finite().positive("Amounts must be more than zero"),
+})
+
+export const scopeChangeRequestInputSchema = z.object({
+  reason: z.string().trim().min(1, "Say why the scope needs re-quoting").max(2000),
+  billing_month: ym.nullable().default(null),
+  lines: z.array(scopeChangeRequestLineSchema).min(1, "Add at least one line"),
+})
+
+export const scopeChangeRequestUpdateSchema = z.object({
+  status: z.enum(SCOPE_CHANGE_REQUEST_STATUSES),
+  billing_month: ym.nullable().optional(),
+})
+
+export type ScopeChangeRequestLine = z.infer<typeof scopeChangeRequestLineSchema>
+export type ScopeChangeRequestInput = z.infer<typeof scopeChangeRequestInputSchema>
+export type ScopeChangeRequestUpdate = z.infer<typeof scopeChangeRequestUpdateSchema>
+
+export type ScopeChangeRequest = ScopeChangeRequestInput & {
+  /** `<scope_id>-CR<n>`; also the document and invoice-line reference. */
+  number: string
+  status: ScopeChangeRequestStatus
+  created_at: string
+  created_by: string
+}
+
+/**
+ * Statuses a request may move to next. Approved and rejected are final: an
+ * approved request is already on an invoice, so neither its status nor its
+ * billing month may change.
+ */
+export const SCOPE_CHANGE_REQUEST_TRANSITIONS: Record<ScopeChangeRequestStatus, readonly ScopeChangeRequestStatus[]> = {
+  draft: ["sent"],
+  sent: ["approved", "rejected"],
+  approved: [],
+  rejected: [],
+}
+
+/**
+ * Apply a status / billing-month update, or say why it isn't allowed. A
+ * request keeping its status may only have its billing month changed while it
+ * is still a draft or sent.
+ */
+export function applyChangeRequestUpdate(
+  request: ScopeChangeRequest,
+  update: ScopeChangeRequestUpdate
+): { ok: true; request: ScopeChangeRequest } | { ok: false; error: string } {
+  if (request.status === "approved" || request.status === "rejected") {
+    return { ok: false, error: `${request.number} is ${request.status} and can no longer be changed` }
+  }
+  if (update.status !== request.status && !SCOPE_CHANGE_REQUEST_TRANSITIONS[request.status].includes(update.status)) {
+    return { ok: false, error: `A ${request.status} change request can't be marked ${update.status}` }
+  }
+  const updated: ScopeChangeRequest = {
+    ...request,
+    status: update.status,
+    billing_month: update.billing_month === undefined ? request.billing_month : update.billing_month,
+  }
+  if (updated.status === "approved" && !updated.billing_month) {
+    return { ok: false, error: "Set a billing month before approving" }
+  }
+  return { ok: true, request: updated }
+}
+
+export function changeRequestTotal(request: Pick<ScopeChangeRequest, "lines">): number {
+  return Math.round(request.lines.reduce((sum, line) => sum + line.amount, 0) * 100) / 100
+}
+
+/** The scope's `change_requests` column; malformed entries are dropped. */
+export function parseScopeChangeRequests(raw: unknown): ScopeChangeRequest[] {
+  const parsed = parseScopeJSON(raw)
+  if (!Array.isArray(parsed)) return []
+  const requests: ScopeChangeRequest[] = []
+  for (const item of parsed) {
+    if (!item || typeof item !== "object") continue
+    const row = item as Record<string, unknown>
+    const input = scopeChangeRequestInputSchema.safeParse({
+      reason: row.reason,
+      billing_month: row.billing_month ?? null,
+      lines: Array.isArray(row.lines)
+        ? row.lines.map((line: Record<string, unknown>) => ({
+            ...line,
+            amount: parseBillingScheduleAmount((line?.amount ?? 0) as string | number),
+          }))
+        : [],
+    })
+    const status = SCOPE_CHANGE_REQUEST_STATUSES.find((s) => s === row.status)
+    if (!input.success || !status || typeof row.number !== "string") continue
+    requests.push({
+      ...input.data,
+      number: row.number,
+      status,
+      created_at: String(row.created_at ?? ""),
+      created_by: String(row.created_by ?? ""),
+    })
+  }
+  return requests
+}
+
+export function nextChangeRequestNumber(scopeRef: string, existing: ScopeChangeRequest[]): string {
+  const highest = existing.reduce((max, request) => {
+    const match = /-CR(\d+)$/.exec(request.number)
+    return match ? Math.max(max, Number(match[1])) : max
+  }, 0)
+  return `${scopeRef || "SOW"}-CR${highest + 1}`
+}
+
+/**
+ * Suggested re-quote lines: for each category, what it will have cost once the
+ * estimated hours to complete are added, less what was quoted. Categories that
+ * finish inside their quote get no line.
+ */
+export function proposeChangeRequestLines(
+  burn: ScopeBurnDown,
+  hoursToComplete: Record<string, number>,
+  hourlyRate: number
+): ScopeChangeRequestLine[] {
+  const lines: ScopeChangeRequestLine[] = []
+  for (const category of burn.categories) {
+    const extraHours = Math.max(0, hoursToComplete[category.category] ?? 0)
+    const projected = category.consumed + extraHours * hourlyRate
+    const additional = Math.round((projected - category.quoted) * 100) / 100
+    if (additional <= 0) continue
+    const projectedHours = Math.round((category.hours + extraHours) * 100) / 100
+    lines.push({
+      expense_category: category.category,
+      description: `${projectedHours} h projected against ${category.quotedHours} h quoted`,
+      amount: additional,
+    })
+  }
+  return lines
+}
+
+/** Approved change requests billed in `year`/`month`, as SOW receivable lines. */
+export function extractLineItemsFromScopeChangeRequests(
+  changeRequests: unknown,
+  year: number,
+  month: number
+): FinanceLineItem[] {
+  const billingMonth = `${year}-${String(month).padStart(2, "0")}`
+  return parseScopeChangeRequests(changeRequests)
+    .filter((request) => request.status === "approved" && request.billing_month === billingMonth)
+    .flatMap((request) =>
+      request.lines.map((line) => ({
+        itemCode: SCOPE_CHANGE_REQUEST_ITEM_CODE,
+        mediaType: "Scope of Work",
+        description: `${request.number}: ${line.description || line.expense_category}`,
+        amount: line.amount,
+        publisherName: null,
+      }))
+    )
+}
@@ -0,0 +1,233 @@
+import * as z from "zod"
+
+import { parseScopeJSON } from "@/lib/finance/scopeScheduleExtract"
+import { parseBillingScheduleAmount } from "@/lib/finance/utils"
+import { formatAUD } from "@/lib/format/money"
+
+/**
+ * Time tracking against a scope of work's quote. Staff log hours against one
+ * of the scope's `cost` lines (Xano `scope_time_entries`); burn-down rolls the
+ * entries up per expense category and compares hours and dollars consumed
+ * with what was quoted. Quoted hours are the quoted dollars at the scope's
+ * hourly rate; consumed dollars use the rate the server stamped on each entry
+ * from its scope when it was logged.
+ */
+
+/** Rate for scopes saved before `hourly_rate` was recorded on the scope. */
+export const DEFAULT_SCOPE_HOURLY_RATE = 180
+
+/** The scope's quoted hourly rate, else the default. */
+export function scopeHourlyRate(scope: { hourly_rate?: unknown } | null | undefined): number {
+  const rate = Number(scope?.hourly_rate)
+  return Number.isFinite(rate) && rate > 0 ? rate : DEFAULT_SCOPE_HOURLY_RATE
+}
+
+/** Share of a category's quote at which it is flagged, then treated as over. */
+export const SCOPE_BURN_WARNING_PCT = 80
+export const SCOPE_BURN_LIMIT_PCT = 100
+
+export type ScopeCostLine = {
+  /** Position in the scope's `cost` array; time entries point at it. */
+  index: number
+  expense_category: string
+  description: string
+  cost: number
+}
+
+/** The scope's `cost` column (array or JSON string) as indexed lines. */
+export function scopeCostLines(cost: unknown): ScopeCostLine[] {
+  const parsed = parseScopeJSON(cost)
+  if (!Array.isArray(parsed)) return []
+  return parsed.map((raw, index) => {
+    const item = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {}
+    return {
+      index,
+      expense_category: String(item.expense_category ?? "").trim() || "Uncategorised",
+      description: String(item.description ?? "").trim(),
+      cost: parseBillingScheduleAmount((item.cost ?? item.amount ?? 0) as string | number),
+    }
+  })
+}
+
+const ymd = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD")
+
+export const scopeTimeEntryInputSchema = z.object({
+  cost_line_index: z.number().int().nonnegative("Pick a cost line"),
+  entry_date: ymd,
+  hours: z
+    .number()
+    .finite()
+    .positive("Hours must be more than zero")
+    .max(24, "A single entry can't exceed 24 hours"),
+  description: z.string().trim().max(500).default(""),
+})
+
+export type ScopeTimeEntryInput = z.infer<typeof scopeTimeEntryInputSchema>
+
+/** A stored entry's own fields; the rate is set by the server, never by the caller. */
+export const scopeTimeEntryRowSchema = scopeTimeEntryInputSchema.extend({
+  hourly_rate: z.number().finite().nonnegative("Hourly rate must be zero or more"),
+})
+
+export type ScopeTimeEntry = z.infer<typeof scopeTimeEntryRowSchema> & {
+  id: number
+  created_at?: number
+  scope_of_work_id: number
+  /** Category of the cost line when the entry was logged, so later quote edits don't move it. */
+  expense_category: string
+  staff: string
+  staff_name: string
+}
+
+export type ScopeBurnStatus = "ok" | "warning" | "over"
+
+export type ScopeCategoryBurn = {
+  category: string
+  quoted: number
+  quotedHours: number
+  consumed: number
+  hours: number
+  remaining: number
+  /** Dollars consumed as a % of quoted; Infinity for unquoted work. */
+  consumedPct: number
+  status: ScopeBurnStatus
+}
+
+export type ScopeBurnPoint = { date: string; hours: number; consumed: number; remaining: number }
+
+export type ScopeBurnDown = {
+  categories: ScopeCategoryBurn[]
+  total: ScopeCategoryBurn
+  /** Cumulative consumption by entry date, for the burn-down chart. */
+  series: ScopeBurnPoint[]
+}
+
+export function scopeBurnStatus(consumedPct: number): ScopeBurnStatus {
+  if (consumedPct >= SCOPE_BURN_LIMIT_PCT) return "over"
+  if (consumedPct >= SCOPE_BURN_WARNING_PCT) return "warning"
+  return "ok"
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function categoryKey(category: string): string {
+  return category.trim().toLowerCase()
+}
+
+function summarise(
+  category: string,
+  quoted: number,
+  consumed: number,
+  hours: number,
+  hourlyRate: number
+): ScopeCategoryBurn {
+  const consumedPct = quoted > 0 ? (consumed / quoted) * 100 : consumed > 0 ? Infinity : 0
+  return {
+    category,
+    quoted: round2(quoted),
+    quotedHours: hourlyRate > 0 ? round2(quoted / hourlyRate) : 0,
+    consumed: round2(consumed),
+    hours: round2(hours),
+    remaining: round2(quoted - consumed),
+    consumedPct,
+    status: scopeBurnStatus(consumedPct),
+  }
+}
+
+/**
+ * Quoted vs consumed per expense category, in quote order. Entries whose
+ * category is no longer on the quote still count — as unquoted work, which is
+ * always over.
+ */
+export function buildScopeBurnDown(
+  costLines: ScopeCostLine[],
+  entries: ScopeTimeEntry[],
+  options: { hourlyRate?: number } = {}
+): ScopeBurnDown {
+  const hourlyRate = options.hourlyRate ?? DEFAULT_SCOPE_HOURLY_RATE
+  const buckets = new Map<string, { category: string; quoted: number; consumed: number; hours: number }>()
+  const bucket = (category: string) => {
+    const key = categoryKey(category)
+    let found = buckets.get(key)
+    if (!found) {
+      found = { category, quoted: 0, consumed: 0, hours: 0 }
+      buckets.set(key, found)
+    }
+    return found
+  }
+
+  for (const line of costLines) bucket(line.expense_category).quoted += line.cost
+
+  const sorted = [...entries].sort((a, b) => a.entry_date.localeCompare(b.entry_date) || a.id - b.id)
+  for (const entry of sorted) {
+    const category =
+      entry.expense_category.trim() || costLines[entry.cost_line_index]?.expense_category || "Uncategorised"
+    const target = bucket(category)
+    target.hours += entry.hours
+    target.consumed += entry.hours * entry.hourly_rate
+  }
+
+  const categories = [...buckets.values()].map((b) => summarise(b.category, b.quoted, b.consumed, b.hours, hourlyRate))
+  const totals = [...buckets.values()].reduce(
+    (sum, b) => ({ quoted: sum.quoted + b.quoted, consumed: sum.consumed + b.consumed, hours: sum.hours + b.hours }),
+    { quoted: 0, consumed: 0, hours: 0 }
+  )
+
+  const series: ScopeBurnPoint[] = []
+  let hours = 0
+  let consumed = 0
+  for (const entry of sorted) {
+    hours += entry.hours
+    consumed += entry.hours * entry.hourly_rate
+    const point = { date: entry.entry_date, hours: round2(hours), consumed: round2(consumed), remaining: round2(totals.quoted - consumed) }
+    if (series.length > 0 && series[series.length - 1].date === entry.entry_date) {
+      series[series.length - 1] = point
+    } else {
+      series.push(point)
+    }
+  }
+
+  return {
+    categories,
+    total: summarise("Total", totals.quoted, totals.consumed, totals.hours, hourlyRate),
+    series,
+  }
+}
+
+/** Burn-down of a stored scope: its quote, costed at the scope's own hourly rate. */
+export function buildScopeBurnDownForScope(
+  scope: { cost?: unknown; hourly_rate?: unknown },
+  entries: ScopeTimeEntry[]
+): ScopeBurnDown {
+  return buildScopeBurnDown(scopeCostLines(scope.cost), entries, { hourlyRate: scopeHourlyRate(scope) })
+}
+
+export type ScopeBurnAlert = { category: string; status: Exclude<ScopeBurnStatus, "ok">; message: string }
+
+/** One alert per category at or past the warning threshold, worst first. */
+export function scopeBurnAlerts(burn: ScopeBurnDown): ScopeBurnAlert[] {
+  return burn.categories
+    .filter((c) => c.status !== "ok")
+    .sort((a, b) => b.consumedPct - a.consumedPct)
+    .map((c) => {
+      const status = c.status as ScopeBurnAlert["status"]
+      if (c.quoted <= 0) {
+        return { category: c.category, status, message: `${c.category} has ${formatAUD(c.consumed)} of unquoted time` }
+      }
+      const pct = Math.round(c.consumedPct)
+      if (c.remaining < 0) {
+        return {
+          category: c.category,
+          status,
+          message: `${c.category} is over its ${formatAUD(c.quoted)} quote by ${formatAUD(-c.remaining)} (${pct}%)`,
+        }
+      }
+      return {
+        category: c.category,
+        status,
+        message: `${c.category} has used ${pct}% of its ${formatAUD(c.quoted)} quote`,
+      }
+    })
+}
@@ -28,6 +28,9 @@ export type FinanceForecastMonthKey = (typeof FINANCE_FORECAST_FISCAL_MONTH_ORDE
 /** Canonical map type for one financial year of monthly amounts (all twelve slots). */
 export type FinanceForecastMonthlyAmounts = Record<FinanceForecastMonthKey, number>
 
+/** Monthly amounts split by container media type key (e.g. `search`, `television`). */
+export type FinanceForecastMediaTypeMonthly = Record<string, FinanceForecastMonthlyAmounts>
+
 // ---------------------------------------------------------------------------
 // Scenario
 // ---------------------------------------------------------------------------
@@ -136,6 +139,11 @@ export interface FinanceForecastLine {
   line_key: FinanceForecastLineKey
   monthly: FinanceForecastMonthlyAmounts
   fy_total: number
+  /**
+   * Media-derived lines only: the share of `monthly` that came from each media type,
+   * so what-if haircuts can be scoped to a channel. Absent on fee, retainer and scope rows.
+   */
+  monthly_by_media_type?: FinanceForecastMediaTypeMonthly
   source: FinanceForecastLineSource
   debug?: FinanceForecastLineDebug
 }
@@ -201,6 +209,29 @@ export interface FinanceForecastVarianceLine {
   debug?: FinanceForecastLineDebug
 }
 
+/**
+ * One publisher's forecast media and publisher commission by fiscal month — the
+ * per-publisher view of the same billable lines behind the commission rows.
+ */
+export interface FinanceForecastPublisherMedia {
+  /** Xano publisher id when the schedule name resolves to a publisher row. */
+  publisher_id: string | null
+  publisher_name: string
+  media: FinanceForecastMonthlyAmounts
+  commission: FinanceForecastMonthlyAmounts
+  fy_media: number
+  fy_commission: number
+}
+
+/** Media under management for one channel (container media type) across the FY. */
+export interface FinanceForecastChannelMedia {
+  media_type: string
+  /** Media type as written on the billing schedule (e.g. "Digital Display"). */
+  label: string
+  media: FinanceForecastMonthlyAmounts
+  fy_media: number
+}
+
 // ---------------------------------------------------------------------------
 // Raw inputs for transforms (tolerant shapes — no fetch or URL assumptions)
 // ---------------------------------------------------------------------------
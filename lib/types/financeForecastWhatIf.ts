@@ -0,0 +1,116 @@
+/**
+ * What-if scenario model for the Finance Forecast view.
+ *
+ * A what-if scenario is a list of hypothetical adjustments layered on top of the live
+ * (booked) forecast dataset. It never writes to `media_plan_versions` — the adjusted
+ * dataset is recomputed in memory and compared to the baseline with the snapshot
+ * variance engine.
+ *
+ * Not to be confused with `FinanceForecastScenario` (confirmed vs confirmed + probable),
+ * which selects which campaigns feed the baseline in the first place.
+ */
+
+import type {
+  FinanceForecastDataset,
+  FinanceForecastGroupKey,
+  FinanceForecastLineKey,
+  FinanceForecastMonthKey,
+} from "@/lib/types/financeForecast"
+
+// ---------------------------------------------------------------------------
+// Adjustments
+// ---------------------------------------------------------------------------
+
+/**
+ * Scale matching lines by `(1 - pct / 100)`. Omitted / null scope fields match everything,
+ * so `{ client_id: "12", line_key: null }` haircuts every row for client 12.
+ */
+export interface FinanceForecastWhatIfHaircut {
+  kind: "haircut"
+  id: string
+  label?: string
+  client_id?: string | null
+  mba_number?: string | null
+  /** Forecast row category (billing entity or revenue bucket). */
+  line_key?: FinanceForecastLineKey | null
+  /**
+   * Container media type key (e.g. `search`). Only the media type's share of each
+   * media-derived line is cut; fee, retainer and scope rows never match.
+   */
+  media_type?: string | null
+  /** Percentage reduction (e.g. 15 → −15%). Negative values model an uplift. */
+  pct: number
+}
+
+/**
+ * Push every line of one campaign later by whole fiscal months. Amounts shifted past June
+ * fall out of the financial year and are reported on the applied-adjustment summary.
+ */
+export interface FinanceForecastWhatIfDelay {
+  kind: "delay"
+  id: string
+  label?: string
+  mba_number: string
+  months: number
+}
+
+/** A campaign that is not booked yet, spread evenly from `start_month` for `months` slots. */
+export interface FinanceForecastWhatIfHypotheticalCampaign {
+  kind: "hypothetical_campaign"
+  id: string
+  label?: string
+  client_id: string
+  client_name: string
+  line_key: FinanceForecastLineKey
+  start_month: FinanceForecastMonthKey
+  months: number
+  /** Total AUD across the flight (ex GST). */
+  amount: number
+}
+
+export type FinanceForecastWhatIfAdjustment =
+  | FinanceForecastWhatIfHaircut
+  | FinanceForecastWhatIfDelay
+  | FinanceForecastWhatIfHypotheticalCampaign
+
+export type FinanceForecastWhatIfAdjustmentKind = FinanceForecastWhatIfAdjustment["kind"]
+
+// ---------------------------------------------------------------------------
+// Scenario
+// ---------------------------------------------------------------------------
+
+export interface FinanceForecastWhatIfScenario {
+  id: string
+  name: string
+  notes?: string | null
+  /** FY the scenario was authored against; adjustments reference that FY's month slots. */
+  financial_year_start_year: number
+  adjustments: FinanceForecastWhatIfAdjustment[]
+  created_at: string
+  updated_at: string
+}
+
+// ---------------------------------------------------------------------------
+// Results (derived — not persisted)
+// ---------------------------------------------------------------------------
+
+export interface FinanceForecastWhatIfAppliedAdjustment {
+  adjustment_id: string
+  kind: FinanceForecastWhatIfAdjustmentKind
+  /** Logical forecast lines touched (total revenue roll-ups excluded). */
+  affected_line_count: number
+  /**
+   * FY change caused by this adjustment alone, in application order, per group —
+   * billing and revenue measure different things and are never added together.
+   */
+  fy_delta_by_group: Record<FinanceForecastGroupKey, number>
+  /** Delay only: AUD pushed beyond June and therefore out of this FY, per group. */
+  spilled_out_of_fy_by_group?: Record<FinanceForecastGroupKey, number>
+}
+
+export interface FinanceForecastWhatIfResult {
+  scenario_id: string
+  scenario_name: string
+  dataset: FinanceForecastDataset
+  applied: FinanceForecastWhatIfAppliedAdjustment[]
+}
@@ -0,0 +1,191 @@
+import "server-only"
+
+import { parseXanoListPayload, xanoAuthHeaderRecord, xanoPostHeaderRecord, xanoUrl } from "@/lib/api/xano"
+import type { MbaLineApprovalPatchLine } from "@/lib/finance/mbaLineApprovalsClient"
+import {
+  approvalDecisionSchema,
+  approvalLineSchema,
+  type ApprovalLine,
+  type ApprovalRequestStatus,
+  type MbaApprovalDecisionRow,
+  type MbaApprovalRequest,
+} from "@/lib/mediaplan/clientApproval"
+
+const MEDIA_PLANS_KEYS = ["XANO_MEDIA_PLANS_BASE_URL", "XANO_MEDIAPLANS_BASE_URL"] as const
+const REQUESTS_PATH = "mba_approval_requests"
+const DECISIONS_PATH = "mba_approval_decisions"
+const LINE_APPROVALS_PATH = "mba_line_approvals"
+
+const STATUSES: ApprovalRequestStatus[] = ["sent", "responded", "withdrawn"]
+
+export class XanoMbaApprovalError extends Error {
+  readonly status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = "XanoMbaApprovalError"
+    this.status = status
+  }
+}
+
+function parseJsonColumn(value: unknown): unknown {
+  if (typeof value !== "string") return value
+  try {
+    return JSON.parse(value)
+  } catch {
+    return undefined
+  }
+}
+
+function optionalNumber(value: unknown): number | null {
+  const n = typeof value === "number" ? value : Number(value)
+  return value != null && value !== "" && Number.isFinite(n) ? n : null
+}
+
+function toRequest(raw: unknown): MbaApprovalRequest | null {
+  if (!raw || typeof raw !== "object") return null
+  const row = raw as Record<string, unknown>
+  const id = Number(row.id)
+  if (!Number.isFinite(id)) return null
+  const rawLines = parseJsonColumn(row.lines)
+  const lines = (Array.isArray(rawLines) ? rawLines : [])
+    .map((l) => approvalLineSchema.safeParse(l))
+    .filter((r) => r.success)
+    .map((r) => r.data as ApprovalLine)
+  const status = STATUSES.includes(row.status as ApprovalRequestStatus)
+    ? (row.status as ApprovalRequestStatus)
+    : "sent"
+  return {
+    id,
+    created_at: typeof row.created_at === "number" ? row.created_at : undefined,
+    mba_number: String(row.mba_number ?? "").trim(),
+    media_plan_version: Number(row.media_plan_version) || 0,
+    client_slug: String(row.client_slug ?? "").trim(),
+    campaign_name: String(row.campaign_name ?? "").trim(),
+    status,
+    message: String(row.message ?? ""),
+    lines,
+    sent_by_email: String(row.sent_by_email ?? "").trim().toLowerCase(),
+    responded_by_email: row.responded_by_email ? String(row.responded_by_email).trim().toLowerCase() : null,
+    responded_at: optionalNumber(row.responded_at),
+  }
+}
+
+function toDecision(raw: unknown): MbaApprovalDecisionRow | null {
+  if (!raw || typeof raw !== "object") return null
+  const row = raw as Record<string, unknown>
+  const decision = approvalDecisionSchema.safeParse(row.decision)
+  if (!decision.success) return null
+  return {
+    id: Number(row.id),
+    created_at: typeof row.created_at === "number" ? row.created_at : undefined,
+    request_id: Number(row.request_id),
+    mba_number: String(row.mba_number ?? "").trim(),
+    media_plan_version: Number(row.media_plan_version) || 0,
+    line_item_id: String(row.line_item_id ?? ""),
+    media_type: String(row.media_type ?? ""),
+    decision: decision.data,
+    comment: String(row.comment ?? ""),
+    actor_email: String(row.actor_email ?? "").trim().toLowerCase(),
+  }
+}
+
+async function failed(resp: Response, table: string, context: string): Promise<never> {
+  const body = await resp.text().catch(() => "")
+  throw new XanoMbaApprovalError(`Xano ${table} ${context} failed: ${resp.status} ${body}`, resp.status)
+}
+
+/** Newest first. Xano may ignore the query filter, so the MBA is matched here as well. */
+export async function listMbaApprovalRequests(mbaNumber: string): Promise<MbaApprovalRequest[]> {
+  const mba = mbaNumber.trim()
+  const url = `${xanoUrl(REQUESTS_PATH, [...MEDIA_PLANS_KEYS])}?mba_number=${encodeURIComponent(mba)}`
+  const resp = await fetch(url, { headers: xanoAuthHeaderRecord(), cache: "no-store" })
+  if (!resp.ok) await failed(resp, REQUESTS_PATH, "GET")
+  return parseXanoListPayload(await resp.json())
+    .map(toRequest)
+    .filter((r): r is MbaApprovalRequest => r !== null && r.mba_number.toLowerCase() === mba.toLowerCase())
+    .sort((a, b) => (b.created_at ?? 0) - (a.created_at ?? 0) || b.id - a.id)
+}
+
+export async function getMbaApprovalRequest(id: number): Promise<MbaApprovalRequest | null> {
+  const url = `${xanoUrl(REQUESTS_PATH, [...MEDIA_PLANS_KEYS])}/${encodeURIComponent(String(id))}`
+  const resp = await fetch(url, { headers: xanoAuthHeaderRecord(), cache: "no-store" })
+  if (resp.status === 404) return null
+  if (!resp.ok) await failed(resp, REQUESTS_PATH, "GET")
+  return toRequest(await resp.json())
+}
+
+export async function createMbaApprovalRequest(
+  input: Omit<MbaApprovalRequest, "id" | "created_at" | "status" | "responded_by_email" | "responded_at">
+): Promise<MbaApprovalRequest> {
+  const resp = await fetch(xanoUrl(REQUESTS_PATH, [...MEDIA_PLANS_KEYS]), {
+    method: "POST",
+    headers: xanoPostHeaderRecord(),
+    body: JSON.stringify({ ...input, status: "sent", responded_by_email: null, responded_at: null }),
+  })
+  if (!resp.ok) await failed(resp, REQUESTS_PATH, "POST")
+  const request = toRequest(await resp.json())
+  if (!request) throw new XanoMbaApprovalError(`Xano ${REQUESTS_PATH} POST returned an invalid row`, 502)
+  return request
+}
+
+export async function updateMbaApprovalRequest(
+  id: number,
+  patch: Partial<Pick<MbaApprovalRequest, "status" | "responded_by_email" | "responded_at">>
+): Promise<MbaApprovalRequest> {
+  const url = `${xanoUrl(REQUESTS_PATH, [...MEDIA_PLANS_KEYS])}/${encodeURIComponent(String(id))}`
+  const resp = await fetch(url, {
+    method: "PATCH",
+    headers: xanoPostHeaderRecord(),
+    body: JSON.stringify(patch),
+  })
+  if (!resp.ok) await failed(resp, REQUESTS_PATH, "PATCH")
+  const request = toRequest(await resp.json())
+  if (!request) throw new XanoMbaApprovalError(`Xano ${REQUESTS_PATH} PATCH returned an invalid row`, 502)
+  return request
+}
+
+export async function listMbaApprovalDecisions(requestId: number): Promise<MbaApprovalDecisionRow[]> {
+  const url = `${xanoUrl(DECISIONS_PATH, [...MEDIA_PLANS_KEYS])}?request_id=${encodeURIComponent(String(requestId))}`
+  const resp = await fetch(url, { headers: xanoAuthHeaderRecord(), cache: "no-store" })
+  if (!resp.ok) await failed(resp, DECISIONS_PATH, "GET")
+  return parseXanoListPayload(await resp.json())
+    .map(toDecision)
+    .filter((d): d is MbaApprovalDecisionRow => d !== null && d.request_id === requestId)
+}
+
+/** Audit rows are append-only; written one at a time as Xano has no bulk insert here. */
+export async function createMbaApprovalDecisions(
+  rows: Omit<MbaApprovalDecisionRow, "id" | "created_at">[]
+): Promise<MbaApprovalDecisionRow[]> {
+  const out: MbaApprovalDecisionRow[] = []
+  for (const row of rows) {
+    const resp = await fetch(xanoUrl(DECISIONS_PATH, [...MEDIA_PLANS_KEYS]), {
+      method: "POST",
+      headers: xanoPostHeaderRecord(),
+      body: JSON.stringify(row),
+    })
+    if (!resp.ok) await failed(resp, DECISIONS_PATH, "POST")
+    const decision = toDecision(await resp.json())
+    if (decision) out.push(decision)
+  }
+  return out
+}
+
+/** Same upstream contract as `PATCH /api/mba-line-approvals`. */
+export async function patchMbaLineApprovals(params: {
+  mbaNumber: string
+  mediaPlanVersion: number
+  lines: MbaLineApprovalPatchLine[]
+}): Promise<void> {
+  const resp = await fetch(xanoUrl(LINE_APPROVALS_PATH, [...MEDIA_PLANS_KEYS]), {
+    method: "PATCH",
+    headers: xanoPostHeaderRecord(),
+    body: JSON.stringify({
+      mba_number: params.mbaNumber,
+      media_plan_version: params.mediaPlanVersion,
+      lines: params.lines,
+    }),
+  })
+  if (!resp.ok) await failed(resp, LINE_APPROVALS_PATH, "PATCH")
+}
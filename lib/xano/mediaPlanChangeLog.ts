@@ -0,0 +1,117 @@
+import { parseXanoListPayload, xanoAuthHeaderRecord, xanoPostHeaderRecord, xanoUrl } from "@/lib/api/xano";
+import type {
+  MediaPlanChangeLogEntry,
+  MediaPlanChangeLogInput,
+  MediaPlanChangeType,
+} from "@/lib/mediaplan/changeLog";
+
+const MEDIA_PLANS_KEYS = ["XANO_MEDIA_PLANS_BASE_URL", "XANO_MEDIAPLANS_BASE_URL"] as const;
+const CHANGE_LOG_PATH = "media_plan_change_log";
+/** Parallel POSTs per batch; a large save can produce hundreds of rows. */
+const WRITE_BATCH_SIZE = 10;
+
+const CHANGE_TYPES: readonly MediaPlanChangeType[] = [
+  "line_added",
+  "line_removed",
+  "field_change",
+  "burst_added",
+  "burst_removed",
+  "burst_change",
+  "fee_change",
+];
+
+export class XanoMediaPlanChangeLogError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "XanoMediaPlanChangeLogError";
+    this.status = status;
+  }
+}
+
+function toEntry(raw: unknown): MediaPlanChangeLogEntry | null {
+  if (!raw || typeof raw !== "object") return null;
+  const row = raw as Record<string, unknown>;
+  const changeType = CHANGE_TYPES.find((type) => type === row.change_type);
+  if (!changeType) return null;
+  const burstIndex = row.burst_index == null || row.burst_index === "" ? null : Number(row.burst_index);
+  return {
+    id: Number(row.id),
+    created_at: typeof row.created_at === "number" ? row.created_at : undefined,
+    mba_number: String(row.mba_number ?? "").trim(),
+    version_number: Number(row.version_number) || 0,
+    from_version: Number(row.from_version) || 0,
+    media_type: String(row.media_type ?? ""),
+    media_type_label: String(row.media_type_label ?? row.media_type ?? ""),
+    line_item_id: String(row.line_item_id ?? ""),
+    line_item_label: String(row.line_item_label ?? ""),
+    burst_index: burstIndex != null && Number.isFinite(burstIndex) ? burstIndex : null,
+    change_type: changeType,
+    field: String(row.field ?? ""),
+    old_value: String(row.old_value ?? ""),
+    new_value: String(row.new_value ?? ""),
+    changed_by: String(row.changed_by ?? ""),
+    changed_by_name: String(row.changed_by_name ?? row.changed_by ?? ""),
+    changed_at: Number(row.changed_at) || Number(row.created_at) || 0,
+  };
+}
+
+/** Every change-log row for an MBA, oldest first. */
+export async function listMediaPlanChangeLog(mbaNumber: string): Promise<MediaPlanChangeLogEntry[]> {
+  const mba = mbaNumber.trim();
+  const url = `${xanoUrl(CHANGE_LOG_PATH, [...MEDIA_PLANS_KEYS])}?mba_number=${encodeURIComponent(mba)}`;
+  const resp = await fetch(url, { headers: xanoAuthHeaderRecord(), cache: "no-store" });
+  if (!resp.ok) {
+    const body = await resp.text().catch(() => "");
+    throw new XanoMediaPlanChangeLogError(
+      `Xano ${CHANGE_LOG_PATH} GET failed: ${resp.status} ${body}`,
+      resp.status
+    );
+  }
+  // Xano may ignore the query filter; enforce the MBA here as well.
+  return parseXanoListPayload(await resp.json())
+    .map(toEntry)
+    .filter((entry): entry is MediaPlanChangeLogEntry => entry !== null && entry.mba_number === mba)
+    .sort((a, b) => a.changed_at - b.changed_at || a.id - b.id);
+}
+
+async function postEntry(input: MediaPlanChangeLogInput): Promise<boolean> {
+  try {
+    const resp = await fetch(xanoUrl(CHANGE_LOG_PATH, [...MEDIA_PLANS_KEYS]), {
+      method: "POST",
+      headers: xanoPostHeaderRecord(),
+      body: JSON.stringify(input),
+    });
+    if (resp.ok) return true;
+    const body = await resp.text().catch(() => "");
+    console.error("[media-plan-change-log] POST failed", {
+      status: resp.status,
+      body,
+      line_item_id: input.line_item_id,
+      field: input.field,
+    });
+  } catch (error) {
+    console.error("[media-plan-change-log] POST failed", {
+      message: error instanceof Error ? error.message : String(error),
+      line_item_id: input.line_item_id,
+      field: input.field,
+    });
+  }
+  return false;
+}
+
+/**
+ * Write one save's rows. Failed rows are logged and counted rather than thrown:
+ * the plan is already saved, so a partial log beats none.
+ */
+export async function createMediaPlanChangeLogEntries(
+  inputs: MediaPlanChangeLogInput[]
+): Promise<{ attempted: number; succeeded: number }> {
+  let succeeded = 0;
+  for (let i = 0; i < inputs.length; i += WRITE_BATCH_SIZE) {
+    const results = await Promise.all(inputs.slice(i, i + WRITE_BATCH_SIZE).map(postEntry));
+    succeeded += results.filter(Boolean).length;
+  }
+  return { attempted: inputs.length, succeeded };
+}
@@ -0,0 +1,108 @@
+import { parseXanoListPayload, xanoAuthHeaderRecord, xanoPostHeaderRecord, xanoUrl } from "@/lib/api/xano";
+import {
+  namingConventionOverrideSchema,
+  type ClientNamingConventions,
+  type NamingConventionOverride,
+} from "@/lib/naming/clientConventions";
+
+const MEDIA_PLANS_KEYS = ["XANO_MEDIA_PLANS_BASE_URL", "XANO_MEDIAPLANS_BASE_URL"] as const;
+const NAMING_CONVENTIONS_PATH = "naming_convention_overrides";
+
+export class XanoNamingConventionsError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "XanoNamingConventionsError";
+    this.status = status;
+  }
+}
+
+function parseJsonColumn(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Rows whose templates/picklists no longer match the override schema are dropped. */
+function toConventions(raw: unknown): ClientNamingConventions | null {
+  if (!raw || typeof raw !== "object") return null;
+  const row = raw as Record<string, unknown>;
+  const override = namingConventionOverrideSchema.safeParse({
+    templates: parseJsonColumn(row.templates) ?? [],
+    picklists: parseJsonColumn(row.picklists) ?? {},
+    utm: parseJsonColumn(row.utm) ?? undefined,
+  });
+  if (!override.success) return null;
+  return {
+    id: Number(row.id),
+    created_at: typeof row.created_at === "number" ? row.created_at : undefined,
+    client_slug: String(row.client_slug ?? "").trim(),
+    templates: override.data.templates,
+    picklists: override.data.picklists,
+    utm: override.data.utm,
+    updated_by: String(row.updated_by ?? ""),
+    updated_at: Number(row.updated_at) || Number(row.created_at) || 0,
+  };
+}
+
+async function failed(resp: Response, context: string): Promise<never> {
+  const body = await resp.text().catch(() => "");
+  throw new XanoNamingConventionsError(
+    `Xano ${NAMING_CONVENTIONS_PATH} ${context} failed: ${resp.status} ${body}`,
+    resp.status
+  );
+}
+
+/** The client's override row, or null when the client uses the house conventions. */
+export async function getClientNamingConventions(clientSlug: string): Promise<ClientNamingConventions | null> {
+  const slug = clientSlug.trim();
+  if (!slug) return null;
+  const url = `${xanoUrl(NAMING_CONVENTIONS_PATH, [...MEDIA_PLANS_KEYS])}?client_slug=${encodeURIComponent(slug)}`;
+  const resp = await fetch(url, { headers: xanoAuthHeaderRecord(), cache: "no-store" });
+  if (!resp.ok) await failed(resp, "GET");
+  // Xano may ignore the query filter; enforce the client here as well.
+  const rows = parseXanoListPayload(await resp.json())
+    .map(toConventions)
+    .filter((row): row is ClientNamingConventions => row !== null && row.client_slug === slug)
+    .sort((a, b) => b.updated_at - a.updated_at);
+  return rows[0] ?? null;
+}
+
+/** Create or replace the client's override (one row per client). */
+export async function saveClientNamingConventions(
+  clientSlug: string,
+  override: NamingConventionOverride,
+  updatedBy: string
+): Promise<ClientNamingConventions> {
+  const slug = clientSlug.trim();
+  const existing = await getClientNamingConventions(slug);
+  const base = xanoUrl(NAMING_CONVENTIONS_PATH, [...MEDIA_PLANS_KEYS]);
+  const resp = await fetch(existing ? `${base}/${encodeURIComponent(String(existing.id))}` : base, {
+    method: existing ? "PATCH" : "POST",
+    headers: xanoPostHeaderRecord(),
+    body: JSON.stringify({
+      client_slug: slug,
+      templates: override.templates,
+      picklists: override.picklists,
+      utm: override.utm ?? null,
+      updated_by: updatedBy,
+      updated_at: Date.now(),
+    }),
+  });
+  if (!resp.ok) await failed(resp, existing ? "PATCH" : "POST");
+  const saved = toConventions(await resp.json());
+  if (!saved) {
+    throw new XanoNamingConventionsError(`Xano ${NAMING_CONVENTIONS_PATH} save returned an invalid row`, 502);
+  }
+  return saved;
+}
+
+export async function deleteClientNamingConventions(id: number): Promise<void> {
+  const url = `${xanoUrl(NAMING_CONVENTIONS_PATH, [...MEDIA_PLANS_KEYS])}/${encodeURIComponent(String(id))}`;
+  const resp = await fetch(url, { method: "DELETE", headers: xanoAuthHeaderRecord() });
+  if (!resp.ok) await failed(resp, "DELETE");
+}
@@ -0,0 +1,128 @@
+import { parseXanoListPayload, xanoAuthHeaderRecord, xanoPostHeaderRecord, xanoUrl } from "@/lib/api/xano";
+import {
+  pacingAlertConditionSchema,
+  pacingAlertScopeSchema,
+  type PacingAlertRule,
+  type PacingAlertRuleInput,
+} from "@/lib/ops/digest/alertRules";
+
+const MEDIA_PLANS_KEYS = ["XANO_MEDIA_PLANS_BASE_URL", "XANO_MEDIAPLANS_BASE_URL"] as const;
+const PACING_ALERT_RULES_PATH = "pacing_alert_rules";
+
+export class XanoPacingAlertRuleError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "XanoPacingAlertRuleError";
+    this.status = status;
+  }
+}
+
+function parseJsonColumn(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Xano json columns may come back as strings or with missing keys; rows whose
+ * condition no longer parses are dropped rather than failing the whole list.
+ */
+function toRule(raw: unknown): PacingAlertRule | null {
+  if (!raw || typeof raw !== "object") return null;
+  const row = raw as Record<string, unknown>;
+  const condition = pacingAlertConditionSchema.safeParse(parseJsonColumn(row.condition));
+  if (!condition.success) return null;
+  const scope = pacingAlertScopeSchema.safeParse(parseJsonColumn(row.scope) ?? {});
+  return {
+    id: Number(row.id),
+    created_at: typeof row.created_at === "number" ? row.created_at : undefined,
+    user_email: String(row.user_email ?? "").trim().toLowerCase(),
+    name: String(row.name ?? "").trim(),
+    enabled: row.enabled !== false,
+    scope: scope.success
+      ? scope.data
+      : { client_names: [], mba_numbers: [], channels: [], platforms: [] },
+    condition: condition.data,
+  };
+}
+
+async function failed(resp: Response, context: string): Promise<never> {
+  const body = await resp.text().catch(() => "");
+  throw new XanoPacingAlertRuleError(
+    `Xano pacing_alert_rules ${context} failed: ${resp.status} ${body}`,
+    resp.status
+  );
+}
+
+/**
+ * Lists alert rules; pass a user email to scope to that user's subscriptions
+ * (the cron passes none and evaluates everyone's).
+ */
+export async function listPacingAlertRules(opts?: { userEmail?: string }): Promise<PacingAlertRule[]> {
+  const base = xanoUrl(PACING_ALERT_RULES_PATH, [...MEDIA_PLANS_KEYS]);
+  const email = opts?.userEmail?.trim().toLowerCase();
+  const url = email ? `${base}?user_email=${encodeURIComponent(email)}` : base;
+  const resp = await fetch(url, { headers: xanoAuthHeaderRecord(), cache: "no-store" });
+  if (!resp.ok) await failed(resp, "GET");
+  const rules = parseXanoListPayload(await resp.json())
+    .map(toRule)
+    .filter((rule): rule is PacingAlertRule => rule !== null);
+  // Xano may ignore the query filter; enforce ownership here as well.
+  return email ? rules.filter((rule) => rule.user_email === email) : rules;
+}
+
+export async function getPacingAlertRule(id: number): Promise<PacingAlertRule | null> {
+  const url = `${xanoUrl(PACING_ALERT_RULES_PATH, [...MEDIA_PLANS_KEYS])}/${encodeURIComponent(String(id))}`;
+  const resp = await fetch(url, { headers: xanoAuthHeaderRecord(), cache: "no-store" });
+  if (resp.status === 404) return null;
+  if (!resp.ok) await failed(resp, "GET");
+  return toRule(await resp.json());
+}
+
+export async function createPacingAlertRule(
+  userEmail: string,
+  input: PacingAlertRuleInput
+): Promise<PacingAlertRule> {
+  const resp = await fetch(xanoUrl(PACING_ALERT_RULES_PATH, [...MEDIA_PLANS_KEYS]), {
+    method: "POST",
+    headers: xanoPostHeaderRecord(),
+    body: JSON.stringify({
+      user_email: userEmail.trim().toLowerCase(),
+      name: input.name,
+      enabled: input.enabled,
+      scope: input.scope,
+      condition: input.condition,
+    }),
+  });
+  if (!resp.ok) await failed(resp, "POST");
+  const rule = toRule(await resp.json());
+  if (!rule) throw new XanoPacingAlertRuleError("Xano pacing_alert_rules POST returned an invalid row", 502);
+  return rule;
+}
+
+export async function updatePacingAlertRule(
+  id: number,
+  patch: Partial<PacingAlertRuleInput>
+): Promise<PacingAlertRule> {
+  const url = `${xanoUrl(PACING_ALERT_RULES_PATH, [...MEDIA_PLANS_KEYS])}/${encodeURIComponent(String(id))}`;
+  const resp = await fetch(url, {
+    method: "PATCH",
+    headers: xanoPostHeaderRecord(),
+    body: JSON.stringify(patch),
+  });
+  if (!resp.ok) await failed(resp, "PATCH");
+  const rule = toRule(await resp.json());
+  if (!rule) throw new XanoPacingAlertRuleError("Xano pacing_alert_rules PATCH returned an invalid row", 502);
+  return rule;
+}
+
+export async function deletePacingAlertRule(id: number): Promise<void> {
+  const url = `${xanoUrl(PACING_ALERT_RULES_PATH, [...MEDIA_PLANS_KEYS])}/${encodeURIComponent(String(id))}`;
+  const resp = await fetch(url, { method: "DELETE", headers: xanoAuthHeaderRecord() });
+  if (!resp.ok) await failed(resp, "DELETE");
+}
@@ -0,0 +1,155 @@
+import { parseXanoListPayload, xanoAuthHeaderRecord, xanoPostHeaderRecord, xanoUrl } from "@/lib/api/xano";
+import {
+  REPORT_CADENCES,
+  type PerformanceReportSchedule,
+  type PerformanceReportScheduleInput,
+  type ReportCadence,
+  type StoredPerformanceReport,
+  type StoredPerformanceReportInput,
+} from "@/lib/reports/scheduledReports";
+
+const MEDIA_PLANS_KEYS = ["XANO_MEDIA_PLANS_BASE_URL", "XANO_MEDIAPLANS_BASE_URL"] as const;
+const SCHEDULES_PATH = "performance_report_schedule";
+const REPORTS_PATH = "performance_report";
+
+export class XanoPerformanceReportError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "XanoPerformanceReportError";
+    this.status = status;
+  }
+}
+
+function toCadence(value: unknown): ReportCadence | null {
+  return REPORT_CADENCES.find((cadence) => cadence === value) ?? null;
+}
+
+function toSchedule(raw: unknown): PerformanceReportSchedule | null {
+  if (!raw || typeof raw !== "object") return null;
+  const row = raw as Record<string, unknown>;
+  const cadence = toCadence(row.cadence);
+  if (!cadence) return null;
+  return {
+    id: Number(row.id),
+    created_at: typeof row.created_at === "number" ? row.created_at : undefined,
+    mba_number: String(row.mba_number ?? "").trim(),
+    client_name: String(row.client_name ?? "").trim(),
+    cadence,
+    enabled: row.enabled !== false,
+    template_id: String(row.template_id ?? "").trim(),
+    last_period_key: String(row.last_period_key ?? ""),
+    last_run_at: Number(row.last_run_at) || 0,
+    last_error: String(row.last_error ?? ""),
+  };
+}
+
+function toReport(raw: unknown): StoredPerformanceReport | null {
+  if (!raw || typeof raw !== "object") return null;
+  const row = raw as Record<string, unknown>;
+  const cadence = toCadence(row.cadence);
+  const pathname = String(row.pathname ?? "").trim();
+  if (!cadence || !pathname) return null;
+  return {
+    id: Number(row.id),
+    created_at: typeof row.created_at === "number" ? row.created_at : undefined,
+    mba_number: String(row.mba_number ?? "").trim(),
+    schedule_id: Number(row.schedule_id) || 0,
+    cadence,
+    period_key: String(row.period_key ?? ""),
+    period_label: String(row.period_label ?? ""),
+    period_start: String(row.period_start ?? ""),
+    period_end: String(row.period_end ?? ""),
+    filename: String(row.filename ?? ""),
+    pathname,
+  };
+}
+
+async function failed(resp: Response, table: string, context: string): Promise<never> {
+  const body = await resp.text().catch(() => "");
+  throw new XanoPerformanceReportError(`Xano ${table} ${context} failed: ${resp.status} ${body}`, resp.status);
+}
+
+function withMba(base: string, mbaNumber?: string): string {
+  const mba = mbaNumber?.trim();
+  return mba ? `${base}?mba_number=${encodeURIComponent(mba)}` : base;
+}
+
+/** All schedules (the cron), or the one configured for an MBA. */
+export async function listPerformanceReportSchedules(opts?: {
+  mbaNumber?: string;
+}): Promise<PerformanceReportSchedule[]> {
+  const url = withMba(xanoUrl(SCHEDULES_PATH, [...MEDIA_PLANS_KEYS]), opts?.mbaNumber);
+  const resp = await fetch(url, { headers: xanoAuthHeaderRecord(), cache: "no-store" });
+  if (!resp.ok) await failed(resp, SCHEDULES_PATH, "GET");
+  const schedules = parseXanoListPayload(await resp.json())
+    .map(toSchedule)
+    .filter((schedule): schedule is PerformanceReportSchedule => schedule !== null);
+  // Xano may ignore the query filter; enforce the MBA here as well.
+  const mba = opts?.mbaNumber?.trim();
+  return mba ? schedules.filter((schedule) => schedule.mba_number === mba) : schedules;
+}
+
+export async function createPerformanceReportSchedule(
+  mbaNumber: string,
+  input: PerformanceReportScheduleInput
+): Promise<PerformanceReportSchedule> {
+  const resp = await fetch(xanoUrl(SCHEDULES_PATH, [...MEDIA_PLANS_KEYS]), {
+    method: "POST",
+    headers: xanoPostHeaderRecord(),
+    body: JSON.stringify({
+      mba_number: mbaNumber.trim(),
+      ...input,
+      last_period_key: "",
+      last_run_at: 0,
+      last_error: "",
+    }),
+  });
+  if (!resp.ok) await failed(resp, SCHEDULES_PATH, "POST");
+  const schedule = toSchedule(await resp.json());
+  if (!schedule) throw new XanoPerformanceReportError(`Xano ${SCHEDULES_PATH} POST returned an invalid row`, 502);
+  return schedule;
+}
+
+export async function updatePerformanceReportSchedule(
+  id: number,
+  patch: Partial<Omit<PerformanceReportSchedule, "id" | "created_at" | "mba_number">>
+): Promise<PerformanceReportSchedule> {
+  const url = `${xanoUrl(SCHEDULES_PATH, [...MEDIA_PLANS_KEYS])}/${encodeURIComponent(String(id))}`;
+  const resp = await fetch(url, {
+    method: "PATCH",
+    headers: xanoPostHeaderRecord(),
+    body: JSON.stringify(patch),
+  });
+  if (!resp.ok) await failed(resp, SCHEDULES_PATH, "PATCH");
+  const schedule = toSchedule(await resp.json());
+  if (!schedule) throw new XanoPerformanceReportError(`Xano ${SCHEDULES_PATH} PATCH returned an invalid row`, 502);
+  return schedule;
+}
+
+/** Generated reports for an MBA, newest period first. */
+export async function listPerformanceReports(mbaNumber: string): Promise<StoredPerformanceReport[]> {
+  const mba = mbaNumber.trim();
+  const resp = await fetch(withMba(xanoUrl(REPORTS_PATH, [...MEDIA_PLANS_KEYS]), mba), {
+    headers: xanoAuthHeaderRecord(),
+    cache: "no-store",
+  });
+  if (!resp.ok) await failed(resp, REPORTS_PATH, "GET");
+  return parseXanoListPayload(await resp.json())
+    .map(toReport)
+    .filter((report): report is StoredPerformanceReport => report !== null && report.mba_number === mba)
+    .sort((a, b) => b.period_end.localeCompare(a.period_end) || (b.created_at ?? 0) - (a.created_at ?? 0));
+}
+
+export async function createPerformanceReport(input: StoredPerformanceReportInput): Promise<StoredPerformanceReport> {
+  const resp = await fetch(xanoUrl(REPORTS_PATH, [...MEDIA_PLANS_KEYS]), {
+    method: "POST",
+    headers: xanoPostHeaderRecord(),
+    body: JSON.stringify(input),
+  });
+  if (!resp.ok) await failed(resp, REPORTS_PATH, "POST");
+  const report = toReport(await resp.json());
+  if (!report) throw new XanoPerformanceReportError(`Xano ${REPORTS_PATH} POST returned an invalid row`, 502);
+  return report;
+}
@@ -0,0 +1,136 @@
+import "server-only"
+
+import { parseXanoListPayload, xanoAuthHeaderRecord, xanoPostHeaderRecord, xanoUrl } from "@/lib/api/xano"
+import {
+  publisherRateCardInputSchema,
+  type PublisherRateCard,
+  type PublisherRateCardInput,
+} from "@/lib/publisher/rateCards"
+
+const PUBLISHERS_KEY = "XANO_PUBLISHERS_BASE_URL"
+const RATE_CARDS_PATH = "publisher_rate_cards"
+
+export class XanoPublisherRateCardError extends Error {
+  readonly status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = "XanoPublisherRateCardError"
+    this.status = status
+  }
+}
+
+/** Xano date columns may come back as timestamps or ISO strings; keep YYYY-MM-DD. */
+function toYmd(value: unknown): string | null {
+  if (value == null || value === "") return null
+  if (typeof value === "number") return new Date(value).toISOString().slice(0, 10)
+  const s = String(value).trim()
+  return /^\d{4}-\d{2}-\d{2}/.test(s) ? s.slice(0, 10) : null
+}
+
+/** Rows that no longer satisfy the input schema are dropped rather than failing the list. */
+function toRateCard(raw: unknown): PublisherRateCard | null {
+  if (!raw || typeof raw !== "object") return null
+  const row = raw as Record<string, unknown>
+  const id = Number(row.id)
+  const publisherId = Number(row.publisher_id)
+  if (!Number.isFinite(id) || !Number.isFinite(publisherId)) return null
+  const parsed = publisherRateCardInputSchema.safeParse({
+    media_type: row.media_type,
+    format: row.format ?? "",
+    market: row.market ?? "",
+    daypart: row.daypart ?? "",
+    buy_type: row.buy_type,
+    rate: Number(row.rate),
+    effective_from: toYmd(row.effective_from),
+    effective_to: toYmd(row.effective_to),
+    client_name: row.client_name ?? null,
+    notes: row.notes ?? "",
+  })
+  if (!parsed.success) return null
+  return {
+    ...parsed.data,
+    id,
+    publisher_id: publisherId,
+    created_at: typeof row.created_at === "number" ? row.created_at : undefined,
+  }
+}
+
+async function failed(resp: Response, context: string): Promise<never> {
+  const body = await resp.text().catch(() => "")
+  throw new XanoPublisherRateCardError(
+    `Xano ${RATE_CARDS_PATH} ${context} failed: ${resp.status} ${body}`,
+    resp.status
+  )
+}
+
+function rowUrl(id: number): string {
+  return `${xanoUrl(RATE_CARDS_PATH, PUBLISHERS_KEY)}/${encodeURIComponent(String(id))}`
+}
+
+/** Rate cards for one publisher, or every publisher's cards for a media type. */
+export async function listPublisherRateCards(filter: {
+  publisherId?: number
+  mediaType?: string
+}): Promise<PublisherRateCard[]> {
+  const qs = new URLSearchParams()
+  if (filter.publisherId != null) qs.set("publisher_id", String(filter.publisherId))
+  if (filter.mediaType) qs.set("media_type", filter.mediaType)
+  const base = xanoUrl(RATE_CARDS_PATH, PUBLISHERS_KEY)
+  const resp = await fetch(qs.size ? `${base}?${qs}` : base, {
+    headers: xanoAuthHeaderRecord(),
+    cache: "no-store",
+  })
+  if (!resp.ok) await failed(resp, "GET")
+  const cards = parseXanoListPayload(await resp.json())
+    .map(toRateCard)
+    .filter((card): card is PublisherRateCard => card !== null)
+  // Xano may ignore query filters; enforce them here as well.
+  return cards.filter(
+    (card) =>
+      (filter.publisherId == null || card.publisher_id === filter.publisherId) &&
+      (!filter.mediaType || card.media_type === filter.mediaType)
+  )
+}
+
+export async function getPublisherRateCard(id: number): Promise<PublisherRateCard | null> {
+  const resp = await fetch(rowUrl(id), { headers: xanoAuthHeaderRecord(), cache: "no-store" })
+  if (resp.status === 404) return null
+  if (!resp.ok) await failed(resp, "GET")
+  return toRateCard(await resp.json())
+}
+
+export async function createPublisherRateCard(
+  publisherId: number,
+  input: PublisherRateCardInput
+): Promise<PublisherRateCard> {
+  const resp = await fetch(xanoUrl(RATE_CARDS_PATH, PUBLISHERS_KEY), {
+    method: "POST",
+    headers: xanoPostHeaderRecord(),
+    body: JSON.stringify({ ...input, publisher_id: publisherId }),
+  })
+  if (!resp.ok) await failed(resp, "POST")
+  const card = toRateCard(await resp.json())
+  if (!card) throw new XanoPublisherRateCardError(`Xano ${RATE_CARDS_PATH} POST returned an invalid row`, 502)
+  return card
+}
+
+export async function updatePublisherRateCard(
+  id: number,
+  input: PublisherRateCardInput
+): Promise<PublisherRateCard> {
+  const resp = await fetch(rowUrl(id), {
+    method: "PATCH",
+    headers: xanoPostHeaderRecord(),
+    body: JSON.stringify(input),
+  })
+  if (!resp.ok) await failed(resp, "PATCH")
+  const card = toRateCard(await resp.json())
+  if (!card) throw new XanoPublisherRateCardError(`Xano ${RATE_CARDS_PATH} PATCH returned an invalid row`, 502)
+  return card
+}
+
+export async function deletePublisherRateCard(id: number): Promise<void> {
+  const resp = await fetch(rowUrl(id), { method: "DELETE", headers: xanoAuthHeaderRecord() })
+  if (!resp.ok && resp.status !== 404) await failed(resp, "DELETE")
+}
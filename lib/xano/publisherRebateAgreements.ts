@@ -0,0 +1,112 @@
+import "server-only"
+
+import { parseXanoListPayload, xanoAuthHeaderRecord, xanoPostHeaderRecord, xanoUrl } from "@/lib/api/xano"
+import {
+  rebateAgreementInputSchema,
+  type RebateAgreement,
+  type RebateAgreementInput,
+} from "@/lib/finance/rebates/rebateAgreements"
+
+const PUBLISHERS_KEY = "XANO_PUBLISHERS_BASE_URL"
+const AGREEMENTS_PATH = "publisher_rebate_agreements"
+
+export class XanoRebateAgreementError extends Error {
+  readonly status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = "XanoRebateAgreementError"
+    this.status = status
+  }
+}
+
+/** Xano may return `tiers` as a JSON string; rows that fail the schema are dropped. */
+function toAgreement(raw: unknown): RebateAgreement | null {
+  if (!raw || typeof raw !== "object") return null
+  const row = raw as Record<string, unknown>
+  const id = Number(row.id)
+  if (!Number.isFinite(id)) return null
+  let tiers = row.tiers
+  if (typeof tiers === "string") {
+    try {
+      tiers = JSON.parse(tiers)
+    } catch {
+      return null
+    }
+  }
+  const parsed = rebateAgreementInputSchema.safeParse({
+    publisher_id: Number(row.publisher_id),
+    financial_year_start_year: Number(row.financial_year_start_year),
+    tier_basis: row.tier_basis ?? undefined,
+    tiers,
+    notes: row.notes ?? "",
+  })
+  if (!parsed.success) return null
+  return {
+    ...parsed.data,
+    id,
+    created_at: typeof row.created_at === "number" ? row.created_at : undefined,
+  }
+}
+
+async function failed(resp: Response, context: string): Promise<never> {
+  const body = await resp.text().catch(() => "")
+  throw new XanoRebateAgreementError(
+    `Xano ${AGREEMENTS_PATH} ${context} failed: ${resp.status} ${body}`,
+    resp.status
+  )
+}
+
+function rowUrl(id: number): string {
+  return `${xanoUrl(AGREEMENTS_PATH, PUBLISHERS_KEY)}/${encodeURIComponent(String(id))}`
+}
+
+export async function listRebateAgreements(financialYearStartYear: number): Promise<RebateAgreement[]> {
+  const qs = new URLSearchParams({ financial_year_start_year: String(financialYearStartYear) })
+  const resp = await fetch(`${xanoUrl(AGREEMENTS_PATH, PUBLISHERS_KEY)}?${qs}`, {
+    headers: xanoAuthHeaderRecord(),
+    cache: "no-store",
+  })
+  if (!resp.ok) await failed(resp, "GET")
+  return parseXanoListPayload(await resp.json())
+    .map(toAgreement)
+    .filter(
+      (a): a is RebateAgreement => a !== null && a.financial_year_start_year === financialYearStartYear
+    )
+}
+
+export async function getRebateAgreement(id: number): Promise<RebateAgreement | null> {
+  const resp = await fetch(rowUrl(id), { headers: xanoAuthHeaderRecord(), cache: "no-store" })
+  if (resp.status === 404) return null
+  if (!resp.ok) await failed(resp, "GET")
+  return toAgreement(await resp.json())
+}
+
+export async function createRebateAgreement(input: RebateAgreementInput): Promise<RebateAgreement> {
+  const resp = await fetch(xanoUrl(AGREEMENTS_PATH, PUBLISHERS_KEY), {
+    method: "POST",
+    headers: xanoPostHeaderRecord(),
+    body: JSON.stringify(input),
+  })
+  if (!resp.ok) await failed(resp, "POST")
+  const agreement = toAgreement(await resp.json())
+  if (!agreement) throw new XanoRebateAgreementError(`Xano ${AGREEMENTS_PATH} POST returned an invalid row`, 502)
+  return agreement
+}
+
+export async function updateRebateAgreement(id: number, input: RebateAgreementInput): Promise<RebateAgreement> {
+  const resp = await fetch(rowUrl(id), {
+    method: "PATCH",
+    headers: xanoPostHeaderRecord(),
+    body: JSON.stringify(input),
+  })
+  if (!resp.ok) await failed(resp, "PATCH")
+  const agreement = toAgreement(await resp.json())
+  if (!agreement) throw new XanoRebateAgreementError(`Xano ${AGREEMENTS_PATH} PATCH returned an invalid row`, 502)
+  return agreement
+}
+
+export async function deleteRebateAgreement(id: number): Promise<void> {
+  const resp = await fetch(rowUrl(id), { method: "DELETE", headers: xanoAuthHeaderRecord() })
+  if (!resp.ok && resp.status !== 404) await failed(resp, "DELETE")
+}
@@ -0,0 +1,123 @@
+import "server-only"
+
+import { parseXanoListPayload, xanoAuthHeaderRecord, xanoPostHeaderRecord, xanoUrl } from "@/lib/api/xano"
+import type { ScopeOfWorkRow } from "@/lib/finance/deriveScopeSowReceivables"
+import { parseScopeChangeRequests, type ScopeChangeRequest } from "@/lib/scopes/changeRequests"
+import { scopeTimeEntryRowSchema, type ScopeTimeEntry } from "@/lib/scopes/timeTracking"
+
+const SCOPES_KEY = "XANO_SCOPES_BASE_URL"
+const SCOPES_PATH = "scope_of_work"
+const TIME_ENTRIES_PATH = "scope_time_entries"
+
+export class XanoScopeTrackingError extends Error {
+  readonly status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = "XanoScopeTrackingError"
+    this.status = status
+  }
+}
+
+async function failed(resp: Response, path: string, context: string): Promise<never> {
+  const body = await resp.text().catch(() => "")
+  throw new XanoScopeTrackingError(`Xano ${path} ${context} failed: ${resp.status} ${body}`, resp.status)
+}
+
+function rowUrl(path: string, id: number): string {
+  return `${xanoUrl(path, SCOPES_KEY)}/${encodeURIComponent(String(id))}`
+}
+
+/** Xano date columns may come back as timestamps or ISO strings; keep YYYY-MM-DD. */
+function toYmd(value: unknown): string | null {
+  if (value == null || value === "") return null
+  if (typeof value === "number") return new Date(value).toISOString().slice(0, 10)
+  const s = String(value).trim()
+  return /^\d{4}-\d{2}-\d{2}/.test(s) ? s.slice(0, 10) : null
+}
+
+function toTimeEntry(raw: unknown): ScopeTimeEntry | null {
+  if (!raw || typeof raw !== "object") return null
+  const row = raw as Record<string, unknown>
+  const id = Number(row.id)
+  const scopeId = Number(row.scope_of_work_id)
+  if (!Number.isFinite(id) || !Number.isFinite(scopeId)) return null
+  const parsed = scopeTimeEntryRowSchema.safeParse({
+    cost_line_index: Number(row.cost_line_index),
+    entry_date: toYmd(row.entry_date),
+    hours: Number(row.hours),
+    hourly_rate: Number(row.hourly_rate),
+    description: row.description ?? "",
+  })
+  if (!parsed.success) return null
+  return {
+    ...parsed.data,
+    id,
+    scope_of_work_id: scopeId,
+    created_at: typeof row.created_at === "number" ? row.created_at : undefined,
+    expense_category: String(row.expense_category ?? ""),
+    staff: String(row.staff ?? ""),
+    staff_name: String(row.staff_name ?? row.staff ?? ""),
+  }
+}
+
+export async function getScopeOfWork(id: number): Promise<ScopeOfWorkRow | null> {
+  const resp = await fetch(rowUrl(SCOPES_PATH, id), { headers: xanoAuthHeaderRecord(), cache: "no-store" })
+  if (resp.status === 404) return null
+  if (!resp.ok) await failed(resp, SCOPES_PATH, "GET")
+  const row = (await resp.json()) as ScopeOfWorkRow | null
+  return row && Number.isFinite(Number(row.id)) ? row : null
+}
+
+/** Replace the scope's change requests; the rest of the row is left alone. */
+export async function saveScopeChangeRequests(
+  scopeId: number,
+  changeRequests: ScopeChangeRequest[]
+): Promise<ScopeChangeRequest[]> {
+  const resp = await fetch(rowUrl(SCOPES_PATH, scopeId), {
+    method: "PATCH",
+    headers: xanoPostHeaderRecord(),
+    body: JSON.stringify({ change_requests: JSON.stringify(changeRequests) }),
+  })
+  if (!resp.ok) await failed(resp, SCOPES_PATH, "PATCH")
+  const row = (await resp.json()) as ScopeOfWorkRow | null
+  return parseScopeChangeRequests(row?.change_requests ?? changeRequests)
+}
+
+/** Every time entry logged against a scope, oldest first. */
+export async function listScopeTimeEntries(scopeId: number): Promise<ScopeTimeEntry[]> {
+  const url = `${xanoUrl(TIME_ENTRIES_PATH, SCOPES_KEY)}?scope_of_work_id=${encodeURIComponent(String(scopeId))}`
+  const resp = await fetch(url, { headers: xanoAuthHeaderRecord(), cache: "no-store" })
+  if (!resp.ok) await failed(resp, TIME_ENTRIES_PATH, "GET")
+  // Xano may ignore the query filter; enforce the scope here as well.
+  return parseXanoListPayload(await resp.json())
+    .map(toTimeEntry)
+    .filter((entry): entry is ScopeTimeEntry => entry !== null && entry.scope_of_work_id === scopeId)
+    .sort((a, b) => a.entry_date.localeCompare(b.entry_date) || a.id - b.id)
+}
+
+export async function getScopeTimeEntry(id: number): Promise<ScopeTimeEntry | null> {
+  const resp = await fetch(rowUrl(TIME_ENTRIES_PATH, id), { headers: xanoAuthHeaderRecord(), cache: "no-store" })
+  if (resp.status === 404) return null
+  if (!resp.ok) await failed(resp, TIME_ENTRIES_PATH, "GET")
+  return toTimeEntry(await resp.json())
+}
+
+export async function createScopeTimeEntry(
+  entry: Omit<ScopeTimeEntry, "id" | "created_at">
+): Promise<ScopeTimeEntry> {
+  const resp = await fetch(xanoUrl(TIME_ENTRIES_PATH, SCOPES_KEY), {
+    method: "POST",
+    headers: xanoPostHeaderRecord(),
+    body: JSON.stringify(entry),
+  })
+  if (!resp.ok) await failed(resp, TIME_ENTRIES_PATH, "POST")
+  const created = toTimeEntry(await resp.json())
+  if (!created) throw new XanoScopeTrackingError(`Xano ${TIME_ENTRIES_PATH} POST returned an invalid row`, 502)
+  return created
+}
+
+export async function deleteScopeTimeEntry(id: number): Promise<void> {
+  const resp = await fetch(rowUrl(TIME_ENTRIES_PATH, id), { method: "DELETE", headers: xanoAuthHeaderRecord() })
+  if (!resp.ok && resp.status !== 404) await failed(resp, TIME_ENTRIES_PATH, "DELETE")
+}
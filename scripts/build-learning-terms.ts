@@ -22,7 +22,8 @@ export type FormulaDSL = {
   expression: string;
   variables: Variable[];
   output: OutputMeta;
-  format: "currency" | "percent" | "number";
+  constants?: Record<string, number>;
+  format: "currency" | "percent" | "permille" | "number";
   inferred?: boolean;
   unmapped?: boolean;
 };
@@ -113,6 +114,14 @@ const OUTPUT_PATH = path.resolve(__dirname, "..", "src", "data", "learning", "te
 const ENRICHMENT_PATH = path.resolve(__dirname, "..", "src", "data", "learning", "terms.enrichment.json");
 
 const KNOWN_FORMULAS: Record<string, FormulaDSL> = {
+  "3+ reach": {
+    calculatorId: "three-plus-reach",
+    // Poisson exposure model: average exposures per person = GRPs / 100.
+    expression: "100 * (1 - exp(-grps / 100) * (1 + grps / 100 + (grps / 100) ^ 2 / 2))",
+    variables: [{ key: "grps", label: "GRPs", required: true }],
+    output: { label: "3+ Reach", unit: "%" },
+    format: "percent",
+  },
   "ad rank": {
     calculatorId: "ad-rank",
     expression: "bid * quality * context",
@@ -234,6 +243,16 @@ const KNOWN_FORMULAS: Record<string, FormulaDSL> = {
     output: { label: "CPRP", unit: "$" },
     format: "currency",
   },
+  cpv: {
+    calculatorId: "cpv",
+    expression: "cost / views",
+    variables: [
+      { key: "cost", label: "Cost", unit: "$", required: true },
+      { key: "views", label: "Video Views", required: true },
+    ],
+    output: { label: "CPV", unit: "$" },
+    format: "currency",
+  },
   ctr: {
     calculatorId: "ctr",
     expression: "(clicks / impressions) * 100",
@@ -284,6 +303,16 @@ const KNOWN_FORMULAS: Record<string, FormulaDSL> = {
     output: { label: "Fill Rate", unit: "%" },
     format: "percent",
   },
+  frequency: {
+    calculatorId: "frequency",
+    expression: "impressions / reach",
+    variables: [
+      { key: "impressions", label: "Impressions", required: true },
+      { key: "reach", label: "Reach", required: true },
+    ],
+    output: { label: "Frequency", unit: "" },
+    format: "number",
+  },
   "gross margin": {
     calculatorId: "gross-margin",
     expression: "(revenue - cogs) / revenue",
@@ -314,6 +343,18 @@ const KNOWN_FORMULAS: Record<string, FormulaDSL> = {
     output: { label: "Impression Share", unit: "%" },
     format: "percent",
   },
+  ltv: {
+    calculatorId: "ltv",
+    expression: "aov * frequency * margin% * lifetime",
+    variables: [
+      { key: "aov", label: "AOV", unit: "$", required: true },
+      { key: "frequency", label: "Purchases per Year", required: true },
+      { key: "margin", label: "Margin", unit: "%", required: true },
+      { key: "lifetime", label: "Lifetime", unit: "years", required: true },
+    ],
+    output: { label: "LTV", unit: "$" },
+    format: "currency",
+  },
   mer: {
     calculatorId: "mer",
     expression: "total_revenue / total_marketing_spend",
@@ -344,6 +385,16 @@ const KNOWN_FORMULAS: Record<string, FormulaDSL> = {
     output: { label: "Profit Margin", unit: "" },
     format: "percent",
   },
+  "reach curve": {
+    calculatorId: "reach-curve",
+    expression: "reach_ceiling * (1 - exp(-grps / reach_ceiling))",
+    variables: [
+      { key: "grps", label: "GRPs", required: true },
+      { key: "reach_ceiling", label: "Reach Ceiling", unit: "%", required: true },
+    ],
+    output: { label: "Reach", unit: "%" },
+    format: "percent",
+  },
   roas: {
     calculatorId: "roas",
     expression: "revenue / ad_spend",
@@ -1,26 +1,26 @@
+import { BUILTIN_CONSTANTS, evaluateExpression, parseExpression } from "./expression";
 import { FormulaDSL } from "./types";
 
-const allowedPattern = /^[0-9+\-*/().\s%]*$/;
+/** Constants and variable values a formula is evaluated against. */
+export function formulaScope(dsl: FormulaDSL, values: Record<string, number>): Record<string, number> {
+  const scope: Record<string, number> = { ...BUILTIN_CONSTANTS, ...dsl.constants };
+  for (const variable of dsl.variables) {
+    const value = values[variable.key];
+    if (value === undefined) continue;
+    scope[variable.key] = typeof value === "number" ? value : Number(value);
+  }
+  return scope;
+}
 
 export function evaluateFormula(dsl: FormulaDSL, values: Record<string, number>): number {
-  let expr = dsl.expression;
-
   for (const variable of dsl.variables) {
     const value = values[variable.key];
-    if (variable.required && (value === undefined || Number.isNaN(value))) {
+    if (value === undefined || Number.isNaN(value)) {
       throw new Error(`${variable.label} is required`);
     }
-    const numeric = typeof value === "number" ? value : Number(value);
-    expr = expr.replace(new RegExp(`\\b${variable.key}\\b`, "g"), `${numeric}`);
-  }
-
-  const sanitized = expr.replace(/\s+/g, "");
-  if (!allowedPattern.test(sanitized)) {
-    throw new Error("Invalid characters in expression");
   }
 
-  // eslint-disable-next-line no-new-func
-  const result = Function(`"use strict"; return (${expr});`)();
+  const result = evaluateExpression(parseExpression(dsl.expression), formulaScope(dsl, values));
   if (!Number.isFinite(result)) {
     throw new Error("Calculation produced an invalid number");
   }
@@ -36,6 +36,9 @@ export function formatValue(value: number, format: FormulaDSL["format"]): string
   if (format === "percent") {
     return `${normalized.toFixed(2)}%`;
   }
+  if (format === "permille") {
+    return `${normalized.toFixed(2)}‰`;
+  }
   if (Math.abs(normalized) >= 1000) return normalized.toFixed(0);
   return normalized.toFixed(2);
 }
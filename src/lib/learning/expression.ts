@@ -0,0 +1,391 @@
+/**
+ * Formula expressions for the Knowledge Hub calculators: a small tokenizer,
+ * a Pratt parser to an AST and a tree-walking evaluator. Nothing is ever
+ * passed to `Function`/`eval`; anything outside the grammar is a parse error.
+ *
+ *   numbers      1000, 0.5, 1e6
+ *   identifiers  cost, reach_percent (variables, formula constants, pi, e)
+ *   operators    + - * / ^ (right-assoc), comparisons, && || !
+ *   postfix      50% = 0.5, 5‰ = 0.005
+ *   functions    min, max, round(x, digits?), floor, ceil, abs, sqrt, pow,
+ *                exp, ln, log(x, base?), if(cond, then, else)
+ *
+ * `×` and `÷` are accepted so formulas can be pasted from the glossary notes.
+ */
+
+export type BinaryOperator =
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "^"
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "=="
+  | "!="
+  | "&&"
+  | "||";
+
+export type ExpressionNode =
+  | { kind: "number"; value: number }
+  | { kind: "identifier"; name: string }
+  | { kind: "unary"; op: "-" | "!"; operand: ExpressionNode }
+  | { kind: "binary"; op: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { kind: "call"; name: string; args: ExpressionNode[] };
+
+export class ExpressionError extends Error {
+  position?: number;
+
+  constructor(message: string, position?: number) {
+    super(message);
+    this.name = "ExpressionError";
+    this.position = position;
+  }
+}
+
+export const BUILTIN_CONSTANTS: Readonly<Record<string, number>> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+type FunctionSpec = { min: number; max: number; apply: (args: number[]) => number };
+
+const FUNCTIONS: Record<string, FunctionSpec> = {
+  min: { min: 1, max: Infinity, apply: (args) => Math.min(...args) },
+  max: { min: 1, max: Infinity, apply: (args) => Math.max(...args) },
+  round: {
+    min: 1,
+    max: 2,
+    apply: ([value, digits = 0]) => {
+      const factor = Math.pow(10, Math.trunc(digits));
+      return Math.round(value * factor) / factor;
+    },
+  },
+  floor: { min: 1, max: 1, apply: ([value]) => Math.floor(value) },
+  ceil: { min: 1, max: 1, apply: ([value]) => Math.ceil(value) },
+  abs: { min: 1, max: 1, apply: ([value]) => Math.abs(value) },
+  sqrt: { min: 1, max: 1, apply: ([value]) => Math.sqrt(value) },
+  pow: { min: 2, max: 2, apply: ([base, exponent]) => Math.pow(base, exponent) },
+  exp: { min: 1, max: 1, apply: ([value]) => Math.exp(value) },
+  ln: { min: 1, max: 1, apply: ([value]) => Math.log(value) },
+  log: {
+    min: 1,
+    max: 2,
+    apply: ([value, base]) => (base === undefined ? Math.log10(value) : Math.log(value) / Math.log(base)),
+  },
+  // `if` is evaluated lazily below; the spec only carries its arity.
+  if: { min: 3, max: 3, apply: ([cond, whenTrue, whenFalse]) => (cond ? whenTrue : whenFalse) },
+};
+
+type Token =
+  | { type: "number"; value: number; pos: number }
+  | { type: "identifier"; value: string; pos: number }
+  | { type: "operator"; value: string; pos: number }
+  | { type: "end"; pos: number };
+
+const OPERATORS = ["<=", ">=", "==", "!=", "&&", "||", "+", "-", "*", "/", "^", "<", ">", "!", "%", "‰", "(", ")", ","];
+
+const OPERATOR_ALIASES: Record<string, string> = { "×": "*", "÷": "/" };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  while (pos < source.length) {
+    const char = source[pos];
+    if (/\s/.test(char)) {
+      pos += 1;
+      continue;
+    }
+    const numberMatch = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(pos));
+    if (numberMatch) {
+      tokens.push({ type: "number", value: Number(numberMatch[0]), pos });
+      pos += numberMatch[0].length;
+      continue;
+    }
+    const identifierMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(pos));
+    if (identifierMatch) {
+      tokens.push({ type: "identifier", value: identifierMatch[0], pos });
+      pos += identifierMatch[0].length;
+      continue;
+    }
+    if (OPERATOR_ALIASES[char]) {
+      tokens.push({ type: "operator", value: OPERATOR_ALIASES[char], pos });
+      pos += 1;
+      continue;
+    }
+    const operator = OPERATORS.find((op) => source.startsWith(op, pos));
+    if (!operator) {
+      throw new ExpressionError(`Unexpected "${char}" at position ${pos + 1}`, pos);
+    }
+    tokens.push({ type: "operator", value: operator, pos });
+    pos += operator.length;
+  }
+  tokens.push({ type: "end", pos });
+  return tokens;
+}
+
+// Binding powers, loosest first. Unary minus sits below `^` so -x^2 is -(x^2).
+const INFIX_POWER: Record<BinaryOperator, [left: number, right: number]> = {
+  "||": [1, 2],
+  "&&": [3, 4],
+  "==": [5, 6],
+  "!=": [5, 6],
+  "<": [7, 8],
+  "<=": [7, 8],
+  ">": [7, 8],
+  ">=": [7, 8],
+  "+": [9, 10],
+  "-": [9, 10],
+  "*": [11, 12],
+  "/": [11, 12],
+  "^": [16, 15],
+};
+const PREFIX_POWER = 13;
+const POSTFIX_POWER = 17;
+
+const POSTFIX_DIVISORS: Record<string, number> = { "%": 100, "‰": 1000 };
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.expression(0);
+    const next = this.peek();
+    if (next.type !== "end") {
+      throw new ExpressionError(`Unexpected ${describe(next)} at position ${next.pos + 1}`, next.pos);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    this.index += 1;
+    return token;
+  }
+
+  private expect(operator: string) {
+    const token = this.next();
+    if (token.type !== "operator" || token.value !== operator) {
+      throw new ExpressionError(`Expected "${operator}" at position ${token.pos + 1}`, token.pos);
+    }
+  }
+
+  private expression(minPower: number): ExpressionNode {
+    let left = this.prefix();
+
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== "operator") break;
+
+      const divisor = POSTFIX_DIVISORS[token.value];
+      if (divisor !== undefined) {
+        if (POSTFIX_POWER < minPower) break;
+        this.next();
+        left = { kind: "binary", op: "/", left, right: { kind: "number", value: divisor } };
+        continue;
+      }
+
+      const power = INFIX_POWER[token.value as BinaryOperator];
+      if (!power || power[0] < minPower) break;
+      this.next();
+      const right = this.expression(power[1]);
+      left = { kind: "binary", op: token.value as BinaryOperator, left, right };
+    }
+
+    return left;
+  }
+
+  private prefix(): ExpressionNode {
+    const token = this.next();
+    if (token.type === "number") {
+      return { kind: "number", value: token.value };
+    }
+    if (token.type === "identifier") {
+      const following = this.peek();
+      if (following.type === "operator" && following.value === "(") {
+        return this.call(token.value, token.pos);
+      }
+      if (following.type === "identifier") {
+        throw new ExpressionError(
+          `Missing operator between "${token.value}" and "${following.value}"`,
+          following.pos,
+        );
+      }
+      return { kind: "identifier", name: token.value };
+    }
+    if (token.type === "operator") {
+      if (token.value === "(") {
+        const inner = this.expression(0);
+        this.expect(")");
+        return inner;
+      }
+      if (token.value === "-" || token.value === "!") {
+        return { kind: "unary", op: token.value, operand: this.expression(PREFIX_POWER) };
+      }
+      if (token.value === "+") {
+        return this.expression(PREFIX_POWER);
+      }
+    }
+    throw new ExpressionError(`Unexpected ${describe(token)} at position ${token.pos + 1}`, token.pos);
+  }
+
+  private call(name: string, pos: number): ExpressionNode {
+    const spec = Object.hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+    if (!spec) {
+      throw new ExpressionError(`Unknown function "${name}"`, pos);
+    }
+    this.expect("(");
+    const args: ExpressionNode[] = [];
+    const close = this.peek();
+    if (!(close.type === "operator" && close.value === ")")) {
+      for (;;) {
+        args.push(this.expression(0));
+        const separator = this.peek();
+        if (separator.type === "operator" && separator.value === ",") {
+          this.next();
+          continue;
+        }
+        break;
+      }
+    }
+    this.expect(")");
+    if (args.length < spec.min || args.length > spec.max) {
+      const expected = spec.min === spec.max ? `${spec.min}` : spec.max === Infinity ? `at least ${spec.min}` : `${spec.min}-${spec.max}`;
+      throw new ExpressionError(`${name}() takes ${expected} argument${spec.max === 1 ? "" : "s"}`, pos);
+    }
+    return { kind: "call", name, args };
+  }
+}
+
+function describe(token: Token): string {
+  if (token.type === "end") return "end of formula";
+  return `"${token.value}"`;
+}
+
+const parseCache = new Map<string, ExpressionNode>();
+
+/** Parse (and memoise) a formula expression. Throws ExpressionError on bad syntax. */
+export function parseExpression(source: string): ExpressionNode {
+  const cached = parseCache.get(source);
+  if (cached) return cached;
+  if (!source.trim()) {
+    throw new ExpressionError("Formula is empty", 0);
+  }
+  const node = new Parser(tokenize(source)).parse();
+  parseCache.set(source, node);
+  return node;
+}
+
+function truthy(value: number) {
+  return value !== 0 && !Number.isNaN(value);
+}
+
+/** Evaluate an AST; `scope` holds variables and constants by name. */
+export function evaluateExpression(node: ExpressionNode, scope: Readonly<Record<string, number>>): number {
+  switch (node.kind) {
+    case "number":
+      return node.value;
+    case "identifier": {
+      const value = Object.prototype.hasOwnProperty.call(scope, node.name) ? scope[node.name] : undefined;
+      if (value === undefined) {
+        throw new ExpressionError(`Unknown variable "${node.name}"`);
+      }
+      return value;
+    }
+    case "unary": {
+      const operand = evaluateExpression(node.operand, scope);
+      return node.op === "-" ? -operand : truthy(operand) ? 0 : 1;
+    }
+    case "binary": {
+      if (node.op === "&&") {
+        return truthy(evaluateExpression(node.left, scope)) && truthy(evaluateExpression(node.right, scope)) ? 1 : 0;
+      }
+      if (node.op === "||") {
+        return truthy(evaluateExpression(node.left, scope)) || truthy(evaluateExpression(node.right, scope)) ? 1 : 0;
+      }
+      const left = evaluateExpression(node.left, scope);
+      const right = evaluateExpression(node.right, scope);
+      switch (node.op) {
+        case "+":
+          return left + right;
+        case "-":
+          return left - right;
+        case "*":
+          return left * right;
+        case "/":
+          return left / right;
+        case "^":
+          return Math.pow(left, right);
+        case "<":
+          return left < right ? 1 : 0;
+        case "<=":
+          return left <= right ? 1 : 0;
+        case ">":
+          return left > right ? 1 : 0;
+        case ">=":
+          return left >= right ? 1 : 0;
+        case "==":
+          return left === right ? 1 : 0;
+        case "!=":
+          return left !== right ? 1 : 0;
+      }
+      break;
+    }
+    case "call": {
+      if (node.name === "if") {
+        const [cond, whenTrue, whenFalse] = node.args;
+        return truthy(evaluateExpression(cond, scope))
+          ? evaluateExpression(whenTrue, scope)
+          : evaluateExpression(whenFalse, scope);
+      }
+      if (!Object.hasOwn(FUNCTIONS, node.name)) {
+        throw new ExpressionError(`Unknown function "${node.name}"`);
+      }
+      return FUNCTIONS[node.name].apply(node.args.map((arg) => evaluateExpression(arg, scope)));
+    }
+  }
+  throw new ExpressionError("Unsupported expression");
+}
+
+/** Identifiers the expression reads, in first-use order. */
+export function expressionIdentifiers(node: ExpressionNode): string[] {
+  const names: string[] = [];
+  const visit = (current: ExpressionNode) => {
+    if (current.kind === "identifier") {
+      if (!names.includes(current.name)) names.push(current.name);
+    } else if (current.kind === "unary") {
+      visit(current.operand);
+    } else if (current.kind === "binary") {
+      visit(current.left);
+      visit(current.right);
+    } else if (current.kind === "call") {
+      current.args.forEach(visit);
+    }
+  };
+  visit(node);
+  return names;
+}
+
+/** How many times `name` appears in the expression. */
+export function countIdentifier(node: ExpressionNode, name: string): number {
+  switch (node.kind) {
+    case "identifier":
+      return node.name === name ? 1 : 0;
+    case "unary":
+      return countIdentifier(node.operand, name);
+    case "binary":
+      return countIdentifier(node.left, name) + countIdentifier(node.right, name);
+    case "call":
+      return node.args.reduce((sum, arg) => sum + countIdentifier(arg, name), 0);
+    default:
+      return 0;
+  }
+}
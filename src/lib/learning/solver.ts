@@ -1,4 +1,5 @@
-import { evaluateFormula } from "./evaluator";
+import { evaluateFormula, formulaScope } from "./evaluator";
+import { countIdentifier, evaluateExpression, parseExpression, type ExpressionNode } from "./expression";
 import { FormulaDSL } from "./types";
 
 export const OUTPUT_KEY = "__output";
@@ -39,6 +40,122 @@ export const solveForOutput = (formula: FormulaDSL, values: Record<string, numbe
   return evaluateFormula(formula, numericValues);
 };
 
+/**
+ * Walk down the single path from the root to `target`, undoing each operation
+ * on the way. Returns null when a step can't be inverted (min, round, if, ...).
+ */
+const isolate = (
+  node: ExpressionNode,
+  target: string,
+  desired: number,
+  scope: Record<string, number>,
+): number | null => {
+  switch (node.kind) {
+    case "identifier":
+      return node.name === target ? desired : null;
+    case "unary":
+      return node.op === "-" ? isolate(node.operand, target, -desired, scope) : null;
+    case "binary": {
+      const targetOnLeft = countIdentifier(node.left, target) > 0;
+      const inner = targetOnLeft ? node.left : node.right;
+      const other = evaluateExpression(targetOnLeft ? node.right : node.left, scope);
+      let next: number;
+      switch (node.op) {
+        case "+":
+          next = desired - other;
+          break;
+        case "-":
+          next = targetOnLeft ? desired + other : other - desired;
+          break;
+        case "*":
+          if (Math.abs(other) < EPSILON) return null;
+          next = desired / other;
+          break;
+        case "/":
+          if (targetOnLeft) {
+            next = desired * other;
+          } else {
+            if (Math.abs(desired) < EPSILON) return null;
+            next = other / desired;
+          }
+          break;
+        case "^":
+          next = targetOnLeft ? Math.pow(desired, 1 / other) : Math.log(desired) / Math.log(other);
+          break;
+        default:
+          return null;
+      }
+      return Number.isFinite(next) ? isolate(inner, target, next, scope) : null;
+    }
+    case "call": {
+      const [arg, second] = node.args;
+      switch (node.name) {
+        case "exp":
+          return desired > 0 ? isolate(arg, target, Math.log(desired), scope) : null;
+        case "ln":
+          return isolate(arg, target, Math.exp(desired), scope);
+        case "log": {
+          const base = second ? evaluateExpression(second, scope) : 10;
+          return countIdentifier(arg, target) > 0 ? isolate(arg, target, Math.pow(base, desired), scope) : null;
+        }
+        case "sqrt":
+          return desired >= 0 ? isolate(arg, target, desired * desired, scope) : null;
+        case "pow":
+          return isolate({ kind: "binary", op: "^", left: arg, right: second }, target, desired, scope);
+        default:
+          return null;
+      }
+    }
+    default:
+      return null;
+  }
+};
+
+// Candidate starting points for the numeric fallback: 0, then ±10^k out to a
+// billion, so root brackets are found across the scales media formulas use.
+const SCAN_POINTS = (() => {
+  const positive = [0];
+  for (let k = -6; k <= 9; k += 0.25) positive.push(Math.pow(10, k));
+  return [positive, positive.map((v) => -v)];
+})();
+
+/** Bracket a sign change of f on the scan grid (non-negative side first) and bisect it. */
+const findRoot = (f: (x: number) => number): number | null => {
+  for (const points of SCAN_POINTS) {
+    let prevX: number | null = null;
+    let prevY = NaN;
+    for (const x of points) {
+      const y = f(x);
+      if (!Number.isFinite(y)) {
+        prevX = null;
+        continue;
+      }
+      if (Math.abs(y) < EPSILON) return x;
+      if (prevX !== null && Math.sign(y) !== Math.sign(prevY)) {
+        let lo = prevX;
+        let hi = x;
+        let loY = prevY;
+        for (let i = 0; i < 200; i += 1) {
+          const mid = (lo + hi) / 2;
+          const midY = f(mid);
+          if (!Number.isFinite(midY)) break;
+          if (Math.abs(midY) < EPSILON || Math.abs(hi - lo) < EPSILON * Math.max(1, Math.abs(mid))) return mid;
+          if (Math.sign(midY) === Math.sign(loY)) {
+            lo = mid;
+            loY = midY;
+          } else {
+            hi = mid;
+          }
+        }
+        return (lo + hi) / 2;
+      }
+      prevX = x;
+      prevY = y;
+    }
+  }
+  return null;
+};
+
 export const solveForVariable = ({ formula, solveFor, values, desiredOutput }: SolveParams) => {
   if (desiredOutput === undefined || Number.isNaN(desiredOutput)) {
     throw new Error("Output value is required");
@@ -54,24 +171,29 @@ export const solveForVariable = ({ formula, solveFor, values, desiredOutput }: S
     baseValues[variable.key] = value;
   }
 
-  // Multiplicative inverse approach: evaluate the expression with the target set
-  // to 1 and 2, infer the exponent, and solve for the target value.
-  const withOne = evaluateFormula(formula, { ...baseValues, [solveFor]: 1 });
-  const withTwo = evaluateFormula(formula, { ...baseValues, [solveFor]: 2 });
-
-  const ratio = assertFinite(withTwo / withOne, "Cannot solve for this variable");
-  const exponent = Math.log(ratio) / Math.log(2);
-
-  if (!Number.isFinite(exponent) || Math.abs(exponent) < EPSILON) {
+  const ast = parseExpression(formula.expression);
+  const occurrences = countIdentifier(ast, solveFor);
+  if (occurrences === 0) {
     throw new Error("Cannot solve for this variable");
   }
+  const scope = formulaScope(formula, baseValues);
 
-  if (Math.abs(desiredOutput) < EPSILON) {
-    return 0;
+  // Symbolic: when the target appears once, invert each operation around it.
+  if (occurrences === 1) {
+    const solved = isolate(ast, solveFor, desiredOutput, scope);
+    if (solved !== null && Number.isFinite(solved)) return solved;
   }
 
-  const solved = Math.pow(desiredOutput / withOne, 1 / exponent);
-  return assertFinite(solved, "Could not calculate");
+  // Numeric: the target appears several times or sits inside a non-invertible
+  // function, so search for where the formula hits the desired output.
+  const solved = findRoot((x) => {
+    try {
+      return evaluateExpression(ast, { ...scope, [solveFor]: x }) - desiredOutput;
+    } catch {
+      return NaN;
+    }
+  });
+  return assertFinite(solved ?? NaN, "No value of this variable produces that output");
 };
 
 
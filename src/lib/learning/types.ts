@@ -17,7 +17,9 @@ export type FormulaDSL = {
   expression: string;
   variables: FormulaVariable[];
   output: FormulaOutput;
-  format: "currency" | "percent" | "number";
+  /** Named constants the expression may reference alongside pi and e. */
+  constants?: Record<string, number>;
+  format: "currency" | "percent" | "permille" | "number";
   inferred?: boolean;
   unmapped?: boolean;
 };
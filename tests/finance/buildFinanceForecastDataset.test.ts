@@ -1,7 +1,12 @@
 import assert from "node:assert/strict"
 import test from "node:test"
 
-import { buildFinanceForecastDataset } from "../../lib/finance/forecast/buildFinanceForecastDataset.js"
+import {
+  buildChannelForecastMedia,
+  buildFinanceForecastDataset,
+  buildPublisherForecastMedia,
+  collectBilledMbaMonths,
+} from "../../lib/finance/forecast/buildFinanceForecastDataset.js"
 import {
   FINANCE_FORECAST_FISCAL_MONTH_ORDER,
   FINANCE_FORECAST_LINE_KEYS,
@@ -216,6 +221,8 @@ test("billing schedule wins over delivery when both have media in the same month
   })
   const line = assembledMediaBillingLine(ds)
   assert.equal(line.monthly.july, 12_000)
+  assert.deepEqual(Object.keys(line.monthly_by_media_type ?? {}), ["television"])
+  assert.equal(line.monthly_by_media_type?.television?.july, 12_000)
 })
 
 test("falls back to delivery line items when billing has no publisher rows but month media is positive", () => {
@@ -571,3 +578,134 @@ test("billingSchedule may be a JSON string (Xano transport)", () => {
   })
   assert.equal(assembledMediaBillingLine(ds).monthly.july, 4_200)
 })
+
+test("buildPublisherForecastMedia groups media and commission by publisher and reconciles to commission lines", () => {
+  const seven = fixturePublisherAssembledMedia({ id: 11, publisher_name: "Seven Network" })
+  const nine = fixturePublisherAssembledMedia({ id: 12, publisher_name: "Nine", television_comms: 10 })
+  const versions = [
+    baseApprovedVersion(),
+    baseApprovedVersion({
+      id: "v-2",
+      mba_number: "MBA-T-2",
+      billingSchedule: [
+        {
+          monthYear: "2025-08",
+          mediaTypes: [
+            {
+              mediaType: "Television",
+              lineItems: [
+                { header1: "Seven Network", amount: 2_000, clientPaysForMedia: false },
+                { header1: "Nine", amount: 5_000, clientPaysForMedia: false },
+                { header1: "Nine", amount: 9_999, clientPaysForMedia: true },
+              ],
+            },
+          ],
+        },
+      ],
+    }),
+  ]
+  const rows = buildPublisherForecastMedia({
+    media_plan_versions: versions,
+    publishers: [seven, nine],
+    financial_year_start_year: FY_START,
+    scenario: "confirmed",
+  })
+  assert.deepEqual(
+    rows.map((r) => [r.publisher_id, r.publisher_name, r.fy_media, r.fy_commission]),
+    [
+      ["11", "Seven Network", 12_000, 1_800],
+      ["12", "Nine", 5_000, 500],
+    ]
+  )
+  assert.equal(rows[0]!.media.july, 10_000)
+  assert.equal(rows[0]!.media.august, 2_000)
+
+  const ds = buildFinanceForecastDataset({
+    media_plan_versions: versions,
+    clients: [{ id: "c1", mp_client_name: "Test Client Pty Ltd" }],
+    publishers: [seven, nine],
+    financial_year_start_year: FY_START,
+    scenario: "confirmed",
+  })
+  const commissionFy = revenueGroupLines(ds)
+    .filter((l) => l.line_key === FINANCE_FORECAST_LINE_KEYS.commission)
+    .reduce((t, l) => t + l.fy_total, 0)
+  assert.equal(commissionFy, 2_300)
+})
+
+test("buildPublisherForecastMedia with billed_mba_months leaves forecast-only lines out", () => {
+  const seven = fixturePublisherAssembledMedia({ id: 11, publisher_name: "Seven Network" })
+  const nine = fixturePublisherAssembledMedia({ id: 12, publisher_name: "Nine" })
+  const versions = [
+    baseApprovedVersion(),
+    baseApprovedVersion({
+      id: "v-2",
+      mba_number: "MBA-T-2",
+      billingSchedule: [
+        {
+          monthYear: "2025-07",
+          mediaTypes: [{ mediaType: "Television", lineItems: [{ header1: "Nine", amount: 5_000, clientPaysForMedia: false }] }],
+        },
+      ],
+    }),
+  ]
+  const billed = collectBilledMbaMonths([
+    { billing_type: "media", mba_number: "MBA-T-1", billing_month: "2025-07", billed: true },
+    { billing_type: "media", mba_number: "MBA-T-2", billing_month: "2025-07", billed: false },
+    { billing_type: "sow", mba_number: "MBA-T-2", billing_month: "2025-07", billed: true },
+  ])
+  const rows = buildPublisherForecastMedia({
+    media_plan_versions: versions,
+    publishers: [seven, nine],
+    financial_year_start_year: FY_START,
+    scenario: "confirmed",
+    billed_mba_months: billed,
+  })
+  assert.deepEqual(
+    rows.map((r) => [r.publisher_name, r.media.july]),
+    [["Seven Network", 10_000]]
+  )
+})
+
+test("buildChannelForecastMedia groups the same billable media by media type", () => {
+  const seven = fixturePublisherAssembledMedia({ id: 11, publisher_name: "Seven Network" })
+  const versions = [
+    baseApprovedVersion(),
+    baseApprovedVersion({
+      id: "v-2",
+      mba_number: "MBA-T-2",
+      billingSchedule: [
+        {
+          monthYear: "2025-09",
+          mediaTypes: [
+            {
+              mediaType: "Radio",
+              lineItems: [{ header1: "Seven Network", amount: 3_000, clientPaysForMedia: false }],
+            },
+          ],
+        },
+      ],
+    }),
+  ]
+  const params = {
+    media_plan_versions: versions,
+    publishers: [seven],
+    financial_year_start_year: FY_START,
+    scenario: "confirmed" as const,
+  }
+  const channels = buildChannelForecastMedia(params)
+  assert.deepEqual(
+    channels.map((c) => [c.media_type, c.label, c.fy_media]),
+    [
+      ["television", "Television", 10_000],
+      ["radio", "Radio", 3_000],
+    ]
+  )
+  assert.equal(channels[1]!.media.september, 3_000)
+
+  const publisherTotal = buildPublisherForecastMedia(params).reduce((t, r) => t + r.fy_media, 0)
+  assert.equal(
+    channels.reduce((t, c) => t + c.fy_media, 0),
+    publisherTotal
+  )
+})
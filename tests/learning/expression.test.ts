@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import termsData from "@/src/data/learning/terms.json";
+import { evaluateFormula, formatValue } from "@/src/lib/learning/evaluator";
+import {
+  ExpressionError,
+  evaluateExpression,
+  expressionIdentifiers,
+  parseExpression,
+} from "@/src/lib/learning/expression";
+import { FormulaDSL, LearningTerm } from "@/src/lib/learning/types";
+
+const evaluate = (source: string, scope: Record<string, number> = {}) =>
+  evaluateExpression(parseExpression(source), { pi: Math.PI, e: Math.E, ...scope });
+
+test("operator precedence and associativity", () => {
+  assert.equal(evaluate("1 + 2 * 3"), 7);
+  assert.equal(evaluate("(1 + 2) * 3"), 9);
+  assert.equal(evaluate("2 ^ 3 ^ 2"), 512);
+  assert.equal(evaluate("-2 ^ 2"), -4);
+  assert.equal(evaluate("10 - 4 - 3"), 3);
+  assert.equal(evaluate("1e3 / 4"), 250);
+  assert.equal(evaluate("6 × 7 ÷ 2"), 21);
+});
+
+test("percent and per-mille suffixes scale their operand", () => {
+  assert.equal(evaluate("50%"), 0.5);
+  assert.equal(evaluate("5‰ * 1000"), 5);
+  assert.equal(evaluate("margin% * 200", { margin: 25 }), 50);
+  assert.equal(evaluate("2 ^ 200%"), 4);
+});
+
+test("functions, comparisons and named constants", () => {
+  assert.equal(evaluate("min(3, 1, 2) + max(4, 9)"), 10);
+  assert.equal(evaluate("round(2.34567, 2)"), 2.35);
+  assert.equal(evaluate("round(2.5)"), 3);
+  assert.equal(evaluate("if(reach >= 50, 1, 0)", { reach: 60 }), 1);
+  assert.equal(evaluate("if(reach >= 50 && frequency < 3, 1, 2)", { reach: 60, frequency: 4 }), 2);
+  assert.equal(evaluate("log(1000) + ln(e)"), 4);
+  assert.equal(evaluate("sqrt(16) + abs(-1) + pow(2, 3)"), 13);
+  assert.equal(evaluate("round(pi, 4)"), 3.1416);
+
+  // `if` only evaluates the branch it takes.
+  assert.equal(evaluate("if(1, 5, missing)"), 5);
+});
+
+test("unsafe or malformed input is rejected before evaluation", () => {
+  for (const source of [
+    "constructor.constructor('return process')()",
+    "alert(1)",
+    "cost; 1",
+    "cost / video views",
+    "cost +",
+    "(cost",
+    "round()",
+    "",
+  ]) {
+    assert.throws(() => parseExpression(source), ExpressionError, source);
+  }
+  assert.throws(() => evaluate("toString"), /Unknown variable "toString"/);
+  for (const source of ["constructor(1)", "toString(2)", "__proto__(1)"]) {
+    assert.throws(() => parseExpression(source), { name: "ExpressionError", message: /^Unknown function/ }, source);
+  }
+  assert.throws(
+    () => evaluateExpression({ kind: "call", name: "constructor", args: [{ kind: "number", value: 1 }] }, {}),
+    /Unknown function "constructor"/
+  );
+});
+
+test("evaluateFormula merges formula constants and checks required inputs", () => {
+  const formula: FormulaDSL = {
+    expression: "impressions / universe * 100 * weight",
+    variables: [{ key: "impressions", label: "Impressions", required: true }],
+    output: { label: "TARPs" },
+    constants: { universe: 2_000_000, weight: 1 },
+    format: "number",
+  };
+  assert.equal(evaluateFormula(formula, { impressions: 1_000_000 }), 50);
+  assert.throws(() => evaluateFormula(formula, {}), /Impressions is required/);
+  assert.throws(() => evaluateFormula({ ...formula, constants: { universe: 0, weight: 1 } }, { impressions: 1 }), /invalid number/);
+  assert.equal(formatValue(4.5, "permille"), "4.50‰");
+});
+
+test("every calculator expression parses and reads only its own variables", () => {
+  const calculators = (termsData as LearningTerm[]).filter(
+    (term) => term.type === "formula" && term.formula && !term.formula.unmapped && term.formula.variables.length > 0,
+  );
+  for (const { term, formula } of calculators) {
+    const known = new Set([
+      "pi",
+      "e",
+      ...Object.keys(formula!.constants ?? {}),
+      ...formula!.variables.map((variable) => variable.key),
+    ]);
+    const unknown = expressionIdentifiers(parseExpression(formula!.expression)).filter((name) => !known.has(name));
+    assert.deepEqual(unknown, [], term);
+  }
+});
@@ -72,6 +72,66 @@ test("Ad Rank inverse (context)", () => {
   assert.equal(value.toFixed(2), "4.00");
 });
 
+const roiFormula: FormulaDSL = {
+  calculatorId: "roi",
+  expression: "(ret - cost) / cost",
+  variables: [
+    { key: "ret", label: "Return", required: true },
+    { key: "cost", label: "Cost", required: true },
+  ],
+  output: { label: "ROI" },
+  format: "percent",
+};
+
+const reachCurveFormula: FormulaDSL = {
+  calculatorId: "reach-curve",
+  expression: "reach_ceiling * (1 - exp(-grps / reach_ceiling))",
+  variables: [
+    { key: "grps", label: "GRPs", required: true },
+    { key: "reach_ceiling", label: "Reach Ceiling", unit: "%", required: true },
+  ],
+  output: { label: "Reach", unit: "%" },
+  format: "percent",
+};
+
+const threePlusReachFormula: FormulaDSL = {
+  calculatorId: "three-plus-reach",
+  expression: "100 * (1 - exp(-grps / 100) * (1 + grps / 100 + (grps / 100) ^ 2 / 2))",
+  variables: [{ key: "grps", label: "GRPs", required: true }],
+  output: { label: "3+ Reach", unit: "%" },
+  format: "percent",
+};
+
+test("ROI inverse solves the variable that appears twice", () => {
+  const ret = solveForVariable({ formula: roiFormula, solveFor: "ret", values: { cost: 200 }, desiredOutput: 0.5 });
+  assert.equal(ret.toFixed(2), "300.00");
+  const cost = solveForVariable({ formula: roiFormula, solveFor: "cost", values: { ret: 300 }, desiredOutput: 0.5 });
+  assert.equal(cost.toFixed(2), "200.00");
+});
+
+test("Reach curve inverse (GRPs) through exp", () => {
+  const reach = solveForOutput(reachCurveFormula, { grps: 300, reach_ceiling: 80 });
+  assert.equal(reach.toFixed(2), "78.12");
+  const grps = solveForVariable({
+    formula: reachCurveFormula,
+    solveFor: "grps",
+    values: { reach_ceiling: 80 },
+    desiredOutput: 60,
+  });
+  assert.equal(grps.toFixed(2), "110.90");
+});
+
+test("3+ reach inverse (GRPs) falls back to root finding", () => {
+  const reach = solveForOutput(threePlusReachFormula, { grps: 300 });
+  assert.equal(reach.toFixed(2), "57.68");
+  const grps = solveForVariable({ formula: threePlusReachFormula, solveFor: "grps", values: {}, desiredOutput: 57.68 });
+  assert.equal(grps.toFixed(0), "300");
+  assert.throws(
+    () => solveForVariable({ formula: threePlusReachFormula, solveFor: "grps", values: {}, desiredOutput: 120 }),
+    /No value of this variable/,
+  );
+});
+
 
 
 